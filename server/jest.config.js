@@ -4,8 +4,9 @@ export default {
   moduleNameMapper: {
     '^(\\.{1,2}/.*)\\.js$': '$1',
   },
+  setupFiles: ['<rootDir>/src/test/setup-env.js'],
   testMatch: ['**/src/**/*.{test,node.test}.js'],
   testPathIgnorePatterns: ['/node_modules/'],
-  collectCoverageFrom: ['src/**/*.js', '!src/**/*.test.js', '!src/**/*.node.test.js'],
+  collectCoverageFrom: ['src/**/*.js', '!src/**/*.test.js', '!src/**/*.node.test.js', '!src/test/**'],
   passWithNoTests: true, // Don't fail if no tests found
 }
@@ -0,0 +1,270 @@
+#!/usr/bin/env node
+
+/**
+ * Fake Microsoft Graph server for local calendar sync testing
+ * Usage: node scripts/fake-graph-server.js [--fixture events.json] [--empty]
+ *
+ * Implements just enough of Graph for the calendar sync:
+ * - POST /{tenant}/oauth2/v2.0/token          (client credentials)
+ * - GET  /v1.0/users/{mailbox}/calendarView/delta (paging + delta links)
+ *
+ * Point the API at it with:
+ *   GRAPH_API_URL=http://localhost:4010/v1.0
+ *   GRAPH_AUTHORITY_URL=http://localhost:4010
+ *   AZURE_TENANT_ID=fake AZURE_CLIENT_ID=fake AZURE_CLIENT_SECRET=fake
+ *
+ * Calendars are edited through a control API:
+ * - PUT    /_fake/users/{mailbox}/events/{id}  body: Graph event (subject, start, end, isCancelled...)
+ * - DELETE /_fake/users/{mailbox}/events/{id}
+ * - POST   /_fake/fail           body: { status, times } - fail the next Graph calls
+ * - POST   /_fake/expire-deltas  - delta links issued so far answer 410
+ * - POST   /_fake/reset          - empty every calendar
+ *
+ * Without --empty or --fixture, calendars of the seeded interviewers get a
+ * few interviews around today. A fixture is a JSON object of
+ * { "mailbox": [events] }.
+ */
+
+import { createServer } from 'node:http'
+import { readFileSync } from 'node:fs'
+import { randomBytes } from 'node:crypto'
+
+const port = parseInt(process.env.FAKE_GRAPH_PORT || '4010', 10)
+const pageSize = 10
+
+// mailbox -> Map(id -> { event, version, deleted })
+const calendars = new Map()
+const tokens = new Set()
+let version = 0
+let deltaEpoch = 0
+let failures = { status: 0, times: 0 }
+
+function calendar(mailbox) {
+  const key = mailbox.toLowerCase()
+  if (!calendars.has(key)) calendars.set(key, new Map())
+  return calendars.get(key)
+}
+
+function putEvent(mailbox, event) {
+  calendar(mailbox).set(event.id, { event, version: ++version, deleted: false })
+}
+
+function deleteEvent(mailbox, id) {
+  const entry = calendar(mailbox).get(id)
+  if (!entry) return false
+
+  entry.deleted = true
+  entry.version = ++version
+  return true
+}
+
+function overlaps(event, start, end) {
+  return Date.parse(`${event.start.dateTime.slice(0, 19)}Z`) < Date.parse(end) &&
+    Date.parse(`${event.end.dateTime.slice(0, 19)}Z`) > Date.parse(start)
+}
+
+function encode(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function decode(value) {
+  try {
+    return JSON.parse(Buffer.from(value, 'base64url').toString())
+  } catch {
+    return null
+  }
+}
+
+function graphTime(date) {
+  return { dateTime: date.toISOString().replace('Z', '0000'), timeZone: 'UTC' }
+}
+
+function seedDefaults() {
+  const day = 24 * 60 * 60 * 1000
+  const today = new Date()
+  today.setUTCHours(16, 0, 0, 0)
+  const at = (days, hours = 0) => new Date(today.getTime() + days * day + hours * 60 * 60 * 1000)
+
+  putEvent('sarah.chen@example.com', {
+    id: 'fake-sarah-1',
+    subject: 'Interview: Alex Kim (Senior Frontend Engineer)',
+    start: graphTime(at(2)),
+    end: graphTime(at(2, 1)),
+    isCancelled: false,
+    isAllDay: false
+  })
+  putEvent('sarah.chen@example.com', {
+    id: 'fake-sarah-2',
+    subject: '1:1 with manager',
+    start: graphTime(at(3)),
+    end: graphTime(at(3, 0.5)),
+    isCancelled: false,
+    isAllDay: false
+  })
+  putEvent('priya.patel@example.com', {
+    id: 'fake-priya-1',
+    subject: 'Interview with Sam Lee - Backend Engineer',
+    start: graphTime(at(4)),
+    end: graphTime(at(4, 0.75)),
+    isCancelled: false,
+    isAllDay: false
+  })
+}
+
+/**
+ * One page of calendar changes
+ * @param {string} mailbox
+ * @param {Object} query - { start, end, since, offset }
+ */
+function changesPage(mailbox, query, baseUrl) {
+  const entries = [...calendar(mailbox).values()]
+    .filter(entry => entry.version > query.since)
+    .sort((a, b) => a.version - b.version)
+    .filter(entry => {
+      // The initial read only lists live events in the window
+      if (query.since === 0) return !entry.deleted && overlaps(entry.event, query.start, query.end)
+      return true
+    })
+
+  const page = entries.slice(query.offset, query.offset + pageSize).map(entry =>
+    entry.deleted || !overlaps(entry.event, query.start, query.end)
+      ? { id: entry.event.id, '@removed': { reason: entry.deleted ? 'deleted' : 'changed' } }
+      : entry.event
+  )
+  const path = `${baseUrl}/v1.0/users/${encodeURIComponent(mailbox)}/calendarView/delta`
+
+  if (query.offset + pageSize < entries.length) {
+    return { value: page, '@odata.nextLink': `${path}?$skiptoken=${encode({ ...query, offset: query.offset + pageSize })}` }
+  }
+
+  const deltaToken = encode({ start: query.start, end: query.end, since: version, epoch: deltaEpoch })
+  return { value: page, '@odata.deltaLink': `${path}?$deltatoken=${deltaToken}` }
+}
+
+async function readBody(request) {
+  const chunks = []
+  for await (const chunk of request) chunks.push(chunk)
+  return Buffer.concat(chunks).toString()
+}
+
+function send(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+function graphError(response, status, code, message) {
+  send(response, status, { error: { code, message } })
+}
+
+async function handle(request, response) {
+  const url = new URL(request.url, `http://${request.headers.host}`)
+  const baseUrl = `http://${request.headers.host}`
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent)
+
+  // Token endpoint
+  if (request.method === 'POST' && parts.length === 4 && parts.slice(1).join('/') === 'oauth2/v2.0/token') {
+    const form = new URLSearchParams(await readBody(request))
+    if (form.get('grant_type') !== 'client_credentials' || !form.get('client_id') || !form.get('client_secret')) {
+      return send(response, 400, { error: 'invalid_request', error_description: 'Client credentials required' })
+    }
+
+    const token = randomBytes(16).toString('hex')
+    tokens.add(token)
+    return send(response, 200, { token_type: 'Bearer', expires_in: 3600, access_token: token })
+  }
+
+  // Control API
+  if (parts[0] === '_fake') {
+    if (request.method === 'POST' && parts[1] === 'reset') {
+      calendars.clear()
+      failures = { status: 0, times: 0 }
+      return send(response, 204)
+    }
+    if (request.method === 'POST' && parts[1] === 'fail') {
+      const body = JSON.parse((await readBody(request)) || '{}')
+      failures = { status: body.status || 503, times: body.times ?? 1 }
+      return send(response, 204)
+    }
+    if (request.method === 'POST' && parts[1] === 'expire-deltas') {
+      deltaEpoch++
+      return send(response, 204)
+    }
+    if (parts[1] === 'users' && parts[3] === 'events' && parts[4]) {
+      if (request.method === 'PUT') {
+        const event = { isCancelled: false, isAllDay: false, ...JSON.parse(await readBody(request)), id: parts[4] }
+        putEvent(parts[2], event)
+        return send(response, 200, event)
+      }
+      if (request.method === 'DELETE') {
+        return deleteEvent(parts[2], parts[4]) ? send(response, 204) : send(response, 404, { error: 'Not found' })
+      }
+    }
+    return send(response, 404, { error: 'Unknown control endpoint' })
+  }
+
+  // Graph API
+  if (request.method === 'GET' && parts[0] === 'v1.0' && parts[1] === 'users' && parts.slice(3).join('/') === 'calendarView/delta') {
+    const token = (request.headers.authorization || '').replace(/^Bearer /, '')
+    if (!tokens.has(token)) {
+      return graphError(response, 401, 'InvalidAuthenticationToken', 'Access token is empty or invalid')
+    }
+
+    if (failures.times > 0) {
+      failures.times--
+      return graphError(response, failures.status, 'ServiceUnavailable', 'Injected failure')
+    }
+
+    const mailbox = parts[2]
+    const skipToken = url.searchParams.get('$skiptoken')
+    const deltaToken = url.searchParams.get('$deltatoken')
+    let query
+
+    if (skipToken) {
+      query = decode(skipToken)
+    } else if (deltaToken) {
+      const delta = decode(deltaToken)
+      if (!delta || delta.epoch !== deltaEpoch) {
+        return graphError(response, 410, 'SyncStateNotFound', 'The sync state generation is not found')
+      }
+      query = { start: delta.start, end: delta.end, since: delta.since, offset: 0 }
+    } else {
+      const start = url.searchParams.get('startDateTime')
+      const end = url.searchParams.get('endDateTime')
+      if (!start || !end) {
+        return graphError(response, 400, 'ErrorInvalidParameter', 'startDateTime and endDateTime are required')
+      }
+      query = { start, end, since: 0, offset: 0 }
+    }
+
+    if (!query) {
+      return graphError(response, 400, 'ErrorInvalidParameter', 'Invalid token')
+    }
+
+    return send(response, 200, changesPage(mailbox, query, baseUrl))
+  }
+
+  return graphError(response, 404, 'ResourceNotFound', `${request.method} ${url.pathname} is not supported`)
+}
+
+const args = process.argv.slice(2)
+const fixtureIndex = args.indexOf('--fixture')
+
+if (fixtureIndex !== -1) {
+  const fixture = JSON.parse(readFileSync(args[fixtureIndex + 1], 'utf-8'))
+  for (const [mailbox, events] of Object.entries(fixture)) {
+    events.forEach(event => putEvent(mailbox, { isCancelled: false, isAllDay: false, ...event }))
+  }
+} else if (!args.includes('--empty')) {
+  seedDefaults()
+}
+
+createServer((request, response) => {
+  handle(request, response).catch(error => {
+    console.error(error)
+    send(response, 500, { error: { code: 'InternalServerError', message: error.message } })
+  })
+}).listen(port, () => {
+  console.log(`🧪 Fake Graph server listening on http://localhost:${port}`)
+  console.log(`   GRAPH_API_URL=http://localhost:${port}/v1.0`)
+  console.log(`   GRAPH_AUTHORITY_URL=http://localhost:${port}`)
+})
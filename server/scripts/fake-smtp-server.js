@@ -0,0 +1,181 @@
+#!/usr/bin/env node
+
+/**
+ * Fake SMTP server for local notification testing
+ * Usage: node scripts/fake-smtp-server.js [--quiet]
+ *
+ * Accepts every message (any AUTH PLAIN credentials, any recipient),
+ * prints it with its body decoded and keeps it in memory. No TLS, so the
+ * API sends in plain text after not being offered STARTTLS.
+ *
+ * Point the API at it with:
+ *   NOTIFICATION_TRANSPORT=smtp SMTP_HOST=localhost SMTP_PORT=2525
+ *
+ * Received messages are exposed over HTTP:
+ * - GET    /_fake/messages  - Messages received so far, oldest first
+ * - DELETE /_fake/messages  - Forget them
+ * - POST   /_fake/fail      body: { code, times } - reject the next RCPT TO commands
+ */
+
+import { createServer as createSmtpServer } from 'node:net'
+import { createServer as createHttpServer } from 'node:http'
+
+const smtpPort = parseInt(process.env.FAKE_SMTP_PORT || '2525', 10)
+const httpPort = parseInt(process.env.FAKE_SMTP_HTTP_PORT || '4011', 10)
+const quiet = process.argv.includes('--quiet')
+
+const messages = []
+let failures = { code: 0, times: 0 }
+
+/**
+ * Headers and decoded body of a received message
+ * @param {string} data - Raw DATA section
+ * @returns {{ headers: Object, text: string }}
+ */
+function parseMessage(data) {
+  const [head, ...rest] = data.split('\r\n\r\n')
+  const headers = {}
+  head.split('\r\n').forEach(line => {
+    const colon = line.indexOf(':')
+    if (colon > 0) headers[line.slice(0, colon).toLowerCase()] = line.slice(colon + 1).trim()
+  })
+
+  const body = rest.join('\r\n\r\n')
+  const text = /base64/i.test(headers['content-transfer-encoding'] || '')
+    ? Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8')
+    : body.replace(/^\.\./gm, '.')
+
+  return { headers, text: text.replace(/\r\n/g, '\n') }
+}
+
+const smtpServer = createSmtpServer(socket => {
+  let buffer = ''
+  let envelope = { from: null, to: [] }
+  let data = null // Lines of the message while in DATA
+
+  const reply = line => socket.write(`${line}\r\n`)
+
+  socket.setEncoding('utf8')
+  reply('220 localhost fake SMTP ready')
+
+  socket.on('data', chunk => {
+    buffer += chunk
+    let end
+    while ((end = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+
+      if (data) {
+        if (line !== '.') {
+          data.push(line)
+          continue
+        }
+
+        const { headers, text } = parseMessage(data.join('\r\n'))
+        const message = {
+          id: messages.length + 1,
+          received_at: new Date().toISOString(),
+          from: envelope.from,
+          to: envelope.to,
+          subject: headers.subject || '',
+          headers,
+          text
+        }
+        messages.push(message)
+        if (!quiet) {
+          console.log(`--- #${message.id} ${message.from} -> ${message.to.join(', ')}\nSubject: ${message.subject}\n\n${text}\n`)
+        }
+
+        data = null
+        envelope = { from: null, to: [] }
+        reply(`250 OK queued as ${message.id}`)
+        continue
+      }
+
+      const [verb] = line.split(' ')
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          reply('250-localhost')
+          reply('250-AUTH PLAIN')
+          reply('250 SIZE 10485760')
+          break
+        case 'HELO':
+          reply('250 localhost')
+          break
+        case 'AUTH':
+          reply('235 Authentication succeeded')
+          break
+        case 'MAIL':
+          envelope = { from: (/<([^>]*)>/.exec(line) || [])[1] ?? null, to: [] }
+          reply('250 OK')
+          break
+        case 'RCPT':
+          if (failures.times > 0) {
+            failures.times--
+            reply(`${failures.code} Recipient rejected`)
+            break
+          }
+          envelope.to.push((/<([^>]*)>/.exec(line) || [])[1])
+          reply('250 OK')
+          break
+        case 'DATA':
+          if (envelope.to.length === 0) {
+            reply('503 No recipients')
+            break
+          }
+          data = []
+          reply('354 End data with <CR><LF>.<CR><LF>')
+          break
+        case 'RSET':
+          envelope = { from: null, to: [] }
+          reply('250 OK')
+          break
+        case 'NOOP':
+          reply('250 OK')
+          break
+        case 'QUIT':
+          reply('221 Bye')
+          socket.end()
+          break
+        default:
+          reply('502 Command not implemented')
+      }
+    }
+  })
+
+  socket.on('error', () => {})
+})
+
+const httpServer = createHttpServer((req, res) => {
+  const send = (status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+
+  if (req.url === '/_fake/messages' && req.method === 'GET') {
+    return send(200, messages)
+  }
+  if (req.url === '/_fake/messages' && req.method === 'DELETE') {
+    messages.length = 0
+    return send(200, { ok: true })
+  }
+  if (req.url === '/_fake/fail' && req.method === 'POST') {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => {
+      const { code = 550, times = 1 } = body ? JSON.parse(body) : {}
+      failures = { code, times }
+      send(200, failures)
+    })
+    return
+  }
+
+  send(404, { error: 'Not found' })
+})
+
+smtpServer.listen(smtpPort, () => {
+  console.log(`Fake SMTP server listening on smtp://localhost:${smtpPort}`)
+})
+httpServer.listen(httpPort, () => {
+  console.log(`Received messages at http://localhost:${httpPort}/_fake/messages`)
+})
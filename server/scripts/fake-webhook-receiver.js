@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Fake webhook receiver for local webhook testing
+ * Usage: node scripts/fake-webhook-receiver.js [--quiet]
+ *
+ * Accepts every POST (any path), checks its signature when
+ * FAKE_WEBHOOK_SECRET is set, prints it and keeps it in memory.
+ *
+ * Subscribe it with a webhook URL such as http://localhost:4020/hooks
+ *
+ * Received deliveries are exposed over HTTP:
+ * - GET    /_fake/deliveries  - Deliveries received so far, oldest first
+ * - DELETE /_fake/deliveries  - Forget them
+ * - POST   /_fake/fail        body: { status, times } - answer the next deliveries with an error
+ */
+
+import { createServer } from 'node:http'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+const port = parseInt(process.env.FAKE_WEBHOOK_PORT || '4020', 10)
+const secret = process.env.FAKE_WEBHOOK_SECRET || ''
+const quiet = process.argv.includes('--quiet')
+
+const deliveries = []
+let failures = { status: 0, times: 0 }
+
+/**
+ * Whether the X-Roster-Signature header matches the body
+ * @param {Object} headers
+ * @param {string} body
+ * @returns {boolean|null} null when no secret is configured
+ */
+function verifySignature(headers, body) {
+  if (!secret) return null
+
+  const expected = `sha256=${createHmac('sha256', secret)
+    .update(`${headers['x-roster-timestamp']}.${body}`)
+    .digest('hex')}`
+  const received = headers['x-roster-signature'] || ''
+
+  return received.length === expected.length &&
+    timingSafeEqual(Buffer.from(received), Buffer.from(expected))
+}
+
+const server = createServer((req, res) => {
+  const send = (status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+
+  let body = ''
+  req.on('data', chunk => { body += chunk })
+  req.on('end', () => {
+    if (req.url === '/_fake/deliveries' && req.method === 'GET') {
+      return send(200, deliveries)
+    }
+    if (req.url === '/_fake/deliveries' && req.method === 'DELETE') {
+      deliveries.length = 0
+      return send(200, { ok: true })
+    }
+    if (req.url === '/_fake/fail' && req.method === 'POST') {
+      const { status = 500, times = 1 } = body ? JSON.parse(body) : {}
+      failures = { status, times }
+      return send(200, failures)
+    }
+    if (req.method !== 'POST') {
+      return send(404, { error: 'Not found' })
+    }
+
+    const signatureValid = verifySignature(req.headers, body)
+    const failWith = failures.times > 0 ? failures.status : 0
+    if (failWith) failures.times--
+
+    const delivery = {
+      path: req.url,
+      event: req.headers['x-roster-event'],
+      delivery: req.headers['x-roster-delivery'],
+      signature_valid: signatureValid,
+      responded: failWith || (signatureValid === false ? 401 : 200),
+      payload: JSON.parse(body || 'null')
+    }
+    deliveries.push(delivery)
+
+    if (!quiet) {
+      console.log(`\n--- ${delivery.event} (${delivery.delivery}) -> ${delivery.responded}`)
+      console.log(JSON.stringify(delivery.payload, null, 2))
+    }
+
+    send(delivery.responded, { received: delivery.responded === 200 })
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Fake webhook receiver listening on http://localhost:${port}`)
+  console.log(`Received deliveries at http://localhost:${port}/_fake/deliveries`)
+})
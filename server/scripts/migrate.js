@@ -1,7 +1,7 @@
 import Database from 'better-sqlite3'
-import { readFileSync, mkdirSync } from 'fs'
+import { readFileSync, readdirSync, mkdirSync } from 'fs'
 import { join, dirname } from 'path'
-import { fileURLToPath } from 'url'
+import { fileURLToPath, pathToFileURL } from 'url'
 import 'dotenv/config'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
@@ -18,25 +18,42 @@ db.pragma('journal_mode = WAL')
 db.pragma('foreign_keys = ON')
 
 try {
-  // Read and execute migration file
-  const migrationPath = join(__dirname, '../src/db/migrations/001_initial.sql')
-  const migration = readFileSync(migrationPath, 'utf-8')
-
-  // Split by semicolon and execute each statement
-  const statements = migration
-    .split(';')
-    .map(stmt => stmt.trim())
-    .filter(stmt => stmt.length > 0)
-
-  statements.forEach((stmt, index) => {
-    try {
-      db.exec(stmt)
-      console.log(`✅ Executed statement ${index + 1}/${statements.length}`)
-    } catch (err) {
-      console.error(`❌ Error in statement ${index + 1}:`, err.message)
-      console.error(`Statement:`, stmt.substring(0, 100))
+  // Read and execute every migration file in order (001_, 002_, ...)
+  // .sql files hold schema changes, .js files export up(db) for data
+  // migrations that need more than SQL (they must be safe to re-run)
+  const migrationsDir = join(__dirname, '../src/db/migrations')
+  const migrationFiles = readdirSync(migrationsDir)
+    .filter(file => file.endsWith('.sql') || file.endsWith('.js'))
+    .sort()
+
+  for (const file of migrationFiles) {
+    console.log(`📄 Applying ${file}`)
+
+    if (file.endsWith('.js')) {
+      const { up } = await import(pathToFileURL(join(migrationsDir, file)).href)
+      const result = up(db)
+      console.log(`✅ Executed data migration`, result ?? '')
+      continue
     }
-  })
+
+    const migration = readFileSync(join(migrationsDir, file), 'utf-8')
+
+    // Split by semicolon and execute each statement
+    const statements = migration
+      .split(';')
+      .map(stmt => stmt.trim())
+      .filter(stmt => stmt.length > 0)
+
+    statements.forEach((stmt, index) => {
+      try {
+        db.exec(stmt)
+        console.log(`✅ Executed statement ${index + 1}/${statements.length}`)
+      } catch (err) {
+        console.error(`❌ Error in statement ${index + 1}:`, err.message)
+        console.error(`Statement:`, stmt.substring(0, 100))
+      }
+    })
+  }
 
   console.log('✅ Migrations completed successfully')
 } catch (error) {
@@ -13,6 +13,9 @@ try {
   // Clear existing data
   db.exec('DELETE FROM audit_logs')
   db.exec('DELETE FROM interview_events')
+  db.exec('DELETE FROM event_series')
+  db.exec('DELETE FROM candidates')
+  db.exec('DELETE FROM positions')
   db.exec('DELETE FROM interviewers')
   db.exec('DELETE FROM users')
 
@@ -132,6 +135,48 @@ try {
 
   console.log(`✅ Seeded ${interviewers.length} interviewers`)
 
+  // Seed positions
+  const positions = [
+    { id: nanoid(), title: 'Senior Frontend Engineer', department: 'Engineering', hiring_manager_email: 'sarah.chen@example.com', required_skills: ['React', 'TypeScript'] },
+    { id: nanoid(), title: 'Backend Engineer', department: 'Engineering', hiring_manager_email: 'priya.patel@example.com', required_skills: ['Node.js', 'Databases'] },
+    { id: nanoid(), title: 'DevOps Engineer', department: 'Infrastructure', hiring_manager_email: 'marcus.j@example.com', required_skills: ['Kubernetes', 'CI/CD'] }
+  ]
+
+  const insertPosition = db.prepare(`
+    INSERT INTO positions (id, title, department, hiring_manager_email, required_skills)
+    VALUES (?, ?, ?, ?, ?)
+  `)
+
+  positions.forEach(position => {
+    insertPosition.run(
+      position.id,
+      position.title,
+      position.department,
+      position.hiring_manager_email,
+      JSON.stringify(position.required_skills)
+    )
+  })
+
+  console.log(`✅ Seeded ${positions.length} positions`)
+
+  // Seed candidates
+  const candidates = [
+    { id: nanoid(), name: 'John Doe', email: 'john.doe@example.net', position: 'Senior Frontend Engineer' },
+    { id: nanoid(), name: 'Jane Smith', email: 'jane.smith@example.net', position: 'Backend Engineer' },
+    { id: nanoid(), name: 'Mike Brown', email: 'mike.brown@example.net', position: 'DevOps Engineer' }
+  ]
+
+  const insertCandidate = db.prepare(`
+    INSERT INTO candidates (id, name, email, position)
+    VALUES (?, ?, ?, ?)
+  `)
+
+  candidates.forEach(candidate => {
+    insertCandidate.run(candidate.id, candidate.name, candidate.email, candidate.position)
+  })
+
+  console.log(`✅ Seeded ${candidates.length} candidates`)
+
   // Seed interview events
   const now = new Date()
   const events = [
@@ -140,7 +185,9 @@ try {
       interviewer_email: 'sarah.chen@example.com',
       start_time: new Date(now.getTime() + 1 * 24 * 60 * 60 * 1000).toISOString(),
       end_time: new Date(now.getTime() + 1 * 24 * 60 * 60 * 1000 + 60 * 60 * 1000).toISOString(),
+      candidate_id: candidates[0].id,
       candidate_name: 'John Doe',
+      position_id: positions[0].id,
       position: 'Senior Frontend Engineer',
       status: 'pending',
       skills_assessed: JSON.stringify(['React', 'TypeScript']),
@@ -151,7 +198,9 @@ try {
       interviewer_email: 'priya.patel@example.com',
       start_time: new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000).toISOString(),
       end_time: new Date(now.getTime() - 2 * 24 * 60 * 60 * 1000 + 45 * 60 * 1000).toISOString(),
+      candidate_id: candidates[1].id,
       candidate_name: 'Jane Smith',
+      position_id: positions[1].id,
       position: 'Backend Engineer',
       status: 'attended',
       skills_assessed: JSON.stringify(['Node.js', 'Databases']),
@@ -163,7 +212,9 @@ try {
       interviewer_email: 'marcus.j@example.com',
       start_time: new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000).toISOString(),
       end_time: new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000 + 60 * 60 * 1000).toISOString(),
+      candidate_id: candidates[2].id,
       candidate_name: 'Mike Brown',
+      position_id: positions[2].id,
       position: 'DevOps Engineer',
       status: 'ghosted',
       skills_assessed: JSON.stringify(['Kubernetes', 'CI/CD']),
@@ -174,8 +225,8 @@ try {
 
   const insertEvent = db.prepare(`
     INSERT INTO interview_events
-    (id, interviewer_email, start_time, end_time, candidate_name, position, status, skills_assessed, duration_minutes, notes)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    (id, interviewer_email, start_time, end_time, candidate_id, candidate_name, position_id, position, status, skills_assessed, duration_minutes, notes)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `)
 
   events.forEach(event => {
@@ -184,7 +235,9 @@ try {
       event.interviewer_email,
       event.start_time,
       event.end_time,
+      event.candidate_id,
       event.candidate_name,
+      event.position_id,
       event.position,
       event.status,
       event.skills_assessed,
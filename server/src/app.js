@@ -12,6 +12,19 @@ import eventsPlugin from './features/events/index.js'
 import auditLogsPlugin from './features/audit-logs/index.js'
 import authRoutesPlugin from './features/auth/index.js'
 import usersPlugin from './features/users/index.js'
+import candidatesPlugin from './features/candidates/index.js'
+import loopsPlugin from './features/loops/index.js'
+import positionsPlugin from './features/positions/index.js'
+import calendarPlugin from './features/calendar/index.js'
+import calendarSyncPlugin from './features/calendar-sync/index.js'
+import analyticsPlugin from './features/analytics/index.js'
+import markingPlugin from './features/marking/index.js'
+import myInterviewsPlugin from './features/my-interviews/index.js'
+import notificationsPlugin from './features/notifications/index.js'
+import webhooksPlugin from './features/webhooks/index.js'
+import { NotificationService } from './features/notifications/service.js'
+import { createTransport } from './features/notifications/transports.js'
+import { WebhookService } from './features/webhooks/service.js'
 import { AuditLogger } from './utils/audit-logger.js'
 
 /**
@@ -60,6 +73,25 @@ export async function createApp() {
   // Decorate with audit logger
   fastify.decorate('auditLogger', new AuditLogger(fastify.db))
 
+  // Decorate with notification service (used by features that send notifications)
+  fastify.decorate('notifier', new NotificationService(
+    fastify.db,
+    createTransport(config.notifications, fastify.log),
+    {
+      from: config.notifications.from,
+      appUrl: config.notifications.appUrl,
+      logger: fastify.log
+    }
+  ))
+
+  // Decorate with webhook service (used by features that dispatch webhooks)
+  fastify.decorate('webhooks', new WebhookService(fastify.db, fastify.auditLogger, {
+    maxAttempts: config.webhooks.maxAttempts,
+    retryBaseSeconds: config.webhooks.retryBaseSeconds,
+    timeoutMs: config.webhooks.timeoutMs,
+    logger: fastify.log
+  }))
+
   // Health check endpoint
   fastify.get('/api/health', {
     schema: {
@@ -89,7 +121,17 @@ export async function createApp() {
     await fastify.register(authRoutesPlugin)
     await fastify.register(usersPlugin)
     await fastify.register(interviewersPlugin)
+    await fastify.register(candidatesPlugin)
     await fastify.register(eventsPlugin)
+    await fastify.register(loopsPlugin)
+    await fastify.register(positionsPlugin)
+    await fastify.register(calendarPlugin)
+    await fastify.register(calendarSyncPlugin)
+    await fastify.register(analyticsPlugin)
+    await fastify.register(markingPlugin)
+    await fastify.register(myInterviewsPlugin)
+    await fastify.register(notificationsPlugin)
+    await fastify.register(webhooksPlugin)
     await fastify.register(auditLogsPlugin)
   }, { prefix: '/api' })
 
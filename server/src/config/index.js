@@ -26,6 +26,86 @@ const config = {
     timeWindow: parseInt(process.env.RATE_LIMIT_TIME_WINDOW || '60000', 10)
   },
 
+  scheduling: {
+    // Minimum gap between two interviews of the same interviewer
+    bufferMinutes: parseInt(process.env.INTERVIEW_BUFFER_MINUTES || '0', 10),
+    // Days ahead the expansion job keeps recurring series filled with occurrences
+    seriesHorizonDays: parseInt(process.env.SERIES_HORIZON_DAYS || '180', 10),
+    // 0 disables the background expansion job (the expand endpoint still works)
+    seriesExpansionIntervalMinutes: parseInt(process.env.SERIES_EXPANSION_INTERVAL_MINUTES || '60', 10)
+  },
+
+  markingQueue: {
+    // Minutes after an interview ends before it counts as overdue for marking
+    graceMinutes: parseInt(process.env.MARKING_GRACE_MINUTES || '60', 10),
+    // Hours overdue before an unmarked interview is escalated to admins
+    escalateAfterHours: parseInt(process.env.MARKING_ESCALATE_AFTER_HOURS || '48', 10),
+    // 0 disables the background escalation job (manual runs still work)
+    intervalMinutes: parseInt(process.env.MARKING_QUEUE_INTERVAL_MINUTES || '15', 10)
+  },
+
+  reliability: {
+    // Rolling window the ghost and cancellation rates are measured over
+    windowDays: parseInt(process.env.RELIABILITY_WINDOW_DAYS || '90', 10),
+    // "Needs attention" once either rate reaches its threshold (fractions, 0-1)
+    ghostRateThreshold: parseFloat(process.env.RELIABILITY_GHOST_RATE_THRESHOLD || '0.1'),
+    cancellationRateThreshold: parseFloat(process.env.RELIABILITY_CANCELLATION_RATE_THRESHOLD || '0.2'),
+    // Interviews in the window before an interviewer can be flagged at all
+    minInterviews: parseInt(process.env.RELIABILITY_MIN_INTERVIEWS || '3', 10)
+  },
+
+  calendar: {
+    // Public origin for calendar feed URLs (defaults to the request host)
+    feedBaseUrl: process.env.CALENDAR_FEED_BASE_URL || ''
+  },
+
+  calendarSync: {
+    // Azure AD app with the Calendars.Read application permission
+    tenantId: process.env.AZURE_TENANT_ID || '',
+    clientId: process.env.AZURE_CLIENT_ID || '',
+    clientSecret: process.env.AZURE_CLIENT_SECRET || '',
+    // Point both at the fake Graph server (npm run graph:fake) for local testing
+    graphUrl: process.env.GRAPH_API_URL || 'https://graph.microsoft.com/v1.0',
+    authorityUrl: process.env.GRAPH_AUTHORITY_URL || 'https://login.microsoftonline.com',
+    // 0 disables the background sync (manual runs still work)
+    intervalMinutes: parseInt(process.env.CALENDAR_SYNC_INTERVAL_MINUTES || '15', 10),
+    // Only calendar entries whose subject contains this word are imported
+    subjectKeyword: process.env.CALENDAR_SYNC_SUBJECT_KEYWORD || 'interview'
+  },
+
+  notifications: {
+    // smtp, file or console
+    transport: process.env.NOTIFICATION_TRANSPORT || 'console',
+    from: process.env.NOTIFICATION_FROM || 'Interviewer Roster <no-reply@localhost>',
+    // Origin of the web app, for links in messages
+    appUrl: process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:5173',
+    // Where the file transport appends messages
+    filePath: process.env.NOTIFICATION_FILE_PATH || './data/notifications.log',
+    // Point at the fake SMTP server (npm run smtp:fake) for local testing
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      // Implicit TLS (usually port 465); otherwise STARTTLS when the server offers it
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || '',
+      password: process.env.SMTP_PASSWORD || '',
+      // Gives up on a relay that stops answering, so the delivery is logged as failed
+      timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '30000', 10)
+    },
+    // Hour (UTC) the daily summary goes out, -1 disables it (manual runs still work)
+    dailySummaryHour: parseInt(process.env.NOTIFICATION_DAILY_SUMMARY_HOUR || '7', 10)
+  },
+  webhooks: {
+    // Attempts per delivery, including the first
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '6', 10),
+    // Delay before the first retry, doubled for each one after
+    retryBaseSeconds: parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30', 10),
+    // How often due retries are picked up, 0 disables retries
+    retryIntervalSeconds: parseInt(process.env.WEBHOOK_RETRY_INTERVAL_SECONDS || '15', 10),
+    // Per-request timeout
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10)
+  },
+
   swagger: {
     enabled: process.env.SWAGGER_ENABLED === 'true' || process.env.NODE_ENV === 'development'
   },
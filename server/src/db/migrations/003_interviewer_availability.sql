@@ -0,0 +1,40 @@
+-- Interviewer availability (free/busy model)
+-- Weekly windows, date-specific overrides and blackout dates.
+-- All times are wall-clock HH:MM in the interviewer's own timezone.
+
+-- Recurring weekly windows (day_of_week: 0 = Sunday ... 6 = Saturday)
+CREATE TABLE IF NOT EXISTS interviewer_availability_windows (
+  id TEXT PRIMARY KEY,
+  interviewer_id TEXT NOT NULL,
+  day_of_week INTEGER NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (interviewer_id) REFERENCES interviewers(id) ON DELETE CASCADE
+);
+
+-- Date-specific windows that replace the weekly windows for that date
+CREATE TABLE IF NOT EXISTS interviewer_availability_overrides (
+  id TEXT PRIMARY KEY,
+  interviewer_id TEXT NOT NULL,
+  date TEXT NOT NULL, -- YYYY-MM-DD
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (interviewer_id) REFERENCES interviewers(id) ON DELETE CASCADE
+);
+
+-- Blackout date ranges (inclusive) with no availability at all
+CREATE TABLE IF NOT EXISTS interviewer_availability_blackouts (
+  id TEXT PRIMARY KEY,
+  interviewer_id TEXT NOT NULL,
+  start_date TEXT NOT NULL, -- YYYY-MM-DD
+  end_date TEXT NOT NULL, -- YYYY-MM-DD
+  reason TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  FOREIGN KEY (interviewer_id) REFERENCES interviewers(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_availability_windows_interviewer ON interviewer_availability_windows(interviewer_id);
+CREATE INDEX IF NOT EXISTS idx_availability_overrides_interviewer_date ON interviewer_availability_overrides(interviewer_id, date);
+CREATE INDEX IF NOT EXISTS idx_availability_blackouts_interviewer ON interviewer_availability_blackouts(interviewer_id, start_date, end_date);
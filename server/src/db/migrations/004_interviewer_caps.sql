@@ -0,0 +1,11 @@
+-- Per-interviewer interview caps for load balancing
+-- NULL caps mean no limit
+
+-- Maximum non-cancelled interviews per day (interviewer timezone)
+ALTER TABLE interviewers ADD COLUMN max_interviews_per_day INTEGER;
+
+-- Maximum non-cancelled interviews per Monday-Sunday week (interviewer timezone)
+ALTER TABLE interviewers ADD COLUMN max_interviews_per_week INTEGER;
+
+-- What happens when a new event would exceed a cap: block rejects it, warn allows it with a warning
+ALTER TABLE interviewers ADD COLUMN cap_enforcement TEXT NOT NULL DEFAULT 'block' CHECK (cap_enforcement IN ('block', 'warn'));
@@ -0,0 +1,36 @@
+-- Candidates as a first-class entity
+-- Links every interview of one candidate into a single loop history
+
+CREATE TABLE IF NOT EXISTS candidates (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  email TEXT UNIQUE,
+  phone TEXT,
+  position TEXT,
+  notes TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidates_name ON candidates(name);
+
+-- Events reference a candidate (candidate_name is kept as a display copy)
+ALTER TABLE interview_events ADD COLUMN candidate_id TEXT REFERENCES candidates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_candidate_id ON interview_events(candidate_id);
+
+-- Backfill: one candidate per distinct free-text candidate name
+INSERT INTO candidates (id, name, position)
+SELECT lower(hex(randomblob(10))), candidate_name, MIN(position)
+FROM interview_events
+WHERE candidate_name IS NOT NULL
+AND trim(candidate_name) != ''
+AND NOT EXISTS (SELECT 1 FROM candidates c WHERE c.name = interview_events.candidate_name)
+GROUP BY candidate_name;
+
+-- Backfill: link existing events to their candidate
+UPDATE interview_events
+SET candidate_id = (SELECT c.id FROM candidates c WHERE c.name = interview_events.candidate_name)
+WHERE candidate_id IS NULL
+AND candidate_name IS NOT NULL;
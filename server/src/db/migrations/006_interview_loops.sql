@@ -0,0 +1,22 @@
+-- Interview loops
+-- Groups the interviews of one candidate for one position into a single unit
+
+CREATE TABLE IF NOT EXISTS interview_loops (
+  id TEXT PRIMARY KEY,
+  candidate_id TEXT NOT NULL REFERENCES candidates(id) ON DELETE CASCADE,
+  position TEXT,
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK(status IN ('scheduled', 'in_progress', 'completed', 'cancelled')),
+  notes TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_loops_candidate_id ON interview_loops(candidate_id);
+CREATE INDEX IF NOT EXISTS idx_loops_status ON interview_loops(status);
+
+-- Events belong to at most one loop, loop_stage is the 1-based order within it
+ALTER TABLE interview_events ADD COLUMN loop_id TEXT REFERENCES interview_loops(id) ON DELETE SET NULL;
+ALTER TABLE interview_events ADD COLUMN loop_stage INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_events_loop_id ON interview_events(loop_id);
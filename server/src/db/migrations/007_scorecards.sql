@@ -0,0 +1,15 @@
+-- Interviewer scorecards
+-- Structured feedback for an attended interview, one scorecard per event
+
+CREATE TABLE IF NOT EXISTS scorecards (
+  id TEXT PRIMARY KEY,
+  event_id TEXT NOT NULL UNIQUE REFERENCES interview_events(id) ON DELETE CASCADE,
+  ratings TEXT NOT NULL DEFAULT '{}',
+  recommendation TEXT NOT NULL CHECK(recommendation IN ('strong_hire', 'hire', 'no_hire', 'strong_no_hire')),
+  feedback TEXT,
+  submitted_by TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_scorecards_event_id ON scorecards(event_id);
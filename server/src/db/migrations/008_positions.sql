@@ -0,0 +1,24 @@
+-- Position / requisition catalogue
+-- Replaces the free-text position on events and loops with a shared record
+
+CREATE TABLE IF NOT EXISTS positions (
+  id TEXT PRIMARY KEY,
+  title TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  department TEXT,
+  hiring_manager_email TEXT,
+  required_skills TEXT, -- JSON array
+  status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'closed')),
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_positions_status ON positions(status);
+
+-- Events and loops reference a position (position is kept as a display copy)
+ALTER TABLE interview_events ADD COLUMN position_id TEXT REFERENCES positions(id) ON DELETE SET NULL;
+ALTER TABLE interview_loops ADD COLUMN position_id TEXT REFERENCES positions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_events_position_id ON interview_events(position_id);
+
+-- Existing free-text positions are fuzzy-matched into positions by 008_positions_backfill.js
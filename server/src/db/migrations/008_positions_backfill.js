@@ -0,0 +1,62 @@
+import { nanoid } from 'nanoid'
+import { findBestMatch } from '../../utils/position-matcher.js'
+
+/**
+ * Backfill positions from free-text event and loop titles
+ *
+ * Distinct titles are processed most-used first, so the most common spelling
+ * becomes the position title and its variants ("Sr. Frontend Eng") are linked
+ * to it. Only rows without a position_id are touched, so re-running is safe.
+ *
+ * @param {import('better-sqlite3').Database} db
+ * @returns {{created: number, linked: number}}
+ */
+export function up(db) {
+  const titles = db.prepare(`
+    SELECT position as title, COUNT(*) as uses FROM (
+      SELECT trim(position) as position FROM interview_events
+      WHERE position_id IS NULL AND position IS NOT NULL AND trim(position) != ''
+      UNION ALL
+      SELECT trim(position) as position FROM interview_loops
+      WHERE position_id IS NULL AND position IS NOT NULL AND trim(position) != ''
+    )
+    GROUP BY position
+    ORDER BY uses DESC, position ASC
+  `).all()
+
+  const positions = db.prepare('SELECT id, title FROM positions').all()
+  const insertPosition = db.prepare(`
+    INSERT INTO positions (id, title, required_skills, created_by)
+    VALUES (?, ?, '[]', 'system')
+  `)
+  const linkEvents = db.prepare(`
+    UPDATE interview_events SET position_id = ?, position = ?
+    WHERE position_id IS NULL AND trim(position) = ?
+  `)
+  const linkLoops = db.prepare(`
+    UPDATE interview_loops SET position_id = ?, position = ?
+    WHERE position_id IS NULL AND trim(position) = ?
+  `)
+
+  let created = 0
+  let linked = 0
+
+  const backfill = db.transaction(() => {
+    titles.forEach(({ title }) => {
+      let position = findBestMatch(title, positions)?.position
+
+      if (!position) {
+        position = { id: nanoid(), title }
+        insertPosition.run(position.id, position.title)
+        positions.push(position)
+        created++
+      }
+
+      linked += linkEvents.run(position.id, position.title, title).changes
+      linked += linkLoops.run(position.id, position.title, title).changes
+    })
+  })
+  backfill()
+
+  return { created, linked }
+}
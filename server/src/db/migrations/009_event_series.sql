@@ -0,0 +1,28 @@
+-- Recurring interviews
+-- A series holds the recurrence rule and the template for its occurrences.
+-- Occurrences are ordinary interview_events rows (so each can be marked),
+-- created up to the latest date anyone has looked at.
+
+CREATE TABLE IF NOT EXISTS event_series (
+  id TEXT PRIMARY KEY,
+  interviewer_email TEXT NOT NULL REFERENCES interviewers(email) ON DELETE CASCADE,
+  rrule TEXT NOT NULL, -- FREQ=DAILY|WEEKLY, INTERVAL, COUNT or UNTIL
+  dtstart TEXT NOT NULL, -- start of the first occurrence
+  duration_minutes INTEGER NOT NULL,
+  expanded_count INTEGER NOT NULL DEFAULT 0, -- occurrences created so far (never re-created)
+  skills_assessed TEXT, -- JSON array
+  candidate_id TEXT REFERENCES candidates(id) ON DELETE SET NULL,
+  candidate_name TEXT,
+  position_id TEXT REFERENCES positions(id) ON DELETE SET NULL,
+  position TEXT,
+  notes TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Occurrences point at their series, series_index is the 0-based position in the rule
+ALTER TABLE interview_events ADD COLUMN series_id TEXT REFERENCES event_series(id) ON DELETE SET NULL;
+ALTER TABLE interview_events ADD COLUMN series_index INTEGER;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_series_occurrence ON interview_events(series_id, series_index);
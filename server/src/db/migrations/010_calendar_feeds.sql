@@ -0,0 +1,16 @@
+-- iCalendar subscription feeds
+-- The token in the feed URL is the only credential, so it is random and
+-- can be revoked. A feed without interviewer_email covers the whole roster.
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id TEXT PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE,
+  interviewer_email TEXT REFERENCES interviewers(email) ON DELETE CASCADE,
+  created_by TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  last_accessed_at TEXT,
+  revoked_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_interviewer ON calendar_feeds(interviewer_email);
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_created_by ON calendar_feeds(created_by);
@@ -0,0 +1,18 @@
+-- Outlook calendar sync (read-only, Outlook to roster)
+-- One row per synced interviewer: the Graph delta link for incremental
+-- runs plus the outcome of the last run. Synced events are matched on
+-- their Outlook event ID, so it is unique where present.
+
+CREATE TABLE IF NOT EXISTS calendar_sync_state (
+  interviewer_email TEXT PRIMARY KEY REFERENCES interviewers(email) ON DELETE CASCADE,
+  delta_link TEXT,
+  last_run_at TEXT,
+  last_status TEXT CHECK (last_status IN ('ok', 'error')),
+  last_error TEXT,
+  events_created INTEGER NOT NULL DEFAULT 0,
+  events_updated INTEGER NOT NULL DEFAULT 0,
+  events_cancelled INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_calendar_event_id
+  ON interview_events(calendar_event_id) WHERE calendar_event_id IS NOT NULL;
@@ -0,0 +1,16 @@
+-- Attendance-marking queue
+-- coordinator_email is whoever scheduled the event (NULL for synced or
+-- imported events). Past-due pending events are grouped by it in the
+-- "Needs marking" inbox. An escalation row is written once per event that
+-- stays unmarked past the escalation delay and removed once it is marked.
+
+ALTER TABLE interview_events ADD COLUMN coordinator_email TEXT;
+
+CREATE TABLE IF NOT EXISTS marking_escalations (
+  event_id TEXT PRIMARY KEY REFERENCES interview_events(id) ON DELETE CASCADE,
+  coordinator_email TEXT,
+  escalated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_events_status_end ON interview_events(status, end_time);
+CREATE INDEX IF NOT EXISTS idx_events_coordinator ON interview_events(coordinator_email);
@@ -0,0 +1,47 @@
+/**
+ * Backfill event coordinators from whoever created the event
+ *
+ * Series occurrences and loop stages take the creator of their series or
+ * loop, other events the user of their CREATE_EVENT audit entry. Events
+ * created by the system (sync, import) stay unassigned. Only rows without a
+ * coordinator_email are touched, so re-running is safe.
+ *
+ * @param {import('better-sqlite3').Database} db
+ * @returns {{assigned: number}}
+ */
+export function up(db) {
+  const fromSeries = db.prepare(`
+    UPDATE interview_events SET coordinator_email = (
+      SELECT s.created_by FROM event_series s WHERE s.id = interview_events.series_id
+    )
+    WHERE coordinator_email IS NULL AND series_id IS NOT NULL
+  `)
+  const fromLoops = db.prepare(`
+    UPDATE interview_events SET coordinator_email = (
+      SELECT l.created_by FROM interview_loops l WHERE l.id = interview_events.loop_id
+    )
+    WHERE coordinator_email IS NULL AND loop_id IS NOT NULL
+  `)
+  const fromAuditLog = db.prepare(`
+    UPDATE interview_events SET coordinator_email = (
+      SELECT a.user_email FROM audit_logs a
+      WHERE a.entity_type = 'event' AND a.entity_id = interview_events.id
+        AND a.action = 'CREATE_EVENT' AND a.user_email != 'system'
+      ORDER BY a.timestamp ASC LIMIT 1
+    )
+    WHERE coordinator_email IS NULL
+  `)
+
+  const backfill = db.transaction(() => {
+    fromSeries.run()
+    fromLoops.run()
+    fromAuditLog.run()
+  })
+  backfill()
+
+  const { assigned } = db.prepare(
+    'SELECT COUNT(*) as assigned FROM interview_events WHERE coordinator_email IS NOT NULL'
+  ).get()
+
+  return { assigned }
+}
@@ -0,0 +1,10 @@
+-- Interviewer responses ("My interviews")
+-- An interviewer confirms an upcoming interview or flags a conflict with a
+-- note. Moving the interview to another time or interviewer clears the
+-- response, so the (new) interviewer is asked again.
+
+ALTER TABLE interview_events ADD COLUMN interviewer_response TEXT CHECK(interviewer_response IN ('confirmed', 'conflict'));
+ALTER TABLE interview_events ADD COLUMN interviewer_response_note TEXT;
+ALTER TABLE interview_events ADD COLUMN interviewer_responded_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_events_interviewer_start ON interview_events(interviewer_email, start_time);
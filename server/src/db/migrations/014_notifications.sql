@@ -0,0 +1,28 @@
+-- Email notifications
+-- Preferences are opt-in: a user without a row receives nothing. Every
+-- message handed to the transport is logged in notification_deliveries;
+-- dedupe_key (e.g. "daily_summary:2024-05-01") keeps a message from being
+-- sent to the same recipient twice once a delivery succeeded.
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_email TEXT PRIMARY KEY REFERENCES users(email) ON DELETE CASCADE,
+  no_show_alerts INTEGER NOT NULL DEFAULT 0,
+  daily_summary INTEGER NOT NULL DEFAULT 0,
+  system_alerts INTEGER NOT NULL DEFAULT 0,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  transport TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  dedupe_key TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_created ON notification_deliveries(created_at);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_dedupe ON notification_deliveries(recipient, dedupe_key);
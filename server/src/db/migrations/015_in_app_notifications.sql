@@ -0,0 +1,22 @@
+-- In-app notifications (the bell menu)
+-- One row per recipient, keyed by email so interviewers without a user
+-- account yet see them once they sign in. read_at is NULL while unread.
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id TEXT PRIMARY KEY,
+  user_email TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN (
+    'event_assigned', 'event_rescheduled', 'event_removed',
+    'event_status_changed', 'role_changed'
+  )),
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT, -- App path to open, e.g. /my-interviews
+  entity_type TEXT,
+  entity_id TEXT,
+  read_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_email, created_at);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_email, read_at);
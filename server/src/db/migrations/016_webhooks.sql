@@ -0,0 +1,38 @@
+-- Outbound webhooks
+-- Admin-managed subscriptions, each filtered to a set of event types
+-- (event_types is a JSON array, e.g. ["event.created","event.rescheduled"]).
+-- Payloads are signed with the subscription's secret. Each delivery keeps
+-- its attempts: pending ones are retried at next_attempt_at with exponential
+-- backoff until they succeed or run out of attempts. A redelivery is a new
+-- row pointing at the delivery it repeats, with the same event_id.
+
+CREATE TABLE IF NOT EXISTS webhooks (
+  id TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  description TEXT,
+  secret TEXT NOT NULL,
+  event_types TEXT NOT NULL DEFAULT '[]',
+  active INTEGER NOT NULL DEFAULT 1,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  webhook_id TEXT NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  payload TEXT NOT NULL, -- JSON body exactly as sent
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT, -- NULL once succeeded or failed
+  last_attempt_at TEXT,
+  response_status INTEGER,
+  error TEXT,
+  redelivery_of TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
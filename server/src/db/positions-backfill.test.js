@@ -0,0 +1,92 @@
+import { nanoid } from 'nanoid'
+import { up } from './migrations/008_positions_backfill.js'
+import { LoopRepository } from '../features/loops/repository.js'
+import { EventRepository } from '../features/events/repository.js'
+import { createTestDb, createInterviewer, createCandidate } from '../test/helpers.js'
+
+describe('008_positions_backfill', () => {
+  let db
+  let interviewer
+  let events
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    interviewer = createInterviewer(db)
+    events = new EventRepository(db)
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  // Events as older versions stored them: free-text position, no position_id
+  const addEvents = (...titles) => titles.map((title, index) => events.create({
+    id: nanoid(),
+    interviewer_email: interviewer.email,
+    start_time: `2026-03-0${index + 1}T09:00:00.000Z`,
+    end_time: `2026-03-0${index + 1}T10:00:00.000Z`,
+    position: title,
+    status: 'pending'
+  }).id)
+
+  const addPosition = title => {
+    const id = nanoid()
+    db.prepare("INSERT INTO positions (id, title, required_skills) VALUES (?, ?, '[]')").run(id, title)
+    return id
+  }
+
+  const eventPosition = id =>
+    db.prepare('SELECT position_id, position FROM interview_events WHERE id = ?').get(id)
+
+  const positionTitles = () =>
+    db.prepare('SELECT title FROM positions ORDER BY title').all().map(row => row.title)
+
+  it('links exact matches to the catalogue, ignoring case, spacing and punctuation', () => {
+    const positionId = addPosition('Senior Frontend Engineer')
+    const ids = addEvents('senior frontend engineer', '  Senior Frontend Engineer. ')
+
+    expect(up(db)).toEqual({ created: 0, linked: 2 })
+    ids.forEach(id => {
+      expect(eventPosition(id)).toEqual({ position_id: positionId, position: 'Senior Frontend Engineer' })
+    })
+  })
+
+  it('links abbreviations and typos of a catalogue title', () => {
+    const positionId = addPosition('Senior Frontend Engineer')
+    const ids = addEvents('Sr. Front-End Eng', 'Senior Frontend Enginer', 'Snr FE Engineer')
+
+    expect(up(db)).toEqual({ created: 0, linked: 3 })
+    ids.forEach(id => expect(eventPosition(id).position_id).toBe(positionId))
+  })
+
+  it('creates a position for titles that match nothing, named after the most used spelling', () => {
+    addPosition('Senior Frontend Engineer')
+    const [backend, other, variant] = addEvents('Senior Backend Engineer', 'Senior Backend Engineer', 'Sr Backend Eng')
+    const [scientist] = addEvents('Data Scientist')
+
+    expect(up(db)).toEqual({ created: 2, linked: 4 })
+    expect(positionTitles()).toEqual(['Data Scientist', 'Senior Backend Engineer', 'Senior Frontend Engineer'])
+    expect(eventPosition(variant)).toEqual(eventPosition(backend))
+    expect(eventPosition(other).position).toBe('Senior Backend Engineer')
+    expect(eventPosition(scientist).position).toBe('Data Scientist')
+  })
+
+  it('links loops as well as events', () => {
+    const positionId = addPosition('Product Manager')
+    const candidate = createCandidate(db)
+    const loop = new LoopRepository(db).create({ id: nanoid(), candidate_id: candidate.id, position: 'PM' })
+
+    expect(up(db)).toEqual({ created: 0, linked: 1 })
+    expect(new LoopRepository(db).findById(loop.id)).toMatchObject({
+      position_id: positionId,
+      position: 'Product Manager'
+    })
+  })
+
+  it('leaves linked rows alone when run again', () => {
+    addEvents('Staff Engineer', 'Staff Eng')
+
+    expect(up(db)).toEqual({ created: 1, linked: 2 })
+    expect(up(db)).toEqual({ created: 0, linked: 0 })
+  })
+})
@@ -0,0 +1,22 @@
+import { AnalyticsService } from './service.js'
+import { ReliabilityService } from './reliability-service.js'
+import config from '../../config/index.js'
+import routes from './routes.js'
+import reliabilityRoutes from './reliability-routes.js'
+
+/**
+ * Analytics feature plugin
+ * KPIs aggregated in SQL over interview events, interviewer reliability
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function analyticsPlugin(fastify, _options) {
+  const service = new AnalyticsService(fastify.db)
+  const reliabilityService = new ReliabilityService(fastify.db, service, config.reliability)
+
+  // Register routes with services
+  await fastify.register(routes, { prefix: '/analytics', service })
+  await fastify.register(reliabilityRoutes, { prefix: '/analytics', reliabilityService })
+
+  fastify.log.info('Analytics feature registered')
+}
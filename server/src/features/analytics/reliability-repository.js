@@ -0,0 +1,94 @@
+/**
+ * Per-interviewer counts and reliability score over a window
+ * Shared with the interviewers list so "sort by reliability" ranks by the
+ * same score the report shows
+ *
+ * Only interviews that have already started count: ghosted and cancelled
+ * weigh against the score, attended for it, pending is ignored. Score is
+ * 100 scaled down by the ghost rate, and by half the cancellation rate,
+ * NULL without any attended, ghosted or cancelled interview
+ *
+ * @param {Object} window - { start_date, end_date, now } (dates YYYY-MM-DD, now ISO)
+ * @returns {{ sql: string, params: Array }} Rows of { interviewer_email, attended, ghosted, cancelled, score }
+ */
+export function reliabilityStatsQuery(window) {
+  return {
+    sql: `
+      SELECT interviewer_email, attended, ghosted, cancelled,
+        CASE WHEN attended + ghosted + cancelled = 0 THEN NULL ELSE CAST(ROUND(100.0
+          * (1 - COALESCE(1.0 * ghosted / NULLIF(attended + ghosted, 0), 0))
+          * (1 - 0.5 * cancelled / (attended + ghosted + cancelled))
+        ) AS INTEGER) END as score
+      FROM (
+        SELECT interviewer_email,
+          SUM(CASE WHEN status = 'attended' THEN 1 ELSE 0 END) as attended,
+          SUM(CASE WHEN status = 'ghosted' THEN 1 ELSE 0 END) as ghosted,
+          SUM(CASE WHEN status = 'cancelled' THEN 1 ELSE 0 END) as cancelled
+        FROM interview_events
+        WHERE date(start_time) >= date(?)
+          AND date(start_time) <= date(?)
+          AND julianday(start_time) <= julianday(?)
+        GROUP BY interviewer_email
+      )
+    `,
+    params: [window.start_date, window.end_date, window.now]
+  }
+}
+
+/**
+ * Reliability Repository
+ * Rolling attendance figures per interviewer
+ */
+export class ReliabilityRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Counts, score and attended streak for every interviewer (or one)
+   * The streak is all-time: attended interviews since the last ghosted one,
+   * cancellations and pending interviews neither extend nor break it
+   * @param {Object} window - { start_date, end_date, now }
+   * @param {string} [email] - Only this interviewer
+   * @returns {Array} Rows of { id, name, email, is_active, attended, ghosted,
+   *   cancelled, score, attended_streak, last_ghosted_at }
+   */
+  findAll(window, email) {
+    const stats = reliabilityStatsQuery(window)
+    const params = [...stats.params]
+    let where = '1=1'
+
+    if (email) {
+      where = 'i.email = ?'
+      params.push(email)
+    }
+
+    const rows = this.db.prepare(`
+      SELECT i.id, i.name, i.email, i.is_active,
+        COALESCE(r.attended, 0) as attended,
+        COALESCE(r.ghosted, 0) as ghosted,
+        COALESCE(r.cancelled, 0) as cancelled,
+        r.score,
+        (
+          SELECT COUNT(*) FROM interview_events a
+          WHERE a.interviewer_email = i.email
+            AND a.status = 'attended'
+            AND (g.last_ghosted_at IS NULL OR julianday(a.start_time) > julianday(g.last_ghosted_at))
+        ) as attended_streak,
+        g.last_ghosted_at
+      FROM interviewers i
+      LEFT JOIN (${stats.sql}) r ON r.interviewer_email = i.email
+      LEFT JOIN (
+        SELECT interviewer_email,
+          strftime('%Y-%m-%dT%H:%M:%SZ', MAX(julianday(start_time))) as last_ghosted_at
+        FROM interview_events
+        WHERE status = 'ghosted'
+        GROUP BY interviewer_email
+      ) g ON g.interviewer_email = i.email
+      WHERE ${where}
+      ORDER BY i.name COLLATE NOCASE, i.id
+    `).all(...params)
+
+    return rows.map(row => ({ ...row, is_active: Boolean(row.is_active) }))
+  }
+}
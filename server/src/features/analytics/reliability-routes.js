@@ -0,0 +1,67 @@
+import {
+  ReliabilityListResponseSchema,
+  ReliabilityReportSchema,
+  ReliabilityEmailParamSchema,
+  ErrorSchema
+} from './schemas.js'
+
+/**
+ * Reliability Routes
+ * Rolling ghost/cancellation rates and "needs attention" flags per interviewer
+ *
+ * Limited to talent and admin roles
+ */
+export default async function reliabilityRoutes(fastify, options) {
+  const service = options.reliabilityService
+
+  /**
+   * GET /api/analytics/reliability
+   * Reliability of every interviewer, least reliable first
+   */
+  fastify.get(
+    '/reliability',
+    {
+      schema: {
+        description: 'Get the reliability score and attention flag of every interviewer',
+        tags: ['analytics'],
+        response: {
+          200: ReliabilityListResponseSchema
+        }
+      },
+      preHandler: fastify.authorize(['admin', 'talent'])
+    },
+    async (_request, _reply) => {
+      return await service.list()
+    }
+  )
+
+  /**
+   * GET /api/analytics/reliability/:email
+   * One interviewer's reliability with the previous window and a weekly trend
+   */
+  fastify.get(
+    '/reliability/:email',
+    {
+      schema: {
+        description: 'Get the reliability report of an interviewer with a weekly ghosting trend',
+        tags: ['analytics'],
+        params: ReliabilityEmailParamSchema,
+        response: {
+          200: ReliabilityReportSchema,
+          404: ErrorSchema
+        }
+      },
+      preHandler: fastify.authorize(['admin', 'talent'])
+    },
+    async (request, reply) => {
+      try {
+        return await service.getForInterviewer(request.params.email)
+      } catch (error) {
+        if (error.message === 'Interviewer not found') {
+          return reply.notFound(error.message)
+        }
+        throw error
+      }
+    }
+  )
+}
@@ -0,0 +1,180 @@
+import { ReliabilityRepository } from './reliability-repository.js'
+import { addDays } from '../../utils/time-zone.js'
+
+// Ghost rate change (0-1) below which the trend counts as stable
+const TREND_TOLERANCE = 0.02
+
+/**
+ * Rolling window ending today (UTC), both ends inclusive
+ * @param {number} windowDays
+ * @param {Date} [now]
+ * @returns {{ start_date: string, end_date: string, now: string }}
+ */
+export function getReliabilityWindow(windowDays, now = new Date()) {
+  const end = now.toISOString().slice(0, 10)
+  return { start_date: addDays(end, -(windowDays - 1)), end_date: end, now: now.toISOString() }
+}
+
+/**
+ * Ratio rounded to 4 decimals, null when the denominator is 0
+ * @param {number} part
+ * @param {number} whole
+ * @returns {number|null}
+ */
+function ratio(part, whole) {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 10000 : null
+}
+
+/**
+ * Reliability Service
+ * Rolling ghost and cancellation rates, attended streaks and a "needs
+ * attention" flag per interviewer
+ */
+export class ReliabilityService {
+  /**
+   * @param {Object} db
+   * @param {import('./service.js').AnalyticsService} analyticsService - Weekly trend
+   * @param {Object} options - { windowDays, ghostRateThreshold, cancellationRateThreshold, minInterviews }
+   */
+  constructor(db, analyticsService, options) {
+    this.repository = new ReliabilityRepository(db)
+    this.analyticsService = analyticsService
+    this.options = options
+  }
+
+  /**
+   * Reliability of every interviewer, least reliable first
+   * @returns {Object} { window, thresholds, data }
+   */
+  async list() {
+    const window = getReliabilityWindow(this.options.windowDays)
+    const data = this.repository.findAll(window)
+      .map(row => this._toReliability(row))
+      .sort((a, b) => (a.score ?? Infinity) - (b.score ?? Infinity))
+
+    return { window: this._describeWindow(window), thresholds: this._thresholds(), data }
+  }
+
+  /**
+   * Reliability of one interviewer with the previous window and a weekly trend
+   * @param {string} email
+   * @returns {Object} { window, thresholds, reliability, previous, direction, weeks }
+   * @throws {Error} If the interviewer does not exist
+   */
+  async getForInterviewer(email) {
+    const window = getReliabilityWindow(this.options.windowDays)
+    const [row] = this.repository.findAll(window, email)
+    if (!row) {
+      throw new Error('Interviewer not found')
+    }
+
+    // Same-length window just before, for the direction of the trend
+    const [previousRow] = this.repository.findAll({
+      start_date: addDays(window.start_date, -this.options.windowDays),
+      end_date: addDays(window.start_date, -1),
+      now: window.now
+    }, email)
+
+    const reliability = this._toReliability(row)
+    const previous = this._toReliability(previousRow)
+
+    const { groups } = await this.analyticsService.getKpis({
+      start_date: window.start_date,
+      end_date: window.end_date,
+      group_by: 'week',
+      interviewer_email: email
+    })
+
+    return {
+      window: this._describeWindow(window),
+      thresholds: this._thresholds(),
+      reliability,
+      previous: {
+        attended: previous.attended,
+        ghosted: previous.ghosted,
+        cancelled: previous.cancelled,
+        ghost_rate: previous.ghost_rate,
+        cancellation_rate: previous.cancellation_rate,
+        score: previous.score
+      },
+      direction: this._direction(reliability.ghost_rate, previous.ghost_rate),
+      weeks: groups.map(group => ({
+        week_start: group.key,
+        attended: group.attended,
+        ghosted: group.ghosted,
+        cancelled: group.cancelled,
+        ghost_rate: group.ghost_rate
+      }))
+    }
+  }
+
+  /**
+   * Rates and the attention flag from repository counts
+   * Cancellation rate is over interviews that were held, missed or cancelled
+   * @param {Object} row
+   * @returns {Object}
+   */
+  _toReliability(row) {
+    const { ghostRateThreshold, cancellationRateThreshold, minInterviews } = this.options
+    const interviews = row.attended + row.ghosted + row.cancelled
+    const ghostRate = ratio(row.ghosted, row.attended + row.ghosted)
+    const cancellationRate = ratio(row.cancelled, interviews)
+
+    const reasons = []
+    if (interviews >= minInterviews) {
+      if (ghostRate !== null && ghostRate >= ghostRateThreshold) reasons.push('ghost_rate')
+      if (cancellationRate !== null && cancellationRate >= cancellationRateThreshold) reasons.push('cancellation_rate')
+    }
+
+    return {
+      interviewer_id: row.id,
+      name: row.name,
+      email: row.email,
+      is_active: row.is_active,
+      attended: row.attended,
+      ghosted: row.ghosted,
+      cancelled: row.cancelled,
+      ghost_rate: ghostRate,
+      cancellation_rate: cancellationRate,
+      attended_streak: row.attended_streak,
+      last_ghosted_at: row.last_ghosted_at,
+      score: row.score,
+      needs_attention: reasons.length > 0,
+      attention_reasons: reasons
+    }
+  }
+
+  /**
+   * Whether the ghost rate went down (improving) or up (worsening)
+   * compared with the previous window, null without both rates
+   * @param {number|null} current
+   * @param {number|null} previous
+   * @returns {string|null}
+   */
+  _direction(current, previous) {
+    if (current === null || previous === null) return null
+    if (Math.abs(current - previous) < TREND_TOLERANCE) return 'stable'
+    return current < previous ? 'improving' : 'worsening'
+  }
+
+  /**
+   * Window as reported to clients
+   * @param {Object} window
+   * @returns {Object} { days, start_date, end_date }
+   */
+  _describeWindow(window) {
+    return { days: this.options.windowDays, start_date: window.start_date, end_date: window.end_date }
+  }
+
+  /**
+   * Configured "needs attention" thresholds
+   * @returns {Object} { ghost_rate, cancellation_rate, min_interviews }
+   */
+  _thresholds() {
+    return {
+      ghost_rate: this.options.ghostRateThreshold,
+      cancellation_rate: this.options.cancellationRateThreshold,
+      min_interviews: this.options.minInterviews
+    }
+  }
+}
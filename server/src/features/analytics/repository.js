@@ -0,0 +1,144 @@
+/**
+ * Group-by columns (never interpolate user input into SQL)
+ * Weeks start on Monday: 'weekday 0' moves to the next Sunday (or stays),
+ * -6 days lands on that week's Monday
+ */
+const GROUP_COLUMNS = {
+  interviewer: {
+    key: 'e.interviewer_email',
+    label: 'COALESCE(i.name, e.interviewer_email)'
+  },
+  position: {
+    key: "COALESCE(e.position_id, e.position, '')",
+    label: "COALESCE(p.title, e.position, 'No position')"
+  },
+  week: {
+    key: "date(e.start_time, 'weekday 0', '-6 days')",
+    label: "date(e.start_time, 'weekday 0', '-6 days')"
+  },
+  status: {
+    key: 'e.status',
+    label: 'e.status'
+  }
+}
+
+/**
+ * Analytics Repository
+ * SQL aggregation over interview_events for KPIs
+ */
+export class AnalyticsRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Build WHERE clause for the KPI filters
+   * @param {Object} filters - { start_date, end_date, interviewer_email, position_id }
+   * @returns {{ where: string, params: Array }}
+   */
+  _buildWhere(filters) {
+    const conditions = ['1=1']
+    const params = []
+
+    if (filters.start_date) {
+      conditions.push('date(e.start_time) >= date(?)')
+      params.push(filters.start_date)
+    }
+
+    if (filters.end_date) {
+      conditions.push('date(e.start_time) <= date(?)')
+      params.push(filters.end_date)
+    }
+
+    if (filters.interviewer_email) {
+      conditions.push('e.interviewer_email = ?')
+      params.push(filters.interviewer_email)
+    }
+
+    if (filters.position_id) {
+      conditions.push('e.position_id = ?')
+      params.push(filters.position_id)
+    }
+
+    return { where: conditions.join(' AND '), params }
+  }
+
+  /**
+   * Status counts shared by totals and groups
+   * @param {string} now - ISO datetime that splits past from upcoming
+   * @returns {{ sql: string, params: Array }}
+   */
+  _countColumns(now) {
+    return {
+      sql: `
+        COUNT(*) as total,
+        SUM(CASE WHEN e.status = 'pending' THEN 1 ELSE 0 END) as pending,
+        SUM(CASE WHEN e.status = 'attended' THEN 1 ELSE 0 END) as attended,
+        SUM(CASE WHEN e.status = 'ghosted' THEN 1 ELSE 0 END) as ghosted,
+        SUM(CASE WHEN e.status = 'cancelled' THEN 1 ELSE 0 END) as cancelled,
+        SUM(CASE
+          WHEN e.status != 'cancelled' AND julianday(e.start_time) > julianday(?)
+          THEN 1 ELSE 0
+        END) as upcoming
+      `,
+      params: [now]
+    }
+  }
+
+  /**
+   * Counts over every event matching the filters
+   * @param {Object} filters
+   * @param {string} now - ISO datetime
+   * @returns {Object} { total, pending, attended, ghosted, cancelled, upcoming }
+   */
+  getTotals(filters, now) {
+    const counts = this._countColumns(now)
+    const { where, params } = this._buildWhere(filters)
+
+    const row = this.db.prepare(`
+      SELECT ${counts.sql}
+      FROM interview_events e
+      WHERE ${where}
+    `).get(...counts.params, ...params)
+
+    // SUM over no rows is NULL
+    return {
+      total: row.total,
+      pending: row.pending || 0,
+      attended: row.attended || 0,
+      ghosted: row.ghosted || 0,
+      cancelled: row.cancelled || 0,
+      upcoming: row.upcoming || 0
+    }
+  }
+
+  /**
+   * Counts per group
+   * @param {string} groupBy - interviewer|position|week|status
+   * @param {Object} filters
+   * @param {string} now - ISO datetime
+   * @returns {Array} Rows of { key, label, total, pending, attended, ghosted, cancelled, upcoming }
+   */
+  getGroups(groupBy, filters, now) {
+    const column = GROUP_COLUMNS[groupBy]
+    const counts = this._countColumns(now)
+    const { where, params } = this._buildWhere(filters)
+
+    return this.db.prepare(`
+      SELECT ${column.key} as key, ${column.label} as label, ${counts.sql}
+      FROM interview_events e
+      LEFT JOIN interviewers i ON i.email = e.interviewer_email
+      LEFT JOIN positions p ON p.id = e.position_id
+      WHERE ${where}
+      GROUP BY ${column.key}
+    `).all(...counts.params, ...params)
+  }
+
+  /**
+   * Number of active interviewers
+   * @returns {number}
+   */
+  countActiveInterviewers() {
+    return this.db.prepare('SELECT COUNT(*) as count FROM interviewers WHERE is_active = 1').get().count
+  }
+}
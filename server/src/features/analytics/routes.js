@@ -0,0 +1,53 @@
+import { KpiQuerySchema, KpiResponseSchema, ErrorSchema } from './schemas.js'
+
+/**
+ * Analytics Routes
+ * KPI aggregation for the dashboard and schedule summaries
+ *
+ * All routes require authentication
+ */
+export default async function analyticsRoutes(fastify, options) {
+  const service = options.service
+
+  /**
+   * GET /api/analytics/kpis
+   * Interview KPIs for a date range, aggregated on the server
+   *
+   * Query params:
+   * - start_date / end_date: Range of event start dates (YYYY-MM-DD, both
+   *   inclusive, either may be omitted), recurring series are expanded up
+   *   to end_date first
+   * - group_by: interviewer|position|week|status
+   * - interviewer_email: Only this interviewer's events
+   * - position_id: Only events for this position
+   *
+   * Returns totals (counts, attendance/ghost/cancellation rates, weekly
+   * load per interviewer), the same totals for the preceding period of
+   * equal length when the range is bounded, and one row per group
+   */
+  fastify.get(
+    '/kpis',
+    {
+      schema: {
+        description: 'Get interview KPIs for a date range, optionally grouped',
+        tags: ['analytics'],
+        querystring: KpiQuerySchema,
+        response: {
+          200: KpiResponseSchema,
+          400: ErrorSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, reply) => {
+      try {
+        return await service.getKpis(request.query)
+      } catch (error) {
+        if (error.message === 'start_date must not be after end_date') {
+          return reply.badRequest(error.message)
+        }
+        throw error
+      }
+    }
+  )
+}
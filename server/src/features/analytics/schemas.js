@@ -0,0 +1,137 @@
+import { Type } from '@sinclair/typebox'
+
+export const GroupByEnum = Type.Union([
+  Type.Literal('interviewer'),
+  Type.Literal('position'),
+  Type.Literal('week'),
+  Type.Literal('status')
+])
+
+// KPI query (events are in range by the date they start, UTC)
+export const KpiQuerySchema = Type.Object({
+  start_date: Type.Optional(Type.String({ format: 'date' })),
+  end_date: Type.Optional(Type.String({ format: 'date' })),
+  group_by: Type.Optional(GroupByEnum),
+  interviewer_email: Type.Optional(Type.String({ format: 'email' })),
+  position_id: Type.Optional(Type.String())
+})
+
+// Rates are fractions (0-1), null when there is nothing to divide by
+const Rate = Type.Union([Type.Number(), Type.Null()])
+
+const CountsSchema = {
+  total: Type.Integer(),
+  pending: Type.Integer(),
+  attended: Type.Integer(),
+  ghosted: Type.Integer(),
+  cancelled: Type.Integer(),
+  upcoming: Type.Integer(), // Not cancelled and starting after now
+  attendance_rate: Rate, // attended / (attended + ghosted)
+  ghost_rate: Rate, // ghosted / (attended + ghosted)
+  cancellation_rate: Rate // cancelled / total
+}
+
+export const KpiTotalsSchema = Type.Object({
+  ...CountsSchema,
+  active_interviewers: Type.Integer(),
+  // Non-cancelled interviews per active interviewer per week of the range
+  interviews_per_interviewer_week: Rate
+})
+
+export const KpiGroupSchema = Type.Object({
+  key: Type.String(),
+  label: Type.String(),
+  ...CountsSchema
+})
+
+export const KpiResponseSchema = Type.Object({
+  start_date: Type.Union([Type.String(), Type.Null()]),
+  end_date: Type.Union([Type.String(), Type.Null()]),
+  group_by: Type.Union([GroupByEnum, Type.Null()]),
+  totals: KpiTotalsSchema,
+  // Same-length period just before the range (bounded ranges only)
+  previous: Type.Union([KpiTotalsSchema, Type.Null()]),
+  groups: Type.Array(KpiGroupSchema)
+})
+
+// Reliability over the rolling window (config.reliability.windowDays)
+export const ReliabilityWindowSchema = Type.Object({
+  days: Type.Integer(),
+  start_date: Type.String(),
+  end_date: Type.String()
+})
+
+// "Needs attention" thresholds (config.reliability)
+export const ReliabilityThresholdsSchema = Type.Object({
+  ghost_rate: Type.Number(),
+  cancellation_rate: Type.Number(),
+  min_interviews: Type.Integer() // Interviews in the window before flagging
+})
+
+export const AttentionReasonEnum = Type.Union([
+  Type.Literal('ghost_rate'),
+  Type.Literal('cancellation_rate')
+])
+
+export const ReliabilitySchema = Type.Object({
+  interviewer_id: Type.String(),
+  name: Type.String(),
+  email: Type.String(),
+  is_active: Type.Boolean(),
+  attended: Type.Integer(),
+  ghosted: Type.Integer(),
+  cancelled: Type.Integer(),
+  ghost_rate: Rate, // ghosted / (attended + ghosted)
+  cancellation_rate: Rate, // cancelled / (attended + ghosted + cancelled)
+  attended_streak: Type.Integer(), // Attended since the last ghosted interview (all time)
+  last_ghosted_at: Type.Union([Type.String(), Type.Null()]),
+  score: Type.Union([Type.Integer(), Type.Null()]), // 0-100, null without interviews
+  needs_attention: Type.Boolean(),
+  attention_reasons: Type.Array(AttentionReasonEnum)
+})
+
+export const ReliabilityListResponseSchema = Type.Object({
+  window: ReliabilityWindowSchema,
+  thresholds: ReliabilityThresholdsSchema,
+  data: Type.Array(ReliabilitySchema)
+})
+
+export const ReliabilityReportSchema = Type.Object({
+  window: ReliabilityWindowSchema,
+  thresholds: ReliabilityThresholdsSchema,
+  reliability: ReliabilitySchema,
+  // Same-length window just before
+  previous: Type.Object({
+    attended: Type.Integer(),
+    ghosted: Type.Integer(),
+    cancelled: Type.Integer(),
+    ghost_rate: Rate,
+    cancellation_rate: Rate,
+    score: Type.Union([Type.Integer(), Type.Null()])
+  }),
+  // Ghost rate against the previous window, null without both rates
+  direction: Type.Union([
+    Type.Literal('improving'),
+    Type.Literal('stable'),
+    Type.Literal('worsening'),
+    Type.Null()
+  ]),
+  weeks: Type.Array(Type.Object({
+    week_start: Type.String(), // Monday, YYYY-MM-DD
+    attended: Type.Integer(),
+    ghosted: Type.Integer(),
+    cancelled: Type.Integer(),
+    ghost_rate: Rate
+  }))
+})
+
+export const ReliabilityEmailParamSchema = Type.Object({
+  email: Type.String({ format: 'email' })
+})
+
+// Error response
+export const ErrorSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+  statusCode: Type.Optional(Type.Integer())
+})
@@ -0,0 +1,179 @@
+import { AnalyticsRepository } from './repository.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Ratio rounded to 4 decimals, null when the denominator is 0
+ * @param {number} part
+ * @param {number} whole
+ * @returns {number|null}
+ */
+function ratio(part, whole) {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 10000 : null
+}
+
+/**
+ * Add rates to status counts
+ * @param {Object} counts - { total, attended, ghosted, cancelled, ... }
+ * @returns {Object}
+ */
+function withRates(counts) {
+  const decided = counts.attended + counts.ghosted
+  return {
+    ...counts,
+    attendance_rate: ratio(counts.attended, decided),
+    ghost_rate: ratio(counts.ghosted, decided),
+    cancellation_rate: ratio(counts.cancelled, counts.total)
+  }
+}
+
+/**
+ * YYYY-MM-DD shifted by whole days (UTC)
+ * @param {string} date - YYYY-MM-DD
+ * @param {number} days
+ * @returns {string}
+ */
+function addDays(date, days) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Number of days in an inclusive date range
+ * @param {string} startDate - YYYY-MM-DD
+ * @param {string} endDate - YYYY-MM-DD
+ * @returns {number}
+ */
+function rangeDays(startDate, endDate) {
+  return Math.round((Date.parse(endDate) - Date.parse(startDate)) / DAY_MS) + 1
+}
+
+/**
+ * Monday (YYYY-MM-DD) of the week containing the date (UTC)
+ * @param {string} date - YYYY-MM-DD
+ * @returns {string}
+ */
+function weekStart(date) {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay()
+  return addDays(date, -((day + 6) % 7))
+}
+
+/**
+ * Analytics Service
+ * KPIs for a date range, aggregated in SQL so they cover every event
+ * rather than whatever page a client happened to load
+ */
+export class AnalyticsService {
+  /**
+   * @param {Object} db
+   */
+  constructor(db) {
+    this.repository = new AnalyticsRepository(db)
+  }
+
+  /**
+   * KPIs for a date range, optionally grouped
+   * @param {Object} query - { start_date, end_date, group_by, interviewer_email, position_id }
+   * @returns {Object} { start_date, end_date, group_by, totals, previous, groups }
+   * @throws {Error} If start_date is after end_date
+   */
+  async getKpis(query = {}) {
+    const { start_date, end_date, group_by, interviewer_email, position_id } = query
+
+    if (start_date && end_date && start_date > end_date) {
+      throw new Error('start_date must not be after end_date')
+    }
+
+    const now = new Date().toISOString()
+    const filters = { start_date, end_date, interviewer_email, position_id }
+    const totals = this._getTotals(filters, now)
+
+    let previous = null
+    if (start_date && end_date) {
+      const days = rangeDays(start_date, end_date)
+      previous = this._getTotals({
+        ...filters,
+        start_date: addDays(start_date, -days),
+        end_date: addDays(start_date, -1)
+      }, now)
+    }
+
+    const groups = group_by ? this._getGroups(group_by, filters, now) : []
+
+    return {
+      start_date: start_date ?? null,
+      end_date: end_date ?? null,
+      group_by: group_by ?? null,
+      totals,
+      previous,
+      groups
+    }
+  }
+
+  /**
+   * Totals with rates and the per-interviewer weekly load
+   * @param {Object} filters
+   * @param {string} now
+   * @returns {Object}
+   */
+  _getTotals(filters, now) {
+    const counts = this.repository.getTotals(filters, now)
+    const activeInterviewers = this.repository.countActiveInterviewers()
+
+    // Load needs a bounded range; one interviewer's range is their own load
+    let interviewsPerInterviewerWeek = null
+    if (filters.start_date && filters.end_date) {
+      const days = rangeDays(filters.start_date, filters.end_date)
+      const interviewers = filters.interviewer_email ? 1 : activeInterviewers
+      interviewsPerInterviewerWeek = interviewers > 0
+        ? Math.round(((counts.total - counts.cancelled) / interviewers / (days / 7)) * 100) / 100
+        : null
+    }
+
+    return {
+      ...withRates(counts),
+      active_interviewers: activeInterviewers,
+      interviews_per_interviewer_week: interviewsPerInterviewerWeek
+    }
+  }
+
+  /**
+   * Groups with rates
+   * Weeks are listed in order with empty weeks of a bounded range filled in,
+   * other groups busiest first
+   * @param {string} groupBy
+   * @param {Object} filters
+   * @param {string} now
+   * @returns {Array}
+   */
+  _getGroups(groupBy, filters, now) {
+    const rows = this.repository.getGroups(groupBy, filters, now)
+
+    if (groupBy !== 'week') {
+      return rows
+        .map(withRates)
+        .sort((a, b) => b.total - a.total || a.label.localeCompare(b.label))
+    }
+
+    const byWeek = new Map(rows.map(row => [row.key, row]))
+    if (filters.start_date && filters.end_date) {
+      for (let week = weekStart(filters.start_date); week <= filters.end_date; week = addDays(week, 7)) {
+        if (!byWeek.has(week)) {
+          byWeek.set(week, {
+            key: week,
+            label: week,
+            total: 0,
+            pending: 0,
+            attended: 0,
+            ghosted: 0,
+            cancelled: 0,
+            upcoming: 0
+          })
+        }
+      }
+    }
+
+    return [...byWeek.values()]
+      .sort((a, b) => a.key.localeCompare(b.key))
+      .map(withRates)
+  }
+}
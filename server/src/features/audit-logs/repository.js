@@ -10,119 +10,121 @@
  * - JSON field parsing (changes)
  * - Data transformation
  */
+// Sortable list columns (query value → SQL column)
+const SORT_COLUMNS = {
+  timestamp: 'timestamp',
+  user_email: 'user_email',
+  action: 'action',
+  entity_type: 'entity_type'
+}
+
 export class AuditLogRepository {
   constructor(db) {
     this.db = db
   }
 
   /**
-   * Find all audit logs with optional filtering and pagination
+   * Find all audit logs with optional filtering, sorting and pagination
    * @param {Object} filters - Filter options
    * @returns {Array} Audit logs with parsed JSON fields
    */
   findAll(filters = {}) {
+    const { sort = 'timestamp', order = 'desc', limit = 50, offset = 0 } = filters
+    const { where, params } = this._buildWhere(filters)
+
+    // Default: most recent first; id keeps pages stable when sort values tie
+    const column = SORT_COLUMNS[sort] ?? SORT_COLUMNS.timestamp
+    const direction = order === 'asc' ? 'ASC' : 'DESC'
+    const sql = `SELECT * FROM audit_logs WHERE ${where}
+      ORDER BY ${column} ${direction}, id ASC LIMIT ? OFFSET ?`
+
+    const rows = this.db.prepare(sql).all(...params, limit, offset)
+
+    // Parse JSON fields
+    return rows.map(row => this._parseRow(row))
+  }
+
+  /**
+   * Count total audit logs matching filters
+   * Used for pagination metadata
+   */
+  count(filters = {}) {
+    const { where, params } = this._buildWhere(filters)
+    const sql = `SELECT COUNT(*) as total FROM audit_logs WHERE ${where}`
+
+    const result = this.db.prepare(sql).get(...params)
+    return result.total
+  }
+
+  /**
+   * Build the WHERE clause shared by list, count and stats queries
+   * @param {Object} filters - Filter options
+   * @returns {{ where: string, params: Array }}
+   * @private
+   */
+  _buildWhere(filters) {
     const {
       user_email,
       action,
+      action_prefix,
       entity_type,
       entity_id,
       start_date,
       end_date,
-      limit = 50,
-      offset = 0
+      search
     } = filters
 
-    let sql = 'SELECT * FROM audit_logs WHERE 1=1'
+    const conditions = ['1=1']
     const params = []
 
     // Filter by user
     if (user_email) {
-      sql += ' AND user_email = ?'
+      conditions.push('user_email = ?')
       params.push(user_email)
     }
 
-    // Filter by action
+    // Filter by action, or by action family (CREATE_, UPDATE_, ...)
     if (action) {
-      sql += ' AND action = ?'
+      conditions.push('action = ?')
       params.push(action)
     }
 
+    if (action_prefix) {
+      conditions.push('action LIKE ?')
+      params.push(`${action_prefix}%`)
+    }
+
     // Filter by entity type
     if (entity_type) {
-      sql += ' AND entity_type = ?'
+      conditions.push('entity_type = ?')
       params.push(entity_type)
     }
 
     // Filter by entity ID
     if (entity_id) {
-      sql += ' AND entity_id = ?'
+      conditions.push('entity_id = ?')
       params.push(entity_id)
     }
 
     // Filter by date range
     if (start_date) {
-      sql += ' AND date(timestamp) >= date(?)'
+      conditions.push('date(timestamp) >= date(?)')
       params.push(start_date)
     }
 
     if (end_date) {
-      sql += ' AND date(timestamp) <= date(?)'
+      conditions.push('date(timestamp) <= date(?)')
       params.push(end_date)
     }
 
-    // Order by timestamp (most recent first)
-    sql += ' ORDER BY timestamp DESC LIMIT ? OFFSET ?'
-    params.push(limit, offset)
-
-    const rows = this.db.prepare(sql).all(...params)
-
-    // Parse JSON fields
-    return rows.map(row => this._parseRow(row))
-  }
-
-  /**
-   * Count total audit logs matching filters
-   * Used for pagination metadata
-   */
-  count(filters = {}) {
-    const { user_email, action, entity_type, entity_id, start_date, end_date } =
-      filters
-
-    let sql = 'SELECT COUNT(*) as total FROM audit_logs WHERE 1=1'
-    const params = []
-
-    if (user_email) {
-      sql += ' AND user_email = ?'
-      params.push(user_email)
-    }
-
-    if (action) {
-      sql += ' AND action = ?'
-      params.push(action)
-    }
-
-    if (entity_type) {
-      sql += ' AND entity_type = ?'
-      params.push(entity_type)
-    }
-
-    if (entity_id) {
-      sql += ' AND entity_id = ?'
-      params.push(entity_id)
-    }
-
-    if (start_date) {
-      sql += ' AND date(timestamp) >= date(?)'
-      params.push(start_date)
-    }
-
-    if (end_date) {
-      sql += ' AND date(timestamp) <= date(?)'
-      params.push(end_date)
+    // Search in user, action and entity
+    if (search) {
+      conditions.push('(user_email LIKE ? OR user_name LIKE ? OR action LIKE ? OR entity_type LIKE ? OR entity_id LIKE ?)')
+      const searchPattern = `%${search}%`
+      params.push(searchPattern, searchPattern, searchPattern, searchPattern, searchPattern)
     }
 
-    const result = this.db.prepare(sql).get(...params)
-    return result.total
+    return { where: conditions.join(' AND '), params }
   }
 
   /**
@@ -172,15 +174,18 @@ export class AuditLogRepository {
 
   /**
    * Get audit log statistics by action type
+   * @param {Object} filters - Same filters as findAll (e.g. a date range)
    * @returns {Object} Count by action
    */
-  getStatsByAction() {
+  getStatsByAction(filters = {}) {
+    const { where, params } = this._buildWhere(filters)
     const sql = `
       SELECT action, COUNT(*) as count
       FROM audit_logs
+      WHERE ${where}
       GROUP BY action
     `
-    const rows = this.db.prepare(sql).all()
+    const rows = this.db.prepare(sql).all(...params)
 
     return rows.reduce((acc, row) => {
       acc[row.action] = row.count
@@ -1,6 +1,7 @@
 import {
   AuditLogSchema,
   ListAuditLogsQuerySchema,
+  AuditLogStatsQuerySchema,
   AuditLogIdParamSchema,
   ListAuditLogsResponseSchema
 } from './schemas.js'
@@ -23,10 +24,14 @@ export default async function auditLogRoutes(fastify, options) {
    * Query params:
    * - user_email: Filter by user
    * - action: Filter by action
+   * - action_prefix: Filter by action family (CREATE|UPDATE|DELETE|EXPORT...)
    * - entity_type: Filter by entity type (interviewer|event|user)
    * - entity_id: Filter by entity ID
    * - start_date: Filter by start date (YYYY-MM-DD)
    * - end_date: Filter by end date (YYYY-MM-DD)
+   * - search: Search in user, action and entity
+   * - sort: timestamp|user_email|action|entity_type (default: timestamp)
+   * - order: asc|desc (default: desc)
    * - limit: Results per page (default: 50, max: 100)
    * - offset: Pagination offset (default: 0)
    */
@@ -59,6 +64,7 @@ export default async function auditLogRoutes(fastify, options) {
   /**
    * GET /api/audit-logs/stats
    * Get audit log statistics by action type
+   * Optional start_date / end_date (YYYY-MM-DD) limit it to a date range
    *
    * Admin only
    */
@@ -68,6 +74,7 @@ export default async function auditLogRoutes(fastify, options) {
       schema: {
         description: 'Get audit log statistics by action',
         tags: ['audit-logs'],
+        querystring: AuditLogStatsQuerySchema,
         response: {
           200: {
             type: 'object',
@@ -77,8 +84,8 @@ export default async function auditLogRoutes(fastify, options) {
       },
       preHandler: fastify.authorize(['admin'])
     },
-    async (_request, _reply) => {
-      const stats = await service.getStats()
+    async (request, _reply) => {
+      const stats = await service.getStats(request.query)
       return stats
     }
   )
@@ -29,13 +29,32 @@ export const ListAuditLogsQuerySchema = Type.Object({
       Type.Literal('user')
     ])
   ),
+  // Action family, e.g. CREATE matches CREATE_EVENT and CREATE_INTERVIEWER
+  action_prefix: Type.Optional(Type.String({ pattern: '^[A-Z_]+$' })),
   entity_id: Type.Optional(Type.String()),
   start_date: Type.Optional(Type.String({ format: 'date' })),
   end_date: Type.Optional(Type.String({ format: 'date' })),
+  search: Type.Optional(Type.String()),
+  sort: Type.Optional(Type.Union([
+    Type.Literal('timestamp'),
+    Type.Literal('user_email'),
+    Type.Literal('action'),
+    Type.Literal('entity_type')
+  ], { default: 'timestamp' })),
+  order: Type.Optional(Type.Union([Type.Literal('asc'), Type.Literal('desc')], { default: 'desc' })),
   limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
   offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 }))
 })
 
+/**
+ * Audit Log Stats Query Schema
+ * Query parameters for GET /api/audit-logs/stats (all time when no range is given)
+ */
+export const AuditLogStatsQuerySchema = Type.Object({
+  start_date: Type.Optional(Type.String({ format: 'date' })),
+  end_date: Type.Optional(Type.String({ format: 'date' }))
+})
+
 /**
  * Audit Log ID Parameter Schema
  * For routes with :id parameter
@@ -76,10 +76,11 @@ export class AuditLogService {
 
   /**
    * Get audit log statistics
+   * @param {Object} filters - Optional date range
    * @returns {Object} Statistics by action
    */
-  async getStats() {
-    return this.repository.getStatsByAction()
+  async getStats(filters = {}) {
+    return this.repository.getStatsByAction(filters)
   }
 
   /**
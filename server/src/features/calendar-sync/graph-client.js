@@ -0,0 +1,186 @@
+/**
+ * Microsoft Graph Client
+ * Minimal read-only client for interviewer calendars
+ *
+ * Authenticates with the client credentials flow (application permission
+ * Calendars.Read) and reads calendar changes through calendarView delta
+ * queries. Both base URLs are configurable so the client can run against
+ * the fake Graph server in scripts/fake-graph-server.js.
+ *
+ * Any object with the same `isConfigured` / `listEventChanges` surface can
+ * be passed to CalendarSyncService instead.
+ */
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504])
+
+// Refresh the access token this long before it expires
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000
+
+export class GraphClient {
+  /**
+   * @param {Object} options
+   * @param {string} options.graphUrl - e.g. https://graph.microsoft.com/v1.0
+   * @param {string} options.authorityUrl - e.g. https://login.microsoftonline.com
+   * @param {string} options.tenantId
+   * @param {string} options.clientId
+   * @param {string} options.clientSecret
+   * @param {number} [options.maxRetries=5] - Retries for 429 and 5xx responses
+   * @param {number} [options.retryBaseMs=1000] - First backoff delay, doubled per retry
+   * @param {number} [options.pageSize=50]
+   * @param {Function} [options.fetch] - fetch implementation (defaults to global fetch)
+   */
+  constructor(options) {
+    this.graphUrl = options.graphUrl.replace(/\/+$/, '')
+    this.authorityUrl = options.authorityUrl.replace(/\/+$/, '')
+    this.tenantId = options.tenantId
+    this.clientId = options.clientId
+    this.clientSecret = options.clientSecret
+    this.maxRetries = options.maxRetries ?? 5
+    this.retryBaseMs = options.retryBaseMs ?? 1000
+    this.pageSize = options.pageSize ?? 50
+    this.fetch = options.fetch || globalThis.fetch
+    this.token = null
+  }
+
+  /**
+   * Whether credentials are present
+   * @returns {boolean}
+   */
+  get isConfigured() {
+    return Boolean(this.tenantId && this.clientId && this.clientSecret)
+  }
+
+  /**
+   * Read calendar changes for a mailbox
+   * Without a delta link this is a full read of the window; with one it
+   * returns only what changed since that link was issued.
+   * @param {string} mailbox - Interviewer email
+   * @param {Object} options
+   * @param {string} [options.deltaLink] - Link returned by the previous call
+   * @param {string} options.start - ISO datetime, window start (initial read only)
+   * @param {string} options.end - ISO datetime, window end (initial read only)
+   * @returns {Promise<{events: Array, deltaLink: string}>} Graph events (removed ones carry `@removed`)
+   * @throws {Error} 'Graph delta link expired' when the link must be discarded
+   */
+  async listEventChanges(mailbox, { deltaLink, start, end }) {
+    let url = deltaLink || `${this.graphUrl}/users/${encodeURIComponent(mailbox)}/calendarView/delta?${new URLSearchParams({
+      startDateTime: start,
+      endDateTime: end
+    })}`
+    const events = []
+
+    // Follow nextLinks until Graph hands out the deltaLink for the next run
+    for (;;) {
+      const page = await this._get(url)
+      events.push(...(page.value || []))
+
+      if (page['@odata.nextLink']) {
+        url = page['@odata.nextLink']
+        continue
+      }
+      if (!page['@odata.deltaLink']) {
+        throw new Error('Graph response has neither a next nor a delta link')
+      }
+
+      return { events, deltaLink: page['@odata.deltaLink'] }
+    }
+  }
+
+  /**
+   * GET a Graph URL with retries
+   * Retries 429/5xx with exponential backoff (Retry-After wins when sent)
+   * and refreshes the token once on 401.
+   * @param {string} url
+   * @returns {Promise<Object>} Parsed JSON body
+   */
+  async _get(url) {
+    let refreshedToken = false
+
+    for (let attempt = 0; ; attempt++) {
+      const token = await this._getAccessToken()
+      const response = await this.fetch(url, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          Accept: 'application/json',
+          // Times in UTC so they can be stored without conversion
+          Prefer: `outlook.timezone="UTC", odata.maxpagesize=${this.pageSize}`
+        }
+      })
+
+      if (response.ok) {
+        return response.json()
+      }
+
+      if (response.status === 401 && !refreshedToken) {
+        this.token = null
+        refreshedToken = true
+        continue
+      }
+
+      if (response.status === 410) {
+        throw new Error('Graph delta link expired')
+      }
+
+      if (RETRYABLE_STATUSES.has(response.status) && attempt < this.maxRetries) {
+        const retryAfter = Number(response.headers.get('retry-after'))
+        await sleep(retryAfter > 0 ? retryAfter * 1000 : this.retryBaseMs * 2 ** attempt)
+        continue
+      }
+
+      throw new Error(`Graph request failed (${response.status}): ${await errorMessage(response)}`)
+    }
+  }
+
+  /**
+   * Get an app-only access token, cached until shortly before it expires
+   * @returns {Promise<string>}
+   */
+  async _getAccessToken() {
+    if (this.token && this.token.expiresAt > Date.now()) {
+      return this.token.value
+    }
+
+    const response = await this.fetch(`${this.authorityUrl}/${encodeURIComponent(this.tenantId)}/oauth2/v2.0/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        scope: 'https://graph.microsoft.com/.default'
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Graph authentication failed (${response.status}): ${await errorMessage(response)}`)
+    }
+
+    const body = await response.json()
+    this.token = {
+      value: body.access_token,
+      expiresAt: Date.now() + (body.expires_in ?? 3600) * 1000 - TOKEN_EXPIRY_MARGIN_MS
+    }
+
+    return this.token.value
+  }
+}
+
+/**
+ * Pull a readable message out of a Graph or identity platform error body
+ * @param {Response} response
+ * @returns {Promise<string>}
+ */
+async function errorMessage(response) {
+  const text = await response.text()
+
+  try {
+    const body = JSON.parse(text)
+    return body.error?.message || body.error_description || body.error || text
+  } catch {
+    return text || response.statusText
+  }
+}
+
+function sleep(ms) {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
@@ -0,0 +1,46 @@
+import { CalendarSyncService } from './service.js'
+import { GraphClient } from './graph-client.js'
+import config from '../../config/index.js'
+import routes from './routes.js'
+
+/**
+ * Calendar sync feature plugin
+ * One-way Outlook (Microsoft Graph) sync into interview events, run on a
+ * timer and on demand
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function calendarSyncPlugin(fastify, _options) {
+  const graphClient = new GraphClient(config.calendarSync)
+  const service = new CalendarSyncService(fastify.db, fastify.auditLogger, graphClient, {
+    subjectKeyword: config.calendarSync.subjectKeyword,
+    notifier: fastify.notifier,
+    webhooks: fastify.webhooks
+  })
+
+  // Register routes with service
+  await fastify.register(routes, { prefix: '/calendar-sync', service })
+
+  // Background sync, skipped while a manual run is in progress
+  const intervalMinutes = config.calendarSync.intervalMinutes
+  if (service.isConfigured && intervalMinutes > 0) {
+    const timer = setInterval(async () => {
+      if (service.running) return
+
+      try {
+        const results = await service.syncAll()
+        const failed = results.filter(result => result.status === 'error')
+        if (failed.length > 0) {
+          fastify.log.warn({ failed }, 'Calendar sync failed for some interviewers')
+        }
+      } catch (error) {
+        fastify.log.error(error, 'Calendar sync failed')
+      }
+    }, intervalMinutes * 60 * 1000)
+    timer.unref()
+
+    fastify.addHook('onClose', async () => clearInterval(timer))
+  }
+
+  fastify.log.info('Calendar sync feature registered')
+}
@@ -0,0 +1,133 @@
+/**
+ * Calendar Sync Repository
+ * Data access layer for calendar_sync_state and the synced events
+ */
+export class CalendarSyncRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Sync status of every interviewer, synced ones first
+   * @returns {Array}
+   */
+  findStatuses() {
+    return this.db.prepare(`
+      SELECT i.email as interviewer_email, i.name as interviewer_name,
+        i.is_active, i.calendar_sync_enabled, i.last_synced_at,
+        s.last_run_at, s.last_status, s.last_error,
+        COALESCE(s.events_created, 0) as events_created,
+        COALESCE(s.events_updated, 0) as events_updated,
+        COALESCE(s.events_cancelled, 0) as events_cancelled
+      FROM interviewers i
+      LEFT JOIN calendar_sync_state s ON s.interviewer_email = i.email
+      ORDER BY i.calendar_sync_enabled DESC, i.name ASC
+    `).all().map(row => ({
+      ...row,
+      is_active: Boolean(row.is_active),
+      calendar_sync_enabled: Boolean(row.calendar_sync_enabled)
+    }))
+  }
+
+  /**
+   * Interviewers whose calendars are synced
+   * @returns {Array} { email, name }
+   */
+  findSyncTargets() {
+    return this.db.prepare(`
+      SELECT email, name FROM interviewers
+      WHERE calendar_sync_enabled = 1 AND is_active = 1
+      ORDER BY email ASC
+    `).all()
+  }
+
+  /**
+   * Find the sync state of an interviewer
+   * @param {string} email
+   * @returns {Object|null}
+   */
+  findState(email) {
+    return this.db.prepare(
+      'SELECT * FROM calendar_sync_state WHERE interviewer_email = ?'
+    ).get(email) || null
+  }
+
+  /**
+   * Record the outcome of a run
+   * Counters are cumulative; a failed run keeps the previous delta link.
+   * @param {string} email
+   * @param {Object} data - { status, error?, delta_link?, created?, updated?, cancelled? }
+   */
+  saveRun(email, data) {
+    this.db.prepare(`
+      INSERT INTO calendar_sync_state (
+        interviewer_email, delta_link, last_run_at, last_status, last_error,
+        events_created, events_updated, events_cancelled
+      ) VALUES (?, ?, datetime('now'), ?, ?, ?, ?, ?)
+      ON CONFLICT(interviewer_email) DO UPDATE SET
+        delta_link = CASE WHEN excluded.last_status = 'ok' THEN excluded.delta_link ELSE delta_link END,
+        last_run_at = excluded.last_run_at,
+        last_status = excluded.last_status,
+        last_error = excluded.last_error,
+        events_created = events_created + excluded.events_created,
+        events_updated = events_updated + excluded.events_updated,
+        events_cancelled = events_cancelled + excluded.events_cancelled
+    `).run(
+      email,
+      data.delta_link || null,
+      data.status,
+      data.error || null,
+      data.created || 0,
+      data.updated || 0,
+      data.cancelled || 0
+    )
+  }
+
+  /**
+   * Forget the delta link so the next run reads the whole window again
+   * @param {string} email
+   */
+  clearDeltaLink(email) {
+    this.db.prepare(
+      'UPDATE calendar_sync_state SET delta_link = NULL WHERE interviewer_email = ?'
+    ).run(email)
+  }
+
+  /**
+   * Set the interviewer's last successful sync time
+   * @param {string} email
+   * @param {string} syncedAt - ISO datetime
+   */
+  markSynced(email, syncedAt) {
+    this.db.prepare(
+      'UPDATE interviewers SET last_synced_at = ? WHERE email = ?'
+    ).run(syncedAt, email)
+  }
+
+  /**
+   * Find the event imported from an Outlook event
+   * @param {string} calendarEventId
+   * @returns {Object|null} { id, status, ... } (raw row)
+   */
+  findEventByCalendarId(calendarEventId) {
+    return this.db.prepare(
+      'SELECT * FROM interview_events WHERE calendar_event_id = ?'
+    ).get(calendarEventId) || null
+  }
+
+  /**
+   * Find a pending roster event that the Outlook event duplicates
+   * (same interviewer and start, not linked to Outlook yet)
+   * @param {string} email
+   * @param {string} startTime - ISO datetime
+   * @returns {Object|null} Raw row
+   */
+  findUnlinkedEvent(email, startTime) {
+    return this.db.prepare(`
+      SELECT * FROM interview_events
+      WHERE interviewer_email = ? AND calendar_event_id IS NULL
+      AND status = 'pending' AND julianday(start_time) = julianday(?)
+      LIMIT 1
+    `).get(email, startTime) || null
+  }
+}
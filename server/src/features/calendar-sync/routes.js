@@ -0,0 +1,72 @@
+import config from '../../config/index.js'
+import {
+  CalendarSyncStatusSchema,
+  RunCalendarSyncSchema,
+  CalendarSyncResultSchema,
+  ErrorSchema
+} from './schemas.js'
+
+/**
+ * Calendar sync routes
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function calendarSyncRoutes(fastify, options) {
+  const service = options.service
+
+  // GET /api/calendar-sync/status - Sync status per interviewer
+  fastify.get('/status', {
+    schema: {
+      description: 'Outlook calendar sync status per interviewer (admin only)',
+      tags: ['calendar-sync'],
+      response: {
+        200: CalendarSyncStatusSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (_request, _reply) => {
+    const status = await service.getStatus()
+    return { ...status, interval_minutes: config.calendarSync.intervalMinutes }
+  })
+
+  // POST /api/calendar-sync/run - Sync now
+  fastify.post('/run', {
+    schema: {
+      description: 'Sync Outlook calendars now, for one interviewer or everyone with sync enabled (admin only)',
+      tags: ['calendar-sync'],
+      body: RunCalendarSyncSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: CalendarSyncResultSchema }
+          }
+        },
+        400: ErrorSchema,
+        409: ErrorSchema,
+        503: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    const { interviewer_email, full } = request.body
+
+    try {
+      const data = interviewer_email
+        ? [await service.syncInterviewer(interviewer_email, request.user, { full })]
+        : await service.syncAll(request.user, { full })
+      return { data }
+    } catch (error) {
+      if (error.message === 'Calendar sync is not configured') {
+        return reply.serviceUnavailable(error.message)
+      }
+      if (error.message === 'Calendar sync is already running') {
+        return reply.conflict(error.message)
+      }
+      if (error.message === 'Interviewer not found' || error.message.includes('not enabled')) {
+        return reply.badRequest(error.message)
+      }
+      throw error
+    }
+  })
+}
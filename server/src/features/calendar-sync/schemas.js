@@ -0,0 +1,49 @@
+import { Type } from '@sinclair/typebox'
+
+// Sync state of one interviewer
+export const CalendarSyncInterviewerSchema = Type.Object({
+  interviewer_email: Type.String({ format: 'email' }),
+  interviewer_name: Type.String(),
+  is_active: Type.Boolean(),
+  calendar_sync_enabled: Type.Boolean(),
+  last_synced_at: Type.Union([Type.String(), Type.Null()]),
+  last_run_at: Type.Union([Type.String(), Type.Null()]),
+  last_status: Type.Union([Type.Literal('ok'), Type.Literal('error'), Type.Null()]),
+  last_error: Type.Union([Type.String(), Type.Null()]),
+  events_created: Type.Integer(),
+  events_updated: Type.Integer(),
+  events_cancelled: Type.Integer()
+})
+
+// Overall sync status
+export const CalendarSyncStatusSchema = Type.Object({
+  configured: Type.Boolean(),
+  running: Type.Boolean(),
+  interval_minutes: Type.Integer(),
+  interviewers: Type.Array(CalendarSyncInterviewerSchema)
+})
+
+// Run request (no interviewer = every synced interviewer)
+export const RunCalendarSyncSchema = Type.Object({
+  interviewer_email: Type.Optional(Type.String({ format: 'email' })),
+  full: Type.Optional(Type.Boolean({ default: false }))
+})
+
+// Outcome of one interviewer's run
+export const CalendarSyncResultSchema = Type.Object({
+  interviewer_email: Type.String(),
+  status: Type.Union([Type.Literal('ok'), Type.Literal('error')]),
+  error: Type.Optional(Type.String()),
+  last_synced_at: Type.Optional(Type.String()),
+  created: Type.Optional(Type.Integer()),
+  updated: Type.Optional(Type.Integer()),
+  cancelled: Type.Optional(Type.Integer()),
+  skipped: Type.Optional(Type.Integer())
+})
+
+// Error response
+export const ErrorSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+  statusCode: Type.Optional(Type.Integer())
+})
@@ -0,0 +1,360 @@
+import { nanoid } from 'nanoid'
+import { CalendarSyncRepository } from './repository.js'
+import { EventRepository } from '../events/repository.js'
+import { CLEARED_RESPONSE } from '../events/service.js'
+import { InterviewerRepository } from '../interviewers/repository.js'
+import { isValidTimeZone, zonedTimeToUtc } from '../../utils/time-zone.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Audit identity for scheduled runs
+const SYNC_USER = { email: 'system', name: 'Calendar Sync' }
+
+/**
+ * Calendar Sync Service
+ * One-way sync of interviewer Outlook calendars into interview_events
+ *
+ * Outlook events whose subject contains the configured keyword are
+ * imported as pending interviews and matched on later runs by their
+ * Outlook event ID (calendar_event_id). Outlook is the source for times
+ * and cancellations only: events already marked attended or ghosted keep
+ * their status, and nothing is ever written back to Outlook.
+ */
+export class CalendarSyncService {
+  /**
+   * @param {import('better-sqlite3').Database} db
+   * @param {import('../../utils/audit-logger.js').AuditLogger} auditLogger
+   * @param {Object} graphClient - GraphClient or a stand-in with the same surface
+   * @param {Object} [options]
+   * @param {string} [options.subjectKeyword='interview'] - Only matching events are imported
+   * @param {number} [options.pastDays=30] - Initial read window before today
+   * @param {number} [options.futureDays=90] - Initial read window after today
+   * @param {Object} [options.notifier] - Told about moved and cancelled interviews
+   * @param {Object} [options.webhooks] - Told about every imported change
+   */
+  constructor(db, auditLogger, graphClient, options = {}) {
+    this.db = db
+    this.auditLogger = auditLogger
+    this.graphClient = graphClient
+    this.repository = new CalendarSyncRepository(db)
+    this.eventRepository = new EventRepository(db)
+    this.interviewerRepository = new InterviewerRepository(db)
+    this.subjectKeyword = (options.subjectKeyword || 'interview').toLowerCase()
+    this.pastDays = options.pastDays ?? 30
+    this.futureDays = options.futureDays ?? 90
+    this.notifier = options.notifier
+    this.webhooks = options.webhooks
+    this.running = false
+  }
+
+  /**
+   * Whether Graph credentials are configured
+   * @returns {boolean}
+   */
+  get isConfigured() {
+    return Boolean(this.graphClient?.isConfigured)
+  }
+
+  /**
+   * Sync status per interviewer
+   * @returns {Object} { configured, running, interviewers }
+   */
+  async getStatus() {
+    return {
+      configured: this.isConfigured,
+      running: this.running,
+      interviewers: this.repository.findStatuses()
+    }
+  }
+
+  /**
+   * Sync every interviewer with calendar sync enabled
+   * A failing calendar does not stop the others.
+   * @param {Object} [user] - User who started the run (omit for scheduled runs)
+   * @param {Object} [options]
+   * @param {boolean} [options.full=false] - Ignore delta links and re-read the window
+   * @returns {Array} Result per interviewer
+   * @throws {Error} If sync is not configured or a run is in progress
+   */
+  async syncAll(user = SYNC_USER, options = {}) {
+    return this._exclusive(async () => {
+      const results = []
+
+      for (const interviewer of this.repository.findSyncTargets()) {
+        results.push(await this._syncInterviewer(interviewer.email, user, options))
+      }
+
+      return results
+    })
+  }
+
+  /**
+   * Sync one interviewer's calendar
+   * @param {string} email
+   * @param {Object} [user] - User who started the run
+   * @param {Object} [options]
+   * @param {boolean} [options.full=false] - Ignore the delta link and re-read the window
+   * @returns {Object} Result ({ status: 'ok' | 'error', counts or error })
+   * @throws {Error} If sync is not configured, a run is in progress, or the interviewer cannot be synced
+   */
+  async syncInterviewer(email, user = SYNC_USER, options = {}) {
+    const interviewer = this.interviewerRepository.findByEmail(email)
+    if (!interviewer) {
+      throw new Error('Interviewer not found')
+    }
+    if (!interviewer.calendar_sync_enabled) {
+      throw new Error('Calendar sync is not enabled for this interviewer')
+    }
+
+    return this._exclusive(() => this._syncInterviewer(email, user, options))
+  }
+
+  /**
+   * Run a sync unless another one is in progress
+   * @param {Function} run
+   */
+  async _exclusive(run) {
+    if (!this.isConfigured) {
+      throw new Error('Calendar sync is not configured')
+    }
+    if (this.running) {
+      throw new Error('Calendar sync is already running')
+    }
+
+    this.running = true
+    try {
+      return await run()
+    } finally {
+      this.running = false
+    }
+  }
+
+  /**
+   * Read changes from Graph and apply them
+   * Errors are recorded in the sync state rather than thrown.
+   */
+  async _syncInterviewer(email, user, { full = false } = {}) {
+    const state = this.repository.findState(email)
+    const now = Date.now()
+    const window = {
+      start: new Date(now - this.pastDays * DAY_MS).toISOString(),
+      end: new Date(now + this.futureDays * DAY_MS).toISOString()
+    }
+
+    let changes
+    try {
+      const deltaLink = full ? null : state?.delta_link
+      try {
+        changes = await this.graphClient.listEventChanges(email, { ...window, deltaLink })
+      } catch (error) {
+        // Graph expires delta links after a while: start over with a full read
+        if (!deltaLink || error.message !== 'Graph delta link expired') throw error
+        this.repository.clearDeltaLink(email)
+        changes = await this.graphClient.listEventChanges(email, window)
+      }
+    } catch (error) {
+      this.repository.saveRun(email, { status: 'error', error: error.message })
+      return { interviewer_email: email, status: 'error', error: error.message }
+    }
+
+    const syncedAt = new Date().toISOString()
+    const applied = { created: [], rescheduled: [], cancelled: [] }
+    const counts = this.db.transaction(() => {
+      const totals = { created: 0, updated: 0, cancelled: 0, skipped: 0 }
+
+      for (const graphEvent of changes.events) {
+        totals[this._applyEvent(email, graphEvent, applied)]++
+      }
+
+      this.repository.saveRun(email, { status: 'ok', delta_link: changes.deltaLink, ...totals })
+      this.repository.markSynced(email, syncedAt)
+      return totals
+    })()
+
+    if (counts.created + counts.updated + counts.cancelled > 0) {
+      const interviewer = this.interviewerRepository.findByEmail(email)
+      this.auditLogger?.log({
+        action: 'SYNC_CALENDAR',
+        entityType: 'interviewer',
+        entityId: interviewer.id,
+        changes: { interviewer_email: email, full, ...counts },
+        userEmail: user.email,
+        userName: user.name
+      })
+    }
+
+    // Not awaited: the notifier logs its own failures
+    const auditContext = { userEmail: user.email, userName: user.name }
+    if (applied.rescheduled.length > 0) {
+      this.notifier?.notifyEventsRescheduled(applied.rescheduled.map(({ event }) => event), auditContext)
+    }
+    applied.cancelled.forEach(event => {
+      this.notifier?.notifyEventStatusChanged(event, 'pending', auditContext)
+    })
+
+    applied.created.forEach(event => {
+      this.webhooks?.dispatch('event.created', { event }, auditContext)
+    })
+    applied.rescheduled.forEach(({ event, previous }) => {
+      this.webhooks?.dispatch('event.rescheduled', { event, previous }, auditContext)
+    })
+    applied.cancelled.forEach(event => {
+      this.webhooks?.dispatch('event.status_changed', { event, previous_status: 'pending' }, auditContext)
+    })
+
+    return { interviewer_email: email, status: 'ok', last_synced_at: syncedAt, ...counts }
+  }
+
+  /**
+   * Apply one Graph event (or removal) to the roster
+   * @param {string} email - Interviewer whose calendar it came from
+   * @param {Object} graphEvent
+   * @param {Object} applied - { created, rescheduled, cancelled }: changed
+   *   event rows are added for notifications and webhooks (moves as
+   *   { event, previous })
+   * @returns {'created'|'updated'|'cancelled'|'skipped'}
+   */
+  _applyEvent(email, graphEvent, applied) {
+    const existing = this.repository.findEventByCalendarId(graphEvent.id)
+
+    // Removed from the calendar (deleted, or moved out of the window)
+    if (graphEvent['@removed']) {
+      return existing ? this._cancel(existing, applied) : 'skipped'
+    }
+
+    const subject = parseSubject(graphEvent.subject, this.subjectKeyword)
+    if (graphEvent.isAllDay || (!subject && !existing)) {
+      return 'skipped'
+    }
+    if (!subject || graphEvent.isCancelled) {
+      // No longer an interview (subject edited) or cancelled by the organizer
+      return existing ? this._cancel(existing, applied) : 'skipped'
+    }
+
+    const startTime = graphTimeToIso(graphEvent.start)
+    const endTime = graphTimeToIso(graphEvent.end)
+    const fields = {
+      start_time: startTime,
+      end_time: endTime,
+      duration_minutes: Math.round((Date.parse(endTime) - Date.parse(startTime)) / 60000),
+      candidate_name: subject.candidate_name,
+      position: subject.position
+    }
+
+    if (existing) {
+      // Candidate and position may have been corrected on the roster
+      const changed = ['start_time', 'end_time', 'duration_minutes'].filter(field =>
+        fields[field] !== existing[field]
+      )
+      if (changed.length === 0) return 'skipped'
+
+      // A moved interview asks the interviewer to confirm again
+      const moved = changed.includes('start_time') || changed.includes('end_time')
+      const updated = this.eventRepository.update(existing.id, {
+        ...Object.fromEntries(changed.map(field => [field, fields[field]])),
+        ...(moved && existing.interviewer_response && CLEARED_RESPONSE)
+      })
+      if (moved && updated.status !== 'cancelled') {
+        applied.rescheduled.push({ event: updated, previous: pickSlot(existing) })
+      }
+      return 'updated'
+    }
+
+    // Already on the roster (entered by hand): link it instead of duplicating
+    const unlinked = this.repository.findUnlinkedEvent(email, startTime)
+    if (unlinked) {
+      const moved = Date.parse(endTime) !== Date.parse(unlinked.end_time)
+      const updated = this.eventRepository.update(unlinked.id, {
+        calendar_event_id: graphEvent.id,
+        end_time: endTime,
+        duration_minutes: fields.duration_minutes,
+        candidate_name: unlinked.candidate_name || fields.candidate_name,
+        position: unlinked.position || fields.position,
+        ...(moved && unlinked.interviewer_response && CLEARED_RESPONSE)
+      })
+      if (moved) {
+        applied.rescheduled.push({ event: updated, previous: pickSlot(unlinked) })
+      }
+      return 'updated'
+    }
+
+    applied.created.push(this.eventRepository.create({
+      id: nanoid(),
+      interviewer_email: email,
+      calendar_event_id: graphEvent.id,
+      ...fields,
+      scheduled_date: startTime.slice(0, 10),
+      status: 'pending'
+    }))
+    return 'created'
+  }
+
+  /**
+   * Cancel a synced event unless it was already marked
+   * @param {Object} event - Raw event row
+   * @param {Object} applied - See _applyEvent()
+   * @returns {'cancelled'|'skipped'}
+   */
+  _cancel(event, applied) {
+    if (event.status !== 'pending') return 'skipped'
+
+    applied.cancelled.push(this.eventRepository.update(event.id, { status: 'cancelled' }))
+    return 'cancelled'
+  }
+}
+
+/**
+ * Interviewer and times of an event, for reschedule webhooks
+ * @param {Object} event
+ * @returns {Object} { interviewer_email, start_time, end_time }
+ */
+function pickSlot({ interviewer_email, start_time, end_time }) {
+  return { interviewer_email, start_time, end_time }
+}
+
+/**
+ * Read candidate and position from an Outlook subject
+ * e.g. "Interview: Jane Smith (Backend Engineer)" or
+ * "Interview with Jane Smith - Backend Engineer"
+ * @param {string|undefined} subject
+ * @param {string} keyword - Lowercase keyword that marks interviews
+ * @returns {{candidate_name: string|null, position: string|null}|null} null if not an interview
+ */
+function parseSubject(subject, keyword) {
+  const text = (subject || '').trim()
+  const at = text.toLowerCase().indexOf(keyword)
+  if (at === -1) return null
+
+  const rest = text
+    .slice(at + keyword.length)
+    .replace(/^\s*(with\b)?\s*[:\-–]?\s*/i, '')
+    .trim()
+
+  const parenthesized = rest.match(/^(.*?)\s*\(([^)]+)\)$/)
+  const [name, position] = parenthesized
+    ? [parenthesized[1], parenthesized[2]]
+    : rest.split(/\s+[-–]\s+/, 2)
+
+  return {
+    candidate_name: name?.trim() || null,
+    position: position?.trim() || null
+  }
+}
+
+/**
+ * Convert a Graph dateTimeTimeZone to an ISO instant
+ * Requests ask for UTC; an IANA zone is converted, anything else is read as UTC.
+ * @param {{dateTime: string, timeZone?: string}} value
+ * @returns {string}
+ */
+function graphTimeToIso(value) {
+  const local = value.dateTime.slice(0, 19)
+
+  if (value.timeZone && value.timeZone !== 'UTC' && isValidTimeZone(value.timeZone)) {
+    const seconds = Number(local.slice(17, 19)) * 1000
+    const instant = Date.parse(zonedTimeToUtc(local.slice(0, 10), local.slice(11, 16), value.timeZone))
+    return new Date(instant + seconds).toISOString()
+  }
+
+  return new Date(`${local}Z`).toISOString()
+}
@@ -0,0 +1,203 @@
+import { spawn } from 'node:child_process'
+import { once } from 'node:events'
+import { createServer } from 'node:net'
+import { fileURLToPath } from 'node:url'
+import { nanoid } from 'nanoid'
+import { CalendarSyncService } from './service.js'
+import { GraphClient } from './graph-client.js'
+import { EventRepository } from '../events/repository.js'
+import { createTestDb, createInterviewer } from '../../test/helpers.js'
+
+const FAKE_GRAPH_SERVER = fileURLToPath(new URL('../../../scripts/fake-graph-server.js', import.meta.url))
+const HOUR_MS = 60 * 60 * 1000
+
+// Whole hours from now, so events fall inside the sync window
+const hoursFromNow = hours => {
+  const date = new Date(Date.now() + hours * HOUR_MS)
+  date.setUTCMinutes(0, 0, 0)
+  return date
+}
+
+const graphTime = date => ({ dateTime: date.toISOString().replace('Z', '0000'), timeZone: 'UTC' })
+
+async function freePort() {
+  const server = createServer().listen(0, '127.0.0.1')
+  await once(server, 'listening')
+  const { port } = server.address()
+  server.close()
+  await once(server, 'close')
+  return port
+}
+
+describe('CalendarSyncService', () => {
+  let graph
+  let baseUrl
+  let db
+  let service
+  let events
+  let interviewer
+
+  beforeAll(async () => {
+    const port = await freePort()
+    baseUrl = `http://127.0.0.1:${port}`
+    graph = spawn(process.execPath, [FAKE_GRAPH_SERVER, '--empty'], {
+      env: { ...process.env, FAKE_GRAPH_PORT: String(port) },
+      stdio: ['ignore', 'pipe', 'inherit']
+    })
+
+    // The server logs once it is listening
+    const [output] = await once(graph.stdout, 'data')
+    if (!output.toString().includes('listening')) {
+      throw new Error(`Fake Graph server did not start: ${output}`)
+    }
+  })
+
+  afterAll(async () => {
+    graph.kill()
+    await once(graph, 'exit')
+  })
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    events = new EventRepository(db)
+    interviewer = createInterviewer(db, { calendar_sync_enabled: true })
+    service = new CalendarSyncService(db, null, new GraphClient({
+      graphUrl: `${baseUrl}/v1.0`,
+      authorityUrl: baseUrl,
+      tenantId: 'fake',
+      clientId: 'fake',
+      clientSecret: 'fake',
+      retryBaseMs: 10
+    }))
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  const control = async (method, path, body) => {
+    const response = await fetch(`${baseUrl}/_fake${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body && JSON.stringify(body)
+    })
+    if (!response.ok) throw new Error(`Fake Graph control ${method} ${path} failed (${response.status})`)
+  }
+
+  // Put an event in the interviewer's Outlook calendar
+  const putOutlookEvent = (id, subject, start, hours = 1) =>
+    control('PUT', `/users/${encodeURIComponent(interviewer.email)}/events/${id}`, {
+      subject,
+      start: graphTime(start),
+      end: graphTime(new Date(start.getTime() + hours * HOUR_MS))
+    })
+
+  const deleteOutlookEvent = id =>
+    control('DELETE', `/users/${encodeURIComponent(interviewer.email)}/events/${id}`)
+
+  const sync = (options = {}) => service.syncInterviewer(interviewer.email, undefined, options)
+
+  const rosterEvents = () =>
+    db.prepare('SELECT * FROM interview_events WHERE interviewer_email = ? ORDER BY start_time')
+      .all(interviewer.email)
+
+  it('imports interviews on the first run and only changes after that', async () => {
+    const start = hoursFromNow(48)
+    await putOutlookEvent('ev-1', 'Interview: Alex Kim (Senior Frontend Engineer)', start)
+    await putOutlookEvent('ev-2', '1:1 with manager', hoursFromNow(72))
+    await putOutlookEvent('ev-3', 'Interview with Sam Lee - Backend Engineer', hoursFromNow(96))
+
+    const first = await sync()
+
+    expect(first).toMatchObject({ status: 'ok', created: 2, updated: 0, cancelled: 0, skipped: 1 })
+    expect(rosterEvents()).toEqual([
+      expect.objectContaining({
+        calendar_event_id: 'ev-1',
+        candidate_name: 'Alex Kim',
+        position: 'Senior Frontend Engineer',
+        start_time: start.toISOString(),
+        status: 'pending'
+      }),
+      expect.objectContaining({ calendar_event_id: 'ev-3', candidate_name: 'Sam Lee' })
+    ])
+
+    const moved = hoursFromNow(50)
+    await putOutlookEvent('ev-1', 'Interview: Alex Kim (Senior Frontend Engineer)', moved)
+    await deleteOutlookEvent('ev-3')
+
+    // The untouched 1:1 is not read again
+    const second = await sync()
+
+    expect(second).toMatchObject({ status: 'ok', created: 0, updated: 1, cancelled: 1, skipped: 0 })
+    expect(rosterEvents().map(event => [event.calendar_event_id, event.status])).toEqual([
+      ['ev-1', 'pending'],
+      ['ev-3', 'cancelled']
+    ])
+    expect(rosterEvents()[0].start_time).toBe(moved.toISOString())
+  })
+
+  it('falls back to a full read when the delta link has expired', async () => {
+    await putOutlookEvent('ev-1', 'Interview: Alex Kim (Senior Frontend Engineer)', hoursFromNow(48))
+    await sync()
+    const { delta_link: expiredLink } = service.repository.findState(interviewer.email)
+
+    await control('POST', '/expire-deltas')
+    await putOutlookEvent('ev-2', 'Interview: Jo Park (Data Scientist)', hoursFromNow(72))
+
+    const result = await sync()
+
+    expect(result).toMatchObject({ status: 'ok', created: 1, updated: 0, skipped: 1 })
+    expect(rosterEvents().map(event => event.calendar_event_id)).toEqual(['ev-1', 'ev-2'])
+    const state = service.repository.findState(interviewer.email)
+    expect(state).toMatchObject({ last_status: 'ok' })
+    expect(state.delta_link).not.toBe(expiredLink)
+  })
+
+  it('updates the event with the same calendar event ID instead of adding one', async () => {
+    await putOutlookEvent('ev-1', 'Interview: Alex Kim (Senior Frontend Engineer)', hoursFromNow(48))
+    await sync()
+    const [imported] = rosterEvents()
+    // Corrected on the roster; Outlook only owns the times
+    events.update(imported.id, { candidate_name: 'Alexandra Kim' })
+
+    const moved = hoursFromNow(50)
+    await putOutlookEvent('ev-1', 'Interview: Alex Kim (Senior Frontend Engineer)', moved, 1.5)
+    const result = await sync({ full: true })
+
+    expect(result).toMatchObject({ created: 0, updated: 1 })
+    expect(rosterEvents()).toEqual([
+      expect.objectContaining({
+        id: imported.id,
+        calendar_event_id: 'ev-1',
+        candidate_name: 'Alexandra Kim',
+        start_time: moved.toISOString(),
+        duration_minutes: 90
+      })
+    ])
+  })
+
+  it('links an interview already entered by hand instead of duplicating it', async () => {
+    const start = hoursFromNow(48)
+    const manual = events.create({
+      id: nanoid(),
+      interviewer_email: interviewer.email,
+      start_time: start.toISOString(),
+      end_time: new Date(start.getTime() + HOUR_MS).toISOString(),
+      candidate_name: 'Alex Kim',
+      status: 'pending'
+    })
+    await putOutlookEvent('ev-1', 'Interview: Alex Kim (Senior Frontend Engineer)', start)
+
+    const result = await sync()
+
+    expect(result).toMatchObject({ created: 0, updated: 1 })
+    expect(rosterEvents()).toEqual([
+      expect.objectContaining({
+        id: manual.id,
+        calendar_event_id: 'ev-1',
+        candidate_name: 'Alex Kim',
+        position: 'Senior Frontend Engineer'
+      })
+    ])
+  })
+})
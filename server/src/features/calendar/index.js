@@ -0,0 +1,17 @@
+import { CalendarFeedService } from './service.js'
+import routes from './routes.js'
+
+/**
+ * Calendar feature plugin
+ * iCalendar subscription feeds per interviewer and for the whole roster
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function calendarPlugin(fastify, _options) {
+  const service = new CalendarFeedService(fastify.db, fastify.auditLogger)
+
+  // Register routes with service
+  await fastify.register(routes, { prefix: '/calendar', service })
+
+  fastify.log.info('Calendar feature registered')
+}
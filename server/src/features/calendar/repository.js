@@ -0,0 +1,137 @@
+/**
+ * Calendar Feed Repository
+ * Data access layer for calendar_feeds table and feed contents
+ */
+export class CalendarFeedRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Find feeds, newest first
+   * @param {Object} filters
+   * @param {string} [filters.created_by] - Only feeds created by this user
+   * @param {boolean} [filters.include_revoked=false]
+   * @returns {Array}
+   */
+  findAll(filters = {}) {
+    let sql = `
+      SELECT f.*, i.name as interviewer_name
+      FROM calendar_feeds f
+      LEFT JOIN interviewers i ON i.email = f.interviewer_email
+      WHERE 1=1
+    `
+    const params = []
+
+    if (filters.created_by) {
+      sql += ' AND f.created_by = ?'
+      params.push(filters.created_by)
+    }
+
+    if (!filters.include_revoked) {
+      sql += ' AND f.revoked_at IS NULL'
+    }
+
+    sql += ' ORDER BY f.created_at DESC'
+
+    return this.db.prepare(sql).all(...params)
+  }
+
+  /**
+   * Find feed by ID
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  findById(id) {
+    return this.db.prepare(`
+      SELECT f.*, i.name as interviewer_name
+      FROM calendar_feeds f
+      LEFT JOIN interviewers i ON i.email = f.interviewer_email
+      WHERE f.id = ?
+    `).get(id) || null
+  }
+
+  /**
+   * Find an active (not revoked) feed by token
+   * @param {string} token
+   * @returns {Object|null}
+   */
+  findActiveByToken(token) {
+    return this.db.prepare(`
+      SELECT f.*, i.name as interviewer_name
+      FROM calendar_feeds f
+      LEFT JOIN interviewers i ON i.email = f.interviewer_email
+      WHERE f.token = ? AND f.revoked_at IS NULL
+    `).get(token) || null
+  }
+
+  /**
+   * Create new feed
+   * @param {Object} data
+   * @returns {Object}
+   */
+  create(data) {
+    this.db.prepare(`
+      INSERT INTO calendar_feeds (id, token, interviewer_email, created_by)
+      VALUES (?, ?, ?, ?)
+    `).run(data.id, data.token, data.interviewer_email || null, data.created_by)
+
+    return this.findById(data.id)
+  }
+
+  /**
+   * Revoke feed (the row is kept for the audit trail)
+   * @param {string} id
+   * @returns {boolean} False if the feed does not exist or is already revoked
+   */
+  revoke(id) {
+    const result = this.db.prepare(`
+      UPDATE calendar_feeds SET revoked_at = datetime('now')
+      WHERE id = ? AND revoked_at IS NULL
+    `).run(id)
+
+    return result.changes > 0
+  }
+
+  /**
+   * Record that a calendar app fetched the feed
+   * @param {string} id
+   */
+  touch(id) {
+    this.db.prepare(`
+      UPDATE calendar_feeds SET last_accessed_at = datetime('now') WHERE id = ?
+    `).run(id)
+  }
+
+  /**
+   * Events shown in a feed
+   * @param {Object} filters
+   * @param {string|null} filters.interviewer_email - null for the whole roster
+   * @param {string} filters.from - ISO datetime (inclusive)
+   * @param {string} filters.to - ISO datetime (exclusive)
+   * @returns {Array}
+   */
+  findFeedEvents({ interviewer_email, from, to }) {
+    let sql = `
+      SELECT e.id, e.interviewer_email, e.start_time, e.end_time, e.status,
+        e.candidate_name, e.position, e.skills_assessed, e.notes, e.updated_at,
+        i.name as interviewer_name
+      FROM interview_events e
+      LEFT JOIN interviewers i ON i.email = e.interviewer_email
+      WHERE julianday(e.start_time) >= julianday(?) AND julianday(e.start_time) < julianday(?)
+    `
+    const params = [from, to]
+
+    if (interviewer_email) {
+      sql += ' AND e.interviewer_email = ?'
+      params.push(interviewer_email)
+    }
+
+    sql += ' ORDER BY julianday(e.start_time) ASC'
+
+    return this.db.prepare(sql).all(...params).map(row => ({
+      ...row,
+      skills_assessed: JSON.parse(row.skills_assessed || '[]')
+    }))
+  }
+}
@@ -0,0 +1,62 @@
+import { nanoid } from 'nanoid'
+import { CalendarFeedRepository } from './repository.js'
+import { createTestDb, createInterviewer } from '../../test/helpers.js'
+
+describe('CalendarFeedRepository', () => {
+  let db
+  let repository
+  let interviewer
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    repository = new CalendarFeedRepository(db)
+    interviewer = createInterviewer(db)
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  // Stored as written, like rows from calendar sync or older clients
+  const addEvent = (startTime, endTime) => {
+    const id = nanoid()
+    db.prepare(`
+      INSERT INTO interview_events (id, interviewer_email, start_time, end_time, status)
+      VALUES (?, ?, ?, ?, 'pending')
+    `).run(id, interviewer.email, startTime, endTime)
+    return id
+  }
+
+  describe('findFeedEvents', () => {
+    it('compares start times as instants whatever their offset', () => {
+      // 08:00Z, before the window although the string sorts after its start
+      addEvent('2026-03-02T10:00:00+02:00', '2026-03-02T11:00:00+02:00')
+      // 09:00Z, on the window start
+      const onStart = addEvent('2026-03-02T10:00:00+01:00', '2026-03-02T11:00:00+01:00')
+      const inside = addEvent('2026-03-02T12:00:00.000Z', '2026-03-02T13:00:00.000Z')
+      // 17:00Z, on the (exclusive) window end although the string sorts before it
+      addEvent('2026-03-02T12:00:00-05:00', '2026-03-02T13:00:00-05:00')
+
+      const events = repository.findFeedEvents({
+        interviewer_email: interviewer.email,
+        from: '2026-03-02T09:00:00.000Z',
+        to: '2026-03-02T17:00:00.000Z'
+      })
+
+      expect(events.map(event => event.id)).toEqual([onStart, inside])
+    })
+
+    it('orders events by instant', () => {
+      const later = addEvent('2026-03-02T11:00:00.000Z', '2026-03-02T12:00:00.000Z')
+      const earlier = addEvent('2026-03-02T11:30:00+01:00', '2026-03-02T12:30:00+01:00')
+
+      const events = repository.findFeedEvents({
+        interviewer_email: null,
+        from: '2026-03-02T00:00:00.000Z',
+        to: '2026-03-03T00:00:00.000Z'
+      })
+
+      expect(events.map(event => event.id)).toEqual([earlier, later])
+    })
+  })
+})
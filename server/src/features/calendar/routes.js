@@ -0,0 +1,131 @@
+import config from '../../config/index.js'
+import {
+  CalendarFeedSchema,
+  CreateCalendarFeedSchema,
+  CalendarFeedIdParamSchema,
+  CalendarFeedTokenParamSchema,
+  ErrorSchema
+} from './schemas.js'
+
+/**
+ * Origin the feed URLs point at
+ * CALENDAR_FEED_BASE_URL wins over the request host (needed behind a proxy)
+ * @param {import('fastify').FastifyRequest} request
+ * @returns {string}
+ */
+function feedBaseUrl(request) {
+  return config.calendar.feedBaseUrl || `${request.protocol}://${request.headers.host}`
+}
+
+/**
+ * Calendar feed routes
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function calendarRoutes(fastify, options) {
+  const service = options.service
+
+  // GET /api/calendar/feeds - List active feeds
+  fastify.get('/feeds', {
+    schema: {
+      description: 'List active calendar feeds (admins see all feeds, other users their own)',
+      tags: ['calendar'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: CalendarFeedSchema }
+          }
+        }
+      }
+    },
+    preHandler: fastify.authenticate
+  }, async (request, _reply) => {
+    const data = await service.list(request.user, feedBaseUrl(request))
+    return { data }
+  })
+
+  // POST /api/calendar/feeds - Create feed
+  fastify.post('/feeds', {
+    schema: {
+      description: 'Create a calendar feed for an interviewer, or for the whole roster (admin/talent)',
+      tags: ['calendar'],
+      body: CreateCalendarFeedSchema,
+      response: {
+        201: CalendarFeedSchema,
+        400: ErrorSchema,
+        403: ErrorSchema
+      }
+    },
+    preHandler: fastify.authenticate
+  }, async (request, reply) => {
+    try {
+      const feed = await service.create(request.body, request.user, feedBaseUrl(request))
+      reply.code(201)
+      return feed
+    } catch (error) {
+      if (error.message.startsWith('Not allowed')) {
+        return reply.forbidden(error.message)
+      }
+      if (error.message === 'Interviewer not found') {
+        return reply.badRequest(error.message)
+      }
+      throw error
+    }
+  })
+
+  // DELETE /api/calendar/feeds/:id - Revoke feed
+  fastify.delete('/feeds/:id', {
+    schema: {
+      description: 'Revoke a calendar feed, its URL stops working immediately',
+      tags: ['calendar'],
+      params: CalendarFeedIdParamSchema,
+      response: {
+        204: { type: 'null', description: 'No content' },
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authenticate
+  }, async (request, reply) => {
+    try {
+      const revoked = await service.revoke(request.params.id, request.user)
+
+      if (!revoked) {
+        return reply.notFound('Calendar feed not found')
+      }
+
+      reply.code(204)
+    } catch (error) {
+      if (error.message.startsWith('Not allowed')) {
+        return reply.forbidden(error.message)
+      }
+      throw error
+    }
+  })
+
+  // GET /api/calendar/:token.ics - iCalendar feed
+  // No session: calendar apps authenticate with the token in the URL
+  fastify.get('/:token.ics', {
+    schema: {
+      description: 'Subscribable iCalendar feed (authenticated by the token in the URL)',
+      tags: ['calendar'],
+      params: CalendarFeedTokenParamSchema,
+      response: {
+        404: ErrorSchema
+      }
+    }
+  }, async (request, reply) => {
+    const ics = await service.render(request.params.token)
+
+    if (!ics) {
+      return reply.notFound('Calendar feed not found')
+    }
+
+    reply
+      .header('Content-Type', 'text/calendar; charset=utf-8')
+      .header('Content-Disposition', 'inline; filename="interviews.ics"')
+      .header('Cache-Control', 'private, max-age=300')
+    return ics
+  })
+}
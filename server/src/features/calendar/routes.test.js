@@ -0,0 +1,70 @@
+import { buildTestApp, authHeader, createInterviewer } from '../../test/helpers.js'
+
+describe('calendar feed routes', () => {
+  let app
+  let interviewer
+  let owner
+
+  beforeAll(async () => {
+    app = await buildTestApp()
+    interviewer = createInterviewer(app.db)
+    owner = authHeader(app, { email: interviewer.email, name: interviewer.name, role: 'viewer' })
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  const createFeed = (headers, payload = {}) =>
+    app.inject({ method: 'POST', url: '/api/calendar/feeds', headers, payload })
+
+  const fetchFeed = feed =>
+    app.inject({ method: 'GET', url: new URL(feed.url).pathname })
+
+  const revokeFeed = (headers, feed) =>
+    app.inject({ method: 'DELETE', url: `/api/calendar/feeds/${feed.id}`, headers })
+
+  it('lets interviewers create a feed of their own interviews', async () => {
+    const response = await createFeed(owner, { interviewer_email: interviewer.email })
+
+    expect(response.statusCode).toBe(201)
+    const feed = response.json()
+    expect(feed).toMatchObject({ scope: 'interviewer', created_by: interviewer.email })
+
+    const ics = await fetchFeed(feed)
+    expect(ics.statusCode).toBe(200)
+    expect(ics.headers['content-type']).toContain('text/calendar')
+    expect(ics.body).toContain('BEGIN:VCALENDAR')
+  })
+
+  it('does not let viewers create roster feeds', async () => {
+    const response = await createFeed(owner)
+
+    expect(response.statusCode).toBe(403)
+  })
+
+  it('stops serving a feed once it is revoked', async () => {
+    const feed = (await createFeed(owner, { interviewer_email: interviewer.email })).json()
+
+    const revoked = await revokeFeed(owner, feed)
+
+    expect(revoked.statusCode).toBe(204)
+    expect((await fetchFeed(feed)).statusCode).toBe(404)
+    expect((await revokeFeed(owner, feed)).statusCode).toBe(404)
+
+    const list = await app.inject({ method: 'GET', url: '/api/calendar/feeds', headers: owner })
+    expect(list.json().data.map(item => item.id)).not.toContain(feed.id)
+  })
+
+  it('only lets the creator or an admin revoke a feed', async () => {
+    const feed = (await createFeed(owner, { interviewer_email: interviewer.email })).json()
+    const colleague = authHeader(app, { email: 'colleague@example.com', name: 'Ben Ode', role: 'viewer' })
+    const admin = authHeader(app, { email: 'admin@example.com', name: 'Sam Admin', role: 'admin' })
+
+    expect((await revokeFeed(colleague, feed)).statusCode).toBe(403)
+    expect((await fetchFeed(feed)).statusCode).toBe(200)
+
+    expect((await revokeFeed(admin, feed)).statusCode).toBe(204)
+    expect((await fetchFeed(feed)).statusCode).toBe(404)
+  })
+})
@@ -0,0 +1,36 @@
+import { Type } from '@sinclair/typebox'
+
+// Calendar feed (the token only appears inside `url`)
+export const CalendarFeedSchema = Type.Object({
+  id: Type.String(),
+  scope: Type.Union([Type.Literal('interviewer'), Type.Literal('roster')]),
+  interviewer_email: Type.Union([Type.String({ format: 'email' }), Type.Null()]),
+  interviewer_name: Type.Union([Type.String(), Type.Null()]),
+  url: Type.String(),
+  created_by: Type.String(),
+  created_at: Type.String(),
+  last_accessed_at: Type.Union([Type.String(), Type.Null()]),
+  revoked_at: Type.Union([Type.String(), Type.Null()])
+})
+
+// Create feed request (no interviewer = whole roster)
+export const CreateCalendarFeedSchema = Type.Object({
+  interviewer_email: Type.Optional(Type.String({ format: 'email' }))
+})
+
+// ID parameter
+export const CalendarFeedIdParamSchema = Type.Object({
+  id: Type.String()
+})
+
+// Feed token parameter
+export const CalendarFeedTokenParamSchema = Type.Object({
+  token: Type.String({ pattern: '^[A-Za-z0-9_-]{20,}$' })
+})
+
+// Error response
+export const ErrorSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+  statusCode: Type.Optional(Type.Integer())
+})
@@ -0,0 +1,206 @@
+import { randomBytes } from 'node:crypto'
+import { nanoid } from 'nanoid'
+import { CalendarFeedRepository } from './repository.js'
+import { InterviewerRepository } from '../interviewers/repository.js'
+import { buildCalendar } from '../../utils/ics.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Feed window around today: recent history plus everything scheduled ahead
+const FEED_PAST_DAYS = 90
+const FEED_FUTURE_DAYS = 365
+
+const STATUS_LABELS = {
+  pending: 'Pending',
+  attended: 'Attended',
+  ghosted: 'Ghosted',
+  cancelled: 'Cancelled'
+}
+
+/**
+ * Calendar Feed Service
+ * Subscribable iCalendar feeds of interview assignments
+ *
+ * The token in a feed URL is the only credential a calendar app sends, so
+ * tokens are 256-bit random values and a leaked URL is handled by revoking
+ * the feed and creating a new one.
+ */
+export class CalendarFeedService {
+  /**
+   * @param {Object} db
+   * @param {Object} auditLogger
+   */
+  constructor(db, auditLogger) {
+    this.repository = new CalendarFeedRepository(db)
+    this.interviewerRepository = new InterviewerRepository(db)
+    this.auditLogger = auditLogger
+  }
+
+  /**
+   * List active feeds
+   * Admins see every feed, other users the feeds they created
+   * @param {Object} user - Authenticated user ({ email, role })
+   * @param {string} baseUrl - Origin the feed URLs are served from
+   * @returns {Array}
+   */
+  async list(user, baseUrl) {
+    const feeds = this.repository.findAll({
+      created_by: user.role === 'admin' ? undefined : user.email
+    })
+    return feeds.map(feed => this._toResponse(feed, baseUrl))
+  }
+
+  /**
+   * Create a feed for one interviewer, or for the whole roster
+   * @param {Object} data - { interviewer_email? } (omit for the roster)
+   * @param {Object} user - Authenticated user ({ email, name, role })
+   * @param {string} baseUrl
+   * @returns {Object} Feed with its subscription URL
+   * @throws {Error} If the user may not create the feed or the interviewer does not exist
+   */
+  async create(data, user, baseUrl) {
+    const canManageRoster = user.role === 'admin' || user.role === 'talent'
+    const interviewerEmail = data.interviewer_email || null
+
+    if (!interviewerEmail && !canManageRoster) {
+      throw new Error('Not allowed to create roster feeds')
+    }
+    if (interviewerEmail && !canManageRoster && interviewerEmail !== user.email) {
+      throw new Error('Not allowed to create feeds for other interviewers')
+    }
+    if (interviewerEmail && !this.interviewerRepository.findByEmail(interviewerEmail)) {
+      throw new Error('Interviewer not found')
+    }
+
+    const feed = this.repository.create({
+      id: nanoid(),
+      token: randomBytes(32).toString('base64url'),
+      interviewer_email: interviewerEmail,
+      created_by: user.email
+    })
+
+    this.auditLogger?.log({
+      action: 'CREATE_CALENDAR_FEED',
+      entityType: 'calendar_feed',
+      entityId: feed.id,
+      changes: { scope: interviewerEmail ? 'interviewer' : 'roster', interviewer_email: interviewerEmail },
+      userEmail: user.email,
+      userName: user.name
+    })
+
+    return this._toResponse(feed, baseUrl)
+  }
+
+  /**
+   * Revoke a feed, its URL stops working immediately
+   * @param {string} id
+   * @param {Object} user - Authenticated user ({ email, name, role })
+   * @returns {boolean} False if the feed does not exist or is already revoked
+   * @throws {Error} If the feed belongs to another user (admins may revoke any feed)
+   */
+  async revoke(id, user) {
+    const feed = this.repository.findById(id)
+    if (!feed || feed.revoked_at) {
+      return false
+    }
+    if (user.role !== 'admin' && feed.created_by !== user.email) {
+      throw new Error('Not allowed to revoke this feed')
+    }
+
+    this.repository.revoke(id)
+
+    this.auditLogger?.log({
+      action: 'REVOKE_CALENDAR_FEED',
+      entityType: 'calendar_feed',
+      entityId: id,
+      changes: { interviewer_email: feed.interviewer_email, created_by: feed.created_by },
+      userEmail: user.email,
+      userName: user.name
+    })
+
+    return true
+  }
+
+  /**
+   * Render the iCalendar document of a feed
+   * @param {string} token
+   * @returns {string|null} null if the token is unknown or revoked
+   */
+  async render(token) {
+    const feed = this.repository.findActiveByToken(token)
+    if (!feed) {
+      return null
+    }
+
+    const now = Date.now()
+    const events = this.repository.findFeedEvents({
+      interviewer_email: feed.interviewer_email,
+      from: new Date(now - FEED_PAST_DAYS * DAY_MS).toISOString(),
+      to: new Date(now + FEED_FUTURE_DAYS * DAY_MS).toISOString()
+    })
+
+    this.repository.touch(feed.id)
+
+    return buildCalendar({
+      name: feed.interviewer_email
+        ? `Interviews - ${feed.interviewer_name || feed.interviewer_email}`
+        : 'Interview Roster',
+      events: events.map(event => this._toCalendarEvent(event, !feed.interviewer_email))
+    })
+  }
+
+  /**
+   * Map an interview to a VEVENT
+   * @private
+   * @param {Object} event
+   * @param {boolean} isRoster - Roster feeds name the interviewer in the summary
+   * @returns {Object}
+   */
+  _toCalendarEvent(event, isRoster) {
+    const interviewer = event.interviewer_name || event.interviewer_email
+    const status = STATUS_LABELS[event.status] || event.status
+
+    let summary = event.candidate_name ? `Interview: ${event.candidate_name}` : 'Interview slot'
+    if (event.position) summary += ` (${event.position})`
+    if (isRoster) summary = `${interviewer} - ${summary}`
+
+    const description = [
+      `Status: ${status}`,
+      `Interviewer: ${interviewer}`,
+      event.candidate_name && `Candidate: ${event.candidate_name}`,
+      event.position && `Position: ${event.position}`,
+      event.skills_assessed.length > 0 && `Skills: ${event.skills_assessed.join(', ')}`,
+      event.notes && `Notes: ${event.notes}`
+    ].filter(Boolean).join('\n')
+
+    return {
+      uid: `${event.id}@interviewer-roster`,
+      start: event.start_time,
+      end: event.end_time,
+      summary,
+      description,
+      status: event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+      categories: [status],
+      attendee: { name: interviewer, email: event.interviewer_email },
+      // SQLite datetime('now') is UTC without a zone designator
+      lastModified: event.updated_at && `${event.updated_at.replace(' ', 'T')}Z`,
+      extra: { 'X-INTERVIEW-STATUS': event.status }
+    }
+  }
+
+  /**
+   * Shape a feed for API responses (the token only appears in the URL)
+   * @private
+   * @param {Object} feed
+   * @param {string} baseUrl
+   * @returns {Object}
+   */
+  _toResponse(feed, baseUrl) {
+    const { token, ...rest } = feed
+    return {
+      ...rest,
+      scope: feed.interviewer_email ? 'interviewer' : 'roster',
+      url: `${baseUrl}/api/calendar/${token}.ics`
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { CandidateService } from './service.js'
+import routes from './routes.js'
+
+/**
+ * Candidates feature plugin
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function candidatesPlugin(fastify, _options) {
+  // Create service instance
+  const service = new CandidateService(fastify.db, fastify.auditLogger)
+
+  // Register routes with service
+  await fastify.register(routes, { prefix: '/candidates', service })
+
+  fastify.log.info('Candidates feature registered')
+}
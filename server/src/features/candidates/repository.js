@@ -0,0 +1,156 @@
+/**
+ * Candidate Repository
+ * Data access layer for candidates table
+ */
+export class CandidateRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Find all candidates with optional search
+   * Includes interview counts for list views
+   * @param {Object} filters
+   * @returns {Array}
+   */
+  findAll(filters = {}) {
+    const { search, limit = 50, offset = 0 } = filters
+
+    let sql = `
+      SELECT c.*,
+        (SELECT COUNT(*) FROM interview_events e WHERE e.candidate_id = c.id) as interview_count,
+        (SELECT MAX(e.start_time) FROM interview_events e WHERE e.candidate_id = c.id) as last_interview_at
+      FROM candidates c
+      WHERE 1=1
+    `
+    const params = []
+
+    if (search) {
+      sql += ' AND (c.name LIKE ? OR c.email LIKE ? OR c.position LIKE ?)'
+      const searchPattern = `%${search}%`
+      params.push(searchPattern, searchPattern, searchPattern)
+    }
+
+    sql += ' ORDER BY c.created_at DESC, c.name ASC LIMIT ? OFFSET ?'
+    params.push(limit, offset)
+
+    return this.db.prepare(sql).all(...params)
+  }
+
+  /**
+   * Count candidates matching filters
+   * @param {Object} filters
+   * @returns {number}
+   */
+  count(filters = {}) {
+    const { search } = filters
+
+    let sql = 'SELECT COUNT(*) as count FROM candidates WHERE 1=1'
+    const params = []
+
+    if (search) {
+      sql += ' AND (name LIKE ? OR email LIKE ? OR position LIKE ?)'
+      const searchPattern = `%${search}%`
+      params.push(searchPattern, searchPattern, searchPattern)
+    }
+
+    return this.db.prepare(sql).get(...params).count
+  }
+
+  /**
+   * Find candidate by ID
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  findById(id) {
+    return this.db.prepare('SELECT * FROM candidates WHERE id = ?').get(id) || null
+  }
+
+  /**
+   * Find candidate by email
+   * @param {string} email
+   * @returns {Object|null}
+   */
+  findByEmail(email) {
+    return this.db.prepare('SELECT * FROM candidates WHERE email = ?').get(email) || null
+  }
+
+  /**
+   * Create new candidate
+   * @param {Object} data
+   * @param {Object} auditContext
+   * @returns {Object}
+   */
+  create(data, auditContext) {
+    this.db.prepare(`
+      INSERT INTO candidates (id, name, email, phone, position, notes, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      data.id,
+      data.name,
+      data.email || null,
+      data.phone || null,
+      data.position || null,
+      data.notes || null,
+      auditContext?.userEmail || null
+    )
+
+    return this.findById(data.id)
+  }
+
+  /**
+   * Update candidate
+   * Keeps the candidate_name display copy on linked events in sync
+   * @param {string} id
+   * @param {Object} data
+   * @returns {Object|null}
+   */
+  update(id, data) {
+    const fields = []
+    const values = []
+
+    const allowedFields = ['name', 'email', 'phone', 'position', 'notes']
+
+    allowedFields.forEach(field => {
+      if (data[field] !== undefined) {
+        fields.push(`${field} = ?`)
+        values.push(data[field])
+      }
+    })
+
+    if (fields.length === 0) {
+      return this.findById(id)
+    }
+
+    fields.push('updated_at = datetime(\'now\')')
+    values.push(id)
+
+    const updateCandidate = this.db.transaction(() => {
+      this.db.prepare(`UPDATE candidates SET ${fields.join(', ')} WHERE id = ?`).run(...values)
+
+      if (data.name !== undefined) {
+        this.db
+          .prepare('UPDATE interview_events SET candidate_name = ? WHERE candidate_id = ?')
+          .run(data.name, id)
+      }
+    })
+    updateCandidate()
+
+    return this.findById(id)
+  }
+
+  /**
+   * Delete candidate
+   * Linked events keep their candidate_name but lose the reference
+   * @param {string} id
+   * @returns {boolean}
+   */
+  delete(id) {
+    const deleteCandidate = this.db.transaction(() => {
+      this.db.prepare('UPDATE interview_events SET candidate_id = NULL WHERE candidate_id = ?').run(id)
+      return this.db.prepare('DELETE FROM candidates WHERE id = ?').run(id)
+    })
+
+    return deleteCandidate().changes > 0
+  }
+}
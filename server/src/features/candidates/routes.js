@@ -0,0 +1,199 @@
+import {
+  CandidateSchema,
+  CreateCandidateSchema,
+  UpdateCandidateSchema,
+  ListCandidatesQuerySchema,
+  CandidateIdParamSchema,
+  CandidateInterviewSchema,
+  ErrorSchema
+} from './schemas.js'
+
+/**
+ * Candidate routes
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function candidateRoutes(fastify, options) {
+  const service = options.service
+
+  // GET /api/candidates - List all candidates
+  fastify.get('/', {
+    schema: {
+      description: 'List all candidates with optional search',
+      tags: ['candidates'],
+      querystring: ListCandidatesQuerySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: CandidateSchema },
+            pagination: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer' },
+                limit: { type: 'integer' },
+                offset: { type: 'integer' },
+                hasMore: { type: 'boolean' }
+              }
+            }
+          }
+        }
+      }
+    },
+    preHandler: fastify.authorize(['admin', 'talent'])
+  }, async (request, _reply) => {
+    const result = await service.list(request.query)
+    return result
+  })
+
+  // GET /api/candidates/:id - Get candidate by ID
+  fastify.get('/:id', {
+    schema: {
+      description: 'Get candidate by ID',
+      tags: ['candidates'],
+      params: CandidateIdParamSchema,
+      response: {
+        200: CandidateSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin', 'talent'])
+  }, async (request, reply) => {
+    const candidate = await service.getById(request.params.id)
+
+    if (!candidate) {
+      return reply.notFound('Candidate not found')
+    }
+
+    return candidate
+  })
+
+  // GET /api/candidates/:id/interviews - Interview loop history
+  fastify.get('/:id/interviews', {
+    schema: {
+      description: 'Get every interview in a candidate\'s loop, oldest first',
+      tags: ['candidates'],
+      params: CandidateIdParamSchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: CandidateInterviewSchema }
+          }
+        },
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin', 'talent'])
+  }, async (request, reply) => {
+    const interviews = await service.getInterviews(request.params.id)
+
+    if (!interviews) {
+      return reply.notFound('Candidate not found')
+    }
+
+    return { data: interviews }
+  })
+
+  // POST /api/candidates - Create new candidate
+  fastify.post('/', {
+    schema: {
+      description: 'Create a new candidate',
+      tags: ['candidates'],
+      body: CreateCandidateSchema,
+      response: {
+        201: CandidateSchema,
+        400: ErrorSchema,
+        403: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin', 'talent'])
+  }, async (request, reply) => {
+    try {
+      const auditContext = {
+        userEmail: request.user.email,
+        userName: request.user.name
+      }
+
+      const candidate = await service.create(request.body, auditContext)
+
+      reply.code(201)
+      return candidate
+    } catch (error) {
+      if (error.message === 'Email already exists') {
+        return reply.conflict(error.message)
+      }
+      throw error
+    }
+  })
+
+  // PUT /api/candidates/:id - Update candidate
+  fastify.put('/:id', {
+    schema: {
+      description: 'Update an existing candidate',
+      tags: ['candidates'],
+      params: CandidateIdParamSchema,
+      body: UpdateCandidateSchema,
+      response: {
+        200: CandidateSchema,
+        404: ErrorSchema,
+        403: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin', 'talent'])
+  }, async (request, reply) => {
+    try {
+      const auditContext = {
+        userEmail: request.user.email,
+        userName: request.user.name
+      }
+
+      const candidate = await service.update(
+        request.params.id,
+        request.body,
+        auditContext
+      )
+
+      if (!candidate) {
+        return reply.notFound('Candidate not found')
+      }
+
+      return candidate
+    } catch (error) {
+      if (error.message === 'Email already exists') {
+        return reply.conflict(error.message)
+      }
+      throw error
+    }
+  })
+
+  // DELETE /api/candidates/:id - Delete candidate
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Delete a candidate (their interviews are kept but unlinked)',
+      tags: ['candidates'],
+      params: CandidateIdParamSchema,
+      response: {
+        204: { type: 'null', description: 'No content' },
+        404: ErrorSchema,
+        403: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    const auditContext = {
+      userEmail: request.user.email,
+      userName: request.user.name
+    }
+
+    const deleted = await service.delete(request.params.id, auditContext)
+
+    if (!deleted) {
+      return reply.notFound('Candidate not found')
+    }
+
+    reply.code(204)
+  })
+}
@@ -0,0 +1,57 @@
+import { Type } from '@sinclair/typebox'
+import { EventSchema } from '../events/schemas.js'
+
+// Base candidate schema
+export const CandidateSchema = Type.Object({
+  id: Type.String(),
+  name: Type.String({ minLength: 1 }),
+  email: Type.Union([Type.String({ format: 'email' }), Type.Null()]),
+  phone: Type.Union([Type.String(), Type.Null()]),
+  position: Type.Union([Type.String(), Type.Null()]),
+  notes: Type.Union([Type.String(), Type.Null()]),
+  created_by: Type.Union([Type.String(), Type.Null()]),
+  created_at: Type.String(),
+  updated_at: Type.String(),
+  // Only present in list responses
+  interview_count: Type.Optional(Type.Integer()),
+  last_interview_at: Type.Optional(Type.Union([Type.String(), Type.Null()]))
+})
+
+// Create candidate request
+export const CreateCandidateSchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 255 }),
+  email: Type.Optional(Type.String({ format: 'email' })),
+  phone: Type.Optional(Type.String({ maxLength: 50 })),
+  position: Type.Optional(Type.String({ maxLength: 255 })),
+  notes: Type.Optional(Type.String())
+})
+
+// Update candidate request
+export const UpdateCandidateSchema = Type.Partial(CreateCandidateSchema)
+
+// Query parameters for list
+export const ListCandidatesQuerySchema = Type.Object({
+  search: Type.Optional(Type.String()),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 }))
+})
+
+// ID parameter
+export const CandidateIdParamSchema = Type.Object({
+  id: Type.String()
+})
+
+// Interview in a candidate's loop
+export const CandidateInterviewSchema = Type.Intersect([
+  EventSchema,
+  Type.Object({
+    interviewer_name: Type.Union([Type.String(), Type.Null()])
+  })
+])
+
+// Error response
+export const ErrorSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+  statusCode: Type.Optional(Type.Integer())
+})
@@ -0,0 +1,173 @@
+import { nanoid } from 'nanoid'
+import { CandidateRepository } from './repository.js'
+import { EventRepository } from '../events/repository.js'
+import { InterviewerRepository } from '../interviewers/repository.js'
+
+/**
+ * Candidate Service
+ * Business logic layer
+ */
+export class CandidateService {
+  constructor(db, auditLogger) {
+    this.repository = new CandidateRepository(db)
+    this.eventRepository = new EventRepository(db)
+    this.interviewerRepository = new InterviewerRepository(db)
+    this.auditLogger = auditLogger
+  }
+
+  /**
+   * List candidates with pagination
+   * @param {Object} query
+   * @returns {Object}
+   */
+  async list(query) {
+    const filters = {
+      search: query.search,
+      limit: query.limit || 50,
+      offset: query.offset || 0
+    }
+
+    const candidates = this.repository.findAll(filters)
+    const total = this.repository.count(filters)
+
+    return {
+      data: candidates,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset,
+        hasMore: filters.offset + filters.limit < total
+      }
+    }
+  }
+
+  /**
+   * Get candidate by ID
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  async getById(id) {
+    return this.repository.findById(id)
+  }
+
+  /**
+   * Get every interview in a candidate's loop (oldest first)
+   * Each event carries the interviewer's display name
+   * @param {string} id
+   * @returns {Array|null} Null when the candidate does not exist
+   */
+  async getInterviews(id) {
+    const candidate = this.repository.findById(id)
+    if (!candidate) {
+      return null
+    }
+
+    const events = this.eventRepository.findByCandidate(id)
+    const interviewerNames = {}
+
+    return events.map(event => {
+      if (!(event.interviewer_email in interviewerNames)) {
+        const interviewer = this.interviewerRepository.findByEmail(event.interviewer_email)
+        interviewerNames[event.interviewer_email] = interviewer?.name || null
+      }
+
+      return {
+        ...event,
+        interviewer_name: interviewerNames[event.interviewer_email]
+      }
+    })
+  }
+
+  /**
+   * Create new candidate
+   * @param {Object} data
+   * @param {Object} auditContext
+   * @returns {Object}
+   */
+  async create(data, auditContext) {
+    if (data.email && this.repository.findByEmail(data.email)) {
+      throw new Error('Email already exists')
+    }
+
+    const created = this.repository.create({ id: nanoid(), ...data }, auditContext)
+
+    this.auditLogger?.log({
+      action: 'CREATE_CANDIDATE',
+      entityType: 'candidate',
+      entityId: created.id,
+      changes: { created: true, name: created.name },
+      userEmail: auditContext?.userEmail,
+      userName: auditContext?.userName
+    })
+
+    return created
+  }
+
+  /**
+   * Update candidate
+   * @param {string} id
+   * @param {Object} data
+   * @param {Object} auditContext
+   * @returns {Object|null}
+   */
+  async update(id, data, auditContext) {
+    const existing = this.repository.findById(id)
+    if (!existing) {
+      return null
+    }
+
+    if (data.email && data.email !== existing.email && this.repository.findByEmail(data.email)) {
+      throw new Error('Email already exists')
+    }
+
+    const updated = this.repository.update(id, data)
+
+    const changes = {}
+    Object.keys(data).forEach(key => {
+      if (data[key] !== undefined && existing[key] !== data[key]) {
+        changes[key] = { from: existing[key], to: data[key] }
+      }
+    })
+
+    if (Object.keys(changes).length > 0) {
+      this.auditLogger?.log({
+        action: 'UPDATE_CANDIDATE',
+        entityType: 'candidate',
+        entityId: id,
+        changes,
+        userEmail: auditContext?.userEmail,
+        userName: auditContext?.userName
+      })
+    }
+
+    return updated
+  }
+
+  /**
+   * Delete candidate
+   * @param {string} id
+   * @param {Object} auditContext
+   * @returns {boolean}
+   */
+  async delete(id, auditContext) {
+    const existing = this.repository.findById(id)
+    if (!existing) {
+      return false
+    }
+
+    const deleted = this.repository.delete(id)
+
+    if (deleted) {
+      this.auditLogger?.log({
+        action: 'DELETE_CANDIDATE',
+        entityType: 'candidate',
+        entityId: id,
+        changes: { name: existing.name, email: existing.email },
+        userEmail: auditContext?.userEmail,
+        userName: auditContext?.userName
+      })
+    }
+
+    return deleted
+  }
+}
@@ -1,9 +1,16 @@
 import { EventService } from './service.js'
+import { ScorecardService } from './scorecard-service.js'
+import { SeriesService } from './series-service.js'
+import config from '../../config/index.js'
+import { addDays } from '../../utils/time-zone.js'
 import routes from './routes.js'
+import scorecardRoutes from './scorecard-routes.js'
+import seriesRoutes from './series-routes.js'
 
 /**
  * Events Feature Plugin
- * Registers event management routes and services
+ * Registers event management routes and services, and the job that expands
+ * recurring series ahead of time
  *
  * This is a standard Fastify plugin (not wrapped with fastify-plugin)
  * so it creates an encapsulated context for the feature.
@@ -11,18 +18,59 @@ import routes from './routes.js'
  * Dependencies:
  * - fastify.db (database plugin)
  * - fastify.auditLogger (audit logging)
+ * - fastify.notifier (assignment, status and no-show notifications)
+ * - fastify.webhooks (outbound webhooks for event changes)
  * - fastify.authenticate (JWT auth)
  * - fastify.authorize (role-based auth)
  */
 export default async function eventsPlugin(fastify, _options) {
   // Create service instance with dependencies
-  const service = new EventService(fastify.db, fastify.auditLogger)
+  const service = new EventService(fastify.db, fastify.auditLogger, {
+    bufferMinutes: config.scheduling.bufferMinutes,
+    notifier: fastify.notifier,
+    webhooks: fastify.webhooks
+  })
+  const scorecardService = new ScorecardService(fastify.db, fastify.auditLogger)
+  const seriesService = new SeriesService(fastify.db, fastify.auditLogger, service)
 
   // Register routes with service injected
   await fastify.register(routes, {
     prefix: '/events',
-    service
+    service,
+    seriesService
+  })
+  await fastify.register(scorecardRoutes, {
+    prefix: '/events',
+    scorecardService
+  })
+  await fastify.register(seriesRoutes, {
+    prefix: '/events',
+    seriesService
   })
 
+  // Keep recurring series filled up to the horizon, at startup and on a timer
+  const intervalMinutes = config.scheduling.seriesExpansionIntervalMinutes
+  if (intervalMinutes > 0) {
+    const expandSeries = async () => {
+      try {
+        const today = new Date().toISOString().slice(0, 10)
+        const result = await seriesService.expandThrough(
+          addDays(today, config.scheduling.seriesHorizonDays)
+        )
+        if (result.created + result.skipped > 0) {
+          fastify.log.info(result, 'Expanded recurring series')
+        }
+      } catch (error) {
+        fastify.log.error(error, 'Series expansion failed')
+      }
+    }
+
+    const timer = setInterval(expandSeries, intervalMinutes * 60 * 1000)
+    timer.unref()
+
+    fastify.addHook('onReady', expandSeries)
+    fastify.addHook('onClose', async () => clearInterval(timer))
+  }
+
   fastify.log.info('Events feature registered')
 }
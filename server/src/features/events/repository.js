@@ -7,65 +7,36 @@
  * - JSON field parsing (skills_assessed)
  * - Data transformation (SQLite → JavaScript)
  */
+// Sortable list columns (query value → SQL column)
+const SORT_COLUMNS = {
+  start_time: 'start_time',
+  interviewer_email: 'interviewer_email',
+  candidate_name: 'candidate_name',
+  status: 'status',
+  created_at: 'created_at'
+}
+
 export class EventRepository {
   constructor(db) {
     this.db = db
   }
 
   /**
-   * Find all events with optional filtering and pagination
+   * Find all events with optional filtering, sorting and pagination
    * @param {Object} filters - Filter options
    * @returns {Array} Events with parsed JSON fields
    */
   findAll(filters = {}) {
-    const {
-      interviewer_email,
-      status,
-      start_date,
-      end_date,
-      search,
-      limit = 50,
-      offset = 0
-    } = filters
-
-    let sql = 'SELECT * FROM interview_events WHERE 1=1'
-    const params = []
+    const { sort = 'start_time', order = 'desc', limit = 50, offset = 0 } = filters
+    const { where, params } = this._buildWhere(filters)
 
-    // Filter by interviewer
-    if (interviewer_email) {
-      sql += ' AND interviewer_email = ?'
-      params.push(interviewer_email)
-    }
-
-    // Filter by status
-    if (status) {
-      sql += ' AND status = ?'
-      params.push(status)
-    }
+    // Default: most recent first; id keeps pages stable when sort values tie
+    const column = SORT_COLUMNS[sort] ?? SORT_COLUMNS.start_time
+    const direction = order === 'asc' ? 'ASC' : 'DESC'
+    const sql = `SELECT * FROM interview_events WHERE ${where}
+      ORDER BY ${column} ${direction}, id ASC LIMIT ? OFFSET ?`
 
-    // Filter by date range
-    if (start_date) {
-      sql += ' AND date(start_time) >= date(?)'
-      params.push(start_date)
-    }
-
-    if (end_date) {
-      sql += ' AND date(end_time) <= date(?)'
-      params.push(end_date)
-    }
-
-    // Search in candidate name, position, or skills
-    if (search) {
-      sql += ' AND (candidate_name LIKE ? OR position LIKE ? OR skills_assessed LIKE ?)'
-      const searchPattern = `%${search}%`
-      params.push(searchPattern, searchPattern, searchPattern)
-    }
-
-    // Order by start time (most recent first)
-    sql += ' ORDER BY start_time DESC LIMIT ? OFFSET ?'
-    params.push(limit, offset)
-
-    const rows = this.db.prepare(sql).all(...params)
+    const rows = this.db.prepare(sql).all(...params, limit, offset)
 
     // Parse JSON fields
     return rows.map(row => this._parseRow(row))
@@ -76,39 +47,74 @@ export class EventRepository {
    * Used for pagination metadata
    */
   count(filters = {}) {
-    const { interviewer_email, status, start_date, end_date, search } = filters
+    const { where, params } = this._buildWhere(filters)
+    const sql = `SELECT COUNT(*) as total FROM interview_events WHERE ${where}`
+
+    const result = this.db.prepare(sql).get(...params)
+    return result.total
+  }
+
+  /**
+   * Build the WHERE clause shared by list, count and stats queries
+   * @param {Object} filters - Filter options
+   * @returns {{ where: string, params: Array }}
+   * @private
+   */
+  _buildWhere(filters) {
+    const { interviewer_email, candidate_id, position_id, loop_id, status, start_date, end_date, search } = filters
 
-    let sql = 'SELECT COUNT(*) as total FROM interview_events WHERE 1=1'
+    const conditions = ['1=1']
     const params = []
 
+    // Filter by interviewer
     if (interviewer_email) {
-      sql += ' AND interviewer_email = ?'
+      conditions.push('interviewer_email = ?')
       params.push(interviewer_email)
     }
 
+    // Filter by candidate
+    if (candidate_id) {
+      conditions.push('candidate_id = ?')
+      params.push(candidate_id)
+    }
+
+    // Filter by position
+    if (position_id) {
+      conditions.push('position_id = ?')
+      params.push(position_id)
+    }
+
+    // Filter by loop
+    if (loop_id) {
+      conditions.push('loop_id = ?')
+      params.push(loop_id)
+    }
+
+    // Filter by status
     if (status) {
-      sql += ' AND status = ?'
+      conditions.push('status = ?')
       params.push(status)
     }
 
+    // Filter by date range
     if (start_date) {
-      sql += ' AND date(start_time) >= date(?)'
+      conditions.push('date(start_time) >= date(?)')
       params.push(start_date)
     }
 
     if (end_date) {
-      sql += ' AND date(end_time) <= date(?)'
+      conditions.push('date(end_time) <= date(?)')
       params.push(end_date)
     }
 
+    // Search in interviewer, candidate name, position, or skills
     if (search) {
-      sql += ' AND (candidate_name LIKE ? OR position LIKE ? OR skills_assessed LIKE ?)'
+      conditions.push('(interviewer_email LIKE ? OR candidate_name LIKE ? OR position LIKE ? OR skills_assessed LIKE ?)')
       const searchPattern = `%${search}%`
-      params.push(searchPattern, searchPattern, searchPattern)
+      params.push(searchPattern, searchPattern, searchPattern, searchPattern)
     }
 
-    const result = this.db.prepare(sql).get(...params)
-    return result.total
+    return { where: conditions.join(' AND '), params }
   }
 
   /**
@@ -140,72 +146,115 @@ export class EventRepository {
   }
 
   /**
-   * Check if an interview time slot is already taken for an interviewer on a specific date
-   * Prevents duplicate time slots per interviewer per day
-   * @param {string} interviewerEmail - Interviewer's email
-   * @param {string} startTime - ISO datetime string
-   * @param {string|null} excludeEventId - Event ID to exclude from check (for updates)
-   * @returns {boolean} True if time conflict exists
+   * Find events in a candidate's interview loop
+   * @param {string} candidateId - Candidate ID
+   * @returns {Array} Events ordered by start time (oldest first)
    */
-  checkTimeConflict(interviewerEmail, startTime, excludeEventId = null) {
-    // Extract date and time from ISO string
-    const date = new Date(startTime)
-    const dayStart = new Date(date)
-    dayStart.setHours(0, 0, 0, 0)
-    const dayEnd = new Date(date)
-    dayEnd.setHours(23, 59, 59, 999)
-
-    // Extract HH:MM time for comparison
-    const hours = date.getHours().toString().padStart(2, '0')
-    const minutes = date.getMinutes().toString().padStart(2, '0')
-    const timeString = `${hours}:${minutes}`
-
-    let sql = `
-      SELECT id FROM interview_events
+  findByCandidate(candidateId) {
+    const sql = `
+      SELECT * FROM interview_events
+      WHERE candidate_id = ?
+      ORDER BY start_time ASC
+    `
+    const rows = this.db.prepare(sql).all(candidateId)
+
+    return rows.map(row => this._parseRow(row))
+  }
+
+  /**
+   * Find the events of an interview loop
+   * @param {string} loopId - Loop ID
+   * @returns {Array} Events ordered by stage
+   */
+  findByLoop(loopId) {
+    const sql = `
+      SELECT * FROM interview_events
+      WHERE loop_id = ?
+      ORDER BY loop_stage ASC, start_time ASC
+    `
+    const rows = this.db.prepare(sql).all(loopId)
+
+    return rows.map(row => this._parseRow(row))
+  }
+
+  /**
+   * Find the occurrences of a recurring series
+   * @param {string} seriesId - Series ID
+   * @param {number} [fromIndex=0] - Only occurrences at or after this index
+   * @returns {Array} Events ordered by series index
+   */
+  findBySeries(seriesId, fromIndex = 0) {
+    const sql = `
+      SELECT * FROM interview_events
+      WHERE series_id = ? AND series_index >= ?
+      ORDER BY series_index ASC
+    `
+    const rows = this.db.prepare(sql).all(seriesId, fromIndex)
+
+    return rows.map(row => this._parseRow(row))
+  }
+
+  /**
+   * Find events for an interviewer that overlap a time range
+   * @param {string} email - Interviewer email
+   * @param {string} rangeStart - ISO datetime (inclusive)
+   * @param {string} rangeEnd - ISO datetime (exclusive)
+   * @returns {Array} Events ordered by start time
+   */
+  findByInterviewerInRange(email, rangeStart, rangeEnd) {
+    const sql = `
+      SELECT * FROM interview_events
       WHERE interviewer_email = ?
-      AND start_time >= ?
-      AND start_time < ?
-      AND strftime('%H:%M', start_time) = ?
+      AND julianday(start_time) < julianday(?)
+      AND julianday(end_time) > julianday(?)
+      ORDER BY start_time ASC
     `
+    const rows = this.db.prepare(sql).all(email, rangeEnd, rangeStart)
+
+    return rows.map(row => this._parseRow(row))
+  }
 
-    const params = [
-      interviewerEmail,
-      dayStart.toISOString(),
-      dayEnd.toISOString(),
-      timeString
-    ]
+  /**
+   * Find events of several interviewers overlapping a time range
+   * @param {Array<string>} emails - Interviewer emails
+   * @param {string} rangeStart - ISO datetime
+   * @param {string} rangeEnd - ISO datetime
+   * @returns {Object} Events by interviewer email (interviewers without events are left out)
+   */
+  findByInterviewersInRange(emails, rangeStart, rangeEnd) {
+    if (emails.length === 0) return {}
 
-    // Exclude current event when updating
-    if (excludeEventId) {
-      sql += ' AND id != ?'
-      params.push(excludeEventId)
-    }
+    const sql = `
+      SELECT * FROM interview_events
+      WHERE interviewer_email IN (${emails.map(() => '?').join(', ')})
+      AND julianday(start_time) < julianday(?)
+      AND julianday(end_time) > julianday(?)
+      ORDER BY start_time ASC
+    `
+    const rows = this.db.prepare(sql).all(...emails, rangeEnd, rangeStart)
 
-    const result = this.db.prepare(sql).get(...params)
-    return !!result
+    return rows.reduce((acc, row) => {
+      const event = this._parseRow(row)
+      acc[event.interviewer_email] = [...(acc[event.interviewer_email] || []), event]
+      return acc
+    }, {})
   }
 
   /**
    * Create new event
    * @param {Object} data - Event data
-   * @param {Object} _auditContext - Audit context (user info)
+   * @param {Object} auditContext - Audit context (user info); the user
+   *   becomes the coordinator unless data names one
    * @returns {Object} Created event
    */
-  create(data, _auditContext = {}) {
-    // Validate no time conflict exists
-    if (data.start_time && data.interviewer_email) {
-      const hasConflict = this.checkTimeConflict(data.interviewer_email, data.start_time)
-      if (hasConflict) {
-        throw new Error('This time slot is already booked for this interviewer')
-      }
-    }
-
+  create(data, auditContext = {}) {
     const stmt = this.db.prepare(`
       INSERT INTO interview_events (
         id, interviewer_email, calendar_event_id, start_time, end_time,
-        skills_assessed, candidate_name, position, scheduled_date,
-        duration_minutes, status, notes, marked_by, marked_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        skills_assessed, candidate_id, candidate_name, position_id, position, scheduled_date,
+        duration_minutes, status, notes, marked_by, marked_at, loop_id, loop_stage,
+        series_id, series_index, coordinator_email
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `)
 
     stmt.run(
@@ -215,14 +264,21 @@ export class EventRepository {
       data.start_time,
       data.end_time,
       JSON.stringify(data.skills_assessed || []),
+      data.candidate_id || null,
       data.candidate_name || null,
+      data.position_id || null,
       data.position || null,
       data.scheduled_date || null,
       data.duration_minutes || null,
       data.status || 'pending',
       data.notes || null,
       data.marked_by || null,
-      data.marked_at || null
+      data.marked_at || null,
+      data.loop_id || null,
+      data.loop_stage || null,
+      data.series_id || null,
+      data.series_index ?? null,
+      data.coordinator_email || auditContext.userEmail || null
     )
 
     return this.findById(data.id)
@@ -236,21 +292,6 @@ export class EventRepository {
    * @returns {Object} Updated event
    */
   update(id, data, _auditContext = {}) {
-    // Validate time conflict if start_time is being updated
-    if (data.start_time !== undefined) {
-      const event = this.findById(id)
-      if (!event) {
-        throw new Error('Event not found')
-      }
-
-      // Check conflict with the new time (excluding current event)
-      const interviewerEmail = data.interviewer_email || event.interviewer_email
-      const hasConflict = this.checkTimeConflict(interviewerEmail, data.start_time, id)
-      if (hasConflict) {
-        throw new Error('This time slot is already booked for this interviewer')
-      }
-    }
-
     const fields = []
     const params = []
 
@@ -275,10 +316,18 @@ export class EventRepository {
       fields.push('skills_assessed = ?')
       params.push(JSON.stringify(data.skills_assessed))
     }
+    if (data.candidate_id !== undefined) {
+      fields.push('candidate_id = ?')
+      params.push(data.candidate_id)
+    }
     if (data.candidate_name !== undefined) {
       fields.push('candidate_name = ?')
       params.push(data.candidate_name)
     }
+    if (data.position_id !== undefined) {
+      fields.push('position_id = ?')
+      params.push(data.position_id)
+    }
     if (data.position !== undefined) {
       fields.push('position = ?')
       params.push(data.position)
@@ -307,6 +356,39 @@ export class EventRepository {
       fields.push('marked_at = ?')
       params.push(data.marked_at)
     }
+    if (data.coordinator_email !== undefined) {
+      fields.push('coordinator_email = ?')
+      params.push(data.coordinator_email)
+    }
+    if (data.interviewer_response !== undefined) {
+      fields.push('interviewer_response = ?')
+      params.push(data.interviewer_response)
+    }
+    if (data.interviewer_response_note !== undefined) {
+      fields.push('interviewer_response_note = ?')
+      params.push(data.interviewer_response_note)
+    }
+    if (data.interviewer_responded_at !== undefined) {
+      fields.push('interviewer_responded_at = ?')
+      params.push(data.interviewer_responded_at)
+    }
+
+    if (data.loop_id !== undefined) {
+      fields.push('loop_id = ?')
+      params.push(data.loop_id)
+    }
+    if (data.loop_stage !== undefined) {
+      fields.push('loop_stage = ?')
+      params.push(data.loop_stage)
+    }
+    if (data.series_id !== undefined) {
+      fields.push('series_id = ?')
+      params.push(data.series_id)
+    }
+    if (data.series_index !== undefined) {
+      fields.push('series_index = ?')
+      params.push(data.series_index)
+    }
 
     if (fields.length === 0) {
       // No fields to update
@@ -338,17 +420,30 @@ export class EventRepository {
     return result.changes > 0
   }
 
+  /**
+   * Delete every event of an interview loop
+   * @param {string} loopId - Loop ID
+   * @returns {number} Number of deleted events
+   */
+  deleteByLoop(loopId) {
+    const stmt = this.db.prepare('DELETE FROM interview_events WHERE loop_id = ?')
+    return stmt.run(loopId).changes
+  }
+
   /**
    * Get event statistics by status
+   * @param {Object} filters - Same filters as findAll (e.g. a date range)
    * @returns {Object} Count by status
    */
-  getStatsByStatus() {
+  getStatsByStatus(filters = {}) {
+    const { where, params } = this._buildWhere(filters)
     const sql = `
       SELECT status, COUNT(*) as count
       FROM interview_events
+      WHERE ${where}
       GROUP BY status
     `
-    const rows = this.db.prepare(sql).all()
+    const rows = this.db.prepare(sql).all(...params)
 
     return rows.reduce((acc, row) => {
       acc[row.status] = row.count
@@ -356,6 +451,71 @@ export class EventRepository {
     }, {})
   }
 
+  /**
+   * Get per-interviewer load and reliability counts
+   * Load counts non-cancelled events starting inside the range,
+   * attended/ghosted counts cover all time
+   * @param {string} rangeStart - ISO datetime (inclusive)
+   * @param {string} rangeEnd - ISO datetime (exclusive)
+   * @returns {Object} Map of interviewer email → { load, attended, ghosted }
+   */
+  getLoadStatsByInterviewer(rangeStart, rangeEnd) {
+    const sql = `
+      SELECT
+        interviewer_email,
+        SUM(CASE
+          WHEN status != 'cancelled'
+            AND julianday(start_time) >= julianday(?)
+            AND julianday(start_time) < julianday(?)
+          THEN 1 ELSE 0
+        END) as load,
+        SUM(CASE WHEN status = 'attended' THEN 1 ELSE 0 END) as attended,
+        SUM(CASE WHEN status = 'ghosted' THEN 1 ELSE 0 END) as ghosted
+      FROM interview_events
+      GROUP BY interviewer_email
+    `
+    const rows = this.db.prepare(sql).all(rangeStart, rangeEnd)
+
+    return rows.reduce((acc, row) => {
+      acc[row.interviewer_email] = {
+        load: row.load,
+        attended: row.attended,
+        ghosted: row.ghosted
+      }
+      return acc
+    }, {})
+  }
+
+  /**
+   * Count non-cancelled events per interviewer per Monday-start week (UTC)
+   * @param {string} rangeStart - ISO datetime (inclusive)
+   * @param {string} rangeEnd - ISO datetime (exclusive)
+   * @returns {Object} Map of interviewer email → { [weekStart YYYY-MM-DD]: count }
+   */
+  getWeeklyCountsByInterviewer(rangeStart, rangeEnd) {
+    // 'weekday 0' moves to the next Sunday (or stays), -6 days lands on Monday
+    const sql = `
+      SELECT
+        interviewer_email,
+        date(start_time, 'weekday 0', '-6 days') as week_start,
+        COUNT(*) as count
+      FROM interview_events
+      WHERE status != 'cancelled'
+      AND julianday(start_time) >= julianday(?)
+      AND julianday(start_time) < julianday(?)
+      GROUP BY interviewer_email, week_start
+    `
+    const rows = this.db.prepare(sql).all(rangeStart, rangeEnd)
+
+    return rows.reduce((acc, row) => {
+      acc[row.interviewer_email] = {
+        ...acc[row.interviewer_email],
+        [row.week_start]: row.count
+      }
+      return acc
+    }, {})
+  }
+
   /**
    * Parse database row to JavaScript object
    * Handles JSON parsing and type conversions
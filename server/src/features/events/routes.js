@@ -4,7 +4,15 @@ import {
   UpdateEventSchema,
   ListEventsQuerySchema,
   EventIdParamSchema,
-  ListEventsResponseSchema
+  ListEventsResponseSchema,
+  EventConflictResponseSchema,
+  EventStatsQuerySchema,
+  EventStatsResponseSchema,
+  LoadHeatmapQuerySchema,
+  LoadHeatmapResponseSchema,
+  SeriesScopeQuerySchema,
+  BulkStatusSchema,
+  BulkStatusResponseSchema
 } from './schemas.js'
 
 /**
@@ -16,6 +24,7 @@ import {
  */
 export default async function eventRoutes(fastify, options) {
   const service = options.service
+  const seriesService = options.seriesService
 
   /**
    * GET /api/events
@@ -23,10 +32,14 @@ export default async function eventRoutes(fastify, options) {
    *
    * Query params:
    * - interviewer_email: Filter by interviewer
+   * - position_id: Filter by position
    * - status: Filter by status (pending|attended|ghosted|cancelled)
    * - start_date: Filter by start date (YYYY-MM-DD)
    * - end_date: Filter by end date (YYYY-MM-DD)
-   * - search: Search in candidate name, position, skills
+   * - search: Search in interviewer, candidate name, position, skills
+   * - sort: start_time|interviewer_email|candidate_name|status|created_at
+   *   (default: start_time)
+   * - order: asc|desc (default: desc)
    * - limit: Results per page (default: 50, max: 100)
    * - offset: Pagination offset (default: 0)
    */
@@ -53,7 +66,11 @@ export default async function eventRoutes(fastify, options) {
    * GET /api/events/stats
    * Get event statistics by status
    *
-   * Returns count of events by status
+   * Query params (same meaning as for the list):
+   * - interviewer_email: Filter by interviewer
+   * - start_date / end_date: Limit to a date range (YYYY-MM-DD)
+   *
+   * Returns count of events by status and the total
    */
   fastify.get(
     '/stats',
@@ -61,21 +78,44 @@ export default async function eventRoutes(fastify, options) {
       schema: {
         description: 'Get event statistics by status',
         tags: ['events'],
+        querystring: EventStatsQuerySchema,
         response: {
-          200: {
-            type: 'object',
-            additionalProperties: { type: 'number' }
-          }
+          200: EventStatsResponseSchema
         }
       },
       preHandler: fastify.authenticate
     },
-    async (_request, _reply) => {
-      const stats = await service.getStats()
+    async (request, _reply) => {
+      const stats = await service.getStats(request.query)
       return stats
     }
   )
 
+  /**
+   * GET /api/events/load
+   * Get weekly interview load per interviewer (fairness heatmap)
+   *
+   * Query params:
+   * - weeks: Number of weeks ending with the current week (default: 8, max: 26)
+   */
+  fastify.get(
+    '/load',
+    {
+      schema: {
+        description: 'Get weekly interview load per interviewer',
+        tags: ['events'],
+        querystring: LoadHeatmapQuerySchema,
+        response: {
+          200: LoadHeatmapResponseSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, _reply) => {
+      return service.getLoadHeatmap(request.query.weeks)
+    }
+  )
+
   /**
    * GET /api/events/:id
    * Get single event by ID
@@ -120,6 +160,8 @@ export default async function eventRoutes(fastify, options) {
   /**
    * POST /api/events
    * Create new event
+   * With `rrule` (e.g. FREQ=WEEKLY;COUNT=6) a recurring series is created and
+   * its first occurrence returned
    *
    * Requires admin or talent role
    */
@@ -138,7 +180,8 @@ export default async function eventRoutes(fastify, options) {
               error: { type: 'string' },
               message: { type: 'string' }
             }
-          }
+          },
+          409: EventConflictResponseSchema
         }
       },
       preHandler: fastify.authorize(['admin', 'talent'])
@@ -150,13 +193,35 @@ export default async function eventRoutes(fastify, options) {
           userName: request.user.name
         }
 
-        const event = await service.create(request.body, auditContext)
+        const event = request.body.rrule
+          ? await seriesService.create(request.body, auditContext)
+          : await service.create(request.body, auditContext)
         reply.code(201)
         return event
       } catch (error) {
+        if (error.code === 'EVENT_OVERLAP') {
+          reply.code(409)
+          return {
+            error: 'Conflict',
+            message: error.message,
+            buffer_minutes: error.bufferMinutes,
+            conflicts: error.conflicts
+          }
+        }
+        if (error.message.includes('interview cap')) {
+          reply.code(409)
+          return {
+            error: 'Conflict',
+            message: error.message
+          }
+        }
         if (
           error.message.includes('time') ||
-          error.message.includes('Rating')
+          error.message.includes('Rating') ||
+          error.message === 'Candidate not found' ||
+          error.message.startsWith('Position ') ||
+          error.message.includes('series') ||
+          error.message.includes('recurrence rule')
         ) {
           reply.code(400)
           return {
@@ -173,6 +238,10 @@ export default async function eventRoutes(fastify, options) {
    * PUT /api/events/:id
    * Update existing event
    *
+   * Query params:
+   * - scope: this (default) | following | all - occurrences of a recurring
+   *   series the change applies to
+   *
    * Requires admin or talent role
    */
   fastify.put(
@@ -182,6 +251,7 @@ export default async function eventRoutes(fastify, options) {
         description: 'Update existing event',
         tags: ['events'],
         params: EventIdParamSchema,
+        querystring: SeriesScopeQuerySchema,
         body: UpdateEventSchema,
         response: {
           200: EventSchema,
@@ -192,6 +262,7 @@ export default async function eventRoutes(fastify, options) {
               message: { type: 'string' }
             }
           },
+          409: EventConflictResponseSchema,
           404: {
             type: 'object',
             properties: {
@@ -210,11 +281,15 @@ export default async function eventRoutes(fastify, options) {
           userName: request.user.name
         }
 
-        const event = await service.update(
-          request.params.id,
-          request.body,
-          auditContext
-        )
+        const { scope } = request.query
+        const event = scope === 'this'
+          ? await service.update(request.params.id, request.body, auditContext)
+          : await seriesService.updateOccurrences(
+            request.params.id,
+            request.body,
+            scope,
+            auditContext
+          )
         return event
       } catch (error) {
         if (error.message === 'Event not found') {
@@ -224,9 +299,29 @@ export default async function eventRoutes(fastify, options) {
             message: error.message
           }
         }
+        if (error.code === 'EVENT_OVERLAP') {
+          reply.code(409)
+          return {
+            error: 'Conflict',
+            message: error.message,
+            buffer_minutes: error.bufferMinutes,
+            conflicts: error.conflicts
+          }
+        }
+        if (error.message.includes('interview cap')) {
+          reply.code(409)
+          return {
+            error: 'Conflict',
+            message: error.message
+          }
+        }
         if (
           error.message.includes('time') ||
-          error.message.includes('Rating')
+          error.message.includes('Rating') ||
+          error.message === 'Candidate not found' ||
+          error.message.startsWith('Position ') ||
+          error.message.includes('series') ||
+          error.message.includes('recurrence rule')
         ) {
           reply.code(400)
           return {
@@ -239,10 +334,89 @@ export default async function eventRoutes(fastify, options) {
     }
   )
 
+  /**
+   * POST /api/events/bulk-status
+   * Set the status of several events at once
+   *
+   * Body:
+   * - event_ids: Events to mark (1-200)
+   * - status: New status, marked_by/marked_at are set to the current user
+   *
+   * All events change or none do (404 names the first missing event, 409 a
+   * cancelled event that can no longer take its slot)
+   *
+   * Requires admin or talent role
+   */
+  fastify.post(
+    '/bulk-status',
+    {
+      schema: {
+        description: 'Set the status of several events at once',
+        tags: ['events'],
+        body: BulkStatusSchema,
+        response: {
+          200: BulkStatusResponseSchema,
+          409: EventConflictResponseSchema,
+          404: {
+            type: 'object',
+            properties: {
+              error: { type: 'string' },
+              message: { type: 'string' }
+            }
+          }
+        }
+      },
+      preHandler: fastify.authorize(['admin', 'talent'])
+    },
+    async (request, reply) => {
+      try {
+        const auditContext = {
+          userEmail: request.user.email,
+          userName: request.user.name
+        }
+
+        return await service.updateStatuses(
+          request.body.event_ids,
+          request.body.status,
+          auditContext
+        )
+      } catch (error) {
+        if (error.message.startsWith('Event not found')) {
+          reply.code(404)
+          return {
+            error: 'Not Found',
+            message: error.message
+          }
+        }
+        if (error.code === 'EVENT_OVERLAP') {
+          reply.code(409)
+          return {
+            error: 'Conflict',
+            message: error.message,
+            buffer_minutes: error.bufferMinutes,
+            conflicts: error.conflicts
+          }
+        }
+        if (error.message.includes('interview cap')) {
+          reply.code(409)
+          return {
+            error: 'Conflict',
+            message: error.message
+          }
+        }
+        throw error
+      }
+    }
+  )
+
   /**
    * DELETE /api/events/:id
    * Delete event
    *
+   * Query params:
+   * - scope: this (default) | following | all - occurrences of a recurring
+   *   series to delete
+   *
    * Requires admin role only
    */
   fastify.delete(
@@ -252,11 +426,19 @@ export default async function eventRoutes(fastify, options) {
         description: 'Delete event',
         tags: ['events'],
         params: EventIdParamSchema,
+        querystring: SeriesScopeQuerySchema,
         response: {
           204: {
             type: 'null',
             description: 'Event deleted successfully'
           },
+          400: {
+            type: 'object',
+            properties: {
+              error: { type: 'string' },
+              message: { type: 'string' }
+            }
+          },
           404: {
             type: 'object',
             properties: {
@@ -275,7 +457,12 @@ export default async function eventRoutes(fastify, options) {
           userName: request.user.name
         }
 
-        await service.delete(request.params.id, auditContext)
+        const { scope } = request.query
+        if (scope === 'this') {
+          await service.delete(request.params.id, auditContext)
+        } else {
+          await seriesService.deleteOccurrences(request.params.id, scope, auditContext)
+        }
         reply.code(204)
         return null
       } catch (error) {
@@ -286,6 +473,13 @@ export default async function eventRoutes(fastify, options) {
             message: error.message
           }
         }
+        if (error.message === 'Event is not part of a series') {
+          reply.code(400)
+          return {
+            error: 'Bad Request',
+            message: error.message
+          }
+        }
         throw error
       }
     }
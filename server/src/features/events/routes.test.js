@@ -0,0 +1,75 @@
+import { buildTestApp, authHeader, createInterviewer } from '../../test/helpers.js'
+
+describe('event routes', () => {
+  let app
+  let admin
+
+  beforeAll(async () => {
+    app = await buildTestApp()
+    admin = authHeader(app, { email: 'admin@example.com', name: 'Sam Admin', role: 'admin' })
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  const createEvent = (headers, payload) =>
+    app.inject({ method: 'POST', url: '/api/events', headers, payload })
+
+  describe('POST /api/events', () => {
+    it('returns 409 with the clashing interview when slots overlap', async () => {
+      const interviewer = createInterviewer(app.db)
+      const first = await createEvent(admin, {
+        interviewer_email: interviewer.email,
+        candidate_name: 'Jo Candidate',
+        start_time: '2026-03-02T09:00:00.000Z',
+        end_time: '2026-03-02T10:00:00.000Z'
+      })
+      expect(first.statusCode).toBe(201)
+
+      const clash = await createEvent(admin, {
+        interviewer_email: interviewer.email,
+        candidate_name: 'Kim Candidate',
+        start_time: '2026-03-02T09:30:00.000Z',
+        end_time: '2026-03-02T10:30:00.000Z'
+      })
+
+      expect(clash.statusCode).toBe(409)
+      expect(clash.json()).toMatchObject({
+        error: 'Conflict',
+        conflicts: [{ id: first.json().id, candidate_name: 'Jo Candidate' }]
+      })
+    })
+
+    it('returns 409 when an interview cap blocks the interview', async () => {
+      const interviewer = createInterviewer(app.db, { max_interviews_per_day: 1 })
+      await createEvent(admin, {
+        interviewer_email: interviewer.email,
+        start_time: '2026-03-03T09:00:00.000Z',
+        end_time: '2026-03-03T10:00:00.000Z'
+      })
+
+      const capped = await createEvent(admin, {
+        interviewer_email: interviewer.email,
+        start_time: '2026-03-03T14:00:00.000Z',
+        end_time: '2026-03-03T15:00:00.000Z'
+      })
+
+      expect(capped.statusCode).toBe(409)
+      expect(capped.json().message).toContain('Daily interview cap of 1')
+    })
+
+    it('is not open to viewers', async () => {
+      const interviewer = createInterviewer(app.db)
+      const viewer = authHeader(app, { email: interviewer.email, name: interviewer.name, role: 'viewer' })
+
+      const response = await createEvent(viewer, {
+        interviewer_email: interviewer.email,
+        start_time: '2026-03-04T09:00:00.000Z',
+        end_time: '2026-03-04T10:00:00.000Z'
+      })
+
+      expect(response.statusCode).toBe(403)
+    })
+  })
+})
@@ -11,6 +11,15 @@ export const EventStatusEnum = Type.Union([
   Type.Literal('cancelled')
 ])
 
+/**
+ * Sort Order Enum
+ * Direction of a sorted list
+ */
+export const SortOrderEnum = Type.Union([
+  Type.Literal('asc'),
+  Type.Literal('desc')
+], { default: 'desc' })
+
 /**
  * Complete Event Schema
  * Represents an interview event from the database
@@ -23,7 +32,9 @@ export const EventSchema = Type.Object({
   start_time: Type.String({ format: 'date-time' }),
   end_time: Type.String({ format: 'date-time' }),
   skills_assessed: Type.Union([Type.Array(Type.String()), Type.Null()]),
+  candidate_id: Type.Union([Type.String(), Type.Null()]),
   candidate_name: Type.Union([Type.String(), Type.Null()]),
+  position_id: Type.Union([Type.String(), Type.Null()]),
   position: Type.Union([Type.String(), Type.Null()]),
   scheduled_date: Type.Union([Type.String(), Type.Null()]),
   duration_minutes: Type.Union([Type.Integer(), Type.Null()]),
@@ -31,8 +42,20 @@ export const EventSchema = Type.Object({
   notes: Type.Union([Type.String(), Type.Null()]),
   marked_by: Type.Union([Type.String(), Type.Null()]),
   marked_at: Type.Union([Type.String(), Type.Null()]),
+  // Responsible for marking attendance (defaults to whoever scheduled it)
+  coordinator_email: Type.Union([Type.String(), Type.Null()]),
+  // Interviewer's answer from "My interviews" (cleared when the interview moves)
+  interviewer_response: Type.Union([Type.Literal('confirmed'), Type.Literal('conflict'), Type.Null()]),
+  interviewer_response_note: Type.Union([Type.String(), Type.Null()]),
+  interviewer_responded_at: Type.Union([Type.String(), Type.Null()]),
+  loop_id: Type.Union([Type.String(), Type.Null()]),
+  loop_stage: Type.Union([Type.Integer(), Type.Null()]),
+  series_id: Type.Union([Type.String(), Type.Null()]),
+  series_index: Type.Union([Type.Integer(), Type.Null()]),
   created_at: Type.String({ format: 'date-time' }),
-  updated_at: Type.String({ format: 'date-time' })
+  updated_at: Type.String({ format: 'date-time' }),
+  // Interview cap warnings, only present on create/update responses
+  warnings: Type.Optional(Type.Array(Type.String()))
 })
 
 /**
@@ -46,14 +69,23 @@ export const CreateEventSchema = Type.Object({
   start_time: Type.String({ format: 'date-time' }),
   end_time: Type.String({ format: 'date-time' }),
   skills_assessed: Type.Optional(Type.Array(Type.String(), { minItems: 0 })),
+  candidate_id: Type.Optional(Type.String()),
   candidate_name: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
+  position_id: Type.Optional(Type.String()),
   position: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
   scheduled_date: Type.Optional(Type.String()),
   duration_minutes: Type.Optional(Type.Integer({ minimum: 1 })),
   status: Type.Optional(EventStatusEnum),
   notes: Type.Optional(Type.String()),
   marked_by: Type.Optional(Type.String()),
-  marked_at: Type.Optional(Type.String())
+  marked_at: Type.Optional(Type.String()),
+  coordinator_email: Type.Optional(Type.String({ format: 'email' })),
+  // Makes the event the first occurrence of a recurring series
+  rrule: Type.Optional(Type.String({
+    minLength: 1,
+    maxLength: 255,
+    description: 'RRULE subset: FREQ=DAILY|WEEKLY, INTERVAL, COUNT or UNTIL'
+  }))
 })
 
 /**
@@ -67,14 +99,34 @@ export const UpdateEventSchema = Type.Object({
   start_time: Type.Optional(Type.String({ format: 'date-time' })),
   end_time: Type.Optional(Type.String({ format: 'date-time' })),
   skills_assessed: Type.Optional(Type.Array(Type.String(), { minItems: 0 })),
+  candidate_id: Type.Optional(Type.Union([Type.String(), Type.Null()])),
   candidate_name: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
+  position_id: Type.Optional(Type.Union([Type.String(), Type.Null()])),
   position: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
   scheduled_date: Type.Optional(Type.String()),
   duration_minutes: Type.Optional(Type.Integer({ minimum: 1 })),
   status: Type.Optional(EventStatusEnum),
   notes: Type.Optional(Type.String()),
   marked_by: Type.Optional(Type.String()),
-  marked_at: Type.Optional(Type.String())
+  marked_at: Type.Optional(Type.String()),
+  coordinator_email: Type.Optional(Type.Union([Type.String({ format: 'email' }), Type.Null()]))
+})
+
+/**
+ * Bulk Status Schema
+ * Body for POST /api/events/bulk-status
+ */
+export const BulkStatusSchema = Type.Object({
+  event_ids: Type.Array(Type.String(), { minItems: 1, maxItems: 200, uniqueItems: true }),
+  status: EventStatusEnum
+})
+
+/**
+ * Bulk Status Response Schema
+ */
+export const BulkStatusResponseSchema = Type.Object({
+  updated: Type.Array(EventSchema),
+  unchanged: Type.Array(Type.String())
 })
 
 /**
@@ -83,14 +135,98 @@ export const UpdateEventSchema = Type.Object({
  */
 export const ListEventsQuerySchema = Type.Object({
   interviewer_email: Type.Optional(Type.String({ format: 'email' })),
+  candidate_id: Type.Optional(Type.String()),
+  position_id: Type.Optional(Type.String()),
+  loop_id: Type.Optional(Type.String()),
   status: Type.Optional(EventStatusEnum),
   start_date: Type.Optional(Type.String({ format: 'date' })),
   end_date: Type.Optional(Type.String({ format: 'date' })),
   search: Type.Optional(Type.String()),
+  sort: Type.Optional(Type.Union([
+    Type.Literal('start_time'),
+    Type.Literal('interviewer_email'),
+    Type.Literal('candidate_name'),
+    Type.Literal('status'),
+    Type.Literal('created_at')
+  ], { default: 'start_time' })),
+  order: Type.Optional(SortOrderEnum),
   limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
   offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 }))
 })
 
+/**
+ * Event Stats Query Schema
+ * Query parameters for GET /api/events/stats (all time when no range is given)
+ */
+export const EventStatsQuerySchema = Type.Object({
+  interviewer_email: Type.Optional(Type.String({ format: 'email' })),
+  start_date: Type.Optional(Type.String({ format: 'date' })),
+  end_date: Type.Optional(Type.String({ format: 'date' }))
+})
+
+/**
+ * Event Stats Response Schema
+ * Event counts by status plus the total
+ */
+export const EventStatsResponseSchema = Type.Object({
+  total: Type.Integer(),
+  pending: Type.Integer(),
+  attended: Type.Integer(),
+  ghosted: Type.Integer(),
+  cancelled: Type.Integer()
+})
+
+/**
+ * Series Scope Query Schema
+ * Which occurrences of a recurring series a PUT/DELETE applies to
+ */
+export const SeriesScopeQuerySchema = Type.Object({
+  scope: Type.Optional(Type.Union([
+    Type.Literal('this'),
+    Type.Literal('following'),
+    Type.Literal('all')
+  ], { default: 'this' }))
+})
+
+/**
+ * Event Series Schema
+ * Recurrence rule and template of a recurring interview
+ */
+export const EventSeriesSchema = Type.Object({
+  id: Type.String(),
+  interviewer_email: Type.String({ format: 'email' }),
+  rrule: Type.String(),
+  dtstart: Type.String({ format: 'date-time' }),
+  duration_minutes: Type.Integer(),
+  expanded_count: Type.Integer(),
+  skills_assessed: Type.Array(Type.String()),
+  candidate_id: Type.Union([Type.String(), Type.Null()]),
+  candidate_name: Type.Union([Type.String(), Type.Null()]),
+  position_id: Type.Union([Type.String(), Type.Null()]),
+  position: Type.Union([Type.String(), Type.Null()]),
+  notes: Type.Union([Type.String(), Type.Null()]),
+  created_by: Type.Union([Type.String(), Type.Null()]),
+  created_at: Type.String(),
+  updated_at: Type.String()
+})
+
+/**
+ * Expand Series Schema
+ * Creates occurrences of every series up to end_date
+ */
+export const ExpandSeriesSchema = Type.Object({
+  end_date: Type.String({ format: 'date' })
+})
+
+/**
+ * Expand Series Response Schema
+ * Occurrences created, and those skipped for clashing or hitting a cap
+ */
+export const ExpandSeriesResponseSchema = Type.Object({
+  created: Type.Integer(),
+  skipped: Type.Integer()
+})
+
 /**
  * Event ID Parameter Schema
  * For routes with :id parameter
@@ -112,3 +248,87 @@ export const ListEventsResponseSchema = Type.Object({
     hasMore: Type.Boolean()
   })
 })
+
+/**
+ * Event Conflict Response Schema
+ * 409 body when an event overlaps other interviews of the same interviewer
+ */
+export const EventConflictResponseSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+  buffer_minutes: Type.Optional(Type.Integer()),
+  conflicts: Type.Optional(Type.Array(Type.Object({
+    id: Type.String(),
+    start_time: Type.String({ format: 'date-time' }),
+    end_time: Type.String({ format: 'date-time' }),
+    candidate_name: Type.Union([Type.String(), Type.Null()]),
+    status: EventStatusEnum
+  })))
+})
+
+/**
+ * Load Heatmap Query Schema
+ * Query parameters for GET /api/events/load
+ */
+export const LoadHeatmapQuerySchema = Type.Object({
+  weeks: Type.Optional(Type.Integer({ minimum: 1, maximum: 26, default: 8 }))
+})
+
+/**
+ * Load Heatmap Response Schema
+ * Weekly interview counts per interviewer
+ */
+export const LoadHeatmapResponseSchema = Type.Object({
+  weeks: Type.Array(Type.String({ format: 'date' })),
+  data: Type.Array(Type.Object({
+    interviewer_email: Type.String(),
+    name: Type.String(),
+    counts: Type.Array(Type.Integer()),
+    max_interviews_per_week: Type.Union([Type.Integer(), Type.Null()])
+  }))
+})
+
+/**
+ * Scorecard Recommendation Enum
+ * Matches the database CHECK constraint
+ */
+export const ScorecardRecommendationEnum = Type.Union([
+  Type.Literal('strong_hire'),
+  Type.Literal('hire'),
+  Type.Literal('no_hire'),
+  Type.Literal('strong_no_hire')
+])
+
+/**
+ * Scorecard Schema
+ * Structured feedback for one attended interview
+ * ratings maps each assessed skill to a 1-5 score
+ */
+export const ScorecardSchema = Type.Object({
+  id: Type.String(),
+  event_id: Type.String(),
+  ratings: Type.Record(Type.String(), Type.Integer({ minimum: 1, maximum: 5 })),
+  recommendation: ScorecardRecommendationEnum,
+  feedback: Type.Union([Type.String(), Type.Null()]),
+  submitted_by: Type.String(),
+  created_at: Type.String(),
+  updated_at: Type.String()
+})
+
+/**
+ * Submit Scorecard Schema
+ * For PUT /api/events/:id/scorecard
+ */
+export const SubmitScorecardSchema = Type.Object({
+  ratings: Type.Record(Type.String(), Type.Integer({ minimum: 1, maximum: 5 })),
+  recommendation: ScorecardRecommendationEnum,
+  feedback: Type.Optional(Type.String({ maxLength: 10000 }))
+})
+
+/**
+ * Scorecard List Query Schema
+ * For GET /api/events/scorecards
+ */
+export const ScorecardListQuerySchema = Type.Object({
+  event_ids: Type.String({ description: 'Comma-separated event IDs' })
+})
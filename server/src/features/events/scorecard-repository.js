@@ -0,0 +1,75 @@
+/**
+ * Scorecard Repository
+ * Data access layer for scorecards table
+ */
+export class ScorecardRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Find the scorecard of an event
+   * @param {string} eventId - Event ID
+   * @returns {Object|null} Scorecard with parsed ratings
+   */
+  findByEvent(eventId) {
+    const row = this.db.prepare('SELECT * FROM scorecards WHERE event_id = ?').get(eventId)
+    return row ? this._parseRow(row) : null
+  }
+
+  /**
+   * Find which of the given events have a scorecard
+   * @param {Array<string>} eventIds
+   * @returns {Array} Scorecards with parsed ratings
+   */
+  findByEvents(eventIds) {
+    if (eventIds.length === 0) {
+      return []
+    }
+
+    const placeholders = eventIds.map(() => '?').join(', ')
+    const rows = this.db
+      .prepare(`SELECT * FROM scorecards WHERE event_id IN (${placeholders})`)
+      .all(...eventIds)
+
+    return rows.map(row => this._parseRow(row))
+  }
+
+  /**
+   * Create or replace the scorecard of an event
+   * @param {Object} data - { id, event_id, ratings, recommendation, feedback, submitted_by }
+   * @returns {Object} Saved scorecard
+   */
+  upsert(data) {
+    this.db.prepare(`
+      INSERT INTO scorecards (id, event_id, ratings, recommendation, feedback, submitted_by)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(event_id) DO UPDATE SET
+        ratings = excluded.ratings,
+        recommendation = excluded.recommendation,
+        feedback = excluded.feedback,
+        submitted_by = excluded.submitted_by,
+        updated_at = datetime('now')
+    `).run(
+      data.id,
+      data.event_id,
+      JSON.stringify(data.ratings || {}),
+      data.recommendation,
+      data.feedback || null,
+      data.submitted_by
+    )
+
+    return this.findByEvent(data.event_id)
+  }
+
+  /**
+   * Parse database row to JavaScript object
+   * @private
+   */
+  _parseRow(row) {
+    return {
+      ...row,
+      ratings: JSON.parse(row.ratings || '{}')
+    }
+  }
+}
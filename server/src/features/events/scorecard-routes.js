@@ -0,0 +1,126 @@
+import {
+  ScorecardSchema,
+  SubmitScorecardSchema,
+  ScorecardListQuerySchema,
+  EventIdParamSchema
+} from './schemas.js'
+
+// Most events a single scorecard lookup may ask for
+const MAX_LOOKUP_EVENTS = 200
+
+/**
+ * Scorecard Routes
+ * Interviewer feedback for attended interviews
+ *
+ * Feedback is limited to talent and admin roles, including reads
+ */
+export default async function scorecardRoutes(fastify, options) {
+  const service = options.scorecardService
+
+  /**
+   * GET /api/events/scorecards
+   * Scorecards for a set of events
+   */
+  fastify.get(
+    '/scorecards',
+    {
+      schema: {
+        description: 'Get scorecards for a comma-separated list of event IDs',
+        tags: ['events'],
+        querystring: ScorecardListQuerySchema,
+        response: {
+          200: {
+            type: 'object',
+            properties: {
+              data: { type: 'array', items: ScorecardSchema }
+            }
+          }
+        }
+      },
+      preHandler: fastify.authorize(['admin', 'talent'])
+    },
+    async (request, _reply) => {
+      const eventIds = request.query.event_ids
+        .split(',')
+        .map(id => id.trim())
+        .filter(Boolean)
+        .slice(0, MAX_LOOKUP_EVENTS)
+
+      const data = await service.listForEvents(eventIds)
+      return { data }
+    }
+  )
+
+  /**
+   * GET /api/events/:id/scorecard
+   * Scorecard of one event
+   */
+  fastify.get(
+    '/:id/scorecard',
+    {
+      schema: {
+        description: 'Get the scorecard of an interview event',
+        tags: ['events'],
+        params: EventIdParamSchema,
+        response: {
+          200: ScorecardSchema
+        }
+      },
+      preHandler: fastify.authorize(['admin', 'talent'])
+    },
+    async (request, reply) => {
+      try {
+        const scorecard = await service.getForEvent(request.params.id)
+
+        if (!scorecard) {
+          return reply.notFound('No scorecard submitted for this event')
+        }
+
+        return scorecard
+      } catch (error) {
+        if (error.message === 'Event not found') {
+          return reply.notFound(error.message)
+        }
+        throw error
+      }
+    }
+  )
+
+  /**
+   * PUT /api/events/:id/scorecard
+   * Submit or replace the scorecard of an attended event
+   */
+  fastify.put(
+    '/:id/scorecard',
+    {
+      schema: {
+        description: 'Submit or replace the scorecard of an attended interview event',
+        tags: ['events'],
+        params: EventIdParamSchema,
+        body: SubmitScorecardSchema,
+        response: {
+          200: ScorecardSchema
+        }
+      },
+      preHandler: fastify.authorize(['admin', 'talent'])
+    },
+    async (request, reply) => {
+      try {
+        const auditContext = {
+          userEmail: request.user.email,
+          userName: request.user.name
+        }
+
+        return await service.submit(request.params.id, request.body, auditContext)
+      } catch (error) {
+        if (error.message === 'Event not found') {
+          return reply.notFound(error.message)
+        }
+        if (error.message.includes('attended') || error.message.includes('assessed')) {
+          return reply.badRequest(error.message)
+        }
+        throw error
+      }
+    }
+  )
+}
@@ -0,0 +1,89 @@
+import { nanoid } from 'nanoid'
+import { ScorecardRepository } from './scorecard-repository.js'
+import { EventRepository } from './repository.js'
+
+/**
+ * Scorecard Service
+ * Structured interviewer feedback for attended interviews
+ */
+export class ScorecardService {
+  constructor(db, auditLogger) {
+    this.repository = new ScorecardRepository(db)
+    this.eventRepository = new EventRepository(db)
+    this.auditLogger = auditLogger
+  }
+
+  /**
+   * Get the scorecard of an event
+   * @param {string} eventId
+   * @returns {Object|null} Null when no scorecard has been submitted
+   * @throws {Error} If the event does not exist
+   */
+  async getForEvent(eventId) {
+    if (!this.eventRepository.findById(eventId)) {
+      throw new Error('Event not found')
+    }
+
+    return this.repository.findByEvent(eventId)
+  }
+
+  /**
+   * Get scorecards for several events (event rows use this to show which
+   * interviews already have feedback)
+   * @param {Array<string>} eventIds
+   * @returns {Array}
+   */
+  async listForEvents(eventIds) {
+    return this.repository.findByEvents(eventIds)
+  }
+
+  /**
+   * Submit or replace the scorecard of an attended event
+   * @param {string} eventId
+   * @param {Object} data - { ratings, recommendation, feedback }
+   * @param {Object} auditContext
+   * @returns {Object} Saved scorecard
+   * @throws {Error} If the event does not exist, was not attended or a
+   *   rating is for a skill the event did not assess
+   */
+  async submit(eventId, data, auditContext = {}) {
+    const event = this.eventRepository.findById(eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+
+    if (event.status !== 'attended') {
+      throw new Error('Scorecards can only be submitted for attended interviews')
+    }
+
+    const assessed = event.skills_assessed || []
+    const unknownSkill = Object.keys(data.ratings || {}).find(skill => !assessed.includes(skill))
+    if (unknownSkill) {
+      throw new Error(`Rating for a skill that was not assessed: ${unknownSkill}`)
+    }
+
+    const existing = this.repository.findByEvent(eventId)
+
+    const scorecard = this.repository.upsert({
+      id: existing?.id || nanoid(),
+      event_id: eventId,
+      ratings: data.ratings,
+      recommendation: data.recommendation,
+      feedback: data.feedback,
+      submitted_by: auditContext.userEmail
+    })
+
+    this.auditLogger?.log({
+      action: existing ? 'UPDATE_SCORECARD' : 'SUBMIT_SCORECARD',
+      entityType: 'event',
+      entityId: eventId,
+      changes: existing
+        ? { recommendation: { from: existing.recommendation, to: scorecard.recommendation } }
+        : { recommendation: scorecard.recommendation },
+      userEmail: auditContext.userEmail,
+      userName: auditContext.userName
+    })
+
+    return scorecard
+  }
+}
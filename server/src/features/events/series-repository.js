@@ -0,0 +1,118 @@
+/**
+ * Series Repository
+ * Data access layer for event_series table
+ */
+export class SeriesRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Find series by ID
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  findById(id) {
+    const row = this.db.prepare('SELECT * FROM event_series WHERE id = ?').get(id)
+    return row ? this._parseRow(row) : null
+  }
+
+  /**
+   * Find every series (for range expansion)
+   * @returns {Array}
+   */
+  findAll() {
+    return this.db
+      .prepare('SELECT * FROM event_series ORDER BY dtstart ASC')
+      .all()
+      .map(row => this._parseRow(row))
+  }
+
+  /**
+   * Create new series
+   * @param {Object} data
+   * @param {Object} auditContext
+   * @returns {Object}
+   */
+  create(data, auditContext) {
+    this.db.prepare(`
+      INSERT INTO event_series (
+        id, interviewer_email, rrule, dtstart, duration_minutes, expanded_count,
+        skills_assessed, candidate_id, candidate_name, position_id, position, notes, created_by
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      data.id,
+      data.interviewer_email,
+      data.rrule,
+      data.dtstart,
+      data.duration_minutes,
+      data.expanded_count || 0,
+      JSON.stringify(data.skills_assessed || []),
+      data.candidate_id || null,
+      data.candidate_name || null,
+      data.position_id || null,
+      data.position || null,
+      data.notes || null,
+      auditContext?.userEmail || null
+    )
+
+    return this.findById(data.id)
+  }
+
+  /**
+   * Update series
+   * @param {string} id
+   * @param {Object} data
+   * @returns {Object|null}
+   */
+  update(id, data) {
+    const fields = []
+    const values = []
+
+    const allowedFields = [
+      'interviewer_email', 'rrule', 'dtstart', 'duration_minutes', 'expanded_count',
+      'skills_assessed', 'candidate_id', 'candidate_name', 'position_id', 'position', 'notes'
+    ]
+
+    allowedFields.forEach(field => {
+      if (data[field] !== undefined) {
+        fields.push(`${field} = ?`)
+        values.push(field === 'skills_assessed' ? JSON.stringify(data[field]) : data[field])
+      }
+    })
+
+    if (fields.length === 0) {
+      return this.findById(id)
+    }
+
+    fields.push('updated_at = datetime(\'now\')')
+    values.push(id)
+
+    this.db.prepare(`UPDATE event_series SET ${fields.join(', ')} WHERE id = ?`).run(...values)
+
+    return this.findById(id)
+  }
+
+  /**
+   * Delete series
+   * Remaining occurrences keep their data but lose the reference
+   * @param {string} id
+   * @returns {boolean}
+   */
+  delete(id) {
+    return this.db.prepare('DELETE FROM event_series WHERE id = ?').run(id).changes > 0
+  }
+
+  /**
+   * Parse JSON fields
+   * @private
+   * @param {Object} row
+   * @returns {Object}
+   */
+  _parseRow(row) {
+    return {
+      ...row,
+      skills_assessed: JSON.parse(row.skills_assessed || '[]')
+    }
+  }
+}
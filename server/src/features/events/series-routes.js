@@ -0,0 +1,83 @@
+import {
+  EventSeriesSchema,
+  EventIdParamSchema,
+  ExpandSeriesSchema,
+  ExpandSeriesResponseSchema
+} from './schemas.js'
+
+/**
+ * Series Routes
+ * Read access to recurring interview series and on-demand expansion
+ *
+ * Series are created and edited through the event routes
+ * (POST with `rrule`, PUT/DELETE with `scope`)
+ */
+export default async function seriesRoutes(fastify, options) {
+  const service = options.seriesService
+
+  /**
+   * GET /api/events/series/:id
+   * Get recurrence rule and template of a series
+   */
+  fastify.get(
+    '/series/:id',
+    {
+      schema: {
+        description: 'Get recurring series by ID',
+        tags: ['events'],
+        params: EventIdParamSchema,
+        response: {
+          200: EventSeriesSchema,
+          404: {
+            type: 'object',
+            properties: {
+              error: { type: 'string' },
+              message: { type: 'string' }
+            }
+          }
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, reply) => {
+      const series = await service.getById(request.params.id)
+      if (!series) {
+        reply.code(404)
+        return {
+          error: 'Not Found',
+          message: 'Series not found'
+        }
+      }
+      return series
+    }
+  )
+
+  /**
+   * POST /api/events/series/expand
+   * Create occurrences of every series up to end_date
+   * The expansion job keeps series filled to a rolling horizon; this reaches
+   * further ahead (up to a year) when someone needs to plan that far
+   *
+   * Requires admin or talent role
+   */
+  fastify.post(
+    '/series/expand',
+    {
+      schema: {
+        description: 'Create occurrences of every recurring series up to a date',
+        tags: ['events'],
+        body: ExpandSeriesSchema,
+        response: {
+          200: ExpandSeriesResponseSchema
+        }
+      },
+      preHandler: fastify.authorize(['admin', 'talent'])
+    },
+    async (request, _reply) => {
+      return service.expandThrough(request.body.end_date, {
+        userEmail: request.user.email,
+        userName: request.user.name
+      })
+    }
+  )
+}
@@ -0,0 +1,78 @@
+import { addDays } from '../../utils/time-zone.js'
+import { buildTestApp, authHeader, createInterviewer } from '../../test/helpers.js'
+
+const today = new Date().toISOString().slice(0, 10)
+
+describe('series routes', () => {
+  let app
+  let admin
+  let series
+
+  beforeAll(async () => {
+    app = await buildTestApp()
+    admin = authHeader(app, { email: 'admin@example.com', name: 'Sam Admin', role: 'admin' })
+
+    const interviewer = createInterviewer(app.db)
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/events',
+      headers: admin,
+      payload: {
+        interviewer_email: interviewer.email,
+        start_time: `${addDays(today, 1)}T09:00:00.000Z`,
+        end_time: `${addDays(today, 1)}T10:00:00.000Z`,
+        rrule: 'FREQ=DAILY;COUNT=60'
+      }
+    })
+    expect(response.statusCode).toBe(201)
+    series = response.json().series_id
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  const countOccurrences = () =>
+    app.db.prepare('SELECT COUNT(*) AS count FROM interview_events WHERE series_id = ?').get(series).count
+
+  it('does not expand series when events are read', async () => {
+    const before = countOccurrences()
+    expect(before).toBeLessThan(60)
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/api/events?start_date=${today}&end_date=${addDays(today, 90)}`,
+      headers: admin
+    })
+
+    expect(response.statusCode).toBe(200)
+    expect(countOccurrences()).toBe(before)
+  })
+
+  describe('POST /api/events/series/expand', () => {
+    const expand = headers => app.inject({
+      method: 'POST',
+      url: '/api/events/series/expand',
+      headers,
+      payload: { end_date: addDays(today, 90) }
+    })
+
+    it('is not open to viewers', async () => {
+      const viewer = authHeader(app, { email: 'viewer@example.com', name: 'Val Viewer', role: 'viewer' })
+
+      const response = await expand(viewer)
+
+      expect(response.statusCode).toBe(403)
+    })
+
+    it('creates the remaining occurrences', async () => {
+      const before = countOccurrences()
+
+      const response = await expand(admin)
+
+      expect(response.statusCode).toBe(200)
+      expect(response.json()).toEqual({ created: 60 - before, skipped: 0 })
+      expect(countOccurrences()).toBe(60)
+    })
+  })
+})
@@ -0,0 +1,594 @@
+import { nanoid } from 'nanoid'
+import { SeriesRepository } from './series-repository.js'
+import { EventRepository } from './repository.js'
+import { CLEARED_RESPONSE } from './service.js'
+import { InterviewerRepository } from '../interviewers/repository.js'
+import {
+  parseRRule,
+  formatRRule,
+  occurrenceStart,
+  expandOccurrences
+} from '../../utils/recurrence.js'
+import { getZonedParts, addDays, zonedTimeToUtc } from '../../utils/time-zone.js'
+
+// Occurrences created up front when a series is scheduled
+const INITIAL_HORIZON_DAYS = 28
+
+// Furthest an expansion run takes a series past today (or its start)
+const MAX_HORIZON_DAYS = 366
+
+// Audit identity for scheduled expansion runs
+const EXPANSION_CONTEXT = { userEmail: 'system', userName: 'Series Expansion' }
+
+// Series fields copied onto every occurrence
+const TEMPLATE_FIELDS = [
+  'interviewer_email',
+  'skills_assessed',
+  'candidate_id',
+  'candidate_name',
+  'position_id',
+  'position',
+  'notes'
+]
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Series Service
+ * Recurring interviews: scheduling, range expansion and series-wide edits
+ *
+ * Occurrences are stored as ordinary events. Only pending occurrences follow
+ * series-wide edits; attended, ghosted and cancelled ones keep their data.
+ */
+export class SeriesService {
+  /**
+   * @param {Object} db
+   * @param {Object} auditLogger
+   * @param {import('./service.js').EventService} eventService - Link resolution and slot checks
+   */
+  constructor(db, auditLogger, eventService) {
+    this.db = db
+    this.repository = new SeriesRepository(db)
+    this.eventRepository = new EventRepository(db)
+    this.interviewerRepository = new InterviewerRepository(db)
+    this.eventService = eventService
+    this.auditLogger = auditLogger
+  }
+
+  /**
+   * Get series by ID
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  async getById(id) {
+    return this.repository.findById(id)
+  }
+
+  /**
+   * Schedule a recurring series
+   * Occurrences in the next few weeks are created in one transaction and
+   * checked for overlaps and caps like single events; later ones are created
+   * by expandThrough() as the expansion horizon reaches them
+   * @param {Object} data - Event data plus `rrule`
+   * @param {Object} auditContext
+   * @returns {Object} First occurrence (with `warnings` from warn-mode caps)
+   * @throws {Error} If the rule is invalid, the time range is invalid, a link
+   *   cannot be resolved or an occurrence clashes (code EVENT_OVERLAP) or is
+   *   blocked by a cap
+   */
+  async create(data, auditContext = {}) {
+    const { rrule, ...eventData } = data
+    const rule = parseRRule(rrule)
+
+    const startTime = new Date(eventData.start_time)
+    const endTime = new Date(eventData.end_time)
+    if (startTime >= endTime) {
+      throw new Error('End time must be after start time')
+    }
+    if (rule.until && rule.until < startTime.toISOString()) {
+      throw new Error('Invalid recurrence rule: UNTIL is before the first occurrence')
+    }
+
+    const timeZone = this._timeZoneOf(eventData.interviewer_email)
+    const horizon = new Date(Math.max(startTime.getTime(), Date.now()) + INITIAL_HORIZON_DAYS * DAY_MS)
+    const occurrences = expandOccurrences(rule, startTime.toISOString(), {
+      timeZone,
+      through: horizon.toISOString()
+    })
+
+    const seriesId = nanoid()
+    const warnings = []
+
+    const scheduleSeries = this.db.transaction(() => {
+      const series = this.repository.create({
+        id: seriesId,
+        ...this._pickTemplate(eventData),
+        ...this.eventService.resolveLinks(eventData),
+        rrule: formatRRule(rule),
+        dtstart: startTime.toISOString(),
+        duration_minutes: Math.round((endTime - startTime) / 60000),
+        expanded_count: occurrences.length
+      }, auditContext)
+
+      return occurrences.map(occurrence => {
+        const event = this._buildOccurrence(series, occurrence)
+
+        // Earlier occurrences are already inserted, so they also clash with each other
+        try {
+          warnings.push(...this.eventService.checkSlot(event))
+        } catch (error) {
+          error.message = `Occurrence ${occurrence.index + 1}: ${error.message}`
+          throw error
+        }
+
+        return this.eventRepository.create(event, auditContext)
+      })
+    })
+
+    const events = scheduleSeries()
+    this.eventService.notifier?.notifyEventsAssigned(events, auditContext)
+    events.forEach(event => {
+      this.eventService.webhooks?.dispatch('event.created', { event }, auditContext)
+    })
+
+    this.auditLogger?.log({
+      action: 'CREATE_SERIES',
+      entityType: 'series',
+      entityId: seriesId,
+      changes: warnings.length > 0
+        ? { rrule: formatRRule(rule), occurrences: events.length, cap_warnings: warnings }
+        : { rrule: formatRRule(rule), occurrences: events.length },
+      userEmail: auditContext.userEmail,
+      userName: auditContext.userName
+    })
+
+    return warnings.length > 0 ? { ...events[0], warnings: [...new Set(warnings)] } : events[0]
+  }
+
+  /**
+   * Create the occurrences of every series up to the end of a date
+   * Run by the expansion job and the expand endpoint, never by reads. Each
+   * occurrence is created once, so deleted occurrences stay deleted.
+   * New occurrences get the overlap and cap checks of the first ones; one
+   * that clashes or is blocked by a cap is skipped and recorded in the
+   * series' audit entry instead of holding up the rest.
+   * @param {string} endDate - YYYY-MM-DD
+   * @param {Object} auditContext - Who asked (scheduled runs are the system)
+   * @returns {Object} { created, skipped } - Occurrence counts
+   */
+  async expandThrough(endDate, auditContext = EXPANSION_CONTEXT) {
+    const requested = new Date(`${endDate}T23:59:59.999Z`).toISOString()
+
+    const expand = this.db.transaction(() => this.repository.findAll().map(series => {
+      const from = Math.max(Date.now(), new Date(series.dtstart).getTime())
+      const limit = new Date(from + MAX_HORIZON_DAYS * DAY_MS).toISOString()
+
+      const occurrences = expandOccurrences(parseRRule(series.rrule), series.dtstart, {
+        timeZone: this._timeZoneOf(series.interviewer_email),
+        fromIndex: series.expanded_count,
+        through: requested < limit ? requested : limit
+      })
+      if (occurrences.length === 0) return null
+
+      const created = []
+      const skipped = []
+      const warnings = []
+      occurrences.forEach(occurrence => {
+        const event = this._buildOccurrence(series, occurrence)
+
+        try {
+          warnings.push(...this.eventService.checkSlot(event))
+        } catch (error) {
+          if (error.code !== 'EVENT_OVERLAP' && !error.message.includes('interview cap')) {
+            throw error
+          }
+          skipped.push({ series_index: occurrence.index, start_time: event.start_time, reason: error.message })
+          return
+        }
+
+        created.push(this.eventRepository.create(event, auditContext))
+      })
+
+      this.repository.update(series.id, {
+        expanded_count: series.expanded_count + occurrences.length
+      })
+
+      return { series, created, skipped, warnings }
+    }).filter(Boolean))
+
+    const results = expand()
+    const created = results.flatMap(result => result.created)
+    this.eventService.notifier?.notifyEventsAssigned(created, auditContext)
+    created.forEach(event => {
+      this.eventService.webhooks?.dispatch('event.created', { event }, auditContext)
+    })
+
+    results.forEach(({ series, created, skipped, warnings }) => {
+      this.auditLogger?.log({
+        action: 'EXPAND_SERIES',
+        entityType: 'series',
+        entityId: series.id,
+        changes: {
+          through: endDate,
+          occurrences: created.length,
+          ...(skipped.length > 0 && { skipped }),
+          ...(warnings.length > 0 && { cap_warnings: [...new Set(warnings)] })
+        },
+        userEmail: auditContext.userEmail,
+        userName: auditContext.userName
+      })
+    })
+
+    return {
+      created: created.length,
+      skipped: results.reduce((sum, result) => sum + result.skipped.length, 0)
+    }
+  }
+
+  /**
+   * Apply an edit to this and following, or all, occurrences of a series
+   * "following" splits the series in two at the edited occurrence. Moved
+   * occurrences keep their weekday/time pattern in the interviewer's timezone
+   * and are checked for overlaps and caps once all of them have moved.
+   * @param {string} eventId - Edited occurrence
+   * @param {Object} data - Event fields to change
+   * @param {'following'|'all'} scope
+   * @param {Object} auditContext
+   * @returns {Object} The edited occurrence
+   * @throws {Error} If the event is not found or not recurring, the time range
+   *   is invalid, a link cannot be resolved or a moved occurrence clashes
+   */
+  async updateOccurrences(eventId, data, scope, auditContext = {}) {
+    const { event, series } = this._findOccurrence(eventId)
+
+    const newStart = data.start_time || event.start_time
+    const newEnd = data.end_time ||
+      (data.start_time
+        ? new Date(new Date(data.start_time).getTime() + (new Date(event.end_time) - new Date(event.start_time))).toISOString()
+        : event.end_time)
+    if (new Date(newStart) >= new Date(newEnd)) {
+      throw new Error('End time must be after start time')
+    }
+
+    // Status is a fact about one interview, so only the edited occurrence takes it
+    const { status, ...changes } = { ...data, ...this.eventService.resolveLinks(data) }
+    delete changes.start_time
+    delete changes.end_time
+
+    const fromIndex = scope === 'all' ? 0 : event.series_index
+    const rule = parseRRule(series.rrule)
+    const oldZone = this._timeZoneOf(series.interviewer_email)
+    const newZone = this._timeZoneOf(changes.interviewer_email || series.interviewer_email)
+
+    // New first occurrence: same day shift and new wall-clock time as the edited occurrence
+    const firstStart = occurrenceStart(rule, series.dtstart, fromIndex, oldZone)
+    let dtstart = firstStart
+    if (data.start_time) {
+      const oldParts = getZonedParts(event.start_time, oldZone)
+      const newParts = getZonedParts(newStart, newZone)
+      const dayShift = Math.round((Date.parse(newParts.date) - Date.parse(oldParts.date)) / DAY_MS)
+      const firstDate = getZonedParts(firstStart, oldZone).date
+      dtstart = zonedTimeToUtc(addDays(firstDate, dayShift), newParts.time, newZone)
+    }
+    const durationMinutes = Math.round((new Date(newEnd) - new Date(newStart)) / 60000)
+
+    const applyEdit = this.db.transaction(() => {
+      let target = series
+      if (fromIndex > 0) {
+        target = this._splitSeries(series, rule, fromIndex, auditContext)
+      }
+
+      target = this.repository.update(target.id, {
+        ...this._pickTemplate(changes),
+        dtstart,
+        duration_minutes: durationMinutes
+      })
+      const targetRule = parseRRule(target.rrule)
+
+      const previous = this.eventRepository
+        .findBySeries(target.id)
+        .filter(occurrence => occurrence.id === event.id || occurrence.status === 'pending')
+      const moved = previous.map(occurrence => {
+        const start = occurrenceStart(targetRule, target.dtstart, occurrence.series_index, newZone)
+        const end = new Date(new Date(start).getTime() + durationMinutes * 60000).toISOString()
+        const moves =
+          start !== occurrence.start_time ||
+          end !== occurrence.end_time ||
+          (changes.interviewer_email && changes.interviewer_email !== occurrence.interviewer_email)
+        return this.eventRepository.update(occurrence.id, {
+          ...changes,
+          ...(occurrence.id === event.id && status && { status }),
+          ...(moves && CLEARED_RESPONSE),
+          start_time: start,
+          end_time: end,
+          duration_minutes: durationMinutes
+        })
+      })
+
+      // Check once everything has moved so occurrences do not clash with their own old slots
+      moved
+        .filter(occurrence => occurrence.status !== 'cancelled')
+        .forEach(occurrence => {
+          try {
+            this.eventService.checkSlot(occurrence, occurrence.id)
+          } catch (error) {
+            error.message = `Occurrence on ${getZonedParts(occurrence.start_time, newZone).date}: ${error.message}`
+            throw error
+          }
+        })
+
+      return { target, previous, moved }
+    })
+
+    const { target, previous, moved } = applyEdit()
+    this._notifyEdited(previous, moved, auditContext)
+    this._dispatchEdited(previous, moved, Object.keys(data), auditContext)
+
+    this.auditLogger?.log({
+      action: 'UPDATE_SERIES',
+      entityType: 'series',
+      entityId: target.id,
+      changes: {
+        scope,
+        event_id: event.id,
+        ...(target.id !== series.id && { split_from: series.id }),
+        fields: Object.keys(data),
+        occurrences: moved.length
+      },
+      userEmail: auditContext.userEmail,
+      userName: auditContext.userName
+    })
+
+    return this.eventRepository.findById(event.id)
+  }
+
+  /**
+   * Delete this and following, or all, occurrences of a series
+   * Pending occurrences are deleted; marked ones are kept as standalone
+   * events. The series stops at the first deleted occurrence.
+   * @param {string} eventId
+   * @param {'following'|'all'} scope
+   * @param {Object} auditContext
+   * @returns {number} Number of deleted occurrences
+   * @throws {Error} If the event is not found or not recurring
+   */
+  async deleteOccurrences(eventId, scope, auditContext = {}) {
+    const { event, series } = this._findOccurrence(eventId)
+    const fromIndex = scope === 'all' ? 0 : event.series_index
+
+    const removeOccurrences = this.db.transaction(() => {
+      const removed = []
+      let kept = 0
+
+      this.eventRepository.findBySeries(series.id, fromIndex).forEach(occurrence => {
+        if (occurrence.id === event.id || occurrence.status === 'pending') {
+          this.eventRepository.delete(occurrence.id)
+          removed.push(occurrence)
+        } else {
+          this.eventRepository.update(occurrence.id, { series_id: null, series_index: null })
+          kept++
+        }
+      })
+
+      if (fromIndex === 0) {
+        this.repository.delete(series.id)
+      } else {
+        this._truncateSeries(series, parseRRule(series.rrule), fromIndex)
+      }
+
+      return { deleted: removed.length, kept, removed }
+    })
+
+    const { deleted, kept, removed } = removeOccurrences()
+    this.eventService.notifier?.notifyEventsRemoved(removed, auditContext)
+    removed.forEach(occurrence => {
+      this.eventService.webhooks?.dispatch('event.deleted', { event: occurrence }, auditContext)
+    })
+
+    this.auditLogger?.log({
+      action: fromIndex === 0 ? 'DELETE_SERIES' : 'UPDATE_SERIES',
+      entityType: 'series',
+      entityId: series.id,
+      changes: { scope, event_id: event.id, deleted, kept },
+      userEmail: auditContext.userEmail,
+      userName: auditContext.userName
+    })
+
+    return deleted
+  }
+
+  /**
+   * Notify about a series edit: occurrences handed to another interviewer
+   * are assignments, the rest that moved are reschedules, and the edited
+   * occurrence may also have changed status
+   * @private
+   * @param {Array} previous - Occurrence rows before the edit
+   * @param {Array} edited - The same occurrences after it
+   * @param {Object} auditContext
+   */
+  _notifyEdited(previous, edited, auditContext) {
+    const notifier = this.eventService.notifier
+    if (!notifier) return
+
+    const reassigned = []
+    const rescheduled = []
+    edited.forEach((occurrence, index) => {
+      const before = previous[index]
+      if (occurrence.interviewer_email !== before.interviewer_email) {
+        reassigned.push(occurrence)
+      } else if (
+        occurrence.status !== 'cancelled' &&
+        (occurrence.start_time !== before.start_time || occurrence.end_time !== before.end_time)
+      ) {
+        rescheduled.push(occurrence)
+      }
+
+      if (occurrence.status !== before.status) {
+        notifier.notifyEventStatusChanged(occurrence, before.status, auditContext)
+        if (occurrence.status === 'ghosted') {
+          notifier.notifyEventGhosted(occurrence)
+        }
+      }
+    })
+
+    // Not awaited: the notifier logs its own failures
+    if (reassigned.length > 0) notifier.notifyEventsAssigned(reassigned, auditContext)
+    if (rescheduled.length > 0) notifier.notifyEventsRescheduled(rescheduled, auditContext)
+  }
+
+  /**
+   * Webhooks for a series edit, as for single events: a move and a status
+   * change each get their own, anything else is a plain update
+   * @private
+   * @param {Array} previous - Occurrence rows before the edit
+   * @param {Array} edited - The same occurrences after it
+   * @param {Array<string>} changedFields - Fields of the edit request
+   * @param {Object} auditContext
+   */
+  _dispatchEdited(previous, edited, changedFields, auditContext) {
+    const webhooks = this.eventService.webhooks
+    if (!webhooks) return
+
+    edited.forEach((occurrence, index) => {
+      const before = previous[index]
+      const moved =
+        occurrence.interviewer_email !== before.interviewer_email ||
+        occurrence.start_time !== before.start_time ||
+        occurrence.end_time !== before.end_time
+
+      if (moved) {
+        webhooks.dispatch('event.rescheduled', {
+          event: occurrence,
+          previous: {
+            interviewer_email: before.interviewer_email,
+            start_time: before.start_time,
+            end_time: before.end_time
+          }
+        }, auditContext)
+      }
+      if (occurrence.status !== before.status) {
+        webhooks.dispatch('event.status_changed', {
+          event: occurrence,
+          previous_status: before.status
+        }, auditContext)
+      }
+      if (!moved && occurrence.status === before.status) {
+        webhooks.dispatch('event.updated', {
+          event: occurrence,
+          changed_fields: changedFields
+        }, auditContext)
+      }
+    })
+  }
+
+  /**
+   * Find an occurrence and its series
+   * @private
+   * @param {string} eventId
+   * @returns {{event: Object, series: Object}}
+   * @throws {Error} If the event is not found or not part of a series
+   */
+  _findOccurrence(eventId) {
+    const event = this.eventRepository.findById(eventId)
+    if (!event) {
+      throw new Error('Event not found')
+    }
+
+    const series = event.series_id ? this.repository.findById(event.series_id) : null
+    if (!series) {
+      throw new Error('Event is not part of a series')
+    }
+
+    return { event, series }
+  }
+
+  /**
+   * Move the occurrences from an index onwards into a new series
+   * Must run inside a transaction
+   * @private
+   * @param {Object} series
+   * @param {Object} rule - Parsed rule of the series
+   * @param {number} fromIndex
+   * @param {Object} auditContext
+   * @returns {Object} The new series
+   */
+  _splitSeries(series, rule, fromIndex, auditContext) {
+    const tail = this.repository.create({
+      ...series,
+      id: nanoid(),
+      rrule: formatRRule(rule.count ? { ...rule, count: rule.count - fromIndex } : rule),
+      dtstart: occurrenceStart(rule, series.dtstart, fromIndex, this._timeZoneOf(series.interviewer_email)),
+      expanded_count: Math.max(series.expanded_count - fromIndex, 0)
+    }, auditContext)
+
+    this.eventRepository.findBySeries(series.id, fromIndex).forEach(occurrence => {
+      this.eventRepository.update(occurrence.id, {
+        series_id: tail.id,
+        series_index: occurrence.series_index - fromIndex
+      })
+    })
+
+    this._truncateSeries(series, rule, fromIndex)
+
+    return tail
+  }
+
+  /**
+   * End a series before an occurrence index
+   * @private
+   * @param {Object} series
+   * @param {Object} rule - Parsed rule of the series
+   * @param {number} count - Occurrences the series keeps
+   */
+  _truncateSeries(series, rule, count) {
+    this.repository.update(series.id, {
+      rrule: formatRRule({ ...rule, count, until: null }),
+      expanded_count: Math.min(series.expanded_count, count)
+    })
+  }
+
+  /**
+   * Build the event row for one occurrence of a series
+   * @private
+   * @param {Object} series
+   * @param {{index: number, start_time: string}} occurrence
+   * @returns {Object}
+   */
+  _buildOccurrence(series, occurrence) {
+    const end = new Date(new Date(occurrence.start_time).getTime() + series.duration_minutes * 60000)
+
+    return {
+      id: nanoid(),
+      ...this._pickTemplate(series),
+      start_time: occurrence.start_time,
+      end_time: end.toISOString(),
+      duration_minutes: series.duration_minutes,
+      status: 'pending',
+      series_id: series.id,
+      series_index: occurrence.index,
+      coordinator_email: series.created_by || null
+    }
+  }
+
+  /**
+   * Pick the template fields present in an object
+   * @private
+   * @param {Object} data
+   * @returns {Object}
+   */
+  _pickTemplate(data) {
+    return Object.fromEntries(
+      TEMPLATE_FIELDS.filter(field => data[field] !== undefined).map(field => [field, data[field]])
+    )
+  }
+
+  /**
+   * Timezone of an interviewer (UTC when unknown)
+   * @private
+   * @param {string} email
+   * @returns {string}
+   */
+  _timeZoneOf(email) {
+    return this.interviewerRepository.findByEmail(email)?.timezone || 'UTC'
+  }
+}
@@ -0,0 +1,123 @@
+import { EventService } from './service.js'
+import { SeriesService } from './series-service.js'
+import { addDays } from '../../utils/time-zone.js'
+import { createTestDb, createInterviewer } from '../../test/helpers.js'
+
+// Series start tomorrow, since expansion never reaches back before today
+const today = new Date().toISOString().slice(0, 10)
+const weekday = weeks => addDays(today, 1 + 7 * weeks)
+
+describe('SeriesService', () => {
+  let db
+  let eventService
+  let service
+  let interviewer
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    eventService = new EventService(db, null)
+    service = new SeriesService(db, null, eventService)
+    interviewer = createInterviewer(db)
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  const occurrencesOf = seriesId =>
+    db.prepare('SELECT * FROM interview_events WHERE series_id = ? ORDER BY series_index').all(seriesId)
+
+  const createWeeklySeries = (count = 10) => service.create({
+    interviewer_email: interviewer.email,
+    candidate_name: 'Jo Candidate',
+    start_time: `${weekday(0)}T09:00:00.000Z`,
+    end_time: `${weekday(0)}T10:00:00.000Z`,
+    rrule: `FREQ=WEEKLY;COUNT=${count}`
+  })
+
+  describe('create', () => {
+    it('creates only the occurrences of the first weeks', async () => {
+      const first = await createWeeklySeries()
+
+      const occurrences = occurrencesOf(first.series_id)
+      expect(occurrences.length).toBeGreaterThan(0)
+      expect(occurrences.length).toBeLessThan(10)
+      expect(occurrences[0].start_time).toBe(`${weekday(0)}T09:00:00.000Z`)
+    })
+  })
+
+  describe('expandThrough', () => {
+    it('creates the occurrences up to the date once', async () => {
+      const first = await createWeeklySeries()
+      const initial = occurrencesOf(first.series_id).length
+
+      const result = await service.expandThrough(weekday(12))
+
+      expect(result).toEqual({ created: 10 - initial, skipped: 0 })
+      const occurrences = occurrencesOf(first.series_id)
+      expect(occurrences.map(event => event.series_index)).toEqual([...Array(10).keys()])
+      expect(occurrences[9].start_time).toBe(`${weekday(9)}T09:00:00.000Z`)
+
+      await expect(service.expandThrough(weekday(12))).resolves.toEqual({ created: 0, skipped: 0 })
+      expect(occurrencesOf(first.series_id)).toHaveLength(10)
+    })
+
+    it('stops at the requested date', async () => {
+      const first = await createWeeklySeries()
+
+      await service.expandThrough(weekday(6))
+
+      const occurrences = occurrencesOf(first.series_id)
+      expect(occurrences).toHaveLength(7)
+      expect(occurrences[6].start_time).toBe(`${weekday(6)}T09:00:00.000Z`)
+    })
+
+    it('does not bring back deleted occurrences', async () => {
+      const first = await createWeeklySeries()
+      await service.expandThrough(weekday(12))
+      const [, second] = occurrencesOf(first.series_id)
+      db.prepare('DELETE FROM interview_events WHERE id = ?').run(second.id)
+
+      await expect(service.expandThrough(weekday(12))).resolves.toEqual({ created: 0, skipped: 0 })
+      expect(occurrencesOf(first.series_id)).toHaveLength(9)
+    })
+
+    it('skips occurrences that clash with another interview', async () => {
+      const first = await createWeeklySeries()
+      const clash = await eventService.create({
+        interviewer_email: interviewer.email,
+        candidate_name: 'Kim Candidate',
+        start_time: `${weekday(7)}T09:30:00.000Z`,
+        end_time: `${weekday(7)}T10:30:00.000Z`
+      })
+
+      const result = await service.expandThrough(weekday(12))
+
+      expect(result.skipped).toBe(1)
+      const starts = occurrencesOf(first.series_id).map(event => event.start_time)
+      expect(starts).toHaveLength(9)
+      expect(starts).not.toContain(`${weekday(7)}T09:00:00.000Z`)
+      expect(eventService.repository.findById(clash.id).status).toBe('pending')
+    })
+
+    it('skips occurrences blocked by an interview cap', async () => {
+      const capped = createInterviewer(db, { max_interviews_per_day: 1 })
+      const first = await service.create({
+        interviewer_email: capped.email,
+        start_time: `${weekday(0)}T09:00:00.000Z`,
+        end_time: `${weekday(0)}T10:00:00.000Z`,
+        rrule: 'FREQ=WEEKLY;COUNT=10'
+      })
+      await eventService.create({
+        interviewer_email: capped.email,
+        start_time: `${weekday(8)}T15:00:00.000Z`,
+        end_time: `${weekday(8)}T16:00:00.000Z`
+      })
+
+      const result = await service.expandThrough(weekday(12))
+
+      expect(result.skipped).toBe(1)
+      expect(occurrencesOf(first.series_id)).toHaveLength(9)
+    })
+  })
+})
@@ -1,5 +1,21 @@
 import { nanoid } from 'nanoid'
 import { EventRepository } from './repository.js'
+import { InterviewerRepository } from '../interviewers/repository.js'
+import { CandidateRepository } from '../candidates/repository.js'
+import { PositionRepository } from '../positions/repository.js'
+import { getDayOfWeek, addDays } from '../../utils/time-zone.js'
+import { findConflicts, getCapWindow, getCapViolations } from './slot-checks.js'
+
+// Upper bound for the fairness heatmap range
+const MAX_LOAD_WEEKS = 26
+
+// Fields that reset the interviewer's confirmation or conflict flag when an
+// interview moves, so the (new) interviewer is asked again
+export const CLEARED_RESPONSE = {
+  interviewer_response: null,
+  interviewer_response_note: null,
+  interviewer_responded_at: null
+}
 
 /**
  * EventService
@@ -12,9 +28,24 @@ import { EventRepository } from './repository.js'
  * - Data transformation
  */
 export class EventService {
-  constructor(db, auditLogger) {
+  /**
+   * @param {Object} db
+   * @param {Object} auditLogger
+   * @param {Object} options - { bufferMinutes, notifier, webhooks }: minimum
+   *   gap between interviews, the notification service told about
+   *   assignments, status changes and no-shows, and the webhook service
+   *   told about every change
+   */
+  constructor(db, auditLogger, options = {}) {
+    this.db = db
     this.repository = new EventRepository(db)
+    this.interviewerRepository = new InterviewerRepository(db)
+    this.candidateRepository = new CandidateRepository(db)
+    this.positionRepository = new PositionRepository(db)
     this.auditLogger = auditLogger
+    this.bufferMinutes = options.bufferMinutes || 0
+    this.notifier = options.notifier
+    this.webhooks = options.webhooks
   }
 
   /**
@@ -68,8 +99,9 @@ export class EventService {
    * Create new event
    * @param {Object} data - Event data
    * @param {Object} auditContext - User info for audit
-   * @returns {Object} Created event
-   * @throws {Error} If validation fails
+   * @returns {Object} Created event (with `warnings` when a cap is exceeded in warn mode)
+   * @throws {Error} If validation fails, the slot overlaps another interview
+   *   (code EVENT_OVERLAP) or an interview cap blocks the event
    */
   async create(data, auditContext = {}) {
     // Validate time range
@@ -96,9 +128,12 @@ export class EventService {
     const event = {
       id: nanoid(),
       ...data,
+      ...this.resolveLinks(data),
       status: data.status || 'pending'
     }
 
+    const warnings = event.status !== 'cancelled' ? this.checkSlot(event) : []
+
     const created = this.repository.create(event, auditContext)
 
     // Log audit event
@@ -106,12 +141,17 @@ export class EventService {
       action: 'CREATE_EVENT',
       entityType: 'event',
       entityId: created.id,
-      changes: { created: true },
+      changes: warnings.length > 0
+        ? { created: true, cap_warnings: warnings }
+        : { created: true },
       userEmail: auditContext.userEmail,
       userName: auditContext.userName
     })
 
-    return created
+    this.notifier?.notifyEventsAssigned([created], auditContext)
+    this.webhooks?.dispatch('event.created', { event: created }, auditContext)
+
+    return warnings.length > 0 ? { ...created, warnings } : created
   }
 
   /**
@@ -119,8 +159,9 @@ export class EventService {
    * @param {string} id - Event ID
    * @param {Object} data - Updated fields
    * @param {Object} auditContext - User info for audit
-   * @returns {Object} Updated event
-   * @throws {Error} If not found or validation fails
+   * @returns {Object} Updated event (with `warnings` when a cap is exceeded in warn mode)
+   * @throws {Error} If not found, validation fails, the slot overlaps another
+   *   interview (code EVENT_OVERLAP) or an interview cap blocks the change
    */
   async update(id, data, auditContext = {}) {
     // Check if event exists
@@ -165,19 +206,171 @@ export class EventService {
       }
     }
 
-    const updated = this.repository.update(id, data, auditContext)
+    if (data.candidate_id !== undefined) {
+      data = { ...data, ...this._resolveCandidate(data.candidate_id) }
+    }
+
+    if (data.position_id !== undefined && data.position_id !== existing.position_id) {
+      data = { ...data, ...this._resolvePosition(data.position_id) }
+    }
+
+    // Re-check overlaps and caps when the event moves or comes back from cancelled
+    const next = {
+      interviewer_email: data.interviewer_email || existing.interviewer_email,
+      start_time: data.start_time || existing.start_time,
+      end_time: data.end_time || existing.end_time,
+      status: data.status || existing.status
+    }
+    const movesSlot =
+      next.interviewer_email !== existing.interviewer_email ||
+      next.start_time !== existing.start_time ||
+      next.end_time !== existing.end_time ||
+      existing.status === 'cancelled'
+
+    const warnings = next.status !== 'cancelled' && movesSlot ? this.checkSlot(next, id) : []
+
+    const moved =
+      next.interviewer_email !== existing.interviewer_email ||
+      next.start_time !== existing.start_time ||
+      next.end_time !== existing.end_time
+
+    const updated = this.repository.update(
+      id,
+      moved && existing.interviewer_response ? { ...data, ...CLEARED_RESPONSE } : data,
+      auditContext
+    )
+
+    // Record where the interview was and where it went, so a reschedule
+    // (e.g. drag-and-drop on the weekly calendar) reads as one move
+    const changes = { ...data }
+    if (moved) {
+      changes.move = {
+        from: {
+          interviewer_email: existing.interviewer_email,
+          start_time: existing.start_time,
+          end_time: existing.end_time
+        },
+        to: {
+          interviewer_email: updated.interviewer_email,
+          start_time: updated.start_time,
+          end_time: updated.end_time
+        }
+      }
+    }
+    if (warnings.length > 0) {
+      changes.cap_warnings = warnings
+    }
 
     // Log audit event
     this.auditLogger?.log({
       action: 'UPDATE_EVENT',
       entityType: 'event',
       entityId: id,
-      changes: data,
+      changes,
       userEmail: auditContext.userEmail,
       userName: auditContext.userName
     })
 
-    return updated
+    // Not awaited: the notifier logs its own failures
+    if (updated.interviewer_email !== existing.interviewer_email) {
+      this.notifier?.notifyEventsAssigned([updated], auditContext)
+    } else if (moved && updated.status !== 'cancelled') {
+      this.notifier?.notifyEventsRescheduled([updated], auditContext)
+    }
+    if (updated.status !== existing.status) {
+      this.notifier?.notifyEventStatusChanged(updated, existing.status, auditContext)
+      if (updated.status === 'ghosted') {
+        this.notifier?.notifyEventGhosted(updated)
+      }
+    }
+
+    // A move and a status change each get their own webhook; anything else
+    // is a plain update
+    if (moved) {
+      this.webhooks?.dispatch('event.rescheduled', {
+        event: updated,
+        previous: changes.move.from
+      }, auditContext)
+    }
+    if (updated.status !== existing.status) {
+      this.webhooks?.dispatch('event.status_changed', {
+        event: updated,
+        previous_status: existing.status
+      }, auditContext)
+    }
+    if (!moved && updated.status === existing.status) {
+      this.webhooks?.dispatch('event.updated', {
+        event: updated,
+        changed_fields: Object.keys(data)
+      }, auditContext)
+    }
+
+    return warnings.length > 0 ? { ...updated, warnings } : updated
+  }
+
+  /**
+   * Set the status of several events at once (bulk marking)
+   * All events change in one transaction with one audit entry each; events
+   * already in that status are left alone
+   * @param {Array<string>} ids - Event IDs
+   * @param {string} status - New status
+   * @param {Object} auditContext - User info for audit, also recorded as marked_by
+   * @returns {Object} { updated, unchanged } - updated events (with `warnings`
+   *   when a cap is exceeded in warn mode) and the IDs left alone
+   * @throws {Error} If an event is not found, or a cancelled event brought back
+   *   overlaps another interview (code EVENT_OVERLAP) or hits an interview cap
+   */
+  async updateStatuses(ids, status, auditContext = {}) {
+    const events = ids.map(id => {
+      const event = this.repository.findById(id)
+      if (!event) {
+        throw new Error(`Event not found: ${id}`)
+      }
+      return event
+    })
+
+    const changed = events.filter(event => event.status !== status)
+    const markedAt = new Date().toISOString()
+
+    const applyStatuses = this.db.transaction(() => changed.map(event => {
+      // Coming back from cancelled takes the slot again
+      const warnings = event.status === 'cancelled' ? this.checkSlot(event, event.id) : []
+      const data = { status, marked_by: auditContext.userEmail, marked_at: markedAt }
+      const updated = this.repository.update(event.id, data, auditContext)
+
+      this.auditLogger?.log({
+        action: 'UPDATE_EVENT',
+        entityType: 'event',
+        entityId: event.id,
+        changes: {
+          ...data,
+          bulk: ids.length,
+          ...(warnings.length > 0 && { cap_warnings: warnings })
+        },
+        userEmail: auditContext.userEmail,
+        userName: auditContext.userName
+      })
+
+      return warnings.length > 0 ? { ...updated, warnings } : updated
+    }))
+
+    const updated = applyStatuses()
+
+    updated.forEach((event, index) => {
+      this.notifier?.notifyEventStatusChanged(event, changed[index].status, auditContext)
+      if (status === 'ghosted') {
+        this.notifier?.notifyEventGhosted(event)
+      }
+      this.webhooks?.dispatch('event.status_changed', {
+        event,
+        previous_status: changed[index].status
+      }, auditContext)
+    })
+
+    return {
+      updated,
+      unchanged: events.filter(event => event.status === status).map(event => event.id)
+    }
   }
 
   /**
@@ -206,14 +399,210 @@ export class EventService {
       userName: auditContext.userName
     })
 
+    if (deleted) {
+      this.webhooks?.dispatch('event.deleted', { event: existing }, auditContext)
+    }
+
     return deleted
   }
 
   /**
    * Get event statistics
-   * @returns {Object} Statistics by status
+   * @param {Object} filters - Optional interviewer and date range
+   * @returns {Object} Statistics by status plus total
+   */
+  async getStats(filters = {}) {
+    const byStatus = this.repository.getStatsByStatus(filters)
+    const total = Object.values(byStatus).reduce((sum, count) => sum + count, 0)
+
+    return { pending: 0, attended: 0, ghosted: 0, cancelled: 0, ...byStatus, total }
+  }
+
+  /**
+   * Get weekly interview load per interviewer for the fairness heatmap
+   * Weeks start on Monday (UTC) and end with the current week
+   * @param {number} weeks - Number of weeks to include
+   * @returns {Object} { weeks: [YYYY-MM-DD], data: [{ interviewer_email, name, counts, max_interviews_per_week }] }
    */
-  async getStats() {
-    return this.repository.getStatsByStatus()
+  async getLoadHeatmap(weeks = 8) {
+    if (weeks < 1 || weeks > MAX_LOAD_WEEKS) {
+      throw new Error(`Weeks must be between 1 and ${MAX_LOAD_WEEKS}`)
+    }
+
+    const today = new Date().toISOString().slice(0, 10)
+    const currentWeekStart = addDays(today, -((getDayOfWeek(today) + 6) % 7))
+    const weekStarts = Array.from({ length: weeks }, (_, i) =>
+      addDays(currentWeekStart, (i - weeks + 1) * 7)
+    )
+
+    const counts = this.repository.getWeeklyCountsByInterviewer(
+      `${weekStarts[0]}T00:00:00.000Z`,
+      `${addDays(currentWeekStart, 7)}T00:00:00.000Z`
+    )
+
+    // LIMIT -1 disables the row limit in SQLite
+    const interviewers = this.interviewerRepository.findAll({ limit: -1 })
+
+    const data = interviewers
+      .filter(interviewer => interviewer.is_active || counts[interviewer.email])
+      .map(interviewer => ({
+        interviewer_email: interviewer.email,
+        name: interviewer.name,
+        counts: weekStarts.map(week => counts[interviewer.email]?.[week] || 0),
+        max_interviews_per_week: interviewer.max_interviews_per_week ?? null
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
+    return { weeks: weekStarts, data }
+  }
+
+  /**
+   * Check that an interviewer can take a slot
+   * Runs the overlap and interview cap checks used by create/update
+   * @param {Object} slot - { interviewer_email, start_time, end_time }
+   * @param {string|null} excludeId - Event being moved (ignored in checks)
+   * @returns {Array<string>} Cap warnings (warn mode)
+   * @throws {Error} If the slot overlaps another interview (code EVENT_OVERLAP)
+   *   or an interview cap blocks it
+   */
+  checkSlot(slot, excludeId = null) {
+    this._checkOverlap(slot.interviewer_email, slot.start_time, slot.end_time, excludeId)
+    return this._checkInterviewCaps(slot.interviewer_email, slot.start_time, excludeId)
+  }
+
+  /**
+   * Resolve the candidate and position an event links to
+   * @param {Object} data - Event data with optional candidate_id/position_id
+   * @returns {Object} Display copies (candidate_name, position) to merge into the event
+   * @throws {Error} If the candidate or position does not exist, or the position is closed
+   */
+  resolveLinks(data) {
+    return {
+      ...this._resolveCandidate(data.candidate_id),
+      ...this._resolvePosition(data.position_id)
+    }
+  }
+
+  /**
+   * Look up the candidate an event links to
+   * The event's candidate_name is copied from the candidate record
+   * @private
+   * @param {string|null|undefined} candidateId
+   * @returns {Object} Fields to merge into the event
+   * @throws {Error} If the candidate does not exist
+   */
+  _resolveCandidate(candidateId) {
+    if (!candidateId) {
+      return {}
+    }
+
+    const candidate = this.candidateRepository.findById(candidateId)
+    if (!candidate) {
+      throw new Error('Candidate not found')
+    }
+
+    return { candidate_name: candidate.name }
+  }
+
+  /**
+   * Look up the position an event links to
+   * The event's position title is copied from the position record. Closed
+   * positions accept no new interviews.
+   * @private
+   * @param {string|null|undefined} positionId
+   * @returns {Object} Fields to merge into the event
+   * @throws {Error} If the position does not exist or is closed
+   */
+  _resolvePosition(positionId) {
+    if (!positionId) {
+      return {}
+    }
+
+    const position = this.positionRepository.findById(positionId)
+    if (!position) {
+      throw new Error('Position not found')
+    }
+    if (position.status === 'closed') {
+      throw new Error('Position is closed')
+    }
+
+    return { position: position.title }
+  }
+
+  /**
+   * Reject an interview that overlaps another one for the same interviewer
+   *
+   * Two interviews clash when they are closer than the configured buffer.
+   * Cancelled events never clash.
+   *
+   * @private
+   * @param {string} interviewerEmail
+   * @param {string} startTime - ISO datetime
+   * @param {string} endTime - ISO datetime
+   * @param {string|null} excludeEventId - Event being updated
+   * @throws {Error} With code EVENT_OVERLAP and the clashing events in `conflicts`
+   */
+  _checkOverlap(interviewerEmail, startTime, endTime, excludeEventId = null) {
+    const bufferMs = this.bufferMinutes * 60 * 1000
+    const rangeStart = new Date(new Date(startTime).getTime() - bufferMs).toISOString()
+    const rangeEnd = new Date(new Date(endTime).getTime() + bufferMs).toISOString()
+
+    const conflicts = findConflicts(
+      this.repository.findByInterviewerInRange(interviewerEmail, rangeStart, rangeEnd),
+      startTime,
+      endTime,
+      { bufferMinutes: this.bufferMinutes, excludeId: excludeEventId }
+    )
+
+    if (conflicts.length === 0) return
+
+    const error = new Error(
+      this.bufferMinutes > 0
+        ? `Interview overlaps or is within ${this.bufferMinutes} minutes of another interview for ${interviewerEmail}`
+        : `Interview overlaps another interview for ${interviewerEmail}`
+    )
+    error.code = 'EVENT_OVERLAP'
+    error.bufferMinutes = this.bufferMinutes
+    error.conflicts = conflicts.map(event => ({
+      id: event.id,
+      start_time: event.start_time,
+      end_time: event.end_time,
+      candidate_name: event.candidate_name,
+      status: event.status
+    }))
+    throw error
+  }
+
+  /**
+   * Check daily/weekly interview caps for the interviewer of an event
+   *
+   * Days and Monday-Sunday weeks are taken in the interviewer's timezone.
+   * Cancelled events do not count towards a cap.
+   *
+   * @private
+   * @param {string} interviewerEmail
+   * @param {string} startTime - ISO datetime of the new/moved event
+   * @param {string|null} excludeEventId - Event being updated
+   * @returns {Array<string>} Cap warnings (warn mode)
+   * @throws {Error} If a cap is reached and the interviewer uses block mode
+   */
+  _checkInterviewCaps(interviewerEmail, startTime, excludeEventId = null) {
+    const interviewer = this.interviewerRepository.findByEmail(interviewerEmail)
+    if (!interviewer) return []
+    if (!interviewer.max_interviews_per_day && !interviewer.max_interviews_per_week) return []
+
+    const { rangeStart, rangeEnd } = getCapWindow(startTime, interviewer.timezone || 'UTC')
+    const violations = getCapViolations(
+      interviewer,
+      this.repository.findByInterviewerInRange(interviewerEmail, rangeStart, rangeEnd),
+      startTime,
+      excludeEventId
+    )
+
+    if (violations.length > 0 && interviewer.cap_enforcement !== 'warn') {
+      throw new Error(violations[0])
+    }
+
+    return violations
   }
 }
@@ -0,0 +1,231 @@
+import { EventService } from './service.js'
+import { AuditLogger } from '../../utils/audit-logger.js'
+import { createTestDb, createInterviewer } from '../../test/helpers.js'
+
+const slot = (interviewer, start, end) => ({
+  interviewer_email: interviewer.email,
+  candidate_name: 'Jo Candidate',
+  position: 'Frontend Engineer',
+  start_time: start,
+  end_time: end
+})
+
+describe('EventService', () => {
+  let db
+  let service
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    service = new EventService(db, null)
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  describe('interview caps', () => {
+    it('blocks an interview past the daily cap in block mode', async () => {
+      const interviewer = createInterviewer(db, { max_interviews_per_day: 1 })
+      await service.create(slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'))
+
+      await expect(
+        service.create(slot(interviewer, '2026-03-02T14:00:00.000Z', '2026-03-02T15:00:00.000Z'))
+      ).rejects.toThrow(`Daily interview cap of 1 reached for ${interviewer.email} on 2026-03-02`)
+    })
+
+    it('creates the interview with a warning in warn mode', async () => {
+      const interviewer = createInterviewer(db, { max_interviews_per_day: 1, cap_enforcement: 'warn' })
+      await service.create(slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'))
+
+      const created = await service.create(
+        slot(interviewer, '2026-03-02T14:00:00.000Z', '2026-03-02T15:00:00.000Z')
+      )
+
+      expect(created.warnings).toEqual([
+        `Daily interview cap of 1 reached for ${interviewer.email} on 2026-03-02`
+      ])
+      expect(service.repository.findByInterviewer(interviewer.email)).toHaveLength(2)
+    })
+
+    it('counts Monday-Sunday weeks towards the weekly cap', async () => {
+      const interviewer = createInterviewer(db, { max_interviews_per_week: 2 })
+      await service.create(slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'))
+      await service.create(slot(interviewer, '2026-03-04T09:00:00.000Z', '2026-03-04T10:00:00.000Z'))
+
+      await expect(
+        service.create(slot(interviewer, '2026-03-08T09:00:00.000Z', '2026-03-08T10:00:00.000Z'))
+      ).rejects.toThrow('Weekly interview cap of 2')
+
+      // The next Monday starts a new week
+      await expect(
+        service.create(slot(interviewer, '2026-03-09T09:00:00.000Z', '2026-03-09T10:00:00.000Z'))
+      ).resolves.toMatchObject({ interviewer_email: interviewer.email })
+    })
+
+    it('takes the day in the interviewer timezone', async () => {
+      const interviewer = createInterviewer(db, {
+        max_interviews_per_day: 1,
+        timezone: 'America/New_York'
+      })
+      // 23:00 UTC on 2 March is still 2 March in New York, 02:00 UTC on 3 March is not
+      await service.create(slot(interviewer, '2026-03-02T23:00:00.000Z', '2026-03-02T23:30:00.000Z'))
+
+      await expect(
+        service.create(slot(interviewer, '2026-03-03T02:00:00.000Z', '2026-03-03T02:30:00.000Z'))
+      ).rejects.toThrow('on 2026-03-02')
+      await expect(
+        service.create(slot(interviewer, '2026-03-03T15:00:00.000Z', '2026-03-03T16:00:00.000Z'))
+      ).resolves.toBeDefined()
+    })
+
+    it('does not count cancelled interviews', async () => {
+      const interviewer = createInterviewer(db, { max_interviews_per_day: 1 })
+      await service.create({
+        ...slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'),
+        status: 'cancelled'
+      })
+
+      await expect(
+        service.create(slot(interviewer, '2026-03-02T14:00:00.000Z', '2026-03-02T15:00:00.000Z'))
+      ).resolves.toBeDefined()
+    })
+  })
+
+  describe('overlap check', () => {
+    it('rejects an interview that overlaps another with EVENT_OVERLAP', async () => {
+      const interviewer = createInterviewer(db)
+      const existing = await service.create(
+        slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z')
+      )
+
+      const error = await service
+        .create(slot(interviewer, '2026-03-02T09:30:00.000Z', '2026-03-02T10:30:00.000Z'))
+        .catch(err => err)
+
+      expect(error.code).toBe('EVENT_OVERLAP')
+      expect(error.conflicts).toEqual([expect.objectContaining({ id: existing.id })])
+    })
+
+    it('allows back-to-back interviews without a buffer', async () => {
+      const interviewer = createInterviewer(db)
+      await service.create(slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'))
+
+      await expect(
+        service.create(slot(interviewer, '2026-03-02T10:00:00.000Z', '2026-03-02T11:00:00.000Z'))
+      ).resolves.toBeDefined()
+    })
+
+    it('keeps the buffer between interviews', async () => {
+      const buffered = new EventService(db, null, { bufferMinutes: 15 })
+      const interviewer = createInterviewer(db)
+      await buffered.create(slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'))
+
+      await expect(
+        buffered.create(slot(interviewer, '2026-03-02T10:10:00.000Z', '2026-03-02T11:00:00.000Z'))
+      ).rejects.toMatchObject({ code: 'EVENT_OVERLAP', bufferMinutes: 15 })
+      await expect(
+        buffered.create(slot(interviewer, '2026-03-02T10:15:00.000Z', '2026-03-02T11:00:00.000Z'))
+      ).resolves.toBeDefined()
+    })
+
+    it('ignores cancelled interviews and other interviewers', async () => {
+      const interviewer = createInterviewer(db)
+      const colleague = createInterviewer(db, { name: 'Ben Ode' })
+      await service.create({
+        ...slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'),
+        status: 'cancelled'
+      })
+      await service.create(slot(colleague, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'))
+
+      await expect(
+        service.create(slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'))
+      ).resolves.toBeDefined()
+    })
+
+    it('does not clash an updated interview with itself', async () => {
+      const interviewer = createInterviewer(db)
+      const event = await service.create(
+        slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z')
+      )
+
+      const updated = await service.update(event.id, {
+        start_time: '2026-03-02T09:30:00.000Z',
+        end_time: '2026-03-02T10:30:00.000Z'
+      })
+
+      expect(updated.start_time).toBe('2026-03-02T09:30:00.000Z')
+    })
+  })
+
+  describe('updateStatuses', () => {
+    const auditContext = { userEmail: 'admin@example.com', userName: 'Admin' }
+
+    let audited
+    let interviewer
+
+    beforeEach(() => {
+      audited = new EventService(db, new AuditLogger(db))
+      interviewer = createInterviewer(db)
+    })
+
+    const statuses = ids => ids.map(id => audited.repository.findById(id).status)
+
+    const auditRows = () =>
+      db.prepare('SELECT action, entity_id, changes FROM audit_logs ORDER BY rowid').all()
+
+    it('writes one audit entry per changed event', async () => {
+      const first = await audited.create(slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'))
+      const second = await audited.create(slot(interviewer, '2026-03-02T11:00:00.000Z', '2026-03-02T12:00:00.000Z'))
+      const done = await audited.create({
+        ...slot(interviewer, '2026-03-02T13:00:00.000Z', '2026-03-02T14:00:00.000Z'),
+        status: 'attended'
+      })
+      const auditBefore = auditRows().length
+
+      const result = await audited.updateStatuses([first.id, second.id, done.id], 'attended', auditContext)
+
+      expect(result.updated.map(event => event.id)).toEqual([first.id, second.id])
+      expect(result.unchanged).toEqual([done.id])
+      const rows = auditRows().slice(auditBefore)
+      expect(rows.map(row => [row.action, row.entity_id])).toEqual([
+        ['UPDATE_EVENT', first.id],
+        ['UPDATE_EVENT', second.id]
+      ])
+      expect(JSON.parse(rows[0].changes)).toMatchObject({
+        status: 'attended',
+        marked_by: auditContext.userEmail,
+        bulk: 3
+      })
+    })
+
+    it('changes nothing when an id does not exist', async () => {
+      const event = await audited.create(slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'))
+      const auditBefore = auditRows().length
+
+      await expect(
+        audited.updateStatuses([event.id, 'missing'], 'attended', auditContext)
+      ).rejects.toThrow('Event not found: missing')
+
+      expect(statuses([event.id])).toEqual(['pending'])
+      expect(auditRows()).toHaveLength(auditBefore)
+    })
+
+    it('rolls back the whole batch when a later event fails', async () => {
+      const first = await audited.create(slot(interviewer, '2026-03-02T07:00:00.000Z', '2026-03-02T08:00:00.000Z'))
+      const cancelled = await audited.create({
+        ...slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'),
+        status: 'cancelled'
+      })
+      // Takes the cancelled interview's slot, so it cannot come back
+      await audited.create(slot(interviewer, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'))
+      const auditBefore = auditRows().length
+
+      await expect(
+        audited.updateStatuses([first.id, cancelled.id], 'attended', auditContext)
+      ).rejects.toMatchObject({ code: 'EVENT_OVERLAP' })
+
+      expect(statuses([first.id, cancelled.id])).toEqual(['pending', 'cancelled'])
+      expect(auditRows()).toHaveLength(auditBefore)
+    })
+  })
+})
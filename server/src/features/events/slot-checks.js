@@ -0,0 +1,87 @@
+import { getZonedParts, getDayOfWeek, addDays } from '../../utils/time-zone.js'
+
+/**
+ * Slot checks
+ * The overlap and interview cap rules for booking an interviewer, shared by
+ * event scheduling and interviewer matching. They work on event rows the
+ * caller loaded, so matching can load every interviewer's events at once.
+ */
+
+/**
+ * Interviews of an interviewer that clash with a slot
+ * Cancelled interviews never clash.
+ * @param {Array} events - The interviewer's events around the slot
+ * @param {string|Date} startTime
+ * @param {string|Date} endTime
+ * @param {Object} options - { bufferMinutes, excludeId }: minimum gap
+ *   between interviews, and an event being moved (it cannot clash with itself)
+ * @returns {Array} Clashing events
+ */
+export function findConflicts(events, startTime, endTime, { bufferMinutes = 0, excludeId = null } = {}) {
+  const bufferMs = bufferMinutes * 60 * 1000
+  const rangeStart = new Date(startTime).getTime() - bufferMs
+  const rangeEnd = new Date(endTime).getTime() + bufferMs
+
+  return events.filter(event =>
+    event.id !== excludeId &&
+    event.status !== 'cancelled' &&
+    Date.parse(event.start_time) < rangeEnd &&
+    Date.parse(event.end_time) > rangeStart
+  )
+}
+
+/**
+ * Day and Monday-Sunday week an interview counts towards, in the
+ * interviewer's timezone, and the UTC range of events to load for counting
+ * @param {string|Date} startTime
+ * @param {string} timeZone
+ * @returns {Object} { date, weekStart, weekEnd, rangeStart, rangeEnd }
+ */
+export function getCapWindow(startTime, timeZone) {
+  const { date } = getZonedParts(startTime, timeZone)
+  const weekStart = addDays(date, -((getDayOfWeek(date) + 6) % 7))
+  const weekEnd = addDays(weekStart, 6)
+
+  // Pad the UTC range by a day on each side to cover any timezone offset
+  return {
+    date,
+    weekStart,
+    weekEnd,
+    rangeStart: `${addDays(weekStart, -1)}T00:00:00.000Z`,
+    rangeEnd: `${addDays(weekEnd, 2)}T00:00:00.000Z`
+  }
+}
+
+/**
+ * Daily/weekly caps an interview would exceed
+ * Cancelled interviews do not count towards a cap.
+ * @param {Object} interviewer - Row with timezone and max_interviews_* caps
+ * @param {Array} events - The interviewer's events in getCapWindow's range
+ * @param {string|Date} startTime
+ * @param {string|null} excludeId - Event being moved
+ * @returns {Array<string>} One message per reached cap
+ */
+export function getCapViolations(interviewer, events, startTime, excludeId = null) {
+  const dailyCap = interviewer.max_interviews_per_day
+  const weeklyCap = interviewer.max_interviews_per_week
+  if (!dailyCap && !weeklyCap) return []
+
+  const timeZone = interviewer.timezone || 'UTC'
+  const { date, weekStart, weekEnd } = getCapWindow(startTime, timeZone)
+
+  const eventDates = events
+    .filter(event => event.id !== excludeId && event.status !== 'cancelled')
+    .map(event => getZonedParts(event.start_time, timeZone).date)
+
+  const dayCount = eventDates.filter(eventDate => eventDate === date).length
+  const weekCount = eventDates.filter(eventDate => eventDate >= weekStart && eventDate <= weekEnd).length
+
+  const violations = []
+  if (dailyCap && dayCount >= dailyCap) {
+    violations.push(`Daily interview cap of ${dailyCap} reached for ${interviewer.email} on ${date}`)
+  }
+  if (weeklyCap && weekCount >= weeklyCap) {
+    violations.push(`Weekly interview cap of ${weeklyCap} reached for ${interviewer.email} in the week of ${weekStart}`)
+  }
+  return violations
+}
@@ -0,0 +1,115 @@
+import { nanoid } from 'nanoid'
+
+/**
+ * Availability Repository
+ * Data access layer for interviewer availability tables
+ *
+ * Handles:
+ * - interviewer_availability_windows (recurring weekly windows)
+ * - interviewer_availability_overrides (date-specific windows)
+ * - interviewer_availability_blackouts (blackout date ranges)
+ */
+export class AvailabilityRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Find weekly windows
+   * @param {string|null} interviewerId - Limit to one interviewer (all when null)
+   * @returns {Array}
+   */
+  findWindows(interviewerId = null) {
+    let sql = 'SELECT * FROM interviewer_availability_windows'
+    const params = []
+
+    if (interviewerId) {
+      sql += ' WHERE interviewer_id = ?'
+      params.push(interviewerId)
+    }
+
+    sql += ' ORDER BY day_of_week ASC, start_time ASC'
+
+    return this.db.prepare(sql).all(...params)
+  }
+
+  /**
+   * Find date-specific overrides
+   * @param {string|null} interviewerId - Limit to one interviewer (all when null)
+   * @returns {Array}
+   */
+  findOverrides(interviewerId = null) {
+    let sql = 'SELECT * FROM interviewer_availability_overrides'
+    const params = []
+
+    if (interviewerId) {
+      sql += ' WHERE interviewer_id = ?'
+      params.push(interviewerId)
+    }
+
+    sql += ' ORDER BY date ASC, start_time ASC'
+
+    return this.db.prepare(sql).all(...params)
+  }
+
+  /**
+   * Find blackout date ranges
+   * @param {string|null} interviewerId - Limit to one interviewer (all when null)
+   * @returns {Array}
+   */
+  findBlackouts(interviewerId = null) {
+    let sql = 'SELECT * FROM interviewer_availability_blackouts'
+    const params = []
+
+    if (interviewerId) {
+      sql += ' WHERE interviewer_id = ?'
+      params.push(interviewerId)
+    }
+
+    sql += ' ORDER BY start_date ASC'
+
+    return this.db.prepare(sql).all(...params)
+  }
+
+  /**
+   * Replace all availability for an interviewer in one transaction
+   * @param {string} interviewerId
+   * @param {Object} data - { weekly, overrides, blackouts }
+   */
+  replaceForInterviewer(interviewerId, data) {
+    const { weekly = [], overrides = [], blackouts = [] } = data
+
+    const insertWindow = this.db.prepare(`
+      INSERT INTO interviewer_availability_windows (id, interviewer_id, day_of_week, start_time, end_time)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+    const insertOverride = this.db.prepare(`
+      INSERT INTO interviewer_availability_overrides (id, interviewer_id, date, start_time, end_time)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+    const insertBlackout = this.db.prepare(`
+      INSERT INTO interviewer_availability_blackouts (id, interviewer_id, start_date, end_date, reason)
+      VALUES (?, ?, ?, ?, ?)
+    `)
+
+    const replace = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM interviewer_availability_windows WHERE interviewer_id = ?').run(interviewerId)
+      this.db.prepare('DELETE FROM interviewer_availability_overrides WHERE interviewer_id = ?').run(interviewerId)
+      this.db.prepare('DELETE FROM interviewer_availability_blackouts WHERE interviewer_id = ?').run(interviewerId)
+
+      weekly.forEach(window => {
+        insertWindow.run(nanoid(), interviewerId, window.day_of_week, window.start_time, window.end_time)
+      })
+
+      overrides.forEach(override => {
+        insertOverride.run(nanoid(), interviewerId, override.date, override.start_time, override.end_time)
+      })
+
+      blackouts.forEach(blackout => {
+        insertBlackout.run(nanoid(), interviewerId, blackout.start_date, blackout.end_date, blackout.reason || null)
+      })
+    })
+
+    replace()
+  }
+}
@@ -0,0 +1,123 @@
+import {
+  InterviewerAvailabilitySchema,
+  UpdateAvailabilitySchema,
+  FreeBusyQuerySchema,
+  FreeBusySchema,
+  InterviewerIdParamSchema,
+  ErrorSchema
+} from './schemas.js'
+
+/**
+ * Interviewer availability routes
+ * Weekly windows, date overrides, blackout dates and free/busy lookups
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function availabilityRoutes(fastify, options) {
+  const service = options.availabilityService
+
+  // GET /api/interviewers/availability - Availability for every interviewer
+  fastify.get('/availability', {
+    schema: {
+      description: 'List availability for all interviewers',
+      tags: ['interviewers'],
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: InterviewerAvailabilitySchema }
+          }
+        }
+      }
+    },
+    preHandler: fastify.authenticate
+  }, async (_request, _reply) => {
+    const data = await service.listAll()
+    return { data }
+  })
+
+  // GET /api/interviewers/:id/availability - Availability for one interviewer
+  fastify.get('/:id/availability', {
+    schema: {
+      description: 'Get availability windows, overrides and blackout dates for an interviewer',
+      tags: ['interviewers'],
+      params: InterviewerIdParamSchema,
+      response: {
+        200: InterviewerAvailabilitySchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authenticate
+  }, async (request, reply) => {
+    try {
+      return await service.getForInterviewer(request.params.id)
+    } catch (error) {
+      if (error.message === 'Interviewer not found') {
+        return reply.notFound(error.message)
+      }
+      throw error
+    }
+  })
+
+  // PUT /api/interviewers/:id/availability - Replace availability
+  fastify.put('/:id/availability', {
+    schema: {
+      description: 'Replace availability windows, overrides and blackout dates for an interviewer',
+      tags: ['interviewers'],
+      params: InterviewerIdParamSchema,
+      body: UpdateAvailabilitySchema,
+      response: {
+        200: InterviewerAvailabilitySchema,
+        400: ErrorSchema,
+        403: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin', 'talent'])
+  }, async (request, reply) => {
+    try {
+      const auditContext = {
+        userEmail: request.user.email,
+        userName: request.user.name
+      }
+
+      return await service.replace(request.params.id, request.body, auditContext)
+    } catch (error) {
+      if (error.message === 'Interviewer not found') {
+        return reply.notFound(error.message)
+      }
+      if (error.message.includes('must')) {
+        return reply.badRequest(error.message)
+      }
+      throw error
+    }
+  })
+
+  // GET /api/interviewers/:id/availability/free-busy - Free/busy per day
+  fastify.get('/:id/availability/free-busy', {
+    schema: {
+      description: 'Get free/busy intervals per day in the interviewer timezone',
+      tags: ['interviewers'],
+      params: InterviewerIdParamSchema,
+      querystring: FreeBusyQuerySchema,
+      response: {
+        200: FreeBusySchema,
+        400: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authenticate
+  }, async (request, reply) => {
+    try {
+      return await service.getFreeBusy(request.params.id, request.query)
+    } catch (error) {
+      if (error.message === 'Interviewer not found') {
+        return reply.notFound(error.message)
+      }
+      if (error.message.includes('must')) {
+        return reply.badRequest(error.message)
+      }
+      throw error
+    }
+  })
+}
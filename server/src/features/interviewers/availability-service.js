@@ -0,0 +1,287 @@
+import { AvailabilityRepository } from './availability-repository.js'
+import { InterviewerRepository } from './repository.js'
+import { EventRepository } from '../events/repository.js'
+import {
+  getZonedParts,
+  getDayOfWeek,
+  addDays,
+  timeToMinutes,
+  minutesToTime
+} from '../../utils/time-zone.js'
+
+const MAX_FREE_BUSY_DAYS = 62
+
+/**
+ * Check whether a date falls inside any blackout range
+ * @param {Object} availability - { blackouts }
+ * @param {string} date - YYYY-MM-DD
+ * @returns {boolean}
+ */
+export function isBlackoutDate(availability, date) {
+  return availability.blackouts.some(
+    blackout => blackout.start_date <= date && blackout.end_date >= date
+  )
+}
+
+/**
+ * Resolve the availability windows for one calendar date
+ *
+ * Precedence: blackout > date override > weekly windows.
+ * Returns null when the interviewer has no weekly schedule configured,
+ * which means availability is unrestricted (except blackouts/overrides).
+ *
+ * @param {Object} availability - { weekly, overrides, blackouts }
+ * @param {string} date - YYYY-MM-DD in the interviewer's timezone
+ * @returns {Array<{start_time: string, end_time: string}>|null}
+ */
+export function resolveWindowsForDate(availability, date) {
+  if (isBlackoutDate(availability, date)) {
+    return []
+  }
+
+  const overrides = availability.overrides.filter(override => override.date === date)
+  if (overrides.length > 0) {
+    return overrides.map(({ start_time, end_time }) => ({ start_time, end_time }))
+  }
+
+  if (availability.weekly.length === 0) {
+    return null
+  }
+
+  const dayOfWeek = getDayOfWeek(date)
+  return availability.weekly
+    .filter(window => window.day_of_week === dayOfWeek)
+    .map(({ start_time, end_time }) => ({ start_time, end_time }))
+}
+
+/**
+ * Availability Service
+ * Business logic for interviewer availability and free/busy lookups
+ */
+export class AvailabilityService {
+  constructor(db, auditLogger) {
+    this.repository = new AvailabilityRepository(db)
+    this.interviewerRepository = new InterviewerRepository(db)
+    this.eventRepository = new EventRepository(db)
+    this.auditLogger = auditLogger
+  }
+
+  /**
+   * Get availability for one interviewer
+   * @param {string} interviewerId
+   * @returns {Object} { interviewer_id, interviewer_email, timezone, weekly, overrides, blackouts }
+   * @throws {Error} If interviewer not found
+   */
+  async getForInterviewer(interviewerId) {
+    const interviewer = this.interviewerRepository.findById(interviewerId)
+    if (!interviewer) {
+      throw new Error('Interviewer not found')
+    }
+
+    return this._buildAvailability(interviewer, {
+      weekly: this.repository.findWindows(interviewer.id),
+      overrides: this.repository.findOverrides(interviewer.id),
+      blackouts: this.repository.findBlackouts(interviewer.id)
+    })
+  }
+
+  /**
+   * Get availability for every interviewer
+   * Used by the weekly calendars to shade unavailable hours
+   * @returns {Array}
+   */
+  async listAll() {
+    // LIMIT -1 disables the row limit in SQLite
+    const interviewers = this.interviewerRepository.findAll({ limit: -1 })
+    const groupByInterviewer = (rows) => rows.reduce((acc, row) => {
+      acc[row.interviewer_id] = [...(acc[row.interviewer_id] || []), row]
+      return acc
+    }, {})
+
+    const weekly = groupByInterviewer(this.repository.findWindows())
+    const overrides = groupByInterviewer(this.repository.findOverrides())
+    const blackouts = groupByInterviewer(this.repository.findBlackouts())
+
+    return interviewers.map(interviewer => this._buildAvailability(interviewer, {
+      weekly: weekly[interviewer.id] || [],
+      overrides: overrides[interviewer.id] || [],
+      blackouts: blackouts[interviewer.id] || []
+    }))
+  }
+
+  /**
+   * Replace an interviewer's availability
+   * @param {string} interviewerId
+   * @param {Object} data - { weekly, overrides?, blackouts? }
+   * @param {Object} auditContext
+   * @returns {Object} Updated availability
+   * @throws {Error} If interviewer not found or validation fails
+   */
+  async replace(interviewerId, data, auditContext = {}) {
+    const interviewer = this.interviewerRepository.findById(interviewerId)
+    if (!interviewer) {
+      throw new Error('Interviewer not found')
+    }
+
+    const weekly = data.weekly || []
+    const overrides = data.overrides || []
+    const blackouts = data.blackouts || []
+
+    const windows = [...weekly, ...overrides]
+    windows.forEach(window => {
+      if (timeToMinutes(window.start_time) >= timeToMinutes(window.end_time)) {
+        throw new Error('Window end time must be after start time')
+      }
+    })
+
+    blackouts.forEach(blackout => {
+      if (blackout.end_date < blackout.start_date) {
+        throw new Error('Blackout end date must not be before start date')
+      }
+    })
+
+    this.repository.replaceForInterviewer(interviewer.id, { weekly, overrides, blackouts })
+
+    this.auditLogger?.log({
+      action: 'UPDATE_INTERVIEWER_AVAILABILITY',
+      entityType: 'interviewer',
+      entityId: interviewer.id,
+      changes: {
+        weekly: weekly.length,
+        overrides: overrides.length,
+        blackouts: blackouts.length
+      },
+      userEmail: auditContext.userEmail,
+      userName: auditContext.userName
+    })
+
+    return this.getForInterviewer(interviewer.id)
+  }
+
+  /**
+   * Build the free/busy model for a date range
+   *
+   * Dates and times are wall-clock values in the interviewer's timezone.
+   * `available` is null when no weekly schedule is configured (unrestricted).
+   *
+   * @param {string} interviewerId
+   * @param {Object} range - { start_date, end_date } as YYYY-MM-DD
+   * @returns {Object} { interviewer_id, timezone, days: [...] }
+   * @throws {Error} If interviewer not found or range is invalid
+   */
+  async getFreeBusy(interviewerId, { start_date, end_date }) {
+    if (end_date < start_date) {
+      throw new Error('End date must not be before start date')
+    }
+
+    const availability = await this.getForInterviewer(interviewerId)
+    const timeZone = availability.timezone || 'UTC'
+
+    const dates = []
+    for (let date = start_date; date <= end_date; date = addDays(date, 1)) {
+      dates.push(date)
+      if (dates.length > MAX_FREE_BUSY_DAYS) {
+        throw new Error(`Date range must not exceed ${MAX_FREE_BUSY_DAYS} days`)
+      }
+    }
+
+    // Pad the UTC range by a day on each side to cover any timezone offset
+    const events = this.eventRepository
+      .findByInterviewerInRange(
+        availability.interviewer_email,
+        `${addDays(start_date, -1)}T00:00:00.000Z`,
+        `${addDays(end_date, 2)}T00:00:00.000Z`
+      )
+      .filter(event => event.status !== 'cancelled')
+
+    // An interview running past midnight (in the interviewer's zone) is
+    // busy on every day it touches: until 24:00, then from 00:00
+    const busyByDate = {}
+    events.forEach(event => {
+      const start = getZonedParts(event.start_time, timeZone)
+      const end = getZonedParts(event.end_time, timeZone)
+
+      for (let date = start.date; date <= end.date; date = addDays(date, 1)) {
+        const startTime = date === start.date ? start.time : '00:00'
+        const endTime = date === end.date ? end.time : '24:00'
+        if (startTime === endTime) continue // Ends exactly at midnight
+
+        if (!busyByDate[date]) {
+          busyByDate[date] = []
+        }
+
+        busyByDate[date].push({
+          event_id: event.id,
+          start_time: startTime,
+          end_time: endTime
+        })
+      }
+    })
+
+    const days = dates.map(date => {
+      const available = resolveWindowsForDate(availability, date)
+      const busy = busyByDate[date] || []
+
+      return {
+        date,
+        is_blackout: isBlackoutDate(availability, date),
+        available,
+        busy,
+        free: available ? this._subtractBusy(available, busy) : null
+      }
+    })
+
+    return {
+      interviewer_id: availability.interviewer_id,
+      timezone: timeZone,
+      days
+    }
+  }
+
+  /**
+   * Shape availability rows for API responses
+   * @private
+   */
+  _buildAvailability(interviewer, { weekly, overrides, blackouts }) {
+    return {
+      interviewer_id: interviewer.id,
+      interviewer_email: interviewer.email,
+      timezone: interviewer.timezone || null,
+      weekly: weekly.map(({ day_of_week, start_time, end_time }) => ({ day_of_week, start_time, end_time })),
+      overrides: overrides.map(({ date, start_time, end_time }) => ({ date, start_time, end_time })),
+      blackouts: blackouts.map(({ start_date, end_date, reason }) => ({ start_date, end_date, reason }))
+    }
+  }
+
+  /**
+   * Remove busy intervals from availability windows
+   * @private
+   */
+  _subtractBusy(windows, busy) {
+    const free = []
+
+    windows.forEach(window => {
+      let segments = [[timeToMinutes(window.start_time), timeToMinutes(window.end_time)]]
+
+      busy.forEach(interval => {
+        const busyStart = timeToMinutes(interval.start_time)
+        const busyEnd = timeToMinutes(interval.end_time)
+
+        segments = segments.flatMap(([start, end]) => {
+          if (busyEnd <= start || busyStart >= end) return [[start, end]]
+
+          const remaining = []
+          if (busyStart > start) remaining.push([start, busyStart])
+          if (busyEnd < end) remaining.push([busyEnd, end])
+          return remaining
+        })
+      })
+
+      segments.forEach(([start, end]) => {
+        free.push({ start_time: minutesToTime(start), end_time: minutesToTime(end) })
+      })
+    })
+
+    return free
+  }
+}
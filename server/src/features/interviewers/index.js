@@ -1,5 +1,10 @@
 import { InterviewerService } from './service.js'
+import { AvailabilityService } from './availability-service.js'
+import { MatchService } from './match-service.js'
+import config from '../../config/index.js'
 import routes from './routes.js'
+import availabilityRoutes from './availability-routes.js'
+import matchRoutes from './match-routes.js'
 
 /**
  * Interviewers feature plugin
@@ -7,11 +12,20 @@ import routes from './routes.js'
  * @param {Object} options
  */
 export default async function interviewersPlugin(fastify, _options) {
-  // Create service instance
-  const service = new InterviewerService(fastify.db, fastify.auditLogger)
+  // Create service instances
+  const service = new InterviewerService(fastify.db, fastify.auditLogger, {
+    reliabilityWindowDays: config.reliability.windowDays,
+    webhooks: fastify.webhooks
+  })
+  const availabilityService = new AvailabilityService(fastify.db, fastify.auditLogger)
+  const matchService = new MatchService(fastify.db, {
+    bufferMinutes: config.scheduling.bufferMinutes
+  })
 
-  // Register routes with service
+  // Register routes with services
   await fastify.register(routes, { prefix: '/interviewers', service })
+  await fastify.register(availabilityRoutes, { prefix: '/interviewers', availabilityService })
+  await fastify.register(matchRoutes, { prefix: '/interviewers', matchService })
 
   fastify.log.info('Interviewers feature registered')
 }
@@ -0,0 +1,34 @@
+import {
+  MatchQuerySchema,
+  InterviewerMatchSchema
+} from './schemas.js'
+
+/**
+ * Interviewer matching routes
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function matchRoutes(fastify, options) {
+  const service = options.matchService
+
+  // GET /api/interviewers/match - Ranked interviewers for a slot
+  fastify.get('/match', {
+    schema: {
+      description: 'Rank active interviewers for a slot by skill overlap, weekly load, ghost rate and availability',
+      tags: ['interviewers'],
+      querystring: MatchQuerySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: InterviewerMatchSchema }
+          }
+        }
+      }
+    },
+    preHandler: fastify.authenticate
+  }, async (request, _reply) => {
+    const data = await service.findMatches(request.query)
+    return { data }
+  })
+}
@@ -0,0 +1,235 @@
+import { InterviewerRepository } from './repository.js'
+import { AvailabilityRepository } from './availability-repository.js'
+import { resolveWindowsForDate, isBlackoutDate } from './availability-service.js'
+import { EventRepository } from '../events/repository.js'
+import { findConflicts, getCapWindow, getCapViolations } from '../events/slot-checks.js'
+import { getZonedParts, timeToMinutes } from '../../utils/time-zone.js'
+
+// Relative weight of each ranking signal (sums to 1)
+const WEIGHTS = {
+  skills: 0.5,
+  availability: 0.2,
+  load: 0.15,
+  reliability: 0.15
+}
+
+// Weekly interview count at which the load signal bottoms out
+const FULL_WEEK_LOAD = 10
+
+// Availability states that still allow booking the slot
+const BOOKABLE = ['available', 'unrestricted']
+
+/**
+ * Get the Monday 00:00 UTC that starts the week containing an instant
+ * @param {Date} instant
+ * @returns {Date}
+ */
+function getWeekStart(instant) {
+  const weekStart = new Date(Date.UTC(
+    instant.getUTCFullYear(),
+    instant.getUTCMonth(),
+    instant.getUTCDate()
+  ))
+  const daysSinceMonday = (weekStart.getUTCDay() + 6) % 7
+  weekStart.setUTCDate(weekStart.getUTCDate() - daysSinceMonday)
+  return weekStart
+}
+
+/**
+ * Group availability rows by interviewer ID
+ * @param {Array} rows
+ * @returns {Object}
+ */
+function groupByInterviewer(rows) {
+  return rows.reduce((acc, row) => {
+    acc[row.interviewer_id] = [...(acc[row.interviewer_id] || []), row]
+    return acc
+  }, {})
+}
+
+/**
+ * Match Service
+ * Ranks active interviewers for a slot by skills, load, ghost rate and availability
+ *
+ * A slot is only offered as bookable when event creation would accept it:
+ * the overlap (with the scheduling buffer) and interview cap rules are the
+ * ones EventService applies (see events/slot-checks.js).
+ */
+export class MatchService {
+  /**
+   * @param {Object} db
+   * @param {Object} options - { bufferMinutes }: minimum gap between interviews
+   */
+  constructor(db, options = {}) {
+    this.interviewerRepository = new InterviewerRepository(db)
+    this.availabilityRepository = new AvailabilityRepository(db)
+    this.eventRepository = new EventRepository(db)
+    this.bufferMinutes = options.bufferMinutes || 0
+  }
+
+  /**
+   * Find ranked interviewers for a slot
+   * Events and availability of all candidates are loaded in one query each
+   * @param {Object} query - { skills, start_time, duration_minutes, limit }
+   * @returns {Array} Matches ordered by score (best first)
+   */
+  async findMatches({ skills = '', start_time, duration_minutes = 60, limit = 10 }) {
+    const requiredSkills = skills
+      .split(',')
+      .map(skill => skill.trim())
+      .filter(Boolean)
+
+    const slotStart = new Date(start_time)
+    const slotEnd = new Date(slotStart.getTime() + duration_minutes * 60 * 1000)
+
+    const weekStart = getWeekStart(slotStart)
+    const weekEnd = new Date(weekStart.getTime() + 7 * 24 * 60 * 60 * 1000)
+    const stats = this.eventRepository.getLoadStatsByInterviewer(
+      weekStart.toISOString(),
+      weekEnd.toISOString()
+    )
+
+    // LIMIT -1 disables the row limit in SQLite
+    const candidates = this.interviewerRepository.findAll({ is_active: true, limit: -1 })
+      .map(interviewer => {
+        const normalizedSkills = interviewer.skills.map(skill => skill.toLowerCase())
+        const matchedSkills = requiredSkills.filter(skill =>
+          normalizedSkills.includes(skill.toLowerCase())
+        )
+        return { interviewer, matchedSkills }
+      })
+      // Interviewers without any requested skill are not useful matches
+      .filter(({ matchedSkills }) => requiredSkills.length === 0 || matchedSkills.length > 0)
+
+    const context = this._loadSlotContext(candidates.map(({ interviewer }) => interviewer), slotStart, slotEnd)
+
+    const matches = candidates.map(({ interviewer, matchedSkills }) => {
+      const missingSkills = requiredSkills.filter(skill => !matchedSkills.includes(skill))
+      const skillOverlap = requiredSkills.length > 0
+        ? matchedSkills.length / requiredSkills.length
+        : 1
+
+      const { load = 0, attended = 0, ghosted = 0 } = stats[interviewer.email] || {}
+      const marked = attended + ghosted
+      const ghostRate = marked > 0 ? ghosted / marked : null
+
+      const { availability, capWarnings } = this._getSlotAvailability(interviewer, slotStart, slotEnd, context)
+
+      const score =
+        WEIGHTS.skills * skillOverlap +
+        WEIGHTS.availability * (BOOKABLE.includes(availability) ? 1 : 0) +
+        WEIGHTS.load * (1 - Math.min(load / FULL_WEEK_LOAD, 1)) +
+        WEIGHTS.reliability * (1 - (ghostRate ?? 0))
+
+      return {
+        interviewer,
+        score: Math.round(score * 1000) / 1000,
+        matched_skills: matchedSkills,
+        missing_skills: missingSkills,
+        skill_overlap: Math.round(skillOverlap * 1000) / 1000,
+        week_load: load,
+        ghost_rate: ghostRate !== null ? Math.round(ghostRate * 1000) / 1000 : null,
+        availability,
+        cap_warnings: capWarnings
+      }
+    })
+
+    matches.sort((a, b) => b.score - a.score || a.week_load - b.week_load)
+
+    return matches.slice(0, limit)
+  }
+
+  /**
+   * Load what the availability check needs for every candidate at once
+   * Events cover the buffered slot and each timezone's cap week
+   * @private
+   * @param {Array} interviewers
+   * @param {Date} slotStart
+   * @param {Date} slotEnd
+   * @returns {Object} { events, weekly, overrides, blackouts } keyed by interviewer email/ID
+   */
+  _loadSlotContext(interviewers, slotStart, slotEnd) {
+    const bufferMs = this.bufferMinutes * 60 * 1000
+    const ranges = [...new Set(interviewers.map(interviewer => interviewer.timezone || 'UTC'))]
+      .map(timeZone => getCapWindow(slotStart, timeZone))
+    const rangeStart = [
+      new Date(slotStart.getTime() - bufferMs).toISOString(),
+      ...ranges.map(range => range.rangeStart)
+    ].sort()[0]
+    const rangeEnd = [
+      new Date(slotEnd.getTime() + bufferMs).toISOString(),
+      ...ranges.map(range => range.rangeEnd)
+    ].sort().at(-1)
+
+    return {
+      events: this.eventRepository.findByInterviewersInRange(
+        interviewers.map(interviewer => interviewer.email),
+        rangeStart,
+        rangeEnd
+      ),
+      weekly: groupByInterviewer(this.availabilityRepository.findWindows()),
+      overrides: groupByInterviewer(this.availabilityRepository.findOverrides()),
+      blackouts: groupByInterviewer(this.availabilityRepository.findBlackouts())
+    }
+  }
+
+  /**
+   * Classify an interviewer's availability for a slot
+   * Existing bookings (within the buffer) and caps take precedence over
+   * availability windows; caps in warn mode only add warnings
+   * @private
+   * @returns {Object} { availability: 'available'|'unrestricted'|'outside_window'|'blackout'|'busy'|'capped', capWarnings }
+   */
+  _getSlotAvailability(interviewer, slotStart, slotEnd, context) {
+    const events = context.events[interviewer.email] || []
+
+    if (findConflicts(events, slotStart, slotEnd, { bufferMinutes: this.bufferMinutes }).length > 0) {
+      return { availability: 'busy', capWarnings: [] }
+    }
+
+    const capViolations = getCapViolations(interviewer, events, slotStart)
+    if (capViolations.length > 0 && interviewer.cap_enforcement !== 'warn') {
+      return { availability: 'capped', capWarnings: [] }
+    }
+
+    const availability = {
+      weekly: context.weekly[interviewer.id] || [],
+      overrides: context.overrides[interviewer.id] || [],
+      blackouts: context.blackouts[interviewer.id] || []
+    }
+
+    return {
+      availability: this._getWindowAvailability(interviewer, availability, slotStart, slotEnd),
+      capWarnings: capViolations
+    }
+  }
+
+  /**
+   * Classify a slot against an interviewer's blackouts and availability windows
+   * @private
+   * @returns {'available'|'unrestricted'|'outside_window'|'blackout'}
+   */
+  _getWindowAvailability(interviewer, availability, slotStart, slotEnd) {
+    const timeZone = interviewer.timezone || 'UTC'
+    const start = getZonedParts(slotStart, timeZone)
+    const end = getZonedParts(slotEnd, timeZone)
+
+    if (isBlackoutDate(availability, start.date)) {
+      return 'blackout'
+    }
+
+    const windows = resolveWindowsForDate(availability, start.date)
+    if (windows === null) {
+      return 'unrestricted'
+    }
+
+    // Slots running past midnight never fit a single-day window
+    const endMinutes = end.date === start.date ? timeToMinutes(end.time) : 24 * 60
+    const fits = windows.some(window =>
+      timeToMinutes(window.start_time) <= timeToMinutes(start.time) &&
+      timeToMinutes(window.end_time) >= endMinutes
+    )
+
+    return fits ? 'available' : 'outside_window'
+  }
+}
@@ -0,0 +1,116 @@
+import { MatchService } from './match-service.js'
+import { AvailabilityRepository } from './availability-repository.js'
+import { EventService } from '../events/service.js'
+import { createTestDb, createInterviewer } from '../../test/helpers.js'
+
+const SLOT = { skills: 'React', start_time: '2026-03-04T10:00:00.000Z', duration_minutes: 60 }
+
+describe('MatchService', () => {
+  let db
+  let events
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    events = new EventService(db, null)
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  const book = (interviewer, start, end) =>
+    events.create({ interviewer_email: interviewer.email, start_time: start, end_time: end })
+
+  const matchFor = async (service, interviewer) =>
+    (await service.findMatches({ ...SLOT, limit: 50 }))
+      .find(match => match.interviewer.email === interviewer.email)
+
+  it('marks interviewers booked within the scheduling buffer as busy', async () => {
+    const service = new MatchService(db, { bufferMinutes: 15 })
+    const buffered = createInterviewer(db)
+    const clear = createInterviewer(db)
+    await book(buffered, '2026-03-04T09:00:00.000Z', '2026-03-04T09:50:00.000Z')
+    await book(clear, '2026-03-04T09:00:00.000Z', '2026-03-04T09:45:00.000Z')
+
+    expect((await matchFor(service, buffered)).availability).toBe('busy')
+    expect((await matchFor(service, clear)).availability).toBe('unrestricted')
+    // Without a buffer the same booking does not clash
+    expect((await matchFor(new MatchService(db), buffered)).availability).toBe('unrestricted')
+  })
+
+  it('does not offer interviewers whose cap blocks the slot', async () => {
+    const service = new MatchService(db)
+    const capped = createInterviewer(db, { max_interviews_per_week: 1 })
+    await book(capped, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z')
+
+    const match = await matchFor(service, capped)
+
+    expect(match).toMatchObject({ availability: 'capped', cap_warnings: [] })
+    await expect(
+      book(capped, SLOT.start_time, '2026-03-04T11:00:00.000Z')
+    ).rejects.toThrow('Weekly interview cap of 1')
+  })
+
+  it('keeps warn-mode interviewers bookable with the cap warning', async () => {
+    const service = new MatchService(db)
+    const warned = createInterviewer(db, { max_interviews_per_day: 1, cap_enforcement: 'warn' })
+    await book(warned, '2026-03-04T14:00:00.000Z', '2026-03-04T15:00:00.000Z')
+
+    const match = await matchFor(service, warned)
+
+    expect(match.availability).toBe('unrestricted')
+    expect(match.cap_warnings).toEqual([
+      `Daily interview cap of 1 reached for ${warned.email} on 2026-03-04`
+    ])
+  })
+
+  it('still classifies availability windows and blackouts', async () => {
+    const service = new MatchService(db)
+    const availability = new AvailabilityRepository(db)
+    const inWindow = createInterviewer(db)
+    const outside = createInterviewer(db)
+    const away = createInterviewer(db)
+    // 2026-03-04 is a Wednesday
+    availability.replaceForInterviewer(inWindow.id, {
+      weekly: [{ day_of_week: 3, start_time: '09:00', end_time: '12:00' }]
+    })
+    availability.replaceForInterviewer(outside.id, {
+      weekly: [{ day_of_week: 3, start_time: '13:00', end_time: '17:00' }]
+    })
+    availability.replaceForInterviewer(away.id, {
+      blackouts: [{ start_date: '2026-03-02', end_date: '2026-03-06' }]
+    })
+
+    expect((await matchFor(service, inWindow)).availability).toBe('available')
+    expect((await matchFor(service, outside)).availability).toBe('outside_window')
+    expect((await matchFor(service, away)).availability).toBe('blackout')
+  })
+
+  it('runs the same number of queries however many interviewers match', async () => {
+    const service = new MatchService(db)
+    const countQueries = async () => {
+      const prepare = db.prepare.bind(db)
+      let queries = 0
+      db.prepare = sql => {
+        queries++
+        return prepare(sql)
+      }
+      try {
+        await service.findMatches(SLOT)
+      } finally {
+        db.prepare = prepare
+      }
+      return queries
+    }
+
+    createInterviewer(db)
+    const few = await countQueries()
+    for (let i = 0; i < 5; i++) {
+      const interviewer = createInterviewer(db, { max_interviews_per_day: 3 })
+      await book(interviewer, '2026-03-04T08:00:00.000Z', '2026-03-04T09:00:00.000Z')
+    }
+    const many = await countQueries()
+
+    expect(many).toBe(few)
+  })
+})
@@ -1,3 +1,14 @@
+import { reliabilityStatsQuery } from '../analytics/reliability-repository.js'
+
+// Sortable list columns (query value → SQL column)
+const SORT_COLUMNS = {
+  name: 'name COLLATE NOCASE',
+  email: 'email',
+  role: 'role',
+  created_at: 'created_at',
+  reliability: 'r.score'
+}
+
 /**
  * Interviewer Repository
  * Data access layer for interviewers table
@@ -8,36 +19,26 @@ export class InterviewerRepository {
   }
 
   /**
-   * Find all interviewers with optional filters
+   * Find all interviewers with optional filters, sorting and pagination
    * @param {Object} filters
    * @returns {Array}
    */
   findAll(filters = {}) {
-    const { role, is_active, search, limit = 50, offset = 0 } = filters
-
-    let sql = 'SELECT * FROM interviewers WHERE 1=1'
-    const params = []
+    const { sort = 'created_at', order = 'desc', limit = 50, offset = 0 } = filters
+    const { where, params } = this._buildWhere(filters)
 
-    if (role) {
-      sql += ' AND role = ?'
-      params.push(role)
-    }
+    // id keeps pages stable when sort values tie
+    const column = SORT_COLUMNS[sort] ?? SORT_COLUMNS.created_at
+    const direction = order === 'asc' ? 'ASC' : 'DESC'
 
-    if (typeof is_active === 'boolean') {
-      sql += ' AND is_active = ?'
-      params.push(is_active ? 1 : 0)
-    }
+    // Reliability sorts by the report's score over filters.reliability_window;
+    // interviewers without a scored interview go last either way
+    const stats = sort === 'reliability' ? reliabilityStatsQuery(filters.reliability_window) : null
+    const join = stats ? `LEFT JOIN (${stats.sql}) r ON r.interviewer_email = interviewers.email` : ''
+    const sql = `SELECT interviewers.* FROM interviewers ${join} WHERE ${where}
+      ORDER BY ${stats ? 'r.score IS NULL, ' : ''}${column} ${direction}, id ASC LIMIT ? OFFSET ?`
 
-    if (search) {
-      sql += ' AND (name LIKE ? OR email LIKE ? OR skills LIKE ?)'
-      const searchPattern = `%${search}%`
-      params.push(searchPattern, searchPattern, searchPattern)
-    }
-
-    sql += ' ORDER BY created_at DESC LIMIT ? OFFSET ?'
-    params.push(limit, offset)
-
-    const rows = this.db.prepare(sql).all(...params)
+    const rows = this.db.prepare(sql).all(...(stats?.params ?? []), ...params, limit, offset)
 
     // Parse JSON fields
     return rows.map(row => ({
@@ -94,9 +95,10 @@ export class InterviewerRepository {
     const stmt = this.db.prepare(`
       INSERT INTO interviewers (
         id, name, email, role, skills, is_active,
-        calendar_sync_enabled, timezone, created_by
+        calendar_sync_enabled, timezone, max_interviews_per_day,
+        max_interviews_per_week, cap_enforcement, created_by
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `)
 
     stmt.run(
@@ -108,6 +110,9 @@ export class InterviewerRepository {
       data.is_active ? 1 : 0,
       data.calendar_sync_enabled ? 1 : 0,
       data.timezone || null,
+      data.max_interviews_per_day ?? null,
+      data.max_interviews_per_week ?? null,
+      data.cap_enforcement || 'block',
       auditContext?.userEmail || null
     )
 
@@ -126,7 +131,10 @@ export class InterviewerRepository {
     const values = []
 
     // Build dynamic UPDATE query
-    const allowedFields = ['name', 'email', 'role', 'skills', 'is_active', 'calendar_sync_enabled', 'timezone']
+    const allowedFields = [
+      'name', 'email', 'role', 'skills', 'is_active', 'calendar_sync_enabled', 'timezone',
+      'max_interviews_per_day', 'max_interviews_per_week', 'cap_enforcement'
+    ]
 
     allowedFields.forEach(field => {
       if (data[field] !== undefined) {
@@ -176,28 +184,56 @@ export class InterviewerRepository {
    * @returns {number}
    */
   count(filters = {}) {
+    const { where, params } = this._buildWhere(filters)
+    const result = this.db.prepare(`SELECT COUNT(*) as count FROM interviewers WHERE ${where}`).get(...params)
+    return result.count
+  }
+
+  /**
+   * Roster totals: all, active and distinct skills
+   * @returns {{ total: number, active: number, skills: number }}
+   */
+  getStats() {
+    const totals = this.db.prepare(`
+      SELECT COUNT(*) as total, COALESCE(SUM(is_active), 0) as active
+      FROM interviewers
+    `).get()
+    const skills = this.db.prepare(`
+      SELECT COUNT(DISTINCT skill.value) as count
+      FROM interviewers, json_each(interviewers.skills) as skill
+    `).get()
+
+    return { total: totals.total, active: totals.active, skills: skills.count }
+  }
+
+  /**
+   * Build the WHERE clause shared by list and count queries
+   * @param {Object} filters
+   * @returns {{ where: string, params: Array }}
+   * @private
+   */
+  _buildWhere(filters) {
     const { role, is_active, search } = filters
 
-    let sql = 'SELECT COUNT(*) as count FROM interviewers WHERE 1=1'
+    const conditions = ['1=1']
     const params = []
 
     if (role) {
-      sql += ' AND role = ?'
+      conditions.push('role = ?')
       params.push(role)
     }
 
     if (typeof is_active === 'boolean') {
-      sql += ' AND is_active = ?'
+      conditions.push('is_active = ?')
       params.push(is_active ? 1 : 0)
     }
 
     if (search) {
-      sql += ' AND (name LIKE ? OR email LIKE ? OR skills LIKE ?)'
+      conditions.push('(name LIKE ? OR email LIKE ? OR skills LIKE ?)')
       const searchPattern = `%${search}%`
       params.push(searchPattern, searchPattern, searchPattern)
     }
 
-    const result = this.db.prepare(sql).get(...params)
-    return result.count
+    return { where: conditions.join(' AND '), params }
   }
 }
@@ -4,6 +4,7 @@ import {
   UpdateInterviewerSchema,
   ListInterviewersQuerySchema,
   InterviewerIdParamSchema,
+  InterviewerStatsSchema,
   ErrorSchema
 } from './schemas.js'
 
@@ -45,6 +46,20 @@ export default async function interviewerRoutes(fastify, options) {
     return result
   })
 
+  // GET /api/interviewers/stats - Roster totals
+  fastify.get('/stats', {
+    schema: {
+      description: 'Get roster totals: interviewers, active and distinct skills',
+      tags: ['interviewers'],
+      response: {
+        200: InterviewerStatsSchema
+      }
+    },
+    preHandler: fastify.authenticate
+  }, async (_request, _reply) => {
+    return service.getStats()
+  })
+
   // GET /api/interviewers/:id - Get interviewer by ID
   fastify.get('/:id', {
     schema: {
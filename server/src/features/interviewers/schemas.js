@@ -7,6 +7,12 @@ export const RoleEnum = Type.Union([
   Type.Literal('admin')
 ])
 
+// What happens when a new event would exceed an interview cap
+export const CapEnforcementEnum = Type.Union([
+  Type.Literal('block'),
+  Type.Literal('warn')
+])
+
 // Base interviewer schema
 export const InterviewerSchema = Type.Object({
   id: Type.String(),
@@ -17,6 +23,9 @@ export const InterviewerSchema = Type.Object({
   is_active: Type.Boolean(),
   calendar_sync_enabled: Type.Boolean(),
   timezone: Type.Optional(Type.String()),
+  max_interviews_per_day: Type.Union([Type.Integer(), Type.Null()]),
+  max_interviews_per_week: Type.Union([Type.Integer(), Type.Null()]),
+  cap_enforcement: CapEnforcementEnum,
   calendar_sync_consent_at: Type.Union([Type.String({ format: 'date-time' }), Type.Null()]),
   last_synced_at: Type.Union([Type.String({ format: 'date-time' }), Type.Null()]),
   created_by: Type.Optional(Type.String()),
@@ -34,7 +43,10 @@ export const CreateInterviewerSchema = Type.Object({
   skills: Type.Array(Type.String(), { minItems: 0 }),
   is_active: Type.Optional(Type.Boolean({ default: true })),
   calendar_sync_enabled: Type.Optional(Type.Boolean({ default: false })),
-  timezone: Type.Optional(Type.String())
+  timezone: Type.Optional(Type.String()),
+  max_interviews_per_day: Type.Optional(Type.Union([Type.Integer({ minimum: 1 }), Type.Null()])),
+  max_interviews_per_week: Type.Optional(Type.Union([Type.Integer({ minimum: 1 }), Type.Null()])),
+  cap_enforcement: Type.Optional(CapEnforcementEnum)
 })
 
 // Update interviewer request
@@ -45,10 +57,25 @@ export const ListInterviewersQuerySchema = Type.Object({
   role: Type.Optional(RoleEnum),
   is_active: Type.Optional(Type.Boolean()),
   search: Type.Optional(Type.String()),
+  sort: Type.Optional(Type.Union([
+    Type.Literal('name'),
+    Type.Literal('email'),
+    Type.Literal('role'),
+    Type.Literal('created_at'),
+    Type.Literal('reliability') // Reliability score over the rolling window
+  ], { default: 'created_at' })),
+  order: Type.Optional(Type.Union([Type.Literal('asc'), Type.Literal('desc')], { default: 'desc' })),
   limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
   offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 }))
 })
 
+// Roster totals
+export const InterviewerStatsSchema = Type.Object({
+  total: Type.Integer(),
+  active: Type.Integer(),
+  skills: Type.Integer() // Distinct skills across the roster
+})
+
 // ID parameter
 export const InterviewerIdParamSchema = Type.Object({
   id: Type.String()
@@ -60,3 +87,107 @@ export const ErrorSchema = Type.Object({
   message: Type.String(),
   statusCode: Type.Optional(Type.Integer())
 })
+
+// Wall-clock time of day (HH:MM, 24:00 allowed as end of day)
+export const TimeOfDaySchema = Type.String({
+  pattern: '^(([01][0-9]|2[0-3]):[0-5][0-9]|24:00)$'
+})
+
+// Time interval within a day
+export const TimeIntervalSchema = Type.Object({
+  start_time: TimeOfDaySchema,
+  end_time: TimeOfDaySchema
+})
+
+// Recurring weekly availability window (0 = Sunday ... 6 = Saturday)
+export const AvailabilityWindowSchema = Type.Object({
+  day_of_week: Type.Integer({ minimum: 0, maximum: 6 }),
+  start_time: TimeOfDaySchema,
+  end_time: TimeOfDaySchema
+})
+
+// Date-specific override (replaces weekly windows for that date)
+export const AvailabilityOverrideSchema = Type.Object({
+  date: Type.String({ format: 'date' }),
+  start_time: TimeOfDaySchema,
+  end_time: TimeOfDaySchema
+})
+
+// Blackout date range (inclusive)
+export const AvailabilityBlackoutSchema = Type.Object({
+  start_date: Type.String({ format: 'date' }),
+  end_date: Type.String({ format: 'date' }),
+  reason: Type.Optional(Type.Union([Type.String({ maxLength: 255 }), Type.Null()]))
+})
+
+// Full availability for one interviewer
+export const InterviewerAvailabilitySchema = Type.Object({
+  interviewer_id: Type.String(),
+  interviewer_email: Type.String({ format: 'email' }),
+  timezone: Type.Union([Type.String(), Type.Null()]),
+  weekly: Type.Array(AvailabilityWindowSchema),
+  overrides: Type.Array(AvailabilityOverrideSchema),
+  blackouts: Type.Array(AvailabilityBlackoutSchema)
+})
+
+// Replace availability request
+export const UpdateAvailabilitySchema = Type.Object({
+  weekly: Type.Array(AvailabilityWindowSchema),
+  overrides: Type.Optional(Type.Array(AvailabilityOverrideSchema)),
+  blackouts: Type.Optional(Type.Array(AvailabilityBlackoutSchema))
+})
+
+// Query parameters for free/busy
+export const FreeBusyQuerySchema = Type.Object({
+  start_date: Type.String({ format: 'date' }),
+  end_date: Type.String({ format: 'date' })
+})
+
+// Free/busy response
+export const FreeBusySchema = Type.Object({
+  interviewer_id: Type.String(),
+  timezone: Type.String(),
+  days: Type.Array(Type.Object({
+    date: Type.String({ format: 'date' }),
+    is_blackout: Type.Boolean(),
+    available: Type.Union([Type.Array(TimeIntervalSchema), Type.Null()]),
+    busy: Type.Array(Type.Object({
+      event_id: Type.String(),
+      start_time: TimeOfDaySchema,
+      end_time: TimeOfDaySchema
+    })),
+    free: Type.Union([Type.Array(TimeIntervalSchema), Type.Null()])
+  }))
+})
+
+// Query parameters for interviewer matching
+export const MatchQuerySchema = Type.Object({
+  skills: Type.Optional(Type.String({ description: 'Comma-separated required skills' })),
+  start_time: Type.String({ format: 'date-time' }),
+  duration_minutes: Type.Optional(Type.Integer({ minimum: 15, maximum: 480, default: 60 })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 50, default: 10 }))
+})
+
+// Availability of an interviewer for the requested slot
+export const SlotAvailabilityEnum = Type.Union([
+  Type.Literal('available'),
+  Type.Literal('unrestricted'),
+  Type.Literal('outside_window'),
+  Type.Literal('blackout'),
+  Type.Literal('busy'),
+  Type.Literal('capped')
+])
+
+// Ranked interviewer match
+export const InterviewerMatchSchema = Type.Object({
+  interviewer: InterviewerSchema,
+  score: Type.Number(),
+  matched_skills: Type.Array(Type.String()),
+  missing_skills: Type.Array(Type.String()),
+  skill_overlap: Type.Number(),
+  week_load: Type.Integer(),
+  ghost_rate: Type.Union([Type.Number(), Type.Null()]),
+  availability: SlotAvailabilityEnum,
+  // Caps the slot would exceed for an interviewer in warn mode
+  cap_warnings: Type.Array(Type.String())
+})
@@ -1,14 +1,23 @@
 import { nanoid } from 'nanoid'
 import { InterviewerRepository } from './repository.js'
+import { getReliabilityWindow } from '../analytics/reliability-service.js'
 
 /**
  * Interviewer Service
  * Business logic layer
  */
 export class InterviewerService {
-  constructor(db, auditLogger) {
+  /**
+   * @param {Object} db
+   * @param {Object} auditLogger
+   * @param {Object} options - { reliabilityWindowDays, webhooks }: window for
+   *   sorting by reliability, and the webhook service told about changes
+   */
+  constructor(db, auditLogger, options = {}) {
     this.repository = new InterviewerRepository(db)
     this.auditLogger = auditLogger
+    this.reliabilityWindowDays = options.reliabilityWindowDays ?? 90
+    this.webhooks = options.webhooks
   }
 
   /**
@@ -21,6 +30,11 @@ export class InterviewerService {
       role: query.role,
       is_active: query.is_active,
       search: query.search,
+      sort: query.sort,
+      order: query.order,
+      reliability_window: query.sort === 'reliability'
+        ? getReliabilityWindow(this.reliabilityWindowDays)
+        : undefined,
       limit: query.limit || 50,
       offset: query.offset || 0
     }
@@ -39,6 +53,14 @@ export class InterviewerService {
     }
   }
 
+  /**
+   * Get roster totals (all interviewers, active, distinct skills)
+   * @returns {Object}
+   */
+  async getStats() {
+    return this.repository.getStats()
+  }
+
   /**
    * Get interviewer by ID
    * @param {string} id
@@ -80,6 +102,8 @@ export class InterviewerService {
       userName: auditContext?.userName
     })
 
+    this.webhooks?.dispatch('interviewer.created', { interviewer: created }, auditContext)
+
     return created
   }
 
@@ -117,6 +141,8 @@ export class InterviewerService {
         userEmail: auditContext?.userEmail,
         userName: auditContext?.userName
       })
+
+      this.webhooks?.dispatch('interviewer.updated', { interviewer: updated, changes }, auditContext)
     }
 
     return updated
@@ -146,6 +172,8 @@ export class InterviewerService {
         userEmail: auditContext?.userEmail,
         userName: auditContext?.userName
       })
+
+      this.webhooks?.dispatch('interviewer.deleted', { interviewer: existing }, auditContext)
     }
 
     return deleted
@@ -0,0 +1,22 @@
+import { LoopService } from './service.js'
+import config from '../../config/index.js'
+import routes from './routes.js'
+
+/**
+ * Interview loops feature plugin
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function loopsPlugin(fastify, _options) {
+  // Create service instance (shares the event overlap buffer)
+  const service = new LoopService(fastify.db, fastify.auditLogger, {
+    bufferMinutes: config.scheduling.bufferMinutes,
+    notifier: fastify.notifier,
+    webhooks: fastify.webhooks
+  })
+
+  // Register routes with service
+  await fastify.register(routes, { prefix: '/loops', service })
+
+  fastify.log.info('Loops feature registered')
+}
@@ -0,0 +1,149 @@
+/**
+ * Loop Repository
+ * Data access layer for interview_loops table
+ */
+export class LoopRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Find all loops with optional filtering
+   * Includes the candidate name and per-status event counts for list views
+   * @param {Object} filters
+   * @returns {Array}
+   */
+  findAll(filters = {}) {
+    const { candidate_id, status, limit = 50, offset = 0 } = filters
+
+    let sql = `
+      SELECT l.*, c.name as candidate_name,
+        (SELECT COUNT(*) FROM interview_events e WHERE e.loop_id = l.id) as event_count,
+        (SELECT COUNT(*) FROM interview_events e
+          WHERE e.loop_id = l.id AND e.status IN ('attended', 'ghosted')) as completed_count,
+        (SELECT MIN(e.start_time) FROM interview_events e WHERE e.loop_id = l.id) as start_time
+      FROM interview_loops l
+      JOIN candidates c ON c.id = l.candidate_id
+      WHERE 1=1
+    `
+    const params = []
+
+    if (candidate_id) {
+      sql += ' AND l.candidate_id = ?'
+      params.push(candidate_id)
+    }
+
+    if (status) {
+      sql += ' AND l.status = ?'
+      params.push(status)
+    }
+
+    sql += ' ORDER BY start_time DESC, l.created_at DESC LIMIT ? OFFSET ?'
+    params.push(limit, offset)
+
+    return this.db.prepare(sql).all(...params)
+  }
+
+  /**
+   * Count loops matching filters
+   * @param {Object} filters
+   * @returns {number}
+   */
+  count(filters = {}) {
+    const { candidate_id, status } = filters
+
+    let sql = 'SELECT COUNT(*) as count FROM interview_loops WHERE 1=1'
+    const params = []
+
+    if (candidate_id) {
+      sql += ' AND candidate_id = ?'
+      params.push(candidate_id)
+    }
+
+    if (status) {
+      sql += ' AND status = ?'
+      params.push(status)
+    }
+
+    return this.db.prepare(sql).get(...params).count
+  }
+
+  /**
+   * Find loop by ID
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  findById(id) {
+    const sql = `
+      SELECT l.*, c.name as candidate_name
+      FROM interview_loops l
+      JOIN candidates c ON c.id = l.candidate_id
+      WHERE l.id = ?
+    `
+    return this.db.prepare(sql).get(id) || null
+  }
+
+  /**
+   * Create new loop
+   * @param {Object} data
+   * @param {Object} auditContext
+   * @returns {Object}
+   */
+  create(data, auditContext) {
+    this.db.prepare(`
+      INSERT INTO interview_loops (id, candidate_id, position_id, position, status, notes, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      data.id,
+      data.candidate_id,
+      data.position_id || null,
+      data.position || null,
+      data.status || 'scheduled',
+      data.notes || null,
+      auditContext?.userEmail || null
+    )
+
+    return this.findById(data.id)
+  }
+
+  /**
+   * Update loop
+   * @param {string} id
+   * @param {Object} data
+   * @returns {Object|null}
+   */
+  update(id, data) {
+    const fields = []
+    const values = []
+
+    const allowedFields = ['position', 'status', 'notes']
+
+    allowedFields.forEach(field => {
+      if (data[field] !== undefined) {
+        fields.push(`${field} = ?`)
+        values.push(data[field])
+      }
+    })
+
+    if (fields.length === 0) {
+      return this.findById(id)
+    }
+
+    fields.push('updated_at = datetime(\'now\')')
+    values.push(id)
+
+    this.db.prepare(`UPDATE interview_loops SET ${fields.join(', ')} WHERE id = ?`).run(...values)
+
+    return this.findById(id)
+  }
+
+  /**
+   * Delete loop
+   * @param {string} id
+   * @returns {boolean}
+   */
+  delete(id) {
+    const result = this.db.prepare('DELETE FROM interview_loops WHERE id = ?').run(id)
+    return result.changes > 0
+  }
+}
@@ -0,0 +1,176 @@
+import {
+  LoopSchema,
+  CreateLoopSchema,
+  UpdateLoopSchema,
+  ListLoopsQuerySchema,
+  LoopIdParamSchema,
+  ErrorSchema
+} from './schemas.js'
+import { EventConflictResponseSchema } from '../events/schemas.js'
+
+/**
+ * Interview loop routes
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function loopRoutes(fastify, options) {
+  const service = options.service
+
+  // GET /api/loops - List all loops
+  fastify.get('/', {
+    schema: {
+      description: 'List interview loops with optional filtering',
+      tags: ['loops'],
+      querystring: ListLoopsQuerySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: LoopSchema },
+            pagination: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer' },
+                limit: { type: 'integer' },
+                offset: { type: 'integer' },
+                hasMore: { type: 'boolean' }
+              }
+            }
+          }
+        }
+      }
+    },
+    preHandler: fastify.authenticate
+  }, async (request, _reply) => {
+    const result = await service.list(request.query)
+    return result
+  })
+
+  // GET /api/loops/:id - Get loop with its events
+  fastify.get('/:id', {
+    schema: {
+      description: 'Get interview loop by ID with its events in stage order',
+      tags: ['loops'],
+      params: LoopIdParamSchema,
+      response: {
+        200: LoopSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authenticate
+  }, async (request, reply) => {
+    const loop = await service.getById(request.params.id)
+
+    if (!loop) {
+      return reply.notFound('Loop not found')
+    }
+
+    return loop
+  })
+
+  // POST /api/loops - Create loop and schedule its stages
+  fastify.post('/', {
+    schema: {
+      description: 'Create an interview loop and schedule all of its stages in one transaction',
+      tags: ['loops'],
+      body: CreateLoopSchema,
+      response: {
+        201: LoopSchema,
+        400: ErrorSchema,
+        403: ErrorSchema,
+        409: EventConflictResponseSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin', 'talent'])
+  }, async (request, reply) => {
+    try {
+      const auditContext = {
+        userEmail: request.user.email,
+        userName: request.user.name
+      }
+
+      const loop = await service.create(request.body, auditContext)
+
+      reply.code(201)
+      return loop
+    } catch (error) {
+      if (error.code === 'EVENT_OVERLAP') {
+        reply.code(409)
+        return {
+          error: 'Conflict',
+          message: error.message,
+          buffer_minutes: error.bufferMinutes,
+          conflicts: error.conflicts
+        }
+      }
+      if (error.message.includes('interview cap')) {
+        return reply.conflict(error.message)
+      }
+      if (
+        error.message.includes('not found') ||
+        error.message.includes('time') ||
+        error.message === 'Position is closed'
+      ) {
+        return reply.badRequest(error.message)
+      }
+      throw error
+    }
+  })
+
+  // PUT /api/loops/:id - Update loop details or status
+  fastify.put('/:id', {
+    schema: {
+      description: 'Update an interview loop (cancelling also cancels its pending interviews)',
+      tags: ['loops'],
+      params: LoopIdParamSchema,
+      body: UpdateLoopSchema,
+      response: {
+        200: LoopSchema,
+        404: ErrorSchema,
+        403: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin', 'talent'])
+  }, async (request, reply) => {
+    const auditContext = {
+      userEmail: request.user.email,
+      userName: request.user.name
+    }
+
+    const loop = await service.update(request.params.id, request.body, auditContext)
+
+    if (!loop) {
+      return reply.notFound('Loop not found')
+    }
+
+    return loop
+  })
+
+  // DELETE /api/loops/:id - Delete loop and its events
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Delete an interview loop together with its interviews',
+      tags: ['loops'],
+      params: LoopIdParamSchema,
+      response: {
+        204: { type: 'null', description: 'No content' },
+        404: ErrorSchema,
+        403: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    const auditContext = {
+      userEmail: request.user.email,
+      userName: request.user.name
+    }
+
+    const deleted = await service.delete(request.params.id, auditContext)
+
+    if (!deleted) {
+      return reply.notFound('Loop not found')
+    }
+
+    reply.code(204)
+  })
+}
@@ -0,0 +1,80 @@
+import { Type } from '@sinclair/typebox'
+import { EventSchema } from '../events/schemas.js'
+
+/**
+ * Loop Status Enum
+ * Matches the database CHECK constraint
+ */
+export const LoopStatusEnum = Type.Union([
+  Type.Literal('scheduled'),
+  Type.Literal('in_progress'),
+  Type.Literal('completed'),
+  Type.Literal('cancelled')
+])
+
+// Base loop schema
+export const LoopSchema = Type.Object({
+  id: Type.String(),
+  candidate_id: Type.String(),
+  candidate_name: Type.String(),
+  position_id: Type.Union([Type.String(), Type.Null()]),
+  position: Type.Union([Type.String(), Type.Null()]),
+  status: LoopStatusEnum,
+  notes: Type.Union([Type.String(), Type.Null()]),
+  created_by: Type.Union([Type.String(), Type.Null()]),
+  created_at: Type.String(),
+  updated_at: Type.String(),
+  // Only present in list responses
+  event_count: Type.Optional(Type.Integer()),
+  completed_count: Type.Optional(Type.Integer()),
+  start_time: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+  // Only present in single-loop responses
+  events: Type.Optional(Type.Array(EventSchema)),
+  // Interview cap warnings, only present on create responses
+  warnings: Type.Optional(Type.Array(Type.String()))
+})
+
+// One interview in a new loop
+export const LoopStageSchema = Type.Object({
+  interviewer_email: Type.String({ format: 'email' }),
+  start_time: Type.String({ format: 'date-time' }),
+  end_time: Type.String({ format: 'date-time' }),
+  skills_assessed: Type.Optional(Type.Array(Type.String())),
+  notes: Type.Optional(Type.String())
+})
+
+// Create loop request
+export const CreateLoopSchema = Type.Object({
+  candidate_id: Type.String(),
+  position_id: Type.Optional(Type.String()),
+  position: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
+  notes: Type.Optional(Type.String()),
+  stages: Type.Array(LoopStageSchema, { minItems: 1, maxItems: 10 })
+})
+
+// Update loop request
+export const UpdateLoopSchema = Type.Object({
+  position: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
+  status: Type.Optional(LoopStatusEnum),
+  notes: Type.Optional(Type.String())
+})
+
+// Query parameters for list
+export const ListLoopsQuerySchema = Type.Object({
+  candidate_id: Type.Optional(Type.String()),
+  status: Type.Optional(LoopStatusEnum),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 }))
+})
+
+// ID parameter
+export const LoopIdParamSchema = Type.Object({
+  id: Type.String()
+})
+
+// Error response
+export const ErrorSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+  statusCode: Type.Optional(Type.Integer())
+})
@@ -0,0 +1,305 @@
+import { nanoid } from 'nanoid'
+import { LoopRepository } from './repository.js'
+import { EventRepository } from '../events/repository.js'
+import { EventService } from '../events/service.js'
+import { CandidateRepository } from '../candidates/repository.js'
+import { InterviewerRepository } from '../interviewers/repository.js'
+import { PositionRepository } from '../positions/repository.js'
+
+// Event statuses that no longer change when a loop is cancelled
+const FINAL_EVENT_STATUSES = ['attended', 'ghosted', 'cancelled']
+
+/**
+ * Loop Service
+ * Schedules and tracks interview loops (panels) for a candidate
+ */
+export class LoopService {
+  /**
+   * @param {Object} db
+   * @param {Object} auditLogger
+   * @param {Object} options - { bufferMinutes, notifier, webhooks }: passed
+   *   to the event checks, the notification service told about assigned and
+   *   cancelled stages, and the webhook service told about every stage change
+   */
+  constructor(db, auditLogger, options = {}) {
+    this.db = db
+    this.repository = new LoopRepository(db)
+    this.eventRepository = new EventRepository(db)
+    this.eventService = new EventService(db, null, options)
+    this.candidateRepository = new CandidateRepository(db)
+    this.interviewerRepository = new InterviewerRepository(db)
+    this.positionRepository = new PositionRepository(db)
+    this.auditLogger = auditLogger
+    this.notifier = options.notifier
+    this.webhooks = options.webhooks
+  }
+
+  /**
+   * List loops with pagination
+   * @param {Object} query
+   * @returns {Object} { data, pagination }
+   */
+  async list(query) {
+    const filters = {
+      candidate_id: query.candidate_id,
+      status: query.status,
+      limit: query.limit || 50,
+      offset: query.offset || 0
+    }
+
+    const loops = this.repository.findAll(filters)
+    const total = this.repository.count(filters)
+
+    return {
+      data: loops,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset,
+        hasMore: filters.offset + filters.limit < total
+      }
+    }
+  }
+
+  /**
+   * Get loop by ID with its events in stage order
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  async getById(id) {
+    const loop = this.repository.findById(id)
+    if (!loop) {
+      return null
+    }
+
+    return { ...loop, events: this.eventRepository.findByLoop(id) }
+  }
+
+  /**
+   * Create a loop and schedule all of its stages
+   * Stages are created in the given order inside one transaction, so a
+   * clash or blocked cap on any stage leaves nothing behind
+   * @param {Object} data - { candidate_id, position_id, position, notes, stages }
+   * @param {Object} auditContext
+   * @returns {Object} Loop with its events (and `warnings` from warn-mode caps)
+   * @throws {Error} If the candidate, position or a stage's interviewer does not
+   *   exist, the position is closed, a stage has an invalid time range, overlaps another interview (code EVENT_OVERLAP) or is
+   *   blocked by an interview cap
+   */
+  async create(data, auditContext = {}) {
+    const candidate = this.candidateRepository.findById(data.candidate_id)
+    if (!candidate) {
+      throw new Error('Candidate not found')
+    }
+
+    data.stages.forEach((stage, index) => {
+      if (new Date(stage.start_time) >= new Date(stage.end_time)) {
+        throw new Error(`Stage ${index + 1}: end time must be after start time`)
+      }
+      if (!this.interviewerRepository.findByEmail(stage.interviewer_email)) {
+        throw new Error(`Stage ${index + 1}: interviewer not found`)
+      }
+    })
+
+    let positionId = null
+    let position = data.position || candidate.position
+    if (data.position_id) {
+      const record = this.positionRepository.findById(data.position_id)
+      if (!record) {
+        throw new Error('Position not found')
+      }
+      if (record.status === 'closed') {
+        throw new Error('Position is closed')
+      }
+      positionId = record.id
+      position = record.title
+    }
+
+    const loopId = nanoid()
+    // Cap warnings of each stage, in stage order
+    const stageWarnings = []
+
+    const scheduleLoop = this.db.transaction(() => {
+      this.repository.create({
+        id: loopId,
+        candidate_id: candidate.id,
+        position_id: positionId,
+        position,
+        notes: data.notes
+      }, auditContext)
+
+      return data.stages.map((stage, index) => {
+        // Earlier stages are already inserted, so stages also clash with each other
+        try {
+          stageWarnings.push(this.eventService.checkSlot(stage))
+        } catch (error) {
+          error.message = `Stage ${index + 1}: ${error.message}`
+          throw error
+        }
+
+        return this.eventRepository.create({
+          id: nanoid(),
+          interviewer_email: stage.interviewer_email,
+          start_time: stage.start_time,
+          end_time: stage.end_time,
+          skills_assessed: stage.skills_assessed,
+          notes: stage.notes,
+          duration_minutes: Math.round(
+            (new Date(stage.end_time) - new Date(stage.start_time)) / 60000
+          ),
+          candidate_id: candidate.id,
+          candidate_name: candidate.name,
+          position_id: positionId,
+          position,
+          status: 'pending',
+          loop_id: loopId,
+          loop_stage: index + 1
+        }, auditContext)
+      })
+    })
+
+    const events = scheduleLoop()
+    const warnings = stageWarnings.flat()
+    this.notifier?.notifyEventsAssigned(events, auditContext)
+    events.forEach(event => {
+      this.webhooks?.dispatch('event.created', { event }, auditContext)
+    })
+
+    this.auditLogger?.log({
+      action: 'CREATE_LOOP',
+      entityType: 'loop',
+      entityId: loopId,
+      changes: {
+        created: true,
+        candidate_id: candidate.id,
+        event_ids: events.map(event => event.id),
+        ...(warnings.length > 0 && { cap_warnings: warnings })
+      },
+      userEmail: auditContext.userEmail,
+      userName: auditContext.userName
+    })
+
+    // Each stage is also an interview of its own, logged as single events are
+    events.forEach((event, index) => {
+      this.auditLogger?.log({
+        action: 'CREATE_EVENT',
+        entityType: 'event',
+        entityId: event.id,
+        changes: {
+          created: true,
+          loop_id: loopId,
+          ...(stageWarnings[index].length > 0 && { cap_warnings: stageWarnings[index] })
+        },
+        userEmail: auditContext.userEmail,
+        userName: auditContext.userName
+      })
+    })
+
+    const loop = { ...this.repository.findById(loopId), events }
+    return warnings.length > 0 ? { ...loop, warnings } : loop
+  }
+
+  /**
+   * Update loop details or overall status
+   * Cancelling a loop also cancels its interviews that are still pending
+   * @param {string} id
+   * @param {Object} data - { position, status, notes }
+   * @param {Object} auditContext
+   * @returns {Object|null} Loop with its events
+   */
+  async update(id, data, auditContext = {}) {
+    const existing = this.repository.findById(id)
+    if (!existing) {
+      return null
+    }
+
+    const cancelling = data.status === 'cancelled' && existing.status !== 'cancelled'
+
+    const updateLoop = this.db.transaction(() => {
+      this.repository.update(id, data)
+
+      if (!cancelling) {
+        return []
+      }
+
+      return this.eventRepository
+        .findByLoop(id)
+        .filter(event => !FINAL_EVENT_STATUSES.includes(event.status))
+        .map(event => {
+          this.eventRepository.update(event.id, { status: 'cancelled' })
+          return event
+        })
+    })
+
+    const cancelledEvents = updateLoop()
+
+    const changes = {}
+    Object.keys(data).forEach(key => {
+      if (data[key] !== undefined && existing[key] !== data[key]) {
+        changes[key] = { from: existing[key], to: data[key] }
+      }
+    })
+    if (cancelledEvents.length > 0) {
+      changes.cancelled_event_ids = cancelledEvents.map(event => event.id)
+    }
+
+    if (Object.keys(changes).length > 0) {
+      this.auditLogger?.log({
+        action: 'UPDATE_LOOP',
+        entityType: 'loop',
+        entityId: id,
+        changes,
+        userEmail: auditContext.userEmail,
+        userName: auditContext.userName
+      })
+    }
+
+    cancelledEvents.forEach(event => {
+      const cancelled = { ...event, status: 'cancelled' }
+      this.notifier?.notifyEventStatusChanged(cancelled, event.status, auditContext)
+      this.webhooks?.dispatch('event.status_changed', {
+        event: cancelled,
+        previous_status: event.status
+      }, auditContext)
+    })
+
+    return this.getById(id)
+  }
+
+  /**
+   * Delete a loop together with its interviews
+   * @param {string} id
+   * @param {Object} auditContext
+   * @returns {boolean}
+   */
+  async delete(id, auditContext = {}) {
+    const existing = this.repository.findById(id)
+    if (!existing) {
+      return false
+    }
+
+    const deleteLoop = this.db.transaction(() => {
+      const events = this.eventRepository.findByLoop(id)
+      this.eventRepository.deleteByLoop(id)
+      this.repository.delete(id)
+      return events
+    })
+
+    const events = deleteLoop()
+    const deletedEvents = events.length
+    events.forEach(event => {
+      this.webhooks?.dispatch('event.deleted', { event }, auditContext)
+    })
+
+    this.auditLogger?.log({
+      action: 'DELETE_LOOP',
+      entityType: 'loop',
+      entityId: id,
+      changes: { candidate_id: existing.candidate_id, deleted_events: deletedEvents },
+      userEmail: auditContext.userEmail,
+      userName: auditContext.userName
+    })
+
+    return true
+  }
+}
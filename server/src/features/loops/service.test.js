@@ -0,0 +1,115 @@
+import { LoopService } from './service.js'
+import { AuditLogger } from '../../utils/audit-logger.js'
+import { createTestDb, createInterviewer, createCandidate } from '../../test/helpers.js'
+
+const ADMIN = { userEmail: 'admin@example.com', userName: 'Sam Admin' }
+
+describe('LoopService', () => {
+  let db
+  let service
+  let candidate
+  let first
+  let second
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    service = new LoopService(db, new AuditLogger(db))
+    candidate = createCandidate(db)
+    first = createInterviewer(db)
+    second = createInterviewer(db, { name: 'Ben Ode' })
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  const stage = (interviewer, start, end) => ({
+    interviewer_email: interviewer.email,
+    start_time: start,
+    end_time: end
+  })
+
+  const count = table => db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get().count
+
+  const auditActions = () =>
+    db.prepare('SELECT action, entity_id, changes FROM audit_logs ORDER BY rowid').all()
+
+  describe('create', () => {
+    it('schedules every stage and logs each interview', async () => {
+      const loop = await service.create({
+        candidate_id: candidate.id,
+        stages: [
+          stage(first, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'),
+          stage(second, '2026-03-02T10:00:00.000Z', '2026-03-02T11:00:00.000Z')
+        ]
+      }, ADMIN)
+
+      expect(loop.events.map(event => [event.loop_stage, event.interviewer_email])).toEqual([
+        [1, first.email],
+        [2, second.email]
+      ])
+      expect(loop.events.every(event => event.candidate_name === candidate.name)).toBe(true)
+
+      const entries = auditActions()
+      expect(entries.map(entry => entry.action)).toEqual(['CREATE_LOOP', 'CREATE_EVENT', 'CREATE_EVENT'])
+      expect(entries.slice(1).map(entry => entry.entity_id)).toEqual(loop.events.map(event => event.id))
+      expect(JSON.parse(entries[1].changes)).toEqual({ created: true, loop_id: loop.id })
+    })
+
+    it('records cap warnings on the stage that exceeded the cap', async () => {
+      const capped = createInterviewer(db, { max_interviews_per_day: 1, cap_enforcement: 'warn' })
+
+      const loop = await service.create({
+        candidate_id: candidate.id,
+        stages: [
+          stage(first, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'),
+          stage(capped, '2026-03-02T10:00:00.000Z', '2026-03-02T11:00:00.000Z'),
+          stage(capped, '2026-03-02T11:00:00.000Z', '2026-03-02T12:00:00.000Z')
+        ]
+      }, ADMIN)
+
+      expect(loop.warnings).toHaveLength(1)
+      const stageChanges = auditActions()
+        .filter(entry => entry.action === 'CREATE_EVENT')
+        .map(entry => JSON.parse(entry.changes).cap_warnings)
+      expect(stageChanges).toEqual([undefined, undefined, loop.warnings])
+    })
+
+    it('leaves nothing behind when a later stage clashes', async () => {
+      const other = createCandidate(db, { name: 'Kim Candidate' })
+      await service.create({
+        candidate_id: other.id,
+        stages: [stage(second, '2026-03-02T13:00:00.000Z', '2026-03-02T14:00:00.000Z')]
+      }, ADMIN)
+      const loopsBefore = count('interview_loops')
+      const eventsBefore = count('interview_events')
+      const auditBefore = count('audit_logs')
+
+      const error = await service.create({
+        candidate_id: candidate.id,
+        stages: [
+          stage(first, '2026-03-02T12:00:00.000Z', '2026-03-02T13:00:00.000Z'),
+          stage(second, '2026-03-02T13:30:00.000Z', '2026-03-02T14:30:00.000Z')
+        ]
+      }, ADMIN).catch(err => err)
+
+      expect(error.code).toBe('EVENT_OVERLAP')
+      expect(error.message).toMatch(/^Stage 2: /)
+      expect(count('interview_loops')).toBe(loopsBefore)
+      expect(count('interview_events')).toBe(eventsBefore)
+      expect(count('audit_logs')).toBe(auditBefore)
+    })
+
+    it('checks stages against each other', async () => {
+      await expect(service.create({
+        candidate_id: candidate.id,
+        stages: [
+          stage(first, '2026-03-02T09:00:00.000Z', '2026-03-02T10:00:00.000Z'),
+          stage(first, '2026-03-02T09:30:00.000Z', '2026-03-02T10:30:00.000Z')
+        ]
+      }, ADMIN)).rejects.toMatchObject({ code: 'EVENT_OVERLAP' })
+
+      expect(count('interview_events')).toBe(0)
+    })
+  })
+})
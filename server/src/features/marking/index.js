@@ -0,0 +1,41 @@
+import { MarkingService } from './service.js'
+import config from '../../config/index.js'
+import routes from './routes.js'
+
+/**
+ * Marking feature plugin
+ * "Needs marking" inbox and a timer that escalates interviews left
+ * unmarked to admins
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function markingPlugin(fastify, _options) {
+  const service = new MarkingService(fastify.db, fastify.auditLogger, {
+    graceMinutes: config.markingQueue.graceMinutes,
+    escalateAfterHours: config.markingQueue.escalateAfterHours,
+    notifier: fastify.notifier
+  })
+
+  // Register routes with service
+  await fastify.register(routes, { prefix: '/marking', service })
+
+  // Background escalation
+  const intervalMinutes = config.markingQueue.intervalMinutes
+  if (intervalMinutes > 0) {
+    const timer = setInterval(async () => {
+      try {
+        const { escalated } = await service.escalateOverdue()
+        if (escalated.length > 0) {
+          fastify.log.warn({ events: escalated.map(event => event.id) }, 'Escalated unmarked interviews to admins')
+        }
+      } catch (error) {
+        fastify.log.error(error, 'Marking escalation failed')
+      }
+    }, intervalMinutes * 60 * 1000)
+    timer.unref()
+
+    fastify.addHook('onClose', async () => clearInterval(timer))
+  }
+
+  fastify.log.info('Marking feature registered')
+}
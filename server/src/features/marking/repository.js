@@ -0,0 +1,75 @@
+/**
+ * Marking Repository
+ * Past-due pending events and their escalations
+ */
+export class MarkingRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Pending events that ended at or before the cutoff, oldest first
+   * @param {string} cutoff - ISO datetime
+   * @param {Object} filters - { coordinator_email }
+   * @returns {Array} Event rows with interviewer_name, coordinator_name and escalated_at
+   */
+  findOverdue(cutoff, filters = {}) {
+    const conditions = [
+      "e.status = 'pending'",
+      'julianday(e.end_time) <= julianday(?)'
+    ]
+    const params = [cutoff]
+
+    if (filters.coordinator_email) {
+      conditions.push('e.coordinator_email = ?')
+      params.push(filters.coordinator_email)
+    }
+
+    return this.db.prepare(`
+      SELECT e.id, e.interviewer_email, e.candidate_name, e.position,
+        e.start_time, e.end_time, e.coordinator_email,
+        i.name as interviewer_name,
+        u.name as coordinator_name,
+        m.escalated_at
+      FROM interview_events e
+      LEFT JOIN interviewers i ON i.email = e.interviewer_email
+      LEFT JOIN users u ON u.email = e.coordinator_email
+      LEFT JOIN marking_escalations m ON m.event_id = e.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY julianday(e.end_time) ASC, e.id ASC
+    `).all(...params)
+  }
+
+  /**
+   * Record escalations (events already escalated are left as they are)
+   * @param {Array} events - Rows of { id, coordinator_email }
+   * @param {string} escalatedAt - ISO datetime
+   * @returns {Array} The events that were newly escalated
+   */
+  createEscalations(events, escalatedAt) {
+    const insert = this.db.prepare(`
+      INSERT OR IGNORE INTO marking_escalations (event_id, coordinator_email, escalated_at)
+      VALUES (?, ?, ?)
+    `)
+
+    return events.filter(event =>
+      insert.run(event.id, event.coordinator_email, escalatedAt).changes > 0
+    )
+  }
+
+  /**
+   * Remove escalations of events that are no longer waiting to be marked
+   * (marked, or moved into the future)
+   * @param {string} cutoff - ISO datetime
+   * @returns {number} Rows removed
+   */
+  deleteResolvedEscalations(cutoff) {
+    return this.db.prepare(`
+      DELETE FROM marking_escalations
+      WHERE event_id IN (
+        SELECT id FROM interview_events
+        WHERE status != 'pending' OR julianday(end_time) > julianday(?)
+      )
+    `).run(cutoff).changes
+  }
+}
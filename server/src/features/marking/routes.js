@@ -0,0 +1,54 @@
+import { InboxQuerySchema, InboxSchema, EscalationResultSchema } from './schemas.js'
+
+/**
+ * Marking Routes
+ * "Needs marking" inbox of past-due pending interviews
+ *
+ * Marking itself goes through PUT /api/events/:id like the other pages
+ */
+export default async function markingRoutes(fastify, options) {
+  const service = options.service
+
+  /**
+   * GET /api/marking/inbox
+   * Overdue pending events grouped by coordinator, with age buckets
+   */
+  fastify.get(
+    '/inbox',
+    {
+      schema: {
+        description: 'Get past-due pending interviews grouped by coordinator',
+        tags: ['marking'],
+        querystring: InboxQuerySchema,
+        response: {
+          200: InboxSchema
+        }
+      },
+      preHandler: fastify.authorize(['admin', 'talent'])
+    },
+    async (request, _reply) => {
+      return await service.getInbox(request.query)
+    }
+  )
+
+  /**
+   * POST /api/marking/escalate
+   * Run the escalation job now
+   */
+  fastify.post(
+    '/escalate',
+    {
+      schema: {
+        description: 'Escalate interviews left unmarked past the escalation delay now (admin only)',
+        tags: ['marking'],
+        response: {
+          200: EscalationResultSchema
+        }
+      },
+      preHandler: fastify.authorize(['admin'])
+    },
+    async (_request, _reply) => {
+      return await service.escalateOverdue()
+    }
+  )
+}
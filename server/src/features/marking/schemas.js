@@ -0,0 +1,62 @@
+import { Type } from '@sinclair/typebox'
+
+export const AgeBucketEnum = Type.Union([
+  Type.Literal('under_1d'),
+  Type.Literal('1_3d'),
+  Type.Literal('3_7d'),
+  Type.Literal('over_7d')
+])
+
+// Inbox filters (buckets always count every overdue event of the coordinator)
+export const InboxQuerySchema = Type.Object({
+  coordinator_email: Type.Optional(Type.String({ format: 'email' })),
+  bucket: Type.Optional(AgeBucketEnum),
+  escalated: Type.Optional(Type.Boolean())
+})
+
+const Nullable = (schema) => Type.Union([schema, Type.Null()])
+
+export const OverdueEventSchema = Type.Object({
+  id: Type.String(),
+  interviewer_email: Type.String(),
+  interviewer_name: Nullable(Type.String()),
+  candidate_name: Nullable(Type.String()),
+  position: Nullable(Type.String()),
+  start_time: Type.String(),
+  end_time: Type.String(),
+  coordinator_email: Nullable(Type.String()),
+  overdue_hours: Type.Integer(), // Since the interview ended
+  bucket: AgeBucketEnum,
+  escalated_at: Nullable(Type.String())
+})
+
+export const InboxSchema = Type.Object({
+  generated_at: Type.String(),
+  grace_minutes: Type.Integer(),
+  escalate_after_hours: Type.Integer(),
+  total: Type.Integer(),
+  escalated: Type.Integer(),
+  buckets: Type.Array(Type.Object({
+    key: AgeBucketEnum,
+    label: Type.String(),
+    count: Type.Integer()
+  })),
+  // One group per coordinator; coordinator_email is null for unassigned events
+  groups: Type.Array(Type.Object({
+    coordinator_email: Nullable(Type.String()),
+    coordinator_name: Nullable(Type.String()),
+    total: Type.Integer(),
+    escalated: Type.Integer(),
+    oldest_overdue_hours: Type.Integer(),
+    events: Type.Array(OverdueEventSchema)
+  }))
+})
+
+export const EscalationResultSchema = Type.Object({
+  escalated: Type.Array(Type.Object({
+    id: Type.String(),
+    interviewer_email: Type.String(),
+    coordinator_email: Nullable(Type.String()),
+    end_time: Type.String()
+  }))
+})
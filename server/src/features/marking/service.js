@@ -0,0 +1,151 @@
+import { MarkingRepository } from './repository.js'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Age buckets by hours overdue, in order
+export const AGE_BUCKETS = [
+  { key: 'under_1d', label: 'Under 1 day', maxHours: 24 },
+  { key: '1_3d', label: '1-3 days', maxHours: 72 },
+  { key: '3_7d', label: '3-7 days', maxHours: 168 },
+  { key: 'over_7d', label: 'Over 7 days', maxHours: Infinity }
+]
+
+/**
+ * Bucket for an overdue age
+ * @param {number} hours
+ * @returns {string} Bucket key
+ */
+function bucketFor(hours) {
+  return AGE_BUCKETS.find(bucket => hours < bucket.maxHours).key
+}
+
+/**
+ * Marking Service
+ * Interviews that ended but were never marked, grouped by the coordinator
+ * responsible for them, and their escalation to admins
+ */
+export class MarkingService {
+  /**
+   * @param {Object} db
+   * @param {Object} auditLogger
+   * @param {Object} options - { graceMinutes, escalateAfterHours, notifier }
+   */
+  constructor(db, auditLogger, options = {}) {
+    this.repository = new MarkingRepository(db)
+    this.db = db
+    this.auditLogger = auditLogger
+    this.graceMinutes = options.graceMinutes ?? 60
+    this.escalateAfterHours = options.escalateAfterHours ?? 48
+    this.notifier = options.notifier
+  }
+
+  /**
+   * Overdue events grouped by coordinator, with age bucket counts
+   * Buckets count every overdue event matching the coordinator filter;
+   * bucket and escalated filters only narrow the groups
+   * @param {Object} filters - { coordinator_email, bucket, escalated }
+   * @param {Date} [now]
+   * @returns {Object} { generated_at, grace_minutes, escalate_after_hours, total, escalated, buckets, groups }
+   */
+  async getInbox(filters = {}, now = new Date()) {
+    const events = this.repository.findOverdue(this._cutoff(now), filters)
+      .map(row => {
+        const overdueHours = (now - new Date(row.end_time)) / HOUR_MS
+        return {
+          ...row,
+          overdue_hours: Math.floor(overdueHours),
+          bucket: bucketFor(overdueHours)
+        }
+      })
+
+    const buckets = AGE_BUCKETS.map(bucket => ({
+      key: bucket.key,
+      label: bucket.label,
+      count: events.filter(event => event.bucket === bucket.key).length
+    }))
+
+    const shown = events.filter(event =>
+      (!filters.bucket || event.bucket === filters.bucket) &&
+      (filters.escalated === undefined || (event.escalated_at !== null) === filters.escalated)
+    )
+
+    // Unassigned events (synced or imported) form their own group
+    const groups = new Map()
+    shown.forEach(event => {
+      const key = event.coordinator_email ?? ''
+      if (!groups.has(key)) {
+        groups.set(key, {
+          coordinator_email: event.coordinator_email,
+          coordinator_name: event.coordinator_name,
+          total: 0,
+          escalated: 0,
+          oldest_overdue_hours: event.overdue_hours,
+          events: []
+        })
+      }
+      const group = groups.get(key)
+      group.total++
+      if (event.escalated_at) group.escalated++
+      group.events.push(event)
+    })
+
+    return {
+      generated_at: now.toISOString(),
+      grace_minutes: this.graceMinutes,
+      escalate_after_hours: this.escalateAfterHours,
+      total: events.length,
+      escalated: events.filter(event => event.escalated_at).length,
+      buckets,
+      // Busiest coordinator first
+      groups: [...groups.values()].sort((a, b) =>
+        b.total - a.total || b.oldest_overdue_hours - a.oldest_overdue_hours
+      )
+    }
+  }
+
+  /**
+   * Escalate events left unmarked for longer than the escalation delay
+   * Each event is escalated once (and its coordinator and admins notified
+   * once); escalations of events that were marked since are cleared first
+   * @param {Date} [now]
+   * @returns {Object} { escalated: Array } Newly escalated events
+   */
+  async escalateOverdue(now = new Date()) {
+    const escalateCutoff = new Date(
+      now.getTime() - this.graceMinutes * 60 * 1000 - this.escalateAfterHours * HOUR_MS
+    ).toISOString()
+
+    const escalate = this.db.transaction(() => {
+      this.repository.deleteResolvedEscalations(this._cutoff(now))
+      const due = this.repository.findOverdue(escalateCutoff)
+        .filter(event => !event.escalated_at)
+      return this.repository.createEscalations(due, now.toISOString())
+    })
+    const escalated = escalate()
+
+    escalated.forEach(event => {
+      this.auditLogger?.log({
+        action: 'ESCALATE_MARKING',
+        entityType: 'event',
+        entityId: event.id,
+        changes: {
+          coordinator_email: event.coordinator_email,
+          ended_at: event.end_time
+        }
+      })
+    })
+
+    await this.notifier?.notifyMarkingOverdue(escalated, this.escalateAfterHours)
+
+    return { escalated }
+  }
+
+  /**
+   * Latest end time that counts as overdue
+   * @param {Date} now
+   * @returns {string} ISO datetime
+   */
+  _cutoff(now) {
+    return new Date(now.getTime() - this.graceMinutes * 60 * 1000).toISOString()
+  }
+}
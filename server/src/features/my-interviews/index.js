@@ -0,0 +1,17 @@
+import { MyInterviewsService } from './service.js'
+import routes from './routes.js'
+
+/**
+ * My Interviews feature plugin
+ * Interviewer self-service under /me
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function myInterviewsPlugin(fastify, _options) {
+  const service = new MyInterviewsService(fastify.db, fastify.auditLogger)
+
+  // Register routes with service
+  await fastify.register(routes, { prefix: '/me', service })
+
+  fastify.log.info('My interviews feature registered')
+}
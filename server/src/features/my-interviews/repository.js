@@ -0,0 +1,68 @@
+/**
+ * My Interviews Repository
+ * Events of one interviewer, split at the current time
+ */
+export class MyInterviewsRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Upcoming (not yet ended, soonest first) or past (ended, latest first) events
+   * @param {string} email - Interviewer email
+   * @param {Object} options - { when: 'upcoming'|'past', now, limit, offset }
+   * @returns {Array} Events with parsed JSON fields
+   */
+  findByInterviewer(email, { when, now, limit, offset }) {
+    const { where, params } = this._buildWhere(email, when, now)
+    const direction = when === 'past' ? 'DESC' : 'ASC'
+
+    const rows = this.db.prepare(`
+      SELECT * FROM interview_events WHERE ${where}
+      ORDER BY julianday(start_time) ${direction}, id ASC LIMIT ? OFFSET ?
+    `).all(...params, limit, offset)
+
+    return rows.map(row => ({
+      ...row,
+      skills_assessed: JSON.parse(row.skills_assessed || '[]'),
+      rating: row.rating !== null ? Number(row.rating) : null
+    }))
+  }
+
+  /**
+   * Count of the events findByInterviewer pages through
+   * @param {string} email
+   * @param {Object} options - { when, now }
+   * @returns {number}
+   */
+  countByInterviewer(email, { when, now }) {
+    const { where, params } = this._buildWhere(email, when, now)
+    return this.db.prepare(`SELECT COUNT(*) as total FROM interview_events WHERE ${where}`)
+      .get(...params).total
+  }
+
+  /**
+   * Start time and status of every interview that has started
+   * @param {string} email
+   * @param {string} now - ISO datetime
+   * @returns {Array} Rows of { start_time, status }
+   */
+  findStarted(email, now) {
+    return this.db.prepare(`
+      SELECT start_time, status FROM interview_events
+      WHERE interviewer_email = ? AND julianday(start_time) <= julianday(?)
+      ORDER BY julianday(start_time) ASC
+    `).all(email, now)
+  }
+
+  /**
+   * @private
+   */
+  _buildWhere(email, when, now) {
+    const comparison = when === 'past' ? '<' : '>='
+    return {
+      where: `interviewer_email = ? AND julianday(end_time) ${comparison} julianday(?)`,
+      params: [email, now]
+    }
+  }
+}
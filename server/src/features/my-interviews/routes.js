@@ -0,0 +1,145 @@
+import {
+  MyEventsQuerySchema,
+  MyEventsResponseSchema,
+  MyEventIdParamSchema,
+  MyEventSchema,
+  FlagConflictSchema,
+  HistorySchema,
+  ErrorSchema
+} from './schemas.js'
+
+/**
+ * My Interviews Routes
+ * The signed-in user's own interviews, for every role
+ *
+ * Events are matched on the user's email; other interviewers' events
+ * answer 404 so they cannot be read or changed here
+ */
+export default async function myInterviewsRoutes(fastify, options) {
+  const service = options.service
+
+  /**
+   * GET /api/me/events
+   * Upcoming (not yet ended) or past interviews of the signed-in user
+   *
+   * Query params:
+   * - when: upcoming (default, soonest first) | past (latest first)
+   * - limit / offset: Pagination (default 20)
+   */
+  fastify.get(
+    '/events',
+    {
+      schema: {
+        description: 'List the signed-in user\'s upcoming or past interviews',
+        tags: ['my-interviews'],
+        querystring: MyEventsQuerySchema,
+        response: {
+          200: MyEventsResponseSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, _reply) => {
+      return await service.list(request.user.email, request.query)
+    }
+  )
+
+  /**
+   * GET /api/me/history
+   * Started interviews per day and by status
+   */
+  fastify.get(
+    '/history',
+    {
+      schema: {
+        description: 'Get the signed-in user\'s interviews per day and by status',
+        tags: ['my-interviews'],
+        response: {
+          200: HistorySchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, _reply) => {
+      return await service.getHistory(request.user.email)
+    }
+  )
+
+  /**
+   * POST /api/me/events/:id/confirm
+   * Confirm the signed-in user will attend an upcoming interview
+   */
+  fastify.post(
+    '/events/:id/confirm',
+    {
+      schema: {
+        description: 'Confirm attendance of an upcoming interview',
+        tags: ['my-interviews'],
+        params: MyEventIdParamSchema,
+        response: {
+          200: MyEventSchema,
+          400: ErrorSchema,
+          404: ErrorSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, reply) => {
+      try {
+        return await service.respond(request.user.email, request.params.id, 'confirmed', null, {
+          userEmail: request.user.email,
+          userName: request.user.name
+        })
+      } catch (error) {
+        if (error.message === 'Event not found') {
+          return reply.notFound(error.message)
+        }
+        if (error.message.startsWith('Only upcoming')) {
+          return reply.badRequest(error.message)
+        }
+        throw error
+      }
+    }
+  )
+
+  /**
+   * POST /api/me/events/:id/conflict
+   * Flag a conflict with an upcoming interview
+   *
+   * Body:
+   * - note: What clashes (shown to coordinators)
+   */
+  fastify.post(
+    '/events/:id/conflict',
+    {
+      schema: {
+        description: 'Flag a conflict with an upcoming interview',
+        tags: ['my-interviews'],
+        params: MyEventIdParamSchema,
+        body: FlagConflictSchema,
+        response: {
+          200: MyEventSchema,
+          400: ErrorSchema,
+          404: ErrorSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, reply) => {
+      try {
+        return await service.respond(request.user.email, request.params.id, 'conflict', request.body.note, {
+          userEmail: request.user.email,
+          userName: request.user.name
+        })
+      } catch (error) {
+        if (error.message === 'Event not found') {
+          return reply.notFound(error.message)
+        }
+        if (error.message.startsWith('Only upcoming')) {
+          return reply.badRequest(error.message)
+        }
+        throw error
+      }
+    }
+  )
+}
@@ -0,0 +1,75 @@
+import { nanoid } from 'nanoid'
+import { EventRepository } from '../events/repository.js'
+import { buildTestApp, authHeader, createInterviewer } from '../../test/helpers.js'
+
+describe('my interviews routes', () => {
+  let app
+  let events
+  let interviewer
+  let colleague
+  let viewer
+
+  beforeAll(async () => {
+    app = await buildTestApp()
+    events = new EventRepository(app.db)
+    interviewer = createInterviewer(app.db)
+    colleague = createInterviewer(app.db, { name: 'Ben Ode' })
+    viewer = authHeader(app, { email: interviewer.email, name: interviewer.name, role: 'viewer' })
+  })
+
+  afterAll(async () => {
+    await app.close()
+  })
+
+  const addEvent = (owner, day) => events.create({
+    id: nanoid(),
+    interviewer_email: owner.email,
+    candidate_name: 'Jo Candidate',
+    start_time: `2030-03-${day}T09:00:00.000Z`,
+    end_time: `2030-03-${day}T10:00:00.000Z`,
+    status: 'pending'
+  })
+
+  const confirm = event =>
+    app.inject({ method: 'POST', url: `/api/me/events/${event.id}/confirm`, headers: viewer })
+
+  const flagConflict = (event, note) =>
+    app.inject({ method: 'POST', url: `/api/me/events/${event.id}/conflict`, headers: viewer, payload: { note } })
+
+  it('lists only the viewer\'s own upcoming interviews', async () => {
+    const own = addEvent(interviewer, '04')
+    const other = addEvent(colleague, '04')
+
+    const response = await app.inject({ method: 'GET', url: '/api/me/events', headers: viewer })
+
+    expect(response.statusCode).toBe(200)
+    const ids = response.json().data.map(event => event.id)
+    expect(ids).toContain(own.id)
+    expect(ids).not.toContain(other.id)
+  })
+
+  it('lets the viewer confirm and flag their own interviews', async () => {
+    const confirmed = addEvent(interviewer, '05')
+    const flagged = addEvent(interviewer, '06')
+
+    const confirmResponse = await confirm(confirmed)
+    const flagResponse = await flagConflict(flagged, 'Dentist appointment')
+
+    expect(confirmResponse.statusCode).toBe(200)
+    expect(confirmResponse.json()).toMatchObject({ id: confirmed.id, interviewer_response: 'confirmed' })
+    expect(flagResponse.statusCode).toBe(200)
+    expect(flagResponse.json()).toMatchObject({
+      id: flagged.id,
+      interviewer_response: 'conflict',
+      interviewer_response_note: 'Dentist appointment'
+    })
+  })
+
+  it('answers 404 for another interviewer\'s interview and leaves it untouched', async () => {
+    const other = addEvent(colleague, '09')
+
+    expect((await confirm(other)).statusCode).toBe(404)
+    expect((await flagConflict(other, 'Not mine')).statusCode).toBe(404)
+    expect(events.findById(other.id).interviewer_response).toBeNull()
+  })
+})
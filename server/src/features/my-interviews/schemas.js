@@ -0,0 +1,45 @@
+import { Type } from '@sinclair/typebox'
+import { EventSchema, ListEventsResponseSchema } from '../events/schemas.js'
+
+export const MyEventsQuerySchema = Type.Object({
+  when: Type.Optional(Type.Union([
+    Type.Literal('upcoming'),
+    Type.Literal('past')
+  ], { default: 'upcoming' })),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 }))
+})
+
+export const MyEventsResponseSchema = ListEventsResponseSchema
+
+export const MyEventIdParamSchema = Type.Object({
+  id: Type.String()
+})
+
+export const FlagConflictSchema = Type.Object({
+  note: Type.String({ minLength: 1, maxLength: 500 })
+})
+
+export const MyEventSchema = EventSchema
+
+const HistoryCounts = {
+  total: Type.Integer(),
+  attended: Type.Integer(),
+  ghosted: Type.Integer(),
+  cancelled: Type.Integer(),
+  pending: Type.Integer()
+}
+
+export const HistorySchema = Type.Object({
+  time_zone: Type.String(),
+  // Days with at least one started interview, oldest first
+  days: Type.Array(Type.Object({ date: Type.String(), ...HistoryCounts })),
+  totals: Type.Object(HistoryCounts)
+})
+
+// Error response
+export const ErrorSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+  statusCode: Type.Optional(Type.Integer())
+})
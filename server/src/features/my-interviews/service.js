@@ -0,0 +1,109 @@
+import { MyInterviewsRepository } from './repository.js'
+import { EventRepository } from '../events/repository.js'
+import { InterviewerRepository } from '../interviewers/repository.js'
+import { getZonedParts } from '../../utils/time-zone.js'
+
+const HISTORY_STATUSES = ['attended', 'ghosted', 'cancelled', 'pending']
+
+/**
+ * My Interviews Service
+ * Self-service for interviewers: their own upcoming and past interviews,
+ * confirming or flagging a conflict, and their attendance history
+ *
+ * Every method takes the signed-in user's email; events of anyone else
+ * are reported as not found
+ */
+export class MyInterviewsService {
+  constructor(db, auditLogger) {
+    this.repository = new MyInterviewsRepository(db)
+    this.eventRepository = new EventRepository(db)
+    this.interviewerRepository = new InterviewerRepository(db)
+    this.auditLogger = auditLogger
+  }
+
+  /**
+   * Upcoming or past interviews of the user
+   * @param {string} email - Signed-in user's email
+   * @param {Object} query - { when, limit, offset }
+   * @param {Date} [now]
+   * @returns {Object} { data, pagination }
+   */
+  async list(email, query = {}, now = new Date()) {
+    const { when = 'upcoming', limit = 20, offset = 0 } = query
+    const options = { when, now: now.toISOString(), limit, offset }
+
+    const data = this.repository.findByInterviewer(email, options)
+    const total = this.repository.countByInterviewer(email, options)
+
+    return {
+      data,
+      pagination: { total, limit, offset, hasMore: offset + data.length < total }
+    }
+  }
+
+  /**
+   * Interviews per day (in the interviewer's time zone) and totals by status,
+   * for every interview that has started
+   * @param {string} email
+   * @param {Date} [now]
+   * @returns {Object} { time_zone, days, totals }
+   */
+  async getHistory(email, now = new Date()) {
+    const timeZone = this.interviewerRepository.findByEmail(email)?.timezone || 'UTC'
+    const emptyCounts = () => Object.fromEntries(
+      ['total', ...HISTORY_STATUSES].map(key => [key, 0])
+    )
+
+    const days = new Map()
+    const totals = emptyCounts()
+    for (const event of this.repository.findStarted(email, now.toISOString())) {
+      const date = getZonedParts(event.start_time, timeZone).date
+      if (!days.has(date)) days.set(date, { date, ...emptyCounts() })
+      const day = days.get(date)
+      day.total++
+      day[event.status]++
+      totals.total++
+      totals[event.status]++
+    }
+
+    return { time_zone: timeZone, days: [...days.values()], totals }
+  }
+
+  /**
+   * Confirm an upcoming interview, or flag a conflict with it
+   * @param {string} email - Signed-in user's email
+   * @param {string} eventId
+   * @param {'confirmed'|'conflict'} response
+   * @param {string|null} note - Required for conflicts (checked by the route schema)
+   * @param {Object} auditContext - User info for audit
+   * @param {Date} [now]
+   * @returns {Object} Updated event
+   * @throws {Error} If the event is not the user's, or has started or been marked
+   */
+  async respond(email, eventId, response, note, auditContext = {}, now = new Date()) {
+    const event = this.eventRepository.findById(eventId)
+    if (!event || event.interviewer_email !== email) {
+      throw new Error('Event not found')
+    }
+    if (event.status !== 'pending' || Date.parse(event.start_time) <= now.getTime()) {
+      throw new Error('Only upcoming interviews can be confirmed or flagged')
+    }
+
+    const updated = this.eventRepository.update(eventId, {
+      interviewer_response: response,
+      interviewer_response_note: note || null,
+      interviewer_responded_at: now.toISOString()
+    })
+
+    this.auditLogger?.log({
+      action: response === 'confirmed' ? 'CONFIRM_EVENT' : 'FLAG_EVENT_CONFLICT',
+      entityType: 'event',
+      entityId: eventId,
+      changes: { interviewer_response: response, ...(note && { note }) },
+      userEmail: auditContext.userEmail,
+      userName: auditContext.userName
+    })
+
+    return updated
+  }
+}
@@ -0,0 +1,108 @@
+import { nanoid } from 'nanoid'
+
+/**
+ * Inbox Repository
+ * In-app notifications shown in the bell menu
+ */
+export class InboxRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Add notifications
+   * @param {Array} entries - { user_email, type, title, body, link, entity_type, entity_id }
+   * @returns {number} Rows created
+   */
+  createMany(entries) {
+    const insert = this.db.prepare(`
+      INSERT INTO notifications (id, user_email, type, title, body, link, entity_type, entity_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+
+    const insertAll = this.db.transaction(() => entries.forEach(entry => {
+      insert.run(
+        nanoid(),
+        entry.user_email,
+        entry.type,
+        entry.title,
+        entry.body ?? null,
+        entry.link ?? null,
+        entry.entity_type ?? null,
+        entry.entity_id ?? null
+      )
+    }))
+    insertAll()
+
+    return entries.length
+  }
+
+  /**
+   * Notifications of a user, latest first
+   * @param {string} email
+   * @param {Object} filters - { unread, limit, offset }
+   * @returns {Array}
+   */
+  findByUser(email, filters = {}) {
+    const { limit = 20, offset = 0 } = filters
+    const { where, params } = this._buildWhere(email, filters)
+
+    return this.db.prepare(`
+      SELECT * FROM notifications WHERE ${where}
+      ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?
+    `).all(...params, limit, offset)
+  }
+
+  /**
+   * Count notifications of a user
+   * @param {string} email
+   * @param {Object} filters - { unread }
+   * @returns {number}
+   */
+  countByUser(email, filters = {}) {
+    const { where, params } = this._buildWhere(email, filters)
+    return this.db.prepare(`
+      SELECT COUNT(*) as total FROM notifications WHERE ${where}
+    `).get(...params).total
+  }
+
+  /**
+   * Mark one notification of a user as read (already read ones keep their time)
+   * @param {string} email
+   * @param {string} id
+   * @returns {Object|null} The notification, null when it is not the user's
+   */
+  markRead(email, id) {
+    this.db.prepare(`
+      UPDATE notifications SET read_at = datetime('now')
+      WHERE id = ? AND user_email = ? AND read_at IS NULL
+    `).run(id, email)
+
+    return this.db.prepare(`
+      SELECT * FROM notifications WHERE id = ? AND user_email = ?
+    `).get(id, email) || null
+  }
+
+  /**
+   * Mark every unread notification of a user as read
+   * @param {string} email
+   * @returns {number} Rows updated
+   */
+  markAllRead(email) {
+    return this.db.prepare(`
+      UPDATE notifications SET read_at = datetime('now')
+      WHERE user_email = ? AND read_at IS NULL
+    `).run(email).changes
+  }
+
+  _buildWhere(email, filters) {
+    const conditions = ['user_email = ?']
+    const params = [email]
+
+    if (filters.unread) {
+      conditions.push('read_at IS NULL')
+    }
+
+    return { where: conditions.join(' AND '), params }
+  }
+}
@@ -0,0 +1,45 @@
+import config from '../../config/index.js'
+import routes from './routes.js'
+
+// How often the timer checks whether the daily summary is due
+const SUMMARY_CHECK_MS = 15 * 60 * 1000
+
+/**
+ * Notifications feature plugin
+ * In-app notification, preference and delivery log routes, and the daily
+ * summary timer
+ *
+ * The service itself is shared as fastify.notifier (see app.js) so other
+ * features can trigger notifications
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function notificationsPlugin(fastify, _options) {
+  const service = fastify.notifier
+
+  // Register routes with service
+  await fastify.register(routes, { prefix: '/notifications', service })
+
+  // Daily summary, sent on the first check after the configured hour (UTC);
+  // later checks that day skip everyone who already received it
+  const summaryHour = config.notifications.dailySummaryHour
+  if (summaryHour >= 0) {
+    const timer = setInterval(async () => {
+      if (new Date().getUTCHours() < summaryHour) return
+
+      try {
+        const result = await service.sendDailySummary()
+        if (result.sent > 0 || result.failed > 0) {
+          fastify.log.info(result, 'Daily summary sent')
+        }
+      } catch (error) {
+        fastify.log.error(error, 'Daily summary failed')
+      }
+    }, SUMMARY_CHECK_MS)
+    timer.unref()
+
+    fastify.addHook('onClose', async () => clearInterval(timer))
+  }
+
+  fastify.log.info('Notifications feature registered')
+}
@@ -0,0 +1,198 @@
+import { nanoid } from 'nanoid'
+
+// Preference columns, one per kind of notification
+export const PREFERENCE_COLUMNS = ['no_show_alerts', 'daily_summary', 'system_alerts']
+
+/**
+ * Notification Repository
+ * Per-user preferences, the delivery log and the counts behind the
+ * daily summary
+ */
+export class NotificationRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Preferences of a user
+   * @param {string} email
+   * @returns {Object|null} Row with 0/1 flags, null when never saved
+   */
+  findPreferences(email) {
+    return this.db.prepare(`
+      SELECT * FROM notification_preferences WHERE user_email = ?
+    `).get(email) || null
+  }
+
+  /**
+   * Create or update preferences; flags left out keep their value
+   * @param {string} email
+   * @param {Object} preferences - Booleans keyed by preference column
+   * @returns {Object} Saved row
+   */
+  upsertPreferences(email, preferences) {
+    const current = this.findPreferences(email) || {}
+    const values = PREFERENCE_COLUMNS.map(column =>
+      preferences[column] !== undefined ? (preferences[column] ? 1 : 0) : (current[column] ?? 0)
+    )
+
+    this.db.prepare(`
+      INSERT INTO notification_preferences (user_email, ${PREFERENCE_COLUMNS.join(', ')}, updated_at)
+      VALUES (?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(user_email) DO UPDATE SET
+        ${PREFERENCE_COLUMNS.map(column => `${column} = excluded.${column}`).join(', ')},
+        updated_at = excluded.updated_at
+    `).run(email, ...values)
+
+    return this.findPreferences(email)
+  }
+
+  /**
+   * User by email
+   * @param {string} email
+   * @returns {Object|null} { email, name, role }
+   */
+  findUser(email) {
+    return this.db.prepare('SELECT email, name, role FROM users WHERE email = ?').get(email) || null
+  }
+
+  /**
+   * Users who opted in to a preference, among the given roles and emails
+   * @param {string} column - One of PREFERENCE_COLUMNS
+   * @param {Object} audience - { roles, emails }
+   * @returns {Array} Rows of { email, name, role }
+   */
+  findRecipients(column, { roles = [], emails = [] }) {
+    if (!PREFERENCE_COLUMNS.includes(column)) {
+      throw new Error(`Unknown notification preference: ${column}`)
+    }
+
+    const audience = []
+    if (roles.length > 0) audience.push(`u.role IN (${roles.map(() => '?').join(', ')})`)
+    if (emails.length > 0) audience.push(`u.email IN (${emails.map(() => '?').join(', ')})`)
+    if (audience.length === 0) return []
+
+    return this.db.prepare(`
+      SELECT u.email, u.name, u.role
+      FROM users u
+      JOIN notification_preferences p ON p.user_email = u.email
+      WHERE p.${column} = 1 AND (${audience.join(' OR ')})
+      ORDER BY u.email
+    `).all(...roles, ...emails)
+  }
+
+  /**
+   * Whether a message with this dedupe key already reached the recipient
+   * @param {string} recipient
+   * @param {string} dedupeKey
+   * @returns {boolean}
+   */
+  wasDelivered(recipient, dedupeKey) {
+    return Boolean(this.db.prepare(`
+      SELECT 1 FROM notification_deliveries
+      WHERE recipient = ? AND dedupe_key = ? AND status = 'sent'
+      LIMIT 1
+    `).get(recipient, dedupeKey))
+  }
+
+  /**
+   * Log a delivery attempt
+   * @param {Object} delivery - { type, recipient, subject, transport, status, error, dedupe_key }
+   * @returns {Object} Logged row
+   */
+  createDelivery(delivery) {
+    const id = nanoid()
+    this.db.prepare(`
+      INSERT INTO notification_deliveries (id, type, recipient, subject, transport, status, error, dedupe_key)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      delivery.type,
+      delivery.recipient,
+      delivery.subject,
+      delivery.transport,
+      delivery.status,
+      delivery.error ?? null,
+      delivery.dedupe_key ?? null
+    )
+
+    return this.db.prepare('SELECT * FROM notification_deliveries WHERE id = ?').get(id)
+  }
+
+  /**
+   * Delivery log, latest first
+   * @param {Object} filters - { type, status, recipient, limit, offset }
+   * @returns {Array}
+   */
+  findDeliveries(filters = {}) {
+    const { limit = 50, offset = 0 } = filters
+    const { where, params } = this._buildWhere(filters)
+
+    return this.db.prepare(`
+      SELECT * FROM notification_deliveries WHERE ${where}
+      ORDER BY created_at DESC, rowid DESC LIMIT ? OFFSET ?
+    `).all(...params, limit, offset)
+  }
+
+  /**
+   * Count deliveries matching filters
+   * @param {Object} filters
+   * @returns {number}
+   */
+  countDeliveries(filters = {}) {
+    const { where, params } = this._buildWhere(filters)
+    return this.db.prepare(`
+      SELECT COUNT(*) as total FROM notification_deliveries WHERE ${where}
+    `).get(...params).total
+  }
+
+  /**
+   * Interviews starting in [start, end) by status
+   * @param {string} start - ISO datetime
+   * @param {string} end - ISO datetime
+   * @returns {Object} { total, attended, ghosted, cancelled, pending }
+   */
+  countByStatus(start, end) {
+    const row = this.db.prepare(`
+      SELECT
+        COUNT(*) as total,
+        COALESCE(SUM(status = 'attended'), 0) as attended,
+        COALESCE(SUM(status = 'ghosted'), 0) as ghosted,
+        COALESCE(SUM(status = 'cancelled'), 0) as cancelled,
+        COALESCE(SUM(status = 'pending'), 0) as pending
+      FROM interview_events
+      WHERE julianday(start_time) >= julianday(?) AND julianday(start_time) < julianday(?)
+    `).get(start, end)
+
+    return { ...row }
+  }
+
+  /**
+   * Display name of an interviewer
+   * @param {string} email
+   * @returns {string|null}
+   */
+  findInterviewerName(email) {
+    return this.db.prepare('SELECT name FROM interviewers WHERE email = ?').get(email)?.name ?? null
+  }
+
+  _buildWhere(filters) {
+    const conditions = ['1=1']
+    const params = []
+
+    if (filters.type) {
+      conditions.push('type = ?')
+      params.push(filters.type)
+    }
+    if (filters.status) {
+      conditions.push('status = ?')
+      params.push(filters.status)
+    }
+    if (filters.recipient) {
+      conditions.push('recipient = ?')
+      params.push(filters.recipient)
+    }
+
+    return { where: conditions.join(' AND '), params }
+  }
+}
@@ -0,0 +1,219 @@
+import {
+  PreferencesSchema,
+  UpdatePreferencesSchema,
+  DeliveryQuerySchema,
+  DeliveryListSchema,
+  DailySummaryResultSchema,
+  InboxNotificationSchema,
+  InboxQuerySchema,
+  InboxListSchema,
+  UnreadCountSchema,
+  NotificationIdParamSchema,
+  MarkAllReadResultSchema,
+  ErrorSchema
+} from './schemas.js'
+
+/**
+ * Notification Routes
+ * The signed-in user's in-app notifications and email preferences, and the
+ * email delivery log for admins
+ */
+export default async function notificationRoutes(fastify, options) {
+  const service = options.service
+
+  /**
+   * GET /api/notifications
+   * The signed-in user's in-app notifications, latest first
+   *
+   * Query params:
+   * - unread: Only unread ones
+   * - limit / offset: Pagination (default 20)
+   */
+  fastify.get(
+    '/',
+    {
+      schema: {
+        description: 'List the signed-in user\'s notifications with the unread count',
+        tags: ['notifications'],
+        querystring: InboxQuerySchema,
+        response: {
+          200: InboxListSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, _reply) => {
+      return await service.listInbox(request.user.email, request.query)
+    }
+  )
+
+  /**
+   * GET /api/notifications/unread-count
+   * Unread count for the bell badge
+   */
+  fastify.get(
+    '/unread-count',
+    {
+      schema: {
+        description: 'Count the signed-in user\'s unread notifications',
+        tags: ['notifications'],
+        response: {
+          200: UnreadCountSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, _reply) => {
+      return await service.getUnreadCount(request.user.email)
+    }
+  )
+
+  /**
+   * POST /api/notifications/:id/read
+   * Mark one notification as read
+   */
+  fastify.post(
+    '/:id/read',
+    {
+      schema: {
+        description: 'Mark one of the signed-in user\'s notifications as read',
+        tags: ['notifications'],
+        params: NotificationIdParamSchema,
+        response: {
+          200: InboxNotificationSchema,
+          404: ErrorSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, reply) => {
+      try {
+        return await service.markRead(request.user.email, request.params.id)
+      } catch (error) {
+        if (error.message === 'Notification not found') {
+          return reply.notFound(error.message)
+        }
+        throw error
+      }
+    }
+  )
+
+  /**
+   * POST /api/notifications/read-all
+   * Mark every notification as read
+   */
+  fastify.post(
+    '/read-all',
+    {
+      schema: {
+        description: 'Mark all of the signed-in user\'s notifications as read',
+        tags: ['notifications'],
+        response: {
+          200: MarkAllReadResultSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, _reply) => {
+      return await service.markAllRead(request.user.email)
+    }
+  )
+
+  /**
+   * GET /api/notifications/preferences
+   * The signed-in user's notification preferences
+   */
+  fastify.get(
+    '/preferences',
+    {
+      schema: {
+        description: 'Get the signed-in user\'s notification preferences',
+        tags: ['notifications'],
+        response: {
+          200: PreferencesSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, _reply) => {
+      return await service.getPreferences(request.user.email)
+    }
+  )
+
+  /**
+   * PUT /api/notifications/preferences
+   * Opt in to or out of notifications; flags left out are unchanged
+   */
+  fastify.put(
+    '/preferences',
+    {
+      schema: {
+        description: 'Update the signed-in user\'s notification preferences',
+        tags: ['notifications'],
+        body: UpdatePreferencesSchema,
+        response: {
+          200: PreferencesSchema,
+          404: ErrorSchema
+        }
+      },
+      preHandler: fastify.authenticate
+    },
+    async (request, reply) => {
+      try {
+        return await service.updatePreferences(request.user.email, request.body)
+      } catch (error) {
+        if (error.message === 'User not found') {
+          return reply.notFound(error.message)
+        }
+        throw error
+      }
+    }
+  )
+
+  /**
+   * GET /api/notifications/deliveries
+   * Delivery log, latest first
+   *
+   * Query params:
+   * - type / status / recipient: Filters
+   * - limit / offset: Pagination (default 50)
+   */
+  fastify.get(
+    '/deliveries',
+    {
+      schema: {
+        description: 'List notification deliveries (admin only)',
+        tags: ['notifications'],
+        querystring: DeliveryQuerySchema,
+        response: {
+          200: DeliveryListSchema
+        }
+      },
+      preHandler: fastify.authorize(['admin'])
+    },
+    async (request, _reply) => {
+      return await service.listDeliveries(request.query)
+    }
+  )
+
+  /**
+   * POST /api/notifications/daily-summary
+   * Send yesterday's summary now instead of waiting for the scheduled hour
+   */
+  fastify.post(
+    '/daily-summary',
+    {
+      schema: {
+        description: 'Send the daily summary now; recipients who already got it are skipped (admin only)',
+        tags: ['notifications'],
+        response: {
+          200: DailySummaryResultSchema
+        }
+      },
+      preHandler: fastify.authorize(['admin'])
+    },
+    async (_request, _reply) => {
+      return await service.sendDailySummary()
+    }
+  )
+}
@@ -0,0 +1,115 @@
+import { Type } from '@sinclair/typebox'
+
+const Nullable = (schema) => Type.Union([schema, Type.Null()])
+
+export const NotificationTypeEnum = Type.Union([
+  Type.Literal('event_ghosted'),
+  Type.Literal('daily_summary'),
+  Type.Literal('marking_overdue')
+])
+
+// No-show alerts: event_ghosted; daily summary: daily_summary;
+// system alerts: marking_overdue
+export const PreferencesSchema = Type.Object({
+  no_show_alerts: Type.Boolean(),
+  daily_summary: Type.Boolean(),
+  system_alerts: Type.Boolean(),
+  updated_at: Nullable(Type.String()) // null until first saved
+})
+
+export const UpdatePreferencesSchema = Type.Object({
+  no_show_alerts: Type.Optional(Type.Boolean()),
+  daily_summary: Type.Optional(Type.Boolean()),
+  system_alerts: Type.Optional(Type.Boolean())
+}, { additionalProperties: false, minProperties: 1 })
+
+export const DeliverySchema = Type.Object({
+  id: Type.String(),
+  type: NotificationTypeEnum,
+  recipient: Type.String(),
+  subject: Type.String(),
+  transport: Type.String(),
+  status: Type.Union([Type.Literal('sent'), Type.Literal('failed')]),
+  error: Nullable(Type.String()),
+  dedupe_key: Nullable(Type.String()),
+  created_at: Type.String()
+})
+
+export const DeliveryQuerySchema = Type.Object({
+  type: Type.Optional(NotificationTypeEnum),
+  status: Type.Optional(Type.Union([Type.Literal('sent'), Type.Literal('failed')])),
+  recipient: Type.Optional(Type.String()),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200, default: 50 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 }))
+})
+
+export const DeliveryListSchema = Type.Object({
+  data: Type.Array(DeliverySchema),
+  pagination: Type.Object({
+    total: Type.Integer(),
+    limit: Type.Integer(),
+    offset: Type.Integer(),
+    hasMore: Type.Boolean()
+  })
+})
+
+export const DailySummaryResultSchema = Type.Object({
+  date: Type.String(), // Day summarised (UTC)
+  sent: Type.Integer(),
+  failed: Type.Integer(),
+  skipped: Type.Integer() // Already received it
+})
+
+// In-app notifications (bell menu)
+export const InboxNotificationSchema = Type.Object({
+  id: Type.String(),
+  user_email: Type.String(),
+  type: Type.Union([
+    Type.Literal('event_assigned'),
+    Type.Literal('event_rescheduled'),
+    Type.Literal('event_removed'),
+    Type.Literal('event_status_changed'),
+    Type.Literal('role_changed')
+  ]),
+  title: Type.String(),
+  body: Nullable(Type.String()),
+  link: Nullable(Type.String()), // App path, e.g. /my-interviews
+  entity_type: Nullable(Type.String()),
+  entity_id: Nullable(Type.String()),
+  read_at: Nullable(Type.String()),
+  created_at: Type.String()
+})
+
+export const InboxQuerySchema = Type.Object({
+  unread: Type.Optional(Type.Boolean()),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 20 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 }))
+})
+
+export const InboxListSchema = Type.Object({
+  data: Type.Array(InboxNotificationSchema),
+  pagination: Type.Object({
+    total: Type.Integer(),
+    limit: Type.Integer(),
+    offset: Type.Integer(),
+    hasMore: Type.Boolean()
+  }),
+  unread: Type.Integer() // Regardless of the unread filter
+})
+
+export const UnreadCountSchema = Type.Object({
+  unread: Type.Integer()
+})
+
+export const NotificationIdParamSchema = Type.Object({
+  id: Type.String()
+})
+
+export const MarkAllReadResultSchema = Type.Object({
+  updated: Type.Integer()
+})
+
+export const ErrorSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String()
+})
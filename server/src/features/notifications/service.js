@@ -0,0 +1,404 @@
+import { NotificationRepository, PREFERENCE_COLUMNS } from './repository.js'
+import { InboxRepository } from './inbox-repository.js'
+import { TEMPLATES, INBOX_TEMPLATES } from './templates.js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Preference that opts a user in to each notification type
+export const NOTIFICATION_TYPES = {
+  event_ghosted: 'no_show_alerts',
+  daily_summary: 'daily_summary',
+  marking_overdue: 'system_alerts'
+}
+
+/**
+ * Notification Service
+ * Email: renders templated messages for opted-in users, hands them to the
+ * transport and logs every delivery.
+ * In-app: adds entries to each user's inbox (the bell menu); these are not
+ * opt-in.
+ *
+ * Trigger methods (notify*) never reject: a failed notification is logged
+ * and must not fail the change that caused it.
+ */
+export class NotificationService {
+  /**
+   * @param {Object} db
+   * @param {Object} transport - See transports.js
+   * @param {Object} options - { from, appUrl, logger }
+   */
+  constructor(db, transport, options = {}) {
+    this.repository = new NotificationRepository(db)
+    this.inbox = new InboxRepository(db)
+    this.transport = transport
+    this.from = options.from
+    this.appUrl = (options.appUrl || '').replace(/\/+$/, '')
+    this.logger = options.logger
+  }
+
+  /**
+   * Preferences of a user (all off until saved)
+   * @param {string} email
+   * @returns {Object} { no_show_alerts, daily_summary, system_alerts, updated_at }
+   */
+  async getPreferences(email) {
+    return this._toPreferences(this.repository.findPreferences(email))
+  }
+
+  /**
+   * Update preferences of a user
+   * @param {string} email
+   * @param {Object} preferences - Booleans, flags left out keep their value
+   * @returns {Object} Saved preferences
+   * @throws {Error} If the user does not exist
+   */
+  async updatePreferences(email, preferences) {
+    if (!this.repository.findUser(email)) {
+      throw new Error('User not found')
+    }
+
+    return this._toPreferences(this.repository.upsertPreferences(email, preferences))
+  }
+
+  /**
+   * Delivery log with pagination
+   * @param {Object} filters - { type, status, recipient, limit, offset }
+   * @returns {Object} { data, pagination }
+   */
+  async listDeliveries(filters = {}) {
+    const { limit = 50, offset = 0 } = filters
+    const total = this.repository.countDeliveries(filters)
+
+    return {
+      data: this.repository.findDeliveries(filters),
+      pagination: { total, limit, offset, hasMore: offset + limit < total }
+    }
+  }
+
+  /**
+   * Inbox of a user, latest first
+   * @param {string} email
+   * @param {Object} query - { unread, limit, offset }
+   * @returns {Object} { data, pagination, unread }
+   */
+  async listInbox(email, query = {}) {
+    const { limit = 20, offset = 0 } = query
+    const total = this.inbox.countByUser(email, query)
+
+    return {
+      data: this.inbox.findByUser(email, query),
+      pagination: { total, limit, offset, hasMore: offset + limit < total },
+      unread: this.inbox.countByUser(email, { unread: true })
+    }
+  }
+
+  /**
+   * Unread notifications of a user
+   * @param {string} email
+   * @returns {Object} { unread }
+   */
+  async getUnreadCount(email) {
+    return { unread: this.inbox.countByUser(email, { unread: true }) }
+  }
+
+  /**
+   * Mark one of the user's notifications as read
+   * @param {string} email
+   * @param {string} id
+   * @returns {Object} The notification
+   * @throws {Error} If it does not exist or belongs to someone else
+   */
+  async markRead(email, id) {
+    const notification = this.inbox.markRead(email, id)
+    if (!notification) {
+      throw new Error('Notification not found')
+    }
+    return notification
+  }
+
+  /**
+   * Mark all of the user's notifications as read
+   * @param {string} email
+   * @returns {Object} { updated }
+   */
+  async markAllRead(email) {
+    return { updated: this.inbox.markAllRead(email) }
+  }
+
+  /**
+   * Tell interviewers about interviews newly assigned to them
+   * One entry per interviewer, so a series or loop is not one per event;
+   * nobody is told about their own change
+   * @param {Array} events - Event rows
+   * @param {Object} auditContext - Who made the change
+   * @returns {Promise<number>} Entries created
+   */
+  async notifyEventsAssigned(events, auditContext = {}) {
+    try {
+      return this._notifyInterviewers('event_assigned', events, auditContext)
+    } catch (error) {
+      this.logger?.error(error, 'Assignment notification failed')
+      return 0
+    }
+  }
+
+  /**
+   * Tell interviewers that interviews they keep moved to another time
+   * One entry per interviewer, like assignments
+   * @param {Array} events - Event rows after the move
+   * @param {Object} auditContext - Who made the change
+   * @returns {Promise<number>} Entries created
+   */
+  async notifyEventsRescheduled(events, auditContext = {}) {
+    try {
+      return this._notifyInterviewers('event_rescheduled', events, auditContext)
+    } catch (error) {
+      this.logger?.error(error, 'Reschedule notification failed')
+      return 0
+    }
+  }
+
+  /**
+   * Tell interviewers that interviews of theirs were deleted
+   * One entry per interviewer, like assignments
+   * @param {Array} events - Event rows before deletion
+   * @param {Object} auditContext - Who made the change
+   * @returns {Promise<number>} Entries created
+   */
+  async notifyEventsRemoved(events, auditContext = {}) {
+    try {
+      return this._notifyInterviewers('event_removed', events, auditContext)
+    } catch (error) {
+      this.logger?.error(error, 'Removal notification failed')
+      return 0
+    }
+  }
+
+  /**
+   * Tell the interviewer and the coordinator that an interview's status changed
+   * @param {Object} event - Event row after the change
+   * @param {string} previousStatus
+   * @param {Object} auditContext - Who made the change (not notified)
+   * @returns {Promise<number>} Entries created
+   */
+  async notifyEventStatusChanged(event, previousStatus, auditContext = {}) {
+    try {
+      const message = INBOX_TEMPLATES.event_status_changed({ event, previousStatus })
+      const recipients = [
+        { email: event.interviewer_email, link: '/my-interviews' },
+        { email: event.coordinator_email, link: '/schedule' }
+      ].filter((recipient, index, all) =>
+        recipient.email &&
+        recipient.email !== auditContext.userEmail &&
+        all.findIndex(other => other.email === recipient.email) === index
+      )
+
+      return this.inbox.createMany(recipients.map(recipient => ({
+        user_email: recipient.email,
+        type: 'event_status_changed',
+        ...message,
+        link: recipient.link,
+        entity_type: 'event',
+        entity_id: event.id
+      })))
+    } catch (error) {
+      this.logger?.error(error, 'Status change notification failed')
+      return 0
+    }
+  }
+
+  /**
+   * Tell a user their role changed
+   * @param {Object} user - { id, email }
+   * @param {string} previousRole
+   * @param {string} role
+   * @param {Object} changedBy - { email, name }
+   * @returns {Promise<number>} Entries created
+   */
+  async notifyRoleChanged(user, previousRole, role, changedBy = {}) {
+    try {
+      if (previousRole === role || user.email === changedBy.email) return 0
+
+      return this.inbox.createMany([{
+        user_email: user.email,
+        type: 'role_changed',
+        ...INBOX_TEMPLATES.role_changed({ previousRole, role, changedBy: changedBy.name || changedBy.email }),
+        link: '/',
+        entity_type: 'user',
+        entity_id: user.id
+      }])
+    } catch (error) {
+      this.logger?.error(error, 'Role change notification failed')
+      return 0
+    }
+  }
+
+  /**
+   * Tell the coordinator and admins that an interview was a no-show
+   * Sent once per event and recipient, even if it is marked again
+   * @param {Object} event - Event row
+   * @returns {Promise<Object>} { sent, failed, skipped }
+   */
+  async notifyEventGhosted(event) {
+    try {
+      const recipients = this.repository.findRecipients(NOTIFICATION_TYPES.event_ghosted, {
+        roles: ['admin'],
+        emails: event.coordinator_email ? [event.coordinator_email] : []
+      })
+      const message = TEMPLATES.event_ghosted({
+        event,
+        interviewerName: this.repository.findInterviewerName(event.interviewer_email),
+        appUrl: this.appUrl
+      })
+
+      return await this._deliver('event_ghosted', recipients.map(user => ({ user, message })), `event_ghosted:${event.id}`)
+    } catch (error) {
+      this.logger?.error(error, 'No-show notification failed')
+      return { sent: 0, failed: 0, skipped: 0 }
+    }
+  }
+
+  /**
+   * Tell coordinators and admins about newly escalated interviews
+   * Admins get every event, coordinators only their own
+   * @param {Array} events - Escalated event rows (with interviewer_name)
+   * @param {number} escalateAfterHours - For the message
+   * @returns {Promise<Object>} { sent, failed, skipped }
+   */
+  async notifyMarkingOverdue(events, escalateAfterHours) {
+    try {
+      if (events.length === 0) return { sent: 0, failed: 0, skipped: 0 }
+
+      const coordinators = [...new Set(events.map(event => event.coordinator_email).filter(Boolean))]
+      const recipients = this.repository.findRecipients(NOTIFICATION_TYPES.marking_overdue, {
+        roles: ['admin'],
+        emails: coordinators
+      })
+
+      const messages = recipients
+        .map(user => ({
+          user,
+          events: user.role === 'admin' ? events : events.filter(event => event.coordinator_email === user.email)
+        }))
+        .filter(({ events }) => events.length > 0)
+        .map(({ user, events }) => ({
+          user,
+          message: TEMPLATES.marking_overdue({ events, escalateAfterHours, appUrl: this.appUrl })
+        }))
+
+      return await this._deliver('marking_overdue', messages)
+    } catch (error) {
+      this.logger?.error(error, 'Overdue marking notification failed')
+      return { sent: 0, failed: 0, skipped: 0 }
+    }
+  }
+
+  /**
+   * Send yesterday's summary (UTC days) to opted-in coordinators and admins
+   * Recipients who already received the summary for that day are skipped
+   * @param {Date} [now]
+   * @returns {Promise<Object>} { date, sent, failed, skipped }
+   */
+  async sendDailySummary(now = new Date()) {
+    const today = now.toISOString().slice(0, 10)
+    const todayStart = `${today}T00:00:00.000Z`
+    const yesterdayStart = new Date(Date.parse(todayStart) - DAY_MS).toISOString()
+    const tomorrowStart = new Date(Date.parse(todayStart) + DAY_MS).toISOString()
+    const date = yesterdayStart.slice(0, 10)
+
+    const message = TEMPLATES.daily_summary({
+      date,
+      counts: this.repository.countByStatus(yesterdayStart, todayStart),
+      scheduledToday: this.repository.countByStatus(todayStart, tomorrowStart).pending,
+      appUrl: this.appUrl
+    })
+    const recipients = this.repository.findRecipients(NOTIFICATION_TYPES.daily_summary, {
+      roles: ['talent', 'admin']
+    })
+
+    const result = await this._deliver(
+      'daily_summary',
+      recipients.map(user => ({ user, message })),
+      `daily_summary:${date}`
+    )
+    return { date, ...result }
+  }
+
+  /**
+   * One inbox entry per interviewer for a batch of their events, skipping
+   * whoever made the change
+   * @private
+   * @param {string} type - event_assigned, event_rescheduled or event_removed
+   * @param {Array} events - Event rows
+   * @param {Object} auditContext
+   * @returns {number} Entries created
+   */
+  _notifyInterviewers(type, events, auditContext) {
+    const byInterviewer = new Map()
+    events
+      .filter(event => event.interviewer_email !== auditContext.userEmail)
+      .sort((a, b) => a.start_time.localeCompare(b.start_time))
+      .forEach(event => {
+        const list = byInterviewer.get(event.interviewer_email) || []
+        byInterviewer.set(event.interviewer_email, [...list, event])
+      })
+
+    return this.inbox.createMany([...byInterviewer].map(([email, list]) => ({
+      user_email: email,
+      type,
+      ...INBOX_TEMPLATES[type]({ events: list }),
+      link: '/my-interviews',
+      entity_type: 'event',
+      entity_id: list[0].id
+    })))
+  }
+
+  /**
+   * Send each message and log the outcome
+   * @param {string} type - Notification type
+   * @param {Array} messages - [{ user, message: { subject, text } }]
+   * @param {string} [dedupeKey] - Skip recipients who already got this
+   * @returns {Promise<Object>} { sent, failed, skipped }
+   */
+  async _deliver(type, messages, dedupeKey) {
+    const result = { sent: 0, failed: 0, skipped: 0 }
+
+    for (const { user, message } of messages) {
+      if (dedupeKey && this.repository.wasDelivered(user.email, dedupeKey)) {
+        result.skipped++
+        continue
+      }
+
+      let error = null
+      try {
+        await this.transport.send({
+          from: this.from,
+          to: user.name ? `"${user.name.replace(/"/g, '')}" <${user.email}>` : user.email,
+          subject: message.subject,
+          text: message.text
+        })
+      } catch (sendError) {
+        error = sendError.message
+        this.logger?.warn({ type, recipient: user.email, error }, 'Notification delivery failed')
+      }
+
+      this.repository.createDelivery({
+        type,
+        recipient: user.email,
+        subject: message.subject,
+        transport: this.transport.name,
+        status: error ? 'failed' : 'sent',
+        error,
+        dedupe_key: dedupeKey
+      })
+      result[error ? 'failed' : 'sent']++
+    }
+
+    return result
+  }
+
+  _toPreferences(row) {
+    const preferences = Object.fromEntries(PREFERENCE_COLUMNS.map(column => [column, Boolean(row?.[column])]))
+    return { ...preferences, updated_at: row?.updated_at ?? null }
+  }
+}
@@ -0,0 +1,145 @@
+import { NotificationService } from './service.js'
+import { createTestDb, createInterviewer, createUser } from '../../test/helpers.js'
+
+describe('NotificationService', () => {
+  let db
+  let sent
+  let service
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    sent = []
+    const transport = {
+      name: 'test',
+      send: async message => {
+        sent.push(message)
+        return { messageId: String(sent.length) }
+      }
+    }
+    service = new NotificationService(db, transport, {
+      from: 'roster@example.com',
+      appUrl: 'https://roster.example.com'
+    })
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  const recipients = () => sent.map(message => message.to)
+
+  describe('preferences', () => {
+    it('starts with every notification off', async () => {
+      const user = createUser(db)
+
+      await expect(service.getPreferences(user.email)).resolves.toMatchObject({
+        no_show_alerts: false,
+        daily_summary: false,
+        system_alerts: false
+      })
+    })
+
+    it('keeps flags that are left out of an update', async () => {
+      const user = createUser(db)
+      await service.updatePreferences(user.email, { no_show_alerts: true, daily_summary: true })
+
+      const preferences = await service.updatePreferences(user.email, { daily_summary: false })
+
+      expect(preferences).toMatchObject({ no_show_alerts: true, daily_summary: false })
+    })
+
+    it('rejects unknown users', async () => {
+      await expect(
+        service.updatePreferences('nobody@example.com', { daily_summary: true })
+      ).rejects.toThrow('User not found')
+    })
+  })
+
+  describe('notifyEventGhosted', () => {
+    let interviewer
+    const ghosted = (data = {}) => ({
+      id: 'evt1',
+      interviewer_email: interviewer.email,
+      candidate_name: 'Jo Candidate',
+      start_time: '2026-03-02T09:00:00.000Z',
+      end_time: '2026-03-02T10:00:00.000Z',
+      status: 'ghosted',
+      ...data
+    })
+
+    beforeEach(() => {
+      interviewer = createInterviewer(db)
+    })
+
+    it('emails only admins who opted in to no-show alerts', async () => {
+      const optedIn = createUser(db, { email: 'alerts@example.com', name: 'Al Admin' })
+      createUser(db, { email: 'quiet@example.com' })
+      const optedOut = createUser(db, { email: 'off@example.com' })
+      await service.updatePreferences(optedIn.email, { no_show_alerts: true })
+      await service.updatePreferences(optedOut.email, { no_show_alerts: false, daily_summary: true })
+
+      const result = await service.notifyEventGhosted(ghosted())
+
+      expect(result).toEqual({ sent: 1, failed: 0, skipped: 0 })
+      expect(recipients()).toEqual(['"Al Admin" <alerts@example.com>'])
+      expect(sent[0].subject).toContain('No-show')
+    })
+
+    it('includes the coordinator of the event only when opted in', async () => {
+      const coordinator = createUser(db, { email: 'coord@example.com', name: 'Cy Talent', role: 'talent' })
+      const otherTalent = createUser(db, { email: 'talent@example.com', role: 'talent' })
+      await service.updatePreferences(otherTalent.email, { no_show_alerts: true })
+
+      await service.notifyEventGhosted(ghosted({ coordinator_email: coordinator.email }))
+      expect(sent).toHaveLength(0)
+
+      await service.updatePreferences(coordinator.email, { no_show_alerts: true })
+      await service.notifyEventGhosted(ghosted({ coordinator_email: coordinator.email }))
+      expect(recipients()).toEqual(['"Cy Talent" <coord@example.com>'])
+    })
+
+    it('sends each no-show once and logs the delivery', async () => {
+      const admin = createUser(db)
+      await service.updatePreferences(admin.email, { no_show_alerts: true })
+
+      await service.notifyEventGhosted(ghosted())
+      const again = await service.notifyEventGhosted(ghosted())
+
+      expect(again).toEqual({ sent: 0, failed: 0, skipped: 1 })
+      const { data } = await service.listDeliveries()
+      expect(data).toEqual([
+        expect.objectContaining({ type: 'event_ghosted', recipient: admin.email, status: 'sent', transport: 'test' })
+      ])
+    })
+  })
+
+  describe('sendDailySummary', () => {
+    it('goes to opted-in talent and admins, not viewers', async () => {
+      const talent = createUser(db, { email: 'talent@example.com', role: 'talent' })
+      const viewer = createUser(db, { email: 'viewer@example.com', role: 'viewer' })
+      createUser(db, { email: 'admin@example.com' })
+      await service.updatePreferences(talent.email, { daily_summary: true })
+      await service.updatePreferences(viewer.email, { daily_summary: true })
+
+      const result = await service.sendDailySummary(new Date('2026-03-03T08:00:00.000Z'))
+
+      expect(result).toEqual({ date: '2026-03-02', sent: 1, failed: 0, skipped: 0 })
+      expect(recipients()).toEqual([expect.stringContaining('<talent@example.com>')])
+    })
+
+    it('records failed deliveries without rejecting', async () => {
+      const admin = createUser(db)
+      await service.updatePreferences(admin.email, { daily_summary: true })
+      service.transport = {
+        name: 'test',
+        send: async () => { throw new Error('Relay refused the message') }
+      }
+
+      const result = await service.sendDailySummary(new Date('2026-03-03T08:00:00.000Z'))
+
+      expect(result).toMatchObject({ sent: 0, failed: 1 })
+      const { data } = await service.listDeliveries({ status: 'failed' })
+      expect(data[0]).toMatchObject({ recipient: admin.email, error: 'Relay refused the message' })
+    })
+  })
+})
@@ -0,0 +1,319 @@
+import net from 'node:net'
+import tls from 'node:tls'
+import { hostname } from 'node:os'
+import { nanoid } from 'nanoid'
+
+// Bytes per RFC 2047 encoded word: 45 bytes are 60 base64 characters,
+// 72 with the =?UTF-8?B?...?= wrapper (the limit is 75)
+const ENCODED_WORD_BYTES = 45
+
+/**
+ * SMTP Client
+ * Minimal client for sending plain-text messages to a relay
+ *
+ * Speaks just enough SMTP for a submission server: EHLO, STARTTLS when the
+ * server offers it (or implicit TLS with `secure`), AUTH PLAIN, one
+ * recipient per message. Bodies are sent base64 encoded, so no 8BITMIME or
+ * dot-stuffing is needed. Runs against the fake SMTP server in
+ * scripts/fake-smtp-server.js for local testing.
+ */
+export class SmtpClient {
+  /**
+   * @param {Object} options
+   * @param {string} options.host
+   * @param {number} options.port
+   * @param {boolean} [options.secure=false] - Implicit TLS (usually port 465)
+   * @param {string} [options.user] - AUTH PLAIN credentials, skipped when empty
+   * @param {string} [options.password]
+   * @param {number} [options.timeoutMs=30000] - Connect, TLS handshake and
+   *   inactivity timeout
+   */
+  constructor(options) {
+    this.host = options.host
+    this.port = options.port
+    this.secure = options.secure ?? false
+    this.user = options.user
+    this.password = options.password
+    this.timeoutMs = options.timeoutMs ?? 30000
+  }
+
+  /**
+   * Send one message
+   * @param {Object} message
+   * @param {string} message.from - Address or "Name <address>"
+   * @param {string} message.to - Address or "Name <address>"
+   * @param {string} message.subject
+   * @param {string} message.text
+   * @returns {Promise<{messageId: string}>}
+   * @throws {Error} When the connection fails or the server rejects a command
+   */
+  async send({ from, to, subject, text }) {
+    const connection = await SmtpConnection.open(this)
+    const messageId = `<${nanoid()}@${addressOf(from).split('@')[1] || 'localhost'}>`
+
+    try {
+      await connection.expect(220)
+      let features = await connection.command(`EHLO ${hostname()}`, 250)
+
+      if (!this.secure && features.includes('STARTTLS')) {
+        await connection.command('STARTTLS', 220)
+        await connection.upgrade(this.host)
+        features = await connection.command(`EHLO ${hostname()}`, 250)
+      }
+
+      if (this.user) {
+        if (!features.some(line => /^AUTH\b.*\bPLAIN\b/i.test(line))) {
+          throw new Error('SMTP server does not offer AUTH PLAIN')
+        }
+        const credentials = Buffer.from(`\0${this.user}\0${this.password}`).toString('base64')
+        await connection.command(`AUTH PLAIN ${credentials}`, 235)
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(from)}>`, 250)
+      await connection.command(`RCPT TO:<${addressOf(to)}>`, [250, 251])
+      await connection.command('DATA', 354)
+      await connection.command(`${formatMessage({ from, to, subject, text, messageId })}\r\n.`, 250)
+      await connection.command('QUIT', 221).catch(() => {})
+
+      return { messageId }
+    } finally {
+      connection.close()
+    }
+  }
+}
+
+/**
+ * One SMTP session: line buffering, multi-line replies and the TLS upgrade
+ */
+class SmtpConnection {
+  /**
+   * Connect to the server
+   * @param {SmtpClient} client
+   * @returns {Promise<SmtpConnection>}
+   */
+  static open(client) {
+    return new Promise((resolve, reject) => {
+      const socket = client.secure
+        ? tls.connect({ host: client.host, port: client.port, servername: client.host })
+        : net.connect({ host: client.host, port: client.port })
+
+      const timedOut = () => socket.destroy(new Error('SMTP connection timed out'))
+      socket.setTimeout(client.timeoutMs, timedOut)
+
+      socket.once(client.secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject)
+        socket.off('timeout', timedOut)
+        resolve(new SmtpConnection(socket, client.timeoutMs))
+      })
+      socket.once('error', reject)
+    })
+  }
+
+  constructor(socket, timeoutMs) {
+    this.timeoutMs = timeoutMs
+    this.buffer = ''
+    this.lines = []
+    this.replies = []
+    this.waiting = null
+    this.failure = null
+    this._attach(socket)
+  }
+
+  /**
+   * Send a command and wait for its reply
+   * @param {string} line
+   * @param {number|Array<number>} expected - Accepted reply code(s)
+   * @returns {Promise<Array<string>>} Reply text, one entry per line
+   */
+  command(line, expected) {
+    this.socket.write(`${line}\r\n`)
+    return this.expect(expected)
+  }
+
+  /**
+   * Wait for the next reply
+   * @param {number|Array<number>} expected - Accepted reply code(s)
+   * @returns {Promise<Array<string>>} Reply text, one entry per line
+   * @throws {Error} When the code is not one of the expected ones
+   */
+  async expect(expected) {
+    const { code, lines } = await this._nextReply()
+    if (![].concat(expected).includes(code)) {
+      throw new Error(`SMTP error ${code}: ${lines.join(' ')}`)
+    }
+    return lines
+  }
+
+  /**
+   * Switch the session to TLS after STARTTLS was accepted
+   * @param {string} host - For certificate verification
+   * @returns {Promise<void>}
+   */
+  upgrade(host) {
+    const plain = this.socket
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('error')
+    plain.removeAllListeners('close')
+    plain.removeAllListeners('timeout')
+    plain.setTimeout(0)
+
+    return new Promise((resolve, reject) => {
+      const timedOut = () => secure.destroy(new Error('SMTP TLS handshake timed out'))
+      const secure = tls.connect({ socket: plain, servername: host }, () => {
+        secure.off('error', reject)
+        secure.off('timeout', timedOut)
+        this._attach(secure)
+        resolve()
+      })
+      secure.setTimeout(this.timeoutMs, timedOut)
+      secure.once('error', reject)
+    })
+  }
+
+  close() {
+    this.socket.destroy()
+  }
+
+  _attach(socket) {
+    this.socket = socket
+    socket.setEncoding('utf8')
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')))
+    socket.on('data', chunk => {
+      this.buffer += chunk
+      this._parse()
+    })
+    socket.on('error', error => this._fail(error))
+    socket.on('close', () => this._fail(new Error('SMTP connection closed')))
+  }
+
+  /**
+   * Split buffered text into replies; "250-..." lines continue a reply,
+   * "250 ..." ends it
+   */
+  _parse() {
+    let end
+    while ((end = this.buffer.indexOf('\r\n')) !== -1) {
+      const line = this.buffer.slice(0, end)
+      this.buffer = this.buffer.slice(end + 2)
+      this.lines.push(line.slice(4))
+
+      if (line[3] !== '-') {
+        this.replies.push({ code: parseInt(line.slice(0, 3), 10), lines: this.lines })
+        this.lines = []
+      }
+    }
+    this._settle()
+  }
+
+  _nextReply() {
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this._settle()
+    })
+  }
+
+  _settle() {
+    if (!this.waiting) return
+
+    const { resolve, reject } = this.waiting
+    if (this.replies.length > 0) {
+      this.waiting = null
+      resolve(this.replies.shift())
+    } else if (this.failure) {
+      this.waiting = null
+      reject(this.failure)
+    }
+  }
+
+  _fail(error) {
+    this.failure = this.failure || error
+    this._settle()
+  }
+}
+
+/**
+ * Bare address of "Name <address>" (or the address itself)
+ * The last <...> is the address, so a display name cannot smuggle one in;
+ * line breaks are dropped so it cannot end an SMTP command or header
+ * @param {string} value
+ * @returns {string}
+ */
+function addressOf(value) {
+  const match = /<([^<>]*)>\s*$/.exec(value)
+  return stripLineBreaks(match ? match[1] : value).trim()
+}
+
+/**
+ * From/To header value: the display name quoted, or encoded when it is not
+ * plain ASCII
+ * e.g. 'Jane "JJ" Doe <jane@example.com>' → '"Jane \"JJ\" Doe" <jane@example.com>'
+ * @param {string} value - Address or "Name <address>"
+ * @returns {string}
+ */
+function formatAddress(value) {
+  const address = addressOf(value)
+  const match = /<[^<>]*>\s*$/.exec(value)
+  const name = stripLineBreaks(match ? value.slice(0, match.index) : '')
+    .trim()
+    .replace(/^"(.*)"$/, (_, quoted) => quoted.replace(/\\(.)/g, '$1'))
+
+  if (!name) return address
+  return /^[\x20-\x7e]*$/.test(name)
+    ? `"${name.replace(/["\\]/g, '\\$&')}" <${address}>`
+    : `${encodeHeader(name)} <${address}>`
+}
+
+/**
+ * @param {string} value
+ * @returns {string} value without CR and LF
+ */
+function stripLineBreaks(value) {
+  return value.replace(/[\r\n]+/g, ' ')
+}
+
+/**
+ * RFC 5322 message with a base64 text body
+ * @param {Object} message - { from, to, subject, text, messageId }
+ * @returns {string}
+ */
+function formatMessage({ from, to, subject, text, messageId }) {
+  const body = Buffer.from(text.replace(/\r?\n/g, '\r\n')).toString('base64')
+
+  return [
+    `From: ${formatAddress(from)}`,
+    `To: ${formatAddress(to)}`,
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...(body.match(/.{1,76}/g) || [])
+  ].join('\r\n')
+}
+
+/**
+ * RFC 2047 encoded words for headers with non-ASCII text (or line breaks)
+ * Split so each word stays within 75 characters without cutting a character
+ * @param {string} value
+ * @returns {string}
+ */
+function encodeHeader(value) {
+  if (/^[\x20-\x7e]*$/.test(value)) return value
+
+  const words = []
+  let chunk = ''
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > ENCODED_WORD_BYTES) {
+      words.push(chunk)
+      chunk = ''
+    }
+    chunk += char
+  }
+  words.push(chunk)
+
+  return words
+    .map(word => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`)
+    .join(' ')
+}
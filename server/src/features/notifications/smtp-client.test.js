@@ -0,0 +1,84 @@
+import { createServer } from 'node:net'
+import { once } from 'node:events'
+import { SmtpClient } from './smtp-client.js'
+import { SmtpTransport } from './transports.js'
+import { NotificationService } from './service.js'
+import { createTestDb, createUser } from '../../test/helpers.js'
+
+const MESSAGE = {
+  from: 'roster@example.com',
+  to: 'ann@example.com',
+  subject: 'Hello',
+  text: 'Hi'
+}
+
+describe('SmtpClient timeouts', () => {
+  let server
+  let sockets
+
+  // A relay that accepts connections and answers SMTP lines with `respond`
+  const startRelay = async (respond = () => {}) => {
+    sockets = []
+    server = createServer(socket => {
+      sockets.push(socket)
+      socket.setEncoding('utf8')
+      socket.on('error', () => {})
+      respond(socket, null)
+      socket.on('data', chunk => chunk.split('\r\n').filter(Boolean).forEach(line => respond(socket, line)))
+    }).listen(0, 'localhost')
+    await once(server, 'listening')
+    return { host: 'localhost', port: server.address().port, timeoutMs: 100 }
+  }
+
+  afterEach(async () => {
+    sockets.forEach(socket => socket.destroy())
+    server.close()
+    await once(server, 'close')
+  })
+
+  it('gives up on a relay that never answers', async () => {
+    const client = new SmtpClient(await startRelay())
+
+    await expect(client.send(MESSAGE)).rejects.toThrow('SMTP connection timed out')
+  })
+
+  it('gives up on a TLS handshake that never completes', async () => {
+    let upgraded = false
+    const client = new SmtpClient(await startRelay((socket, line) => {
+      // After STARTTLS the client speaks TLS, which this relay ignores
+      if (upgraded) return
+      if (line === null) socket.write('220 relay ready\r\n')
+      else if (line.startsWith('EHLO')) socket.write('250-relay\r\n250 STARTTLS\r\n')
+      else if (line === 'STARTTLS') {
+        upgraded = true
+        socket.write('220 go ahead\r\n')
+      }
+    }))
+
+    await expect(client.send(MESSAGE)).rejects.toThrow('SMTP TLS handshake timed out')
+  })
+
+  it('logs a timed-out notification as a failed delivery', async () => {
+    const db = await createTestDb()
+    try {
+      const admin = createUser(db)
+      const service = new NotificationService(db, new SmtpTransport(await startRelay()), {
+        from: MESSAGE.from,
+        appUrl: 'https://roster.example.com'
+      })
+      await service.updatePreferences(admin.email, { daily_summary: true })
+
+      const result = await service.sendDailySummary(new Date('2026-03-03T08:00:00.000Z'))
+
+      expect(result).toMatchObject({ sent: 0, failed: 1 })
+      const { data } = await service.listDeliveries({ status: 'failed' })
+      expect(data[0]).toMatchObject({
+        recipient: admin.email,
+        transport: 'smtp',
+        error: 'SMTP connection timed out'
+      })
+    } finally {
+      db.close()
+    }
+  })
+})
@@ -0,0 +1,186 @@
+/**
+ * Notification templates
+ * One function per notification type, rendering `{ subject, text }` for
+ * email and `{ title, body }` for the in-app inbox from the trigger's data.
+ * Times are shown in UTC.
+ */
+
+/**
+ * "Mon, 6 May 2024, 14:00 UTC"
+ * @param {string} iso
+ * @returns {string}
+ */
+function formatTime(iso) {
+  return new Date(iso).toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short'
+  })
+}
+
+/**
+ * "Jane Doe for Backend Engineer", or what is known of it
+ * @param {Object} event
+ * @returns {string}
+ */
+function describeCandidate(event) {
+  const candidate = event.candidate_name || 'a candidate'
+  return event.position ? `${candidate} for ${event.position}` : candidate
+}
+
+export const TEMPLATES = {
+  /**
+   * An interview was marked as a no-show
+   * @param {Object} data - { event, interviewerName, appUrl }
+   */
+  event_ghosted({ event, interviewerName, appUrl }) {
+    const interviewer = interviewerName || event.interviewer_email
+    return {
+      subject: `No-show: ${interviewer} missed the interview with ${event.candidate_name || 'a candidate'}`,
+      text: [
+        `${interviewer} (${event.interviewer_email}) was marked as a no-show for the interview with ${describeCandidate(event)}.`,
+        '',
+        `When: ${formatTime(event.start_time)}`,
+        event.marked_by ? `Marked by: ${event.marked_by}` : null,
+        '',
+        `Reschedule or follow up: ${appUrl}/events`
+      ].filter(line => line !== null).join('\n')
+    }
+  },
+
+  /**
+   * Yesterday's interviews by status and today's schedule
+   * @param {Object} data - { date, counts, scheduledToday, appUrl }
+   */
+  daily_summary({ date, counts, scheduledToday, appUrl }) {
+    return {
+      subject: `Interview summary for ${date}`,
+      text: [
+        `Interviews on ${date}: ${counts.total}`,
+        `  Attended: ${counts.attended}`,
+        `  No-show: ${counts.ghosted}`,
+        `  Cancelled: ${counts.cancelled}`,
+        `  Not marked yet: ${counts.pending}`,
+        '',
+        `Scheduled today: ${scheduledToday}`,
+        '',
+        `Dashboard: ${appUrl}/`
+      ].join('\n')
+    }
+  },
+
+  /**
+   * Interviews escalated for being left unmarked
+   * @param {Object} data - { events, escalateAfterHours, appUrl }
+   */
+  marking_overdue({ events, escalateAfterHours, appUrl }) {
+    const count = events.length
+    return {
+      subject: `${count} interview${count === 1 ? '' : 's'} still not marked after ${escalateAfterHours} hours`,
+      text: [
+        `These interviews ended over ${escalateAfterHours} hours ago and are still pending:`,
+        '',
+        ...events.map(event =>
+          `- ${formatTime(event.start_time)}: ${describeCandidate(event)} with ${event.interviewer_name || event.interviewer_email}`
+        ),
+        '',
+        `Mark them: ${appUrl}/needs-marking`
+      ].join('\n')
+    }
+  }
+}
+
+const STATUS_LABELS = {
+  pending: 'pending',
+  attended: 'attended',
+  ghosted: 'a no-show',
+  cancelled: 'cancelled'
+}
+
+const ROLE_LABELS = {
+  viewer: 'Viewer',
+  talent: 'Talent Acquisition',
+  admin: 'Admin'
+}
+
+export const INBOX_TEMPLATES = {
+  /**
+   * Interviews assigned to one interviewer (a single event, a series or
+   * the interviewer's stages of a loop)
+   * @param {Object} data - { events } sorted by start time
+   */
+  event_assigned({ events }) {
+    const [first] = events
+    return events.length === 1
+      ? {
+          title: `New interview with ${first.candidate_name || 'a candidate'}`,
+          body: `${formatTime(first.start_time)}${first.position ? `, ${first.position}` : ''}`
+        }
+      : {
+          title: `${events.length} new interviews assigned to you`,
+          body: `First on ${formatTime(first.start_time)}`
+        }
+  },
+
+  /**
+   * Interviews of one interviewer moved to another time (a single event or
+   * the occurrences of a series)
+   * @param {Object} data - { events } sorted by start time, after the move
+   */
+  event_rescheduled({ events }) {
+    const [first] = events
+    return events.length === 1
+      ? {
+          title: `Interview with ${first.candidate_name || 'a candidate'} moved`,
+          body: `Now ${formatTime(first.start_time)}`
+        }
+      : {
+          title: `${events.length} of your interviews moved`,
+          body: `First now on ${formatTime(first.start_time)}`
+        }
+  },
+
+  /**
+   * Interviews of one interviewer deleted (e.g. the rest of a series)
+   * @param {Object} data - { events } sorted by start time
+   */
+  event_removed({ events }) {
+    const [first] = events
+    return events.length === 1
+      ? {
+          title: `Interview with ${first.candidate_name || 'a candidate'} removed`,
+          body: `Was ${formatTime(first.start_time)}`
+        }
+      : {
+          title: `${events.length} of your interviews removed`,
+          body: `First was on ${formatTime(first.start_time)}`
+        }
+  },
+
+  /**
+   * An interview's status changed
+   * @param {Object} data - { event, previousStatus }
+   */
+  event_status_changed({ event, previousStatus }) {
+    return {
+      title: `Interview with ${event.candidate_name || 'a candidate'} marked ${STATUS_LABELS[event.status] || event.status}`,
+      body: `${formatTime(event.start_time)}, was ${STATUS_LABELS[previousStatus] || previousStatus}`
+    }
+  },
+
+  /**
+   * The user's role changed
+   * @param {Object} data - { previousRole, role, changedBy }
+   */
+  role_changed({ previousRole, role, changedBy }) {
+    return {
+      title: `Your role is now ${ROLE_LABELS[role] || role}`,
+      body: `Changed from ${ROLE_LABELS[previousRole] || previousRole}${changedBy ? ` by ${changedBy}` : ''}`
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { appendFile, mkdir } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import { nanoid } from 'nanoid'
+import { SmtpClient } from './smtp-client.js'
+
+/**
+ * Notification transports
+ * Each transport has a `name` and `send({ from, to, subject, text })`
+ * resolving to `{ messageId }` or rejecting when the message was not sent.
+ * Any object with that surface can be passed to NotificationService.
+ */
+
+/**
+ * Sends through an SMTP relay
+ */
+export class SmtpTransport {
+  /**
+   * @param {Object} options - SmtpClient options
+   */
+  constructor(options) {
+    this.name = 'smtp'
+    this.client = new SmtpClient(options)
+  }
+
+  async send(message) {
+    return this.client.send(message)
+  }
+}
+
+/**
+ * Appends messages to a local file (one block per message)
+ */
+export class FileTransport {
+  /**
+   * @param {Object} options
+   * @param {string} options.path - File to append to, created when missing
+   */
+  constructor(options) {
+    this.name = 'file'
+    this.path = options.path
+  }
+
+  async send({ from, to, subject, text }) {
+    const messageId = nanoid()
+    await mkdir(dirname(this.path), { recursive: true })
+    await appendFile(this.path, [
+      `--- ${new Date().toISOString()} ${messageId}`,
+      `From: ${from}`,
+      `To: ${to}`,
+      `Subject: ${subject}`,
+      '',
+      text,
+      '',
+      ''
+    ].join('\n'))
+    return { messageId }
+  }
+}
+
+/**
+ * Writes messages to the application log
+ */
+export class ConsoleTransport {
+  /**
+   * @param {Object} [logger] - pino-style logger (defaults to console)
+   */
+  constructor(logger) {
+    this.name = 'console'
+    this.logger = logger
+  }
+
+  async send({ from, to, subject, text }) {
+    const messageId = nanoid()
+    if (this.logger) {
+      this.logger.info({ messageId, from, to, subject, text }, 'Notification')
+    } else {
+      console.log(`[notification ${messageId}] To: ${to}\nSubject: ${subject}\n\n${text}\n`)
+    }
+    return { messageId }
+  }
+}
+
+/**
+ * Transport for the notifications config
+ * @param {Object} options - config.notifications
+ * @param {Object} [logger] - For the console transport
+ * @returns {SmtpTransport|FileTransport|ConsoleTransport}
+ * @throws {Error} For an unknown transport name
+ */
+export function createTransport(options, logger) {
+  switch (options.transport) {
+    case 'smtp':
+      return new SmtpTransport(options.smtp)
+    case 'file':
+      return new FileTransport({ path: options.filePath })
+    case 'console':
+      return new ConsoleTransport(logger)
+    default:
+      throw new Error(`Unknown notification transport: ${options.transport}`)
+  }
+}
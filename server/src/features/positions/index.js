@@ -0,0 +1,17 @@
+import { PositionService } from './service.js'
+import routes from './routes.js'
+
+/**
+ * Positions feature plugin
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function positionsPlugin(fastify, _options) {
+  // Create service instance
+  const service = new PositionService(fastify.db, fastify.auditLogger)
+
+  // Register routes with service
+  await fastify.register(routes, { prefix: '/positions', service })
+
+  fastify.log.info('Positions feature registered')
+}
@@ -0,0 +1,202 @@
+/**
+ * Position Repository
+ * Data access layer for positions table
+ */
+export class PositionRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * Find all positions with optional filtering
+   * Includes interview counts for list views
+   * @param {Object} filters
+   * @returns {Array}
+   */
+  findAll(filters = {}) {
+    const { status, department, search, limit = 50, offset = 0 } = filters
+
+    let sql = `
+      SELECT p.*,
+        (SELECT COUNT(*) FROM interview_events e WHERE e.position_id = p.id) as interview_count
+      FROM positions p
+      WHERE 1=1
+    `
+    const params = []
+
+    if (status) {
+      sql += ' AND p.status = ?'
+      params.push(status)
+    }
+
+    if (department) {
+      sql += ' AND p.department = ?'
+      params.push(department)
+    }
+
+    if (search) {
+      sql += ' AND (p.title LIKE ? OR p.department LIKE ? OR p.hiring_manager_email LIKE ?)'
+      const searchPattern = `%${search}%`
+      params.push(searchPattern, searchPattern, searchPattern)
+    }
+
+    sql += ' ORDER BY p.status ASC, p.title ASC LIMIT ? OFFSET ?'
+    params.push(limit, offset)
+
+    return this.db.prepare(sql).all(...params).map(row => this._parseRow(row))
+  }
+
+  /**
+   * Count positions matching filters
+   * @param {Object} filters
+   * @returns {number}
+   */
+  count(filters = {}) {
+    const { status, department, search } = filters
+
+    let sql = 'SELECT COUNT(*) as count FROM positions WHERE 1=1'
+    const params = []
+
+    if (status) {
+      sql += ' AND status = ?'
+      params.push(status)
+    }
+
+    if (department) {
+      sql += ' AND department = ?'
+      params.push(department)
+    }
+
+    if (search) {
+      sql += ' AND (title LIKE ? OR department LIKE ? OR hiring_manager_email LIKE ?)'
+      const searchPattern = `%${search}%`
+      params.push(searchPattern, searchPattern, searchPattern)
+    }
+
+    return this.db.prepare(sql).get(...params).count
+  }
+
+  /**
+   * Find every position title (for fuzzy duplicate checks)
+   * @returns {Array<{id: string, title: string}>}
+   */
+  findAllTitles() {
+    return this.db.prepare('SELECT id, title FROM positions').all()
+  }
+
+  /**
+   * Find position by ID
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  findById(id) {
+    const row = this.db.prepare('SELECT * FROM positions WHERE id = ?').get(id)
+    return row ? this._parseRow(row) : null
+  }
+
+  /**
+   * Find position by title (case-insensitive)
+   * @param {string} title
+   * @returns {Object|null}
+   */
+  findByTitle(title) {
+    const row = this.db.prepare('SELECT * FROM positions WHERE title = ?').get(title)
+    return row ? this._parseRow(row) : null
+  }
+
+  /**
+   * Create new position
+   * @param {Object} data
+   * @param {Object} auditContext
+   * @returns {Object}
+   */
+  create(data, auditContext) {
+    this.db.prepare(`
+      INSERT INTO positions (id, title, department, hiring_manager_email, required_skills, status, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      data.id,
+      data.title,
+      data.department || null,
+      data.hiring_manager_email || null,
+      JSON.stringify(data.required_skills || []),
+      data.status || 'open',
+      auditContext?.userEmail || null
+    )
+
+    return this.findById(data.id)
+  }
+
+  /**
+   * Update position
+   * Keeps the position display copy on linked events and loops in sync
+   * @param {string} id
+   * @param {Object} data
+   * @returns {Object|null}
+   */
+  update(id, data) {
+    const fields = []
+    const values = []
+
+    const allowedFields = ['title', 'department', 'hiring_manager_email', 'required_skills', 'status']
+
+    allowedFields.forEach(field => {
+      if (data[field] !== undefined) {
+        fields.push(`${field} = ?`)
+        values.push(field === 'required_skills' ? JSON.stringify(data[field]) : data[field])
+      }
+    })
+
+    if (fields.length === 0) {
+      return this.findById(id)
+    }
+
+    fields.push('updated_at = datetime(\'now\')')
+    values.push(id)
+
+    const updatePosition = this.db.transaction(() => {
+      this.db.prepare(`UPDATE positions SET ${fields.join(', ')} WHERE id = ?`).run(...values)
+
+      if (data.title !== undefined) {
+        this.db
+          .prepare('UPDATE interview_events SET position = ? WHERE position_id = ?')
+          .run(data.title, id)
+        this.db
+          .prepare('UPDATE interview_loops SET position = ? WHERE position_id = ?')
+          .run(data.title, id)
+      }
+    })
+    updatePosition()
+
+    return this.findById(id)
+  }
+
+  /**
+   * Delete position
+   * Linked events and loops keep their position text but lose the reference
+   * @param {string} id
+   * @returns {boolean}
+   */
+  delete(id) {
+    const deletePosition = this.db.transaction(() => {
+      this.db.prepare('UPDATE interview_events SET position_id = NULL WHERE position_id = ?').run(id)
+      this.db.prepare('UPDATE interview_loops SET position_id = NULL WHERE position_id = ?').run(id)
+      return this.db.prepare('DELETE FROM positions WHERE id = ?').run(id)
+    })
+
+    return deletePosition().changes > 0
+  }
+
+  /**
+   * Parse JSON fields
+   * @private
+   * @param {Object} row
+   * @returns {Object}
+   */
+  _parseRow(row) {
+    return {
+      ...row,
+      required_skills: JSON.parse(row.required_skills || '[]')
+    }
+  }
+}
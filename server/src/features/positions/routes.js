@@ -0,0 +1,177 @@
+import {
+  PositionSchema,
+  CreatePositionSchema,
+  UpdatePositionSchema,
+  ListPositionsQuerySchema,
+  PositionIdParamSchema,
+  ErrorSchema
+} from './schemas.js'
+
+/**
+ * Position routes
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function positionRoutes(fastify, options) {
+  const service = options.service
+
+  // GET /api/positions - List all positions
+  fastify.get('/', {
+    schema: {
+      description: 'List all positions with optional status, department and search filters',
+      tags: ['positions'],
+      querystring: ListPositionsQuerySchema,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: PositionSchema },
+            pagination: {
+              type: 'object',
+              properties: {
+                total: { type: 'integer' },
+                limit: { type: 'integer' },
+                offset: { type: 'integer' },
+                hasMore: { type: 'boolean' }
+              }
+            }
+          }
+        }
+      }
+    },
+    preHandler: fastify.authorize(['admin', 'talent'])
+  }, async (request, _reply) => {
+    const result = await service.list(request.query)
+    return result
+  })
+
+  // GET /api/positions/:id - Get position by ID
+  fastify.get('/:id', {
+    schema: {
+      description: 'Get position by ID',
+      tags: ['positions'],
+      params: PositionIdParamSchema,
+      response: {
+        200: PositionSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin', 'talent'])
+  }, async (request, reply) => {
+    const position = await service.getById(request.params.id)
+
+    if (!position) {
+      return reply.notFound('Position not found')
+    }
+
+    return position
+  })
+
+  // POST /api/positions - Create new position
+  fastify.post('/', {
+    schema: {
+      description: 'Create a new position',
+      tags: ['positions'],
+      body: CreatePositionSchema,
+      response: {
+        201: PositionSchema,
+        400: ErrorSchema,
+        403: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    try {
+      const auditContext = {
+        userEmail: request.user.email,
+        userName: request.user.name
+      }
+
+      const position = await service.create(request.body, auditContext)
+
+      reply.code(201)
+      return position
+    } catch (error) {
+      if (
+        error.message === 'Title already exists' ||
+        error.message.includes('too similar')
+      ) {
+        return reply.conflict(error.message)
+      }
+      throw error
+    }
+  })
+
+  // PUT /api/positions/:id - Update position
+  fastify.put('/:id', {
+    schema: {
+      description: 'Update an existing position',
+      tags: ['positions'],
+      params: PositionIdParamSchema,
+      body: UpdatePositionSchema,
+      response: {
+        200: PositionSchema,
+        404: ErrorSchema,
+        403: ErrorSchema,
+        409: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    try {
+      const auditContext = {
+        userEmail: request.user.email,
+        userName: request.user.name
+      }
+
+      const position = await service.update(
+        request.params.id,
+        request.body,
+        auditContext
+      )
+
+      if (!position) {
+        return reply.notFound('Position not found')
+      }
+
+      return position
+    } catch (error) {
+      if (
+        error.message === 'Title already exists' ||
+        error.message.includes('too similar')
+      ) {
+        return reply.conflict(error.message)
+      }
+      throw error
+    }
+  })
+
+  // DELETE /api/positions/:id - Delete position
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Delete a position (its interviews keep the title but are unlinked)',
+      tags: ['positions'],
+      params: PositionIdParamSchema,
+      response: {
+        204: { type: 'null', description: 'No content' },
+        404: ErrorSchema,
+        403: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    const auditContext = {
+      userEmail: request.user.email,
+      userName: request.user.name
+    }
+
+    const deleted = await service.delete(request.params.id, auditContext)
+
+    if (!deleted) {
+      return reply.notFound('Position not found')
+    }
+
+    reply.code(204)
+  })
+}
@@ -0,0 +1,58 @@
+import { Type } from '@sinclair/typebox'
+
+/**
+ * Position Status Enum
+ * Matches the database CHECK constraint
+ */
+export const PositionStatusEnum = Type.Union([
+  Type.Literal('open'),
+  Type.Literal('closed')
+])
+
+// Base position schema
+export const PositionSchema = Type.Object({
+  id: Type.String(),
+  title: Type.String({ minLength: 1 }),
+  department: Type.Union([Type.String(), Type.Null()]),
+  hiring_manager_email: Type.Union([Type.String({ format: 'email' }), Type.Null()]),
+  required_skills: Type.Array(Type.String()),
+  status: PositionStatusEnum,
+  created_by: Type.Union([Type.String(), Type.Null()]),
+  created_at: Type.String(),
+  updated_at: Type.String(),
+  // Only present in list responses
+  interview_count: Type.Optional(Type.Integer())
+})
+
+// Create position request
+export const CreatePositionSchema = Type.Object({
+  title: Type.String({ minLength: 1, maxLength: 255 }),
+  department: Type.Optional(Type.String({ maxLength: 255 })),
+  hiring_manager_email: Type.Optional(Type.String({ format: 'email' })),
+  required_skills: Type.Optional(Type.Array(Type.String())),
+  status: Type.Optional(PositionStatusEnum)
+})
+
+// Update position request
+export const UpdatePositionSchema = Type.Partial(CreatePositionSchema)
+
+// Query parameters for list
+export const ListPositionsQuerySchema = Type.Object({
+  status: Type.Optional(PositionStatusEnum),
+  department: Type.Optional(Type.String()),
+  search: Type.Optional(Type.String()),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 100, default: 50 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 }))
+})
+
+// ID parameter
+export const PositionIdParamSchema = Type.Object({
+  id: Type.String()
+})
+
+// Error response
+export const ErrorSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+  statusCode: Type.Optional(Type.Integer())
+})
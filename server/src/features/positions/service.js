@@ -0,0 +1,165 @@
+import { nanoid } from 'nanoid'
+import { PositionRepository } from './repository.js'
+import { findBestMatch } from '../../utils/position-matcher.js'
+
+/**
+ * Position Service
+ * Business logic layer
+ */
+export class PositionService {
+  constructor(db, auditLogger) {
+    this.repository = new PositionRepository(db)
+    this.auditLogger = auditLogger
+  }
+
+  /**
+   * List positions with pagination
+   * @param {Object} query
+   * @returns {Object}
+   */
+  async list(query) {
+    const filters = {
+      status: query.status,
+      department: query.department,
+      search: query.search,
+      limit: query.limit || 50,
+      offset: query.offset || 0
+    }
+
+    const positions = this.repository.findAll(filters)
+    const total = this.repository.count(filters)
+
+    return {
+      data: positions,
+      pagination: {
+        total,
+        limit: filters.limit,
+        offset: filters.offset,
+        hasMore: filters.offset + filters.limit < total
+      }
+    }
+  }
+
+  /**
+   * Get position by ID
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  async getById(id) {
+    return this.repository.findById(id)
+  }
+
+  /**
+   * Create new position
+   * @param {Object} data
+   * @param {Object} auditContext
+   * @returns {Object}
+   * @throws {Error} If the title duplicates or closely resembles an existing position
+   */
+  async create(data, auditContext) {
+    this._checkTitle(data.title)
+
+    const created = this.repository.create({ id: nanoid(), ...data }, auditContext)
+
+    this.auditLogger?.log({
+      action: 'CREATE_POSITION',
+      entityType: 'position',
+      entityId: created.id,
+      changes: { created: true, title: created.title },
+      userEmail: auditContext?.userEmail,
+      userName: auditContext?.userName
+    })
+
+    return created
+  }
+
+  /**
+   * Update position
+   * @param {string} id
+   * @param {Object} data
+   * @param {Object} auditContext
+   * @returns {Object|null}
+   * @throws {Error} If the new title duplicates or closely resembles another position
+   */
+  async update(id, data, auditContext) {
+    const existing = this.repository.findById(id)
+    if (!existing) {
+      return null
+    }
+
+    if (data.title !== undefined && data.title !== existing.title) {
+      this._checkTitle(data.title, id)
+    }
+
+    const updated = this.repository.update(id, data)
+
+    const changes = {}
+    Object.keys(data).forEach(key => {
+      if (data[key] !== undefined && JSON.stringify(existing[key]) !== JSON.stringify(data[key])) {
+        changes[key] = { from: existing[key], to: data[key] }
+      }
+    })
+
+    if (Object.keys(changes).length > 0) {
+      this.auditLogger?.log({
+        action: 'UPDATE_POSITION',
+        entityType: 'position',
+        entityId: id,
+        changes,
+        userEmail: auditContext?.userEmail,
+        userName: auditContext?.userName
+      })
+    }
+
+    return updated
+  }
+
+  /**
+   * Delete position
+   * @param {string} id
+   * @param {Object} auditContext
+   * @returns {boolean}
+   */
+  async delete(id, auditContext) {
+    const existing = this.repository.findById(id)
+    if (!existing) {
+      return false
+    }
+
+    const deleted = this.repository.delete(id)
+
+    if (deleted) {
+      this.auditLogger?.log({
+        action: 'DELETE_POSITION',
+        entityType: 'position',
+        entityId: id,
+        changes: { title: existing.title },
+        userEmail: auditContext?.userEmail,
+        userName: auditContext?.userName
+      })
+    }
+
+    return deleted
+  }
+
+  /**
+   * Reject titles that would split one role across two positions
+   * ("Sr. Frontend Eng" next to "Senior Frontend Engineer")
+   * @private
+   * @param {string} title
+   * @param {string|null} excludeId - Position being renamed
+   * @throws {Error} If an exact or fuzzy match already exists
+   */
+  _checkTitle(title, excludeId = null) {
+    const duplicate = this.repository.findByTitle(title)
+    if (duplicate && duplicate.id !== excludeId) {
+      throw new Error('Title already exists')
+    }
+
+    const others = this.repository.findAllTitles().filter(p => p.id !== excludeId)
+    const match = findBestMatch(title, others)
+    if (match) {
+      throw new Error(`Title is too similar to existing position "${match.position.title}"`)
+    }
+  }
+}
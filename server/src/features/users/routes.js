@@ -7,7 +7,7 @@ import { UserService } from './service.js'
 
 export default async function userRoutes(fastify, _options) {
   const userRepository = new UserRepository(fastify.db)
-  const userService = new UserService(userRepository, fastify.auditLogger)
+  const userService = new UserService(userRepository, fastify.auditLogger, fastify.notifier, fastify.webhooks)
 
   /**
    * GET /api/users
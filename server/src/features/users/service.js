@@ -1,11 +1,22 @@
+/**
+ * The parts of a user sent in webhooks (never credentials)
+ * @param {Object} user
+ * @returns {Object}
+ */
+function toWebhookUser(user) {
+  return { id: user.id, email: user.email, name: user.name, role: user.role }
+}
+
 /**
  * User Service
  * Business logic for user management (Issue #53)
  */
 export class UserService {
-  constructor(repository, auditLogger) {
+  constructor(repository, auditLogger, notifier, webhooks) {
     this.repository = repository
     this.auditLogger = auditLogger
+    this.notifier = notifier
+    this.webhooks = webhooks
   }
 
   /**
@@ -66,6 +77,16 @@ export class UserService {
       newRole,
     })
 
+    // Tell the user in-app
+    await this.notifier?.notifyRoleChanged(user, oldRole, newRole, adminUser)
+
+    if (oldRole !== newRole) {
+      this.webhooks?.dispatch('user.role_changed', {
+        user: toWebhookUser(updatedUser),
+        previous_role: oldRole
+      }, { userEmail: adminUser.email, userName: adminUser.name })
+    }
+
     return updatedUser
   }
 
@@ -108,6 +129,11 @@ export class UserService {
       },
     })
 
+    this.webhooks?.dispatch('user.deleted', { user: toWebhookUser(user) }, {
+      userEmail: adminUser.email,
+      userName: adminUser.name
+    })
+
     return { success: true, deletedEmail: email }
   }
 }
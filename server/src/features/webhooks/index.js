@@ -0,0 +1,44 @@
+import config from '../../config/index.js'
+import routes from './routes.js'
+
+/**
+ * Webhooks feature plugin
+ * Subscription and delivery log routes, and the retry timer
+ *
+ * The service itself is shared as fastify.webhooks (see app.js) so the
+ * events, interviewers and users features can dispatch to it
+ * @param {import('fastify').FastifyInstance} fastify
+ * @param {Object} options
+ */
+export default async function webhooksPlugin(fastify, _options) {
+  const service = fastify.webhooks
+
+  // Register routes with service
+  await fastify.register(routes, { prefix: '/webhooks', service })
+
+  // Retries of failed deliveries, once their backoff has passed
+  const retryIntervalSeconds = config.webhooks.retryIntervalSeconds
+  if (retryIntervalSeconds > 0) {
+    let running = false
+    const timer = setInterval(async () => {
+      if (running) return
+
+      running = true
+      try {
+        const result = await service.retryDue()
+        if (result.attempted > 0) {
+          fastify.log.info(result, 'Webhook retries attempted')
+        }
+      } catch (error) {
+        fastify.log.error(error, 'Webhook retries failed')
+      } finally {
+        running = false
+      }
+    }, retryIntervalSeconds * 1000)
+    timer.unref()
+
+    fastify.addHook('onClose', async () => clearInterval(timer))
+  }
+
+  fastify.log.info('Webhooks feature registered')
+}
@@ -0,0 +1,261 @@
+/**
+ * Webhook Repository
+ * Subscriptions and their delivery log
+ */
+export class WebhookRepository {
+  constructor(db) {
+    this.db = db
+  }
+
+  /**
+   * All subscriptions, newest first
+   * @returns {Array}
+   */
+  findAll() {
+    return this.db.prepare(`
+      SELECT w.*,
+        (SELECT d.status FROM webhook_deliveries d WHERE d.webhook_id = w.id
+          ORDER BY d.created_at DESC, d.rowid DESC LIMIT 1) as last_delivery_status
+      FROM webhooks w
+      ORDER BY w.created_at DESC, w.rowid DESC
+    `).all().map(row => this._parseRow(row))
+  }
+
+  /**
+   * Find subscription by ID
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  findById(id) {
+    const row = this.db.prepare('SELECT * FROM webhooks WHERE id = ?').get(id)
+    return row ? this._parseRow(row) : null
+  }
+
+  /**
+   * Active subscriptions listening to an event type
+   * @param {string} eventType
+   * @returns {Array}
+   */
+  findActiveFor(eventType) {
+    return this.db.prepare(`
+      SELECT w.* FROM webhooks w
+      WHERE w.active = 1
+        AND EXISTS (SELECT 1 FROM json_each(w.event_types) WHERE json_each.value = ?)
+    `).all(eventType).map(row => this._parseRow(row))
+  }
+
+  /**
+   * Create subscription
+   * @param {Object} data - { id, url, description, secret, event_types, active }
+   * @param {Object} auditContext
+   * @returns {Object}
+   */
+  create(data, auditContext) {
+    this.db.prepare(`
+      INSERT INTO webhooks (id, url, description, secret, event_types, active, created_by)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      data.id,
+      data.url,
+      data.description || null,
+      data.secret,
+      JSON.stringify(data.event_types),
+      data.active === false ? 0 : 1,
+      auditContext?.userEmail || null
+    )
+
+    return this.findById(data.id)
+  }
+
+  /**
+   * Update subscription
+   * @param {string} id
+   * @param {Object} data
+   * @returns {Object|null}
+   */
+  update(id, data) {
+    const fields = []
+    const values = []
+
+    const allowedFields = ['url', 'description', 'secret', 'event_types', 'active']
+
+    allowedFields.forEach(field => {
+      if (data[field] !== undefined) {
+        fields.push(`${field} = ?`)
+        if (field === 'event_types') {
+          values.push(JSON.stringify(data[field]))
+        } else if (field === 'active') {
+          values.push(data[field] ? 1 : 0)
+        } else {
+          values.push(data[field])
+        }
+      }
+    })
+
+    if (fields.length === 0) {
+      return this.findById(id)
+    }
+
+    fields.push('updated_at = datetime(\'now\')')
+    values.push(id)
+
+    this.db.prepare(`UPDATE webhooks SET ${fields.join(', ')} WHERE id = ?`).run(...values)
+
+    return this.findById(id)
+  }
+
+  /**
+   * Delete subscription (its deliveries go with it)
+   * @param {string} id
+   * @returns {boolean}
+   */
+  delete(id) {
+    return this.db.prepare('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0
+  }
+
+  /**
+   * Add pending deliveries, due now
+   * @param {Array} deliveries - { id, webhook_id, event_id, event_type, payload, redelivery_of }
+   * @returns {Array} Created rows
+   */
+  createDeliveries(deliveries) {
+    const insert = this.db.prepare(`
+      INSERT INTO webhook_deliveries (id, webhook_id, event_id, event_type, payload, redelivery_of, next_attempt_at)
+      VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+    `)
+
+    const insertAll = this.db.transaction(() => deliveries.forEach(delivery => {
+      insert.run(
+        delivery.id,
+        delivery.webhook_id,
+        delivery.event_id,
+        delivery.event_type,
+        delivery.payload,
+        delivery.redelivery_of ?? null
+      )
+    }))
+    insertAll()
+
+    return deliveries.map(delivery => this.findDeliveryById(delivery.id))
+  }
+
+  /**
+   * Find delivery by ID
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  findDeliveryById(id) {
+    return this.db.prepare(`
+      SELECT d.*, w.url as webhook_url FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      WHERE d.id = ?
+    `).get(id) || null
+  }
+
+  /**
+   * Delivery log, latest first
+   * @param {Object} filters - { webhook_id, status, event_type, limit, offset }
+   * @returns {Array}
+   */
+  findDeliveries(filters = {}) {
+    const { limit = 50, offset = 0 } = filters
+    const { where, params } = this._buildDeliveryWhere(filters)
+
+    return this.db.prepare(`
+      SELECT d.*, w.url as webhook_url FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      WHERE ${where}
+      ORDER BY d.created_at DESC, d.rowid DESC LIMIT ? OFFSET ?
+    `).all(...params, limit, offset)
+  }
+
+  /**
+   * Count deliveries matching filters
+   * @param {Object} filters
+   * @returns {number}
+   */
+  countDeliveries(filters = {}) {
+    const { where, params } = this._buildDeliveryWhere(filters)
+    return this.db.prepare(`
+      SELECT COUNT(*) as total FROM webhook_deliveries d WHERE ${where}
+    `).get(...params).total
+  }
+
+  /**
+   * Pending deliveries of active subscriptions whose next attempt is due
+   * @param {number} limit
+   * @returns {Array}
+   */
+  findDueDeliveries(limit) {
+    return this.db.prepare(`
+      SELECT d.* FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      WHERE d.status = 'pending' AND w.active = 1
+        AND julianday(d.next_attempt_at) <= julianday('now')
+      ORDER BY d.next_attempt_at ASC LIMIT ?
+    `).all(limit)
+  }
+
+  /**
+   * Record the outcome of an attempt
+   * @param {string} id
+   * @param {Object} result - { status, attempts, retry_in_seconds, response_status, error };
+   *   retry_in_seconds schedules the next attempt (pending deliveries only)
+   * @returns {Object} Updated delivery
+   */
+  recordAttempt(id, result) {
+    this.db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = ?,
+        next_attempt_at = CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', '+' || ? || ' seconds') END,
+        response_status = ?, error = ?, last_attempt_at = datetime('now')
+      WHERE id = ?
+    `).run(
+      result.status,
+      result.attempts,
+      result.retry_in_seconds ?? null,
+      result.retry_in_seconds ?? null,
+      result.response_status ?? null,
+      result.error ?? null,
+      id
+    )
+
+    return this.findDeliveryById(id)
+  }
+
+  _buildDeliveryWhere(filters) {
+    const conditions = ['1=1']
+    const params = []
+
+    if (filters.webhook_id) {
+      conditions.push('d.webhook_id = ?')
+      params.push(filters.webhook_id)
+    }
+
+    if (filters.status) {
+      conditions.push('d.status = ?')
+      params.push(filters.status)
+    }
+
+    if (filters.event_type) {
+      conditions.push('d.event_type = ?')
+      params.push(filters.event_type)
+    }
+
+    return { where: conditions.join(' AND '), params }
+  }
+
+  /**
+   * Parse JSON and boolean fields
+   * @private
+   * @param {Object} row
+   * @returns {Object}
+   */
+  _parseRow(row) {
+    return {
+      ...row,
+      event_types: JSON.parse(row.event_types || '[]'),
+      active: Boolean(row.active)
+    }
+  }
+}
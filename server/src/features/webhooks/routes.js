@@ -0,0 +1,211 @@
+import {
+  WebhookSchema,
+  CreatedWebhookSchema,
+  CreateWebhookSchema,
+  UpdateWebhookSchema,
+  WebhookListSchema,
+  DeliverySchema,
+  DeliveryQuerySchema,
+  DeliveryListSchema,
+  IdParamSchema,
+  ErrorSchema
+} from './schemas.js'
+
+// Errors from the service that mean a bad request body
+const INVALID_URL_ERRORS = ['Webhook URL is not valid', 'Webhook URL must use http or https']
+
+/**
+ * Webhook Routes
+ * Subscriptions, the delivery log and redelivery (admin only)
+ */
+export default async function webhookRoutes(fastify, options) {
+  const service = options.service
+
+  const auditContextOf = (request) => ({
+    userEmail: request.user.email,
+    userName: request.user.name
+  })
+
+  // GET /api/webhooks - List subscriptions
+  fastify.get('/', {
+    schema: {
+      description: 'List webhook subscriptions (admin only)',
+      tags: ['webhooks'],
+      response: {
+        200: WebhookListSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (_request, _reply) => {
+    return { data: await service.list() }
+  })
+
+  /**
+   * GET /api/webhooks/deliveries
+   * Delivery log, latest first
+   *
+   * Query params:
+   * - webhook_id / status / event_type: Filters
+   * - limit / offset: Pagination (default 50)
+   */
+  fastify.get('/deliveries', {
+    schema: {
+      description: 'List webhook deliveries (admin only)',
+      tags: ['webhooks'],
+      querystring: DeliveryQuerySchema,
+      response: {
+        200: DeliveryListSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, _reply) => {
+    return await service.listDeliveries(request.query)
+  })
+
+  // POST /api/webhooks/deliveries/:id/redeliver - Send a delivery again
+  fastify.post('/deliveries/:id/redeliver', {
+    schema: {
+      description: 'Send a delivery again with the same payload; returns the new delivery (admin only)',
+      tags: ['webhooks'],
+      params: IdParamSchema,
+      response: {
+        200: DeliverySchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    try {
+      return await service.redeliver(request.params.id)
+    } catch (error) {
+      if (error.message === 'Delivery not found') {
+        return reply.notFound(error.message)
+      }
+      throw error
+    }
+  })
+
+  // GET /api/webhooks/:id - Get subscription
+  fastify.get('/:id', {
+    schema: {
+      description: 'Get a webhook subscription (admin only)',
+      tags: ['webhooks'],
+      params: IdParamSchema,
+      response: {
+        200: WebhookSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    const webhook = await service.getById(request.params.id)
+
+    if (!webhook) {
+      return reply.notFound('Webhook not found')
+    }
+
+    return webhook
+  })
+
+  // POST /api/webhooks - Create subscription
+  fastify.post('/', {
+    schema: {
+      description: 'Create a webhook subscription; the response is the only time the secret is shown (admin only)',
+      tags: ['webhooks'],
+      body: CreateWebhookSchema,
+      response: {
+        201: CreatedWebhookSchema,
+        400: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    try {
+      const webhook = await service.create(request.body, auditContextOf(request))
+
+      reply.code(201)
+      return webhook
+    } catch (error) {
+      if (INVALID_URL_ERRORS.includes(error.message)) {
+        return reply.badRequest(error.message)
+      }
+      throw error
+    }
+  })
+
+  // PUT /api/webhooks/:id - Update subscription
+  fastify.put('/:id', {
+    schema: {
+      description: 'Update a webhook subscription (admin only)',
+      tags: ['webhooks'],
+      params: IdParamSchema,
+      body: UpdateWebhookSchema,
+      response: {
+        200: WebhookSchema,
+        400: ErrorSchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    try {
+      const webhook = await service.update(request.params.id, request.body, auditContextOf(request))
+
+      if (!webhook) {
+        return reply.notFound('Webhook not found')
+      }
+
+      return webhook
+    } catch (error) {
+      if (INVALID_URL_ERRORS.includes(error.message)) {
+        return reply.badRequest(error.message)
+      }
+      throw error
+    }
+  })
+
+  // DELETE /api/webhooks/:id - Delete subscription and its deliveries
+  fastify.delete('/:id', {
+    schema: {
+      description: 'Delete a webhook subscription and its delivery log (admin only)',
+      tags: ['webhooks'],
+      params: IdParamSchema,
+      response: {
+        204: { type: 'null', description: 'No content' },
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    const deleted = await service.delete(request.params.id, auditContextOf(request))
+
+    if (!deleted) {
+      return reply.notFound('Webhook not found')
+    }
+
+    reply.code(204)
+  })
+
+  // POST /api/webhooks/:id/ping - Send a test delivery
+  fastify.post('/:id/ping', {
+    schema: {
+      description: 'Send a ping delivery to check the endpoint (admin only)',
+      tags: ['webhooks'],
+      params: IdParamSchema,
+      response: {
+        200: DeliverySchema,
+        404: ErrorSchema
+      }
+    },
+    preHandler: fastify.authorize(['admin'])
+  }, async (request, reply) => {
+    try {
+      return await service.ping(request.params.id, auditContextOf(request))
+    } catch (error) {
+      if (error.message === 'Webhook not found') {
+        return reply.notFound(error.message)
+      }
+      throw error
+    }
+  })
+}
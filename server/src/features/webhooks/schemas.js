@@ -0,0 +1,92 @@
+import { Type } from '@sinclair/typebox'
+import { WEBHOOK_EVENT_TYPES } from './service.js'
+
+const Nullable = (schema) => Type.Union([schema, Type.Null()])
+
+export const WebhookEventTypeEnum = Type.Union(WEBHOOK_EVENT_TYPES.map(type => Type.Literal(type)))
+
+export const DeliveryStatusEnum = Type.Union([
+  Type.Literal('pending'), // Not delivered yet, retried at next_attempt_at
+  Type.Literal('succeeded'),
+  Type.Literal('failed') // Out of attempts
+])
+
+// Subscription; the secret itself is only returned when it is created
+export const WebhookSchema = Type.Object({
+  id: Type.String(),
+  url: Type.String(),
+  description: Nullable(Type.String()),
+  event_types: Type.Array(WebhookEventTypeEnum),
+  active: Type.Boolean(),
+  secret_hint: Type.String(), // Last characters of the secret
+  created_by: Nullable(Type.String()),
+  created_at: Type.String(),
+  updated_at: Type.String(),
+  // Only present in list responses
+  last_delivery_status: Type.Optional(Nullable(DeliveryStatusEnum))
+})
+
+export const CreatedWebhookSchema = Type.Intersect([
+  WebhookSchema,
+  Type.Object({ secret: Type.String() })
+])
+
+export const CreateWebhookSchema = Type.Object({
+  url: Type.String({ minLength: 1, maxLength: 2048 }),
+  description: Type.Optional(Type.String({ maxLength: 255 })),
+  event_types: Type.Array(WebhookEventTypeEnum, { minItems: 1 }),
+  active: Type.Optional(Type.Boolean()),
+  // Generated when left out
+  secret: Type.Optional(Type.String({ minLength: 16, maxLength: 255 }))
+}, { additionalProperties: false })
+
+export const UpdateWebhookSchema = Type.Partial(CreateWebhookSchema, { additionalProperties: false })
+
+export const WebhookListSchema = Type.Object({
+  data: Type.Array(WebhookSchema)
+})
+
+export const DeliverySchema = Type.Object({
+  id: Type.String(),
+  webhook_id: Type.String(),
+  webhook_url: Type.String(),
+  event_id: Type.String(), // Same for redeliveries of one event
+  event_type: Type.String(), // An event type, or ping
+  payload: Type.Any(), // JSON body as sent
+  status: DeliveryStatusEnum,
+  attempts: Type.Integer(),
+  next_attempt_at: Nullable(Type.String()),
+  last_attempt_at: Nullable(Type.String()),
+  response_status: Nullable(Type.Integer()),
+  error: Nullable(Type.String()),
+  redelivery_of: Nullable(Type.String()),
+  created_at: Type.String()
+})
+
+export const DeliveryQuerySchema = Type.Object({
+  webhook_id: Type.Optional(Type.String()),
+  status: Type.Optional(DeliveryStatusEnum),
+  event_type: Type.Optional(Type.String()),
+  limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200, default: 50 })),
+  offset: Type.Optional(Type.Integer({ minimum: 0, default: 0 }))
+})
+
+export const DeliveryListSchema = Type.Object({
+  data: Type.Array(DeliverySchema),
+  pagination: Type.Object({
+    total: Type.Integer(),
+    limit: Type.Integer(),
+    offset: Type.Integer(),
+    hasMore: Type.Boolean()
+  })
+})
+
+export const IdParamSchema = Type.Object({
+  id: Type.String()
+})
+
+export const ErrorSchema = Type.Object({
+  error: Type.String(),
+  message: Type.String(),
+  statusCode: Type.Optional(Type.Integer())
+})
@@ -0,0 +1,412 @@
+import { createHmac, randomBytes } from 'node:crypto'
+import { nanoid } from 'nanoid'
+import { WebhookRepository } from './repository.js'
+
+// Event types a subscription can listen to
+export const WEBHOOK_EVENT_TYPES = [
+  'event.created',
+  'event.updated',
+  'event.rescheduled',
+  'event.status_changed',
+  'event.deleted',
+  'interviewer.created',
+  'interviewer.updated',
+  'interviewer.deleted',
+  'user.role_changed',
+  'user.deleted'
+]
+
+// Deliveries picked up per retry run
+const RETRY_BATCH_SIZE = 50
+
+// Longest error text kept in the delivery log
+const MAX_ERROR_LENGTH = 500
+
+/**
+ * Signature of a payload, sent as `X-Roster-Signature: sha256=<hex>`
+ * Receivers recompute it over `${timestamp}.${body}` with the shared secret
+ * (the timestamp is sent as X-Roster-Timestamp) and compare.
+ * @param {string} secret
+ * @param {number} timestamp - Unix seconds
+ * @param {string} body - Raw JSON body
+ * @returns {string}
+ */
+export function signPayload(secret, timestamp, body) {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+/**
+ * Webhook Service
+ * Admin-managed subscriptions and signed outbound deliveries.
+ *
+ * dispatch() never rejects: deliveries are queued and attempted in the
+ * background, and a failed delivery must not fail the change that caused it.
+ * Failed attempts are retried with exponential backoff (retryBaseSeconds,
+ * doubled per attempt) until maxAttempts, by retryDue() on a timer.
+ */
+export class WebhookService {
+  /**
+   * @param {Object} db
+   * @param {Object} auditLogger
+   * @param {Object} options - { maxAttempts, retryBaseSeconds, timeoutMs, logger, fetch }
+   */
+  constructor(db, auditLogger, options = {}) {
+    this.repository = new WebhookRepository(db)
+    this.auditLogger = auditLogger
+    this.maxAttempts = options.maxAttempts ?? 6
+    this.retryBaseSeconds = options.retryBaseSeconds ?? 30
+    this.timeoutMs = options.timeoutMs ?? 10000
+    this.logger = options.logger
+    this.fetch = options.fetch || globalThis.fetch
+    // Deliveries being attempted right now, so a retry run skips them
+    this.inFlight = new Set()
+  }
+
+  /**
+   * All subscriptions (secrets hidden)
+   * @returns {Array}
+   */
+  async list() {
+    return this.repository.findAll().map(webhook => this._toPublic(webhook))
+  }
+
+  /**
+   * Get subscription by ID (secret hidden)
+   * @param {string} id
+   * @returns {Object|null}
+   */
+  async getById(id) {
+    const webhook = this.repository.findById(id)
+    return webhook ? this._toPublic(webhook) : null
+  }
+
+  /**
+   * Create subscription
+   * @param {Object} data - { url, description, event_types, active, secret }
+   * @param {Object} auditContext
+   * @returns {Object} Subscription with its secret (only shown here)
+   * @throws {Error} If the URL is not http(s)
+   */
+  async create(data, auditContext) {
+    this._checkUrl(data.url)
+
+    const webhook = this.repository.create({
+      id: nanoid(),
+      ...data,
+      event_types: [...new Set(data.event_types)],
+      secret: data.secret || generateSecret()
+    }, auditContext)
+
+    this.auditLogger?.log({
+      action: 'CREATE_WEBHOOK',
+      entityType: 'webhook',
+      entityId: webhook.id,
+      changes: { url: webhook.url, event_types: webhook.event_types },
+      userEmail: auditContext?.userEmail,
+      userName: auditContext?.userName
+    })
+
+    return { ...this._toPublic(webhook), secret: webhook.secret }
+  }
+
+  /**
+   * Update subscription
+   * @param {string} id
+   * @param {Object} data - Fields to change; a new secret replaces the old one
+   * @param {Object} auditContext
+   * @returns {Object|null} Null when not found
+   * @throws {Error} If the URL is not http(s)
+   */
+  async update(id, data, auditContext) {
+    if (!this.repository.findById(id)) {
+      return null
+    }
+
+    if (data.url !== undefined) {
+      this._checkUrl(data.url)
+    }
+
+    const updated = this.repository.update(id, {
+      ...data,
+      ...(data.event_types && { event_types: [...new Set(data.event_types)] })
+    })
+
+    const { secret, ...changes } = data
+    this.auditLogger?.log({
+      action: 'UPDATE_WEBHOOK',
+      entityType: 'webhook',
+      entityId: id,
+      changes: secret ? { ...changes, secret_rotated: true } : changes,
+      userEmail: auditContext?.userEmail,
+      userName: auditContext?.userName
+    })
+
+    return this._toPublic(updated)
+  }
+
+  /**
+   * Delete subscription and its delivery log
+   * @param {string} id
+   * @param {Object} auditContext
+   * @returns {boolean}
+   */
+  async delete(id, auditContext) {
+    const existing = this.repository.findById(id)
+    if (!existing) {
+      return false
+    }
+
+    const deleted = this.repository.delete(id)
+
+    if (deleted) {
+      this.auditLogger?.log({
+        action: 'DELETE_WEBHOOK',
+        entityType: 'webhook',
+        entityId: id,
+        changes: { url: existing.url },
+        userEmail: auditContext?.userEmail,
+        userName: auditContext?.userName
+      })
+    }
+
+    return deleted
+  }
+
+  /**
+   * Delivery log with pagination
+   * @param {Object} filters - { webhook_id, status, event_type, limit, offset }
+   * @returns {Object} { data, pagination }
+   */
+  async listDeliveries(filters = {}) {
+    const { limit = 50, offset = 0 } = filters
+    const total = this.repository.countDeliveries(filters)
+
+    return {
+      data: this.repository.findDeliveries(filters).map(delivery => this._toDelivery(delivery)),
+      pagination: { total, limit, offset, hasMore: offset + limit < total }
+    }
+  }
+
+  /**
+   * Send a delivery again, as a new delivery with the same event ID and payload
+   * Goes out even while the subscription is disabled.
+   * @param {string} id - Delivery ID
+   * @returns {Promise<Object>} The new delivery after its first attempt
+   * @throws {Error} If the delivery does not exist
+   */
+  async redeliver(id) {
+    const original = this.repository.findDeliveryById(id)
+    if (!original) {
+      throw new Error('Delivery not found')
+    }
+
+    const [delivery] = this.repository.createDeliveries([{
+      id: nanoid(),
+      webhook_id: original.webhook_id,
+      event_id: original.event_id,
+      event_type: original.event_type,
+      payload: original.payload,
+      redelivery_of: original.id
+    }])
+
+    const [result] = await this._attemptAll([delivery])
+    return this._toDelivery(result)
+  }
+
+  /**
+   * Send a `ping` to check that a subscription's endpoint is reachable
+   * @param {string} id - Subscription ID
+   * @param {Object} auditContext - Sent as the actor
+   * @returns {Promise<Object>} The delivery after its first attempt
+   * @throws {Error} If the subscription does not exist
+   */
+  async ping(id, auditContext = {}) {
+    const webhook = this.repository.findById(id)
+    if (!webhook) {
+      throw new Error('Webhook not found')
+    }
+
+    const [delivery] = this.repository.createDeliveries([
+      this._buildDelivery(webhook, 'ping', { webhook: { id: webhook.id, url: webhook.url } }, auditContext)
+    ])
+
+    const [result] = await this._attemptAll([delivery])
+    return this._toDelivery(result)
+  }
+
+  /**
+   * Queue an event for every active subscription listening to its type and
+   * start delivering in the background
+   * @param {string} type - One of WEBHOOK_EVENT_TYPES
+   * @param {Object} data - Event data, sent as `data`
+   * @param {Object} auditContext - Who made the change, sent as `actor`
+   * @returns {number} Deliveries queued
+   */
+  dispatch(type, data, auditContext = {}) {
+    try {
+      const webhooks = this.repository.findActiveFor(type)
+      if (webhooks.length === 0) return 0
+
+      const eventId = nanoid()
+      const deliveries = this.repository.createDeliveries(
+        webhooks.map(webhook => this._buildDelivery(webhook, type, data, auditContext, eventId))
+      )
+
+      // Not awaited: _attemptAll logs its own failures
+      this._attemptAll(deliveries)
+      return deliveries.length
+    } catch (error) {
+      this.logger?.error({ error: error.message, type }, 'Webhook dispatch failed')
+      return 0
+    }
+  }
+
+  /**
+   * Attempt every pending delivery whose retry is due
+   * @returns {Promise<Object>} { attempted, succeeded }
+   */
+  async retryDue() {
+    const due = this.repository.findDueDeliveries(RETRY_BATCH_SIZE)
+      .filter(delivery => !this.inFlight.has(delivery.id))
+
+    const results = await this._attemptAll(due)
+    return {
+      attempted: due.length,
+      succeeded: results.filter(result => result?.status === 'succeeded').length
+    }
+  }
+
+  /**
+   * Attempt deliveries one after another
+   * They are all marked in flight up front so a retry run started meanwhile
+   * does not send them too.
+   * @param {Array} deliveries
+   * @returns {Promise<Array>} Updated deliveries (null where one is gone)
+   */
+  async _attemptAll(deliveries) {
+    deliveries.forEach(delivery => this.inFlight.add(delivery.id))
+
+    const results = []
+    for (const delivery of deliveries) {
+      try {
+        results.push(await this._attempt(delivery))
+      } catch (error) {
+        this.logger?.error({ error: error.message, delivery: delivery.id }, 'Webhook delivery could not be recorded')
+        results.push(null)
+      } finally {
+        this.inFlight.delete(delivery.id)
+      }
+    }
+    return results
+  }
+
+  /**
+   * POST a delivery's payload to its subscription and record the outcome
+   * Only 2xx responses count as delivered.
+   * @param {Object} delivery
+   * @returns {Promise<Object|null>} Updated delivery, null if it is gone
+   */
+  async _attempt(delivery) {
+    const webhook = this.repository.findById(delivery.webhook_id)
+    if (!webhook) {
+      return null
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000)
+    let responseStatus = null
+    let error = null
+
+    try {
+      const response = await this.fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'InterviewerRoster-Webhooks/1.0',
+          'X-Roster-Event': delivery.event_type,
+          'X-Roster-Delivery': delivery.id,
+          'X-Roster-Timestamp': String(timestamp),
+          'X-Roster-Signature': `sha256=${signPayload(webhook.secret, timestamp, delivery.payload)}`
+        },
+        body: delivery.payload,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.timeoutMs)
+      })
+      responseStatus = response.status
+      if (!response.ok) {
+        error = `Endpoint responded with ${response.status}`
+      }
+      // Drain the body so the connection is released
+      await response.arrayBuffer().catch(() => {})
+    } catch (requestError) {
+      error = requestError.name === 'TimeoutError'
+        ? `No response within ${this.timeoutMs} ms`
+        : (requestError.cause?.message || requestError.message)
+    }
+
+    const attempts = delivery.attempts + 1
+    const retry = error !== null && attempts < this.maxAttempts
+    if (error) {
+      this.logger?.warn(
+        { delivery: delivery.id, url: webhook.url, attempts, error },
+        retry ? 'Webhook delivery failed, will retry' : 'Webhook delivery failed'
+      )
+    }
+
+    return this.repository.recordAttempt(delivery.id, {
+      status: error === null ? 'succeeded' : retry ? 'pending' : 'failed',
+      attempts,
+      retry_in_seconds: retry ? this.retryBaseSeconds * 2 ** (attempts - 1) : null,
+      response_status: responseStatus,
+      error: error?.slice(0, MAX_ERROR_LENGTH)
+    })
+  }
+
+  _buildDelivery(webhook, type, data, auditContext, eventId = nanoid()) {
+    const payload = {
+      id: eventId,
+      type,
+      created_at: new Date().toISOString(),
+      actor: auditContext.userEmail
+        ? { email: auditContext.userEmail, name: auditContext.userName || null }
+        : null,
+      data
+    }
+
+    return {
+      id: nanoid(),
+      webhook_id: webhook.id,
+      event_id: eventId,
+      event_type: type,
+      payload: JSON.stringify(payload)
+    }
+  }
+
+  _checkUrl(url) {
+    let protocol
+    try {
+      protocol = new URL(url).protocol
+    } catch {
+      throw new Error('Webhook URL is not valid')
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new Error('Webhook URL must use http or https')
+    }
+  }
+
+  _toPublic(webhook) {
+    const { secret, ...rest } = webhook
+    return { ...rest, secret_hint: `…${secret.slice(-4)}` }
+  }
+
+  _toDelivery(delivery) {
+    return delivery && { ...delivery, payload: JSON.parse(delivery.payload) }
+  }
+}
+
+/**
+ * Random signing secret, e.g. whsec_3f9c…
+ * @returns {string}
+ */
+function generateSecret() {
+  return `whsec_${randomBytes(24).toString('hex')}`
+}
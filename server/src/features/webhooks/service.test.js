@@ -0,0 +1,170 @@
+import { setImmediate as tick } from 'node:timers/promises'
+import { WebhookService, signPayload } from './service.js'
+import { createTestDb } from '../../test/helpers.js'
+
+const ADMIN = { userEmail: 'admin@example.com', userName: 'Sam Admin' }
+
+describe('WebhookService', () => {
+  let db
+  let requests
+  let responses
+  let service
+
+  // Answers requests with the queued responses (status code or Error), then 200
+  const fakeFetch = async (url, init) => {
+    requests.push({ url, ...init })
+    const next = responses.shift() ?? 200
+    if (next instanceof Error) throw next
+    return { ok: next >= 200 && next < 300, status: next, arrayBuffer: async () => new ArrayBuffer(0) }
+  }
+
+  const createService = (options = {}) =>
+    new WebhookService(db, null, { fetch: fakeFetch, retryBaseSeconds: 30, maxAttempts: 6, ...options })
+
+  const createWebhook = (data = {}) => service.create({
+    url: 'https://hooks.example.com/roster',
+    event_types: ['event.created'],
+    active: true,
+    ...data
+  }, ADMIN)
+
+  // Seconds from the last attempt to the scheduled retry
+  const retryDelay = id => db.prepare(`
+    SELECT CAST(ROUND((julianday(next_attempt_at) - julianday(last_attempt_at)) * 86400) AS INTEGER) AS seconds
+    FROM webhook_deliveries WHERE id = ?
+  `).get(id).seconds
+
+  const makeDue = id =>
+    db.prepare("UPDATE webhook_deliveries SET next_attempt_at = datetime('now', '-1 seconds') WHERE id = ?").run(id)
+
+  // dispatch() delivers in the background
+  const settle = async () => {
+    while (service.inFlight.size > 0) await tick()
+  }
+
+  beforeEach(async () => {
+    db = await createTestDb()
+    requests = []
+    responses = []
+    service = createService()
+  })
+
+  afterEach(() => {
+    db.close()
+  })
+
+  describe('signing', () => {
+    it('signs the timestamp and body with the subscription secret', async () => {
+      const webhook = await createWebhook({ secret: 'whsec_test' })
+
+      const delivery = await service.ping(webhook.id, ADMIN)
+
+      expect(delivery.status).toBe('succeeded')
+      const [{ headers, body }] = requests
+      expect(headers['X-Roster-Event']).toBe('ping')
+      expect(headers['X-Roster-Delivery']).toBe(delivery.id)
+      expect(headers['X-Roster-Signature']).toBe(
+        `sha256=${signPayload('whsec_test', Number(headers['X-Roster-Timestamp']), body)}`
+      )
+      expect(headers['X-Roster-Signature']).not.toBe(
+        `sha256=${signPayload('whsec_other', Number(headers['X-Roster-Timestamp']), body)}`
+      )
+      expect(JSON.parse(body)).toMatchObject({ type: 'ping', actor: { email: ADMIN.userEmail } })
+    })
+
+    it('generates a secret and only returns it on creation', async () => {
+      const webhook = await createWebhook()
+
+      expect(webhook.secret).toMatch(/^whsec_[0-9a-f]{48}$/)
+      const stored = await service.getById(webhook.id)
+      expect(stored.secret).toBeUndefined()
+      expect(stored.secret_hint).toBe(`…${webhook.secret.slice(-4)}`)
+    })
+  })
+
+  describe('dispatch', () => {
+    it('delivers to active subscriptions listening to the type', async () => {
+      const listening = await createWebhook({ url: 'https://a.example.com/hook' })
+      await createWebhook({ url: 'https://b.example.com/hook', event_types: ['event.deleted'] })
+      await createWebhook({ url: 'https://c.example.com/hook', active: false })
+
+      const queued = service.dispatch('event.created', { event: { id: 'evt1' } }, ADMIN)
+      await settle()
+
+      expect(queued).toBe(1)
+      expect(requests.map(request => request.url)).toEqual([listening.url])
+      expect(JSON.parse(requests[0].body)).toMatchObject({
+        type: 'event.created',
+        data: { event: { id: 'evt1' } },
+        actor: { email: ADMIN.userEmail, name: ADMIN.userName }
+      })
+    })
+
+    it('does not reject when the endpoint fails', async () => {
+      await createWebhook()
+      responses.push(new Error('connect ECONNREFUSED'))
+
+      expect(service.dispatch('event.created', { event: { id: 'evt1' } })).toBe(1)
+      await settle()
+
+      const { data } = await service.listDeliveries()
+      expect(data[0]).toMatchObject({ status: 'pending', attempts: 1, error: 'connect ECONNREFUSED' })
+    })
+  })
+
+  describe('retries', () => {
+    it('retries failed deliveries with exponential backoff', async () => {
+      const webhook = await createWebhook()
+      responses.push(500, 502)
+
+      const delivery = await service.ping(webhook.id)
+      expect(delivery).toMatchObject({ status: 'pending', attempts: 1, response_status: 500 })
+      expect(retryDelay(delivery.id)).toBe(30)
+
+      // Not due yet
+      await expect(service.retryDue()).resolves.toEqual({ attempted: 0, succeeded: 0 })
+
+      makeDue(delivery.id)
+      await expect(service.retryDue()).resolves.toEqual({ attempted: 1, succeeded: 0 })
+      expect(retryDelay(delivery.id)).toBe(60)
+
+      makeDue(delivery.id)
+      await expect(service.retryDue()).resolves.toEqual({ attempted: 1, succeeded: 1 })
+      const [retried] = (await service.listDeliveries()).data
+      expect(retried).toMatchObject({ status: 'succeeded', attempts: 3, response_status: 200, next_attempt_at: null })
+      expect(requests).toHaveLength(3)
+    })
+
+    it('gives up after maxAttempts', async () => {
+      service = createService({ maxAttempts: 2 })
+      const webhook = await createWebhook()
+      responses.push(500, 500)
+
+      const delivery = await service.ping(webhook.id)
+      makeDue(delivery.id)
+      await service.retryDue()
+
+      const [failed] = (await service.listDeliveries()).data
+      expect(failed).toMatchObject({
+        status: 'failed',
+        attempts: 2,
+        error: 'Endpoint responded with 500',
+        next_attempt_at: null
+      })
+      await expect(service.retryDue()).resolves.toEqual({ attempted: 0, succeeded: 0 })
+    })
+
+    it('holds retries while the subscription is inactive', async () => {
+      const webhook = await createWebhook()
+      responses.push(503)
+      const delivery = await service.ping(webhook.id)
+      makeDue(delivery.id)
+
+      await service.update(webhook.id, { active: false }, ADMIN)
+      await expect(service.retryDue()).resolves.toEqual({ attempted: 0, succeeded: 0 })
+
+      await service.update(webhook.id, { active: true }, ADMIN)
+      await expect(service.retryDue()).resolves.toEqual({ attempted: 1, succeeded: 1 })
+    })
+  })
+})
@@ -41,7 +41,17 @@ async function swaggerPlugin(fastify, _options) {
       tags: [
         { name: 'auth', description: 'Authentication endpoints' },
         { name: 'interviewers', description: 'Interviewer management' },
+        { name: 'candidates', description: 'Candidate management' },
         { name: 'events', description: 'Interview events' },
+        { name: 'loops', description: 'Interview loops' },
+        { name: 'positions', description: 'Position and requisition catalogue' },
+        { name: 'calendar', description: 'iCalendar subscription feeds' },
+        { name: 'calendar-sync', description: 'Outlook calendar sync' },
+        { name: 'analytics', description: 'KPI aggregation' },
+        { name: 'marking', description: 'Needs-marking inbox and escalation' },
+        { name: 'my-interviews', description: 'Interviewer self-service: own interviews, confirmations and conflicts' },
+        { name: 'notifications', description: 'In-app notifications, email preferences and delivery log' },
+        { name: 'webhooks', description: 'Outbound webhook subscriptions and delivery log' },
         { name: 'audit-logs', description: 'Audit logs' },
         { name: 'health', description: 'Health checks' }
       ]
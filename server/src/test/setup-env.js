@@ -0,0 +1,15 @@
+/**
+ * Test environment (jest setupFiles, runs before config is loaded)
+ * In-memory database, quiet logs and no background timers
+ */
+process.env.NODE_ENV = 'test'
+process.env.DATABASE_PATH = ':memory:'
+process.env.LOG_LEVEL = 'silent'
+process.env.JWT_SECRET = 'test-secret'
+process.env.RATE_LIMIT_MAX = '10000'
+process.env.SERIES_EXPANSION_INTERVAL_MINUTES = '0'
+process.env.MARKING_QUEUE_INTERVAL_MINUTES = '0'
+process.env.CALENDAR_SYNC_INTERVAL_MINUTES = '0'
+process.env.NOTIFICATION_TRANSPORT = 'console'
+process.env.NOTIFICATION_DAILY_SUMMARY_HOUR = '-1'
+process.env.WEBHOOK_RETRY_INTERVAL_SECONDS = '0'
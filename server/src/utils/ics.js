@@ -0,0 +1,142 @@
+/**
+ * iCalendar (RFC 5545) Writer
+ * Builds VCALENDAR documents for subscription feeds
+ */
+
+const CRLF = '\r\n'
+
+// Content lines longer than this many octets are folded
+const MAX_LINE_OCTETS = 75
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ * @param {string} value
+ * @returns {string}
+ */
+export function escapeText(value) {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME (e.g. 20240318T143000Z)
+ * @param {string|Date} instant
+ * @returns {string}
+ */
+export function formatDateTime(instant) {
+  const date = instant instanceof Date ? instant : new Date(instant)
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets
+ * Continuation lines start with a single space. Multi-byte characters are
+ * never split.
+ * @param {string} line
+ * @returns {string}
+ */
+export function foldLine(line) {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line
+  }
+
+  const chunks = []
+  let chunk = ''
+  let octets = 0
+  // The first line holds 75 octets, continuations 74 after the leading space
+  let limit = MAX_LINE_OCTETS
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    if (octets + size > limit) {
+      chunks.push(chunk)
+      chunk = ''
+      octets = 0
+      limit = MAX_LINE_OCTETS - 1
+    }
+    chunk += char
+    octets += size
+  }
+  chunks.push(chunk)
+
+  return chunks.join(`${CRLF} `)
+}
+
+/**
+ * Build a VEVENT block
+ * @param {Object} event
+ * @param {string} event.uid
+ * @param {string} event.start - ISO datetime
+ * @param {string} event.end - ISO datetime
+ * @param {string} event.summary
+ * @param {string} [event.description]
+ * @param {'CONFIRMED'|'TENTATIVE'|'CANCELLED'} [event.status]
+ * @param {string[]} [event.categories]
+ * @param {{name: string, email: string}} [event.attendee]
+ * @param {string} [event.lastModified] - ISO datetime
+ * @param {Object<string, string>} [event.extra] - X- properties (name -> text value)
+ * @param {Date} stamp - DTSTAMP of the feed
+ * @returns {string[]} Unfolded content lines
+ */
+function buildEvent(event, stamp) {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatDateTime(stamp)}`,
+    `DTSTART:${formatDateTime(event.start)}`,
+    `DTEND:${formatDateTime(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`
+  ]
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  }
+  if (event.status) {
+    lines.push(`STATUS:${event.status}`)
+  }
+  if (event.categories?.length) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`)
+  }
+  if (event.attendee) {
+    const name = event.attendee.name.replace(/"/g, "'")
+    lines.push(`ATTENDEE;CN="${name}";ROLE=REQ-PARTICIPANT:mailto:${event.attendee.email}`)
+  }
+  if (event.lastModified) {
+    lines.push(`LAST-MODIFIED:${formatDateTime(event.lastModified)}`)
+  }
+  Object.entries(event.extra || {}).forEach(([name, value]) => {
+    lines.push(`${name}:${escapeText(value)}`)
+  })
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+/**
+ * Build a VCALENDAR document
+ * @param {Object} calendar
+ * @param {string} calendar.name - Shown by calendar apps (X-WR-CALNAME)
+ * @param {string} [calendar.refreshInterval='PT1H'] - Suggested polling interval
+ * @param {Array<Object>} calendar.events - See buildEvent
+ * @param {Date} [stamp=new Date()]
+ * @returns {string}
+ */
+export function buildCalendar({ name, refreshInterval = 'PT1H', events }, stamp = new Date()) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Interviewer Roster//Calendar Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${refreshInterval}`,
+    `X-PUBLISHED-TTL:${refreshInterval}`,
+    ...events.flatMap(event => buildEvent(event, stamp)),
+    'END:VCALENDAR'
+  ]
+
+  return lines.map(foldLine).join(CRLF) + CRLF
+}
@@ -0,0 +1,131 @@
+/**
+ * Position Title Matching
+ * Fuzzy-matches free-text job titles so "Sr. Frontend Eng" and
+ * "Senior Front-End Engineer" resolve to the same position
+ *
+ * Titles are normalized (case, punctuation, common abbreviations) and then
+ * compared with a token overlap score and an edit-distance score; the higher
+ * of the two wins.
+ */
+
+// Minimum score for two titles to be treated as the same position
+export const MATCH_THRESHOLD = 0.85
+
+const ABBREVIATIONS = {
+  sr: 'senior',
+  snr: 'senior',
+  jr: 'junior',
+  jnr: 'junior',
+  eng: 'engineer',
+  engr: 'engineer',
+  engineering: 'engineer',
+  dev: 'developer',
+  mgr: 'manager',
+  mngr: 'manager',
+  pm: 'product manager',
+  swe: 'software engineer',
+  sde: 'software engineer',
+  fe: 'frontend',
+  be: 'backend',
+  qa: 'quality assurance',
+  ml: 'machine learning',
+  ds: 'data scientist'
+}
+
+// Multi-word spellings collapsed before tokenizing
+const COMPOUNDS = [
+  [/\bfront\s+end\b/g, 'frontend'],
+  [/\bback\s+end\b/g, 'backend'],
+  [/\bfull\s+stack\b/g, 'fullstack']
+]
+
+/**
+ * Normalize a title for comparison
+ * @param {string} title
+ * @returns {string} Lowercase, space-separated tokens with abbreviations expanded
+ */
+export function normalizeTitle(title) {
+  let text = String(title || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+
+  COMPOUNDS.forEach(([pattern, replacement]) => {
+    text = text.replace(pattern, replacement)
+  })
+
+  return text
+    .split(' ')
+    .filter(Boolean)
+    .map(token => ABBREVIATIONS[token] || token)
+    .join(' ')
+}
+
+/**
+ * Levenshtein edit distance
+ * @param {string} a
+ * @param {string} b
+ * @returns {number}
+ */
+function editDistance(a, b) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Similarity of two titles
+ * @param {string} a
+ * @param {string} b
+ * @returns {number} 0 (unrelated) to 1 (same position)
+ */
+export function titleSimilarity(a, b) {
+  const left = normalizeTitle(a)
+  const right = normalizeTitle(b)
+
+  if (!left || !right) return 0
+  if (left === right) return 1
+
+  // Token overlap (Dice coefficient) ignores word order
+  const leftTokens = new Set(left.split(' '))
+  const rightTokens = new Set(right.split(' '))
+  const shared = [...leftTokens].filter(token => rightTokens.has(token)).length
+  const tokenScore = (2 * shared) / (leftTokens.size + rightTokens.size)
+
+  // Edit distance catches typos ("Enginer")
+  const editScore = 1 - editDistance(left, right) / Math.max(left.length, right.length)
+
+  return Math.max(tokenScore, editScore)
+}
+
+/**
+ * Find the closest position for a free-text title
+ * @param {string} title
+ * @param {Array<{title: string}>} positions
+ * @param {number} threshold - Minimum similarity to count as a match
+ * @returns {{position: Object, score: number}|null}
+ */
+export function findBestMatch(title, positions, threshold = MATCH_THRESHOLD) {
+  let best = null
+
+  positions.forEach(position => {
+    const score = titleSimilarity(title, position.title)
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { position, score }
+    }
+  })
+
+  return best
+}
@@ -0,0 +1,159 @@
+/**
+ * Recurrence Rules
+ * Parses and expands the RRULE subset used for recurring interviews:
+ * FREQ=DAILY|WEEKLY, INTERVAL=n and at most one of COUNT=n / UNTIL=date
+ *
+ * Occurrences keep the wall-clock time of the first occurrence in the
+ * interviewer's timezone, so a 10:00 weekly slot stays at 10:00 across DST.
+ */
+import { getZonedParts, addDays, zonedTimeToUtc } from './time-zone.js'
+
+const FREQUENCIES = ['DAILY', 'WEEKLY']
+
+// Hard stop for open-ended rules
+const MAX_OCCURRENCES = 1000
+
+/**
+ * Parse an RRULE string
+ * @param {string} rrule - e.g. FREQ=WEEKLY;INTERVAL=2;COUNT=6
+ * @returns {{freq: string, interval: number, count: number|null, until: string|null}}
+ *   until is an ISO datetime (inclusive)
+ * @throws {Error} If the rule is malformed or outside the supported subset
+ */
+export function parseRRule(rrule) {
+  const rule = { freq: null, interval: 1, count: null, until: null }
+  const text = String(rrule || '').replace(/^RRULE:/i, '').trim()
+
+  if (!text) {
+    throw new Error('Invalid recurrence rule: empty')
+  }
+
+  text.split(';').forEach(part => {
+    const [key, value] = part.split('=')
+    switch (key.toUpperCase()) {
+      case 'FREQ':
+        rule.freq = value?.toUpperCase()
+        if (!FREQUENCIES.includes(rule.freq)) {
+          throw new Error(`Invalid recurrence rule: FREQ must be ${FREQUENCIES.join(' or ')}`)
+        }
+        break
+      case 'INTERVAL':
+        rule.interval = Number(value)
+        if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 52) {
+          throw new Error('Invalid recurrence rule: INTERVAL must be between 1 and 52')
+        }
+        break
+      case 'COUNT':
+        rule.count = Number(value)
+        if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_OCCURRENCES) {
+          throw new Error(`Invalid recurrence rule: COUNT must be between 1 and ${MAX_OCCURRENCES}`)
+        }
+        break
+      case 'UNTIL':
+        rule.until = parseUntil(value)
+        break
+      default:
+        throw new Error(`Invalid recurrence rule: ${key} is not supported`)
+    }
+  })
+
+  if (!rule.freq) {
+    throw new Error('Invalid recurrence rule: FREQ is required')
+  }
+  if (rule.count && rule.until) {
+    throw new Error('Invalid recurrence rule: use COUNT or UNTIL, not both')
+  }
+
+  return rule
+}
+
+/**
+ * Build an RRULE string
+ * @param {{freq: string, interval?: number, count?: number|null, until?: string|null}} rule
+ * @returns {string}
+ */
+export function formatRRule(rule) {
+  const parts = [`FREQ=${rule.freq}`]
+
+  if (rule.interval && rule.interval !== 1) {
+    parts.push(`INTERVAL=${rule.interval}`)
+  }
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`)
+  } else if (rule.until) {
+    parts.push(`UNTIL=${rule.until.replace(/[-:]/g, '').replace(/\.\d+/, '')}`)
+  }
+
+  return parts.join(';')
+}
+
+/**
+ * Parse an UNTIL value (YYYYMMDD, YYYYMMDDTHHMMSSZ or ISO)
+ * A bare date includes the whole day (UTC)
+ * @param {string} value
+ * @returns {string} ISO datetime
+ */
+function parseUntil(value) {
+  const basic = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value || '')
+  let iso
+  if (basic) {
+    const [, year, month, day, hour = '23', minute = '59', second = '59'] = basic
+    iso = `${year}-${month}-${day}T${hour}:${minute}:${second}Z`
+  } else if (/^\d{4}-\d{2}-\d{2}$/.test(value || '')) {
+    iso = `${value}T23:59:59Z`
+  } else {
+    iso = value
+  }
+
+  const until = new Date(iso)
+  if (Number.isNaN(until.getTime())) {
+    throw new Error('Invalid recurrence rule: UNTIL is not a valid date')
+  }
+
+  return until.toISOString()
+}
+
+/**
+ * Start of the occurrence at a given index
+ * @param {Object} rule - Parsed rule
+ * @param {string} dtstart - ISO start of the first occurrence
+ * @param {number} index - 0-based occurrence index
+ * @param {string} timeZone - Interviewer timezone
+ * @returns {string} ISO datetime
+ */
+export function occurrenceStart(rule, dtstart, index, timeZone) {
+  if (index === 0) {
+    return new Date(dtstart).toISOString()
+  }
+
+  const step = rule.freq === 'DAILY' ? rule.interval : rule.interval * 7
+  const { date, time } = getZonedParts(dtstart, timeZone)
+
+  return zonedTimeToUtc(addDays(date, index * step), time, timeZone)
+}
+
+/**
+ * Expand the occurrences of a rule
+ * @param {Object} rule - Parsed rule
+ * @param {string} dtstart - ISO start of the first occurrence
+ * @param {Object} options
+ * @param {string} options.timeZone - Interviewer timezone
+ * @param {number} [options.fromIndex=0] - First index to return
+ * @param {string} options.through - Stop after this instant (ISO, inclusive)
+ * @returns {Array<{index: number, start_time: string}>}
+ */
+export function expandOccurrences(rule, dtstart, { timeZone, fromIndex = 0, through }) {
+  const occurrences = []
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES)
+
+  for (let index = fromIndex; index < limit; index++) {
+    const start = occurrenceStart(rule, dtstart, index, timeZone)
+    if ((rule.until && start > rule.until) || start > through) {
+      break
+    }
+    occurrences.push({ index, start_time: start })
+  }
+
+  return occurrences
+}
+
@@ -0,0 +1,128 @@
+/**
+ * Time Zone Utilities
+ * Converts UTC instants to wall-clock values in an IANA timezone
+ *
+ * Uses Intl.DateTimeFormat so no timezone database dependency is needed.
+ * Unknown or missing timezones fall back to UTC.
+ */
+
+const formatterCache = new Map()
+
+/**
+ * Get (and cache) a formatter for a timezone
+ * @param {string} timeZone - IANA timezone (e.g. America/Los_Angeles)
+ * @returns {Intl.DateTimeFormat}
+ */
+function getFormatter(timeZone) {
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC'
+
+  if (!formatterCache.has(zone)) {
+    formatterCache.set(zone, new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }))
+  }
+
+  return formatterCache.get(zone)
+}
+
+/**
+ * Check whether a timezone identifier is supported by the runtime
+ * @param {string|null|undefined} timeZone
+ * @returns {boolean}
+ */
+export function isValidTimeZone(timeZone) {
+  if (!timeZone) return false
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get wall-clock date and time of an instant in a timezone
+ * @param {string|Date} instant - ISO datetime string or Date
+ * @param {string} timeZone - IANA timezone
+ * @returns {{ date: string, time: string }} date as YYYY-MM-DD, time as HH:MM
+ */
+export function getZonedParts(instant, timeZone) {
+  const date = instant instanceof Date ? instant : new Date(instant)
+  const parts = getFormatter(timeZone).formatToParts(date)
+  const get = (type) => parts.find(part => part.type === type)?.value
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`
+  }
+}
+
+/**
+ * Convert a wall-clock date and time in a timezone to a UTC instant
+ * Times inside a spring-forward gap resolve to a neighbouring valid instant
+ * @param {string} date - YYYY-MM-DD
+ * @param {string} time - HH:MM
+ * @param {string} timeZone - IANA timezone
+ * @returns {string} ISO datetime (UTC)
+ */
+export function zonedTimeToUtc(date, time, timeZone) {
+  const target = Date.parse(`${date}T${time}:00Z`)
+  let guess = target
+
+  // Two passes settle the offset, including across a DST change
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(guess), timeZone)
+    guess += target - Date.parse(`${parts.date}T${parts.time}:00Z`)
+  }
+
+  return new Date(guess).toISOString()
+}
+
+/**
+ * Day of week for a calendar date (0 = Sunday ... 6 = Saturday)
+ * @param {string} date - YYYY-MM-DD
+ * @returns {number}
+ */
+export function getDayOfWeek(date) {
+  return new Date(`${date}T00:00:00Z`).getUTCDay()
+}
+
+/**
+ * Add days to a calendar date
+ * @param {string} date - YYYY-MM-DD
+ * @param {number} days
+ * @returns {string} YYYY-MM-DD
+ */
+export function addDays(date, days) {
+  const result = new Date(`${date}T00:00:00Z`)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().split('T')[0]
+}
+
+/**
+ * Convert HH:MM to minutes since midnight
+ * @param {string} time - HH:MM (24:00 allowed as end of day)
+ * @returns {number}
+ */
+export function timeToMinutes(time) {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Convert minutes since midnight to HH:MM
+ * @param {number} totalMinutes
+ * @returns {string}
+ */
+export function minutesToTime(totalMinutes) {
+  const hours = Math.floor(totalMinutes / 60).toString().padStart(2, '0')
+  const minutes = (totalMinutes % 60).toString().padStart(2, '0')
+  return `${hours}:${minutes}`
+}
@@ -14,8 +14,14 @@ import { ErrorBoundary } from "@/components/error-boundary";
 // Lazy load page components for better performance
 const DashboardPage = lazy(() => import("@/polymet/pages/dashboard-page").then(module => ({ default: module.DashboardPage })));
 const InterviewersPage = lazy(() => import("@/polymet/pages/interviewers-page").then(module => ({ default: module.InterviewersPage })));
+const InterviewerProfilePage = lazy(() => import("@/polymet/pages/interviewer-profile-page").then(module => ({ default: module.InterviewerProfilePage })));
+const CandidatesPage = lazy(() => import("@/polymet/pages/candidates-page").then(module => ({ default: module.CandidatesPage })));
+const CandidateDetailPage = lazy(() => import("@/polymet/pages/candidate-detail-page").then(module => ({ default: module.CandidateDetailPage })));
+const PositionsPage = lazy(() => import("@/polymet/pages/positions-page").then(module => ({ default: module.PositionsPage })));
 const EventsPage = lazy(() => import("@/polymet/pages/events-page").then(module => ({ default: module.EventsPage })));
 const SchedulePage = lazy(() => import("@/polymet/pages/schedule-page").then(module => ({ default: module.SchedulePage })));
+const MyInterviewsPage = lazy(() => import("@/polymet/pages/my-interviews-page").then(module => ({ default: module.MyInterviewsPage })));
+const NeedsMarkingPage = lazy(() => import("@/polymet/pages/needs-marking-page").then(module => ({ default: module.NeedsMarkingPage })));
 const MarkInterviewsPage = lazy(() => import("@/polymet/pages/mark-interviews-page").then(module => ({ default: module.MarkInterviewsPage })));
 const SettingsPage = lazy(() => import("@/polymet/pages/settings-page").then(module => ({ default: module.SettingsPage })));
 const DatabaseManagementPage = lazy(() => import("@/polymet/pages/database-management-page").then(module => ({ default: module.DatabaseManagementPage })));
@@ -102,6 +108,50 @@ export default function InterviewRosterApp() {
             }
           />
 
+          <Route
+            path="/interviewers/:email"
+            element={
+              <ProtectedRoute allowedRoles={["talent", "admin"]}>
+                <DashboardLayout>
+                  <InterviewerProfilePage />
+                </DashboardLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/candidates"
+            element={
+              <ProtectedRoute allowedRoles={["talent", "admin"]}>
+                <DashboardLayout>
+                  <CandidatesPage />
+                </DashboardLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/candidates/:id"
+            element={
+              <ProtectedRoute allowedRoles={["talent", "admin"]}>
+                <DashboardLayout>
+                  <CandidateDetailPage />
+                </DashboardLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/positions"
+            element={
+              <ProtectedRoute allowedRoles={["admin"]}>
+                <DashboardLayout>
+                  <PositionsPage />
+                </DashboardLayout>
+              </ProtectedRoute>
+            }
+          />
+
           <Route
             path="/events"
             element={
@@ -135,6 +185,28 @@ export default function InterviewRosterApp() {
             }
           />
 
+          <Route
+            path="/my-interviews"
+            element={
+              <ProtectedRoute>
+                <DashboardLayout>
+                  <MyInterviewsPage />
+                </DashboardLayout>
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/needs-marking"
+            element={
+              <ProtectedRoute allowedRoles={["talent", "admin"]}>
+                <DashboardLayout>
+                  <NeedsMarkingPage />
+                </DashboardLayout>
+              </ProtectedRoute>
+            }
+          />
+
           <Route
             path="/settings"
             element={
@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Returns the value once it has stopped changing for `delay` ms
+ * (search boxes that query the server on each keystroke)
+ */
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
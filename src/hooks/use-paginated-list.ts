@@ -0,0 +1,67 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Page, Pagination } from "@/polymet/data/database-service";
+
+interface PagedQuery {
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Loads one page of a server-paginated list and reloads it whenever the
+ * query (filters, sort, page) changes. Responses to superseded queries are
+ * dropped, and a page emptied by deletions steps back to the last page.
+ */
+export function usePaginatedList<T, Q extends PagedQuery>(
+  fetchPage: (query: Q) => Promise<Page<T>>,
+  initialQuery: Q
+) {
+  const [query, setQuery] = useState<Q>(initialQuery);
+  const [items, setItems] = useState<T[]>([]);
+  const [pagination, setPagination] = useState<Pagination>({
+    total: 0,
+    limit: initialQuery.limit ?? 50,
+    offset: 0,
+    hasMore: false,
+  });
+  const [loading, setLoading] = useState(true);
+  const [loaded, setLoaded] = useState(false); // First page has settled
+  const [error, setError] = useState<unknown>(null);
+  const latestRequest = useRef(0);
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  const reload = useCallback(async () => {
+    const request = ++latestRequest.current;
+    setLoading(true);
+
+    try {
+      const page = await fetchPageRef.current(query);
+      if (request !== latestRequest.current) return;
+
+      const { total, limit, offset } = page.pagination;
+      if (page.data.length === 0 && offset > 0 && total > 0) {
+        setQuery({ ...query, offset: Math.floor((total - 1) / limit) * limit });
+        return;
+      }
+
+      setItems(page.data);
+      setPagination(page.pagination);
+      setError(null);
+    } catch (err) {
+      if (request !== latestRequest.current) return;
+      console.error("Failed to load page:", err);
+      setError(err);
+    } finally {
+      if (request === latestRequest.current) {
+        setLoading(false);
+        setLoaded(true);
+      }
+    }
+  }, [query]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  return { items, pagination, query, setQuery, loading, loaded, error, reload };
+}
@@ -0,0 +1,89 @@
+/**
+ * Analytics Utils Tests
+ *
+ * Tests for KPI date ranges, rate formatting and period-over-period changes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatRate,
+  getGroupTotal,
+  getKpiChange,
+  getPresetRange,
+  getRangeDays,
+  getSummaryWeeks,
+  isValidRange,
+} from './analytics-utils';
+import type { KpiGroup } from '@/polymet/data/database-service';
+
+// Wednesday
+const today = new Date(2024, 2, 20, 15, 30);
+
+describe('getPresetRange', () => {
+  it('should count today as the last day of rolling ranges', () => {
+    expect(getPresetRange('7d', today)).toEqual({ start_date: '2024-03-14', end_date: '2024-03-20' });
+    expect(getPresetRange('30d', today)).toEqual({ start_date: '2024-02-20', end_date: '2024-03-20' });
+  });
+
+  it('should cover whole calendar months', () => {
+    expect(getPresetRange('this-month', today)).toEqual({ start_date: '2024-03-01', end_date: '2024-03-31' });
+    expect(getPresetRange('last-month', today)).toEqual({ start_date: '2024-02-01', end_date: '2024-02-29' });
+    expect(getPresetRange('last-month', new Date(2024, 0, 10))).toEqual({
+      start_date: '2023-12-01',
+      end_date: '2023-12-31',
+    });
+  });
+});
+
+describe('getRangeDays / isValidRange', () => {
+  it('should count both ends', () => {
+    expect(getRangeDays({ start_date: '2024-03-14', end_date: '2024-03-20' })).toBe(7);
+    expect(getRangeDays({ start_date: '2024-03-20', end_date: '2024-03-20' })).toBe(1);
+  });
+
+  it('should reject incomplete or reversed ranges', () => {
+    expect(isValidRange({ start_date: '2024-03-01', end_date: '2024-03-31' })).toBe(true);
+    expect(isValidRange({ start_date: '2024-03-01' })).toBe(false);
+    expect(isValidRange({ start_date: '2024-03-31', end_date: '2024-03-01' })).toBe(false);
+  });
+});
+
+describe('formatRate', () => {
+  it('should format fractions as percentages', () => {
+    expect(formatRate(0.0125)).toBe('1.3%');
+    expect(formatRate(0)).toBe('0.0%');
+    expect(formatRate(null)).toBe('—');
+  });
+});
+
+describe('getKpiChange', () => {
+  it('should compare rates in percentage points', () => {
+    expect(getKpiChange(0.021, 0.015, 'rate')).toEqual({ trend: 'up', label: '+0.6 pts' });
+    expect(getKpiChange(0.01, 0.03, 'rate')).toEqual({ trend: 'down', label: '-2 pts' });
+    expect(getKpiChange(0.02, 0.02, 'rate')).toEqual({ trend: 'neutral', label: '0 pts' });
+  });
+
+  it('should compare plain numbers', () => {
+    expect(getKpiChange(3.5, 2.7, 'number')).toEqual({ trend: 'up', label: '+0.8' });
+  });
+
+  it('should give nothing without both values', () => {
+    expect(getKpiChange(0.02, null, 'rate')).toBeNull();
+    expect(getKpiChange(null, 0.02, 'rate')).toBeNull();
+    expect(getKpiChange(0.02, undefined, 'rate')).toBeNull();
+  });
+});
+
+describe('getSummaryWeeks', () => {
+  it('should give the Mondays of last and this week', () => {
+    expect(getSummaryWeeks(today)).toEqual({ lastWeek: '2024-03-11', thisWeek: '2024-03-18' });
+    // Sunday belongs to the week that started six days earlier
+    expect(getSummaryWeeks(new Date(2024, 2, 24))).toEqual({ lastWeek: '2024-03-11', thisWeek: '2024-03-18' });
+  });
+
+  it('should look up week totals by key', () => {
+    const groups = [{ key: '2024-03-11', total: 4 }] as KpiGroup[];
+    expect(getGroupTotal(groups, '2024-03-11')).toBe(4);
+    expect(getGroupTotal(groups, '2024-03-18')).toBe(0);
+  });
+});
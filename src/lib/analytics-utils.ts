@@ -0,0 +1,139 @@
+import type { DateRange, KpiGroup } from "@/polymet/data/database-service";
+import { toDateKey } from "@/lib/availability-utils";
+import { startOfWeek } from "@/lib/calendar-utils";
+
+/**
+ * Date ranges and formatting for the server-side KPIs (/analytics/kpis)
+ * Ranges are local calendar days as YYYY-MM-DD, both ends inclusive
+ */
+
+export type DateRangePreset =
+  | "7d"
+  | "30d"
+  | "90d"
+  | "this-month"
+  | "last-month"
+  | "custom";
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: "7d", label: "Last 7 days" },
+  { value: "30d", label: "Last 30 days" },
+  { value: "90d", label: "Last 90 days" },
+  { value: "this-month", label: "This month" },
+  { value: "last-month", label: "Last month" },
+  { value: "custom", label: "Custom range" },
+];
+
+/**
+ * Range covered by a preset ("custom" starts out as the last 30 days)
+ * Example: 30d on 2024-03-20 → 2024-02-20 to 2024-03-20
+ */
+export function getPresetRange(
+  preset: DateRangePreset,
+  today: Date = new Date()
+): DateRange {
+  const year = today.getFullYear();
+  const month = today.getMonth();
+  const lastDays = (days: number) => ({
+    start_date: toDateKey(new Date(year, month, today.getDate() - days + 1)),
+    end_date: toDateKey(today),
+  });
+
+  switch (preset) {
+    case "7d":
+      return lastDays(7);
+    case "90d":
+      return lastDays(90);
+    case "this-month":
+      return {
+        start_date: toDateKey(new Date(year, month, 1)),
+        end_date: toDateKey(new Date(year, month + 1, 0)),
+      };
+    case "last-month":
+      return {
+        start_date: toDateKey(new Date(year, month - 1, 1)),
+        end_date: toDateKey(new Date(year, month, 0)),
+      };
+    default:
+      return lastDays(30);
+  }
+}
+
+/**
+ * Number of days in a range (both ends inclusive)
+ */
+export function getRangeDays(range: DateRange): number {
+  const start = Date.parse(`${range.start_date}T00:00:00Z`);
+  const end = Date.parse(`${range.end_date}T00:00:00Z`);
+  return Math.round((end - start) / 86_400_000) + 1;
+}
+
+/**
+ * Whether a custom range can be queried (both dates set, start not after end)
+ */
+export function isValidRange(range: Partial<DateRange>): range is DateRange {
+  return (
+    !!range.start_date &&
+    !!range.end_date &&
+    range.start_date <= range.end_date
+  );
+}
+
+/**
+ * Rate (0-1) as a percentage, "—" when there was nothing to measure
+ * Example: 0.0125 → "1.3%"
+ */
+export function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * Change between two periods for a KPI card trend
+ * Rates are compared in percentage points, other values as plain numbers
+ * Example: 0.021 vs 0.015 as a rate → { trend: "up", label: "+0.6 pts" }
+ */
+export function getKpiChange(
+  current: number | null,
+  previous: number | null | undefined,
+  kind: "rate" | "number"
+): { trend: "up" | "down" | "neutral"; label: string } | null {
+  if (current === null || previous === null || previous === undefined) {
+    return null;
+  }
+
+  const delta = kind === "rate" ? (current - previous) * 100 : current - previous;
+  const rounded = Math.round(delta * 10) / 10;
+  if (rounded === 0) {
+    return { trend: "neutral", label: kind === "rate" ? "0 pts" : "0" };
+  }
+
+  const sign = rounded > 0 ? "+" : "";
+  return {
+    trend: rounded > 0 ? "up" : "down",
+    label: `${sign}${rounded}${kind === "rate" ? " pts" : ""}`,
+  };
+}
+
+/**
+ * Week starts for the schedule summary: the server groups weeks by their
+ * Monday, so these are Mondays regardless of the org's first day of week
+ */
+export function getSummaryWeeks(today: Date = new Date()): {
+  lastWeek: string;
+  thisWeek: string;
+} {
+  const monday = startOfWeek(today, 1);
+  return {
+    lastWeek: toDateKey(
+      new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() - 7)
+    ),
+    thisWeek: toDateKey(monday),
+  };
+}
+
+/**
+ * Total of the group with the given key (0 when the group has no events)
+ */
+export function getGroupTotal(groups: KpiGroup[], key: string): number {
+  return groups.find((group) => group.key === key)?.total ?? 0;
+}
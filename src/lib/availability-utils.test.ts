@@ -0,0 +1,100 @@
+/**
+ * Availability Utils Tests
+ *
+ * Tests for resolving weekly windows, overrides and blackout dates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  resolveAvailabilityForDate,
+  isWithinAvailability,
+  getUnavailableHours,
+  formatWindows,
+} from './availability-utils';
+import type { InterviewerAvailability } from '@/polymet/data/database-service';
+
+const availability: InterviewerAvailability = {
+  interviewer_id: 'int-001',
+  interviewer_email: 'sarah.chen@company.com',
+  timezone: 'America/Los_Angeles',
+  weekly: [
+    { day_of_week: 1, start_time: '09:00', end_time: '12:00' },
+    { day_of_week: 1, start_time: '13:00', end_time: '17:00' },
+    { day_of_week: 2, start_time: '10:00', end_time: '16:00' },
+  ],
+  overrides: [{ date: '2024-03-19', start_time: '14:00', end_time: '16:00' }],
+  blackouts: [{ start_date: '2024-03-20', end_date: '2024-03-22', reason: 'PTO' }],
+};
+
+// Local dates (month is 0-based)
+const monday = new Date(2024, 2, 18);
+const tuesday = new Date(2024, 2, 19);
+const wednesday = new Date(2024, 2, 20);
+const saturday = new Date(2024, 2, 23);
+
+describe('resolveAvailabilityForDate', () => {
+  it('should return weekly windows for the day of week', () => {
+    expect(resolveAvailabilityForDate(availability, monday)).toEqual([
+      { start_time: '09:00', end_time: '12:00' },
+      { start_time: '13:00', end_time: '17:00' },
+    ]);
+  });
+
+  it('should let a date override replace weekly windows', () => {
+    expect(resolveAvailabilityForDate(availability, tuesday)).toEqual([
+      { start_time: '14:00', end_time: '16:00' },
+    ]);
+  });
+
+  it('should return no windows on a blackout date', () => {
+    expect(resolveAvailabilityForDate(availability, wednesday)).toEqual([]);
+  });
+
+  it('should return no windows on days without a weekly window', () => {
+    expect(resolveAvailabilityForDate(availability, saturday)).toEqual([]);
+  });
+
+  it('should treat a missing weekly schedule as unrestricted', () => {
+    expect(
+      resolveAvailabilityForDate({ ...availability, weekly: [], overrides: [], blackouts: [] }, monday)
+    ).toBeNull();
+    expect(resolveAvailabilityForDate(undefined, monday)).toBeNull();
+  });
+});
+
+describe('isWithinAvailability', () => {
+  const windows = [{ start_time: '09:00', end_time: '12:00' }];
+
+  it('should accept interviews fully inside a window', () => {
+    expect(isWithinAvailability(windows, '10:00', 60)).toBe(true);
+    expect(isWithinAvailability(windows, '11:00', 60)).toBe(true);
+  });
+
+  it('should reject interviews that run past the window', () => {
+    expect(isWithinAvailability(windows, '11:30', 60)).toBe(false);
+    expect(isWithinAvailability(windows, '14:00', 60)).toBe(false);
+  });
+
+  it('should accept any time when availability is unrestricted', () => {
+    expect(isWithinAvailability(null, '19:00', 60)).toBe(true);
+  });
+});
+
+describe('getUnavailableHours', () => {
+  it('should flag hours outside every window', () => {
+    const hours = getUnavailableHours([{ start_time: '10:00', end_time: '12:00' }], 9, 13);
+    expect(hours).toEqual([true, false, false, true]);
+  });
+
+  it('should not flag anything when unrestricted', () => {
+    expect(getUnavailableHours(null, 9, 12)).toEqual([false, false, false]);
+  });
+});
+
+describe('formatWindows', () => {
+  it('should format windows for display', () => {
+    expect(formatWindows([{ start_time: '09:00', end_time: '12:00' }])).toBe('09:00–12:00');
+    expect(formatWindows([])).toBe('Unavailable');
+    expect(formatWindows(null)).toBe('No schedule set');
+  });
+});
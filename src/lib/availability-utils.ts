@@ -0,0 +1,110 @@
+import type {
+  InterviewerAvailability,
+  TimeWindow,
+} from "@/polymet/data/database-service";
+
+/**
+ * Formats a Date as a YYYY-MM-DD key using its local calendar date
+ * Example: Date(2024-03-18 14:30 local) → "2024-03-18"
+ */
+export function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Converts HH:MM to minutes since midnight
+ * Example: "09:30" → 570
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Resolves availability windows for a calendar date
+ * Precedence: blackout > date override > weekly windows
+ * Returns null when no weekly schedule is configured (unrestricted)
+ */
+export function resolveAvailabilityForDate(
+  availability: InterviewerAvailability | undefined,
+  date: Date
+): TimeWindow[] | null {
+  if (!availability) return null;
+
+  const dateKey = toDateKey(date);
+
+  const isBlackout = availability.blackouts.some(
+    (blackout) => blackout.start_date <= dateKey && blackout.end_date >= dateKey
+  );
+  if (isBlackout) return [];
+
+  const overrides = availability.overrides.filter((o) => o.date === dateKey);
+  if (overrides.length > 0) {
+    return overrides.map(({ start_time, end_time }) => ({ start_time, end_time }));
+  }
+
+  if (availability.weekly.length === 0) return null;
+
+  return availability.weekly
+    .filter((window) => window.day_of_week === date.getDay())
+    .map(({ start_time, end_time }) => ({ start_time, end_time }));
+}
+
+/**
+ * Checks whether an interview starting at HH:MM fits inside a window
+ * Unrestricted availability (null) always fits
+ */
+export function isWithinAvailability(
+  windows: TimeWindow[] | null,
+  time: string,
+  durationMinutes: number = 60
+): boolean {
+  if (windows === null) return true;
+
+  const start = timeToMinutes(time);
+  const end = start + durationMinutes;
+
+  return windows.some(
+    (window) =>
+      timeToMinutes(window.start_time) <= start &&
+      timeToMinutes(window.end_time) >= end
+  );
+}
+
+/**
+ * Returns one flag per hour in [fromHour, toHour) marking hours with no availability
+ * Used to shade unavailable hours in the weekly calendars
+ */
+export function getUnavailableHours(
+  windows: TimeWindow[] | null,
+  fromHour: number = 9,
+  toHour: number = 20
+): boolean[] {
+  return Array.from({ length: toHour - fromHour }, (_, i) => {
+    if (windows === null) return false;
+
+    const hourStart = (fromHour + i) * 60;
+    const hourEnd = hourStart + 60;
+
+    return !windows.some(
+      (window) =>
+        timeToMinutes(window.start_time) < hourEnd &&
+        timeToMinutes(window.end_time) > hourStart
+    );
+  });
+}
+
+/**
+ * Formats windows for display
+ * Example: [{09:00-12:00}, {13:00-17:00}] → "09:00–12:00, 13:00–17:00"
+ */
+export function formatWindows(windows: TimeWindow[] | null): string {
+  if (windows === null) return "No schedule set";
+  if (windows.length === 0) return "Unavailable";
+  return windows
+    .map((window) => `${window.start_time}–${window.end_time}`)
+    .join(", ");
+}
@@ -0,0 +1,94 @@
+/**
+ * Calendar Utils Tests
+ *
+ * Tests for the day/week/month calendar engine
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatViewRange,
+  getLoadRange,
+  getVisibleDays,
+  getWeekdayOrder,
+  parseCalendarSettings,
+  shiftAnchor,
+  shiftDay,
+  startOfWeek,
+} from './calendar-utils';
+import { toDateKey } from './availability-utils';
+
+const mondayFirst = { firstDayOfWeek: 1, workDays: [1, 2, 3, 4, 5] };
+const sundayFirst = { firstDayOfWeek: 0, workDays: [0, 1, 2, 3, 4] };
+const keys = (days: Date[]) => days.map(toDateKey);
+
+describe('parseCalendarSettings', () => {
+  it('should read first day and work days', () => {
+    expect(parseCalendarSettings('0', '4,0, 1,2,3')).toEqual(sundayFirst);
+  });
+
+  it('should fall back to Monday and Mon-Fri', () => {
+    expect(parseCalendarSettings(undefined, undefined)).toEqual(mondayFirst);
+    expect(parseCalendarSettings('9', 'sat,8')).toEqual(mondayFirst);
+  });
+});
+
+describe('startOfWeek', () => {
+  it('should honour the first day of the week', () => {
+    const wednesday = new Date(2024, 2, 20);
+    expect(toDateKey(startOfWeek(wednesday, 1))).toBe('2024-03-18');
+    expect(toDateKey(startOfWeek(wednesday, 0))).toBe('2024-03-17');
+    expect(toDateKey(startOfWeek(new Date(2024, 2, 17), 1))).toBe('2024-03-11');
+  });
+
+  it('should order weekday headers from the first day', () => {
+    expect(getWeekdayOrder(6)).toEqual([6, 0, 1, 2, 3, 4, 5]);
+  });
+});
+
+describe('getVisibleDays', () => {
+  const anchor = new Date(2024, 2, 20);
+
+  it('should show the work week, or the full week with weekends', () => {
+    expect(keys(getVisibleDays(anchor, 'week', mondayFirst, false))).toEqual([
+      '2024-03-18', '2024-03-19', '2024-03-20', '2024-03-21', '2024-03-22',
+    ]);
+    expect(getVisibleDays(anchor, 'week', mondayFirst, true)).toHaveLength(7);
+    expect(keys(getVisibleDays(anchor, 'week', sundayFirst, false))).toEqual([
+      '2024-03-17', '2024-03-18', '2024-03-19', '2024-03-20', '2024-03-21',
+    ]);
+  });
+
+  it('should cover the month in whole weeks', () => {
+    const days = getVisibleDays(anchor, 'month', mondayFirst, true);
+    expect(toDateKey(days[0])).toBe('2024-02-26');
+    expect(toDateKey(days[days.length - 1])).toBe('2024-03-31');
+    expect(days).toHaveLength(35);
+    expect(getVisibleDays(anchor, 'month', mondayFirst, false)).toHaveLength(25);
+  });
+
+  it('should always show the day in day view', () => {
+    expect(keys(getVisibleDays(new Date(2024, 2, 23, 15), 'day', mondayFirst, false))).toEqual(['2024-03-23']);
+  });
+});
+
+describe('navigation', () => {
+  it('should step by the view length', () => {
+    const anchor = new Date(2024, 0, 31);
+    expect(toDateKey(shiftAnchor(anchor, 'day', 1))).toBe('2024-02-01');
+    expect(toDateKey(shiftAnchor(anchor, 'week', -1))).toBe('2024-01-24');
+    expect(toDateKey(shiftAnchor(anchor, 'month', 1))).toBe('2024-02-01');
+  });
+
+  it('should skip hidden weekend days in day view', () => {
+    const friday = new Date(2024, 2, 22);
+    expect(toDateKey(shiftDay(friday, 1, mondayFirst, false))).toBe('2024-03-25');
+    expect(toDateKey(shiftDay(friday, 1, mondayFirst, true))).toBe('2024-03-23');
+  });
+
+  it('should label the range and pad the load range', () => {
+    const days = getVisibleDays(new Date(2024, 2, 20), 'week', mondayFirst, false);
+    expect(formatViewRange(days[0], 'week', days)).toBe('Mar 18 - Mar 22');
+    expect(formatViewRange(days[0], 'month', days)).toBe('March 2024');
+    expect(getLoadRange(days)).toEqual({ start_date: '2024-03-17', end_date: '2024-03-23' });
+  });
+});
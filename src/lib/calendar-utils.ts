@@ -0,0 +1,171 @@
+import { toDateKey } from "@/lib/availability-utils";
+
+/**
+ * Calendar engine shared by the schedule calendars
+ * Works on local-midnight Dates (one per calendar day); which zone events
+ * fall on which day is decided by the caller (see time-zone-utils).
+ */
+
+export type CalendarView = "day" | "week" | "month";
+
+export interface CalendarSettings {
+  firstDayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  workDays: number[]; // Days shown when weekends are hidden
+}
+
+const DEFAULT_WORK_DAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Organisation calendar settings from VITE_FIRST_DAY_OF_WEEK (default 1, Monday)
+ * and VITE_WORK_DAYS (comma-separated day numbers, default 1,2,3,4,5)
+ */
+export function getOrgCalendarSettings(): CalendarSettings {
+  return parseCalendarSettings(
+    import.meta.env.VITE_FIRST_DAY_OF_WEEK,
+    import.meta.env.VITE_WORK_DAYS
+  );
+}
+
+/**
+ * Reads calendar settings, falling back to Monday and Mon-Fri on invalid input
+ * Example: ("0", "0,1,2,3,4") → { firstDayOfWeek: 0, workDays: [0, 1, 2, 3, 4] }
+ */
+export function parseCalendarSettings(
+  firstDayOfWeek: string | undefined,
+  workDays: string | undefined
+): CalendarSettings {
+  const first = Number(firstDayOfWeek);
+  const days = (workDays ?? "")
+    .split(",")
+    .map((day) => day.trim())
+    .filter((day) => /^[0-6]$/.test(day))
+    .map(Number);
+
+  return {
+    firstDayOfWeek: firstDayOfWeek && Number.isInteger(first) && first >= 0 && first <= 6 ? first : 1,
+    workDays: days.length > 0 ? [...new Set(days)].sort((a, b) => a - b) : DEFAULT_WORK_DAYS,
+  };
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Start of the week containing a date
+ * Example: Wed 2024-03-20, first day Monday → Mon 2024-03-18
+ */
+export function startOfWeek(date: Date, firstDayOfWeek: number): Date {
+  const offset = (date.getDay() - firstDayOfWeek + 7) % 7;
+  return addDays(date, -offset);
+}
+
+/**
+ * Weekday numbers in display order
+ * Example: 1 → [1, 2, 3, 4, 5, 6, 0]
+ */
+export function getWeekdayOrder(firstDayOfWeek: number): number[] {
+  return Array.from({ length: 7 }, (_, i) => (firstDayOfWeek + i) % 7);
+}
+
+/**
+ * Days a view shows around an anchor date
+ * - day: the anchor itself
+ * - week: the week containing the anchor
+ * - month: whole weeks covering the anchor's month
+ * Weekends (days outside workDays) are dropped unless showWeekends is set;
+ * the day view always shows its day.
+ */
+export function getVisibleDays(
+  anchor: Date,
+  view: CalendarView,
+  settings: CalendarSettings,
+  showWeekends: boolean
+): Date[] {
+  const day = addDays(anchor, 0);
+  if (view === "day") return [day];
+
+  let start: Date;
+  let length: number;
+  if (view === "week") {
+    start = startOfWeek(day, settings.firstDayOfWeek);
+    length = 7;
+  } else {
+    const monthStart = new Date(day.getFullYear(), day.getMonth(), 1);
+    const monthEnd = new Date(day.getFullYear(), day.getMonth() + 1, 0);
+    start = startOfWeek(monthStart, settings.firstDayOfWeek);
+    const end = addDays(startOfWeek(monthEnd, settings.firstDayOfWeek), 6);
+    length = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+  }
+
+  return Array.from({ length }, (_, i) => addDays(start, i)).filter(
+    (date) => showWeekends || settings.workDays.includes(date.getDay())
+  );
+}
+
+/**
+ * Moves the anchor one view-length forwards (1) or backwards (-1)
+ */
+export function shiftAnchor(anchor: Date, view: CalendarView, direction: 1 | -1): Date {
+  if (view === "day") return addDays(anchor, direction);
+  if (view === "week") return addDays(anchor, 7 * direction);
+  return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1);
+}
+
+/**
+ * Moves a day-view anchor to the next shown day, skipping weekends when hidden
+ */
+export function shiftDay(
+  anchor: Date,
+  direction: 1 | -1,
+  settings: CalendarSettings,
+  showWeekends: boolean
+): Date {
+  let next = addDays(anchor, direction);
+  for (let i = 0; i < 7 && !showWeekends && !settings.workDays.includes(next.getDay()); i++) {
+    next = addDays(next, direction);
+  }
+  return next;
+}
+
+/**
+ * Title for the shown range
+ * Example: week of 18-22 Mar 2024 → "Mar 18 - Mar 22"; month → "March 2024"
+ */
+export function formatViewRange(anchor: Date, view: CalendarView, days: Date[]): string {
+  const short = (date: Date) =>
+    date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+  if (view === "month") {
+    return anchor.toLocaleDateString("en-US", { month: "long", year: "numeric" });
+  }
+  if (view === "day" || days.length === 0) {
+    return anchor.toLocaleDateString("en-US", {
+      weekday: "long",
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+  }
+  return `${short(days[0])} - ${short(days[days.length - 1])}`;
+}
+
+/**
+ * Date range to load events for, padded by a day each side because the
+ * server filters on UTC dates and rows may be shown in other zones
+ */
+export function getLoadRange(days: Date[]): { start_date: string; end_date: string } {
+  const first = days[0] ?? new Date();
+  const last = days[days.length - 1] ?? first;
+  return {
+    start_date: toDateKey(addDays(first, -1)),
+    end_date: toDateKey(addDays(last, 1)),
+  };
+}
+
+/**
+ * Whether two Dates fall on the same local calendar day
+ */
+export function isSameDay(a: Date, b: Date): boolean {
+  return toDateKey(a) === toDateKey(b);
+}
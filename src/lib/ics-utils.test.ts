@@ -0,0 +1,259 @@
+/**
+ * ICS Utils Tests
+ *
+ * Tests for iCalendar parsing, recurrence expansion and the import preview
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseIcs,
+  parseInterviewSummary,
+  buildIcsImportPreview,
+  isIcsRowSelectedByDefault,
+} from './ics-utils';
+
+const calendar = (...events: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events, 'END:VCALENDAR'].join('\r\n');
+
+const vevent = (...lines: string[]) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT'].join('\r\n');
+
+const horizon = { expandUntil: new Date('2025-12-31T00:00:00Z') };
+
+describe('parseIcs', () => {
+  it('should read a UTC event with attendees and unescaped text', () => {
+    const { events, warnings } = parseIcs(
+      calendar(
+        vevent(
+          'UID:abc-1',
+          'SUMMARY:Interview: Jane Smith (Backend Engineer)',
+          'DESCRIPTION:Line one\\nBring laptop\\, charger',
+          'DTSTART:20250310T160000Z',
+          'DTEND:20250310T170000Z',
+          'ORGANIZER;CN=Coordinator:mailto:coord@example.com',
+          'ATTENDEE;CN="Chen, Sarah";ROLE=REQ-PARTICIPANT:MAILTO:Sarah.Chen@example.com',
+          'ATTENDEE;CN=Jane Smith:mailto:jane@example.net'
+        )
+      )
+    );
+
+    expect(warnings).toEqual([]);
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      uid: 'abc-1',
+      start: '2025-03-10T16:00:00.000Z',
+      end: '2025-03-10T17:00:00.000Z',
+      description: 'Line one\nBring laptop, charger',
+      status: 'confirmed',
+      organizer: { email: 'coord@example.com', name: 'Coordinator' },
+      attendees: [
+        { email: 'sarah.chen@example.com', name: 'Chen, Sarah' },
+        { email: 'jane@example.net', name: 'Jane Smith' },
+      ],
+    });
+  });
+
+  it('should unfold continuation lines', () => {
+    const { events } = parseIcs(
+      calendar(
+        vevent('UID:fold', 'SUMMARY:Interview with a very lo', ' ng name', 'DTSTART:20250310T160000Z')
+      )
+    );
+
+    expect(events[0].summary).toBe('Interview with a very long name');
+  });
+
+  it('should convert TZID times (IANA and Windows names) to UTC', () => {
+    const { events } = parseIcs(
+      calendar(
+        vevent('UID:a', 'DTSTART;TZID=America/New_York:20250310T100000', 'DURATION:PT45M'),
+        vevent('UID:b', 'DTSTART;TZID=Pacific Standard Time:20250110T090000', 'DTEND;TZID=Pacific Standard Time:20250110T100000')
+      )
+    );
+
+    expect(events.map((event) => [event.uid, event.start, event.end])).toEqual([
+      ['b', '2025-01-10T17:00:00.000Z', '2025-01-10T18:00:00.000Z'],
+      ['a', '2025-03-10T14:00:00.000Z', '2025-03-10T14:45:00.000Z'],
+    ]);
+  });
+
+  it('should keep the local time of weekly occurrences across DST', () => {
+    const { events } = parseIcs(
+      calendar(
+        vevent(
+          'UID:weekly',
+          'DTSTART;TZID=America/New_York:20250303T100000',
+          'DTEND;TZID=America/New_York:20250303T110000',
+          'RRULE:FREQ=WEEKLY;COUNT=3'
+        )
+      ),
+      horizon
+    );
+
+    expect(events.map((event) => event.start)).toEqual([
+      '2025-03-03T15:00:00.000Z',
+      '2025-03-10T14:00:00.000Z',
+      '2025-03-17T14:00:00.000Z',
+    ]);
+    expect(events.map((event) => event.occurrence)).toEqual([0, 1, 2]);
+  });
+
+  it('should expand BYDAY rules and honour EXDATE and UNTIL', () => {
+    const { events } = parseIcs(
+      calendar(
+        vevent(
+          'UID:byday',
+          'DTSTART:20250303T150000Z',
+          'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20250312T235959Z',
+          'EXDATE:20250305T150000Z'
+        )
+      ),
+      horizon
+    );
+
+    expect(events.map((event) => event.start.slice(0, 10))).toEqual([
+      '2025-03-03',
+      '2025-03-10',
+      '2025-03-12',
+    ]);
+  });
+
+  it('should replace occurrences overridden by RECURRENCE-ID', () => {
+    const { events } = parseIcs(
+      calendar(
+        vevent('UID:series', 'DTSTART:20250303T150000Z', 'RRULE:FREQ=DAILY;COUNT=3'),
+        vevent(
+          'UID:series',
+          'RECURRENCE-ID:20250304T150000Z',
+          'DTSTART:20250304T180000Z',
+          'SUMMARY:Moved'
+        )
+      ),
+      horizon
+    );
+
+    expect(events.map((event) => event.start)).toEqual([
+      '2025-03-03T15:00:00.000Z',
+      '2025-03-04T18:00:00.000Z',
+      '2025-03-05T15:00:00.000Z',
+    ]);
+  });
+
+  it('should stop open-ended rules at the horizon with a warning', () => {
+    const { events, warnings } = parseIcs(
+      calendar(vevent('UID:open', 'SUMMARY:Standup', 'DTSTART:20251201T150000Z', 'RRULE:FREQ=WEEKLY')),
+      horizon
+    );
+
+    expect(events).toHaveLength(5);
+    expect(warnings[0]).toContain('occurrences after 2025-12-31 not imported');
+  });
+
+  it('should skip all-day events and warn about unsupported rules', () => {
+    const { events, warnings } = parseIcs(
+      calendar(
+        vevent('UID:day', 'SUMMARY:Offsite', 'DTSTART;VALUE=DATE:20250310'),
+        vevent('UID:pos', 'SUMMARY:Monthly', 'DTSTART:20250310T150000Z', 'RRULE:FREQ=MONTHLY;BYSETPOS=-1;BYDAY=FR')
+      ),
+      horizon
+    );
+
+    expect(events.map((event) => event.uid)).toEqual(['pos']);
+    expect(warnings).toEqual([
+      'Offsite: all-day event, skipped',
+      'Monthly: recurrence rule not supported, only the first occurrence imported',
+    ]);
+  });
+
+  it('should reject files without events', () => {
+    expect(() => parseIcs('name,email\nSarah,sarah@example.com')).toThrow('No events found');
+  });
+});
+
+describe('parseInterviewSummary', () => {
+  it('should read candidate and position', () => {
+    expect(parseInterviewSummary('Interview: Jane Smith (Backend Engineer)')).toEqual({
+      candidate_name: 'Jane Smith',
+      position: 'Backend Engineer',
+    });
+    expect(parseInterviewSummary('Phone interview with Bo Ng - Designer')).toEqual({
+      candidate_name: 'Bo Ng',
+      position: 'Designer',
+    });
+  });
+
+  it('should return nulls for other summaries', () => {
+    expect(parseInterviewSummary('Team lunch')).toEqual({ candidate_name: null, position: null });
+  });
+});
+
+describe('buildIcsImportPreview', () => {
+  const interviewers = [
+    { email: 'sarah.chen@example.com', name: 'Sarah Chen', is_active: true },
+    { email: 'priya.patel@example.com', name: 'Priya Patel', is_active: false },
+  ];
+
+  const { events } = parseIcs(
+    calendar(
+      vevent(
+        'UID:panel',
+        'SUMMARY:Interview: Jane Smith',
+        'DTSTART:20250310T160000Z',
+        'ATTENDEE:mailto:sarah.chen@example.com',
+        'ATTENDEE:mailto:priya.patel@example.com',
+        'ATTENDEE;CN=Jane Smith:mailto:jane@example.net'
+      ),
+      vevent('UID:dup', 'SUMMARY:Interview: Jane Smith', 'DTSTART:20250310T160000Z', 'ATTENDEE:mailto:sarah.chen@example.com'),
+      vevent('UID:none', 'SUMMARY:Coffee', 'DTSTART:20250311T160000Z', 'ATTENDEE;CN=Bo:mailto:bo@example.net'),
+      vevent('UID:taken', 'SUMMARY:Screen', 'STATUS:CANCELLED', 'DTSTART:20250312T160000Z', 'ORGANIZER:mailto:sarah.chen@example.com', 'ATTENDEE;CN=Ann Lee:mailto:ann@example.net')
+    )
+  );
+
+  const rows = buildIcsImportPreview(events, interviewers, [
+    { interviewer_email: 'sarah.chen@example.com', start_time: '2025-03-12T16:00:00Z', status: 'pending' },
+  ]);
+
+  it('should propose one event per interviewer attendee', () => {
+    const panel = rows.filter((row) => row.source.uid === 'panel');
+
+    expect(panel.map((row) => row.event?.interviewer_email)).toEqual([
+      'sarah.chen@example.com',
+      'priya.patel@example.com',
+    ]);
+    expect(panel[0].event).toMatchObject({
+      candidate_name: 'Jane Smith',
+      start_time: '2025-03-10T16:00:00.000Z',
+      end_time: '2025-03-10T17:00:00.000Z',
+      duration_minutes: 60,
+      status: 'pending',
+    });
+    expect(panel[0].unmatchedAttendees).toEqual([{ email: 'jane@example.net', name: 'Jane Smith' }]);
+    expect(panel[1].issues).toEqual(['Interviewer is inactive']);
+  });
+
+  it('should flag duplicates within the file and against existing events', () => {
+    expect(rows.find((row) => row.source.uid === 'dup')?.duplicate).toBe('file');
+    expect(rows.find((row) => row.source.uid === 'taken')?.duplicate).toBe('existing');
+  });
+
+  it('should keep events without a roster interviewer as unmatched rows', () => {
+    const none = rows.find((row) => row.source.uid === 'none');
+
+    expect(none?.event).toBeNull();
+    expect(none?.issues).toEqual(['No attendee is a roster interviewer']);
+    expect(none?.unmatchedAttendees).toEqual([{ email: 'bo@example.net', name: 'Bo' }]);
+  });
+
+  it('should take the candidate from the attendees and keep cancellations', () => {
+    const taken = rows.find((row) => row.source.uid === 'taken');
+
+    expect(taken?.event?.candidate_name).toBe('Ann Lee');
+    expect(taken?.event?.status).toBe('cancelled');
+    expect(taken?.issues).toContain('Cancelled in the calendar');
+  });
+
+  it('should only preselect new matches without issues', () => {
+    expect(rows.filter(isIcsRowSelectedByDefault).map((row) => row.key)).toEqual([
+      'panel|2025-03-10T16:00:00.000Z|sarah.chen@example.com',
+    ]);
+  });
+});
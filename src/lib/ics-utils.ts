@@ -0,0 +1,666 @@
+import type {
+  InterviewEvent,
+  Interviewer,
+} from "@/polymet/data/database-service";
+
+/**
+ * iCalendar (.ics) import
+ * Parses VEVENTs from calendar exports, expands recurring ones and maps
+ * attendees to roster interviewers so the events can be previewed before
+ * they are created
+ */
+
+export interface IcsAttendee {
+  email: string; // Lowercase
+  name: string | null; // CN parameter
+}
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  start: string; // ISO, UTC
+  end: string; // ISO, UTC
+  status: "confirmed" | "tentative" | "cancelled";
+  organizer: IcsAttendee | null;
+  attendees: IcsAttendee[];
+  occurrence: number | null; // 0-based index for expanded RRULE occurrences
+}
+
+export interface IcsParseResult {
+  events: IcsEvent[];
+  warnings: string[]; // Skipped or partially imported entries
+}
+
+export interface IcsParseOptions {
+  expandUntil?: Date; // Open-ended rules stop here (default: 180 days from now)
+  maxOccurrences?: number; // Per recurring event (default: 200)
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface WallTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// How a DTSTART is anchored: UTC, an IANA zone, or the browser's local time
+type TimeBasis = { type: "utc" } | { type: "zone"; zone: string } | { type: "floating" };
+
+interface IcsDateValue {
+  wall: WallTime;
+  basis: TimeBasis;
+  allDay: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_HORIZON_DAYS = 180;
+const DEFAULT_MAX_OCCURRENCES = 200;
+const DEFAULT_DURATION_MINUTES = 60;
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Outlook and Exchange exports use Windows zone names in TZID
+const WINDOWS_ZONES: Record<string, string> = {
+  "Pacific Standard Time": "America/Los_Angeles",
+  "Mountain Standard Time": "America/Denver",
+  "Central Standard Time": "America/Chicago",
+  "Eastern Standard Time": "America/New_York",
+  "GMT Standard Time": "Europe/London",
+  "W. Europe Standard Time": "Europe/Berlin",
+  "Romance Standard Time": "Europe/Paris",
+  "Central Europe Standard Time": "Europe/Budapest",
+  "India Standard Time": "Asia/Kolkata",
+  "China Standard Time": "Asia/Shanghai",
+  "Tokyo Standard Time": "Asia/Tokyo",
+  "AUS Eastern Standard Time": "Australia/Sydney",
+  "Egypt Standard Time": "Africa/Cairo",
+  "UTC": "UTC",
+};
+
+/**
+ * Parses an iCalendar document into events with UTC times
+ * Recurring events are expanded into one event per occurrence (EXDATE and
+ * RECURRENCE-ID overrides respected). All-day events are skipped.
+ */
+export function parseIcs(text: string, options: IcsParseOptions = {}): IcsParseResult {
+  const horizon = options.expandUntil ?? new Date(Date.now() + DEFAULT_HORIZON_DAYS * DAY_MS);
+  const maxOccurrences = options.maxOccurrences ?? DEFAULT_MAX_OCCURRENCES;
+  const warnings: string[] = [];
+  const components = readVEvents(text);
+
+  if (components.length === 0) {
+    throw new Error("No events found. Please select an iCalendar (.ics) file.");
+  }
+
+  // RECURRENCE-ID entries replace single occurrences of their series
+  const overrides = new Map<string, Set<number>>();
+  components.forEach((properties) => {
+    const recurrenceId = first(properties, "RECURRENCE-ID");
+    const uid = first(properties, "UID")?.value;
+    if (!recurrenceId || !uid) return;
+
+    const value = parseDateValue(recurrenceId);
+    if (!value) return;
+    if (!overrides.has(uid)) overrides.set(uid, new Set());
+    overrides.get(uid)!.add(toInstant(value.wall, value.basis));
+  });
+
+  const events: IcsEvent[] = [];
+
+  components.forEach((properties, index) => {
+    const summary = unescapeText(first(properties, "SUMMARY")?.value ?? "");
+    const label = summary || `Event ${index + 1}`;
+    const startProperty = first(properties, "DTSTART");
+    const start = startProperty ? parseDateValue(startProperty) : null;
+
+    if (!start) {
+      warnings.push(`${label}: missing or invalid start time, skipped`);
+      return;
+    }
+    if (start.allDay) {
+      warnings.push(`${label}: all-day event, skipped`);
+      return;
+    }
+    if (start.basis.type === "zone" && !isKnownZone(start.basis.zone)) {
+      warnings.push(`${label}: unknown timezone "${start.basis.zone}", read as UTC`);
+      start.basis = { type: "utc" };
+    }
+
+    const durationMs = readDurationMs(properties, start);
+    const uid = first(properties, "UID")?.value ?? `ics-${index}`;
+    const base = {
+      uid,
+      summary,
+      description: unescapeText(first(properties, "DESCRIPTION")?.value ?? "") || null,
+      status: readStatus(first(properties, "STATUS")?.value),
+      organizer: readPerson(first(properties, "ORGANIZER")),
+      attendees: properties
+        .filter((property) => property.name === "ATTENDEE")
+        .map(readPerson)
+        .filter((attendee): attendee is IcsAttendee => attendee !== null),
+    };
+
+    const rrule = first(properties, "RRULE")?.value;
+    const isOverride = first(properties, "RECURRENCE-ID") !== undefined;
+
+    if (!rrule || isOverride) {
+      const startMs = toInstant(start.wall, start.basis);
+      events.push({
+        ...base,
+        start: new Date(startMs).toISOString(),
+        end: new Date(startMs + durationMs).toISOString(),
+        occurrence: null,
+      });
+      return;
+    }
+
+    const excluded = new Set(
+      properties
+        .filter((property) => property.name === "EXDATE")
+        .flatMap((property) =>
+          property.value.split(",").map((value) =>
+            parseDateValue({ ...property, value })
+          )
+        )
+        .filter((value): value is IcsDateValue => value !== null)
+        .map((value) => toInstant(value.wall, value.basis))
+    );
+    overrides.get(uid)?.forEach((instant) => excluded.add(instant));
+
+    const expansion = expandRRule(rrule, start, { horizon, maxOccurrences });
+    if (expansion.warning) {
+      warnings.push(`${label}: ${expansion.warning}`);
+    }
+
+    expansion.starts.forEach((startMs, occurrence) => {
+      if (excluded.has(startMs)) return;
+      events.push({
+        ...base,
+        start: new Date(startMs).toISOString(),
+        end: new Date(startMs + durationMs).toISOString(),
+        occurrence,
+      });
+    });
+  });
+
+  events.sort((a, b) => a.start.localeCompare(b.start));
+  return { events, warnings };
+}
+
+/**
+ * Expands an RRULE into occurrence start instants (ms)
+ * Steps in the wall time of DTSTART so occurrences keep their local time
+ * across DST changes. Supports FREQ=DAILY|WEEKLY|MONTHLY|YEARLY with
+ * INTERVAL, COUNT, UNTIL and BYDAY (weekly rules); rules with other parts
+ * only yield their first occurrence.
+ */
+function expandRRule(
+  rrule: string,
+  start: { wall: WallTime; basis: TimeBasis },
+  { horizon, maxOccurrences }: { horizon: Date; maxOccurrences: number }
+): { starts: number[]; warning: string | null } {
+  const fields = Object.fromEntries(
+    rrule
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .filter(Boolean)
+      .map((part) => {
+        const [key, value = ""] = part.split("=");
+        return [key.toUpperCase(), value.toUpperCase()];
+      })
+  );
+  const firstStart = toInstant(start.wall, start.basis);
+  const supported = new Set(["FREQ", "INTERVAL", "COUNT", "UNTIL", "BYDAY", "WKST"]);
+  const unsupported = Object.keys(fields).filter((key) => !supported.has(key));
+  const frequency = fields.FREQ;
+
+  if (
+    !["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(frequency) ||
+    unsupported.length > 0 ||
+    (fields.BYDAY && frequency !== "WEEKLY")
+  ) {
+    return {
+      starts: [firstStart],
+      warning: "recurrence rule not supported, only the first occurrence imported",
+    };
+  }
+
+  const interval = Math.max(1, Number(fields.INTERVAL) || 1);
+  const count = fields.COUNT ? Number(fields.COUNT) : null;
+  const until = fields.UNTIL ? parseUntil(fields.UNTIL, start.basis) : null;
+  const limit = Math.min(until ?? Infinity, horizon.getTime());
+  const weekStart = WEEKDAYS.indexOf(fields.WKST ?? "MO");
+  // BYDAY as offsets from the start of the week (WKST, Monday by default)
+  const byDay: number[] = fields.BYDAY
+    ? fields.BYDAY.split(",")
+        .map((day: string) => WEEKDAYS.indexOf(day.slice(-2)))
+        .filter((day: number) => day >= 0)
+        .map((day: number) => (day - weekStart + 7) % 7)
+        .sort((a: number, b: number) => a - b)
+    : [];
+
+  const starts: number[] = [];
+  let truncated = false;
+
+  // Monthly and yearly rules skip missing days (e.g. Feb 30), so a period
+  // may be empty; the cap only guards against rules that never match
+  for (let period = 0; period < 10000; period++) {
+    const candidates = periodStarts(start.wall, frequency, interval * period, byDay, weekStart);
+
+    let pastLimit = false;
+    for (const wall of candidates) {
+      const instant = toInstant(wall, start.basis);
+      if (instant < firstStart) continue;
+      if ((count !== null && starts.length >= count) || instant > limit) {
+        pastLimit = true;
+        break;
+      }
+      if (starts.length >= maxOccurrences) {
+        truncated = true;
+        pastLimit = true;
+        break;
+      }
+      starts.push(instant);
+    }
+
+    if (pastLimit) break;
+  }
+
+  const openEnded = count === null && until === null;
+  const cutByHorizon = !truncated && (openEnded || (until ?? 0) > horizon.getTime());
+  return {
+    starts,
+    warning: truncated
+      ? `only the first ${maxOccurrences} occurrences imported`
+      : cutByHorizon
+        ? `occurrences after ${horizon.toISOString().slice(0, 10)} not imported`
+        : null,
+  };
+}
+
+/**
+ * Candidate and position from a summary like
+ * "Interview: Jane Smith (Backend Engineer)" or "Interview with Jane Smith - Backend Engineer"
+ */
+export function parseInterviewSummary(summary: string): {
+  candidate_name: string | null;
+  position: string | null;
+} {
+  const at = summary.toLowerCase().indexOf("interview");
+  if (at === -1) return { candidate_name: null, position: null };
+
+  const rest = summary
+    .slice(at + "interview".length)
+    .replace(/^\s*(with\b)?\s*[:\-–]?\s*/i, "")
+    .trim();
+  const parenthesized = /^(.*?)\s*\(([^)]+)\)$/.exec(rest);
+  const [name, position] = parenthesized
+    ? [parenthesized[1], parenthesized[2]]
+    : rest.split(/\s+[-–]\s+/, 2);
+
+  return {
+    candidate_name: name?.trim() || null,
+    position: position?.trim() || null,
+  };
+}
+
+export type IcsImportEvent = Omit<InterviewEvent, "id" | "created_at" | "updated_at">;
+
+export interface IcsImportRow {
+  key: string;
+  source: IcsEvent;
+  event: IcsImportEvent | null; // null when no attendee is on the roster
+  interviewerName: string | null;
+  unmatchedAttendees: IcsAttendee[]; // Attendees that are not roster interviewers
+  duplicate: "existing" | "file" | null; // Same interviewer and start
+  issues: string[];
+}
+
+/**
+ * Proposes roster events for parsed ICS events
+ * Each attendee (or the organizer) that is a known interviewer gets one
+ * event. Events that repeat an existing interview or an earlier row of
+ * the file are flagged as duplicates.
+ */
+export function buildIcsImportPreview(
+  events: IcsEvent[],
+  interviewers: Pick<Interviewer, "email" | "name" | "is_active">[],
+  existingEvents: Pick<InterviewEvent, "interviewer_email" | "start_time" | "status">[]
+): IcsImportRow[] {
+  const byEmail = new Map(
+    interviewers.map((interviewer) => [interviewer.email.toLowerCase(), interviewer])
+  );
+  const taken = new Set(
+    existingEvents
+      .filter((event) => event.status !== "cancelled")
+      .map((event) => slotKey(event.interviewer_email, event.start_time))
+  );
+  const seen = new Set<string>();
+  const rows: IcsImportRow[] = [];
+
+  events.forEach((source) => {
+    const people = source.organizer
+      ? [source.organizer, ...source.attendees]
+      : source.attendees;
+    const matched = [
+      ...new Set(people.map((person) => person.email).filter((email) => byEmail.has(email))),
+    ];
+    const unmatchedAttendees = source.attendees.filter(
+      (attendee) => !byEmail.has(attendee.email)
+    );
+    const parsed = parseInterviewSummary(source.summary);
+    const candidate = unmatchedAttendees[0];
+    const candidateName =
+      parsed.candidate_name ?? candidate?.name ?? (candidate?.email || source.summary || undefined);
+    const baseKey = `${source.uid}|${source.start}`;
+
+    if (matched.length === 0) {
+      rows.push({
+        key: baseKey,
+        source,
+        event: null,
+        interviewerName: null,
+        unmatchedAttendees,
+        duplicate: null,
+        issues: ["No attendee is a roster interviewer"],
+      });
+      return;
+    }
+
+    matched.forEach((email) => {
+      const interviewer = byEmail.get(email)!;
+      const key = slotKey(email, source.start);
+      const issues: string[] = [];
+
+      if (!interviewer.is_active) issues.push("Interviewer is inactive");
+      if (source.status === "cancelled") issues.push("Cancelled in the calendar");
+
+      rows.push({
+        key: `${baseKey}|${email}`,
+        source,
+        event: {
+          interviewer_email: interviewer.email,
+          start_time: source.start,
+          end_time: source.end,
+          duration_minutes: Math.round(
+            (Date.parse(source.end) - Date.parse(source.start)) / 60000
+          ),
+          candidate_name: candidateName,
+          position: parsed.position ?? undefined,
+          skills_assessed: [],
+          status: source.status === "cancelled" ? "cancelled" : "pending",
+          notes: source.description,
+        },
+        interviewerName: interviewer.name,
+        unmatchedAttendees,
+        duplicate: taken.has(key) ? "existing" : seen.has(key) ? "file" : null,
+        issues,
+      });
+      seen.add(key);
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * Whether a preview row is ticked for import before the user changes it
+ */
+export function isIcsRowSelectedByDefault(row: IcsImportRow): boolean {
+  return row.event !== null && row.duplicate === null && row.issues.length === 0;
+}
+
+function slotKey(email: string, start: string): string {
+  return `${email.toLowerCase()}|${Date.parse(start)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Properties of each top-level VEVENT (nested VALARMs are ignored)
+ */
+function readVEvents(text: string): IcsProperty[][] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: IcsProperty[][] = [];
+  const stack: string[] = [];
+  let current: IcsProperty[] | null = null;
+
+  lines.forEach((line) => {
+    if (!line.trim()) return;
+    const property = parseLine(line);
+    if (!property) return;
+
+    if (property.name === "BEGIN") {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === "VEVENT") current = [];
+      return;
+    }
+    if (property.name === "END") {
+      const ended = stack.pop();
+      if (ended === "VEVENT" && current) {
+        events.push(current);
+        current = null;
+      }
+      return;
+    }
+    if (current && stack[stack.length - 1] === "VEVENT") {
+      current.push(property);
+    }
+  });
+
+  return events;
+}
+
+/**
+ * NAME;PARAM=value;PARAM="quoted:value":VALUE
+ */
+function parseLine(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:[^;"]|"[^"]*")+/g) ?? [];
+  if (!name) return null;
+
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const eq = param.indexOf("=");
+    if (eq === -1) return;
+    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function first(properties: IcsProperty[], name: string): IcsProperty | undefined {
+  return properties.find((property) => property.name === name);
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+function readStatus(value: string | undefined): IcsEvent["status"] {
+  const status = value?.toUpperCase();
+  if (status === "CANCELLED") return "cancelled";
+  if (status === "TENTATIVE") return "tentative";
+  return "confirmed";
+}
+
+function readPerson(property: IcsProperty | undefined): IcsAttendee | null {
+  if (!property) return null;
+  const email = property.value.replace(/^mailto:/i, "").trim().toLowerCase();
+  if (!email.includes("@")) return null;
+  return { email, name: property.params.CN ? unescapeText(property.params.CN) : null };
+}
+
+function parseDateValue(property: IcsProperty): IcsDateValue | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    property.value.trim()
+  );
+  if (!match) return null;
+
+  const wall: WallTime = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] ?? 0),
+    minute: Number(match[5] ?? 0),
+    second: Number(match[6] ?? 0),
+  };
+  const allDay = match[4] === undefined || property.params.VALUE === "DATE";
+  const tzid = property.params.TZID;
+  const basis: TimeBasis = match[7]
+    ? { type: "utc" }
+    : tzid
+      ? { type: "zone", zone: WINDOWS_ZONES[tzid] ?? tzid.replace(/^\/.*?\//, "") }
+      : { type: "floating" };
+
+  return { wall, basis, allDay };
+}
+
+function readDurationMs(properties: IcsProperty[], start: IcsDateValue): number {
+  const endProperty = first(properties, "DTEND");
+  const end = endProperty ? parseDateValue(endProperty) : null;
+  if (end && !end.allDay) {
+    const basis = end.basis.type === "zone" && !isKnownZone(end.basis.zone) ? start.basis : end.basis;
+    const duration = toInstant(end.wall, basis) - toInstant(start.wall, start.basis);
+    if (duration > 0) return duration;
+  }
+
+  const duration = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+    first(properties, "DURATION")?.value.trim() ?? ""
+  );
+  if (duration) {
+    const [, weeks, days, hours, minutes, seconds] = duration.map((part) => Number(part ?? 0));
+    const ms = ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+    if (ms > 0) return ms;
+  }
+
+  return DEFAULT_DURATION_MINUTES * 60 * 1000;
+}
+
+function parseUntil(value: string, basis: TimeBasis): number | null {
+  const parsed = parseDateValue({ name: "UNTIL", params: {}, value });
+  if (!parsed) return null;
+  // A date-only UNTIL includes that whole day
+  if (parsed.allDay) {
+    return toInstant({ ...parsed.wall, hour: 23, minute: 59, second: 59 }, basis);
+  }
+  return toInstant(parsed.wall, parsed.basis);
+}
+
+/**
+ * Wall times that start one recurrence period
+ * (the matching weekdays of a week for BYDAY rules)
+ */
+function periodStarts(
+  start: WallTime,
+  frequency: string,
+  offset: number,
+  byDay: number[],
+  weekStart: number
+): WallTime[] {
+  if (frequency === "DAILY") return [addDays(start, offset)];
+
+  if (frequency === "WEEKLY") {
+    const sameWeekday = addDays(start, offset * 7);
+    if (byDay.length === 0) return [sameWeekday];
+    const fromWeekStart = (dayOfWeek(sameWeekday) - weekStart + 7) % 7;
+    return byDay.map((day) => addDays(sameWeekday, day - fromWeekStart));
+  }
+
+  // Months or years; days that do not exist (e.g. the 31st) are skipped
+  const months = frequency === "MONTHLY" ? offset : offset * 12;
+  const monthIndex = start.month - 1 + months;
+  const wall = {
+    ...start,
+    year: start.year + Math.floor(monthIndex / 12),
+    month: (monthIndex % 12) + 1,
+  };
+  const valid = new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDate() === wall.day;
+  return valid ? [wall] : [];
+}
+
+function addDays(wall: WallTime, days: number): WallTime {
+  const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+  return {
+    ...wall,
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  };
+}
+
+function dayOfWeek(wall: WallTime): number {
+  return new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+}
+
+function isKnownZone(zone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: zone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Converts a wall time to a UTC instant (ms)
+ */
+function toInstant(wall: WallTime, basis: TimeBasis): number {
+  if (basis.type === "floating") {
+    return new Date(
+      wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second
+    ).getTime();
+  }
+
+  const target = Date.UTC(
+    wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second
+  );
+  if (basis.type === "utc") return target;
+
+  // Two passes settle the zone offset, including across a DST change
+  let guess = target;
+  for (let i = 0; i < 2; i++) {
+    guess += target - zonedWallMs(guess, basis.zone);
+  }
+  return guess;
+}
+
+function zonedWallMs(instant: number, zone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: zone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(new Date(instant))
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
@@ -0,0 +1,82 @@
+/**
+ * Marking Utils Tests
+ *
+ * Tests for overdue ages and coordinator labels in the "Needs marking" inbox,
+ * and keyboard marking helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatOverdue,
+  getAdjacentId,
+  getCoordinatorLabel,
+  getStatusForKey,
+  isDueForEscalation,
+  toggleSelection,
+} from './marking-utils';
+import type { MarkingGroup } from '@/polymet/data/database-service';
+
+describe('formatOverdue', () => {
+  it('should show hours under a day', () => {
+    expect(formatOverdue(0)).toBe('0h');
+    expect(formatOverdue(23)).toBe('23h');
+  });
+
+  it('should show days and hours under a week, days after', () => {
+    expect(formatOverdue(24)).toBe('1d');
+    expect(formatOverdue(30)).toBe('1d 6h');
+    expect(formatOverdue(300)).toBe('12d');
+  });
+});
+
+describe('getCoordinatorLabel', () => {
+  const group = { coordinator_email: 'a@example.com', coordinator_name: 'Ana' } as MarkingGroup;
+
+  it('should prefer the name, then the email', () => {
+    expect(getCoordinatorLabel(group)).toBe('Ana');
+    expect(getCoordinatorLabel({ ...group, coordinator_name: null })).toBe('a@example.com');
+  });
+
+  it('should label events without a coordinator', () => {
+    expect(getCoordinatorLabel({ ...group, coordinator_email: null, coordinator_name: null })).toBe('Unassigned');
+  });
+});
+
+describe('isDueForEscalation', () => {
+  it('should compare with the escalation delay', () => {
+    expect(isDueForEscalation(48, { escalate_after_hours: 48 })).toBe(true);
+    expect(isDueForEscalation(47, { escalate_after_hours: 48 })).toBe(false);
+  });
+});
+
+describe('getStatusForKey', () => {
+  it('should map status letters in either case', () => {
+    expect(getStatusForKey('a')).toBe('attended');
+    expect(getStatusForKey('G')).toBe('ghosted');
+    expect(getStatusForKey('x')).toBeNull();
+  });
+});
+
+describe('getAdjacentId', () => {
+  const ids = ['a', 'b', 'c'];
+
+  it('should step forwards and backwards', () => {
+    expect(getAdjacentId(ids, 'b', 1)).toBe('c');
+    expect(getAdjacentId(ids, 'b', -1)).toBe('a');
+  });
+
+  it('should stop at either end and for unknown ids', () => {
+    expect(getAdjacentId(ids, 'c', 1)).toBeNull();
+    expect(getAdjacentId(ids, 'a', -1)).toBeNull();
+    expect(getAdjacentId(ids, 'z', 1)).toBeNull();
+  });
+});
+
+describe('toggleSelection', () => {
+  it('should add and remove without changing the original', () => {
+    const selected = new Set(['a']);
+    expect([...toggleSelection(selected, 'b')]).toEqual(['a', 'b']);
+    expect([...toggleSelection(selected, 'a')]).toEqual([]);
+    expect([...selected]).toEqual(['a']);
+  });
+});
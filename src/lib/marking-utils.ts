@@ -0,0 +1,83 @@
+import type {
+  InterviewEvent,
+  MarkingGroup,
+  MarkingInbox,
+} from "@/polymet/data/database-service";
+
+/**
+ * Helpers for marking interviews: the "Needs marking" inbox
+ * (/marking/inbox) and keyboard marking on the Mark Interviews calendar
+ */
+
+/**
+ * How long an interview has waited to be marked
+ * Example: 5 → "5h", 30 → "1d 6h", 300 → "12d"
+ */
+export function formatOverdue(hours: number): string {
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  const rest = hours % 24;
+  return days < 7 && rest > 0 ? `${days}d ${rest}h` : `${days}d`;
+}
+
+/**
+ * Heading of a coordinator group
+ * Example: { coordinator_name: null, coordinator_email: "a@x.com" } → "a@x.com"
+ */
+export function getCoordinatorLabel(group: MarkingGroup): string {
+  return group.coordinator_name ?? group.coordinator_email ?? "Unassigned";
+}
+
+/**
+ * Whether an event is waiting long enough to be escalated (but the
+ * escalation job has not picked it up yet)
+ */
+export function isDueForEscalation(
+  overdueHours: number,
+  inbox: Pick<MarkingInbox, "escalate_after_hours">
+): boolean {
+  return overdueHours >= inbox.escalate_after_hours;
+}
+
+// Keys that set a status on the Mark Interviews calendar (the status letters)
+export const STATUS_SHORTCUTS: Record<string, InterviewEvent["status"]> = {
+  a: "attended",
+  p: "pending",
+  g: "ghosted",
+  c: "cancelled",
+};
+
+/**
+ * Status a key press sets, null for other keys
+ * Example: "G" → "ghosted"
+ */
+export function getStatusForKey(key: string): InterviewEvent["status"] | null {
+  return STATUS_SHORTCUTS[key.toLowerCase()] ?? null;
+}
+
+/**
+ * Entry before (step -1) or after (step 1) the current one, null at either end
+ * Example: (["a", "b", "c"], "b", 1) → "c"
+ */
+export function getAdjacentId(
+  ids: string[],
+  currentId: string,
+  step: 1 | -1
+): string | null {
+  const index = ids.indexOf(currentId);
+  if (index === -1) return null;
+  return ids[index + step] ?? null;
+}
+
+/**
+ * Selection with the id added, or removed if it was selected
+ */
+export function toggleSelection(selected: Set<string>, id: string): Set<string> {
+  const next = new Set(selected);
+  if (next.has(id)) {
+    next.delete(id);
+  } else {
+    next.add(id);
+  }
+  return next;
+}
@@ -0,0 +1,70 @@
+/**
+ * Pagination Utils Tests
+ *
+ * Tests for list query strings, page maths, sorting and fetching every page
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { fetchAllPages, getPageInfo, toggleSort, toQueryString } from './pagination-utils';
+import type { ListQuery } from '@/polymet/data/database-service';
+
+describe('toQueryString', () => {
+  it('should skip empty values', () => {
+    expect(toQueryString({ search: 'ann', status: undefined, role: '', limit: 25, is_active: false })).toBe(
+      '?search=ann&limit=25&is_active=false'
+    );
+    expect(toQueryString({})).toBe('');
+  });
+});
+
+describe('getPageInfo', () => {
+  it('should give the page and record range', () => {
+    expect(getPageInfo({ total: 120, limit: 50, offset: 50, hasMore: true })).toEqual({
+      page: 2,
+      pageCount: 3,
+      from: 51,
+      to: 100,
+    });
+  });
+
+  it('should handle an empty list', () => {
+    expect(getPageInfo({ total: 0, limit: 25, offset: 0, hasMore: false })).toEqual({
+      page: 1,
+      pageCount: 1,
+      from: 0,
+      to: 0,
+    });
+  });
+});
+
+describe('toggleSort', () => {
+  it('should flip the order of the same column and reset the page', () => {
+    expect(toggleSort({ sort: 'name', order: 'asc', offset: 50 }, 'name')).toEqual({
+      sort: 'name',
+      order: 'desc',
+      offset: 0,
+    });
+  });
+
+  it('should start a new column with its default order', () => {
+    const query: ListQuery<string> = { sort: 'name', order: 'asc' };
+    expect(toggleSort(query, 'created_at', 'desc')).toEqual({
+      sort: 'created_at',
+      order: 'desc',
+      offset: 0,
+    });
+  });
+});
+
+describe('fetchAllPages', () => {
+  it('should keep fetching until the last page', async () => {
+    const records = Array.from({ length: 230 }, (_, i) => i);
+    const fetchPage = vi.fn(async (offset: number, limit: number) => ({
+      data: records.slice(offset, offset + limit),
+      pagination: { total: 230, limit, offset, hasMore: offset + limit < 230 },
+    }));
+
+    expect(await fetchAllPages(fetchPage)).toEqual(records);
+    expect(fetchPage.mock.calls).toEqual([[0, 100], [100, 100], [200, 100]]);
+  });
+});
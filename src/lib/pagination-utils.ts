@@ -0,0 +1,84 @@
+import type {
+  ListQuery,
+  Page,
+  Pagination,
+  SortOrder,
+} from "@/polymet/data/database-service";
+
+/**
+ * Helpers for the server-paginated list endpoints
+ * (/events, /interviewers, /audit-logs return { data, pagination })
+ */
+
+export const MAX_PAGE_SIZE = 100; // Server-side cap on limit
+export const PAGE_SIZE_OPTIONS = [25, 50, 100];
+export const DEFAULT_PAGE_SIZE = 25;
+
+type QueryValue = string | number | boolean | undefined | null;
+
+/**
+ * Query string for a list request, skipping empty values
+ * Example: { search: "ann", status: undefined, limit: 25 } → "?search=ann&limit=25"
+ */
+export function toQueryString(query: object): string {
+  const params = new URLSearchParams();
+  Object.entries(query as Record<string, QueryValue>).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === "") return;
+    params.set(key, String(value));
+  });
+
+  const text = params.toString();
+  return text ? `?${text}` : "";
+}
+
+/**
+ * Fetches every page of a list, MAX_PAGE_SIZE records at a time
+ * Used where a view genuinely needs the full set (exports, pickers, date
+ * ranges); screens page their rows or bound them by date instead
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (offset: number, limit: number) => Promise<Page<T>>
+): Promise<T[]> {
+  const all: T[] = [];
+  let offset = 0;
+
+  for (;;) {
+    const { data, pagination } = await fetchPage(offset, MAX_PAGE_SIZE);
+    all.push(...data);
+    offset += data.length;
+    if (!pagination.hasMore || data.length === 0) return all;
+  }
+}
+
+/**
+ * Page numbers and the shown record range
+ * Example: { total: 120, limit: 50, offset: 50 } → page 2 of 3, records 51-100
+ */
+export function getPageInfo(pagination: Pagination): {
+  page: number;
+  pageCount: number;
+  from: number;
+  to: number;
+} {
+  const { total, limit, offset } = pagination;
+  return {
+    page: Math.floor(offset / limit) + 1,
+    pageCount: Math.max(Math.ceil(total / limit), 1),
+    from: total === 0 ? 0 : offset + 1,
+    to: Math.min(offset + limit, total),
+  };
+}
+
+/**
+ * Next query after clicking a sortable column header: the same column flips
+ * the order, a new column starts with its default order; back to page one
+ */
+export function toggleSort<Q extends ListQuery<string>>(
+  query: Q,
+  field: NonNullable<Q["sort"]>,
+  defaultOrder: SortOrder = "asc"
+): Q {
+  const order: SortOrder =
+    query.sort === field ? (query.order === "asc" ? "desc" : "asc") : defaultOrder;
+  return { ...query, sort: field, order, offset: 0 };
+}
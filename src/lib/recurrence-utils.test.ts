@@ -0,0 +1,65 @@
+/**
+ * Recurrence Utils Tests
+ *
+ * Tests for building, parsing and describing recurrence rules
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRRule, parseRRule, describeRRule } from './recurrence-utils';
+
+describe('buildRRule', () => {
+  it('should build a weekly rule with a count', () => {
+    expect(
+      buildRRule({ frequency: 'weekly', interval: 1, end: { type: 'count', count: 6 } })
+    ).toBe('FREQ=WEEKLY;COUNT=6');
+  });
+
+  it('should include the interval when above 1', () => {
+    expect(
+      buildRRule({ frequency: 'weekly', interval: 2, end: { type: 'count', count: 4 } })
+    ).toBe('FREQ=WEEKLY;INTERVAL=2;COUNT=4');
+  });
+
+  it('should format an until date in basic form', () => {
+    expect(
+      buildRRule({ frequency: 'daily', interval: 1, end: { type: 'until', until: '2024-06-30' } })
+    ).toBe('FREQ=DAILY;UNTIL=20240630');
+  });
+});
+
+describe('parseRRule', () => {
+  it('should round-trip built rules', () => {
+    const options = {
+      frequency: 'weekly' as const,
+      interval: 3,
+      end: { type: 'until' as const, until: '2024-12-31' },
+    };
+    expect(parseRRule(buildRRule(options))).toEqual(options);
+  });
+
+  it('should read until timestamps written by the server', () => {
+    expect(parseRRule('FREQ=DAILY;UNTIL=20240630T235959Z')?.end).toEqual({
+      type: 'until',
+      until: '2024-06-30',
+    });
+  });
+
+  it('should return null for unsupported frequencies', () => {
+    expect(parseRRule('FREQ=MONTHLY;COUNT=3')).toBeNull();
+  });
+});
+
+describe('describeRRule', () => {
+  it('should describe count rules', () => {
+    expect(describeRRule('FREQ=WEEKLY;COUNT=6')).toBe('Every week, 6 times');
+    expect(describeRRule('FREQ=WEEKLY;INTERVAL=2;COUNT=1')).toBe('Every 2 weeks, once');
+  });
+
+  it('should describe until rules', () => {
+    expect(describeRRule('FREQ=DAILY;UNTIL=20240630')).toBe('Every day until Jun 30, 2024');
+  });
+
+  it('should fall back to the raw rule', () => {
+    expect(describeRRule('FREQ=YEARLY')).toBe('FREQ=YEARLY');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Recurrence options offered when scheduling a recurring slot
+ * Maps to the RRULE subset the server accepts:
+ * FREQ=DAILY|WEEKLY, INTERVAL=n and COUNT=n or UNTIL=date
+ */
+export interface RecurrenceOptions {
+  frequency: "daily" | "weekly";
+  interval: number; // Every N days / weeks
+  end: { type: "count"; count: number } | { type: "until"; until: string }; // until: YYYY-MM-DD
+}
+
+/**
+ * Builds an RRULE string
+ * Example: weekly, every 2, 6 times → "FREQ=WEEKLY;INTERVAL=2;COUNT=6"
+ */
+export function buildRRule(options: RecurrenceOptions): string {
+  const parts = [`FREQ=${options.frequency.toUpperCase()}`];
+
+  if (options.interval > 1) {
+    parts.push(`INTERVAL=${options.interval}`);
+  }
+  if (options.end.type === "count") {
+    parts.push(`COUNT=${options.end.count}`);
+  } else {
+    parts.push(`UNTIL=${options.end.until.replace(/-/g, "")}`);
+  }
+
+  return parts.join(";");
+}
+
+/**
+ * Parses an RRULE string built by buildRRule (or the server)
+ * Returns null for rules outside the supported subset
+ */
+export function parseRRule(rrule: string): RecurrenceOptions | null {
+  const fields = Object.fromEntries(
+    rrule
+      .replace(/^RRULE:/i, "")
+      .split(";")
+      .map((part) => part.split("=") as [string, string])
+  );
+
+  const frequency = fields.FREQ?.toLowerCase();
+  if (frequency !== "daily" && frequency !== "weekly") return null;
+
+  const interval = fields.INTERVAL ? Number(fields.INTERVAL) : 1;
+  if (fields.COUNT) {
+    return { frequency, interval, end: { type: "count", count: Number(fields.COUNT) } };
+  }
+
+  const until = /^(\d{4})(\d{2})(\d{2})/.exec(fields.UNTIL ?? "");
+  if (!until) return null;
+  return {
+    frequency,
+    interval,
+    end: { type: "until", until: `${until[1]}-${until[2]}-${until[3]}` },
+  };
+}
+
+/**
+ * Describes a rule in plain words
+ * Example: "FREQ=WEEKLY;INTERVAL=2;COUNT=6" → "Every 2 weeks, 6 times"
+ */
+export function describeRRule(rrule: string): string {
+  const options = parseRRule(rrule);
+  if (!options) return rrule;
+
+  const unit = options.frequency === "daily" ? "day" : "week";
+  const every =
+    options.interval === 1 ? `Every ${unit}` : `Every ${options.interval} ${unit}s`;
+
+  if (options.end.type === "count") {
+    return options.end.count === 1
+      ? `${every}, once`
+      : `${every}, ${options.end.count} times`;
+  }
+
+  const until = new Date(`${options.end.until}T00:00:00`).toLocaleDateString(
+    "en-US",
+    { month: "short", day: "numeric", year: "numeric" }
+  );
+  return `${every} until ${until}`;
+}
@@ -0,0 +1,69 @@
+/**
+ * Reliability Utils Tests
+ *
+ * Tests for reliability score bands, attention reasons and trend scaling
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeAttention,
+  formatTrendDirection,
+  getReliabilityLevel,
+  getTrendScale,
+  toReliabilityMap,
+} from './reliability-utils';
+import type { InterviewerReliability } from '@/polymet/data/database-service';
+
+const reliability = {
+  email: 'jane@example.com',
+  ghost_rate: 0.3333,
+  cancellation_rate: 0.25,
+  attention_reasons: ['ghost_rate', 'cancellation_rate'],
+} as InterviewerReliability;
+
+const thresholds = { ghost_rate: 0.1, cancellation_rate: 0.2, min_interviews: 3 };
+
+describe('getReliabilityLevel', () => {
+  it('should band scores', () => {
+    expect(getReliabilityLevel(100)).toBe('good');
+    expect(getReliabilityLevel(90)).toBe('good');
+    expect(getReliabilityLevel(89)).toBe('fair');
+    expect(getReliabilityLevel(70)).toBe('fair');
+    expect(getReliabilityLevel(0)).toBe('poor');
+    expect(getReliabilityLevel(null)).toBeNull();
+  });
+});
+
+describe('describeAttention', () => {
+  it('should explain each threshold reached', () => {
+    expect(describeAttention(reliability, thresholds)).toEqual([
+      'Ghost rate 33.3% (threshold 10.0%)',
+      'Cancellation rate 25.0% (threshold 20.0%)',
+    ]);
+  });
+
+  it('should be empty when nothing was flagged', () => {
+    expect(describeAttention({ ...reliability, attention_reasons: [] }, thresholds)).toEqual([]);
+  });
+});
+
+describe('toReliabilityMap', () => {
+  it('should key rows by email', () => {
+    expect(toReliabilityMap([reliability])['jane@example.com']).toBe(reliability);
+  });
+});
+
+describe('getTrendScale', () => {
+  it('should give the busiest week, at least 1', () => {
+    const week = { week_start: '2024-03-11', attended: 2, ghosted: 1, cancelled: 1, ghost_rate: 0.3333 };
+    expect(getTrendScale([week, { ...week, attended: 0 }])).toBe(4);
+    expect(getTrendScale([])).toBe(1);
+  });
+});
+
+describe('formatTrendDirection', () => {
+  it('should label directions', () => {
+    expect(formatTrendDirection('improving')).toBe('Improving');
+    expect(formatTrendDirection(null)).toBe('Not enough data');
+  });
+});
@@ -0,0 +1,83 @@
+import type {
+  InterviewerReliability,
+  ReliabilityReport,
+  ReliabilityThresholds,
+  ReliabilityWeek,
+} from "@/polymet/data/database-service";
+import { formatRate } from "@/lib/analytics-utils";
+
+/**
+ * Presentation helpers for interviewer reliability (/analytics/reliability)
+ * Scores are 0-100; the server decides who needs attention
+ */
+
+export type ReliabilityLevel = "good" | "fair" | "poor";
+
+export const RELIABILITY_LEVEL_CLASSES: Record<ReliabilityLevel, string> = {
+  good: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 border-green-200 dark:border-green-800",
+  fair: "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200 border-amber-200 dark:border-amber-800",
+  poor: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 border-red-200 dark:border-red-800",
+};
+
+/**
+ * Band of a score, null without a score
+ * Example: 92 → "good", 75 → "fair", 40 → "poor"
+ */
+export function getReliabilityLevel(score: number | null): ReliabilityLevel | null {
+  if (score === null) return null;
+  if (score >= 90) return "good";
+  if (score >= 70) return "fair";
+  return "poor";
+}
+
+/**
+ * Why an interviewer needs attention, one line per threshold reached
+ * Example: ["Ghost rate 33.3% (threshold 10.0%)"]
+ */
+export function describeAttention(
+  reliability: InterviewerReliability,
+  thresholds: ReliabilityThresholds
+): string[] {
+  return reliability.attention_reasons.map((reason) =>
+    reason === "ghost_rate"
+      ? `Ghost rate ${formatRate(reliability.ghost_rate)} (threshold ${formatRate(thresholds.ghost_rate)})`
+      : `Cancellation rate ${formatRate(reliability.cancellation_rate)} (threshold ${formatRate(thresholds.cancellation_rate)})`
+  );
+}
+
+/**
+ * Reliability rows keyed by interviewer email
+ */
+export function toReliabilityMap(
+  rows: InterviewerReliability[]
+): Record<string, InterviewerReliability> {
+  return Object.fromEntries(rows.map((row) => [row.email, row]));
+}
+
+/**
+ * Busiest week of a trend (at least 1), the height of a full bar
+ */
+export function getTrendScale(weeks: ReliabilityWeek[]): number {
+  return Math.max(
+    1,
+    ...weeks.map((week) => week.attended + week.ghosted + week.cancelled)
+  );
+}
+
+/**
+ * Label for the ghost rate direction against the previous window
+ */
+export function formatTrendDirection(
+  direction: ReliabilityReport["direction"]
+): string {
+  switch (direction) {
+    case "improving":
+      return "Improving";
+    case "worsening":
+      return "Worsening";
+    case "stable":
+      return "Stable";
+    default:
+      return "Not enough data";
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Row Utils Tests
+ *
+ * Tests for converting API records to table and calendar rows
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mapPage, toEventRow, toInterviewerRow } from './row-utils';
+import type { InterviewEvent, Interviewer } from '@/polymet/data/database-service';
+
+const apiEvent: InterviewEvent = {
+  id: 'evt-1',
+  interviewer_email: 'ann@example.com',
+  start_time: '2026-03-02T15:00:00.000Z',
+  end_time: '2026-03-02T16:00:00.000Z',
+  status: 'pending',
+  notes: null,
+  position: 'Backend Engineer',
+  created_at: '2026-03-01T10:00:00.000Z',
+  updated_at: '2026-03-01T10:00:00.000Z',
+};
+
+const apiInterviewer: Interviewer = {
+  id: 'int-1',
+  name: 'Ann Lee',
+  email: 'ann@example.com',
+  role: 'talent',
+  skills: ['React'],
+  is_active: true,
+  calendar_sync_enabled: false,
+  created_at: '2026-01-01T10:00:00.000Z',
+  updated_at: '2026-02-01T10:00:00.000Z',
+};
+
+describe('toEventRow', () => {
+  it('should fill unset fields with null and keep the rest', () => {
+    expect(toEventRow(apiEvent)).toMatchObject({
+      id: 'evt-1',
+      calendar_event_id: null,
+      skills_assessed: null,
+      marked_by: null,
+      marked_at: null,
+      position: 'Backend Engineer',
+    });
+  });
+
+  it('should keep set fields', () => {
+    const row = toEventRow({ ...apiEvent, calendar_event_id: 'cal-1', skills_assessed: ['Go'] });
+    expect(row.calendar_event_id).toBe('cal-1');
+    expect(row.skills_assessed).toEqual(['Go']);
+  });
+});
+
+describe('toInterviewerRow', () => {
+  it('should default the time zone and modification stamp', () => {
+    expect(toInterviewerRow(apiInterviewer)).toMatchObject({
+      role: 'talent',
+      timezone: 'UTC',
+      calendar_sync_consent_at: null,
+      last_synced_at: null,
+      created_by: '',
+      modified_at: '2026-02-01T10:00:00.000Z',
+      modified_by: '',
+    });
+  });
+
+  it('should keep a set time zone', () => {
+    expect(toInterviewerRow({ ...apiInterviewer, timezone: 'Europe/Berlin' }).timezone).toBe(
+      'Europe/Berlin'
+    );
+  });
+});
+
+describe('mapPage', () => {
+  it('should convert the records and keep the pagination', () => {
+    const pagination = { total: 1, limit: 25, offset: 0, hasMore: false };
+    const page = mapPage({ data: [apiEvent], pagination }, toEventRow);
+    expect(page.pagination).toEqual(pagination);
+    expect(page.data[0].marked_at).toBeNull();
+  });
+});
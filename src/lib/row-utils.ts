@@ -0,0 +1,50 @@
+import type {
+  InterviewEvent as ApiInterviewEvent,
+  Interviewer as ApiInterviewer,
+  Page,
+} from "@/polymet/data/database-service";
+import type { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
+import type { Interviewer } from "@/polymet/data/mock-interviewers-data";
+
+/**
+ * Converts API records to the row shapes the tables and calendars render
+ * (the mock-data types, whose optional API fields are required there)
+ */
+
+/**
+ * Event row, with unset Outlook link, skills and marking fields as null
+ */
+export function toEventRow(event: ApiInterviewEvent): InterviewEvent {
+  return {
+    ...event,
+    calendar_event_id: event.calendar_event_id ?? null,
+    skills_assessed: event.skills_assessed ?? null,
+    marked_by: event.marked_by ?? null,
+    marked_at: event.marked_at ?? null,
+  };
+}
+
+/**
+ * Interviewer row; a missing time zone falls back to UTC and a missing
+ * modification stamp to the last update
+ */
+export function toInterviewerRow(interviewer: ApiInterviewer): Interviewer {
+  return {
+    ...interviewer,
+    role: interviewer.role as Interviewer["role"],
+    timezone: interviewer.timezone ?? "UTC",
+    calendar_sync_consent_at: interviewer.calendar_sync_consent_at ?? null,
+    last_synced_at: interviewer.last_synced_at ?? null,
+    created_by: interviewer.created_by ?? "",
+    modified_at: interviewer.modified_at ?? interviewer.updated_at,
+    modified_by: interviewer.modified_by ?? "",
+  };
+}
+
+/**
+ * Same page with its records converted
+ * Example: db.getInterviewersPage(query).then((page) => mapPage(page, toInterviewerRow))
+ */
+export function mapPage<T, R>(page: Page<T>, toRow: (record: T) => R): Page<R> {
+  return { ...page, data: page.data.map(toRow) };
+}
@@ -0,0 +1,90 @@
+/**
+ * Time Utils Tests
+ *
+ * Tests for interval overlap detection, HH:MM time arithmetic and moving events
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addMinutesToTime,
+  eventsOverlap,
+  getOverlappingEventIds,
+  moveEventToDate,
+} from './time-utils';
+import type { InterviewEvent } from '@/polymet/data/mock-interview-events-data';
+
+const makeEvent = (
+  id: string,
+  start: string,
+  end: string,
+  status: InterviewEvent['status'] = 'pending'
+): InterviewEvent => ({
+  id,
+  interviewer_email: 'sarah.chen@company.com',
+  calendar_event_id: null,
+  start_time: `2024-03-18T${start}:00.000Z`,
+  end_time: `2024-03-18T${end}:00.000Z`,
+  skills_assessed: null,
+  status,
+  notes: null,
+  marked_by: null,
+  marked_at: null,
+  created_at: '2024-03-01T00:00:00.000Z',
+});
+
+describe('eventsOverlap', () => {
+  it('should detect partially overlapping intervals', () => {
+    expect(eventsOverlap(makeEvent('a', '10:00', '11:00'), makeEvent('b', '10:30', '11:30'))).toBe(true);
+  });
+
+  it('should detect an interval contained in another', () => {
+    expect(eventsOverlap(makeEvent('a', '10:00', '12:00'), makeEvent('b', '10:30', '11:00'))).toBe(true);
+  });
+
+  it('should not treat back-to-back events as overlapping', () => {
+    expect(eventsOverlap(makeEvent('a', '10:00', '11:00'), makeEvent('b', '11:00', '12:00'))).toBe(false);
+  });
+});
+
+describe('getOverlappingEventIds', () => {
+  it('should return every event involved in an overlap', () => {
+    const ids = getOverlappingEventIds([
+      makeEvent('a', '10:00', '11:00'),
+      makeEvent('b', '10:30', '11:30'),
+      makeEvent('c', '14:00', '15:00'),
+    ]);
+    expect([...ids].sort()).toEqual(['a', 'b']);
+  });
+
+  it('should ignore cancelled events', () => {
+    const ids = getOverlappingEventIds([
+      makeEvent('a', '10:00', '11:00'),
+      makeEvent('b', '10:30', '11:30', 'cancelled'),
+    ]);
+    expect(ids.size).toBe(0);
+  });
+});
+
+describe('addMinutesToTime', () => {
+  it('should carry minutes into the next hour', () => {
+    expect(addMinutesToTime('10:30', 45)).toBe('11:15');
+  });
+
+  it('should not run past the end of the day', () => {
+    expect(addMinutesToTime('23:30', 60)).toBe('23:59');
+  });
+});
+
+describe('moveEventToDate', () => {
+  it('should keep the time of day and duration', () => {
+    const event = {
+      start_time: new Date(2024, 2, 18, 14, 30).toISOString(),
+      end_time: new Date(2024, 2, 18, 15, 15).toISOString(),
+    };
+
+    expect(moveEventToDate(event, new Date(2024, 2, 20))).toEqual({
+      start_time: new Date(2024, 2, 20, 14, 30).toISOString(),
+      end_time: new Date(2024, 2, 20, 15, 15).toISOString(),
+    });
+  });
+});
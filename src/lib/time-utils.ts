@@ -1,10 +1,14 @@
 import { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
+import { getZonedParts, zonedTimeToUtc } from "@/lib/time-zone-utils";
 
 /**
  * Extracts HH:MM time from ISO datetime string
+ * Uses the browser's zone unless a time zone is given
  * Example: "2024-03-18T14:30:00Z" → "14:30"
  */
-export function extractTimeFromISO(isoString: string): string {
+export function extractTimeFromISO(isoString: string, timeZone?: string): string {
+  if (timeZone) return getZonedParts(isoString, timeZone).time;
+
   const date = new Date(isoString);
   const hours = date.getHours().toString().padStart(2, '0');
   const minutes = date.getMinutes().toString().padStart(2, '0');
@@ -13,9 +17,16 @@ export function extractTimeFromISO(isoString: string): string {
 
 /**
  * Creates ISO datetime from date and HH:MM time
+ * The time is read in the browser's zone unless a time zone is given
+ * (the calendar day of `date` is taken as-is)
  * Example: Date(2024-03-18), "14:30" → "2024-03-18T14:30:00.000Z"
  */
-export function createISOFromTime(date: Date, time: string): string {
+export function createISOFromTime(date: Date, time: string, timeZone?: string): string {
+  if (timeZone) {
+    const day = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    return zonedTimeToUtc(day, time, timeZone);
+  }
+
   const [hours, minutes] = time.split(':').map(Number);
   const newDate = new Date(date);
   newDate.setHours(hours, minutes, 0, 0);
@@ -90,6 +101,40 @@ export function isDuplicateTime(
   });
 }
 
+/**
+ * Checks whether two events' time ranges overlap
+ * Back-to-back events (10:00-11:00 and 11:00-12:00) do not overlap
+ */
+export function eventsOverlap(
+  a: Pick<InterviewEvent, 'start_time' | 'end_time'>,
+  b: Pick<InterviewEvent, 'start_time' | 'end_time'>
+): boolean {
+  return (
+    new Date(a.start_time).getTime() < new Date(b.end_time).getTime() &&
+    new Date(b.start_time).getTime() < new Date(a.end_time).getTime()
+  );
+}
+
+/**
+ * Gets IDs of events that overlap another event in the list
+ * Cancelled events are ignored
+ */
+export function getOverlappingEventIds(events: InterviewEvent[]): Set<string> {
+  const active = events.filter(event => event.status !== 'cancelled');
+  const overlapping = new Set<string>();
+
+  active.forEach((event, i) => {
+    active.slice(i + 1).forEach(other => {
+      if (eventsOverlap(event, other)) {
+        overlapping.add(event.id);
+        overlapping.add(other.id);
+      }
+    });
+  });
+
+  return overlapping;
+}
+
 /**
  * Gets status display properties for UI
  * Returns label, color class, and whether status is active
@@ -129,9 +174,51 @@ export function getStatusDisplay(status: InterviewEvent['status']) {
  * Creates end time by adding duration to start time
  * Default duration is 60 minutes (1 hour)
  */
-export function createEndTime(date: Date, startTime: string, durationMinutes: number = 60): string {
-  const startISO = createISOFromTime(date, startTime);
+export function createEndTime(
+  date: Date,
+  startTime: string,
+  durationMinutes: number = 60,
+  timeZone?: string
+): string {
+  const startISO = createISOFromTime(date, startTime, timeZone);
   const endDate = new Date(startISO);
   endDate.setMinutes(endDate.getMinutes() + durationMinutes);
   return endDate.toISOString();
 }
+
+/**
+ * Gets event duration in minutes from its start and end times
+ * Example: 10:00 → 11:30 = 90
+ */
+export function getEventDurationMinutes(event: Pick<InterviewEvent, 'start_time' | 'end_time'>): number {
+  const start = new Date(event.start_time).getTime();
+  const end = new Date(event.end_time).getTime();
+  return Math.round((end - start) / 60000);
+}
+
+/**
+ * Adds minutes to an HH:MM time, capped at 23:59 so it stays on the same day
+ * Example: 10:30 + 45 = 11:15
+ */
+export function addMinutesToTime(time: string, minutes: number): string {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = Math.min(hours * 60 + mins + minutes, 23 * 60 + 59);
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Moves an event to another day, keeping its time of day (in the given
+ * zone, or the browser's) and its duration
+ * Example: 2024-03-18 14:30–15:15 moved to 2024-03-20 → 2024-03-20 14:30–15:15
+ */
+export function moveEventToDate(
+  event: Pick<InterviewEvent, 'start_time' | 'end_time'>,
+  date: Date,
+  timeZone?: string
+): { start_time: string; end_time: string } {
+  const time = extractTimeFromISO(event.start_time, timeZone);
+  return {
+    start_time: createISOFromTime(date, time, timeZone),
+    end_time: createEndTime(date, time, getEventDurationMinutes(event), timeZone),
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * Time Zone Utils Tests
+ *
+ * Tests for zone conversion across DST changes and zone-aware formatting
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatTimeInZones,
+  formatTimeZoneName,
+  getSecondaryTimeZone,
+  getViewerTimeZone,
+  getZonedDay,
+  getZonedParts,
+  isValidTimeZone,
+  resolveTimeZone,
+  zonedTimeToUtc,
+} from './time-zone-utils';
+import { createISOFromTime, extractTimeFromISO, moveEventToDate } from './time-utils';
+
+describe('zonedTimeToUtc', () => {
+  it('should convert wall time using the offset in force that day', () => {
+    expect(zonedTimeToUtc('2025-01-15', '10:00', 'America/New_York')).toBe('2025-01-15T15:00:00.000Z');
+    expect(zonedTimeToUtc('2025-07-15', '10:00', 'America/New_York')).toBe('2025-07-15T14:00:00.000Z');
+    expect(zonedTimeToUtc('2025-07-15', '10:00', 'Asia/Tokyo')).toBe('2025-07-15T01:00:00.000Z');
+  });
+
+  it('should move times skipped by spring-forward later by the gap', () => {
+    expect(zonedTimeToUtc('2025-03-09', '02:30', 'America/New_York')).toBe('2025-03-09T07:30:00.000Z');
+    expect(getZonedParts('2025-03-09T07:30:00.000Z', 'America/New_York').time).toBe('03:30');
+  });
+
+  it('should resolve times repeated by fall-back to the first occurrence', () => {
+    expect(zonedTimeToUtc('2025-11-02', '01:30', 'America/New_York')).toBe('2025-11-02T05:30:00.000Z');
+  });
+
+  it('should round-trip through getZonedParts', () => {
+    const iso = zonedTimeToUtc('2025-03-30', '09:15', 'Europe/London');
+    expect(getZonedParts(iso, 'Europe/London')).toEqual({ date: '2025-03-30', time: '09:15' });
+  });
+});
+
+describe('getZonedDay', () => {
+  it('should return the calendar day in the zone as a local date', () => {
+    expect(getZonedDay('2025-03-10T02:00:00Z', 'America/Los_Angeles')).toEqual(new Date(2025, 2, 9));
+    expect(getZonedDay('2025-03-10T02:00:00Z', 'Asia/Tokyo')).toEqual(new Date(2025, 2, 10));
+  });
+});
+
+describe('resolveTimeZone', () => {
+  it('should use the interviewer zone only when it is valid', () => {
+    expect(resolveTimeZone('interviewer', 'Asia/Tokyo')).toBe('Asia/Tokyo');
+    expect(resolveTimeZone('interviewer', 'Not/AZone')).toBe(getViewerTimeZone());
+    expect(resolveTimeZone('viewer', 'Asia/Tokyo')).toBe(getViewerTimeZone());
+  });
+
+  it('should fall back to UTC for the org zone when none is configured', () => {
+    expect(isValidTimeZone(resolveTimeZone('org'))).toBe(true);
+  });
+});
+
+describe('getSecondaryTimeZone', () => {
+  it('should prefer the interviewer zone, else the viewer zone', () => {
+    expect(getSecondaryTimeZone('UTC', 'Asia/Tokyo')).toBe('Asia/Tokyo');
+    expect(getSecondaryTimeZone('Asia/Tokyo', 'Asia/Tokyo')).toBe(getViewerTimeZone());
+  });
+});
+
+describe('formatTimeInZones', () => {
+  it('should show both zones with DST-aware names', () => {
+    expect(formatTimeZoneName('2025-07-01T12:00:00Z', 'America/Los_Angeles')).toBe('PDT');
+    expect(
+      formatTimeInZones('2025-03-10T17:30:00Z', 'America/Los_Angeles', 'America/New_York')
+    ).toBe('10:30 PDT (13:30 EDT)');
+  });
+
+  it('should show one zone when both give the same time', () => {
+    expect(formatTimeInZones('2025-01-10T17:30:00Z', 'America/New_York', 'America/New_York')).toBe(
+      '12:30 EST'
+    );
+  });
+});
+
+describe('zone-aware time-utils', () => {
+  it('should enter and read times in the given zone', () => {
+    const iso = createISOFromTime(new Date(2025, 2, 10), '10:00', 'America/Los_Angeles');
+
+    expect(iso).toBe('2025-03-10T17:00:00.000Z');
+    expect(extractTimeFromISO(iso, 'America/Los_Angeles')).toBe('10:00');
+  });
+
+  it('should keep the wall time when a move crosses a DST change', () => {
+    const event = { start_time: '2025-03-07T15:00:00.000Z', end_time: '2025-03-07T16:00:00.000Z' };
+
+    expect(moveEventToDate(event, new Date(2025, 2, 10), 'America/New_York')).toEqual({
+      start_time: '2025-03-10T14:00:00.000Z',
+      end_time: '2025-03-10T15:00:00.000Z',
+    });
+  });
+});
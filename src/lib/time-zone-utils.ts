@@ -0,0 +1,183 @@
+/**
+ * Time zone helpers for rendering and entering interview times
+ * Uses Intl.DateTimeFormat, so no timezone database is bundled.
+ * Unknown or missing zones fall back to the viewer's zone.
+ */
+
+/**
+ * Which zone a calendar row is shown in:
+ * the viewer's browser, the row's interviewer, or the organisation's zone
+ */
+export type TimeZoneMode = "viewer" | "interviewer" | "org";
+
+export const TIME_ZONE_MODE_LABELS: Record<TimeZoneMode, string> = {
+  viewer: "My time zone",
+  interviewer: "Interviewer's time zone",
+  org: "Organization time zone",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The viewer's own zone (from the browser)
+ */
+export function getViewerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/**
+ * Organisation zone from VITE_ORG_TIMEZONE (defaults to UTC)
+ */
+export function getOrgTimeZone(): string {
+  const zone = import.meta.env.VITE_ORG_TIMEZONE;
+  return isValidTimeZone(zone) ? zone : "UTC";
+}
+
+/**
+ * Checks whether a zone identifier is supported by the browser
+ * Example: "America/Los_Angeles" → true, "Mars/Olympus" → false
+ */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Resolves the zone a row is displayed in
+ * Interviewers without a valid zone are shown in the viewer's zone
+ */
+export function resolveTimeZone(
+  mode: TimeZoneMode,
+  interviewerTimeZone?: string | null
+): string {
+  if (mode === "org") return getOrgTimeZone();
+  if (mode === "interviewer" && isValidTimeZone(interviewerTimeZone)) {
+    return interviewerTimeZone;
+  }
+  return getViewerTimeZone();
+}
+
+/**
+ * The zone to show alongside the display zone in tooltips:
+ * the interviewer's, or the viewer's when rows are already in interviewer time
+ */
+export function getSecondaryTimeZone(
+  displayTimeZone: string,
+  interviewerTimeZone?: string | null
+): string {
+  if (isValidTimeZone(interviewerTimeZone) && interviewerTimeZone !== displayTimeZone) {
+    return interviewerTimeZone;
+  }
+  return getViewerTimeZone();
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  const zone = isValidTimeZone(timeZone) ? timeZone : getViewerTimeZone();
+
+  if (!formatterCache.has(zone)) {
+    formatterCache.set(
+      zone,
+      new Intl.DateTimeFormat("en-US", {
+        timeZone: zone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+      })
+    );
+  }
+
+  return formatterCache.get(zone)!;
+}
+
+/**
+ * Wall-clock date and time of an instant in a zone
+ * Example: "2025-03-10T17:30:00Z", "America/New_York" → { date: "2025-03-10", time: "13:30" }
+ */
+export function getZonedParts(
+  instant: string | Date,
+  timeZone: string
+): { date: string; time: string } {
+  const parts = getFormatter(timeZone).formatToParts(new Date(instant));
+  const get = (type: string) => parts.find((part) => part.type === type)?.value;
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    time: `${get("hour")}:${get("minute")}`,
+  };
+}
+
+function zonedWallMs(instant: number, timeZone: string): number {
+  const { date, time } = getZonedParts(new Date(instant), timeZone);
+  return Date.parse(`${date}T${time}:00Z`);
+}
+
+/**
+ * Converts a wall-clock date and time in a zone to a UTC ISO string
+ * A time repeated when clocks go back resolves to the first occurrence;
+ * a time skipped when clocks go forward is moved later by the gap
+ * (02:30 on a spring-forward night becomes 03:30)
+ * Example: "2025-03-10", "10:00", "America/New_York" → "2025-03-10T14:00:00.000Z"
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): string {
+  const target = Date.parse(`${date}T${time}:00Z`);
+  const offsetBefore = zonedWallMs(target - DAY_MS, timeZone) - (target - DAY_MS);
+  const offsetAfter = zonedWallMs(target + DAY_MS, timeZone) - (target + DAY_MS);
+
+  const matches = [target - offsetBefore, target - offsetAfter].filter(
+    (instant) => zonedWallMs(instant, timeZone) === target
+  );
+  const instant = matches.length > 0 ? Math.min(...matches) : target - offsetBefore;
+
+  return new Date(instant).toISOString();
+}
+
+/**
+ * Short zone name at an instant (DST aware)
+ * Example: "2025-07-01T12:00:00Z", "America/Los_Angeles" → "PDT"
+ */
+export function formatTimeZoneName(instant: string | Date, timeZone: string): string {
+  const zone = isValidTimeZone(timeZone) ? timeZone : getViewerTimeZone();
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: zone,
+    timeZoneName: "short",
+  }).formatToParts(new Date(instant));
+
+  return parts.find((part) => part.type === "timeZoneName")?.value ?? zone;
+}
+
+/**
+ * Time of an instant in one zone, with the other zone when it differs
+ * Example: "2025-03-10T17:30:00Z", "America/Los_Angeles", "America/New_York"
+ *   → "10:30 PDT (13:30 EDT)"
+ */
+export function formatTimeInZones(
+  instant: string | Date,
+  timeZone: string,
+  otherTimeZone?: string | null
+): string {
+  const primary = `${getZonedParts(instant, timeZone).time} ${formatTimeZoneName(instant, timeZone)}`;
+  if (!otherTimeZone || !isValidTimeZone(otherTimeZone)) return primary;
+
+  const other = `${getZonedParts(instant, otherTimeZone).time} ${formatTimeZoneName(instant, otherTimeZone)}`;
+  return other === primary ? primary : `${primary} (${other})`;
+}
+
+/**
+ * Calendar day of an instant in a zone, as a local-midnight Date
+ * (the form the calendars use for their day columns)
+ * Example: "2025-03-10T02:00:00Z", "America/Los_Angeles" → Date(2025-03-09 00:00 local)
+ */
+export function getZonedDay(instant: string | Date, timeZone: string): Date {
+  const [year, month, day] = getZonedParts(instant, timeZone).date.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
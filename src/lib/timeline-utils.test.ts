@@ -0,0 +1,135 @@
+/**
+ * Timeline Utils Tests
+ *
+ * Tests for timeline positions, stacking lanes, overlaps and idle gaps
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatDurationLabel,
+  getTimelineDays,
+  getTimelineOffset,
+  getTimelineWindow,
+  layoutTimelineRow,
+  shiftTimelineAnchor,
+  type TimelineWindow,
+} from './timeline-utils';
+import { toDateKey } from './availability-utils';
+import type { InterviewEvent } from '@/polymet/data/mock-interview-events-data';
+
+const makeEvent = (
+  id: string,
+  start: string,
+  end: string,
+  status: InterviewEvent['status'] = 'pending'
+): InterviewEvent => ({
+  id,
+  interviewer_email: 'sarah.chen@company.com',
+  calendar_event_id: null,
+  start_time: `2024-03-18T${start}:00.000Z`,
+  end_time: `2024-03-18T${end}:00.000Z`,
+  skills_assessed: null,
+  status,
+  notes: null,
+  marked_by: null,
+  marked_at: null,
+  created_at: '2024-03-01T00:00:00.000Z',
+});
+
+const mondayFirst = { firstDayOfWeek: 1, workDays: [1, 2, 3, 4, 5] };
+const oneDay: TimelineWindow = { dayKeys: ['2024-03-18'], startHour: 8, endHour: 18 };
+
+describe('getTimelineDays', () => {
+  it('should zoom from one day to one week, skipping hidden weekends', () => {
+    const friday = new Date(2024, 2, 22);
+    expect(getTimelineDays(friday, 'day', mondayFirst, false).map(toDateKey)).toEqual(['2024-03-22']);
+    expect(getTimelineDays(friday, '3-day', mondayFirst, false).map(toDateKey)).toEqual([
+      '2024-03-22', '2024-03-25', '2024-03-26',
+    ]);
+    expect(getTimelineDays(friday, 'week', mondayFirst, true)).toHaveLength(7);
+  });
+
+  it('should step by the zoom length', () => {
+    const friday = new Date(2024, 2, 22);
+    expect(toDateKey(shiftTimelineAnchor(friday, '3-day', 1, mondayFirst, false))).toBe('2024-03-27');
+    expect(toDateKey(shiftTimelineAnchor(friday, 'week', -1, mondayFirst, false))).toBe('2024-03-15');
+  });
+});
+
+describe('getTimelineOffset', () => {
+  it('should place times proportionally within the shown hours', () => {
+    expect(getTimelineOffset('2024-03-18T13:00:00Z', oneDay, 'UTC')).toBe(0.5);
+    expect(getTimelineOffset('2024-03-18T06:00:00Z', oneDay, 'UTC')).toBe(0);
+    expect(getTimelineOffset('2024-03-18T20:00:00Z', oneDay, 'UTC')).toBe(1);
+  });
+
+  it('should give each day an equal share and use the row zone', () => {
+    const twoDays = { ...oneDay, dayKeys: ['2024-03-18', '2024-03-19'] };
+    expect(getTimelineOffset('2024-03-19T08:00:00Z', twoDays, 'UTC')).toBe(0.5);
+    expect(getTimelineOffset('2024-03-18T20:00:00Z', oneDay, 'America/New_York')).toBe(0.8);
+  });
+
+  it('should widen the hours to fit the shown events', () => {
+    const events = [makeEvent('a', '07:30', '08:30'), makeEvent('b', '18:00', '19:15')];
+    expect(getTimelineWindow([new Date(2024, 2, 18)], events, () => 'UTC')).toEqual({
+      dayKeys: ['2024-03-18'],
+      startHour: 7,
+      endHour: 20,
+    });
+  });
+});
+
+describe('layoutTimelineRow', () => {
+  it('should size blocks by duration and stack overlaps in lanes', () => {
+    const { blocks, laneCount } = layoutTimelineRow(
+      [
+        makeEvent('a', '09:00', '10:00'),
+        makeEvent('b', '09:30', '12:30'),
+        makeEvent('c', '10:00', '10:30'),
+      ],
+      oneDay,
+      'UTC'
+    );
+
+    expect(laneCount).toBe(2);
+    expect(blocks.map((b) => [b.event.id, b.lane, b.overlapping])).toEqual([
+      ['a', 0, true],
+      ['b', 1, true],
+      ['c', 0, true],
+    ]);
+    expect(blocks[1].width).toBeCloseTo(0.3);
+  });
+
+  it('should not flag cancelled events as overlapping', () => {
+    const { blocks } = layoutTimelineRow(
+      [makeEvent('a', '09:00', '10:00'), makeEvent('b', '09:00', '10:00', 'cancelled')],
+      oneDay,
+      'UTC'
+    );
+    expect(blocks.some((b) => b.overlapping)).toBe(false);
+  });
+
+  it('should report idle gaps between interviews', () => {
+    const { gaps } = layoutTimelineRow(
+      [
+        makeEvent('a', '09:00', '10:00'),
+        makeEvent('b', '10:15', '11:00'),
+        makeEvent('c', '13:00', '14:00'),
+      ],
+      oneDay,
+      'UTC'
+    );
+    expect(gaps).toHaveLength(1);
+    expect(gaps[0].minutes).toBe(120);
+    expect(gaps[0].left).toBeCloseTo(0.3);
+    expect(gaps[0].width).toBeCloseTo(0.2);
+  });
+});
+
+describe('formatDurationLabel', () => {
+  it('should format minutes as hours and minutes', () => {
+    expect(formatDurationLabel(30)).toBe('30m');
+    expect(formatDurationLabel(90)).toBe('1h 30m');
+    expect(formatDurationLabel(180)).toBe('3h');
+  });
+});
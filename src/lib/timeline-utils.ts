@@ -0,0 +1,220 @@
+import type { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
+import { toDateKey } from "@/lib/availability-utils";
+import {
+  getVisibleDays,
+  shiftDay,
+  type CalendarSettings,
+} from "@/lib/calendar-utils";
+import { eventsOverlap } from "@/lib/time-utils";
+import { getZonedParts } from "@/lib/time-zone-utils";
+
+/**
+ * Layout for the schedule timeline (interviewers as rows, hours as columns)
+ * Positions are fractions (0-1) of the row width. Each shown day gets an
+ * equal share covering startHour-endHour; nights and hidden days are skipped.
+ */
+
+export type TimelineZoom = "day" | "3-day" | "week";
+
+export interface TimelineWindow {
+  dayKeys: string[]; // Shown days (YYYY-MM-DD) in order
+  startHour: number;
+  endHour: number; // Exclusive, up to 24
+}
+
+// Fields the layout needs; accepts both the API and the calendar event types
+export type TimelineEvent = Pick<
+  InterviewEvent,
+  "id" | "interviewer_email" | "start_time" | "end_time" | "status"
+>;
+
+export interface TimelineBlock<T extends TimelineEvent = TimelineEvent> {
+  event: T;
+  left: number;
+  width: number;
+  lane: number; // Row lane, so overlapping events stack instead of hiding each other
+  overlapping: boolean;
+}
+
+export interface TimelineGap {
+  left: number;
+  width: number;
+  minutes: number;
+}
+
+export const DEFAULT_TIMELINE_HOURS = { startHour: 8, endHour: 18 };
+
+/**
+ * Days a timeline zoom shows from an anchor date
+ * - day: the anchor
+ * - 3-day: the anchor and the next two shown days
+ * - week: the week containing the anchor
+ */
+export function getTimelineDays(
+  anchor: Date,
+  zoom: TimelineZoom,
+  settings: CalendarSettings,
+  showWeekends: boolean
+): Date[] {
+  if (zoom === "week") return getVisibleDays(anchor, "week", settings, showWeekends);
+
+  const days = getVisibleDays(anchor, "day", settings, showWeekends);
+  while (zoom === "3-day" && days.length < 3) {
+    days.push(shiftDay(days[days.length - 1], 1, settings, showWeekends));
+  }
+  return days;
+}
+
+/**
+ * Moves a timeline anchor one zoom-length forwards (1) or backwards (-1)
+ */
+export function shiftTimelineAnchor(
+  anchor: Date,
+  zoom: TimelineZoom,
+  direction: 1 | -1,
+  settings: CalendarSettings,
+  showWeekends: boolean
+): Date {
+  const steps = zoom === "week" ? 7 : zoom === "3-day" ? 3 : 1;
+  let next = anchor;
+  for (let i = 0; i < steps; i++) {
+    next = zoom === "week"
+      ? new Date(next.getFullYear(), next.getMonth(), next.getDate() + direction)
+      : shiftDay(next, direction, settings, showWeekends);
+  }
+  return next;
+}
+
+/**
+ * Builds the timeline window for some days, widening the default hours so
+ * every event on those days (in its row's zone) is fully visible
+ */
+export function getTimelineWindow(
+  days: Date[],
+  events: TimelineEvent[],
+  getTimeZone: (event: TimelineEvent) => string,
+  defaults = DEFAULT_TIMELINE_HOURS
+): TimelineWindow {
+  const dayKeys = days.map(toDateKey);
+  let { startHour, endHour } = defaults;
+
+  events.forEach((event) => {
+    const timeZone = getTimeZone(event);
+    const start = getZonedParts(event.start_time, timeZone);
+    const end = getZonedParts(event.end_time, timeZone);
+    if (!dayKeys.includes(start.date)) return;
+
+    startHour = Math.min(startHour, Number(start.time.slice(0, 2)));
+    if (end.date !== start.date) {
+      endHour = 24;
+    } else {
+      const [hours, minutes] = end.time.split(":").map(Number);
+      endHour = Math.max(endHour, minutes > 0 ? hours + 1 : hours);
+    }
+  });
+
+  return { dayKeys, startHour, endHour };
+}
+
+/**
+ * Horizontal position of an instant on a row shown in a zone
+ * Times outside the window's hours clamp to the edge of their day;
+ * instants on days that are not shown clamp to the nearest shown day.
+ * Example: 13:00 with one day, 08:00-18:00 → 0.5
+ */
+export function getTimelineOffset(
+  instant: string | Date,
+  window: TimelineWindow,
+  timeZone: string
+): number {
+  const { dayKeys, startHour, endHour } = window;
+  if (dayKeys.length === 0) return 0;
+
+  const { date, time } = getZonedParts(instant, timeZone);
+  const daysBefore = dayKeys.filter((key) => key < date).length;
+  if (!dayKeys.includes(date)) return daysBefore / dayKeys.length;
+
+  const [hours, minutes] = time.split(":").map(Number);
+  const span = (endHour - startHour) * 60;
+  const offset = Math.min(Math.max(hours * 60 + minutes - startHour * 60, 0), span);
+  return (daysBefore + offset / span) / dayKeys.length;
+}
+
+/**
+ * Lays out one interviewer's events: bar positions, stacking lanes, overlaps
+ * (cancelled events are drawn but never counted as overlapping) and the idle
+ * gaps of at least minGapMinutes between interviews on the same day
+ */
+export function layoutTimelineRow<T extends TimelineEvent>(
+  events: T[],
+  window: TimelineWindow,
+  timeZone: string,
+  minGapMinutes = 30
+): { blocks: TimelineBlock<T>[]; gaps: TimelineGap[]; laneCount: number } {
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+  );
+  const active = sorted.filter((event) => event.status !== "cancelled");
+  const lanes: T[][] = [];
+  const blocks: TimelineBlock<T>[] = [];
+
+  sorted.forEach((event) => {
+    const left = getTimelineOffset(event.start_time, window, timeZone);
+    const right = getTimelineOffset(event.end_time, window, timeZone);
+    if (right <= left) return;
+
+    let lane = lanes.findIndex((laneEvents) =>
+      laneEvents.every((other) => !eventsOverlap(event, other))
+    );
+    if (lane === -1) {
+      lane = lanes.length;
+      lanes.push([]);
+    }
+    lanes[lane].push(event);
+
+    blocks.push({
+      event,
+      left,
+      width: right - left,
+      lane,
+      overlapping:
+        event.status !== "cancelled" &&
+        active.some((other) => other.id !== event.id && eventsOverlap(event, other)),
+    });
+  });
+
+  const gaps: TimelineGap[] = [];
+  let busyUntil: T | null = null;
+  active.forEach((event) => {
+    if (busyUntil) {
+      const minutes = Math.round(
+        (new Date(event.start_time).getTime() - new Date(busyUntil.end_time).getTime()) / 60000
+      );
+      const sameDay =
+        getZonedParts(busyUntil.end_time, timeZone).date ===
+        getZonedParts(event.start_time, timeZone).date;
+
+      if (sameDay && minutes >= minGapMinutes) {
+        const left = getTimelineOffset(busyUntil.end_time, window, timeZone);
+        const right = getTimelineOffset(event.start_time, window, timeZone);
+        if (right > left) gaps.push({ left, width: right - left, minutes });
+      }
+    }
+    if (!busyUntil || new Date(event.end_time) > new Date(busyUntil.end_time)) {
+      busyUntil = event;
+    }
+  });
+
+  return { blocks, gaps, laneCount: Math.max(lanes.length, 1) };
+}
+
+/**
+ * Short duration label
+ * Example: 30 → "30m", 90 → "1h 30m", 120 → "2h"
+ */
+export function formatDurationLabel(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
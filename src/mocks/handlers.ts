@@ -124,6 +124,14 @@ export const handlers = [
     })
   }),
 
+  http.get(`${API_URL}/api/interviewers/stats`, () => {
+    return HttpResponse.json({
+      total: mockInterviewers.length,
+      active: mockInterviewers.filter((i) => i.is_active).length,
+      skills: new Set(mockInterviewers.flatMap((i) => i.skills)).size,
+    })
+  }),
+
   http.post(`${API_URL}/api/interviewers`, async ({ request }) => {
     const body = await request.json()
     const newInterviewer = {
@@ -174,6 +182,18 @@ export const handlers = [
     })
   }),
 
+  http.get(`${API_URL}/api/events/stats`, () => {
+    const count = (status: string) =>
+      mockEvents.filter((e) => e.status === status).length
+    return HttpResponse.json({
+      total: mockEvents.length,
+      pending: count('pending'),
+      attended: count('attended'),
+      ghosted: count('ghosted'),
+      cancelled: count('cancelled'),
+    })
+  }),
+
   http.post(`${API_URL}/api/events`, async ({ request }) => {
     const body = await request.json()
     const newEvent = {
@@ -205,6 +225,65 @@ export const handlers = [
     return HttpResponse.json({ success: true }, { status: 204 })
   }),
 
+  // Analytics endpoints
+  http.get(`${API_URL}/api/analytics/kpis`, ({ request }) => {
+    const url = new URL(request.url)
+    const count = (status: string) =>
+      mockEvents.filter((e) => e.status === status).length
+    const attended = count('attended')
+    const ghosted = count('ghosted')
+    const decided = attended + ghosted
+    return HttpResponse.json({
+      start_date: url.searchParams.get('start_date'),
+      end_date: url.searchParams.get('end_date'),
+      group_by: url.searchParams.get('group_by'),
+      totals: {
+        total: mockEvents.length,
+        pending: count('pending'),
+        attended,
+        ghosted,
+        cancelled: count('cancelled'),
+        upcoming: 0,
+        attendance_rate: decided > 0 ? attended / decided : null,
+        ghost_rate: decided > 0 ? ghosted / decided : null,
+        cancellation_rate: mockEvents.length > 0 ? count('cancelled') / mockEvents.length : null,
+        active_interviewers: mockInterviewers.filter((i) => i.is_active).length,
+        interviews_per_interviewer_week: null,
+      },
+      previous: null,
+      groups: [],
+    })
+  }),
+
+  http.get(`${API_URL}/api/analytics/reliability`, () => {
+    return HttpResponse.json({
+      window: { days: 90, start_date: '2023-10-04', end_date: '2024-01-01' },
+      thresholds: { ghost_rate: 0.1, cancellation_rate: 0.2, min_interviews: 3 },
+      data: mockInterviewers.map((interviewer) => {
+        const events = mockEvents.filter((e) => e.interviewer_email === interviewer.email)
+        const attended = events.filter((e) => e.status === 'attended').length
+        const ghosted = events.filter((e) => e.status === 'ghosted').length
+        const cancelled = events.filter((e) => e.status === 'cancelled').length
+        return {
+          interviewer_id: interviewer.id,
+          name: interviewer.name,
+          email: interviewer.email,
+          is_active: interviewer.is_active,
+          attended,
+          ghosted,
+          cancelled,
+          ghost_rate: attended + ghosted > 0 ? ghosted / (attended + ghosted) : null,
+          cancellation_rate: events.length > 0 ? cancelled / events.length : null,
+          attended_streak: ghosted > 0 ? 0 : attended,
+          last_ghosted_at: null,
+          score: attended + ghosted + cancelled > 0 ? Math.round(100 * attended / (attended + ghosted + cancelled)) : null,
+          needs_attention: false,
+          attention_reasons: [],
+        }
+      }),
+    })
+  }),
+
   // Audit logs endpoints
   http.get(`${API_URL}/api/audit-logs`, () => {
     return HttpResponse.json({
@@ -218,6 +297,32 @@ export const handlers = [
     })
   }),
 
+  http.get(`${API_URL}/api/audit-logs/stats`, () => {
+    const byAction: Record<string, number> = {}
+    mockAuditLogs.forEach((log) => {
+      byAction[log.action] = (byAction[log.action] ?? 0) + 1
+    })
+    return HttpResponse.json(byAction)
+  }),
+
+  // Notifications endpoints (bell menu in the layout header)
+  http.get(`${API_URL}/api/notifications/unread-count`, () => {
+    return HttpResponse.json({ unread: 0 })
+  }),
+
+  http.get(`${API_URL}/api/notifications`, () => {
+    return HttpResponse.json({
+      data: [],
+      pagination: {
+        total: 0,
+        limit: 20,
+        offset: 0,
+        hasMore: false,
+      },
+      unread: 0,
+    })
+  }),
+
   // Users endpoints (Issue #54)
   http.get(`${API_URL}/api/users`, () => {
     return HttpResponse.json({
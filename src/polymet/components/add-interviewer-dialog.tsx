@@ -45,6 +45,9 @@ export function AddInterviewerDialog({
     is_active: true,
     calendar_sync_enabled: false,
     skills: [] as string[],
+    max_interviews_per_day: null as number | null,
+    max_interviews_per_week: null as number | null,
+    cap_enforcement: "block" as "block" | "warn",
   });
   const [skillInput, setSkillInput] = useState("");
   const handleRoleChange = (value: string) => {
@@ -63,6 +66,9 @@ export function AddInterviewerDialog({
         is_active: interviewer.is_active,
         calendar_sync_enabled: interviewer.calendar_sync_enabled,
         skills: interviewer.skills,
+        max_interviews_per_day: interviewer.max_interviews_per_day ?? null,
+        max_interviews_per_week: interviewer.max_interviews_per_week ?? null,
+        cap_enforcement: interviewer.cap_enforcement ?? "block",
       });
     } else {
       setFormData({
@@ -73,6 +79,9 @@ export function AddInterviewerDialog({
         is_active: true,
         calendar_sync_enabled: false,
         skills: [],
+        max_interviews_per_day: null,
+        max_interviews_per_week: null,
+        cap_enforcement: "block",
       });
     }
   }, [interviewer, open]);
@@ -94,6 +103,18 @@ export function AddInterviewerDialog({
     });
   };
 
+  // Empty cap input means no limit
+  const parseCap = (value: string): number | null => {
+    const parsed = parseInt(value, 10);
+    return Number.isNaN(parsed) || parsed < 1 ? null : parsed;
+  };
+
+  const handleCapEnforcementChange = (value: string) => {
+    if (value === "block" || value === "warn") {
+      setFormData({ ...formData, cap_enforcement: value });
+    }
+  };
+
   const handleSubmit = () => {
     onSubmit(formData);
     onOpenChange(false);
@@ -233,6 +254,69 @@ export function AddInterviewerDialog({
             )}
           </div>
 
+          <div className="space-y-2 pt-4 border-t border-border">
+            <Label>Interview Caps</Label>
+            <p className="text-xs text-muted-foreground">
+              Limit how many interviews this person takes. Leave empty for no
+              limit.
+            </p>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="max_per_day" className="text-xs">
+                  Per Day
+                </Label>
+                <Input
+                  id="max_per_day"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={formData.max_interviews_per_day ?? ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      max_interviews_per_day: parseCap(e.target.value),
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max_per_week" className="text-xs">
+                  Per Week
+                </Label>
+                <Input
+                  id="max_per_week"
+                  type="number"
+                  min={1}
+                  placeholder="No limit"
+                  value={formData.max_interviews_per_week ?? ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      max_interviews_per_week: parseCap(e.target.value),
+                    })
+                  }
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cap_enforcement" className="text-xs">
+                  When Exceeded
+                </Label>
+                <Select
+                  value={formData.cap_enforcement}
+                  onValueChange={handleCapEnforcementChange}
+                >
+                  <SelectTrigger id="cap_enforcement">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="block">Block scheduling</SelectItem>
+                    <SelectItem value="warn">Warn only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
           <div className="space-y-4 pt-4 border-t border-border">
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Table,
   TableBody,
@@ -18,17 +18,66 @@ import {
   TrashIcon,
   DownloadIcon,
 } from "lucide-react";
-import type { AuditLog } from "@/polymet/data/database-service";
+import type {
+  AuditLog,
+  AuditLogListQuery,
+  AuditLogSortField,
+  Pagination,
+} from "@/polymet/data/database-service";
+import { SortableTableHead } from "@/polymet/components/sortable-table-head";
+import { TablePagination } from "@/polymet/components/table-pagination";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { toggleSort } from "@/lib/pagination-utils";
 
 interface AuditLogTableProps {
   logs: AuditLog[];
+  // Server-side mode: search, action filter, sorting and paging go through
+  // the query and `logs` is the current page as returned
+  query?: AuditLogListQuery;
+  pagination?: Pagination;
+  onQueryChange?: (query: AuditLogListQuery) => void;
 }
 
-export function AuditLogTable({ logs }: AuditLogTableProps) {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [actionFilter, setActionFilter] = useState<string>("all");
+export function AuditLogTable({
+  logs,
+  query,
+  pagination,
+  onQueryChange,
+}: AuditLogTableProps) {
+  const server = query && onQueryChange ? { query, onQueryChange } : undefined;
+  const [searchQuery, setSearchQuery] = useState(query?.search ?? "");
+  const [localActionFilter, setLocalActionFilter] = useState<string>("all");
+  const actionFilter = server
+    ? server.query.action_prefix ?? "all"
+    : localActionFilter;
+  const debouncedSearch = useDebouncedValue(searchQuery);
 
-  const filteredLogs = logs.filter((log) => {
+  useEffect(() => {
+    if (!query || !onQueryChange) return;
+    if ((query.search ?? "") === debouncedSearch) return;
+    onQueryChange({ ...query, search: debouncedSearch || undefined, offset: 0 });
+  }, [debouncedSearch, query, onQueryChange]);
+
+  const setActionFilter = (action: string) => {
+    if (server) {
+      server.onQueryChange({
+        ...server.query,
+        action_prefix: action === "all" ? undefined : action,
+        offset: 0,
+      });
+    } else {
+      setLocalActionFilter(action);
+    }
+  };
+
+  const sortBy = server
+    ? (field: AuditLogSortField) =>
+        server.onQueryChange(
+          toggleSort(server.query, field, field === "timestamp" ? "desc" : "asc")
+        )
+    : undefined;
+
+  const filteredLogs = server ? logs : logs.filter((log) => {
     const matchesSearch =
       log.user_email.toLowerCase().includes(searchQuery.toLowerCase()) ||
       log.user_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -161,10 +210,38 @@ export function AuditLogTable({ logs }: AuditLogTableProps) {
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Timestamp</TableHead>
-              <TableHead>User</TableHead>
-              <TableHead>Action</TableHead>
-              <TableHead>Entity</TableHead>
+              <SortableTableHead
+                field="timestamp"
+                sort={query?.sort}
+                order={query?.order}
+                onSort={sortBy}
+              >
+                Timestamp
+              </SortableTableHead>
+              <SortableTableHead
+                field="user_email"
+                sort={query?.sort}
+                order={query?.order}
+                onSort={sortBy}
+              >
+                User
+              </SortableTableHead>
+              <SortableTableHead
+                field="action"
+                sort={query?.sort}
+                order={query?.order}
+                onSort={sortBy}
+              >
+                Action
+              </SortableTableHead>
+              <SortableTableHead
+                field="entity_type"
+                sort={query?.sort}
+                order={query?.order}
+                onSort={sortBy}
+              >
+                Entity
+              </SortableTableHead>
               <TableHead>Changes</TableHead>
             </TableRow>
           </TableHeader>
@@ -237,9 +314,22 @@ export function AuditLogTable({ logs }: AuditLogTableProps) {
         </Table>
       </div>
 
-      <div className="text-sm text-muted-foreground">
-        Showing {filteredLogs.length} of {logs.length} audit logs
-      </div>
+      {server && pagination ? (
+        <TablePagination
+          pagination={pagination}
+          itemLabel="audit logs"
+          onPageChange={(offset) =>
+            server.onQueryChange({ ...server.query, offset })
+          }
+          onPageSizeChange={(limit) =>
+            server.onQueryChange({ ...server.query, limit, offset: 0 })
+          }
+        />
+      ) : (
+        <div className="text-sm text-muted-foreground">
+          Showing {filteredLogs.length} of {logs.length} audit logs
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,42 @@
+import type { TimeWindow } from "@/polymet/data/database-service";
+import { getUnavailableHours, formatWindows } from "@/lib/availability-utils";
+
+interface AvailabilityHoursStripProps {
+  windows: TimeWindow[] | null; // null = no schedule configured
+  fromHour?: number;
+  toHour?: number;
+}
+
+/**
+ * Compact hour strip for a calendar cell
+ * Shades the hours (09:00-20:00 by default) an interviewer is unavailable
+ * Renders nothing when the interviewer has no schedule configured
+ */
+export function AvailabilityHoursStrip({
+  windows,
+  fromHour = 9,
+  toHour = 20,
+}: AvailabilityHoursStripProps) {
+  if (windows === null) return null;
+
+  const unavailableHours = getUnavailableHours(windows, fromHour, toHour);
+
+  return (
+    <div
+      className="flex gap-px mt-1"
+      title={`Available: ${formatWindows(windows)}`}
+      aria-label={`Available: ${formatWindows(windows)}`}
+    >
+      {unavailableHours.map((isUnavailable, index) => (
+        <div
+          key={index}
+          className={`h-1 flex-1 rounded-sm ${
+            isUnavailable
+              ? "bg-gray-300 dark:bg-gray-700"
+              : "bg-green-300 dark:bg-green-800"
+          }`}
+        />
+      ))}
+    </div>
+  );
+}
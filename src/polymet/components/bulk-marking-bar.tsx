@@ -0,0 +1,85 @@
+import { Button } from "@/components/ui/button";
+import type { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
+import { getStatusDisplay } from "@/lib/time-utils";
+import { XIcon } from "lucide-react";
+
+interface BulkMarkingBarProps {
+  selectedCount: number;
+  pendingCount: number; // Pending interviews shown in the current view
+  onMark: (status: InterviewEvent["status"]) => void;
+  onSelectPending: () => void;
+  onClear: () => void;
+  disabled?: boolean; // While a bulk change is saving
+}
+
+const BULK_STATUSES: Array<InterviewEvent["status"]> = [
+  "attended",
+  "ghosted",
+  "cancelled",
+];
+
+/**
+ * Selection count and bulk status actions for the Mark Interviews calendar
+ */
+export function BulkMarkingBar({
+  selectedCount,
+  pendingCount,
+  onMark,
+  onSelectPending,
+  onClear,
+  disabled = false,
+}: BulkMarkingBarProps) {
+  const hasSelection = selectedCount > 0;
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk marking"
+      className="flex flex-wrap items-center gap-2 rounded-lg border border-border p-2"
+    >
+      <span className="text-sm font-medium px-1" aria-live="polite">
+        {hasSelection
+          ? `${selectedCount} selected`
+          : "Select interviews to mark them together"}
+      </span>
+
+      {hasSelection ? (
+        <>
+          {BULK_STATUSES.map((status) => {
+            const display = getStatusDisplay(status);
+            return (
+              <Button
+                key={status}
+                size="sm"
+                variant="outline"
+                onClick={() => onMark(status)}
+                disabled={disabled}
+                className={display.outlineClass}
+              >
+                Mark {display.fullLabel.toLowerCase()}
+              </Button>
+            );
+          })}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={onClear}
+            disabled={disabled}
+          >
+            <XIcon className="h-4 w-4 mr-1" />
+            Clear
+          </Button>
+        </>
+      ) : (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onSelectPending}
+          disabled={disabled || pendingCount === 0}
+        >
+          Select all pending ({pendingCount})
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CopyIcon, PlusIcon, TrashIcon } from "lucide-react";
+import { toast } from "sonner";
+import { db } from "@/polymet/data/database-service";
+import type { CalendarFeed, Interviewer } from "@/polymet/data/database-service";
+import { useAuth } from "@/polymet/data/auth-context";
+import { ApiError } from "@/lib/api-client";
+
+interface CalendarFeedsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Select value for the whole-roster feed
+const ROSTER = "__roster__";
+
+/**
+ * Manage iCalendar subscription feeds
+ * Admin and talent users can create feeds for any interviewer or the whole
+ * roster; other users only for their own interviews
+ */
+export function CalendarFeedsDialog({
+  open,
+  onOpenChange,
+}: CalendarFeedsDialogProps) {
+  const { user } = useAuth();
+  const canManageRoster = user?.role === "admin" || user?.role === "talent";
+
+  const [feedTargets, setFeedTargets] = useState<Interviewer[]>([]);
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [target, setTarget] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingFeed, setRevokingFeed] = useState<CalendarFeed | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const loadFeeds = async () => {
+      try {
+        setLoading(true);
+        setFeeds(await db.getCalendarFeeds());
+      } catch (error) {
+        console.error("Failed to load calendar feeds:", error);
+        toast.error("Failed to load calendar feeds");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    // Others can only subscribe to their own interviews
+    const loadTargets = async () => {
+      try {
+        const roster = canManageRoster
+          ? await db.getInterviewers()
+          : (await db.getInterviewersPage({ search: user?.email })).data;
+        setFeedTargets(
+          roster.filter(
+            (interviewer) => canManageRoster || interviewer.email === user?.email
+          )
+        );
+      } catch (error) {
+        console.error("Failed to load interviewers:", error);
+      }
+    };
+
+    setTarget("");
+    loadFeeds();
+    loadTargets();
+  }, [open, canManageRoster, user?.email]);
+
+  const handleCreate = async () => {
+    if (!target) return;
+
+    setIsCreating(true);
+    try {
+      const feed = await db.createCalendarFeed(target === ROSTER ? undefined : target);
+      setFeeds((prev) => [feed, ...prev]);
+      setTarget("");
+      toast.success("Calendar feed created");
+    } catch (error) {
+      console.error("Failed to create calendar feed:", error);
+      toast.error(
+        error instanceof ApiError && (error.status === 400 || error.status === 403)
+          ? error.message
+          : "Failed to create calendar feed"
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success("Feed URL copied");
+    } catch {
+      toast.error("Could not copy, select the URL and copy it manually");
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!revokingFeed) return;
+
+    try {
+      await db.revokeCalendarFeed(revokingFeed.id);
+      setFeeds((prev) => prev.filter((feed) => feed.id !== revokingFeed.id));
+      toast.success("Calendar feed revoked");
+    } catch (error) {
+      console.error("Failed to revoke calendar feed:", error);
+      toast.error("Failed to revoke calendar feed");
+    } finally {
+      setRevokingFeed(null);
+    }
+  };
+
+  const feedLabel = (feed: CalendarFeed) =>
+    feed.scope === "roster"
+      ? "Whole roster"
+      : feed.interviewer_name ?? feed.interviewer_email ?? "";
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Calendar Feeds</DialogTitle>
+            <DialogDescription>
+              Subscribe to interview assignments from Google Calendar, Outlook or
+              Apple Calendar. Anyone with a feed URL can read it, so revoke a feed
+              if its URL is shared by mistake.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="calendar-feed-target">New feed</Label>
+                <Select value={target} onValueChange={setTarget}>
+                  <SelectTrigger id="calendar-feed-target">
+                    <SelectValue
+                      placeholder={
+                        feedTargets.length > 0 || canManageRoster
+                          ? "Select interviewer"
+                          : "You are not on the roster"
+                      }
+                    />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {canManageRoster && (
+                      <SelectItem value={ROSTER}>Whole roster</SelectItem>
+                    )}
+                    {feedTargets.map((interviewer) => (
+                      <SelectItem key={interviewer.email} value={interviewer.email}>
+                        {interviewer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button onClick={handleCreate} disabled={!target || isCreating}>
+                <PlusIcon className="h-4 w-4 mr-2" />
+                {isCreating ? "Creating..." : "Create Feed"}
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {loading ? (
+                <p className="text-sm text-muted-foreground">Loading feeds...</p>
+              ) : feeds.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No calendar feeds yet</p>
+              ) : (
+                feeds.map((feed) => (
+                  <div
+                    key={feed.id}
+                    className="rounded-lg border border-border p-3 space-y-2"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div>
+                        <div className="font-medium text-sm">{feedLabel(feed)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {feed.last_accessed_at
+                            ? `Last fetched ${new Date(`${feed.last_accessed_at.replace(" ", "T")}Z`).toLocaleString()}`
+                            : "Not fetched yet"}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRevokingFeed(feed)}
+                        aria-label={`Revoke feed for ${feedLabel(feed)}`}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="flex gap-2">
+                      <Input
+                        readOnly
+                        value={feed.url}
+                        onFocus={(e) => e.target.select()}
+                        className="font-mono text-xs h-8"
+                        aria-label={`Feed URL for ${feedLabel(feed)}`}
+                      />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleCopy(feed)}
+                        aria-label={`Copy feed URL for ${feedLabel(feed)}`}
+                      >
+                        <CopyIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={!!revokingFeed}
+        onOpenChange={(isOpen) => !isOpen && setRevokingFeed(null)}
+        title="Revoke Calendar Feed"
+        description={`Calendars subscribed to the ${revokingFeed ? feedLabel(revokingFeed) : ""} feed will stop updating. This cannot be undone.`}
+        onConfirm={handleRevoke}
+        confirmText="Revoke"
+        variant="destructive"
+      />
+    </>
+  );
+}
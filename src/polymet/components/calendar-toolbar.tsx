@@ -0,0 +1,102 @@
+import type { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  CalendarIcon,
+} from "lucide-react";
+import type { CalendarView } from "@/lib/calendar-utils";
+
+interface CalendarToolbarProps {
+  view: CalendarView;
+  onViewChange: (view: CalendarView) => void;
+  rangeLabel: string;
+  onPrevious: () => void;
+  onNext: () => void;
+  onToday: () => void;
+  showWeekends: boolean;
+  onShowWeekendsChange: (show: boolean) => void;
+  children?: ReactNode; // Extra status shown after the range (e.g. last synced)
+}
+
+const VIEWS: Array<{ value: CalendarView; label: string }> = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+  { value: "month", label: "Month" },
+];
+
+/**
+ * Range title, day/week/month switch, weekend toggle and navigation
+ * shared by the schedule calendars
+ */
+export function CalendarToolbar({
+  view,
+  onViewChange,
+  rangeLabel,
+  onPrevious,
+  onNext,
+  onToday,
+  showWeekends,
+  onShowWeekendsChange,
+  children,
+}: CalendarToolbarProps) {
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-2">
+      <div className="flex items-center gap-4">
+        <span className="text-sm text-muted-foreground">{rangeLabel}</span>
+        {children}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center gap-2 mr-2">
+          <Switch
+            id="calendar-show-weekends"
+            checked={showWeekends}
+            onCheckedChange={onShowWeekendsChange}
+          />
+          <Label htmlFor="calendar-show-weekends" className="text-sm">
+            Weekends
+          </Label>
+        </div>
+        <div
+          className="flex items-center gap-1 bg-muted p-1 rounded-lg"
+          role="group"
+          aria-label="Calendar view"
+        >
+          {VIEWS.map(({ value, label }) => (
+            <Button
+              key={value}
+              variant={view === value ? "default" : "ghost"}
+              size="sm"
+              onClick={() => onViewChange(value)}
+              aria-pressed={view === value}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        <Button variant="outline" size="sm" onClick={onToday}>
+          <CalendarIcon className="h-4 w-4 mr-2" />
+          Today
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={onPrevious}
+          aria-label={`Previous ${view}`}
+        >
+          <ChevronLeftIcon className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={onNext}
+          aria-label={`Next ${view}`}
+        >
+          <ChevronRightIcon className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
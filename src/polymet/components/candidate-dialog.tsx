@@ -0,0 +1,139 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import type { Candidate } from "@/polymet/data/database-service";
+
+export type CandidateFormData = Pick<Candidate, "name"> &
+  Partial<Pick<Candidate, "email" | "phone" | "position" | "notes">>;
+
+interface CandidateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  candidate?: Candidate | null;
+  onSubmit: (data: CandidateFormData) => void;
+}
+
+const EMPTY_FORM = {
+  name: "",
+  email: "",
+  phone: "",
+  position: "",
+  notes: "",
+};
+
+/**
+ * Add / edit candidate dialog
+ * Empty optional fields are left out of the submitted data
+ */
+export function CandidateDialog({
+  open,
+  onOpenChange,
+  candidate,
+  onSubmit,
+}: CandidateDialogProps) {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (candidate) {
+      setFormData({
+        name: candidate.name,
+        email: candidate.email ?? "",
+        phone: candidate.phone ?? "",
+        position: candidate.position ?? "",
+        notes: candidate.notes ?? "",
+      });
+    } else {
+      setFormData(EMPTY_FORM);
+    }
+  }, [candidate, open]);
+
+  const handleSubmit = () => {
+    const data: CandidateFormData = { name: formData.name.trim() };
+    if (formData.email.trim()) data.email = formData.email.trim();
+    if (formData.phone.trim()) data.phone = formData.phone.trim();
+    if (formData.position.trim()) data.position = formData.position.trim();
+    if (formData.notes.trim()) data.notes = formData.notes.trim();
+    onSubmit(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{candidate ? "Edit Candidate" : "Add Candidate"}</DialogTitle>
+          <DialogDescription>
+            {candidate
+              ? "Update candidate details"
+              : "Add a candidate so their interviews can be tracked as one loop"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="candidate-name">Name</Label>
+            <Input
+              id="candidate-name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="candidate-email">Email</Label>
+              <Input
+                id="candidate-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="candidate-phone">Phone</Label>
+              <Input
+                id="candidate-phone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="candidate-position">Position</Label>
+            <Input
+              id="candidate-position"
+              placeholder="e.g., Senior Frontend Engineer"
+              value={formData.position}
+              onChange={(e) => setFormData({ ...formData, position: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="candidate-notes">Notes</Label>
+            <Textarea
+              id="candidate-notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!formData.name.trim()}>
+            {candidate ? "Save Changes" : "Add Candidate"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
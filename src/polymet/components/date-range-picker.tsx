@@ -0,0 +1,81 @@
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CalendarRangeIcon } from "lucide-react";
+import type { DateRange } from "@/polymet/data/database-service";
+import {
+  DATE_RANGE_PRESETS,
+  getPresetRange,
+  type DateRangePreset,
+} from "@/lib/analytics-utils";
+
+interface DateRangePickerProps {
+  preset: DateRangePreset;
+  range: Partial<DateRange>; // May be incomplete while a custom range is edited
+  onChange: (preset: DateRangePreset, range: Partial<DateRange>) => void;
+}
+
+/**
+ * Preset ranges (last 7/30/90 days, this/last month) or a custom from-to
+ */
+export function DateRangePicker({ preset, range, onChange }: DateRangePickerProps) {
+  const invalid =
+    !!range.start_date && !!range.end_date && range.start_date > range.end_date;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+      <Select
+        value={preset}
+        onValueChange={(value) => {
+          const next = value as DateRangePreset;
+          // Custom starts from the range shown so far
+          onChange(next, next === "custom" ? range : getPresetRange(next));
+        }}
+      >
+        <SelectTrigger className="w-full sm:w-[170px]" aria-label="Date range">
+          <CalendarRangeIcon className="h-4 w-4 mr-2 text-muted-foreground" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DATE_RANGE_PRESETS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {preset === "custom" && (
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            aria-label="From"
+            value={range.start_date ?? ""}
+            max={range.end_date}
+            onChange={(e) =>
+              onChange("custom", { ...range, start_date: e.target.value })
+            }
+            className="w-[150px]"
+          />
+          <span className="text-muted-foreground text-sm">to</span>
+          <Input
+            type="date"
+            aria-label="To"
+            value={range.end_date ?? ""}
+            min={range.start_date}
+            onChange={(e) =>
+              onChange("custom", { ...range, end_date: e.target.value })
+            }
+            className="w-[150px]"
+            aria-invalid={invalid}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
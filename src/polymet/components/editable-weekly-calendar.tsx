@@ -8,21 +8,70 @@ import {
   InterviewEvent,
 } from "@/polymet/data/mock-interview-events-data";
 import { db } from "@/polymet/data/database-service";
-import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import {
-  ChevronLeftIcon,
-  ChevronRightIcon,
-  CalendarIcon,
-  SearchIcon,
-} from "lucide-react";
+import { SearchIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
-import type { AuditContext } from "@/polymet/data/database-service";
+import type {
+  AuditContext,
+  EventConflict,
+  InterviewerAvailability,
+  SeriesScope,
+} from "@/polymet/data/database-service";
 import { InterviewDayCell } from "./interview-day-cell";
-import { createISOFromTime, createEndTime, isDuplicateTime, extractTimeFromISO } from "@/lib/time-utils";
+import { BulkMarkingBar } from "./bulk-marking-bar";
+import { RecurrenceDialog } from "./recurrence-dialog";
+import { SeriesScopeDialog } from "./series-scope-dialog";
+import {
+  createISOFromTime,
+  createEndTime,
+  eventsOverlap,
+  getEventDurationMinutes,
+  getStatusDisplay,
+  moveEventToDate,
+  sortEventsByTime,
+} from "@/lib/time-utils";
+import { getAdjacentId, toggleSelection } from "@/lib/marking-utils";
+import {
+  resolveAvailabilityForDate,
+  isWithinAvailability,
+  formatWindows,
+  toDateKey,
+} from "@/lib/availability-utils";
+import {
+  getSecondaryTimeZone,
+  getZonedDay,
+  getZonedParts,
+  resolveTimeZone,
+  type TimeZoneMode,
+} from "@/lib/time-zone-utils";
+import {
+  getLoadRange,
+  getOrgCalendarSettings,
+  getVisibleDays,
+  getWeekdayOrder,
+  formatViewRange,
+  isSameDay,
+  shiftAnchor,
+  shiftDay,
+  type CalendarView,
+} from "@/lib/calendar-utils";
+import { TimeZoneModeSelect } from "./time-zone-mode-select";
+import { CalendarToolbar } from "./calendar-toolbar";
+import { MonthCalendarGrid } from "./month-calendar-grid";
 import { toast } from "sonner";
+import { ApiError } from "@/lib/api-client";
 import { useAuth } from "@/polymet/data/auth-context";
 
+/**
+ * Extracts the clashing events from a 409 overlap response
+ * Returns null for any other error
+ */
+function getEventConflicts(error: unknown): EventConflict[] | null {
+  if (!(error instanceof ApiError) || error.status !== 409) return null;
+  const body = error.body as { conflicts?: EventConflict[] } | undefined;
+  return body?.conflicts ?? null;
+}
+
 interface EditableWeeklyCalendarProps {
   interviewers?: Interviewer[];
   events?: InterviewEvent[];
@@ -34,14 +83,14 @@ export function EditableWeeklyCalendar({
   events = mockInterviewEvents,
   auditContext,
 }: EditableWeeklyCalendarProps) {
-  const [currentWeekStart, setCurrentWeekStart] = useState(() => {
+  // Org settings: first day of the week and work days
+  const calendarSettings = getOrgCalendarSettings();
+  const [view, setView] = useState<CalendarView>("week");
+  const [showWeekends, setShowWeekends] = useState(false);
+  const [anchorDate, setAnchorDate] = useState(() => {
     const today = new Date();
-    const day = today.getDay();
-    const diff = day === 0 ? -6 : 1 - day; // Get Monday
-    const monday = new Date(today);
-    monday.setDate(today.getDate() + diff);
-    monday.setHours(0, 0, 0, 0);
-    return monday;
+    today.setHours(0, 0, 0, 0);
+    return today;
   });
 
   // Get current user for role-based access
@@ -50,40 +99,62 @@ export function EditableWeeklyCalendar({
 
   // Local state for events - load fresh data when needed
   const [localEvents, setLocalEvents] = useState<InterviewEvent[]>(events);
+  const [availabilityByEmail, setAvailabilityByEmail] = useState<
+    Record<string, InterviewerAvailability>
+  >({});
+  // Server-reported overlaps keyed by cell (interviewer email + date)
+  const [cellConflicts, setCellConflicts] = useState<
+    Record<string, EventConflict[]>
+  >({});
 
   const [addingCell, setAddingCell] = useState<string | null>(null); // Track which cell is adding
+  const [recurringCell, setRecurringCell] = useState<{
+    interviewerEmail: string;
+    date: Date;
+  } | null>(null);
+  // Pending "which occurrences?" question for an edit/delete of a recurring interview
+  const [scopePrompt, setScopePrompt] = useState<{
+    action: "edit" | "delete";
+    resolve: (scope: SeriesScope | null) => void;
+  } | null>(null);
+  // Entry picked up for a keyboard move (drag-and-drop needs no state here)
+  const [movingEventId, setMovingEventId] = useState<string | null>(null);
+  // Entries picked for bulk marking, across cells
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
   const [isSaving, setIsSaving] = useState(false);
   const [lastSynced, setLastSynced] = useState<Date | null>(null);
   const [searchQuery, setSearchQuery] = useState<string>("");
+  // Zone each row is shown and edited in (times are stored in UTC)
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>("viewer");
   const initializedRef = useRef(false);
-  const currentWeekRef = useRef(currentWeekStart.toISOString());
 
-  // Get the 5 weekdays (Mon-Fri)
-  const weekDays = Array.from({ length: 5 }, (_, i) => {
-    const date = new Date(currentWeekStart);
-    date.setDate(currentWeekStart.getDate() + i);
-    return date;
-  });
+  // Days of the current view (day, work week / full week, or month grid)
+  const visibleDays = getVisibleDays(anchorDate, view, calendarSettings, showWeekends);
+  const { start_date: loadStart, end_date: loadEnd } = getLoadRange(visibleDays);
+  const loadRangeKey = `${loadStart}/${loadEnd}`;
+  const currentRangeRef = useRef(loadRangeKey);
+
+  const getInterviewerTimeZone = (interviewerEmail: string) =>
+    interviewers.find((i) => i.email === interviewerEmail)?.timezone;
+
+  // Zone a row is displayed and edited in
+  const getRowTimeZone = (interviewerEmail: string) =>
+    resolveTimeZone(timeZoneMode, getInterviewerTimeZone(interviewerEmail));
 
   // Helper function to filter events by day (not a hook, so it doesn't cause re-renders)
+  // Days are calendar days in the row's zone
   const filterEventsByDay = (
     allEvents: InterviewEvent[],
     interviewerEmail: string,
     date: Date
   ) => {
-    const dayStart = new Date(date);
-    dayStart.setHours(0, 0, 0, 0);
-    const dayEnd = new Date(date);
-    dayEnd.setHours(23, 59, 59, 999);
-
-    return allEvents.filter((event) => {
-      const eventDate = new Date(event.start_time);
-      return (
-        event.interviewer_email === interviewerEmail &&
-        eventDate >= dayStart &&
-        eventDate <= dayEnd
-      );
-    });
+    const dateKey = toDateKey(date);
+    const timeZone = getRowTimeZone(interviewerEmail);
+
+    return allEvents.filter((event) =>
+      event.interviewer_email === interviewerEmail &&
+      getZonedParts(event.start_time, timeZone).date === dateKey
+    );
   };
 
   // Format date for display
@@ -98,22 +169,29 @@ export function EditableWeeklyCalendar({
     return date.toISOString().split("T")[0];
   };
 
-  // Load events ONLY on initial load or week change
+  // Events of the displayed range
+  const loadVisibleEvents = async () =>
+    db.getInterviewEvents({ start_date: loadStart, end_date: loadEnd });
+
+  // Load events ONLY on initial load or when the shown range changes
   useEffect(() => {
-    const weekString = currentWeekStart.toISOString();
-    const weekChanged = currentWeekRef.current !== weekString;
+    const rangeChanged = currentRangeRef.current !== loadRangeKey;
 
     // Only reload if:
     // 1. First time loading (not initialized)
-    // 2. Week changed
-    if (!initializedRef.current || weekChanged) {
+    // 2. Shown range changed (navigation or view switch)
+    if (!initializedRef.current || rangeChanged) {
       const loadEvents = async () => {
         try {
           // Load fresh events from database
-          const freshEvents = await db.getInterviewEvents();
+          const freshEvents = await db.getInterviewEvents({
+            start_date: loadStart,
+            end_date: loadEnd,
+          });
           setLocalEvents(freshEvents);
+          setSelectedIds(new Set()); // Selection only spans the shown range
           initializedRef.current = true;
-          currentWeekRef.current = weekString;
+          currentRangeRef.current = loadRangeKey;
         } catch (error) {
           console.error("Failed to load events:", error);
           toast.error("Failed to load interview data");
@@ -122,63 +200,162 @@ export function EditableWeeklyCalendar({
 
       loadEvents();
     }
-  }, [currentWeekStart, interviewers]);
+  }, [loadRangeKey, loadStart, loadEnd, interviewers]);
+
+  // Load availability windows once (used to shade unavailable hours)
+  useEffect(() => {
+    const loadAvailability = async () => {
+      try {
+        const availability = await db.getAllAvailability();
+        setAvailabilityByEmail(
+          Object.fromEntries(availability.map((a) => [a.interviewer_email, a]))
+        );
+      } catch (error) {
+        // Calendar still works without availability shading
+        console.error("Failed to load availability:", error);
+      }
+    };
+
+    loadAvailability();
+  }, [interviewers]);
 
-  // Navigate weeks
-  const goToPreviousWeek = () => {
-    const newDate = new Date(currentWeekStart);
-    newDate.setDate(newDate.getDate() - 7);
-    setCurrentWeekStart(newDate);
+  // Escape puts a picked-up entry back
+  useEffect(() => {
+    if (!movingEventId) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setMovingEventId(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [movingEventId]);
+
+  // Escape clears the bulk selection (outside the time inputs, which revert on Escape)
+  useEffect(() => {
+    if (selectedIds.size === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && !(e.target instanceof HTMLInputElement && e.target.type === "text")) {
+        setSelectedIds(new Set());
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [selectedIds]);
+
+  // Availability windows are wall-clock times in the interviewer's own zone
+  const isSlotAvailable = (
+    interviewerEmail: string,
+    startTime: string,
+    durationMinutes: number = 60
+  ) => {
+    const timeZone = resolveTimeZone('interviewer', getInterviewerTimeZone(interviewerEmail));
+    const windows = resolveAvailabilityForDate(
+      availabilityByEmail[interviewerEmail],
+      getZonedDay(startTime, timeZone)
+    );
+    return isWithinAvailability(windows, getZonedParts(startTime, timeZone).time, durationMinutes);
   };
 
-  const goToNextWeek = () => {
-    const newDate = new Date(currentWeekStart);
-    newDate.setDate(newDate.getDate() + 7);
-    setCurrentWeekStart(newDate);
+  // Warn (but don't block) when an interview falls outside availability
+  const warnIfOutsideAvailability = (
+    interviewerEmail: string,
+    startTime: string,
+    durationMinutes: number = 60
+  ) => {
+    if (isSlotAvailable(interviewerEmail, startTime, durationMinutes)) return;
+
+    const timeZone = resolveTimeZone('interviewer', getInterviewerTimeZone(interviewerEmail));
+    const windows = resolveAvailabilityForDate(
+      availabilityByEmail[interviewerEmail],
+      getZonedDay(startTime, timeZone)
+    );
+    const interviewer = interviewers.find((i) => i.email === interviewerEmail);
+    toast.warning(
+      `${getZonedParts(startTime, timeZone).time} (${timeZone}) is outside ${interviewer?.name ?? interviewerEmail}'s availability (${formatWindows(windows)})`
+    );
   };
 
-  const goToCurrentWeek = () => {
-    const today = new Date();
-    const day = today.getDay();
-    const diff = day === 0 ? -6 : 1 - day;
-    const monday = new Date(today);
-    monday.setDate(today.getDate() + diff);
-    monday.setHours(0, 0, 0, 0);
-    setCurrentWeekStart(monday);
+  // Navigate by the current view's length
+  const goToPrevious = () => {
+    setAnchorDate(view === "day"
+      ? shiftDay(anchorDate, -1, calendarSettings, showWeekends)
+      : shiftAnchor(anchorDate, view, -1));
   };
 
-  const formatWeekRange = () => {
-    const endDate = new Date(currentWeekStart);
-    endDate.setDate(endDate.getDate() + 4);
-    return `${formatDate(currentWeekStart)} - ${formatDate(endDate)}`;
+  const goToNext = () => {
+    setAnchorDate(view === "day"
+      ? shiftDay(anchorDate, 1, calendarSettings, showWeekends)
+      : shiftAnchor(anchorDate, view, 1));
   };
 
-  const isToday = (date: Date) => {
+  const goToToday = () => {
     const today = new Date();
-    return (
-      date.getDate() === today.getDate() &&
-      date.getMonth() === today.getMonth() &&
-      date.getFullYear() === today.getFullYear()
-    );
+    today.setHours(0, 0, 0, 0);
+    setAnchorDate(today);
   };
 
-  // Find next available time slot for a day (09:00-20:00 range)
-  const findNextAvailableTime = (dayEvents: InterviewEvent[]): string => {
-    // Extract existing times and sort them
-    const existingTimes = dayEvents.map(e => extractTimeFromISO(e.start_time)).sort();
+  const openDay = (date: Date) => {
+    setAnchorDate(date);
+    setView("day");
+  };
+
+  const isToday = (date: Date) => isSameDay(date, new Date());
 
-    // Start from 09:00 and increment by 1 hour until we find a free slot
+  // Find next available time slot for a day (09:00-20:00 in the row's zone)
+  // Prefers hours inside the interviewer's availability windows
+  const findNextAvailableTime = (
+    interviewerEmail: string,
+    date: Date,
+    dayEvents: InterviewEvent[]
+  ): string => {
+    const timeZone = getRowTimeZone(interviewerEmail);
+    const activeEvents = dayEvents.filter(e => e.status !== 'cancelled');
+    const freeTimes: string[] = [];
+
+    // Start from 09:00 and increment by 1 hour collecting slots that overlap nothing
     for (let hour = 9; hour <= 20; hour++) {
       const timeString = `${hour.toString().padStart(2, '0')}:00`;
-      if (!existingTimes.includes(timeString)) {
-        return timeString;
+      const slot = {
+        start_time: createISOFromTime(date, timeString, timeZone),
+        end_time: createEndTime(date, timeString, 60, timeZone),
+      };
+      if (!activeEvents.some(e => eventsOverlap(slot, e))) {
+        freeTimes.push(timeString);
       }
     }
 
+    const insideWindow = freeTimes.find((time) =>
+      isSlotAvailable(interviewerEmail, createISOFromTime(date, time, timeZone))
+    );
+    if (insideWindow) {
+      return insideWindow;
+    }
+
+    if (freeTimes.length > 0) {
+      return freeTimes[0];
+    }
+
     // Fallback to 09:00 (shouldn't reach here due to max capacity check)
     return '09:00';
   };
 
+  const clearCellConflicts = (cellKey: string) => {
+    setCellConflicts(prev => {
+      const next = { ...prev };
+      delete next[cellKey];
+      return next;
+    });
+  };
+
+  const toConflict = (event: InterviewEvent): EventConflict => ({
+    id: event.id,
+    start_time: event.start_time,
+    end_time: event.end_time,
+    candidate_name: null,
+    status: event.status,
+  });
+
   // Add new interview entry (defaults: next available hour, status: pending, 1 hour duration)
   const handleAddEntry = async (interviewerEmail: string, date: Date) => {
     const cellKey = `${interviewerEmail}-${formatDateString(date)}`;
@@ -194,10 +371,11 @@ export function EditableWeeklyCalendar({
       }
 
       // Find next available time slot
-      const nextAvailableTime = findNextAvailableTime(dayEvents);
+      const timeZone = getRowTimeZone(interviewerEmail);
+      const nextAvailableTime = findNextAvailableTime(interviewerEmail, date, dayEvents);
 
-      const startTime = createISOFromTime(date, nextAvailableTime);
-      const endTime = createEndTime(date, nextAvailableTime, 60);
+      const startTime = createISOFromTime(date, nextAvailableTime, timeZone);
+      const endTime = createEndTime(date, nextAvailableTime, 60, timeZone);
 
       const newEvent = await db.createInterviewEvent({
         interviewer_email: interviewerEmail,
@@ -206,50 +384,208 @@ export function EditableWeeklyCalendar({
         status: 'pending',
         notes: 'Added via Mark Interviews page',
         duration_minutes: 60,
-      }, auditContext);
+      });
 
       if (newEvent) {
         setLocalEvents(prev => [...prev, newEvent]);
+        clearCellConflicts(cellKey);
         toast.success('Interview slot added');
+        newEvent.warnings?.forEach((warning) => toast.warning(warning));
+        warnIfOutsideAvailability(interviewerEmail, startTime);
         setLastSynced(new Date());
       }
     } catch (error) {
       console.error('Failed to add interview:', error);
-      toast.error('Failed to add interview slot');
+      const conflicts = getEventConflicts(error);
+      if (conflicts) {
+        setCellConflicts(prev => ({ ...prev, [cellKey]: conflicts }));
+      }
+      // 409 = overlapping interview or interview cap reached
+      toast.error(
+        error instanceof ApiError && error.status === 409
+          ? error.message
+          : 'Failed to add interview slot'
+      );
     } finally {
       setAddingCell(null);
     }
   };
 
+  // Add a recurring slot (the server creates the occurrences)
+  const handleAddRecurring = async (time: string, rrule: string) => {
+    if (!recurringCell) return;
+    const { interviewerEmail, date } = recurringCell;
+    const cellKey = `${interviewerEmail}-${formatDateString(date)}`;
+    const timeZone = getRowTimeZone(interviewerEmail);
+    const startTime = createISOFromTime(date, time, timeZone);
+
+    try {
+      const firstEvent = await db.createInterviewEvent({
+        interviewer_email: interviewerEmail,
+        start_time: startTime,
+        end_time: createEndTime(date, time, 60, timeZone),
+        status: 'pending',
+        notes: 'Added via Mark Interviews page',
+        duration_minutes: 60,
+        rrule,
+      });
+
+      setLocalEvents(await loadVisibleEvents());
+      clearCellConflicts(cellKey);
+      toast.success('Recurring slot added');
+      firstEvent.warnings?.forEach((warning) => toast.warning(warning));
+      warnIfOutsideAvailability(interviewerEmail, startTime);
+      setLastSynced(new Date());
+    } catch (error) {
+      console.error('Failed to add recurring slot:', error);
+      const conflicts = getEventConflicts(error);
+      if (conflicts) {
+        setCellConflicts(prev => ({ ...prev, [cellKey]: conflicts }));
+      }
+      // 400 = invalid rule, 409 = an occurrence overlaps or hits a cap
+      toast.error(
+        error instanceof ApiError && (error.status === 400 || error.status === 409)
+          ? error.message
+          : 'Failed to add recurring slot'
+      );
+      throw error;
+    }
+  };
+
+  // Ask which occurrences a change applies to ("this" for one-off events)
+  const askSeriesScope = (
+    event: InterviewEvent,
+    action: "edit" | "delete"
+  ): Promise<SeriesScope | null> => {
+    if (!event.series_id) return Promise.resolve('this');
+    return new Promise((resolve) => setScopePrompt({ action, resolve }));
+  };
+
+  const answerScopePrompt = (scope: SeriesScope | null) => {
+    scopePrompt?.resolve(scope);
+    setScopePrompt(null);
+  };
+
   // Update interview time
   const handleTimeChange = async (eventId: string, newTime: string) => {
     try {
       const event = localEvents.find(e => e.id === eventId);
       if (!event) throw new Error('Event not found');
 
-      const date = new Date(event.start_time);
+      const scope = await askSeriesScope(event, 'edit');
+      if (!scope) throw new Error('Time change cancelled');
+
+      const timeZone = getRowTimeZone(event.interviewer_email);
+      const date = getZonedDay(event.start_time, timeZone);
+      const cellKey = `${event.interviewer_email}-${formatDateString(date)}`;
       const dayEvents = filterEventsByDay(localEvents, event.interviewer_email, date);
 
-      // Check for duplicate time (excluding current event)
-      if (isDuplicateTime(newTime, dayEvents, eventId)) {
-        throw new Error('This time slot is already booked for this interviewer');
+      const newStartTime = createISOFromTime(date, newTime, timeZone);
+      const newEndTime = createEndTime(date, newTime, 60, timeZone);
+
+      // Check for overlaps in this cell before asking the server
+      // (the server also checks neighbouring days and the configured buffer)
+      const localConflicts = dayEvents.filter(e =>
+        e.id !== eventId &&
+        e.status !== 'cancelled' &&
+        eventsOverlap({ start_time: newStartTime, end_time: newEndTime }, e)
+      );
+      if (localConflicts.length > 0) {
+        setCellConflicts(prev => ({ ...prev, [cellKey]: localConflicts.map(toConflict) }));
+        throw new Error('This time overlaps another interview for this interviewer');
       }
 
-      const newStartTime = createISOFromTime(date, newTime);
-      const newEndTime = createEndTime(date, newTime, 60);
+      let updatedEvent;
+      try {
+        updatedEvent = await db.updateInterviewEvent(eventId, {
+          start_time: newStartTime,
+          end_time: newEndTime,
+        }, scope);
+      } catch (error) {
+        const conflicts = getEventConflicts(error);
+        if (conflicts) {
+          setCellConflicts(prev => ({ ...prev, [cellKey]: conflicts }));
+        }
+        throw error;
+      }
 
+      if (updatedEvent) {
+        if (scope === 'this') {
+          setLocalEvents(prev => prev.map(e => e.id === eventId ? updatedEvent : e));
+        } else {
+          // Other occurrences in view moved too
+          setLocalEvents(await loadVisibleEvents());
+        }
+        clearCellConflicts(cellKey);
+        updatedEvent.warnings?.forEach((warning) => toast.warning(warning));
+        warnIfOutsideAvailability(event.interviewer_email, newStartTime);
+        setLastSynced(new Date());
+      }
+    } catch (error) {
+      console.error('Failed to update time:', error);
+      throw error; // Re-throw to let component handle UI feedback
+    }
+  };
+
+  // Move an interview to another day and/or interviewer, keeping its time,
+  // duration, notes and id (one update, audited as a move by the server).
+  // Only the moved occurrence of a recurring series changes.
+  const handleMoveEntry = async (eventId: string, interviewerEmail: string, date: Date) => {
+    setMovingEventId(null);
+
+    const event = localEvents.find(e => e.id === eventId);
+    if (!event) return;
+
+    const cellKey = `${interviewerEmail}-${formatDateString(date)}`;
+    const dayEvents = filterEventsByDay(localEvents, interviewerEmail, date);
+    if (dayEvents.some(e => e.id === eventId)) return;
+
+    if (dayEvents.length >= 3) {
+      toast.error('Maximum 3 interview slots per day');
+      return;
+    }
+
+    // Keeps the wall-clock time shown in the target row's zone
+    const slot = moveEventToDate(event, date, getRowTimeZone(interviewerEmail));
+    const localConflicts = event.status === 'cancelled' ? [] : dayEvents.filter(e =>
+      e.status !== 'cancelled' && eventsOverlap(slot, e)
+    );
+    if (localConflicts.length > 0) {
+      setCellConflicts(prev => ({ ...prev, [cellKey]: localConflicts.map(toConflict) }));
+      toast.error('This time overlaps another interview for this interviewer');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
       const updatedEvent = await db.updateInterviewEvent(eventId, {
-        start_time: newStartTime,
-        end_time: newEndTime,
-      }, auditContext);
+        interviewer_email: interviewerEmail,
+        ...slot,
+      });
 
       if (updatedEvent) {
         setLocalEvents(prev => prev.map(e => e.id === eventId ? updatedEvent : e));
+        clearCellConflicts(cellKey);
+        const interviewer = interviewers.find((i) => i.email === interviewerEmail);
+        toast.success(`Moved to ${interviewer?.name ?? interviewerEmail} on ${formatDate(date)}`);
+        updatedEvent.warnings?.forEach((warning) => toast.warning(warning));
+        warnIfOutsideAvailability(interviewerEmail, slot.start_time, getEventDurationMinutes(slot));
         setLastSynced(new Date());
       }
     } catch (error) {
-      console.error('Failed to update time:', error);
-      throw error; // Re-throw to let component handle UI feedback
+      console.error('Failed to move interview:', error);
+      const conflicts = getEventConflicts(error);
+      if (conflicts) {
+        setCellConflicts(prev => ({ ...prev, [cellKey]: conflicts }));
+      }
+      // 409 = overlapping interview or interview cap reached
+      toast.error(
+        error instanceof ApiError && (error.status === 400 || error.status === 409)
+          ? error.message
+          : 'Failed to move interview'
+      );
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -260,7 +596,7 @@ export function EditableWeeklyCalendar({
         status: newStatus,
         marked_by: auditContext.userEmail,
         marked_at: new Date().toISOString(),
-      }, auditContext);
+      });
 
       if (updatedEvent) {
         setLocalEvents(prev => prev.map(e => e.id === eventId ? updatedEvent : e));
@@ -273,12 +609,58 @@ export function EditableWeeklyCalendar({
     }
   };
 
+  // Mark every selected interview at once (one request, one transaction)
+  const handleBulkStatusChange = async (newStatus: InterviewEvent['status']) => {
+    const ids = localEvents.filter(e => selectedIds.has(e.id)).map(e => e.id);
+    if (ids.length === 0) return;
+
+    setIsSaving(true);
+    try {
+      const { updated } = await db.updateInterviewEventStatuses(ids, newStatus);
+      // Only the marking fields change
+      const updatedById = new Map(updated.map(e => [e.id, e]));
+      setLocalEvents(prev => prev.map(e => {
+        const marked = updatedById.get(e.id);
+        return marked
+          ? { ...e, status: marked.status, marked_by: marked.marked_by ?? null, marked_at: marked.marked_at ?? null }
+          : e;
+      }));
+      setSelectedIds(new Set());
+      toast.success(
+        `Marked ${ids.length} interview${ids.length !== 1 ? 's' : ''} as ${getStatusDisplay(newStatus).fullLabel.toLowerCase()}`
+      );
+      updated.forEach(e => e.warnings?.forEach((warning) => toast.warning(warning)));
+      setLastSynced(new Date());
+    } catch (error) {
+      console.error('Failed to update statuses:', error);
+      // 404 = an interview was deleted meanwhile, 409 = a cancelled one lost its slot
+      toast.error(
+        error instanceof ApiError && (error.status === 404 || error.status === 409)
+          ? error.message
+          : 'Failed to update statuses'
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   // Delete interview entry
   const handleDelete = async (eventId: string) => {
     try {
-      await db.deleteInterviewEvent(eventId, auditContext);
-      setLocalEvents(prev => prev.filter(e => e.id !== eventId));
-      toast.success('Interview slot deleted');
+      const event = localEvents.find(e => e.id === eventId);
+      if (!event) throw new Error('Event not found');
+
+      const scope = await askSeriesScope(event, 'delete');
+      if (!scope) return;
+
+      await db.deleteInterviewEvent(eventId, scope);
+      setSelectedIds(prev => prev.has(eventId) ? toggleSelection(prev, eventId) : prev);
+      if (scope === 'this') {
+        setLocalEvents(prev => prev.filter(e => e.id !== eventId));
+      } else {
+        setLocalEvents(await loadVisibleEvents());
+      }
+      toast.success(scope === 'this' ? 'Interview slot deleted' : 'Recurring interviews deleted');
       setLastSynced(new Date());
     } catch (error) {
       console.error('Failed to delete interview:', error);
@@ -286,22 +668,12 @@ export function EditableWeeklyCalendar({
     }
   };
 
-  // Calculate total interviews for the current week per interviewer
-  const getWeekTotal = (interviewerEmail: string) => {
-    const weekStart = new Date(currentWeekStart);
-    weekStart.setHours(0, 0, 0, 0);
-
-    const weekEnd = new Date(currentWeekStart);
-    weekEnd.setDate(weekEnd.getDate() + 4); // Friday (Mon + 4 days)
-    weekEnd.setHours(23, 59, 59, 999);
-
-    return localEvents.filter(event => {
-      if (event.interviewer_email !== interviewerEmail) return false;
-
-      const eventDate = new Date(event.start_time);
-      return eventDate >= weekStart && eventDate <= weekEnd;
-    }).length;
-  };
+  // Calculate total interviews for the shown days (in the row's zone) per interviewer
+  const getRangeTotal = (interviewerEmail: string) =>
+    visibleDays.reduce(
+      (total, date) => total + filterEventsByDay(localEvents, interviewerEmail, date).length,
+      0
+    );
 
   // Filter interviewers based on search query (min 3 characters)
   const filteredInterviewers = interviewers.filter((interviewer) => {
@@ -324,43 +696,60 @@ export function EditableWeeklyCalendar({
     );
   });
 
+  // Entries in keyboard order: row by row, day by day, by time
+  const entryOrder = view === "month" ? [] : filteredInterviewers.flatMap((interviewer) =>
+    visibleDays.flatMap((date) =>
+      sortEventsByTime(filterEventsByDay(localEvents, interviewer.email, date)).map((e) => e.id)
+    )
+  );
+  const visibleIds = new Set(entryOrder);
+  const pendingIds = localEvents
+    .filter((e) => e.status === "pending" && visibleIds.has(e.id))
+    .map((e) => e.id);
+  const selectedCount = localEvents.filter((e) => selectedIds.has(e.id)).length;
+
+  const focusAdjacentEntry = (eventId: string, step: 1 | -1) => {
+    const nextId = getAdjacentId(entryOrder, eventId, step);
+    if (!nextId) return;
+    document.querySelector<HTMLElement>(`[data-event-entry="${nextId}"]`)?.focus();
+  };
+
   return (
     <div className="space-y-4">
       {/* Header with navigation */}
-      <div className="flex items-center justify-between">
-        <div className="flex items-center gap-4">
-          <span className="text-sm text-muted-foreground">{formatWeekRange()}</span>
-          {lastSynced && (
-            <span className="text-sm text-muted-foreground">
-              Last synced: {lastSynced.toLocaleTimeString()}
-            </span>
-          )}
-          {isSaving && (
-            <span className="text-sm text-blue-600 dark:text-blue-400">
-              Saving...
-            </span>
-          )}
-        </div>
-        <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={goToCurrentWeek}>
-            <CalendarIcon className="h-4 w-4 mr-2" />
-            Today
-          </Button>
-          <Button variant="outline" size="icon" onClick={goToPreviousWeek}>
-            <ChevronLeftIcon className="h-4 w-4" />
-          </Button>
-          <Button variant="outline" size="icon" onClick={goToNextWeek}>
-            <ChevronRightIcon className="h-4 w-4" />
-          </Button>
-        </div>
-      </div>
+      <CalendarToolbar
+        view={view}
+        onViewChange={setView}
+        rangeLabel={formatViewRange(anchorDate, view, visibleDays)}
+        onPrevious={goToPrevious}
+        onNext={goToNext}
+        onToday={goToToday}
+        showWeekends={showWeekends}
+        onShowWeekendsChange={setShowWeekends}
+      >
+        {lastSynced && (
+          <span className="text-sm text-muted-foreground">
+            Last synced: {lastSynced.toLocaleTimeString()}
+          </span>
+        )}
+        {isSaving && (
+          <span className="text-sm text-blue-600 dark:text-blue-400">
+            Saving...
+          </span>
+        )}
+      </CalendarToolbar>
 
       {/* Status Legend */}
       <div className="bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
         <p className="text-sm text-blue-900 dark:text-blue-100 mb-2">
-          <strong>How to use:</strong> Click the + button to add interview slots. Enter time (HH:MM format, 09:00-20:00) and select status.
+          <strong>How to use:</strong> Click the + button to add interview slots, or the repeat button for a recurring slot. Enter time (HH:MM format, 09:00-20:00) and select status.
+          Drag an interview by its handle to move it to another day or interviewer (or press Enter on the handle, then choose Move here; Escape cancels).
           Changes save automatically.
         </p>
+        <p className="text-sm text-blue-900 dark:text-blue-100 mb-2">
+          <strong>Keyboard:</strong> Tab to an interview, then ↑/↓ move between interviews, Space or X selects,
+          A/P/G/C set the status (of every selected interview when the focused one is selected), Escape clears the selection.
+        </p>
         <div className="flex gap-4 text-xs text-blue-800 dark:text-blue-200">
           <span><strong className="bg-green-500 text-white px-2 py-0.5 rounded">A</strong> = Attended</span>
           <span><strong className="bg-yellow-500 text-white px-2 py-0.5 rounded">P</strong> = Pending</span>
@@ -381,96 +770,158 @@ export function EditableWeeklyCalendar({
             className="pl-9"
           />
         </div>
+        <TimeZoneModeSelect value={timeZoneMode} onChange={setTimeZoneMode} />
         {searchQuery.length >= 3 && (
           <span className="text-sm text-muted-foreground">
             Showing {filteredInterviewers.length} of {interviewers.filter(i => i.is_active).length} interviewers
           </span>
         )}
       </div>
-      {/* Calendar Grid */}
-      <div className="border border-border rounded-lg overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full border-collapse">
-            <thead>
-              <tr className="bg-muted/50">
-                <th className="sticky left-0 z-10 bg-muted/50 border-r border-border p-3 text-left font-semibold min-w-[200px]">
-                  Interviewer
-                </th>
-                {weekDays.map((date, index) => (
-                  <th
-                    key={index}
-                    className={`border-r border-border p-3 text-center font-semibold min-w-[100px] ${
-                      isToday(date) ? "bg-blue-50 dark:bg-blue-950/30" : ""
-                    }`}
-                  >
-                    <div className="text-sm">
-                      {date.toLocaleDateString("en-US", { weekday: "short" })}
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      {formatDate(date)}
-                    </div>
+      {/* Bulk marking (day and week views) */}
+      {canEdit && view !== "month" && (
+        <BulkMarkingBar
+          selectedCount={selectedCount}
+          pendingCount={pendingIds.length}
+          onMark={handleBulkStatusChange}
+          onSelectPending={() => setSelectedIds(new Set(pendingIds))}
+          onClear={() => setSelectedIds(new Set())}
+          disabled={isSaving}
+        />
+      )}
+
+      {/* Calendar Grid (month view lists the day's interviews; click a day to edit it) */}
+      {view === "month" ? (
+        <MonthCalendarGrid
+          month={anchorDate.getMonth()}
+          days={visibleDays}
+          weekdays={getWeekdayOrder(calendarSettings.firstDayOfWeek).filter(
+            (day) => showWeekends || calendarSettings.workDays.includes(day)
+          )}
+          getDayEvents={(date) =>
+            filteredInterviewers.flatMap((interviewer) =>
+              filterEventsByDay(localEvents, interviewer.email, date)
+            )
+          }
+          getEventTimeZone={(event) => getRowTimeZone(event.interviewer_email)}
+          getInterviewerName={(email) =>
+            interviewers.find((i) => i.email === email)?.name ?? email
+          }
+          onSelectDay={openDay}
+        />
+      ) : (
+        <div className="border border-border rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="sticky left-0 z-10 bg-muted/50 border-r border-border p-3 text-left font-semibold min-w-[200px]">
+                    Interviewer
                   </th>
-                ))}
-                <th className="border-r border-border p-3 text-center font-semibold min-w-[80px] bg-muted/70">
-                  Total
-                </th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredInterviewers.map((interviewer) => (
-                  <tr
-                    key={interviewer.id}
-                    className="border-t border-border hover:bg-muted/30"
-                  >
-                    <td className="sticky left-0 z-10 bg-background border-r border-border p-3">
-                      <div>
-                        <div className="font-medium text-sm">
-                          {interviewer.name}
-                        </div>
-                        <div className="text-xs text-muted-foreground truncate">
-                          {interviewer.email}
-                        </div>
+                  {visibleDays.map((date, index) => (
+                    <th
+                      key={index}
+                      className={`border-r border-border p-3 text-center font-semibold min-w-[100px] ${
+                        isToday(date) ? "bg-blue-50 dark:bg-blue-950/30" : ""
+                      }`}
+                    >
+                      <div className="text-sm">
+                        {date.toLocaleDateString("en-US", { weekday: "short" })}
                       </div>
-                    </td>
-                    {weekDays.map((date, dayIndex) => {
-                      const dateString = formatDateString(date);
-                      const dayEvents = filterEventsByDay(localEvents, interviewer.email, date);
-                      const cellKey = `${interviewer.email}-${dateString}`;
-
-                      return (
-                        <td
-                          key={dayIndex}
-                          className={`border-r border-border p-0 ${
-                            isToday(date)
-                              ? "bg-blue-50/50 dark:bg-blue-950/10"
-                              : ""
-                          }`}
-                        >
-                          <InterviewDayCell
-                            interviewerEmail={interviewer.email}
-                            date={date}
-                            events={dayEvents}
-                            onAddEntry={handleAddEntry}
-                            onTimeChange={handleTimeChange}
-                            onStatusChange={handleStatusChange}
-                            onDelete={handleDelete}
-                            canEdit={canEdit}
-                            isAdding={addingCell === cellKey}
-                          />
-                        </td>
-                      );
-                    })}
-                    <td className="border-r border-border p-3 text-center bg-muted/30">
-                      <Badge variant="secondary" className="font-semibold">
-                        {getWeekTotal(interviewer.email)}
-                      </Badge>
-                    </td>
-                  </tr>
-                ))}
-            </tbody>
-          </table>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDate(date)}
+                      </div>
+                    </th>
+                  ))}
+                  <th className="border-r border-border p-3 text-center font-semibold min-w-[80px] bg-muted/70">
+                    Total
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredInterviewers.map((interviewer) => (
+                    <tr
+                      key={interviewer.id}
+                      className="border-t border-border hover:bg-muted/30"
+                    >
+                      <td className="sticky left-0 z-10 bg-background border-r border-border p-3">
+                        <div>
+                          <div className="font-medium text-sm">
+                            {interviewer.name}
+                          </div>
+                          <div className="text-xs text-muted-foreground truncate">
+                            {interviewer.email}
+                          </div>
+                          {timeZoneMode === "interviewer" && (
+                            <div className="text-xs text-muted-foreground truncate">
+                              {getRowTimeZone(interviewer.email)}
+                            </div>
+                          )}
+                        </div>
+                      </td>
+                      {visibleDays.map((date, dayIndex) => {
+                        const dateString = formatDateString(date);
+                        const dayEvents = filterEventsByDay(localEvents, interviewer.email, date);
+                        const cellKey = `${interviewer.email}-${dateString}`;
+                        const rowTimeZone = getRowTimeZone(interviewer.email);
+
+                        return (
+                          <td
+                            key={dayIndex}
+                            className={`border-r border-border p-0 ${
+                              isToday(date)
+                                ? "bg-blue-50/50 dark:bg-blue-950/10"
+                                : ""
+                            }`}
+                          >
+                            <InterviewDayCell
+                              interviewerEmail={interviewer.email}
+                              date={date}
+                              events={dayEvents}
+                              onAddEntry={handleAddEntry}
+                              onAddRecurring={(email, day) =>
+                                setRecurringCell({ interviewerEmail: email, date: day })
+                              }
+                              onTimeChange={handleTimeChange}
+                              onStatusChange={handleStatusChange}
+                              onDelete={handleDelete}
+                              canEdit={canEdit}
+                              isAdding={addingCell === cellKey}
+                              conflicts={cellConflicts[cellKey]}
+                              onDismissConflicts={() => clearCellConflicts(cellKey)}
+                              onMoveEntry={handleMoveEntry}
+                              onStartMove={(eventId) =>
+                                setMovingEventId(prev => prev === eventId ? null : eventId)
+                              }
+                              movingEventId={movingEventId}
+                              timeZone={rowTimeZone}
+                              secondaryTimeZone={getSecondaryTimeZone(rowTimeZone, interviewer.timezone)}
+                              availabilityTimeZone={resolveTimeZone('interviewer', interviewer.timezone)}
+                              availableWindows={resolveAvailabilityForDate(
+                                availabilityByEmail[interviewer.email],
+                                date
+                              )}
+                              selectedEventIds={selectedIds}
+                              onToggleSelect={(eventId) =>
+                                setSelectedIds(prev => toggleSelection(prev, eventId))
+                              }
+                              onNavigate={focusAdjacentEntry}
+                              onBulkStatusChange={handleBulkStatusChange}
+                            />
+                          </td>
+                        );
+                      })}
+                      <td className="border-r border-border p-3 text-center bg-muted/30">
+                        <Badge variant="secondary" className="font-semibold">
+                          {getRangeTotal(interviewer.email)}
+                        </Badge>
+                      </td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Summary */}
       <div className="flex items-center justify-between text-sm text-muted-foreground">
@@ -479,6 +930,31 @@ export function EditableWeeklyCalendar({
           {searchQuery.length >= 3 && ` (filtered from ${interviewers.filter((i) => i.is_active).length})`}
         </span>
       </div>
+
+      {recurringCell && (
+        <RecurrenceDialog
+          open={!!recurringCell}
+          onOpenChange={(open) => !open && setRecurringCell(null)}
+          interviewerName={
+            interviewers.find((i) => i.email === recurringCell.interviewerEmail)?.name ??
+            recurringCell.interviewerEmail
+          }
+          date={recurringCell.date}
+          defaultTime={findNextAvailableTime(
+            recurringCell.interviewerEmail,
+            recurringCell.date,
+            filterEventsByDay(localEvents, recurringCell.interviewerEmail, recurringCell.date)
+          )}
+          onSubmit={handleAddRecurring}
+        />
+      )}
+
+      <SeriesScopeDialog
+        open={!!scopePrompt}
+        action={scopePrompt?.action ?? "edit"}
+        onConfirm={(scope) => answerScopePrompt(scope)}
+        onCancel={() => answerScopePrompt(null)}
+      />
     </div>
   );
 }
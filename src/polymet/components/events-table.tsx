@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import {
   Table,
   TableBody,
@@ -11,12 +12,18 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { StatusBadge } from "@/polymet/components/status-badge";
+import { InterviewerResponseBadge } from "@/polymet/components/interviewer-response-badge";
 import {
   MoreHorizontalIcon,
   SearchIcon,
   CheckCircle2Icon,
   CalendarIcon,
   ClockIcon,
+  ChevronDownIcon,
+  ChevronRightIcon,
+  LayersIcon,
+  XCircleIcon,
+  ClipboardListIcon,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -27,28 +34,127 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
+import type {
+  EventListQuery,
+  EventSortField,
+  InterviewLoop,
+  LoopStatus,
+  Pagination,
+} from "@/polymet/data/database-service";
+import { SortableTableHead } from "@/polymet/components/sortable-table-head";
+import { TablePagination } from "@/polymet/components/table-pagination";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { toggleSort } from "@/lib/pagination-utils";
 
 interface EventsTableProps {
   events: InterviewEvent[];
+  loops?: InterviewLoop[];
   userRole: "viewer" | "talent" | "admin";
   onMarkAttendance?: (event: InterviewEvent) => void;
   onViewDetails?: (event: InterviewEvent) => void;
+  onCancelLoop?: (loop: InterviewLoop) => void;
+  onOpenScorecard?: (event: InterviewEvent) => void;
+  scoredEventIds?: Set<string>; // Events that already have a scorecard
+  // Server-side mode: search, status filter, sorting and paging go through
+  // the query and `events` is the current page as returned
+  query?: EventListQuery;
+  pagination?: Pagination;
+  onQueryChange?: (query: EventListQuery) => void;
+}
+
+type DisplayItem =
+  | { type: "event"; event: InterviewEvent }
+  | { type: "loop"; loopId: string; events: InterviewEvent[] };
+
+const loopStatusLabels: Record<LoopStatus, string> = {
+  scheduled: "Scheduled",
+  in_progress: "In Progress",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+/**
+ * Group loop events into one item per loop, placed where the loop's first
+ * event appears, so loops keep their position in the list
+ */
+function groupByLoop(events: InterviewEvent[]): DisplayItem[] {
+  const items: DisplayItem[] = [];
+  const loopItems = new Map<string, InterviewEvent[]>();
+
+  events.forEach((event) => {
+    if (!event.loop_id) {
+      items.push({ type: "event", event });
+      return;
+    }
+
+    const loopEvents = loopItems.get(event.loop_id);
+    if (loopEvents) {
+      loopEvents.push(event);
+      return;
+    }
+
+    const newLoopEvents = [event];
+    loopItems.set(event.loop_id, newLoopEvents);
+    items.push({ type: "loop", loopId: event.loop_id, events: newLoopEvents });
+  });
+
+  loopItems.forEach((loopEvents) =>
+    loopEvents.sort((a, b) => (a.loop_stage ?? 0) - (b.loop_stage ?? 0))
+  );
+
+  return items;
 }
 
 export function EventsTable({
   events,
+  loops = [],
   userRole,
   onMarkAttendance,
   onViewDetails,
+  onCancelLoop,
+  onOpenScorecard,
+  scoredEventIds,
+  query,
+  pagination,
+  onQueryChange,
 }: EventsTableProps) {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const server = query && onQueryChange ? { query, onQueryChange } : undefined;
+  const [searchQuery, setSearchQuery] = useState(query?.search ?? "");
+  const [localStatusFilter, setLocalStatusFilter] = useState<string>("all");
+  const statusFilter = server ? server.query.status ?? "all" : localStatusFilter;
+  const [expandedLoops, setExpandedLoops] = useState<Set<string>>(new Set());
+  const debouncedSearch = useDebouncedValue(searchQuery);
+
+  useEffect(() => {
+    if (!query || !onQueryChange) return;
+    if ((query.search ?? "") === debouncedSearch) return;
+    onQueryChange({ ...query, search: debouncedSearch || undefined, offset: 0 });
+  }, [debouncedSearch, query, onQueryChange]);
+
+  const setStatusFilter = (status: string) => {
+    if (server) {
+      server.onQueryChange({
+        ...server.query,
+        status:
+          status === "all" ? undefined : (status as EventListQuery["status"]),
+        offset: 0,
+      });
+    } else {
+      setLocalStatusFilter(status);
+    }
+  };
 
-  const filteredEvents = events.filter((event) => {
+  const sortBy = server
+    ? (field: EventSortField) =>
+        server.onQueryChange(toggleSort(server.query, field, "desc"))
+    : undefined;
+
+  const filteredEvents = server ? events : events.filter((event) => {
     const matchesSearch =
       event.interviewer_email
         .toLowerCase()
         .includes(searchQuery.toLowerCase()) ||
+      event.candidate_name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
       event.skills_assessed?.some((skill) =>
         skill.toLowerCase().includes(searchQuery.toLowerCase())
       );
@@ -59,7 +165,12 @@ export function EventsTable({
     return matchesSearch && matchesStatus;
   });
 
+  const displayItems = groupByLoop(filteredEvents);
+  const loopsById = new Map(loops.map((loop) => [loop.id, loop]));
+
   const canMarkAttendance = userRole === "admin" || userRole === "talent";
+  // Candidate pages are limited to the same roles
+  const canViewCandidates = canMarkAttendance;
 
   const formatDateTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -76,6 +187,204 @@ export function EventsTable({
     };
   };
 
+  const renderEventRow = (event: InterviewEvent, nested = false) => {
+    const startDateTime = formatDateTime(event.start_time);
+    const endDateTime = formatDateTime(event.end_time);
+
+    return (
+      <TableRow key={event.id} className={nested ? "bg-muted/30" : undefined}>
+        <TableCell className={nested ? "pl-8" : undefined}>
+          <div className="space-y-1">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <CalendarIcon className="h-3 w-3 text-muted-foreground" />
+
+              {startDateTime.date}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <ClockIcon className="h-3 w-3" />
+              {startDateTime.time} - {endDateTime.time}
+            </div>
+          </div>
+        </TableCell>
+        <TableCell>
+          {event.candidate_id && canViewCandidates ? (
+            <Link
+              to={`/candidates/${event.candidate_id}`}
+              className="text-sm font-medium hover:underline"
+            >
+              {event.candidate_name ?? "View candidate"}
+            </Link>
+          ) : event.candidate_name ? (
+            <div className="text-sm">{event.candidate_name}</div>
+          ) : (
+            <span className="text-sm text-muted-foreground">-</span>
+          )}
+        </TableCell>
+        <TableCell>
+          <div className="text-sm">{event.interviewer_email}</div>
+        </TableCell>
+        <TableCell>
+          {event.skills_assessed &&
+          event.skills_assessed.length > 0 ? (
+            <div className="flex flex-wrap gap-1 max-w-xs">
+              {event.skills_assessed.slice(0, 2).map((skill) => (
+                <Badge
+                  key={skill}
+                  variant="secondary"
+                  className="text-xs"
+                >
+                  {skill}
+                </Badge>
+              ))}
+              {event.skills_assessed.length > 2 && (
+                <Badge variant="secondary" className="text-xs">
+                  +{event.skills_assessed.length - 2}
+                </Badge>
+              )}
+            </div>
+          ) : (
+            <span className="text-sm text-muted-foreground">-</span>
+          )}
+        </TableCell>
+        <TableCell>
+          <div className="flex flex-wrap items-center gap-1">
+            <StatusBadge status={event.status} />
+            <InterviewerResponseBadge
+              response={event.interviewer_response}
+              note={event.interviewer_response_note}
+            />
+          </div>
+        </TableCell>
+        <TableCell>
+          {event.notes ? (
+            <div
+              className="text-sm max-w-xs truncate"
+              title={event.notes}
+            >
+              {event.notes}
+            </div>
+          ) : (
+            <span className="text-sm text-muted-foreground">-</span>
+          )}
+        </TableCell>
+        <TableCell className="text-right">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm">
+                <MoreHorizontalIcon className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Actions</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+
+              <DropdownMenuItem
+                onClick={() => onViewDetails?.(event)}
+              >
+                <CalendarIcon className="h-4 w-4 mr-2" />
+                View Details
+              </DropdownMenuItem>
+              {canMarkAttendance && event.status === "pending" && (
+                <DropdownMenuItem
+                  onClick={() => onMarkAttendance?.(event)}
+                >
+                  <CheckCircle2Icon className="h-4 w-4 mr-2" />
+                  Mark Attendance
+                </DropdownMenuItem>
+              )}
+              {canMarkAttendance && event.status === "attended" && (
+                <DropdownMenuItem onClick={() => onOpenScorecard?.(event)}>
+                  <ClipboardListIcon className="h-4 w-4 mr-2" />
+                  {scoredEventIds?.has(event.id) ? "Edit Scorecard" : "Add Scorecard"}
+                </DropdownMenuItem>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  const toggleLoop = (loopId: string) => {
+    const next = new Set(expandedLoops);
+    if (next.has(loopId)) {
+      next.delete(loopId);
+    } else {
+      next.add(loopId);
+    }
+    setExpandedLoops(next);
+  };
+
+  const renderLoopGroup = (loopId: string, loopEvents: InterviewEvent[]) => {
+    const loop = loopsById.get(loopId);
+    const expanded = expandedLoops.has(loopId);
+    const first = formatDateTime(loopEvents[0].start_time);
+    const completed = loopEvents.filter(
+      (event) => event.status === "attended" || event.status === "ghosted"
+    ).length;
+    const candidateName =
+      loop?.candidate_name ?? loopEvents[0].candidate_name ?? "Candidate";
+
+    return [
+      <TableRow key={`loop-${loopId}`} className="bg-muted/50">
+        <TableCell colSpan={6}>
+          <button
+            type="button"
+            onClick={() => toggleLoop(loopId)}
+            aria-expanded={expanded}
+            aria-label={`${expanded ? "Collapse" : "Expand"} interview loop for ${candidateName}`}
+            className="flex w-full items-center gap-3 text-left"
+          >
+            {expanded ? (
+              <ChevronDownIcon className="h-4 w-4 text-muted-foreground" />
+            ) : (
+              <ChevronRightIcon className="h-4 w-4 text-muted-foreground" />
+            )}
+            <LayersIcon className="h-4 w-4 text-muted-foreground" />
+            <div className="space-y-1">
+              <div className="text-sm font-medium">
+                Interview loop · {candidateName}
+                {loop?.position && (
+                  <span className="text-muted-foreground"> · {loop.position}</span>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {first.date} · {loopEvents.length} interview
+                {loopEvents.length === 1 ? "" : "s"} · {completed} marked
+              </div>
+            </div>
+            {loop && (
+              <Badge variant="outline" className="ml-auto">
+                {loopStatusLabels[loop.status]}
+              </Badge>
+            )}
+          </button>
+        </TableCell>
+        <TableCell className="text-right">
+          {loop && canMarkAttendance && loop.status !== "cancelled" && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" aria-label="Loop actions">
+                  <MoreHorizontalIcon className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Loop</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+
+                <DropdownMenuItem onClick={() => onCancelLoop?.(loop)}>
+                  <XCircleIcon className="h-4 w-4 mr-2" />
+                  Cancel Loop
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </TableCell>
+      </TableRow>,
+      ...(expanded ? loopEvents.map((event) => renderEventRow(event, true)) : []),
+    ];
+  };
+
   return (
     <div className="space-y-4">
       <div className="flex flex-col sm:flex-row gap-4">
@@ -83,7 +392,7 @@ export function EventsTable({
           <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
 
           <Input
-            placeholder="Search by interviewer or skills..."
+            placeholder="Search by interviewer, candidate or skills..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-9"
@@ -132,10 +441,39 @@ export function EventsTable({
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Date & Time</TableHead>
-              <TableHead>Interviewer</TableHead>
+              <SortableTableHead
+                field="start_time"
+                sort={query?.sort}
+                order={query?.order}
+                onSort={sortBy}
+              >
+                Date & Time
+              </SortableTableHead>
+              <SortableTableHead
+                field="candidate_name"
+                sort={query?.sort}
+                order={query?.order}
+                onSort={sortBy}
+              >
+                Candidate
+              </SortableTableHead>
+              <SortableTableHead
+                field="interviewer_email"
+                sort={query?.sort}
+                order={query?.order}
+                onSort={sortBy}
+              >
+                Interviewer
+              </SortableTableHead>
               <TableHead>Skills Assessed</TableHead>
-              <TableHead>Status</TableHead>
+              <SortableTableHead
+                field="status"
+                sort={query?.sort}
+                order={query?.order}
+                onSort={sortBy}
+              >
+                Status
+              </SortableTableHead>
               <TableHead>Notes</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -144,112 +482,39 @@ export function EventsTable({
             {filteredEvents.length === 0 ? (
               <TableRow>
                 <TableCell
-                  colSpan={6}
+                  colSpan={7}
                   className="text-center text-muted-foreground py-8"
                 >
                   No events found
                 </TableCell>
               </TableRow>
             ) : (
-              filteredEvents.map((event) => {
-                const startDateTime = formatDateTime(event.start_time);
-                const endDateTime = formatDateTime(event.end_time);
-
-                return (
-                  <TableRow key={event.id}>
-                    <TableCell>
-                      <div className="space-y-1">
-                        <div className="flex items-center gap-2 text-sm font-medium">
-                          <CalendarIcon className="h-3 w-3 text-muted-foreground" />
-
-                          {startDateTime.date}
-                        </div>
-                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                          <ClockIcon className="h-3 w-3" />
-                          {startDateTime.time} - {endDateTime.time}
-                        </div>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      <div className="text-sm">{event.interviewer_email}</div>
-                    </TableCell>
-                    <TableCell>
-                      {event.skills_assessed &&
-                      event.skills_assessed.length > 0 ? (
-                        <div className="flex flex-wrap gap-1 max-w-xs">
-                          {event.skills_assessed.slice(0, 2).map((skill) => (
-                            <Badge
-                              key={skill}
-                              variant="secondary"
-                              className="text-xs"
-                            >
-                              {skill}
-                            </Badge>
-                          ))}
-                          {event.skills_assessed.length > 2 && (
-                            <Badge variant="secondary" className="text-xs">
-                              +{event.skills_assessed.length - 2}
-                            </Badge>
-                          )}
-                        </div>
-                      ) : (
-                        <span className="text-sm text-muted-foreground">-</span>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      <StatusBadge status={event.status} />
-                    </TableCell>
-                    <TableCell>
-                      {event.notes ? (
-                        <div
-                          className="text-sm max-w-xs truncate"
-                          title={event.notes}
-                        >
-                          {event.notes}
-                        </div>
-                      ) : (
-                        <span className="text-sm text-muted-foreground">-</span>
-                      )}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="sm">
-                            <MoreHorizontalIcon className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuLabel>Actions</DropdownMenuLabel>
-                          <DropdownMenuSeparator />
-
-                          <DropdownMenuItem
-                            onClick={() => onViewDetails?.(event)}
-                          >
-                            <CalendarIcon className="h-4 w-4 mr-2" />
-                            View Details
-                          </DropdownMenuItem>
-                          {canMarkAttendance && event.status === "pending" && (
-                            <DropdownMenuItem
-                              onClick={() => onMarkAttendance?.(event)}
-                            >
-                              <CheckCircle2Icon className="h-4 w-4 mr-2" />
-                              Mark Attendance
-                            </DropdownMenuItem>
-                          )}
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    </TableCell>
-                  </TableRow>
-                );
-              })
+              displayItems.map((item) =>
+                item.type === "event"
+                  ? renderEventRow(item.event)
+                  : renderLoopGroup(item.loopId, item.events)
+              )
             )}
           </TableBody>
         </Table>
       </div>
 
-      <div className="text-sm text-muted-foreground">
-        Showing {filteredEvents.length} of {events.length} events
-      </div>
+      {server && pagination ? (
+        <TablePagination
+          pagination={pagination}
+          itemLabel="events"
+          onPageChange={(offset) =>
+            server.onQueryChange({ ...server.query, offset })
+          }
+          onPageSizeChange={(limit) =>
+            server.onQueryChange({ ...server.query, limit, offset: 0 })
+          }
+        />
+      ) : (
+        <div className="text-sm text-muted-foreground">
+          Showing {filteredEvents.length} of {events.length} events
+        </div>
+      )}
     </div>
   );
 }
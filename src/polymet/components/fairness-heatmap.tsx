@@ -0,0 +1,137 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { db } from "@/polymet/data/database-service";
+import type { LoadHeatmap } from "@/polymet/data/database-service";
+
+/**
+ * Background class for a heatmap cell
+ * Intensity is relative to the interviewer's weekly cap, or to the busiest
+ * week on the board when no cap is set. Weeks at or over the cap are red.
+ */
+function getCellClassName(count: number, cap: number | null, maxCount: number) {
+  if (count === 0) return "bg-muted text-muted-foreground";
+  if (cap !== null && count >= cap) {
+    return "bg-red-500 text-white dark:bg-red-700";
+  }
+
+  const ratio = count / (cap ?? Math.max(maxCount, 1));
+  if (ratio > 0.75) return "bg-blue-600 text-white dark:bg-blue-500";
+  if (ratio > 0.5) return "bg-blue-400 text-white dark:bg-blue-600";
+  if (ratio > 0.25) return "bg-blue-200 text-blue-900 dark:bg-blue-800 dark:text-blue-100";
+  return "bg-blue-100 text-blue-900 dark:bg-blue-900 dark:text-blue-100";
+}
+
+/**
+ * Fairness heatmap
+ * Interviews per interviewer per week over the last N weeks
+ */
+export function FairnessHeatmap() {
+  const [weeks, setWeeks] = useState("8");
+  const [heatmap, setHeatmap] = useState<LoadHeatmap | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadHeatmap = async () => {
+      try {
+        setLoading(true);
+        setHeatmap(await db.getLoadHeatmap(Number(weeks)));
+      } catch (error) {
+        console.error("Failed to load interview load:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadHeatmap();
+  }, [weeks]);
+
+  const maxCount = Math.max(
+    0,
+    ...(heatmap?.data.flatMap((row) => row.counts) ?? [])
+  );
+
+  const formatWeek = (weekStart: string) =>
+    new Date(`${weekStart}T00:00:00`).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Interview Load</CardTitle>
+        <Select value={weeks} onValueChange={setWeeks}>
+          <SelectTrigger className="w-[160px]" aria-label="Number of weeks">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="4">Last 4 weeks</SelectItem>
+            <SelectItem value="8">Last 8 weeks</SelectItem>
+            <SelectItem value="12">Last 12 weeks</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading && !heatmap ? (
+          <p className="text-sm text-muted-foreground">Loading load data...</p>
+        ) : !heatmap || heatmap.data.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No interviewers found</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-separate border-spacing-1">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium text-muted-foreground">
+                    Interviewer
+                  </th>
+                  {heatmap.weeks.map((week) => (
+                    <th
+                      key={week}
+                      className="text-center font-medium text-muted-foreground whitespace-nowrap"
+                    >
+                      {formatWeek(week)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {heatmap.data.map((row) => (
+                  <tr key={row.interviewer_email}>
+                    <td className="whitespace-nowrap pr-2">
+                      {row.name}
+                      {row.max_interviews_per_week !== null && (
+                        <span className="text-xs text-muted-foreground ml-1">
+                          (cap {row.max_interviews_per_week})
+                        </span>
+                      )}
+                    </td>
+                    {row.counts.map((count, index) => (
+                      <td
+                        key={heatmap.weeks[index]}
+                        className={`text-center rounded w-12 h-8 ${getCellClassName(
+                          count,
+                          row.max_interviews_per_week,
+                          maxCount
+                        )}`}
+                        title={`${row.name}: ${count} interview${count === 1 ? "" : "s"} week of ${formatWeek(heatmap.weeks[index])}`}
+                      >
+                        {count}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SearchIcon, XIcon } from "lucide-react";
+import { db } from "@/polymet/data/database-service";
+import type {
+  InterviewerMatch,
+  SlotAvailability,
+} from "@/polymet/data/database-service";
+
+interface FindInterviewerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const availabilityConfig: Record<
+  SlotAvailability,
+  { label: string; className: string }
+> = {
+  available: {
+    label: "Available",
+    className:
+      "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200 border-green-200 dark:border-green-800",
+  },
+  unrestricted: {
+    label: "No schedule set",
+    className:
+      "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200 border-blue-200 dark:border-blue-800",
+  },
+  outside_window: {
+    label: "Outside hours",
+    className:
+      "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200 border-amber-200 dark:border-amber-800",
+  },
+  blackout: {
+    label: "Blackout",
+    className:
+      "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200 border-gray-200 dark:border-gray-700",
+  },
+  busy: {
+    label: "Busy",
+    className:
+      "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 border-red-200 dark:border-red-800",
+  },
+  capped: {
+    label: "At interview cap",
+    className:
+      "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200 border-red-200 dark:border-red-800",
+  },
+};
+
+/**
+ * Find Interviewer panel
+ * Ranks active interviewers for a slot by skill overlap, weekly load,
+ * ghost rate and availability (GET /api/interviewers/match)
+ */
+export function FindInterviewerDialog({
+  open,
+  onOpenChange,
+}: FindInterviewerDialogProps) {
+  const [skills, setSkills] = useState<string[]>([]);
+  const [skillInput, setSkillInput] = useState("");
+  const [date, setDate] = useState("");
+  const [time, setTime] = useState("10:00");
+  const [duration, setDuration] = useState("60");
+  const [matches, setMatches] = useState<InterviewerMatch[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) {
+      setMatches(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleAddSkill = () => {
+    if (skillInput.trim() && !skills.includes(skillInput.trim())) {
+      setSkills([...skills, skillInput.trim()]);
+      setSkillInput("");
+    }
+  };
+
+  const handleSearch = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const results = await db.findMatchingInterviewers({
+        skills,
+        start_time: new Date(`${date}T${time}`).toISOString(),
+        duration_minutes: Number(duration),
+      });
+      setMatches(results);
+    } catch (err) {
+      console.error("Failed to find interviewers:", err);
+      setError("Failed to find interviewers");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Find Interviewer</DialogTitle>
+          <DialogDescription>
+            Rank active interviewers by skills, weekly load, no-show rate and
+            availability for a time slot
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="match-skills">Required Skills</Label>
+            <div className="flex gap-2">
+              <Input
+                id="match-skills"
+                placeholder="Add a skill (e.g., React, Python)"
+                value={skillInput}
+                onChange={(e) => setSkillInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddSkill();
+                  }
+                }}
+              />
+
+              <Button type="button" variant="outline" onClick={handleAddSkill}>
+                Add
+              </Button>
+            </div>
+            {skills.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {skills.map((skill) => (
+                  <Badge key={skill} variant="secondary" className="gap-1">
+                    {skill}
+                    <button
+                      type="button"
+                      onClick={() => setSkills(skills.filter((s) => s !== skill))}
+                      aria-label={`Remove ${skill}`}
+                      className="ml-1 hover:bg-secondary-foreground/20 rounded-full"
+                    >
+                      <XIcon className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="match-date">Date</Label>
+              <Input
+                id="match-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-time">Start Time</Label>
+              <Input
+                id="match-time"
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="match-duration">Duration</Label>
+              <Select value={duration} onValueChange={setDuration}>
+                <SelectTrigger id="match-duration">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="30">30 minutes</SelectItem>
+                  <SelectItem value="45">45 minutes</SelectItem>
+                  <SelectItem value="60">1 hour</SelectItem>
+                  <SelectItem value="90">1.5 hours</SelectItem>
+                  <SelectItem value="120">2 hours</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleSearch}
+            disabled={!date || !time || loading}
+            className="w-full"
+          >
+            <SearchIcon className="h-4 w-4 mr-2" />
+            {loading ? "Searching..." : "Find Interviewers"}
+          </Button>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          {matches && matches.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No active interviewers match these skills
+            </p>
+          )}
+
+          {matches && matches.length > 0 && (
+            <div className="space-y-2 pt-2 border-t border-border">
+              {matches.map((match, index) => (
+                <div
+                  key={match.interviewer.id}
+                  className="flex items-start justify-between gap-4 rounded-md border border-border p-3"
+                >
+                  <div className="space-y-1">
+                    <div className="font-medium">
+                      {index + 1}. {match.interviewer.name}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {match.interviewer.email}
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {match.matched_skills.map((skill) => (
+                        <Badge key={skill} variant="secondary" className="text-xs">
+                          {skill}
+                        </Badge>
+                      ))}
+                      {match.missing_skills.map((skill) => (
+                        <Badge
+                          key={skill}
+                          variant="outline"
+                          className="text-xs text-muted-foreground line-through"
+                        >
+                          {skill}
+                        </Badge>
+                      ))}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {match.week_load} interview{match.week_load === 1 ? "" : "s"} this week
+                      {" · "}
+                      {match.ghost_rate === null
+                        ? "No marked interviews"
+                        : `${Math.round(match.ghost_rate * 100)}% no-show rate`}
+                    </div>
+                    {match.cap_warnings.map((warning) => (
+                      <div
+                        key={warning}
+                        className="text-xs text-yellow-600 dark:text-yellow-400"
+                      >
+                        {warning}
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex flex-col items-end gap-2">
+                    <div className="text-lg font-semibold">
+                      {Math.round(match.score * 100)}
+                    </div>
+                    <Badge
+                      variant="outline"
+                      className={availabilityConfig[match.availability].className}
+                    >
+                      {availabilityConfig[match.availability].label}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
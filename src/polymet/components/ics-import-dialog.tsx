@@ -0,0 +1,319 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangleIcon, UploadIcon } from "lucide-react";
+import { toast } from "sonner";
+import { db } from "@/polymet/data/database-service";
+import {
+  buildIcsImportPreview,
+  isIcsRowSelectedByDefault,
+  parseIcs,
+  type IcsImportRow,
+} from "@/lib/ics-utils";
+import { ApiError } from "@/lib/api-client";
+
+interface IcsImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  file: File | null;
+  onImported: () => void; // Called after at least one event was created
+}
+
+/**
+ * Preview and import interviews from an iCalendar (.ics) export
+ * Rows are proposed per roster interviewer found among the attendees;
+ * duplicates, cancelled entries and unmatched attendees are flagged and
+ * left unticked where they should not be imported
+ */
+export function IcsImportDialog({
+  open,
+  onOpenChange,
+  file,
+  onImported,
+}: IcsImportDialogProps) {
+  const [rows, setRows] = useState<IcsImportRow[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [failures, setFailures] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [parseError, setParseError] = useState("");
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (!open || !file) return;
+
+    const loadPreview = async () => {
+      setLoading(true);
+      setParseError("");
+      setFailures({});
+      try {
+        const { events, warnings } = parseIcs(await file.text());
+        const starts = events.map((event) => event.start).sort();
+        const [interviewers, existingEvents] = await Promise.all([
+          db.getInterviewers(),
+          events.length > 0
+            ? db.getInterviewEvents({
+                start_date: starts[0].slice(0, 10),
+                end_date: starts[starts.length - 1].slice(0, 10),
+              })
+            : Promise.resolve([]),
+        ]);
+        const preview = buildIcsImportPreview(events, interviewers, existingEvents);
+
+        setRows(preview);
+        setWarnings(warnings);
+        setSelected(
+          new Set(preview.filter(isIcsRowSelectedByDefault).map((row) => row.key))
+        );
+      } catch (error) {
+        console.error("Failed to read calendar file:", error);
+        setRows([]);
+        setWarnings([]);
+        setParseError(
+          error instanceof Error ? error.message : "Failed to read the calendar file"
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPreview();
+  }, [open, file]);
+
+  const toggleRow = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    const toImport = rows.filter((row) => row.event && selected.has(row.key));
+    if (toImport.length === 0) return;
+
+    setImporting(true);
+    const failed: Record<string, string> = {};
+    const imported = new Set<string>();
+
+    // One at a time so the server checks each against the ones before it
+    for (const row of toImport) {
+      try {
+        await db.createInterviewEvent(row.event!);
+        imported.add(row.key);
+      } catch (error) {
+        console.error("Failed to import calendar event:", error);
+        failed[row.key] =
+          error instanceof ApiError ? error.message : "Failed to create event";
+      }
+    }
+
+    setImporting(false);
+    setFailures(failed);
+    setRows((prev) => prev.filter((row) => !imported.has(row.key)));
+    setSelected((prev) => new Set([...prev].filter((key) => !imported.has(key))));
+
+    if (imported.size > 0) {
+      onImported();
+    }
+
+    const failedCount = Object.keys(failed).length;
+    if (failedCount === 0) {
+      toast.success(`Imported ${imported.size} interview${imported.size === 1 ? "" : "s"}`);
+      onOpenChange(false);
+    } else {
+      toast.error(
+        `Imported ${imported.size}, ${failedCount} failed. See the remaining rows for details.`
+      );
+    }
+  };
+
+  const selectedCount = rows.filter((row) => row.event && selected.has(row.key)).length;
+  const unmatchedCount = rows.filter((row) => !row.event).length;
+  const duplicateCount = rows.filter((row) => row.duplicate).length;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !importing && onOpenChange(isOpen)}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Import Calendar File</DialogTitle>
+          <DialogDescription>
+            {file?.name}: review the interviews before they are created.
+            Attendees are matched to interviewers by email.
+          </DialogDescription>
+        </DialogHeader>
+
+        {parseError ? (
+          <Alert variant="destructive">
+            <AlertTriangleIcon className="h-4 w-4" />
+            <AlertTitle>Could not read the file</AlertTitle>
+            <AlertDescription>{parseError}</AlertDescription>
+          </Alert>
+        ) : loading ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            Reading calendar...
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{rows.length} proposed</Badge>
+              {duplicateCount > 0 && (
+                <Badge variant="outline">{duplicateCount} duplicate</Badge>
+              )}
+              {unmatchedCount > 0 && (
+                <Badge variant="outline">{unmatchedCount} without interviewer</Badge>
+              )}
+            </div>
+
+            {warnings.length > 0 && (
+              <Alert>
+                <AlertTriangleIcon className="h-4 w-4" />
+                <AlertTitle>Some entries were skipped or shortened</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc list-inside text-xs">
+                    {warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="rounded-md border border-border max-h-[50vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>When</TableHead>
+                    <TableHead>Interviewer</TableHead>
+                    <TableHead>Candidate</TableHead>
+                    <TableHead>Flags</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                        Nothing left to import
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    rows.map((row) => (
+                      <TableRow key={row.key} className={row.event ? "" : "opacity-60"}>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4"
+                            checked={selected.has(row.key)}
+                            disabled={!row.event || importing}
+                            onChange={() => toggleRow(row.key)}
+                            aria-label={`Import ${row.source.summary || "event"} on ${new Date(row.source.start).toLocaleString()}`}
+                          />
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          <div>{new Date(row.source.start).toLocaleString()}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {Math.round(
+                              (Date.parse(row.source.end) - Date.parse(row.source.start)) / 60000
+                            )}{" "}
+                            min{row.source.occurrence !== null ? ", recurring" : ""}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {row.interviewerName ?? (
+                            <span className="text-muted-foreground">No match</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div>{row.event?.candidate_name ?? row.source.summary}</div>
+                          {row.event?.position && (
+                            <div className="text-xs text-muted-foreground">
+                              {row.event.position}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1 max-w-xs">
+                            {row.duplicate && (
+                              <Badge variant="outline" className="text-xs">
+                                {row.duplicate === "existing"
+                                  ? "Already scheduled"
+                                  : "Duplicate in file"}
+                              </Badge>
+                            )}
+                            {row.issues.map((issue) => (
+                              <Badge key={issue} variant="outline" className="text-xs">
+                                {issue}
+                              </Badge>
+                            ))}
+                            {row.unmatchedAttendees.length > 0 && (
+                              <Badge
+                                variant="secondary"
+                                className="text-xs"
+                                title={row.unmatchedAttendees
+                                  .map((attendee) => attendee.email)
+                                  .join(", ")}
+                              >
+                                {row.unmatchedAttendees.length} unmatched attendee
+                                {row.unmatchedAttendees.length === 1 ? "" : "s"}
+                              </Badge>
+                            )}
+                            {failures[row.key] && (
+                              <Badge variant="destructive" className="text-xs">
+                                {failures[row.key]}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={importing}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={loading || importing || selectedCount === 0}
+          >
+            <UploadIcon className="w-4 h-4 mr-2" />
+            {importing
+              ? "Importing..."
+              : `Import ${selectedCount} interview${selectedCount === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
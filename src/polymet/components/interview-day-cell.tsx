@@ -1,14 +1,24 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
-import { sortEventsByTime } from "@/lib/time-utils";
-import { InterviewStatusEntry } from "./interview-status-entry";
-import { PlusIcon } from "lucide-react";
+import type { TimeWindow, EventConflict } from "@/polymet/data/database-service";
+import {
+  sortEventsByTime,
+  extractTimeFromISO,
+  getEventDurationMinutes,
+  getOverlappingEventIds,
+} from "@/lib/time-utils";
+import { isWithinAvailability } from "@/lib/availability-utils";
+import { InterviewStatusEntry, INTERVIEW_DRAG_TYPE } from "./interview-status-entry";
+import { AvailabilityHoursStrip } from "./availability-hours-strip";
+import { PlusIcon, RepeatIcon, XIcon } from "lucide-react";
 
 interface InterviewDayCellProps {
   interviewerEmail: string;
   date: Date;
   events: InterviewEvent[]; // Already filtered for this interviewer + day
   onAddEntry: (interviewerEmail: string, date: Date) => Promise<void>;
+  onAddRecurring?: (interviewerEmail: string, date: Date) => void; // Opens the recurrence dialog
   onTimeChange: (eventId: string, newTime: string) => Promise<void>;
   onStatusChange: (
     eventId: string,
@@ -17,6 +27,19 @@ interface InterviewDayCellProps {
   onDelete: (eventId: string) => Promise<void>;
   canEdit: boolean; // Based on user role (talent or admin)
   isAdding?: boolean; // Loading state for add operation
+  availableWindows?: TimeWindow[] | null; // null/undefined = no schedule configured
+  conflicts?: EventConflict[]; // Clashes reported by the server for the last change
+  onDismissConflicts?: () => void;
+  onMoveEntry?: (eventId: string, interviewerEmail: string, date: Date) => void; // Drop or "Move here"
+  onStartMove?: (eventId: string) => void; // Picks an entry up for a keyboard move
+  movingEventId?: string | null; // Entry currently picked up, if any
+  timeZone?: string; // Zone times are shown and entered in (browser zone if unset)
+  secondaryTimeZone?: string; // Also shown in time tooltips
+  availabilityTimeZone?: string; // Zone of the availability windows (the interviewer's)
+  selectedEventIds?: Set<string>; // Bulk marking selection (across cells)
+  onToggleSelect?: (eventId: string) => void;
+  onNavigate?: (eventId: string, step: 1 | -1) => void; // Keyboard move to the previous/next entry
+  onBulkStatusChange?: (newStatus: InterviewEvent["status"]) => Promise<void>;
 }
 
 export function InterviewDayCell({
@@ -24,15 +47,62 @@ export function InterviewDayCell({
   date,
   events,
   onAddEntry,
+  onAddRecurring,
   onTimeChange,
   onStatusChange,
   onDelete,
   canEdit,
   isAdding = false,
+  availableWindows = null,
+  conflicts = [],
+  onDismissConflicts,
+  onMoveEntry,
+  onStartMove,
+  movingEventId = null,
+  timeZone,
+  secondaryTimeZone,
+  availabilityTimeZone,
+  selectedEventIds,
+  onToggleSelect,
+  onNavigate,
+  onBulkStatusChange,
 }: InterviewDayCellProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
   const sortedEvents = sortEventsByTime(events);
+  const conflictingIds = getOverlappingEventIds(events);
+  conflicts.forEach((conflict) => conflictingIds.add(conflict.id));
   const canAddMore = sortedEvents.length < 3;
   const hasEntries = sortedEvents.length > 0;
+  const isUnavailableDay = availableWindows !== null && availableWindows.length === 0;
+
+  // A picked-up entry can go to any other cell
+  const canReceiveMove =
+    canEdit &&
+    !!onMoveEntry &&
+    !!movingEventId &&
+    !events.some((event) => event.id === movingEventId);
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!canEdit || !onMoveEntry || !e.dataTransfer.types.includes(INTERVIEW_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "move";
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    // Ignore leaving into a child element
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragOver(false);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    setIsDragOver(false);
+    const eventId = e.dataTransfer.getData(INTERVIEW_DRAG_TYPE);
+    if (!eventId || !onMoveEntry) return;
+    e.preventDefault();
+    if (events.some((event) => event.id === eventId)) return; // Dropped on its own cell
+    onMoveEntry(eventId, interviewerEmail, date);
+  };
 
   const handleAddClick = () => {
     if (!canEdit || !canAddMore || isAdding) return;
@@ -40,7 +110,32 @@ export function InterviewDayCell({
   };
 
   return (
-    <div className="relative min-h-[100px] p-2 border-r border-b last:border-r-0 hover:bg-gray-50/50 transition-colors">
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className={`relative min-h-[100px] p-2 border-r border-b last:border-r-0 transition-colors ${
+        isDragOver
+          ? "bg-blue-100/70 outline-2 outline-dashed outline-blue-500 -outline-offset-2 dark:bg-blue-950/40"
+          : isUnavailableDay
+            ? "bg-gray-100/70 dark:bg-gray-900/40"
+            : "hover:bg-gray-50/50"
+      }`}
+    >
+      {/* Add Recurring Button (left of the add button) */}
+      {canEdit && canAddMore && onAddRecurring && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => onAddRecurring(interviewerEmail, date)}
+          disabled={isAdding}
+          className="absolute top-1 right-7 w-6 h-6 p-0 text-gray-400 hover:text-gray-700 hover:bg-gray-200"
+          title="Add recurring interview slot"
+        >
+          <RepeatIcon className="h-3.5 w-3.5" />
+        </Button>
+      )}
+
       {/* Add Button (top right corner) */}
       {canEdit && canAddMore && (
         <Button
@@ -70,15 +165,74 @@ export function InterviewDayCell({
               onStatusChange={onStatusChange}
               onDelete={onDelete}
               disabled={!canEdit}
+              outsideAvailability={
+                !isWithinAvailability(
+                  availableWindows,
+                  extractTimeFromISO(event.start_time, availabilityTimeZone),
+                  getEventDurationMinutes(event)
+                )
+              }
+              hasConflict={conflictingIds.has(event.id)}
+              onStartMove={onMoveEntry ? onStartMove : undefined}
+              isMoving={movingEventId === event.id}
+              timeZone={timeZone}
+              secondaryTimeZone={secondaryTimeZone}
+              isSelected={selectedEventIds?.has(event.id)}
+              onToggleSelect={onToggleSelect}
+              onNavigate={onNavigate}
+              onBulkStatusChange={onBulkStatusChange}
             />
           ))}
         </div>
       )}
 
+      {/* Keyboard move target */}
+      {canReceiveMove && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => movingEventId && onMoveEntry?.(movingEventId, interviewerEmail, date)}
+          className="mt-1 h-6 w-full text-xs border-dashed border-blue-400 text-blue-700"
+        >
+          Move here
+        </Button>
+      )}
+
+      {/* Server-reported conflicts for the last add/time change */}
+      {conflicts.length > 0 && (
+        <div
+          role="alert"
+          className="mt-1 rounded border border-red-200 bg-red-50 p-1 text-[11px] text-red-700 dark:border-red-800 dark:bg-red-950 dark:text-red-300"
+        >
+          <div className="flex items-start justify-between gap-1">
+            <span className="font-medium">Overlaps with:</span>
+            {onDismissConflicts && (
+              <button
+                type="button"
+                onClick={onDismissConflicts}
+                aria-label="Dismiss conflicts"
+                className="hover:text-red-900"
+              >
+                <XIcon className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+          {conflicts.map((conflict) => (
+            <div key={conflict.id}>
+              {extractTimeFromISO(conflict.start_time, timeZone)}–
+              {extractTimeFromISO(conflict.end_time, timeZone)}
+              {conflict.candidate_name ? ` ${conflict.candidate_name}` : ""}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Empty State */}
       {!hasEntries && (
         <div className="flex items-center justify-center h-full min-h-[80px]">
-          {canEdit ? (
+          {isUnavailableDay ? (
+            <div className="text-xs text-gray-400">Unavailable</div>
+          ) : canEdit ? (
             <div className="text-xs text-gray-400 text-center">
               {canAddMore && (
                 <span>Click + to add<br />interview slot</span>
@@ -92,6 +246,9 @@ export function InterviewDayCell({
         </div>
       )}
 
+      {/* Availability (shaded hours are outside the interviewer's windows) */}
+      <AvailabilityHoursStrip windows={availableWindows} />
+
       {/* Max Capacity Indicator */}
       {sortedEvents.length === 3 && canEdit && (
         <div className="mt-1 text-[10px] text-gray-400 text-center">
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
@@ -7,8 +7,13 @@ import {
   validateInterviewTime,
   getStatusDisplay,
 } from "@/lib/time-utils";
+import { formatTimeInZones } from "@/lib/time-zone-utils";
+import { getStatusForKey } from "@/lib/marking-utils";
 import { toast } from "sonner";
-import { Loader2 } from "lucide-react";
+import { GripVerticalIcon, Loader2, RepeatIcon } from "lucide-react";
+
+// dataTransfer type carrying the id of a dragged interview
+export const INTERVIEW_DRAG_TYPE = "application/x-interview-event-id";
 
 interface InterviewStatusEntryProps {
   event: InterviewEvent;
@@ -19,6 +24,16 @@ interface InterviewStatusEntryProps {
   ) => Promise<void>;
   onDelete: (eventId: string) => Promise<void>;
   disabled?: boolean;
+  outsideAvailability?: boolean; // Interview falls outside the interviewer's windows
+  hasConflict?: boolean; // Interview overlaps another interview
+  onStartMove?: (eventId: string) => void; // Keyboard move: pick the entry up, then choose a cell
+  isMoving?: boolean; // Entry is picked up for a keyboard move
+  timeZone?: string; // Zone the time is shown and entered in (browser zone if unset)
+  secondaryTimeZone?: string; // Also shown in the time tooltip
+  isSelected?: boolean; // Part of the bulk marking selection
+  onToggleSelect?: (eventId: string) => void; // Shows a selection checkbox
+  onNavigate?: (eventId: string, step: 1 | -1) => void; // Arrow keys: previous/next entry
+  onBulkStatusChange?: (newStatus: InterviewEvent["status"]) => Promise<void>; // Status keys on a selected entry
 }
 
 export function InterviewStatusEntry({
@@ -27,15 +42,30 @@ export function InterviewStatusEntry({
   onStatusChange,
   onDelete,
   disabled = false,
+  outsideAvailability = false,
+  hasConflict = false,
+  onStartMove,
+  isMoving = false,
+  timeZone,
+  secondaryTimeZone,
+  isSelected = false,
+  onToggleSelect,
+  onNavigate,
+  onBulkStatusChange,
 }: InterviewStatusEntryProps) {
-  const [time, setTime] = useState(extractTimeFromISO(event.start_time));
+  const [time, setTime] = useState(extractTimeFromISO(event.start_time, timeZone));
   const [isSaving, setIsSaving] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Re-read the time when the event moves or the display zone changes
+  useEffect(() => {
+    setTime(extractTimeFromISO(event.start_time, timeZone));
+  }, [event.start_time, timeZone]);
+
   const handleTimeBlur = async () => {
 
     // If time hasn't changed, do nothing
-    const currentTime = extractTimeFromISO(event.start_time);
+    const currentTime = extractTimeFromISO(event.start_time, timeZone);
     if (time === currentTime) {
       return;
     }
@@ -66,7 +96,7 @@ export function InterviewStatusEntry({
     if (e.key === "Enter") {
       e.currentTarget.blur(); // Trigger blur event to save
     } else if (e.key === "Escape") {
-      setTime(extractTimeFromISO(event.start_time)); // Revert
+      setTime(extractTimeFromISO(event.start_time, timeZone)); // Revert
       e.currentTarget.blur();
     }
   };
@@ -87,6 +117,34 @@ export function InterviewStatusEntry({
     }
   };
 
+  // Shortcuts on the focused row (not while typing a time):
+  // arrows move, Space/X selects, A/P/G/C set the status (of the whole
+  // selection when this entry is part of it)
+  const handleRowKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      onNavigate?.(event.id, e.key === "ArrowDown" ? 1 : -1);
+      return;
+    }
+
+    if (e.key === " " || e.key === "x") {
+      e.preventDefault();
+      if (!disabled) onToggleSelect?.(event.id);
+      return;
+    }
+
+    const status = getStatusForKey(e.key);
+    if (!status) return;
+    e.preventDefault();
+    if (isSelected && onBulkStatusChange) {
+      if (!disabled) onBulkStatusChange(status);
+    } else {
+      handleStatusClick(status);
+    }
+  };
+
   const handleDelete = async () => {
     if (disabled || isSaving || isDeleting) {
       return;
@@ -98,10 +156,22 @@ export function InterviewStatusEntry({
       // Success toast handled by parent component
     } catch {
       toast.error("Failed to delete entry");
+    } finally {
+      // Still mounted when the delete was cancelled or failed
       setIsDeleting(false);
     }
   };
 
+  const handleDragStart = (e: React.DragEvent<HTMLButtonElement>) => {
+    e.dataTransfer.setData(INTERVIEW_DRAG_TYPE, event.id);
+    e.dataTransfer.effectAllowed = "move";
+    // Drag the whole row, not just the handle
+    const row = e.currentTarget.parentElement;
+    if (row) e.dataTransfer.setDragImage(row, 0, 0);
+  };
+
+  const canMove = !!onStartMove && !disabled && !isSaving && !isDeleting;
+
   const statuses: Array<InterviewEvent["status"]> = [
     "attended",
     "pending",
@@ -110,7 +180,56 @@ export function InterviewStatusEntry({
   ];
 
   return (
-    <div className="flex items-center gap-2 py-1 px-1 border-b last:border-0 hover:bg-gray-50 transition-colors">
+    <div
+      data-event-entry={event.id}
+      tabIndex={0}
+      onKeyDown={handleRowKeyDown}
+      aria-selected={onToggleSelect ? isSelected : undefined}
+      className={`flex items-center gap-2 py-1 px-1 border-b last:border-0 hover:bg-gray-50 transition-colors focus-visible:outline-2 focus-visible:outline-blue-500 focus-visible:-outline-offset-2 ${
+        isMoving ? "ring-2 ring-blue-500 ring-inset bg-blue-50/60 " : ""
+      }${isSelected ? "bg-blue-50 " : ""}${
+        hasConflict
+          ? "border-l-2 border-l-red-500 bg-red-50/60"
+          : outsideAvailability
+            ? "border-l-2 border-l-amber-500"
+            : ""
+      }`}
+      title={
+        hasConflict
+          ? "Overlaps another interview"
+          : outsideAvailability
+            ? "Outside the interviewer's availability"
+            : undefined
+      }
+    >
+      {/* Bulk Selection */}
+      {onToggleSelect && !disabled && (
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={() => onToggleSelect(event.id)}
+          aria-label="Select interview for bulk marking"
+          className="h-3.5 w-3.5 shrink-0 accent-blue-600"
+        />
+      )}
+
+      {/* Move Handle (drag, or Enter/Space to move with the keyboard) */}
+      {onStartMove && !disabled && (
+        <button
+          type="button"
+          draggable={canMove}
+          onDragStart={handleDragStart}
+          onClick={() => canMove && onStartMove(event.id)}
+          disabled={!canMove}
+          aria-pressed={isMoving}
+          aria-label="Move interview: drag to another cell, or press Enter and choose Move here"
+          title="Drag to another day or interviewer"
+          className="shrink-0 cursor-grab text-gray-400 hover:text-gray-700 active:cursor-grabbing disabled:cursor-default disabled:opacity-50"
+        >
+          <GripVerticalIcon className="h-4 w-4" />
+        </button>
+      )}
+
       {/* Time Input */}
       <div className="relative">
         <Input
@@ -122,13 +241,24 @@ export function InterviewStatusEntry({
           disabled={disabled || isSaving || isDeleting}
           className="w-20 h-8 text-sm font-mono"
           placeholder="HH:MM"
-          title="Enter time in HH:MM format (09:00-20:00)"
+          title={
+            timeZone
+              ? `${formatTimeInZones(event.start_time, timeZone, secondaryTimeZone)}. Enter time in HH:MM format (09:00-20:00)`
+              : "Enter time in HH:MM format (09:00-20:00)"
+          }
         />
         {isSaving && (
           <Loader2 className="absolute right-2 top-2 h-4 w-4 animate-spin text-gray-400" />
         )}
       </div>
 
+      {event.series_id && (
+        <RepeatIcon
+          className="h-3 w-3 shrink-0 text-muted-foreground"
+          aria-label="Recurring interview"
+        />
+      )}
+
       {/* Status Buttons */}
       <div className="flex gap-1">
         {statuses.map((status) => {
@@ -10,6 +10,7 @@ import {
   CheckIcon,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { getOrgCalendarSettings, getWeekdayOrder } from "@/lib/calendar-utils";
 
 interface InterviewDay {
   date: string;
@@ -21,6 +22,7 @@ interface InterviewerAttendanceCalendarProps {
   interviewerEmail: string;
   initialData?: InterviewDay[];
   onSave?: (data: InterviewDay[]) => void;
+  readOnly?: boolean; // History only, no +/- or save
 }
 
 export function InterviewerAttendanceCalendar({
@@ -28,6 +30,7 @@ export function InterviewerAttendanceCalendar({
   interviewerEmail,
   initialData = [],
   onSave,
+  readOnly = false,
 }: InterviewerAttendanceCalendarProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [attendanceData, setAttendanceData] = useState<Map<string, number>>(
@@ -41,7 +44,9 @@ export function InterviewerAttendanceCalendar({
     const firstDay = new Date(year, month, 1);
     const lastDay = new Date(year, month + 1, 0);
     const daysInMonth = lastDay.getDate();
-    const startingDayOfWeek = firstDay.getDay();
+    // Blank cells before the 1st, counted from the org's first day of the week
+    const startingDayOfWeek =
+      (firstDay.getDay() - getOrgCalendarSettings().firstDayOfWeek + 7) % 7;
 
     return { daysInMonth, startingDayOfWeek, year, month };
   };
@@ -98,7 +103,10 @@ export function InterviewerAttendanceCalendar({
     setHasChanges(false);
   };
 
-  const weekDays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const weekDayNames = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+  const weekDays = getWeekdayOrder(getOrgCalendarSettings().firstDayOfWeek).map(
+    (day) => weekDayNames[day]
+  );
   const monthNames = [
     "January",
     "February",
@@ -205,26 +213,28 @@ export function InterviewerAttendanceCalendar({
                         <Badge variant="default" className="text-xs">
                           {count} {count === 1 ? "interview" : "interviews"}
                         </Badge>
-                        <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="h-6 w-6 p-0"
-                            onClick={() => decrementCount(dateStr)}
-                          >
-                            <MinusIcon className="h-3 w-3" />
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            className="h-6 w-6 p-0"
-                            onClick={() => incrementCount(dateStr)}
-                          >
-                            <PlusIcon className="h-3 w-3" />
-                          </Button>
-                        </div>
+                        {!readOnly && (
+                          <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-6 w-6 p-0"
+                              onClick={() => decrementCount(dateStr)}
+                            >
+                              <MinusIcon className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-6 w-6 p-0"
+                              onClick={() => incrementCount(dateStr)}
+                            >
+                              <PlusIcon className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
-                    ) : (
+                    ) : !readOnly && (
                       <div className="flex-1 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
                         <Button
                           size="sm"
@@ -244,7 +254,7 @@ export function InterviewerAttendanceCalendar({
         </div>
 
         {/* Save Button */}
-        {hasChanges && (
+        {hasChanges && !readOnly && (
           <div className="flex justify-end gap-2">
             <Button
               variant="outline"
@@ -0,0 +1,340 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PlusIcon, TrashIcon } from "lucide-react";
+import type {
+  InterviewerAvailability,
+  AvailabilityWindow,
+  AvailabilityOverride,
+  AvailabilityBlackout,
+} from "@/polymet/data/database-service";
+import type { Interviewer } from "@/polymet/data/mock-interviewers-data";
+
+type AvailabilityFormData = Pick<
+  InterviewerAvailability,
+  "weekly" | "overrides" | "blackouts"
+>;
+
+interface InterviewerAvailabilityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  interviewer: Interviewer | null;
+  availability: InterviewerAvailability | null;
+  onSubmit: (data: AvailabilityFormData) => void;
+}
+
+// Monday-first to match the weekly calendars
+const DAYS = [
+  { value: 1, label: "Monday" },
+  { value: 2, label: "Tuesday" },
+  { value: 3, label: "Wednesday" },
+  { value: 4, label: "Thursday" },
+  { value: 5, label: "Friday" },
+  { value: 6, label: "Saturday" },
+  { value: 0, label: "Sunday" },
+];
+
+const EMPTY_FORM: AvailabilityFormData = {
+  weekly: [],
+  overrides: [],
+  blackouts: [],
+};
+
+/**
+ * Availability editor for a single interviewer
+ * Weekly windows repeat every week, date overrides replace the weekly
+ * windows for one date, and blackouts mark whole days unavailable
+ * Times are in the interviewer's own timezone
+ */
+export function InterviewerAvailabilityDialog({
+  open,
+  onOpenChange,
+  interviewer,
+  availability,
+  onSubmit,
+}: InterviewerAvailabilityDialogProps) {
+  const [formData, setFormData] = useState<AvailabilityFormData>(EMPTY_FORM);
+
+  useEffect(() => {
+    if (availability) {
+      setFormData({
+        weekly: availability.weekly,
+        overrides: availability.overrides,
+        blackouts: availability.blackouts,
+      });
+    } else {
+      setFormData(EMPTY_FORM);
+    }
+  }, [availability, open]);
+
+  const updateWeekly = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setFormData({
+      ...formData,
+      weekly: formData.weekly.map((w, i) => (i === index ? { ...w, ...changes } : w)),
+    });
+  };
+
+  const updateOverride = (index: number, changes: Partial<AvailabilityOverride>) => {
+    setFormData({
+      ...formData,
+      overrides: formData.overrides.map((o, i) => (i === index ? { ...o, ...changes } : o)),
+    });
+  };
+
+  const updateBlackout = (index: number, changes: Partial<AvailabilityBlackout>) => {
+    setFormData({
+      ...formData,
+      blackouts: formData.blackouts.map((b, i) => (i === index ? { ...b, ...changes } : b)),
+    });
+  };
+
+  const hasInvalidRange =
+    [...formData.weekly, ...formData.overrides].some(
+      (w) => !w.start_time || !w.end_time || w.end_time <= w.start_time
+    ) ||
+    formData.overrides.some((o) => !o.date) ||
+    formData.blackouts.some(
+      (b) => !b.start_date || !b.end_date || b.end_date < b.start_date
+    );
+
+  const handleSubmit = () => {
+    onSubmit(formData);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Availability</DialogTitle>
+          <DialogDescription>
+            {interviewer
+              ? `Working windows for ${interviewer.name} (${interviewer.timezone}). Leave the weekly schedule empty for no restrictions.`
+              : "Working windows for this interviewer"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          {/* Weekly windows */}
+          <div className="space-y-3">
+            <Label>Weekly Schedule</Label>
+            {DAYS.map((day) => {
+              const dayWindows = formData.weekly
+                .map((window, index) => ({ window, index }))
+                .filter(({ window }) => window.day_of_week === day.value);
+
+              return (
+                <div key={day.value} className="flex items-start gap-3">
+                  <div className="w-24 pt-2 text-sm font-medium">{day.label}</div>
+                  <div className="flex-1 space-y-2">
+                    {dayWindows.length === 0 && (
+                      <p className="pt-2 text-sm text-muted-foreground">Unavailable</p>
+                    )}
+                    {dayWindows.map(({ window, index }) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <Input
+                          type="time"
+                          value={window.start_time}
+                          onChange={(e) => updateWeekly(index, { start_time: e.target.value })}
+                          aria-label={`${day.label} start time`}
+                          className="w-32"
+                        />
+                        <span className="text-muted-foreground">–</span>
+                        <Input
+                          type="time"
+                          value={window.end_time}
+                          onChange={(e) => updateWeekly(index, { end_time: e.target.value })}
+                          aria-label={`${day.label} end time`}
+                          className="w-32"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() =>
+                            setFormData({
+                              ...formData,
+                              weekly: formData.weekly.filter((_, i) => i !== index),
+                            })
+                          }
+                          aria-label={`Remove ${day.label} window`}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() =>
+                      setFormData({
+                        ...formData,
+                        weekly: [
+                          ...formData.weekly,
+                          { day_of_week: day.value, start_time: "09:00", end_time: "17:00" },
+                        ],
+                      })
+                    }
+                    aria-label={`Add ${day.label} window`}
+                  >
+                    <PlusIcon className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Date overrides */}
+          <div className="space-y-3 pt-4 border-t border-border">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Date Overrides</Label>
+                <p className="text-xs text-muted-foreground">
+                  Replace the weekly schedule on a specific date
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setFormData({
+                    ...formData,
+                    overrides: [
+                      ...formData.overrides,
+                      { date: "", start_time: "09:00", end_time: "17:00" },
+                    ],
+                  })
+                }
+              >
+                <PlusIcon className="h-4 w-4 mr-1" />
+                Add Override
+              </Button>
+            </div>
+            {formData.overrides.map((override, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={override.date}
+                  onChange={(e) => updateOverride(index, { date: e.target.value })}
+                  aria-label="Override date"
+                  className="w-40"
+                />
+                <Input
+                  type="time"
+                  value={override.start_time}
+                  onChange={(e) => updateOverride(index, { start_time: e.target.value })}
+                  aria-label="Override start time"
+                  className="w-32"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="time"
+                  value={override.end_time}
+                  onChange={(e) => updateOverride(index, { end_time: e.target.value })}
+                  aria-label="Override end time"
+                  className="w-32"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setFormData({
+                      ...formData,
+                      overrides: formData.overrides.filter((_, i) => i !== index),
+                    })
+                  }
+                  aria-label="Remove override"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          {/* Blackout dates */}
+          <div className="space-y-3 pt-4 border-t border-border">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label>Blackout Dates</Label>
+                <p className="text-xs text-muted-foreground">
+                  Vacation, PTO or other days with no interviews
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setFormData({
+                    ...formData,
+                    blackouts: [
+                      ...formData.blackouts,
+                      { start_date: "", end_date: "", reason: "" },
+                    ],
+                  })
+                }
+              >
+                <PlusIcon className="h-4 w-4 mr-1" />
+                Add Blackout
+              </Button>
+            </div>
+            {formData.blackouts.map((blackout, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="date"
+                  value={blackout.start_date}
+                  onChange={(e) => updateBlackout(index, { start_date: e.target.value })}
+                  aria-label="Blackout start date"
+                  className="w-40"
+                />
+                <span className="text-muted-foreground">–</span>
+                <Input
+                  type="date"
+                  value={blackout.end_date}
+                  onChange={(e) => updateBlackout(index, { end_date: e.target.value })}
+                  aria-label="Blackout end date"
+                  className="w-40"
+                />
+                <Input
+                  placeholder="Reason (optional)"
+                  value={blackout.reason ?? ""}
+                  onChange={(e) => updateBlackout(index, { reason: e.target.value })}
+                  aria-label="Blackout reason"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    setFormData({
+                      ...formData,
+                      blackouts: formData.blackouts.filter((_, i) => i !== index),
+                    })
+                  }
+                  aria-label="Remove blackout"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={hasInvalidRange}>
+            Save Availability
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,39 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangleIcon, ThumbsUpIcon } from "lucide-react";
+
+interface InterviewerResponseBadgeProps {
+  response?: "confirmed" | "conflict" | null;
+  note?: string | null; // Shown as the tooltip of a conflict
+}
+
+/**
+ * Interviewer's confirmation or conflict flag, nothing when they have not answered
+ */
+export function InterviewerResponseBadge({ response, note }: InterviewerResponseBadgeProps) {
+  if (response === "confirmed") {
+    return (
+      <Badge
+        variant="outline"
+        className="bg-blue-50 text-blue-800 dark:bg-blue-950 dark:text-blue-200 border-blue-200 dark:border-blue-800"
+      >
+        <ThumbsUpIcon className="w-3 h-3 mr-1" />
+        Confirmed
+      </Badge>
+    );
+  }
+
+  if (response === "conflict") {
+    return (
+      <Badge
+        variant="outline"
+        className="bg-orange-50 text-orange-800 dark:bg-orange-950 dark:text-orange-200 border-orange-200 dark:border-orange-800"
+        title={note ?? undefined}
+      >
+        <AlertTriangleIcon className="w-3 h-3 mr-1" />
+        Conflict
+      </Badge>
+    );
+  }
+
+  return null;
+}
@@ -1,4 +1,4 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import {
   Table,
   TableBody,
@@ -18,6 +18,8 @@ import {
   CalendarIcon,
   EditIcon,
   TrashIcon,
+  ClockIcon,
+  UserIcon,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -28,6 +30,17 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Interviewer } from "@/polymet/data/mock-interviewers-data";
+import type {
+  InterviewerListQuery,
+  Pagination,
+  ReliabilityList,
+} from "@/polymet/data/database-service";
+import { SortableTableHead } from "@/polymet/components/sortable-table-head";
+import { TablePagination } from "@/polymet/components/table-pagination";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { toggleSort } from "@/lib/pagination-utils";
+import { ReliabilityBadge } from "@/polymet/components/reliability-badge";
+import { toReliabilityMap } from "@/lib/reliability-utils";
 
 interface InterviewerTableProps {
   interviewers: Interviewer[];
@@ -36,6 +49,15 @@ interface InterviewerTableProps {
   onDelete?: (interviewer: Interviewer) => void;
   onToggleActive?: (interviewer: Interviewer) => void;
   onViewSchedule?: (interviewer: Interviewer) => void;
+  onEditAvailability?: (interviewer: Interviewer) => void;
+  onViewProfile?: (interviewer: Interviewer) => void;
+  // Adds a reliability column (score and "needs attention" flag)
+  reliability?: ReliabilityList;
+  // Server-side mode: search, role filter, sorting and paging go through
+  // the query and `interviewers` is the current page as returned
+  query?: InterviewerListQuery;
+  pagination?: Pagination;
+  onQueryChange?: (query: InterviewerListQuery) => void;
 }
 
 export function InterviewerTable({
@@ -45,12 +67,41 @@ export function InterviewerTable({
   onDelete,
   onToggleActive,
   onViewSchedule,
+  onEditAvailability,
+  onViewProfile,
+  reliability,
+  query,
+  pagination,
+  onQueryChange,
 }: InterviewerTableProps) {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [roleFilter, setRoleFilter] = useState<string>("all");
+  const server = query && onQueryChange ? { query, onQueryChange } : undefined;
+  const serverMode = !!server;
+  const [searchQuery, setSearchQuery] = useState(query?.search ?? "");
+  const [localRoleFilter, setLocalRoleFilter] = useState<string>("all");
+  const roleFilter = server ? server.query.role ?? "all" : localRoleFilter;
+  const debouncedSearch = useDebouncedValue(searchQuery);
+
+  useEffect(() => {
+    if (!query || !onQueryChange) return;
+    if ((query.search ?? "") === debouncedSearch) return;
+    onQueryChange({ ...query, search: debouncedSearch || undefined, offset: 0 });
+  }, [debouncedSearch, query, onQueryChange]);
+
+  const setRoleFilter = (role: string) => {
+    if (server) {
+      server.onQueryChange({
+        ...server.query,
+        role: role === "all" ? undefined : role,
+        offset: 0,
+      });
+    } else {
+      setLocalRoleFilter(role);
+    }
+  };
 
   // Memoize filtered interviewers to avoid re-filtering on every render
   const filteredInterviewers = useMemo(() => {
+    if (serverMode) return interviewers;
     return interviewers.filter((interviewer) => {
       const matchesSearch =
         interviewer.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -63,10 +114,16 @@ export function InterviewerTable({
 
       return matchesSearch && matchesRole;
     });
-  }, [interviewers, searchQuery, roleFilter]);
+  }, [interviewers, searchQuery, roleFilter, serverMode]);
+
+  const reliabilityByEmail = useMemo(
+    () => (reliability ? toReliabilityMap(reliability.data) : undefined),
+    [reliability]
+  );
 
   const canEdit = userRole === "admin" || userRole === "talent";
   const canDelete = userRole === "admin";
+  const columnCount = reliabilityByEmail ? 5 : 4;
 
   return (
     <div className="space-y-4">
@@ -117,8 +174,35 @@ export function InterviewerTable({
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Name</TableHead>
+              <SortableTableHead
+                field="name"
+                sort={query?.sort}
+                order={query?.order}
+                onSort={
+                  server
+                    ? (field) =>
+                        server.onQueryChange(toggleSort(server.query, field))
+                    : undefined
+                }
+              >
+                Name
+              </SortableTableHead>
               <TableHead>Skills</TableHead>
+              {reliabilityByEmail && (
+                <SortableTableHead
+                  field="reliability"
+                  sort={query?.sort}
+                  order={query?.order}
+                  onSort={
+                    server
+                      ? (field) =>
+                          server.onQueryChange(toggleSort(server.query, field))
+                      : undefined
+                  }
+                >
+                  Reliability
+                </SortableTableHead>
+              )}
               <TableHead>Status</TableHead>
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
@@ -127,7 +211,7 @@ export function InterviewerTable({
             {filteredInterviewers.length === 0 ? (
               <TableRow>
                 <TableCell
-                  colSpan={4}
+                  colSpan={columnCount}
                   className="text-center text-muted-foreground py-8"
                 >
                   No interviewers found
@@ -162,6 +246,14 @@ export function InterviewerTable({
                       )}
                     </div>
                   </TableCell>
+                  {reliabilityByEmail && reliability && (
+                    <TableCell>
+                      <ReliabilityBadge
+                        reliability={reliabilityByEmail[interviewer.email]}
+                        thresholds={reliability.thresholds}
+                      />
+                    </TableCell>
+                  )}
                   <TableCell>
                     <Badge
                       variant={interviewer.is_active ? "default" : "secondary"}
@@ -185,6 +277,14 @@ export function InterviewerTable({
                         <DropdownMenuLabel>Actions</DropdownMenuLabel>
                         <DropdownMenuSeparator />
 
+                        {onViewProfile && (
+                          <DropdownMenuItem
+                            onClick={() => onViewProfile(interviewer)}
+                          >
+                            <UserIcon className="h-4 w-4 mr-2" />
+                            View Profile
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem
                           onClick={() => onViewSchedule?.(interviewer)}
                         >
@@ -199,6 +299,12 @@ export function InterviewerTable({
                               <EditIcon className="h-4 w-4 mr-2" />
                               Edit Details
                             </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => onEditAvailability?.(interviewer)}
+                            >
+                              <ClockIcon className="h-4 w-4 mr-2" />
+                              Set Availability
+                            </DropdownMenuItem>
                             <DropdownMenuItem
                               onClick={() => onToggleActive?.(interviewer)}
                             >
@@ -239,10 +345,23 @@ export function InterviewerTable({
         </Table>
       </div>
 
-      <div className="text-sm text-muted-foreground">
-        Showing {filteredInterviewers.length} of {interviewers.length}{" "}
-        interviewers
-      </div>
+      {server && pagination ? (
+        <TablePagination
+          pagination={pagination}
+          itemLabel="interviewers"
+          onPageChange={(offset) =>
+            server.onQueryChange({ ...server.query, offset })
+          }
+          onPageSizeChange={(limit) =>
+            server.onQueryChange({ ...server.query, limit, offset: 0 })
+          }
+        />
+      ) : (
+        <div className="text-sm text-muted-foreground">
+          Showing {filteredInterviewers.length} of {interviewers.length}{" "}
+          interviewers
+        </div>
+      )}
     </div>
   );
 }
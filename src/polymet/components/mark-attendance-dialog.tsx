@@ -17,7 +17,12 @@ import { CheckCircle2Icon, XCircleIcon, BanIcon } from "lucide-react";
 interface MarkAttendanceDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  event: InterviewEvent | null;
+  // Only what the dialog shows, so overdue inbox rows can be marked too
+  event:
+    | (Pick<InterviewEvent, "id" | "interviewer_email" | "start_time"> & {
+        skills_assessed?: string[] | null;
+      })
+    | null;
   onSubmit: (
     eventId: string,
     status: "attended" | "ghosted" | "cancelled",
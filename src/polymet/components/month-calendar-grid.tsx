@@ -0,0 +1,117 @@
+import { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
+import {
+  extractTimeFromISO,
+  getStatusDisplay,
+  sortEventsByTime,
+} from "@/lib/time-utils";
+import { isSameDay } from "@/lib/calendar-utils";
+import { cn } from "@/lib/utils";
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const MAX_ENTRIES_PER_DAY = 4;
+
+interface MonthCalendarGridProps {
+  month: number; // 0-11, days outside it are dimmed
+  days: Date[]; // Visible days, whole weeks in display order
+  weekdays: number[]; // Weekday numbers shown as columns, in display order
+  getDayEvents: (date: Date) => InterviewEvent[]; // Events of the filtered interviewers on a day
+  getEventTimeZone: (event: InterviewEvent) => string; // Zone an event's time is shown in
+  getInterviewerName: (email: string) => string;
+  onSelectDay: (date: Date) => void; // Opens the day
+}
+
+/**
+ * Month view for the schedule calendars
+ * One cell per day listing the filtered interviewers' interviews;
+ * clicking a day opens it in the day view
+ */
+export function MonthCalendarGrid({
+  month,
+  days,
+  weekdays,
+  getDayEvents,
+  getEventTimeZone,
+  getInterviewerName,
+  onSelectDay,
+}: MonthCalendarGridProps) {
+  const today = new Date();
+
+  return (
+    <div className="border border-border rounded-lg overflow-hidden">
+      <div
+        className="grid bg-muted/50"
+        style={{ gridTemplateColumns: `repeat(${weekdays.length}, minmax(0, 1fr))` }}
+      >
+        {weekdays.map((weekday) => (
+          <div
+            key={weekday}
+            className="p-2 text-center text-sm font-semibold border-r border-border last:border-r-0"
+          >
+            {WEEKDAY_NAMES[weekday]}
+          </div>
+        ))}
+      </div>
+      <div
+        className="grid"
+        style={{ gridTemplateColumns: `repeat(${weekdays.length}, minmax(0, 1fr))` }}
+      >
+        {days.map((date) => {
+          const dayEvents = sortEventsByTime(getDayEvents(date));
+          const isOtherMonth = date.getMonth() !== month;
+
+          return (
+            <button
+              key={date.toISOString()}
+              type="button"
+              onClick={() => onSelectDay(date)}
+              aria-label={`${date.toLocaleDateString("en-US", {
+                weekday: "long",
+                month: "long",
+                day: "numeric",
+              })}, ${dayEvents.length} interview${dayEvents.length === 1 ? "" : "s"}`}
+              className={cn(
+                "min-h-[110px] border-r border-t border-border p-1.5 text-left align-top hover:bg-muted/40 transition-colors focus-visible:outline-2 focus-visible:outline-blue-500",
+                isOtherMonth && "bg-muted/30 text-muted-foreground",
+                isSameDay(date, today) && "bg-blue-50/50 dark:bg-blue-950/10"
+              )}
+            >
+              <div className="flex items-center justify-between text-xs font-medium mb-1">
+                <span>{date.getDate()}</span>
+                {dayEvents.length > 0 && (
+                  <span className="text-muted-foreground">{dayEvents.length}</span>
+                )}
+              </div>
+              <div className="space-y-0.5">
+                {dayEvents.slice(0, MAX_ENTRIES_PER_DAY).map((event) => {
+                  const display = getStatusDisplay(event.status);
+                  return (
+                    <div
+                      key={event.id}
+                      className="flex items-center gap-1 text-[11px] leading-tight truncate"
+                      title={`${display.fullLabel}: ${getInterviewerName(event.interviewer_email)}`}
+                    >
+                      <span
+                        className={cn("h-2 w-2 shrink-0 rounded-full", display.colorClass)}
+                      />
+                      <span className="font-mono">
+                        {extractTimeFromISO(event.start_time, getEventTimeZone(event))}
+                      </span>
+                      <span className="truncate">
+                        {getInterviewerName(event.interviewer_email)}
+                      </span>
+                    </div>
+                  );
+                })}
+                {dayEvents.length > MAX_ENTRIES_PER_DAY && (
+                  <div className="text-[11px] text-muted-foreground">
+                    +{dayEvents.length - MAX_ENTRIES_PER_DAY} more
+                  </div>
+                )}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
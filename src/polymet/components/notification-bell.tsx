@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { BellIcon, CheckCheckIcon } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { db } from "@/polymet/data/database-service";
+import type { AppNotification } from "@/polymet/data/database-service";
+
+// How often the unread count is refreshed while the menu is closed
+const POLL_INTERVAL_MS = 60 * 1000;
+const MENU_LIMIT = 20;
+
+/**
+ * Bell menu in the header
+ * Polls the unread count, loads the latest notifications when opened;
+ * clicking one marks it read and opens its link
+ */
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [unread, setUnread] = useState(0);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setUnread(await db.getUnreadNotificationCount());
+    } catch (error) {
+      // Quiet: the badge just keeps its last count until the next poll
+      console.error("Failed to refresh unread notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCount();
+    const timer = window.setInterval(refreshCount, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [refreshCount]);
+
+  const loadNotifications = async () => {
+    try {
+      setLoading(true);
+      const result = await db.getNotifications({ limit: MENU_LIMIT });
+      setNotifications(result.data);
+      setUnread(result.unread);
+    } catch (error) {
+      console.error("Failed to load notifications:", error);
+      toast.error("Failed to load notifications");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) loadNotifications();
+  };
+
+  const handleSelect = async (notification: AppNotification) => {
+    if (!notification.read_at) {
+      try {
+        const updated = await db.markNotificationRead(notification.id);
+        setNotifications((current) =>
+          current.map((item) => (item.id === updated.id ? updated : item))
+        );
+        setUnread((count) => Math.max(0, count - 1));
+      } catch (error) {
+        console.error("Failed to mark notification as read:", error);
+      }
+    }
+
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await db.markAllNotificationsRead();
+      const readAt = new Date().toISOString();
+      setNotifications((current) =>
+        current.map((item) => ({ ...item, read_at: item.read_at ?? readAt }))
+      );
+      setUnread(0);
+    } catch (error) {
+      console.error("Failed to mark notifications as read:", error);
+      toast.error("Failed to mark notifications as read");
+    }
+  };
+
+  return (
+    <DropdownMenu open={open} onOpenChange={handleOpenChange}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative"
+          aria-label={unread > 0 ? `Notifications (${unread} unread)` : "Notifications"}
+        >
+          <BellIcon className="h-5 w-5" />
+          {unread > 0 && (
+            <Badge className="absolute -top-1 -right-1 h-5 min-w-5 justify-center rounded-full px-1 text-[10px]">
+              {unread > 99 ? "99+" : unread}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            disabled={unread === 0}
+            onClick={handleMarkAllRead}
+          >
+            <CheckCheckIcon className="h-3.5 w-3.5 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+        <DropdownMenuSeparator />
+
+        {loading && notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">
+            Loading...
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You're all caught up
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex items-start gap-2 py-2"
+                onSelect={() => handleSelect(notification)}
+              >
+                <span
+                  className={cn(
+                    "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                    notification.read_at ? "bg-transparent" : "bg-primary"
+                  )}
+                />
+                <div className="min-w-0 space-y-0.5">
+                  <p
+                    className={cn(
+                      "text-sm leading-snug",
+                      !notification.read_at && "font-medium"
+                    )}
+                  >
+                    {notification.title}
+                  </p>
+                  {notification.body && (
+                    <p className="text-xs text-muted-foreground">{notification.body}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(`${notification.created_at.replace(" ", "T")}Z`).toLocaleString()}
+                  </p>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,210 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BellIcon, SendIcon } from "lucide-react";
+import { toast } from "sonner";
+import { db } from "@/polymet/data/database-service";
+import type {
+  NotificationDelivery,
+  NotificationPreferences,
+  NotificationType,
+} from "@/polymet/data/database-service";
+
+type PreferenceKey = Exclude<keyof NotificationPreferences, "updated_at">;
+
+const PREFERENCES: { key: PreferenceKey; label: string; description: string }[] = [
+  {
+    key: "no_show_alerts",
+    label: "No-Show Alerts",
+    description: "Email when an interview is marked as a no-show",
+  },
+  {
+    key: "daily_summary",
+    label: "Daily Summary",
+    description: "Send daily interview summary email",
+  },
+  {
+    key: "system_alerts",
+    label: "System Alerts",
+    description: "Email when interviews are escalated for not being marked",
+  },
+];
+
+const TYPE_LABELS: Record<NotificationType, string> = {
+  event_ghosted: "No-show",
+  daily_summary: "Daily summary",
+  marking_overdue: "Overdue marking",
+};
+
+/**
+ * Email notifications
+ * The switches are the signed-in user's own opt-ins; the delivery log and
+ * the manual daily summary are admin tools (this card sits on the admin-only
+ * Settings page)
+ */
+export function NotificationSettingsCard() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [deliveries, setDeliveries] = useState<NotificationDelivery[]>([]);
+  const [saving, setSaving] = useState<PreferenceKey | null>(null);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    loadPreferences();
+    loadDeliveries();
+  }, []);
+
+  const loadPreferences = async () => {
+    try {
+      setPreferences(await db.getNotificationPreferences());
+    } catch (error) {
+      console.error("Failed to load notification preferences:", error);
+      toast.error("Failed to load notification preferences");
+    }
+  };
+
+  const loadDeliveries = async () => {
+    try {
+      const page = await db.getNotificationDeliveries({ limit: 10 });
+      setDeliveries(page.data);
+    } catch (error) {
+      console.error("Failed to load notification deliveries:", error);
+    }
+  };
+
+  const handleToggle = async (key: PreferenceKey, checked: boolean) => {
+    setSaving(key);
+    try {
+      setPreferences(await db.updateNotificationPreferences({ [key]: checked }));
+    } catch (error) {
+      console.error("Failed to update notification preferences:", error);
+      toast.error("Failed to update notification preferences");
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const handleSendSummary = async () => {
+    setSending(true);
+    try {
+      const result = await db.sendDailySummary();
+      if (result.failed > 0) {
+        toast.error(`Daily summary failed for ${result.failed} recipient(s)`);
+      } else if (result.sent === 0) {
+        toast.info(
+          result.skipped > 0
+            ? `Everyone opted in already received the summary for ${result.date}`
+            : "Nobody is opted in to the daily summary"
+        );
+      } else {
+        toast.success(`Daily summary for ${result.date} sent to ${result.sent} recipient(s)`);
+      }
+      await loadDeliveries();
+    } catch (error) {
+      console.error("Failed to send daily summary:", error);
+      toast.error("Failed to send daily summary");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <BellIcon className="h-5 w-5" />
+
+          <CardTitle>Notifications</CardTitle>
+        </div>
+        <CardDescription>
+          Configure email notifications for system events
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {PREFERENCES.map((preference) => (
+          <div key={preference.key} className="flex items-center justify-between">
+            <div className="space-y-0.5">
+              <Label htmlFor={`notify-${preference.key}`}>{preference.label}</Label>
+              <p className="text-xs text-muted-foreground">
+                {preference.description}
+              </p>
+            </div>
+            <Switch
+              id={`notify-${preference.key}`}
+              checked={preferences?.[preference.key] ?? false}
+              onCheckedChange={(checked) => handleToggle(preference.key, checked)}
+              disabled={!preferences || saving !== null}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <Label>Recent Deliveries</Label>
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                      No notifications sent yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="text-sm">
+                        {new Date(`${delivery.created_at.replace(" ", "T")}Z`).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-sm" title={delivery.subject}>
+                        {TYPE_LABELS[delivery.type]}
+                      </TableCell>
+                      <TableCell className="text-sm">{delivery.recipient}</TableCell>
+                      <TableCell>
+                        {delivery.status === "failed" ? (
+                          <Badge variant="destructive" title={delivery.error ?? undefined}>
+                            Failed
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary">Sent</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <Button variant="outline" onClick={handleSendSummary} disabled={sending}>
+          <SendIcon className="h-4 w-4 mr-2" />
+          {sending ? "Sending..." : "Send Daily Summary Now"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
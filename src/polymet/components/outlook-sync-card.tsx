@@ -0,0 +1,254 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CalendarIcon, RefreshCwIcon } from "lucide-react";
+import { toast } from "sonner";
+import { db } from "@/polymet/data/database-service";
+import type {
+  CalendarSyncResult,
+  CalendarSyncStatus,
+} from "@/polymet/data/database-service";
+import { ApiError } from "@/lib/api-client";
+
+/**
+ * Outlook 365 calendar sync (read-only, Outlook → roster)
+ * Credentials live in the server environment; this card shows whether the
+ * sync is configured, the state per interviewer, and runs it on demand
+ */
+export function OutlookSyncCard() {
+  const [status, setStatus] = useState<CalendarSyncStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState<string | null>(null); // "all" or an interviewer email
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setLoading(true);
+      setStatus(await db.getCalendarSyncStatus());
+    } catch (error) {
+      console.error("Failed to load calendar sync status:", error);
+      toast.error("Failed to load calendar sync status");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSync = async (interviewerEmail?: string, full = false) => {
+    setSyncing(interviewerEmail ?? "all");
+    try {
+      const results = await db.runCalendarSync({ interviewerEmail, full });
+      reportResults(results);
+      await loadStatus();
+    } catch (error) {
+      console.error("Failed to run calendar sync:", error);
+      toast.error(
+        error instanceof ApiError && [400, 409, 503].includes(error.status)
+          ? error.message
+          : "Failed to run calendar sync"
+      );
+    } finally {
+      setSyncing(null);
+    }
+  };
+
+  const syncedInterviewers =
+    status?.interviewers.filter((interviewer) => interviewer.calendar_sync_enabled) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <CalendarIcon className="h-5 w-5" />
+
+            <CardTitle>Outlook 365 Calendar Integration</CardTitle>
+          </div>
+          {status && (
+            <Badge variant={status.configured ? "default" : "outline"}>
+              {status.configured ? "Connected" : "Not configured"}
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          Read interviews from interviewer Outlook calendars for automatic
+          interview tracking
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+          <p className="text-sm text-blue-900 dark:text-blue-100 font-medium mb-1">
+            📖 Read-Only Integration
+          </p>
+          <p className="text-xs text-blue-700 dark:text-blue-300">
+            Calendar entries with "interview" in the subject are imported as
+            pending interviews; moves and cancellations follow on the next
+            sync. It will NOT schedule interviews or modify calendar entries.
+          </p>
+        </div>
+
+        {status && !status.configured && (
+          <p className="text-sm text-muted-foreground">
+            Set <code>AZURE_TENANT_ID</code>, <code>AZURE_CLIENT_ID</code> and{" "}
+            <code>AZURE_CLIENT_SECRET</code> in the server environment (Azure AD
+            app with the Calendars.Read application permission), then restart
+            the API.
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Auto-sync Calendar Events</Label>
+            <p className="text-xs text-muted-foreground">
+              {status && status.interval_minutes > 0
+                ? `Automatically read events every ${status.interval_minutes} minutes`
+                : "Manual sync only (CALENDAR_SYNC_INTERVAL_MINUTES=0)"}
+            </p>
+          </div>
+          <Switch
+            checked={!!status?.configured && status.interval_minutes > 0}
+            disabled
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>Import Availability Status</Label>
+            <p className="text-xs text-muted-foreground">
+              Read free/busy status from shared Outlook calendars
+            </p>
+          </div>
+          <Switch defaultChecked />
+        </div>
+
+        <div className="rounded-md border border-border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Interviewer</TableHead>
+                <TableHead>Last Synced</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Imported</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading && !status ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                    Loading sync status...
+                  </TableCell>
+                </TableRow>
+              ) : syncedInterviewers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                    No interviewers have calendar sync enabled
+                  </TableCell>
+                </TableRow>
+              ) : (
+                syncedInterviewers.map((interviewer) => (
+                  <TableRow key={interviewer.interviewer_email}>
+                    <TableCell>
+                      <div className="font-medium">{interviewer.interviewer_name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {interviewer.interviewer_email}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {interviewer.last_synced_at
+                        ? new Date(interviewer.last_synced_at).toLocaleString()
+                        : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      {interviewer.last_status === "error" ? (
+                        <Badge
+                          variant="destructive"
+                          title={interviewer.last_error ?? undefined}
+                        >
+                          Failed
+                        </Badge>
+                      ) : interviewer.last_status === "ok" ? (
+                        <Badge variant="secondary">OK</Badge>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">-</span>
+                      )}
+                      {!interviewer.is_active && (
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          Inactive, skipped
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {interviewer.events_created} new, {interviewer.events_updated}{" "}
+                      updated, {interviewer.events_cancelled} cancelled
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleSync(interviewer.interviewer_email, true)}
+                        disabled={!status?.configured || syncing !== null}
+                        title="Re-read the whole sync window"
+                      >
+                        {syncing === interviewer.interviewer_email
+                          ? "Syncing..."
+                          : "Full resync"}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Button
+          onClick={() => handleSync()}
+          disabled={!status?.configured || syncing !== null}
+        >
+          <RefreshCwIcon
+            className={`h-4 w-4 mr-2 ${syncing === "all" ? "animate-spin" : ""}`}
+          />
+          {syncing === "all" ? "Syncing..." : "Sync Now"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+function reportResults(results: CalendarSyncResult[]) {
+  const failed = results.filter((result) => result.status === "error");
+  const imported = results.reduce((sum, result) => sum + (result.created ?? 0), 0);
+  const changed = results.reduce(
+    (sum, result) => sum + (result.updated ?? 0) + (result.cancelled ?? 0),
+    0
+  );
+
+  if (failed.length > 0) {
+    toast.error(
+      `Sync failed for ${failed.map((result) => result.interviewer_email).join(", ")}`
+    );
+  } else if (results.length === 0) {
+    toast.info("No interviewers have calendar sync enabled");
+  } else {
+    toast.success(`Calendar sync complete: ${imported} imported, ${changed} updated`);
+  }
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { XIcon } from "lucide-react";
+import type { Position, PositionInput } from "@/polymet/data/database-service";
+
+interface PositionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  position?: Position | null;
+  onSubmit: (data: PositionInput) => void;
+}
+
+const EMPTY_FORM = {
+  title: "",
+  department: "",
+  hiring_manager_email: "",
+  required_skills: [] as string[],
+  isOpen: true,
+};
+
+/**
+ * Add / edit position dialog
+ * Empty optional fields are left out of the submitted data
+ */
+export function PositionDialog({
+  open,
+  onOpenChange,
+  position,
+  onSubmit,
+}: PositionDialogProps) {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [skillInput, setSkillInput] = useState("");
+
+  useEffect(() => {
+    if (position) {
+      setFormData({
+        title: position.title,
+        department: position.department ?? "",
+        hiring_manager_email: position.hiring_manager_email ?? "",
+        required_skills: position.required_skills,
+        isOpen: position.status === "open",
+      });
+    } else {
+      setFormData(EMPTY_FORM);
+    }
+    setSkillInput("");
+  }, [position, open]);
+
+  const handleAddSkill = () => {
+    const skill = skillInput.trim();
+    if (skill && !formData.required_skills.includes(skill)) {
+      setFormData({
+        ...formData,
+        required_skills: [...formData.required_skills, skill],
+      });
+    }
+    setSkillInput("");
+  };
+
+  const handleSubmit = () => {
+    const data: PositionInput = {
+      title: formData.title.trim(),
+      required_skills: formData.required_skills,
+      status: formData.isOpen ? "open" : "closed",
+    };
+    if (formData.department.trim()) data.department = formData.department.trim();
+    if (formData.hiring_manager_email.trim()) {
+      data.hiring_manager_email = formData.hiring_manager_email.trim();
+    }
+    onSubmit(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{position ? "Edit Position" : "Add Position"}</DialogTitle>
+          <DialogDescription>
+            {position
+              ? "Renaming a position also renames it on its interviews"
+              : "Add a role to the catalogue so interviews can reference it"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="position-title">Title</Label>
+            <Input
+              id="position-title"
+              placeholder="e.g., Senior Frontend Engineer"
+              value={formData.title}
+              onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="position-department">Department</Label>
+              <Input
+                id="position-department"
+                placeholder="e.g., Engineering"
+                value={formData.department}
+                onChange={(e) =>
+                  setFormData({ ...formData, department: e.target.value })
+                }
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="position-manager">Hiring Manager</Label>
+              <Input
+                id="position-manager"
+                type="email"
+                placeholder="manager@company.com"
+                value={formData.hiring_manager_email}
+                onChange={(e) =>
+                  setFormData({ ...formData, hiring_manager_email: e.target.value })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="position-skills">Required Skills</Label>
+            <div className="flex gap-2">
+              <Input
+                id="position-skills"
+                placeholder="Add a skill (e.g., React, Python)"
+                value={skillInput}
+                onChange={(e) => setSkillInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddSkill();
+                  }
+                }}
+              />
+
+              <Button type="button" onClick={handleAddSkill}>
+                Add
+              </Button>
+            </div>
+            {formData.required_skills.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {formData.required_skills.map((skill) => (
+                  <Badge key={skill} variant="secondary" className="gap-1">
+                    {skill}
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setFormData({
+                          ...formData,
+                          required_skills: formData.required_skills.filter(
+                            (s) => s !== skill
+                          ),
+                        })
+                      }
+                      aria-label={`Remove ${skill}`}
+                      className="ml-1 hover:bg-secondary-foreground/20 rounded-full"
+                    >
+                      <XIcon className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between pt-4 border-t border-border">
+            <div>
+              <Label htmlFor="position-open">Open</Label>
+              <p className="text-xs text-muted-foreground">
+                Closed positions accept no new interviews
+              </p>
+            </div>
+            <Switch
+              id="position-open"
+              checked={formData.isOpen}
+              onCheckedChange={(checked) =>
+                setFormData({ ...formData, isOpen: checked })
+              }
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!formData.title.trim()}>
+            {position ? "Save Changes" : "Add Position"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,11 +1,22 @@
 import { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
-import { sortEventsByTime } from "@/lib/time-utils";
+import type { TimeWindow } from "@/polymet/data/database-service";
+import {
+  sortEventsByTime,
+  extractTimeFromISO,
+  getEventDurationMinutes,
+} from "@/lib/time-utils";
+import { isWithinAvailability } from "@/lib/availability-utils";
 import { ReadOnlyInterviewStatusEntry } from "./readonly-interview-status-entry";
+import { AvailabilityHoursStrip } from "./availability-hours-strip";
 
 interface ReadOnlyInterviewDayCellProps {
   interviewerEmail: string;
   date: Date;
   events: InterviewEvent[]; // Already filtered for this interviewer + day
+  availableWindows?: TimeWindow[] | null; // null/undefined = no schedule configured
+  timeZone?: string; // Zone times are shown in (browser zone if unset)
+  secondaryTimeZone?: string; // Also shown in time tooltips
+  availabilityTimeZone?: string; // Zone of the availability windows (the interviewer's)
 }
 
 /**
@@ -15,17 +26,38 @@ interface ReadOnlyInterviewDayCellProps {
  */
 export function ReadOnlyInterviewDayCell({
   events,
+  availableWindows = null,
+  timeZone,
+  secondaryTimeZone,
+  availabilityTimeZone,
 }: ReadOnlyInterviewDayCellProps) {
   const sortedEvents = sortEventsByTime(events);
   const hasEntries = sortedEvents.length > 0;
+  const isUnavailableDay = availableWindows !== null && availableWindows.length === 0;
 
   return (
-    <div className="relative min-h-[100px] p-2 border-r border-b last:border-r-0">
+    <div
+      className={`relative min-h-[100px] p-2 border-r border-b last:border-r-0 ${
+        isUnavailableDay ? "bg-gray-100/70 dark:bg-gray-900/40" : ""
+      }`}
+    >
       {/* Entry Rows */}
       {hasEntries && (
         <div className="space-y-1 mt-1">
           {sortedEvents.map((event) => (
-            <ReadOnlyInterviewStatusEntry key={event.id} event={event} />
+            <ReadOnlyInterviewStatusEntry
+              key={event.id}
+              event={event}
+              timeZone={timeZone}
+              secondaryTimeZone={secondaryTimeZone}
+              outsideAvailability={
+                !isWithinAvailability(
+                  availableWindows,
+                  extractTimeFromISO(event.start_time, availabilityTimeZone),
+                  getEventDurationMinutes(event)
+                )
+              }
+            />
           ))}
         </div>
       )}
@@ -33,9 +65,14 @@ export function ReadOnlyInterviewDayCell({
       {/* Empty State */}
       {!hasEntries && (
         <div className="flex items-center justify-center h-full min-h-[80px]">
-          <div className="text-xs text-gray-400">No interviews</div>
+          <div className="text-xs text-gray-400">
+            {isUnavailableDay ? "Unavailable" : "No interviews"}
+          </div>
         </div>
       )}
+
+      {/* Availability (shaded hours are outside the interviewer's windows) */}
+      <AvailabilityHoursStrip windows={availableWindows} />
     </div>
   );
 }
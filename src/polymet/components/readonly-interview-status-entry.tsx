@@ -1,9 +1,13 @@
 import { Button } from "@/components/ui/button";
 import { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
 import { extractTimeFromISO, getStatusDisplay } from "@/lib/time-utils";
+import { formatTimeInZones } from "@/lib/time-zone-utils";
 
 interface ReadOnlyInterviewStatusEntryProps {
   event: InterviewEvent;
+  outsideAvailability?: boolean; // Interview falls outside the interviewer's windows
+  timeZone?: string; // Zone the time is shown in (browser zone if unset)
+  secondaryTimeZone?: string; // Also shown in the time tooltip
 }
 
 /**
@@ -13,8 +17,11 @@ interface ReadOnlyInterviewStatusEntryProps {
  */
 export function ReadOnlyInterviewStatusEntry({
   event,
+  outsideAvailability = false,
+  timeZone,
+  secondaryTimeZone,
 }: ReadOnlyInterviewStatusEntryProps) {
-  const time = extractTimeFromISO(event.start_time);
+  const time = extractTimeFromISO(event.start_time, timeZone);
   const statuses: Array<InterviewEvent["status"]> = [
     "attended",
     "pending",
@@ -23,9 +30,19 @@ export function ReadOnlyInterviewStatusEntry({
   ];
 
   return (
-    <div className="flex items-center gap-2 py-1 px-1 border-b last:border-0">
+    <div
+      className={`flex items-center gap-2 py-1 px-1 border-b last:border-0 ${
+        outsideAvailability ? "border-l-2 border-l-amber-500" : ""
+      }`}
+      title={outsideAvailability ? "Outside the interviewer's availability" : undefined}
+    >
       {/* Time Display (text, not input) */}
-      <span className="w-20 text-sm font-mono text-gray-700">{time}</span>
+      <span
+        className="w-20 text-sm font-mono text-gray-700"
+        title={timeZone ? formatTimeInZones(event.start_time, timeZone, secondaryTimeZone) : undefined}
+      >
+        {time}
+      </span>
 
       {/* Status Buttons (disabled, non-interactive) */}
       <div className="flex gap-1">
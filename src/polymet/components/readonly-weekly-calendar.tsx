@@ -8,14 +8,31 @@ import {
   InterviewEvent,
 } from "@/polymet/data/mock-interview-events-data";
 import { db } from "@/polymet/data/database-service";
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import type { InterviewerAvailability } from "@/polymet/data/database-service";
+import { resolveAvailabilityForDate, toDateKey } from "@/lib/availability-utils";
+import { toEventRow } from "@/lib/row-utils";
+import {
+  getSecondaryTimeZone,
+  getZonedParts,
+  resolveTimeZone,
+  type TimeZoneMode,
+} from "@/lib/time-zone-utils";
 import {
-  ChevronLeftIcon,
-  ChevronRightIcon,
-  CalendarIcon,
-  SearchIcon,
-} from "lucide-react";
+  getOrgCalendarSettings,
+  getVisibleDays,
+  getLoadRange,
+  getWeekdayOrder,
+  formatViewRange,
+  isSameDay,
+  shiftAnchor,
+  shiftDay,
+  type CalendarView,
+} from "@/lib/calendar-utils";
+import { TimeZoneModeSelect } from "./time-zone-mode-select";
+import { CalendarToolbar } from "./calendar-toolbar";
+import { MonthCalendarGrid } from "./month-calendar-grid";
+import { Input } from "@/components/ui/input";
+import { SearchIcon } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ReadOnlyInterviewDayCell } from "./readonly-interview-day-cell";
 import { toast } from "sonner";
@@ -26,56 +43,62 @@ interface ReadOnlyWeeklyCalendarProps {
 }
 
 /**
- * Read-only weekly calendar for viewing interview schedules
- * Displays Mon-Fri schedule with time-slotted interviews
+ * Read-only calendar for viewing interview schedules
+ * Day, week (work days or full week) and month views of time-slotted interviews
+ * Shades hours outside each interviewer's availability windows
  * Includes search and week navigation, but no editing capabilities
  */
 export function ReadOnlyWeeklyCalendar({
   interviewers = mockInterviewers,
   events = mockInterviewEvents,
 }: ReadOnlyWeeklyCalendarProps) {
-  const [currentWeekStart, setCurrentWeekStart] = useState(() => {
+  // Org settings: first day of the week and work days
+  const calendarSettings = getOrgCalendarSettings();
+  const [view, setView] = useState<CalendarView>("week");
+  const [showWeekends, setShowWeekends] = useState(false);
+  const [anchorDate, setAnchorDate] = useState(() => {
     const today = new Date();
-    const day = today.getDay();
-    const diff = day === 0 ? -6 : 1 - day; // Get Monday
-    const monday = new Date(today);
-    monday.setDate(today.getDate() + diff);
-    monday.setHours(0, 0, 0, 0);
-    return monday;
+    today.setHours(0, 0, 0, 0);
+    return today;
   });
 
   // Local state for events - load fresh data when needed
   const [localEvents, setLocalEvents] = useState<InterviewEvent[]>(events);
+  const [availabilityByEmail, setAvailabilityByEmail] = useState<
+    Record<string, InterviewerAvailability>
+  >({});
   const [searchQuery, setSearchQuery] = useState<string>("");
+  // Zone each row is shown in (times are stored in UTC)
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>("viewer");
   const initializedRef = useRef(false);
-  const currentWeekRef = useRef(currentWeekStart.toISOString());
 
-  // Get the 5 weekdays (Mon-Fri)
-  const weekDays = Array.from({ length: 5 }, (_, i) => {
-    const date = new Date(currentWeekStart);
-    date.setDate(currentWeekStart.getDate() + i);
-    return date;
-  });
+  // Days of the current view (day, work week / full week, or month grid)
+  const visibleDays = getVisibleDays(anchorDate, view, calendarSettings, showWeekends);
+  const { start_date: loadStart, end_date: loadEnd } = getLoadRange(visibleDays);
+  const loadRangeKey = `${loadStart}/${loadEnd}`;
+  const currentRangeRef = useRef(loadRangeKey);
 
-  // Helper function to filter events by day
+  // Zone a row is displayed in
+  const getRowTimeZone = (interviewerEmail: string) =>
+    resolveTimeZone(
+      timeZoneMode,
+      interviewers.find((i) => i.email === interviewerEmail)?.timezone
+    );
+
+  // Helper function to filter events by day (calendar days in the row's zone)
   const filterEventsByDay = (
     allEvents: InterviewEvent[],
     interviewerEmail: string,
     date: Date
   ) => {
-    const dayStart = new Date(date);
-    dayStart.setHours(0, 0, 0, 0);
-    const dayEnd = new Date(date);
-    dayEnd.setHours(23, 59, 59, 999);
+    const dateKey = toDateKey(date);
+    const timeZone = getRowTimeZone(interviewerEmail);
 
-    return allEvents.filter((event) => {
-      const eventDate = new Date(event.start_time);
-      return (
+    return allEvents.filter(
+      (event) =>
         event.interviewer_email === interviewerEmail &&
-        eventDate >= dayStart &&
-        eventDate <= dayEnd
-      );
-    });
+        getZonedParts(event.start_time, timeZone).date === dateKey
+    );
   };
 
   // Format date for display
@@ -86,22 +109,24 @@ export function ReadOnlyWeeklyCalendar({
     });
   };
 
-  // Load events ONLY on initial load or week change
+  // Load events ONLY on initial load or when the shown range changes
   useEffect(() => {
-    const weekString = currentWeekStart.toISOString();
-    const weekChanged = currentWeekRef.current !== weekString;
+    const rangeChanged = currentRangeRef.current !== loadRangeKey;
 
     // Only reload if:
     // 1. First time loading (not initialized)
-    // 2. Week changed
-    if (!initializedRef.current || weekChanged) {
+    // 2. Shown range changed (navigation or view switch)
+    if (!initializedRef.current || rangeChanged) {
       const loadEvents = async () => {
         try {
           // Load fresh events from database
-          const freshEvents = await db.getInterviewEvents();
-          setLocalEvents(freshEvents);
+          const freshEvents = await db.getInterviewEvents({
+            start_date: loadStart,
+            end_date: loadEnd,
+          });
+          setLocalEvents(freshEvents.map(toEventRow));
           initializedRef.current = true;
-          currentWeekRef.current = weekString;
+          currentRangeRef.current = loadRangeKey;
         } catch (error) {
           console.error("Failed to load events:", error);
           toast.error("Failed to load interview data");
@@ -110,62 +135,62 @@ export function ReadOnlyWeeklyCalendar({
 
       loadEvents();
     }
-  }, [currentWeekStart, interviewers]);
+  }, [loadRangeKey, loadStart, loadEnd, interviewers]);
 
-  // Navigate weeks
-  const goToPreviousWeek = () => {
-    const newDate = new Date(currentWeekStart);
-    newDate.setDate(newDate.getDate() - 7);
-    setCurrentWeekStart(newDate);
-  };
+  // Load availability windows once (used to shade unavailable hours)
+  useEffect(() => {
+    const loadAvailability = async () => {
+      try {
+        const availability = await db.getAllAvailability();
+        setAvailabilityByEmail(
+          Object.fromEntries(availability.map((a) => [a.interviewer_email, a]))
+        );
+      } catch (error) {
+        // Calendar still works without availability shading
+        console.error("Failed to load availability:", error);
+      }
+    };
 
-  const goToNextWeek = () => {
-    const newDate = new Date(currentWeekStart);
-    newDate.setDate(newDate.getDate() + 7);
-    setCurrentWeekStart(newDate);
-  };
+    loadAvailability();
+  }, [interviewers]);
 
-  const goToCurrentWeek = () => {
-    const today = new Date();
-    const day = today.getDay();
-    const diff = day === 0 ? -6 : 1 - day;
-    const monday = new Date(today);
-    monday.setDate(today.getDate() + diff);
-    monday.setHours(0, 0, 0, 0);
-    setCurrentWeekStart(monday);
+  // Navigate by the current view's length
+  const goToPrevious = () => {
+    setAnchorDate(
+      view === "day"
+        ? shiftDay(anchorDate, -1, calendarSettings, showWeekends)
+        : shiftAnchor(anchorDate, view, -1)
+    );
   };
 
-  const formatWeekRange = () => {
-    const endDate = new Date(currentWeekStart);
-    endDate.setDate(endDate.getDate() + 4);
-    return `${formatDate(currentWeekStart)} - ${formatDate(endDate)}`;
+  const goToNext = () => {
+    setAnchorDate(
+      view === "day"
+        ? shiftDay(anchorDate, 1, calendarSettings, showWeekends)
+        : shiftAnchor(anchorDate, view, 1)
+    );
   };
 
-  const isToday = (date: Date) => {
+  const goToToday = () => {
     const today = new Date();
-    return (
-      date.getDate() === today.getDate() &&
-      date.getMonth() === today.getMonth() &&
-      date.getFullYear() === today.getFullYear()
-    );
+    today.setHours(0, 0, 0, 0);
+    setAnchorDate(today);
   };
 
-  // Calculate total interviews for the current week per interviewer
-  const getWeekTotal = (interviewerEmail: string) => {
-    const weekStart = new Date(currentWeekStart);
-    weekStart.setHours(0, 0, 0, 0);
-
-    const weekEnd = new Date(currentWeekStart);
-    weekEnd.setDate(weekEnd.getDate() + 4); // Friday (Mon + 4 days)
-    weekEnd.setHours(23, 59, 59, 999);
+  const openDay = (date: Date) => {
+    setAnchorDate(date);
+    setView("day");
+  };
 
-    return localEvents.filter((event) => {
-      if (event.interviewer_email !== interviewerEmail) return false;
+  const isToday = (date: Date) => isSameDay(date, new Date());
 
-      const eventDate = new Date(event.start_time);
-      return eventDate >= weekStart && eventDate <= weekEnd;
-    }).length;
-  };
+  // Calculate total interviews for the shown days (in the row's zone) per interviewer
+  const getRangeTotal = (interviewerEmail: string) =>
+    visibleDays.reduce(
+      (total, date) =>
+        total + filterEventsByDay(localEvents, interviewerEmail, date).length,
+      0
+    );
 
   // Filter interviewers based on search query (min 3 characters)
   const filteredInterviewers = interviewers.filter((interviewer) => {
@@ -191,21 +216,16 @@ export function ReadOnlyWeeklyCalendar({
   return (
     <div className="space-y-4">
       {/* Header with navigation */}
-      <div className="flex items-center justify-between">
-        <div className="text-sm text-muted-foreground">{formatWeekRange()}</div>
-        <div className="flex items-center gap-2">
-          <Button variant="outline" size="sm" onClick={goToCurrentWeek}>
-            <CalendarIcon className="h-4 w-4 mr-2" />
-            Today
-          </Button>
-          <Button variant="outline" size="icon" onClick={goToPreviousWeek}>
-            <ChevronLeftIcon className="h-4 w-4" />
-          </Button>
-          <Button variant="outline" size="icon" onClick={goToNextWeek}>
-            <ChevronRightIcon className="h-4 w-4" />
-          </Button>
-        </div>
-      </div>
+      <CalendarToolbar
+        view={view}
+        onViewChange={setView}
+        rangeLabel={formatViewRange(anchorDate, view, visibleDays)}
+        onPrevious={goToPrevious}
+        onNext={goToNext}
+        onToday={goToToday}
+        showWeekends={showWeekends}
+        onShowWeekendsChange={setShowWeekends}
+      />
 
       {/* Status Legend */}
       <div className="bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
@@ -253,6 +273,7 @@ export function ReadOnlyWeeklyCalendar({
             className="pl-9"
           />
         </div>
+        <TimeZoneModeSelect value={timeZoneMode} onChange={setTimeZoneMode} />
         {searchQuery.length >= 3 && (
           <span className="text-sm text-muted-foreground">
             Showing {filteredInterviewers.length} of{" "}
@@ -261,86 +282,125 @@ export function ReadOnlyWeeklyCalendar({
         )}
       </div>
 
-      {/* Calendar Grid */}
-      <div className="border border-border rounded-lg overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full border-collapse">
-            <thead>
-              <tr className="bg-muted/50">
-                <th className="sticky left-0 z-10 bg-muted/50 border-r border-border p-3 text-left font-semibold min-w-[200px]">
-                  Interviewer
-                </th>
-                {weekDays.map((date, index) => (
-                  <th
-                    key={index}
-                    className={`border-r border-border p-3 text-center font-semibold min-w-[100px] ${
-                      isToday(date) ? "bg-blue-50 dark:bg-blue-950/30" : ""
-                    }`}
-                  >
-                    <div className="text-sm">
-                      {date.toLocaleDateString("en-US", { weekday: "short" })}
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      {formatDate(date)}
-                    </div>
+      {/* Calendar Grid (month view lists the day's interviews; click a day to open it) */}
+      {view === "month" ? (
+        <MonthCalendarGrid
+          month={anchorDate.getMonth()}
+          days={visibleDays}
+          weekdays={getWeekdayOrder(calendarSettings.firstDayOfWeek).filter(
+            (day) => showWeekends || calendarSettings.workDays.includes(day)
+          )}
+          getDayEvents={(date) =>
+            filteredInterviewers.flatMap((interviewer) =>
+              filterEventsByDay(localEvents, interviewer.email, date)
+            )
+          }
+          getEventTimeZone={(event) => getRowTimeZone(event.interviewer_email)}
+          getInterviewerName={(email) =>
+            interviewers.find((i) => i.email === email)?.name ?? email
+          }
+          onSelectDay={openDay}
+        />
+      ) : (
+        <div className="border border-border rounded-lg overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="bg-muted/50">
+                  <th className="sticky left-0 z-10 bg-muted/50 border-r border-border p-3 text-left font-semibold min-w-[200px]">
+                    Interviewer
                   </th>
-                ))}
-                <th className="border-r border-border p-3 text-center font-semibold min-w-[80px] bg-muted/70">
-                  Total
-                </th>
-              </tr>
-            </thead>
-            <tbody>
-              {filteredInterviewers.map((interviewer) => (
-                <tr
-                  key={interviewer.id}
-                  className="border-t border-border hover:bg-muted/30"
-                >
-                  <td className="sticky left-0 z-10 bg-background border-r border-border p-3">
-                    <div>
-                      <div className="font-medium text-sm">
-                        {interviewer.name}
+                  {visibleDays.map((date, index) => (
+                    <th
+                      key={index}
+                      className={`border-r border-border p-3 text-center font-semibold min-w-[100px] ${
+                        isToday(date) ? "bg-blue-50 dark:bg-blue-950/30" : ""
+                      }`}
+                    >
+                      <div className="text-sm">
+                        {date.toLocaleDateString("en-US", { weekday: "short" })}
                       </div>
-                      <div className="text-xs text-muted-foreground truncate">
-                        {interviewer.email}
+                      <div className="text-xs text-muted-foreground">
+                        {formatDate(date)}
                       </div>
-                    </div>
-                  </td>
-                  {weekDays.map((date, dayIndex) => {
-                    const dayEvents = filterEventsByDay(
-                      localEvents,
-                      interviewer.email,
-                      date
-                    );
-
-                    return (
-                      <td
-                        key={dayIndex}
-                        className={`border-r border-border p-0 ${
-                          isToday(date)
-                            ? "bg-blue-50/50 dark:bg-blue-950/10"
-                            : ""
-                        }`}
-                      >
-                        <ReadOnlyInterviewDayCell
-                          interviewerEmail={interviewer.email}
-                          date={date}
-                          events={dayEvents}
-                        />
-                      </td>
-                    );
-                  })}
-                  <td className="border-r border-border p-3 text-center bg-muted/30">
-                    <Badge variant="secondary" className="font-semibold">
-                      {getWeekTotal(interviewer.email)}
-                    </Badge>
-                  </td>
+                    </th>
+                  ))}
+                  <th className="border-r border-border p-3 text-center font-semibold min-w-[80px] bg-muted/70">
+                    Total
+                  </th>
                 </tr>
-              ))}
-            </tbody>
-          </table>
+              </thead>
+              <tbody>
+                {filteredInterviewers.map((interviewer) => (
+                  <tr
+                    key={interviewer.id}
+                    className="border-t border-border hover:bg-muted/30"
+                  >
+                    <td className="sticky left-0 z-10 bg-background border-r border-border p-3">
+                      <div>
+                        <div className="font-medium text-sm">
+                          {interviewer.name}
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {interviewer.email}
+                        </div>
+                        {timeZoneMode === "interviewer" && (
+                          <div className="text-xs text-muted-foreground truncate">
+                            {getRowTimeZone(interviewer.email)}
+                          </div>
+                        )}
+                      </div>
+                    </td>
+                    {visibleDays.map((date, dayIndex) => {
+                      const dayEvents = filterEventsByDay(
+                        localEvents,
+                        interviewer.email,
+                        date
+                      );
+                      const rowTimeZone = getRowTimeZone(interviewer.email);
+
+                      return (
+                        <td
+                          key={dayIndex}
+                          className={`border-r border-border p-0 ${
+                            isToday(date)
+                              ? "bg-blue-50/50 dark:bg-blue-950/10"
+                              : ""
+                          }`}
+                        >
+                          <ReadOnlyInterviewDayCell
+                            interviewerEmail={interviewer.email}
+                            date={date}
+                            events={dayEvents}
+                            availableWindows={resolveAvailabilityForDate(
+                              availabilityByEmail[interviewer.email],
+                              date
+                            )}
+                            timeZone={rowTimeZone}
+                            secondaryTimeZone={getSecondaryTimeZone(
+                              rowTimeZone,
+                              interviewer.timezone
+                            )}
+                            availabilityTimeZone={resolveTimeZone(
+                              "interviewer",
+                              interviewer.timezone
+                            )}
+                          />
+                        </td>
+                      );
+                    })}
+                    <td className="border-r border-border p-3 text-center bg-muted/30">
+                      <Badge variant="secondary" className="font-semibold">
+                        {getRangeTotal(interviewer.email)}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Summary */}
       <div className="flex items-center justify-between text-sm text-muted-foreground">
@@ -0,0 +1,217 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { validateInterviewTime } from "@/lib/time-utils";
+import { toDateKey } from "@/lib/availability-utils";
+import {
+  buildRRule,
+  describeRRule,
+  type RecurrenceOptions,
+} from "@/lib/recurrence-utils";
+
+interface RecurrenceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  interviewerName: string;
+  date: Date; // First occurrence
+  defaultTime: string; // HH:MM
+  onSubmit: (time: string, rrule: string) => Promise<void>;
+}
+
+/**
+ * Schedule a recurring interview slot from a calendar cell
+ * The first occurrence is on the cell's date; later ones keep its weekday
+ * and time in the interviewer's timezone
+ */
+export function RecurrenceDialog({
+  open,
+  onOpenChange,
+  interviewerName,
+  date,
+  defaultTime,
+  onSubmit,
+}: RecurrenceDialogProps) {
+  const [time, setTime] = useState(defaultTime);
+  const [frequency, setFrequency] = useState<RecurrenceOptions["frequency"]>("weekly");
+  const [every, setEvery] = useState(1);
+  const [endType, setEndType] = useState<"count" | "until">("count");
+  const [count, setCount] = useState(6);
+  const [until, setUntil] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setTime(defaultTime);
+      setFrequency("weekly");
+      setEvery(1);
+      setEndType("count");
+      setCount(6);
+      setUntil("");
+    }
+  }, [open, defaultTime]);
+
+  const timeValidation = validateInterviewTime(time);
+  const firstDate = toDateKey(date);
+  const endValid =
+    endType === "count" ? count >= 1 && count <= 1000 : until >= firstDate;
+  const rrule =
+    every >= 1 && every <= 52 && endValid
+      ? buildRRule({
+          frequency,
+          interval: every,
+          end: endType === "count" ? { type: "count", count } : { type: "until", until },
+        })
+      : null;
+
+  const handleSubmit = async () => {
+    if (!rrule || !timeValidation.valid) return;
+
+    setIsSaving(true);
+    try {
+      await onSubmit(time, rrule);
+      onOpenChange(false);
+    } catch {
+      // Parent reports the error and keeps the dialog open for changes
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Add Recurring Slot</DialogTitle>
+          <DialogDescription>
+            {interviewerName}, starting{" "}
+            {date.toLocaleDateString("en-US", {
+              weekday: "long",
+              month: "short",
+              day: "numeric",
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="recurrence-time">Time</Label>
+              <Input
+                id="recurrence-time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                placeholder="HH:MM"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurrence-interval">Every</Label>
+              <Input
+                id="recurrence-interval"
+                type="number"
+                min={1}
+                max={52}
+                value={every}
+                onChange={(e) => setEvery(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="recurrence-frequency">Repeat</Label>
+              <Select
+                value={frequency}
+                onValueChange={(value) =>
+                  setFrequency(value as RecurrenceOptions["frequency"])
+                }
+              >
+                <SelectTrigger id="recurrence-frequency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">{every === 1 ? "Day" : "Days"}</SelectItem>
+                  <SelectItem value="weekly">{every === 1 ? "Week" : "Weeks"}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {!timeValidation.valid && time && (
+            <p className="text-xs text-red-600">{timeValidation.error}</p>
+          )}
+
+          <div className="space-y-2">
+            <Label>Ends</Label>
+            <RadioGroup
+              value={endType}
+              onValueChange={(value) => setEndType(value as "count" | "until")}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="count" id="recurrence-end-count" />
+                <Label htmlFor="recurrence-end-count" className="w-12">
+                  After
+                </Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={1000}
+                  value={count}
+                  onChange={(e) => setCount(Number(e.target.value))}
+                  disabled={endType !== "count"}
+                  className="w-20 h-8"
+                  aria-label="Number of occurrences"
+                />
+                <span className="text-sm text-muted-foreground">occurrences</span>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="until" id="recurrence-end-until" />
+                <Label htmlFor="recurrence-end-until" className="w-12">
+                  On
+                </Label>
+                <Input
+                  type="date"
+                  min={firstDate}
+                  value={until}
+                  onChange={(e) => setUntil(e.target.value)}
+                  disabled={endType !== "until"}
+                  className="w-40 h-8"
+                  aria-label="Last date"
+                />
+              </div>
+            </RadioGroup>
+          </div>
+
+          {rrule && (
+            <p className="text-sm text-muted-foreground">{describeRRule(rrule)}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!rrule || !timeValidation.valid || isSaving}
+          >
+            {isSaving ? "Adding..." : "Add Series"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
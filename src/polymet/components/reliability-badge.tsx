@@ -0,0 +1,43 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangleIcon } from "lucide-react";
+import type {
+  InterviewerReliability,
+  ReliabilityThresholds,
+} from "@/polymet/data/database-service";
+import {
+  RELIABILITY_LEVEL_CLASSES,
+  describeAttention,
+  getReliabilityLevel,
+} from "@/lib/reliability-utils";
+
+interface ReliabilityBadgeProps {
+  reliability?: InterviewerReliability;
+  thresholds: ReliabilityThresholds;
+}
+
+/**
+ * Reliability score with a "needs attention" flag, "—" without a score
+ */
+export function ReliabilityBadge({ reliability, thresholds }: ReliabilityBadgeProps) {
+  const level = getReliabilityLevel(reliability?.score ?? null);
+  if (!reliability || !level) {
+    return <span className="text-sm text-muted-foreground">—</span>;
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Badge variant="outline" className={RELIABILITY_LEVEL_CLASSES[level]}>
+        {reliability.score}
+      </Badge>
+      {reliability.needs_attention && (
+        <span
+          className="inline-flex items-center text-xs text-red-600 dark:text-red-400"
+          title={describeAttention(reliability, thresholds).join("\n")}
+        >
+          <AlertTriangleIcon className="h-3 w-3 mr-1" />
+          Needs attention
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PlusIcon, TrashIcon } from "lucide-react";
+import { db } from "@/polymet/data/database-service";
+import type {
+  Candidate,
+  CreateLoopInput,
+  Interviewer,
+  Position,
+} from "@/polymet/data/database-service";
+import { addMinutesToTime } from "@/lib/time-utils";
+
+interface ScheduleLoopDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: CreateLoopInput) => void;
+}
+
+interface StageFormData {
+  interviewer_email: string;
+  start_time: string; // HH:MM
+  duration: string; // minutes
+}
+
+const DEFAULT_STAGE: StageFormData = {
+  interviewer_email: "",
+  start_time: "10:00",
+  duration: "60",
+};
+
+/**
+ * Schedule an interview loop
+ * Stages run in the listed order on one day; each new stage starts when
+ * the previous one ends
+ */
+export function ScheduleLoopDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+}: ScheduleLoopDialogProps) {
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [interviewers, setInterviewers] = useState<Interviewer[]>([]);
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [candidateId, setCandidateId] = useState("");
+  const [positionId, setPositionId] = useState("");
+  const [date, setDate] = useState("");
+  const [stages, setStages] = useState<StageFormData[]>([DEFAULT_STAGE]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setCandidateId("");
+    setPositionId("");
+    setDate("");
+    setStages([DEFAULT_STAGE]);
+
+    const loadOptions = async () => {
+      try {
+        const [candidateData, interviewerData, positionData] = await Promise.all([
+          db.getCandidates(),
+          db.getInterviewers(),
+          db.getPositions("open"),
+        ]);
+        setCandidates(candidateData);
+        setInterviewers(interviewerData.filter((i) => i.is_active));
+        setPositions(positionData);
+      } catch (error) {
+        console.error("Failed to load loop options:", error);
+      }
+    };
+
+    loadOptions();
+  }, [open]);
+
+  const handleCandidateChange = (value: string) => {
+    setCandidateId(value);
+    const candidate = candidates.find((c) => c.id === value);
+    const match = positions.find(
+      (p) => p.title.toLowerCase() === candidate?.position?.toLowerCase()
+    );
+    if (match && !positionId) {
+      setPositionId(match.id);
+    }
+  };
+
+  const updateStage = (index: number, changes: Partial<StageFormData>) => {
+    setStages(stages.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const handleAddStage = () => {
+    const last = stages[stages.length - 1];
+    setStages([
+      ...stages,
+      {
+        ...DEFAULT_STAGE,
+        start_time: addMinutesToTime(last.start_time, Number(last.duration)),
+      },
+    ]);
+  };
+
+  const handleSubmit = () => {
+    onSubmit({
+      candidate_id: candidateId,
+      position_id: positionId || undefined,
+      stages: stages.map((stage) => {
+        const start = new Date(`${date}T${stage.start_time}`);
+        const end = new Date(start.getTime() + Number(stage.duration) * 60000);
+        return {
+          interviewer_email: stage.interviewer_email,
+          start_time: start.toISOString(),
+          end_time: end.toISOString(),
+        };
+      }),
+    });
+  };
+
+  const isValid =
+    !!candidateId &&
+    !!date &&
+    stages.every((stage) => stage.interviewer_email && stage.start_time);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedule Interview Loop</DialogTitle>
+          <DialogDescription>
+            Book every stage of a candidate's loop at once. If any stage
+            clashes, nothing is scheduled.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="loop-candidate">Candidate</Label>
+              <Select value={candidateId} onValueChange={handleCandidateChange}>
+                <SelectTrigger id="loop-candidate">
+                  <SelectValue placeholder="Select candidate" />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((candidate) => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="loop-date">Date</Label>
+              <Input
+                id="loop-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="loop-position">Position</Label>
+            <Select value={positionId} onValueChange={setPositionId}>
+              <SelectTrigger id="loop-position">
+                <SelectValue placeholder="Defaults to the candidate's position" />
+              </SelectTrigger>
+              <SelectContent>
+                {positions.map((position) => (
+                  <SelectItem key={position.id} value={position.id}>
+                    {position.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3 pt-4 border-t border-border">
+            <div className="flex items-center justify-between">
+              <Label>Stages</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleAddStage}
+                disabled={stages.length >= 10}
+              >
+                <PlusIcon className="h-4 w-4 mr-1" />
+                Add Stage
+              </Button>
+            </div>
+            {stages.map((stage, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-6 text-sm text-muted-foreground">
+                  {index + 1}.
+                </span>
+                <Select
+                  value={stage.interviewer_email}
+                  onValueChange={(value) =>
+                    updateStage(index, { interviewer_email: value })
+                  }
+                >
+                  <SelectTrigger
+                    className="flex-1"
+                    aria-label={`Stage ${index + 1} interviewer`}
+                  >
+                    <SelectValue placeholder="Select interviewer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {interviewers.map((interviewer) => (
+                      <SelectItem key={interviewer.email} value={interviewer.email}>
+                        {interviewer.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="time"
+                  value={stage.start_time}
+                  onChange={(e) => updateStage(index, { start_time: e.target.value })}
+                  aria-label={`Stage ${index + 1} start time`}
+                  className="w-32"
+                />
+                <Select
+                  value={stage.duration}
+                  onValueChange={(value) => updateStage(index, { duration: value })}
+                >
+                  <SelectTrigger
+                    className="w-28"
+                    aria-label={`Stage ${index + 1} duration`}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="30">30 min</SelectItem>
+                    <SelectItem value="45">45 min</SelectItem>
+                    <SelectItem value="60">1 hour</SelectItem>
+                    <SelectItem value="90">1.5 hours</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setStages(stages.filter((_, i) => i !== index))}
+                  disabled={stages.length === 1}
+                  aria-label={`Remove stage ${index + 1}`}
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isValid}>
+            Schedule Loop
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,383 @@
+import { useState, useEffect } from "react";
+import type { Interviewer } from "@/polymet/data/mock-interviewers-data";
+import { db } from "@/polymet/data/database-service";
+import type { InterviewEvent } from "@/polymet/data/database-service";
+import { toDateKey } from "@/lib/availability-utils";
+import {
+  formatViewRange,
+  getLoadRange,
+  getOrgCalendarSettings,
+  isSameDay,
+} from "@/lib/calendar-utils";
+import {
+  formatDurationLabel,
+  getTimelineDays,
+  getTimelineOffset,
+  getTimelineWindow,
+  layoutTimelineRow,
+  shiftTimelineAnchor,
+  type TimelineZoom,
+} from "@/lib/timeline-utils";
+import {
+  extractTimeFromISO,
+  getEventDurationMinutes,
+  getStatusDisplay,
+} from "@/lib/time-utils";
+import {
+  formatTimeInZones,
+  getSecondaryTimeZone,
+  resolveTimeZone,
+  type TimeZoneMode,
+} from "@/lib/time-zone-utils";
+import { cn } from "@/lib/utils";
+import { TimeZoneModeSelect } from "./time-zone-mode-select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertTriangleIcon,
+  CalendarIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  SearchIcon,
+} from "lucide-react";
+import { toast } from "sonner";
+
+interface ScheduleTimelineProps {
+  interviewers: Interviewer[];
+}
+
+const ZOOMS: Array<{ value: TimelineZoom; label: string }> = [
+  { value: "day", label: "Day" },
+  { value: "3-day", label: "3 days" },
+  { value: "week", label: "Week" },
+];
+
+const LANE_HEIGHT = 28; // px per stacked lane
+const MIN_DAY_WIDTH = 180; // px, so a week scrolls instead of squashing
+
+/**
+ * Timeline (resource-Gantt) view of the schedule
+ * Interviewers as rows and hours as columns; each interview is drawn from its
+ * start to its end time, overlapping interviews are stacked and outlined in
+ * red, and idle gaps between interviews are labelled with their length.
+ * Zooms from one day to one week.
+ */
+export function ScheduleTimeline({ interviewers }: ScheduleTimelineProps) {
+  const calendarSettings = getOrgCalendarSettings();
+  const [zoom, setZoom] = useState<TimelineZoom>("day");
+  const [showWeekends, setShowWeekends] = useState(false);
+  const [anchorDate, setAnchorDate] = useState(() => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    return today;
+  });
+  const [events, setEvents] = useState<InterviewEvent[]>([]);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [timeZoneMode, setTimeZoneMode] = useState<TimeZoneMode>("viewer");
+
+  const days = getTimelineDays(anchorDate, zoom, calendarSettings, showWeekends);
+  const { start_date: loadStart, end_date: loadEnd } = getLoadRange(days);
+
+  // Load the shown range whenever it changes
+  useEffect(() => {
+    const loadEvents = async () => {
+      try {
+        setEvents(await db.getInterviewEvents({ start_date: loadStart, end_date: loadEnd }));
+      } catch (error) {
+        console.error("Failed to load events:", error);
+        toast.error("Failed to load interview data");
+      }
+    };
+
+    loadEvents();
+  }, [loadStart, loadEnd]);
+
+  // Zone a row is displayed in
+  const getRowTimeZone = (interviewerEmail: string) =>
+    resolveTimeZone(
+      timeZoneMode,
+      interviewers.find((i) => i.email === interviewerEmail)?.timezone
+    );
+
+  const filteredInterviewers = interviewers.filter((interviewer) => {
+    if (!interviewer.is_active) return false;
+    if (searchQuery.length < 3) return true;
+
+    const query = searchQuery.toLowerCase();
+    return (
+      interviewer.name.toLowerCase().includes(query) ||
+      interviewer.email.toLowerCase().includes(query)
+    );
+  });
+
+  const timelineWindow = getTimelineWindow(days, events, (event) =>
+    getRowTimeZone(event.interviewer_email)
+  );
+  const hourCount = timelineWindow.endHour - timelineWindow.startHour;
+  const hourStep = zoom === "day" ? 1 : zoom === "3-day" ? 2 : 4;
+  const hourTicks = Array.from(
+    { length: Math.ceil(hourCount / hourStep) },
+    (_, i) => timelineWindow.startHour + i * hourStep
+  );
+  const trackMinWidth = days.length * MIN_DAY_WIDTH;
+
+  const goTo = (direction: 1 | -1) =>
+    setAnchorDate(
+      shiftTimelineAnchor(anchorDate, zoom, direction, calendarSettings, showWeekends)
+    );
+
+  const goToToday = () => {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    setAnchorDate(today);
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-4">
+      {/* Header with zoom and navigation */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">
+          {formatViewRange(anchorDate, zoom === "day" ? "day" : "week", days)}
+        </span>
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex items-center gap-2 mr-2">
+            <Switch
+              id="timeline-show-weekends"
+              checked={showWeekends}
+              onCheckedChange={setShowWeekends}
+            />
+            <Label htmlFor="timeline-show-weekends" className="text-sm">
+              Weekends
+            </Label>
+          </div>
+          <div
+            className="flex items-center gap-1 bg-muted p-1 rounded-lg"
+            role="group"
+            aria-label="Timeline zoom"
+          >
+            {ZOOMS.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={zoom === value ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setZoom(value)}
+                aria-pressed={zoom === value}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={goToToday}>
+            <CalendarIcon className="h-4 w-4 mr-2" />
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => goTo(-1)}
+            aria-label="Previous"
+          >
+            <ChevronLeftIcon className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => goTo(1)}
+            aria-label="Next"
+          >
+            <ChevronRightIcon className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Search and zone */}
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1 max-w-sm">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            type="text"
+            placeholder="Search interviewers (min 3 letters)..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <TimeZoneModeSelect value={timeZoneMode} onChange={setTimeZoneMode} />
+        <div className="flex items-center gap-3 text-xs text-muted-foreground ml-auto">
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm ring-2 ring-red-500" />
+            Overlap
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-5 rounded-sm border border-dashed border-muted-foreground/50" />
+            Idle gap
+          </span>
+        </div>
+      </div>
+
+      {/* Timeline grid */}
+      <div className="border border-border rounded-lg overflow-hidden">
+        <div className="overflow-x-auto">
+          <div className="flex bg-muted/50 border-b border-border">
+            <div className="w-48 shrink-0 p-2 text-sm font-semibold border-r border-border sticky left-0 bg-muted z-10">
+              Interviewer
+            </div>
+            <div className="flex-1 flex" style={{ minWidth: trackMinWidth }}>
+              {days.map((date) => (
+                <div
+                  key={toDateKey(date)}
+                  className={cn(
+                    "flex-1 border-r border-border last:border-r-0",
+                    isSameDay(date, now) && "bg-blue-50 dark:bg-blue-950/20"
+                  )}
+                >
+                  <div className="px-2 pt-1 text-xs font-semibold">
+                    {date.toLocaleDateString("en-US", {
+                      weekday: "short",
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </div>
+                  <div className="relative h-5">
+                    {hourTicks.map((hour) => (
+                      <span
+                        key={hour}
+                        className="absolute text-[10px] text-muted-foreground -translate-x-1/2 first:translate-x-0"
+                        style={{ left: `${((hour - timelineWindow.startHour) / hourCount) * 100}%` }}
+                      >
+                        {String(hour).padStart(2, "0")}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {filteredInterviewers.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              No interviewers found
+            </div>
+          ) : (
+            filteredInterviewers.map((interviewer) => {
+              const timeZone = getRowTimeZone(interviewer.email);
+              const secondaryTimeZone = getSecondaryTimeZone(timeZone, interviewer.timezone);
+              const { blocks, gaps, laneCount } = layoutTimelineRow(
+                events.filter((event) => event.interviewer_email === interviewer.email),
+                timelineWindow,
+                timeZone
+              );
+              const nowOffset = getTimelineOffset(now, timelineWindow, timeZone);
+              const showNow = nowOffset > 0 && nowOffset < 1;
+
+              return (
+                <div
+                  key={interviewer.id}
+                  className="flex border-b border-border last:border-b-0 hover:bg-muted/20"
+                >
+                  <div className="w-48 shrink-0 p-2 border-r border-border sticky left-0 bg-background z-10">
+                    <div className="text-sm font-medium truncate">{interviewer.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {blocks.length} interview{blocks.length === 1 ? "" : "s"}
+                      {timeZoneMode === "interviewer" && ` · ${timeZone}`}
+                    </div>
+                  </div>
+                  <div
+                    className="relative flex-1"
+                    style={{
+                      minWidth: trackMinWidth,
+                      height: laneCount * LANE_HEIGHT + 8,
+                    }}
+                  >
+                    {/* Day and hour lines */}
+                    {days.map((date, dayIndex) =>
+                      hourTicks.map((hour) => (
+                        <div
+                          key={`${toDateKey(date)}-${hour}`}
+                          className={cn(
+                            "absolute inset-y-0 border-l",
+                            hour === timelineWindow.startHour && dayIndex > 0
+                              ? "border-border"
+                              : "border-border/40"
+                          )}
+                          style={{
+                            left: `${((dayIndex + (hour - timelineWindow.startHour) / hourCount) / days.length) * 100}%`,
+                          }}
+                        />
+                      ))
+                    )}
+
+                    {/* Idle gaps */}
+                    {gaps.map((gap) => (
+                      <div
+                        key={gap.left}
+                        className="absolute top-1 bottom-1 rounded-sm border border-dashed border-muted-foreground/40 flex items-center justify-center overflow-hidden"
+                        style={{ left: `${gap.left * 100}%`, width: `${gap.width * 100}%` }}
+                        title={`Idle for ${formatDurationLabel(gap.minutes)}`}
+                      >
+                        <span className="text-[10px] text-muted-foreground truncate px-1">
+                          {formatDurationLabel(gap.minutes)} idle
+                        </span>
+                      </div>
+                    ))}
+
+                    {/* Interviews */}
+                    {blocks.map(({ event, left, width, lane, overlapping }) => {
+                      const display = getStatusDisplay(event.status);
+                      const duration = getEventDurationMinutes(event);
+
+                      return (
+                        <div
+                          key={event.id}
+                          className={cn(
+                            "absolute rounded-sm px-1 text-[11px] leading-6 truncate shadow-sm",
+                            display.colorClass,
+                            event.status === "cancelled" && "opacity-50 line-through",
+                            overlapping && "ring-2 ring-red-500 ring-offset-1 z-10"
+                          )}
+                          style={{
+                            left: `${left * 100}%`,
+                            width: `${width * 100}%`,
+                            top: lane * LANE_HEIGHT + 4,
+                            height: LANE_HEIGHT - 4,
+                          }}
+                          title={[
+                            `${display.fullLabel}: ${formatTimeInZones(event.start_time, timeZone, secondaryTimeZone)} (${formatDurationLabel(duration)})`,
+                            event.candidate_name,
+                            overlapping ? "Overlaps another interview" : null,
+                          ]
+                            .filter(Boolean)
+                            .join("\n")}
+                        >
+                          {overlapping && (
+                            <AlertTriangleIcon className="inline h-3 w-3 mr-0.5 -mt-0.5" />
+                          )}
+                          {extractTimeFromISO(event.start_time, timeZone)} ·{" "}
+                          {formatDurationLabel(duration)}
+                          {event.candidate_name && ` · ${event.candidate_name}`}
+                        </div>
+                      );
+                    })}
+
+                    {/* Current time */}
+                    {showNow && (
+                      <div
+                        className="absolute inset-y-0 w-px bg-red-500 z-20"
+                        style={{ left: `${nowOffset * 100}%` }}
+                        aria-hidden
+                      />
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
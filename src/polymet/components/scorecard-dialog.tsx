@@ -0,0 +1,185 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
+import type {
+  Scorecard,
+  ScorecardInput,
+  ScorecardRecommendation,
+} from "@/polymet/data/database-service";
+
+interface ScorecardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event: InterviewEvent | null;
+  scorecard: Scorecard | null; // Existing scorecard, null for a new one
+  onSubmit: (eventId: string, data: ScorecardInput) => void;
+}
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const RECOMMENDATIONS: {
+  value: ScorecardRecommendation;
+  label: string;
+  className: string;
+}[] = [
+  {
+    value: "strong_hire",
+    label: "Strong Hire",
+    className: "text-green-700 dark:text-green-400",
+  },
+  { value: "hire", label: "Hire", className: "text-green-600 dark:text-green-300" },
+  { value: "no_hire", label: "No Hire", className: "text-red-600 dark:text-red-300" },
+  {
+    value: "strong_no_hire",
+    label: "Strong No Hire",
+    className: "text-red-700 dark:text-red-400",
+  },
+];
+
+const isRecommendation = (value: string): value is ScorecardRecommendation =>
+  RECOMMENDATIONS.some((r) => r.value === value);
+
+/**
+ * Interviewer scorecard
+ * One 1-5 rating per assessed skill, an overall recommendation and
+ * written feedback
+ */
+export function ScorecardDialog({
+  open,
+  onOpenChange,
+  event,
+  scorecard,
+  onSubmit,
+}: ScorecardDialogProps) {
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [recommendation, setRecommendation] = useState<
+    ScorecardRecommendation | ""
+  >("");
+  const [feedback, setFeedback] = useState("");
+
+  useEffect(() => {
+    setRatings(scorecard?.ratings ?? {});
+    setRecommendation(scorecard?.recommendation ?? "");
+    setFeedback(scorecard?.feedback ?? "");
+  }, [scorecard, open]);
+
+  if (!event) return null;
+
+  const skills = event.skills_assessed ?? [];
+  const isComplete =
+    recommendation !== "" && skills.every((skill) => ratings[skill]);
+
+  const handleSubmit = () => {
+    if (recommendation === "") return;
+    onSubmit(event.id, {
+      ratings,
+      recommendation,
+      feedback: feedback.trim() || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Scorecard</DialogTitle>
+          <DialogDescription>
+            {event.candidate_name
+              ? `Feedback for ${event.candidate_name} from ${event.interviewer_email}`
+              : `Feedback from ${event.interviewer_email}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="space-y-3">
+            <Label>Skill Ratings</Label>
+            {skills.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No skills were assessed in this interview
+              </p>
+            )}
+            {skills.map((skill) => (
+              <div key={skill} className="flex items-center justify-between gap-4">
+                <span className="text-sm font-medium">{skill}</span>
+                <div className="flex gap-1" role="group" aria-label={`${skill} rating`}>
+                  {RATINGS.map((rating) => (
+                    <Button
+                      key={rating}
+                      type="button"
+                      size="sm"
+                      variant={ratings[skill] === rating ? "default" : "outline"}
+                      aria-pressed={ratings[skill] === rating}
+                      aria-label={`${skill}: ${rating} of 5`}
+                      onClick={() => setRatings({ ...ratings, [skill]: rating })}
+                      className="w-9"
+                    >
+                      {rating}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Recommendation</Label>
+            <RadioGroup
+              value={recommendation}
+              onValueChange={(value) => {
+                if (isRecommendation(value)) setRecommendation(value);
+              }}
+              className="grid grid-cols-2 gap-2"
+            >
+              {RECOMMENDATIONS.map((option) => (
+                <div
+                  key={option.value}
+                  className="flex items-center space-x-2 p-3 border border-border rounded-lg hover:bg-muted/50 cursor-pointer"
+                >
+                  <RadioGroupItem value={option.value} id={`rec-${option.value}`} />
+
+                  <Label
+                    htmlFor={`rec-${option.value}`}
+                    className={`cursor-pointer flex-1 font-medium ${option.className}`}
+                  >
+                    {option.label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="scorecard-feedback">Written Feedback</Label>
+            <Textarea
+              id="scorecard-feedback"
+              placeholder="Strengths, concerns and anything the hiring team should know..."
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              rows={5}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!isComplete}>
+            {scorecard ? "Update Scorecard" : "Submit Scorecard"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,97 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { SeriesScope } from "@/polymet/data/database-service";
+
+interface SeriesScopeDialogProps {
+  open: boolean;
+  action: "edit" | "delete";
+  onConfirm: (scope: SeriesScope) => void;
+  onCancel: () => void;
+}
+
+const SCOPE_OPTIONS: Array<{ value: SeriesScope; label: string; hint: string }> = [
+  { value: "this", label: "This occurrence", hint: "Other occurrences stay as they are" },
+  {
+    value: "following",
+    label: "This and following",
+    hint: "Earlier occurrences stay as they are",
+  },
+  { value: "all", label: "All occurrences", hint: "The whole series" },
+];
+
+/**
+ * Asks which occurrences of a recurring interview an edit or delete applies to
+ * Only pending occurrences follow series changes; marked ones are kept
+ */
+export function SeriesScopeDialog({
+  open,
+  action,
+  onConfirm,
+  onCancel,
+}: SeriesScopeDialogProps) {
+  const [scope, setScope] = useState<SeriesScope>("this");
+
+  useEffect(() => {
+    if (open) setScope("this");
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>
+            {action === "edit" ? "Edit recurring interview" : "Delete recurring interview"}
+          </DialogTitle>
+          <DialogDescription>
+            Interviews already marked attended, ghosted or cancelled are not changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={scope}
+          onValueChange={(value) => setScope(value as SeriesScope)}
+          className="py-2"
+        >
+          {SCOPE_OPTIONS.map((option) => (
+            <div
+              key={option.value}
+              className="flex items-center space-x-2 p-3 border border-border rounded-lg hover:bg-muted/50 cursor-pointer"
+            >
+              <RadioGroupItem value={option.value} id={`series-scope-${option.value}`} />
+
+              <Label
+                htmlFor={`series-scope-${option.value}`}
+                className="cursor-pointer flex-1"
+              >
+                <div className="font-medium">{option.label}</div>
+                <div className="text-xs text-muted-foreground">{option.hint}</div>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            variant={action === "delete" ? "destructive" : "default"}
+            onClick={() => onConfirm(scope)}
+          >
+            {action === "edit" ? "Save" : "Delete"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,52 @@
+import type { ReactNode } from "react";
+import { TableHead } from "@/components/ui/table";
+import { ArrowDownIcon, ArrowUpIcon, ArrowUpDownIcon } from "lucide-react";
+import type { SortOrder } from "@/polymet/data/database-service";
+import { cn } from "@/lib/utils";
+
+interface SortableTableHeadProps<TSort extends string> {
+  field: TSort;
+  sort?: TSort; // Current sort column
+  order?: SortOrder;
+  onSort?: (field: TSort) => void; // Plain header when not set
+  className?: string;
+  children: ReactNode;
+}
+
+/**
+ * Table header that sorts by its column when clicked
+ */
+export function SortableTableHead<TSort extends string>({
+  field,
+  sort,
+  order,
+  onSort,
+  className,
+  children,
+}: SortableTableHeadProps<TSort>) {
+  if (!onSort) {
+    return <TableHead className={className}>{children}</TableHead>;
+  }
+
+  const active = sort === field;
+  const Icon = !active ? ArrowUpDownIcon : order === "asc" ? ArrowUpIcon : ArrowDownIcon;
+
+  return (
+    <TableHead
+      className={className}
+      aria-sort={active ? (order === "asc" ? "ascending" : "descending") : "none"}
+    >
+      <button
+        type="button"
+        onClick={() => onSort(field)}
+        className={cn(
+          "inline-flex items-center gap-1 hover:text-foreground",
+          active && "text-foreground"
+        )}
+      >
+        {children}
+        <Icon className={cn("h-3 w-3", !active && "opacity-50")} />
+      </button>
+    </TableHead>
+  );
+}
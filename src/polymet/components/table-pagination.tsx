@@ -0,0 +1,80 @@
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
+import type { Pagination } from "@/polymet/data/database-service";
+import { getPageInfo, PAGE_SIZE_OPTIONS } from "@/lib/pagination-utils";
+
+interface TablePaginationProps {
+  pagination: Pagination;
+  itemLabel: string; // Plural noun, e.g. "events"
+  onPageChange: (offset: number) => void;
+  onPageSizeChange: (limit: number) => void;
+}
+
+/**
+ * Footer for server-paginated tables: record range, page size and paging
+ */
+export function TablePagination({
+  pagination,
+  itemLabel,
+  onPageChange,
+  onPageSizeChange,
+}: TablePaginationProps) {
+  const { page, pageCount, from, to } = getPageInfo(pagination);
+  const { total, limit, offset, hasMore } = pagination;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm text-muted-foreground">
+      <div aria-live="polite">
+        Showing {from}-{to} of {total} {itemLabel}
+      </div>
+      <div className="flex items-center gap-2">
+        <span>Rows per page</span>
+        <Select
+          value={String(limit)}
+          onValueChange={(value) => onPageSizeChange(Number(value))}
+        >
+          <SelectTrigger className="w-[80px] h-8" aria-label="Rows per page">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <SelectItem key={size} value={String(size)}>
+                {size}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="ml-2">
+          Page {page} of {pageCount}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onPageChange(Math.max(offset - limit, 0))}
+          disabled={offset === 0}
+          aria-label="Previous page"
+        >
+          <ChevronLeftIcon className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => onPageChange(offset + limit)}
+          disabled={!hasMore}
+          aria-label="Next page"
+        >
+          <ChevronRightIcon className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
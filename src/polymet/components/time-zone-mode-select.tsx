@@ -0,0 +1,47 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GlobeIcon } from "lucide-react";
+import {
+  TIME_ZONE_MODE_LABELS,
+  getOrgTimeZone,
+  getViewerTimeZone,
+  type TimeZoneMode,
+} from "@/lib/time-zone-utils";
+
+interface TimeZoneModeSelectProps {
+  value: TimeZoneMode;
+  onChange: (mode: TimeZoneMode) => void;
+}
+
+/**
+ * Picks the zone calendar rows are shown (and times entered) in
+ */
+export function TimeZoneModeSelect({ value, onChange }: TimeZoneModeSelectProps) {
+  const zoneHints: Record<TimeZoneMode, string> = {
+    viewer: getViewerTimeZone(),
+    interviewer: "per row",
+    org: getOrgTimeZone(),
+  };
+
+  return (
+    <Select value={value} onValueChange={(mode) => onChange(mode as TimeZoneMode)}>
+      <SelectTrigger className="w-[260px]" aria-label="Time zone">
+        <GlobeIcon className="h-4 w-4 mr-2 shrink-0 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(TIME_ZONE_MODE_LABELS) as TimeZoneMode[]).map((mode) => (
+          <SelectItem key={mode} value={mode}>
+            {TIME_ZONE_MODE_LABELS[mode]}{" "}
+            <span className="text-muted-foreground">({zoneHints[mode]})</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
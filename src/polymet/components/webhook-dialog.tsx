@@ -0,0 +1,189 @@
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import type {
+  Webhook,
+  WebhookEventType,
+  WebhookInput,
+} from "@/polymet/data/database-service";
+
+interface WebhookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  webhook?: Webhook | null;
+  onSubmit: (data: WebhookInput) => void;
+}
+
+const EVENT_TYPE_GROUPS: { label: string; types: { type: WebhookEventType; label: string }[] }[] = [
+  {
+    label: "Interviews",
+    types: [
+      { type: "event.created", label: "Created" },
+      { type: "event.rescheduled", label: "Rescheduled" },
+      { type: "event.status_changed", label: "Marked or cancelled" },
+      { type: "event.updated", label: "Other changes" },
+      { type: "event.deleted", label: "Deleted" },
+    ],
+  },
+  {
+    label: "Interviewers",
+    types: [
+      { type: "interviewer.created", label: "Added" },
+      { type: "interviewer.updated", label: "Updated" },
+      { type: "interviewer.deleted", label: "Removed" },
+    ],
+  },
+  {
+    label: "Users",
+    types: [
+      { type: "user.role_changed", label: "Role changed" },
+      { type: "user.deleted", label: "Deleted" },
+    ],
+  },
+];
+
+const EMPTY_FORM = {
+  url: "",
+  description: "",
+  event_types: [] as WebhookEventType[],
+  active: true,
+};
+
+/**
+ * Add / edit webhook dialog
+ * The signing secret is generated by the server and shown once after adding
+ */
+export function WebhookDialog({
+  open,
+  onOpenChange,
+  webhook,
+  onSubmit,
+}: WebhookDialogProps) {
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    if (webhook) {
+      setFormData({
+        url: webhook.url,
+        description: webhook.description ?? "",
+        event_types: webhook.event_types,
+        active: webhook.active,
+      });
+    } else {
+      setFormData(EMPTY_FORM);
+    }
+  }, [webhook, open]);
+
+  const toggleType = (type: WebhookEventType) => {
+    setFormData({
+      ...formData,
+      event_types: formData.event_types.includes(type)
+        ? formData.event_types.filter((t) => t !== type)
+        : [...formData.event_types, type],
+    });
+  };
+
+  const handleSubmit = () => {
+    const data: WebhookInput = {
+      url: formData.url.trim(),
+      event_types: formData.event_types,
+      active: formData.active,
+    };
+    if (formData.description.trim()) data.description = formData.description.trim();
+    onSubmit(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{webhook ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+          <DialogDescription>
+            Roster changes of the selected types are POSTed to this URL, signed
+            with the webhook's secret
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Payload URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              placeholder="https://ats-bridge.example.com/hooks/roster"
+              value={formData.url}
+              onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="webhook-description">Description</Label>
+            <Input
+              id="webhook-description"
+              placeholder="e.g., ATS bridge"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid grid-cols-3 gap-4">
+              {EVENT_TYPE_GROUPS.map((group) => (
+                <div key={group.label} className="space-y-2">
+                  <p className="text-xs font-medium text-muted-foreground">{group.label}</p>
+                  {group.types.map(({ type, label }) => (
+                    <label key={type} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4"
+                        checked={formData.event_types.includes(type)}
+                        onChange={() => toggleType(type)}
+                      />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between pt-4 border-t border-border">
+            <div>
+              <Label htmlFor="webhook-active">Active</Label>
+              <p className="text-xs text-muted-foreground">
+                Inactive webhooks receive nothing; their retries wait
+              </p>
+            </div>
+            <Switch
+              id="webhook-active"
+              checked={formData.active}
+              onCheckedChange={(checked) => setFormData({ ...formData, active: checked })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!formData.url.trim() || formData.event_types.length === 0}
+          >
+            {webhook ? "Save Changes" : "Add Webhook"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
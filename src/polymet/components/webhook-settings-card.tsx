@@ -0,0 +1,448 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  WebhookIcon,
+  PlusIcon,
+  PencilIcon,
+  Trash2Icon,
+  SendIcon,
+  RotateCwIcon,
+  CopyIcon,
+} from "lucide-react";
+import { toast } from "sonner";
+import { ApiError } from "@/lib/api-client";
+import { db } from "@/polymet/data/database-service";
+import type {
+  CreatedWebhook,
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookInput,
+} from "@/polymet/data/database-service";
+import { WebhookDialog } from "@/polymet/components/webhook-dialog";
+
+const DELIVERY_LIMIT = 10;
+
+const formatTimestamp = (value: string) =>
+  new Date(`${value.replace(" ", "T")}Z`).toLocaleString();
+
+function DeliveryStatusBadge({ delivery }: { delivery: Pick<WebhookDelivery, "status" | "error" | "next_attempt_at"> }) {
+  if (delivery.status === "succeeded") {
+    return <Badge variant="secondary">Delivered</Badge>;
+  }
+  if (delivery.status === "failed") {
+    return (
+      <Badge variant="destructive" title={delivery.error ?? undefined}>
+        Failed
+      </Badge>
+    );
+  }
+  return (
+    <Badge
+      variant="outline"
+      title={[
+        delivery.error,
+        delivery.next_attempt_at && `Retrying ${formatTimestamp(delivery.next_attempt_at)}`,
+      ]
+        .filter(Boolean)
+        .join(" - ") || undefined}
+    >
+      Retrying
+    </Badge>
+  );
+}
+
+/**
+ * Outbound webhooks
+ * Subscriptions with their event filters, test pings, and the delivery log
+ * with redelivery (this card sits on the admin-only Settings page)
+ */
+export function WebhookSettingsCard() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [statusFilter, setStatusFilter] = useState<WebhookDeliveryStatus | "all">("all");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const [deletingWebhook, setDeletingWebhook] = useState<Webhook | null>(null);
+  const [createdWebhook, setCreatedWebhook] = useState<CreatedWebhook | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, []);
+
+  const loadWebhooks = async () => {
+    try {
+      setWebhooks(await db.getWebhooks());
+    } catch (error) {
+      console.error("Failed to load webhooks:", error);
+      toast.error("Failed to load webhooks");
+    }
+  };
+
+  const loadDeliveries = useCallback(async () => {
+    try {
+      const page = await db.getWebhookDeliveries({
+        limit: DELIVERY_LIMIT,
+        status: statusFilter === "all" ? undefined : statusFilter,
+      });
+      setDeliveries(page.data);
+    } catch (error) {
+      console.error("Failed to load webhook deliveries:", error);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const refresh = () => Promise.all([loadWebhooks(), loadDeliveries()]);
+
+  const handleSubmit = async (data: WebhookInput) => {
+    try {
+      if (editingWebhook) {
+        await db.updateWebhook(editingWebhook.id, data);
+        toast.success("Webhook updated");
+      } else {
+        setCreatedWebhook(await db.createWebhook(data));
+      }
+      setDialogOpen(false);
+      setEditingWebhook(null);
+      await loadWebhooks();
+    } catch (error) {
+      console.error("Failed to save webhook:", error);
+      toast.error(
+        error instanceof ApiError && error.status === 400
+          ? error.message
+          : "Failed to save webhook"
+      );
+    }
+  };
+
+  const handleToggleActive = async (webhook: Webhook, active: boolean) => {
+    setBusyId(webhook.id);
+    try {
+      const updated = await db.updateWebhook(webhook.id, { active });
+      setWebhooks((current) =>
+        current.map((item) => (item.id === updated.id ? { ...item, ...updated } : item))
+      );
+    } catch (error) {
+      console.error("Failed to update webhook:", error);
+      toast.error("Failed to update webhook");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePing = async (webhook: Webhook) => {
+    setBusyId(webhook.id);
+    try {
+      const delivery = await db.pingWebhook(webhook.id);
+      if (delivery.status === "succeeded") {
+        toast.success(`Ping delivered (${delivery.response_status})`);
+      } else {
+        toast.error(`Ping failed: ${delivery.error ?? "no response"}`);
+      }
+      await refresh();
+    } catch (error) {
+      console.error("Failed to ping webhook:", error);
+      toast.error("Failed to ping webhook");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingWebhook) return;
+    try {
+      await db.deleteWebhook(deletingWebhook.id);
+      toast.success("Webhook deleted");
+      await refresh();
+    } catch (error) {
+      console.error("Failed to delete webhook:", error);
+      toast.error("Failed to delete webhook");
+    } finally {
+      setDeletingWebhook(null);
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    setBusyId(delivery.id);
+    try {
+      const result = await db.redeliverWebhookDelivery(delivery.id);
+      if (result.status === "succeeded") {
+        toast.success("Delivery sent again");
+      } else {
+        toast.error(`Redelivery failed: ${result.error ?? "no response"}; it will be retried`);
+      }
+      await refresh();
+    } catch (error) {
+      console.error("Failed to redeliver webhook delivery:", error);
+      toast.error("Failed to redeliver");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCopySecret = async () => {
+    if (!createdWebhook) return;
+    try {
+      await navigator.clipboard.writeText(createdWebhook.secret);
+      toast.success("Secret copied");
+    } catch {
+      toast.error("Copy failed; select the secret and copy it manually");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <WebhookIcon className="h-5 w-5" />
+
+            <CardTitle>Webhooks</CardTitle>
+          </div>
+          <Button
+            size="sm"
+            onClick={() => {
+              setEditingWebhook(null);
+              setDialogOpen(true);
+            }}
+          >
+            <PlusIcon className="h-4 w-4 mr-2" />
+            Add Webhook
+          </Button>
+        </div>
+        <CardDescription>
+          Notify other tools when interviews, interviewers or users change
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {webhooks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No webhooks yet</p>
+        ) : (
+          <div className="space-y-3">
+            {webhooks.map((webhook) => (
+              <div
+                key={webhook.id}
+                className="flex items-start justify-between gap-4 rounded-md border border-border p-3"
+              >
+                <div className="min-w-0 space-y-1">
+                  <p className="font-mono text-sm truncate" title={webhook.url}>
+                    {webhook.url}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {webhook.description ? `${webhook.description} · ` : ""}
+                    {webhook.event_types.length} event type
+                    {webhook.event_types.length === 1 ? "" : "s"} · secret {webhook.secret_hint}
+                  </p>
+                  {webhook.last_delivery_status && (
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      Last delivery:
+                      <DeliveryStatusBadge
+                        delivery={{ status: webhook.last_delivery_status, error: null, next_attempt_at: null }}
+                      />
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Switch
+                    checked={webhook.active}
+                    onCheckedChange={(checked) => handleToggleActive(webhook, checked)}
+                    disabled={busyId === webhook.id}
+                    aria-label={`${webhook.active ? "Disable" : "Enable"} ${webhook.url}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handlePing(webhook)}
+                    disabled={busyId === webhook.id}
+                    title="Send a test ping"
+                  >
+                    <SendIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditingWebhook(webhook);
+                      setDialogOpen(true);
+                    }}
+                    title="Edit"
+                  >
+                    <PencilIcon className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDeletingWebhook(webhook)}
+                    title="Delete"
+                  >
+                    <Trash2Icon className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Recent Deliveries</Label>
+            <Select
+              value={statusFilter}
+              onValueChange={(value) => setStatusFilter(value as WebhookDeliveryStatus | "all")}
+            >
+              <SelectTrigger className="w-[140px] h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+                <SelectItem value="pending">Retrying</SelectItem>
+                <SelectItem value="succeeded">Delivered</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Event</TableHead>
+                  <TableHead>URL</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground py-6">
+                      No deliveries yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {formatTimestamp(delivery.created_at)}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {delivery.event_type}
+                        {delivery.redelivery_of && (
+                          <span className="ml-1 text-muted-foreground">(redelivery)</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-[200px] truncate" title={delivery.webhook_url}>
+                        {delivery.webhook_url}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {delivery.attempts}
+                        {delivery.response_status !== null && (
+                          <span className="text-muted-foreground"> · {delivery.response_status}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <DeliveryStatusBadge delivery={delivery} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRedeliver(delivery)}
+                          disabled={busyId === delivery.id}
+                          title="Redeliver"
+                        >
+                          <RotateCwIcon className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </CardContent>
+
+      <WebhookDialog
+        open={dialogOpen}
+        onOpenChange={(open) => {
+          setDialogOpen(open);
+          if (!open) setEditingWebhook(null);
+        }}
+        webhook={editingWebhook}
+        onSubmit={handleSubmit}
+      />
+
+      <ConfirmDialog
+        open={!!deletingWebhook}
+        onOpenChange={(open) => !open && setDeletingWebhook(null)}
+        title="Delete Webhook"
+        description={`Stop sending to ${deletingWebhook?.url ?? "this URL"}? Its delivery log is deleted too.`}
+        onConfirm={handleDelete}
+        confirmText="Delete"
+        variant="destructive"
+      />
+
+      <Dialog open={!!createdWebhook} onOpenChange={(open) => !open && setCreatedWebhook(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Webhook Added</DialogTitle>
+            <DialogDescription>
+              Copy the signing secret now; it is not shown again. Receivers
+              check the X-Roster-Signature header with it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2 py-4">
+            <Input readOnly value={createdWebhook?.secret ?? ""} className="font-mono text-xs" />
+            <Button variant="outline" onClick={handleCopySecret} aria-label="Copy secret">
+              <CopyIcon className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setCreatedWebhook(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
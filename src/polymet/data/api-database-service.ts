@@ -5,12 +5,58 @@
  * Maintains the same interface as the original DatabaseService
  */
 
-import { apiClient } from '@/lib/api-client'
+import { apiClient, ApiError } from '@/lib/api-client'
+import { fetchAllPages, toQueryString } from '@/lib/pagination-utils'
 import type {
   Interviewer,
   InterviewEvent,
+  EventSeries,
+  SeriesScope,
+  BulkStatusResult,
+  Candidate,
+  CandidateInterview,
+  Position,
+  PositionInput,
+  CalendarFeed,
+  CalendarSyncStatus,
+  CalendarSyncResult,
+  InterviewLoop,
+  CreateLoopInput,
+  Scorecard,
+  ScorecardInput,
   AuditLog,
   AuditContext,
+  InterviewerAvailability,
+  InterviewerMatch,
+  InterviewerMatchQuery,
+  LoadHeatmap,
+  Page,
+  EventListQuery,
+  MyInterviewsQuery,
+  InterviewHistory,
+  EventStats,
+  InterviewerListQuery,
+  InterviewerStats,
+  AuditLogListQuery,
+  AuditLogStats,
+  KpiQuery,
+  KpiReport,
+  ReliabilityList,
+  ReliabilityReport,
+  MarkingInbox,
+  MarkingInboxQuery,
+  NotificationPreferences,
+  NotificationDelivery,
+  NotificationDeliveryQuery,
+  DailySummaryResult,
+  AppNotification,
+  AppNotificationQuery,
+  AppNotificationList,
+  Webhook,
+  CreatedWebhook,
+  WebhookInput,
+  WebhookDelivery,
+  WebhookDeliveryQuery,
 } from './database-service'
 
 class ApiDatabaseService {
@@ -38,24 +84,40 @@ class ApiDatabaseService {
   // INTERVIEWERS
   // ============================================================================
 
-  async getInterviewers(): Promise<Interviewer[]> {
+  /**
+   * One page of the roster, filtered and sorted on the server
+   */
+  async getInterviewersPage(
+    query: InterviewerListQuery = {}
+  ): Promise<Page<Interviewer>> {
     try {
-      const response = await apiClient.get<{
-        data: Interviewer[]
-        pagination: {
-          total: number
-          limit: number
-          offset: number
-          hasMore: boolean
-        }
-      }>('/interviewers')
-      return response.data
+      return await apiClient.get<Page<Interviewer>>(
+        `/interviewers${toQueryString(query)}`
+      )
     } catch (error) {
       console.error('Error fetching interviewers:', error)
       throw error
     }
   }
 
+  /**
+   * The whole roster (every page), sorted by name
+   */
+  async getInterviewers(): Promise<Interviewer[]> {
+    return fetchAllPages((offset, limit) =>
+      this.getInterviewersPage({ sort: 'name', order: 'asc', offset, limit })
+    )
+  }
+
+  async getInterviewerStats(): Promise<InterviewerStats> {
+    try {
+      return await apiClient.get<InterviewerStats>('/interviewers/stats')
+    } catch (error) {
+      console.error('Error fetching interviewer stats:', error)
+      throw error
+    }
+  }
+
   async getInterviewerByEmail(email: string): Promise<Interviewer | null> {
     try {
       const response = await apiClient.get<{
@@ -124,44 +186,334 @@ class ApiDatabaseService {
     }
   }
 
+  async findMatchingInterviewers(
+    query: InterviewerMatchQuery
+  ): Promise<InterviewerMatch[]> {
+    try {
+      const params = new URLSearchParams({
+        skills: query.skills.join(','),
+        start_time: query.start_time,
+        duration_minutes: String(query.duration_minutes),
+      })
+      if (query.limit) {
+        params.set('limit', String(query.limit))
+      }
+
+      const response = await apiClient.get<{
+        data: InterviewerMatch[]
+      }>(`/interviewers/match?${params.toString()}`)
+      return response.data
+    } catch (error) {
+      console.error('Error matching interviewers:', error)
+      throw error
+    }
+  }
+
   // ============================================================================
-  // INTERVIEW EVENTS
+  // INTERVIEWER AVAILABILITY
   // ============================================================================
 
-  async getInterviewEvents(): Promise<InterviewEvent[]> {
+  async getAllAvailability(): Promise<InterviewerAvailability[]> {
     try {
       const response = await apiClient.get<{
-        data: InterviewEvent[]
-        pagination: {
-          total: number
-          limit: number
-          offset: number
-          hasMore: boolean
-        }
-      }>('/events')
+        data: InterviewerAvailability[]
+      }>('/interviewers/availability')
       return response.data
+    } catch (error) {
+      console.error('Error fetching availability:', error)
+      throw error
+    }
+  }
+
+  async getInterviewerAvailability(
+    interviewerId: string
+  ): Promise<InterviewerAvailability> {
+    try {
+      return await apiClient.get<InterviewerAvailability>(
+        `/interviewers/${interviewerId}/availability`
+      )
+    } catch (error) {
+      console.error('Error fetching interviewer availability:', error)
+      throw error
+    }
+  }
+
+  async updateInterviewerAvailability(
+    interviewerId: string,
+    data: Pick<InterviewerAvailability, 'weekly' | 'overrides' | 'blackouts'>
+  ): Promise<InterviewerAvailability> {
+    try {
+      return await apiClient.put<InterviewerAvailability>(
+        `/interviewers/${interviewerId}/availability`,
+        data
+      )
+    } catch (error) {
+      console.error('Error updating interviewer availability:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // CANDIDATES
+  // ============================================================================
+
+  /**
+   * Every candidate (all pages), optionally matching a search
+   */
+  async getCandidates(search?: string): Promise<Candidate[]> {
+    try {
+      return await fetchAllPages((offset, limit) =>
+        apiClient.get<Page<Candidate>>(
+          `/candidates${toQueryString({ search, offset, limit })}`
+        )
+      )
+    } catch (error) {
+      console.error('Error fetching candidates:', error)
+      throw error
+    }
+  }
+
+  async getCandidate(id: string): Promise<Candidate> {
+    try {
+      return await apiClient.get<Candidate>(`/candidates/${id}`)
+    } catch (error) {
+      console.error('Error fetching candidate:', error)
+      throw error
+    }
+  }
+
+  async getCandidateInterviews(id: string): Promise<CandidateInterview[]> {
+    try {
+      const response = await apiClient.get<{
+        data: CandidateInterview[]
+      }>(`/candidates/${id}/interviews`)
+      return response.data
+    } catch (error) {
+      console.error('Error fetching candidate interviews:', error)
+      throw error
+    }
+  }
+
+  async createCandidate(
+    data: Pick<Candidate, 'name'> &
+      Partial<Pick<Candidate, 'email' | 'phone' | 'position' | 'notes'>>
+  ): Promise<Candidate> {
+    try {
+      return await apiClient.post<Candidate>('/candidates', data)
+    } catch (error) {
+      console.error('Error creating candidate:', error)
+      throw error
+    }
+  }
+
+  async updateCandidate(
+    id: string,
+    data: Partial<Pick<Candidate, 'name' | 'email' | 'phone' | 'position' | 'notes'>>
+  ): Promise<Candidate> {
+    try {
+      return await apiClient.put<Candidate>(`/candidates/${id}`, data)
+    } catch (error) {
+      console.error('Error updating candidate:', error)
+      throw error
+    }
+  }
+
+  async deleteCandidate(id: string): Promise<void> {
+    try {
+      await apiClient.delete(`/candidates/${id}`)
+    } catch (error) {
+      console.error('Error deleting candidate:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // POSITIONS
+  // ============================================================================
+
+  /**
+   * Every position (all pages), optionally with one status
+   */
+  async getPositions(status?: Position['status']): Promise<Position[]> {
+    try {
+      return await fetchAllPages((offset, limit) =>
+        apiClient.get<Page<Position>>(
+          `/positions${toQueryString({ status, offset, limit })}`
+        )
+      )
+    } catch (error) {
+      console.error('Error fetching positions:', error)
+      throw error
+    }
+  }
+
+  async createPosition(data: PositionInput): Promise<Position> {
+    try {
+      return await apiClient.post<Position>('/positions', data)
+    } catch (error) {
+      console.error('Error creating position:', error)
+      throw error
+    }
+  }
+
+  async updatePosition(id: string, data: Partial<PositionInput>): Promise<Position> {
+    try {
+      return await apiClient.put<Position>(`/positions/${id}`, data)
+    } catch (error) {
+      console.error('Error updating position:', error)
+      throw error
+    }
+  }
+
+  async deletePosition(id: string): Promise<void> {
+    try {
+      await apiClient.delete(`/positions/${id}`)
+    } catch (error) {
+      console.error('Error deleting position:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // CALENDAR FEEDS
+  // ============================================================================
+
+  async getCalendarFeeds(): Promise<CalendarFeed[]> {
+    try {
+      const response = await apiClient.get<{
+        data: CalendarFeed[]
+      }>('/calendar/feeds')
+      return response.data
+    } catch (error) {
+      console.error('Error fetching calendar feeds:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Omit the interviewer for a whole-roster feed (admin/talent)
+   */
+  async createCalendarFeed(interviewerEmail?: string): Promise<CalendarFeed> {
+    try {
+      return await apiClient.post<CalendarFeed>(
+        '/calendar/feeds',
+        interviewerEmail ? { interviewer_email: interviewerEmail } : {}
+      )
+    } catch (error) {
+      console.error('Error creating calendar feed:', error)
+      throw error
+    }
+  }
+
+  async revokeCalendarFeed(id: string): Promise<void> {
+    try {
+      await apiClient.delete(`/calendar/feeds/${id}`)
+    } catch (error) {
+      console.error('Error revoking calendar feed:', error)
+      throw error
+    }
+  }
+
+  async getCalendarSyncStatus(): Promise<CalendarSyncStatus> {
+    try {
+      return await apiClient.get<CalendarSyncStatus>('/calendar-sync/status')
+    } catch (error) {
+      console.error('Error fetching calendar sync status:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Omit the interviewer to sync everyone with calendar sync enabled
+   * `full` ignores delta links and re-reads the whole sync window
+   */
+  async runCalendarSync(options: {
+    interviewerEmail?: string
+    full?: boolean
+  } = {}): Promise<CalendarSyncResult[]> {
+    try {
+      const response = await apiClient.post<{
+        data: CalendarSyncResult[]
+      }>('/calendar-sync/run', {
+        ...(options.interviewerEmail ? { interviewer_email: options.interviewerEmail } : {}),
+        full: options.full ?? false,
+      })
+      return response.data
+    } catch (error) {
+      console.error('Error running calendar sync:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // INTERVIEW EVENTS
+  // ============================================================================
+
+  /**
+   * One page of events, filtered and sorted on the server
+   */
+  async getInterviewEventsPage(
+    query: EventListQuery = {}
+  ): Promise<Page<InterviewEvent>> {
+    try {
+      return await apiClient.get<Page<InterviewEvent>>(
+        `/events${toQueryString(query)}`
+      )
     } catch (error) {
       console.error('Error fetching events:', error)
       throw error
     }
   }
 
+  /**
+   * Every event (all pages), or every event in a date range
+   * (dates are YYYY-MM-DD, both inclusive)
+   */
+  async getInterviewEvents(range?: {
+    start_date: string
+    end_date: string
+  }): Promise<InterviewEvent[]> {
+    return fetchAllPages((offset, limit) =>
+      this.getInterviewEventsPage({ ...range, offset, limit })
+    )
+  }
+
+  /**
+   * Event counts by status, optionally for one interviewer or date range
+   */
+  async getEventStats(
+    query: Pick<EventListQuery, 'interviewer_email' | 'start_date' | 'end_date'> = {}
+  ): Promise<EventStats> {
+    try {
+      return await apiClient.get<EventStats>(
+        `/events/stats${toQueryString(query)}`
+      )
+    } catch (error) {
+      console.error('Error fetching event stats:', error)
+      throw error
+    }
+  }
+
   async getInterviewEventsByInterviewer(
     email: string
   ): Promise<InterviewEvent[]> {
     try {
-      const response = await apiClient.get<{
-        data: InterviewEvent[]
-      }>(`/events?interviewer_email=${encodeURIComponent(email)}`)
-      return response.data
+      return await fetchAllPages((offset, limit) =>
+        this.getInterviewEventsPage({ interviewer_email: email, offset, limit })
+      )
     } catch (error) {
       console.error('Error fetching events by interviewer:', error)
       return []
     }
   }
 
+  /**
+   * With `rrule` a recurring series is created and its first occurrence returned
+   */
   async createInterviewEvent(
-    data: Omit<InterviewEvent, 'id' | 'created_at' | 'updated_at'>
+    data: Omit<InterviewEvent, 'id' | 'created_at' | 'updated_at'> & {
+      rrule?: string
+    }
   ): Promise<InterviewEvent> {
     try {
       const event = await apiClient.post<InterviewEvent>('/events', data)
@@ -172,12 +524,20 @@ class ApiDatabaseService {
     }
   }
 
+  /**
+   * scope applies the change to this and following, or all, occurrences of
+   * a recurring series (only pending occurrences follow)
+   */
   async updateInterviewEvent(
     id: string,
-    data: Partial<Omit<InterviewEvent, 'id' | 'created_at'>>
+    data: Partial<Omit<InterviewEvent, 'id' | 'created_at'>>,
+    scope: SeriesScope = 'this'
   ): Promise<InterviewEvent> {
     try {
-      const updated = await apiClient.put<InterviewEvent>(`/events/${id}`, data)
+      const updated = await apiClient.put<InterviewEvent>(
+        `/events/${id}?scope=${scope}`,
+        data
+      )
       return updated
     } catch (error) {
       console.error('Error updating event:', error)
@@ -185,15 +545,481 @@ class ApiDatabaseService {
     }
   }
 
-  async deleteInterviewEvent(id: string): Promise<void> {
+  /**
+   * Sets the status of several events in one transaction; the server
+   * records the signed-in user as marked_by
+   */
+  async updateInterviewEventStatuses(
+    ids: string[],
+    status: InterviewEvent['status']
+  ): Promise<BulkStatusResult> {
+    try {
+      return await apiClient.post<BulkStatusResult>('/events/bulk-status', {
+        event_ids: ids,
+        status,
+      })
+    } catch (error) {
+      console.error('Error updating event statuses:', error)
+      throw error
+    }
+  }
+
+  /**
+   * scope deletes this and following, or all, pending occurrences of a
+   * recurring series (marked occurrences are kept as standalone events)
+   */
+  async deleteInterviewEvent(
+    id: string,
+    scope: SeriesScope = 'this'
+  ): Promise<void> {
     try {
-      await apiClient.delete(`/events/${id}`)
+      await apiClient.delete(`/events/${id}?scope=${scope}`)
     } catch (error) {
       console.error('Error deleting event:', error)
       throw error
     }
   }
 
+  async getEventSeries(id: string): Promise<EventSeries> {
+    try {
+      return await apiClient.get<EventSeries>(`/events/series/${id}`)
+    } catch (error) {
+      console.error('Error fetching event series:', error)
+      throw error
+    }
+  }
+
+  async getLoadHeatmap(weeks: number = 8): Promise<LoadHeatmap> {
+    try {
+      return await apiClient.get<LoadHeatmap>(`/events/load?weeks=${weeks}`)
+    } catch (error) {
+      console.error('Error fetching interview load:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // SCORECARDS
+  // ============================================================================
+
+  async getScorecard(eventId: string): Promise<Scorecard | null> {
+    try {
+      return await apiClient.get<Scorecard>(`/events/${eventId}/scorecard`)
+    } catch (error) {
+      // 404 means no scorecard has been submitted yet
+      if (error instanceof ApiError && error.status === 404) {
+        return null
+      }
+      console.error('Error fetching scorecard:', error)
+      throw error
+    }
+  }
+
+  async getScorecards(eventIds: string[]): Promise<Scorecard[]> {
+    if (eventIds.length === 0) return []
+
+    try {
+      const response = await apiClient.get<{
+        data: Scorecard[]
+      }>(`/events/scorecards?event_ids=${encodeURIComponent(eventIds.join(','))}`)
+      return response.data
+    } catch (error) {
+      console.error('Error fetching scorecards:', error)
+      throw error
+    }
+  }
+
+  async saveScorecard(
+    eventId: string,
+    data: ScorecardInput
+  ): Promise<Scorecard> {
+    try {
+      return await apiClient.put<Scorecard>(`/events/${eventId}/scorecard`, data)
+    } catch (error) {
+      console.error('Error saving scorecard:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // INTERVIEW LOOPS
+  // ============================================================================
+
+  /**
+   * Every interview loop (all pages)
+   */
+  async getLoops(): Promise<InterviewLoop[]> {
+    try {
+      return await fetchAllPages((offset, limit) =>
+        apiClient.get<Page<InterviewLoop>>(`/loops${toQueryString({ offset, limit })}`)
+      )
+    } catch (error) {
+      console.error('Error fetching loops:', error)
+      throw error
+    }
+  }
+
+  async getLoop(id: string): Promise<InterviewLoop> {
+    try {
+      return await apiClient.get<InterviewLoop>(`/loops/${id}`)
+    } catch (error) {
+      console.error('Error fetching loop:', error)
+      throw error
+    }
+  }
+
+  async createLoop(data: CreateLoopInput): Promise<InterviewLoop> {
+    try {
+      return await apiClient.post<InterviewLoop>('/loops', data)
+    } catch (error) {
+      console.error('Error creating loop:', error)
+      throw error
+    }
+  }
+
+  async updateLoop(
+    id: string,
+    data: Partial<Pick<InterviewLoop, 'position' | 'status' | 'notes'>>
+  ): Promise<InterviewLoop> {
+    try {
+      return await apiClient.put<InterviewLoop>(`/loops/${id}`, data)
+    } catch (error) {
+      console.error('Error updating loop:', error)
+      throw error
+    }
+  }
+
+  async deleteLoop(id: string): Promise<void> {
+    try {
+      await apiClient.delete(`/loops/${id}`)
+    } catch (error) {
+      console.error('Error deleting loop:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // ANALYTICS
+  // ============================================================================
+
+  /**
+   * KPIs for a date range, aggregated on the server
+   */
+  async getKpis(query: KpiQuery = {}): Promise<KpiReport> {
+    try {
+      return await apiClient.get<KpiReport>(
+        `/analytics/kpis${toQueryString(query)}`
+      )
+    } catch (error) {
+      console.error('Error fetching KPIs:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Reliability score and attention flag of every interviewer
+   */
+  async getReliability(): Promise<ReliabilityList> {
+    try {
+      return await apiClient.get<ReliabilityList>('/analytics/reliability')
+    } catch (error) {
+      console.error('Error fetching interviewer reliability:', error)
+      throw error
+    }
+  }
+
+  /**
+   * One interviewer's reliability with the previous window and weekly trend
+   */
+  async getInterviewerReliability(email: string): Promise<ReliabilityReport> {
+    try {
+      return await apiClient.get<ReliabilityReport>(
+        `/analytics/reliability/${encodeURIComponent(email)}`
+      )
+    } catch (error) {
+      console.error('Error fetching interviewer reliability report:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // NEEDS MARKING
+  // ============================================================================
+
+  /**
+   * Past-due pending interviews grouped by coordinator
+   * Mark them with updateInterviewEvent (status, marked_by, marked_at)
+   */
+  async getMarkingInbox(query: MarkingInboxQuery = {}): Promise<MarkingInbox> {
+    try {
+      return await apiClient.get<MarkingInbox>(
+        `/marking/inbox${toQueryString(query)}`
+      )
+    } catch (error) {
+      console.error('Error fetching marking inbox:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Escalate interviews left unmarked past the escalation delay now (admin)
+   */
+  async escalateOverdueMarking(): Promise<{ escalated: { id: string }[] }> {
+    try {
+      return await apiClient.post<{ escalated: { id: string }[] }>(
+        '/marking/escalate',
+        {}
+      )
+    } catch (error) {
+      console.error('Error escalating overdue marking:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // MY INTERVIEWS
+  // ============================================================================
+
+  /**
+   * The signed-in user's upcoming or past interviews
+   */
+  async getMyInterviews(
+    query: MyInterviewsQuery = {}
+  ): Promise<Page<InterviewEvent>> {
+    try {
+      return await apiClient.get<Page<InterviewEvent>>(
+        `/me/events${toQueryString(query)}`
+      )
+    } catch (error) {
+      console.error('Error fetching my interviews:', error)
+      throw error
+    }
+  }
+
+  async getMyInterviewHistory(): Promise<InterviewHistory> {
+    try {
+      return await apiClient.get<InterviewHistory>('/me/history')
+    } catch (error) {
+      console.error('Error fetching interview history:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Confirm the signed-in user will attend an upcoming interview
+   */
+  async confirmMyInterview(id: string): Promise<InterviewEvent> {
+    try {
+      return await apiClient.post<InterviewEvent>(`/me/events/${id}/confirm`, {})
+    } catch (error) {
+      console.error('Error confirming interview:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Flag a conflict with an upcoming interview, note says what clashes
+   */
+  async flagMyInterviewConflict(id: string, note: string): Promise<InterviewEvent> {
+    try {
+      return await apiClient.post<InterviewEvent>(`/me/events/${id}/conflict`, {
+        note,
+      })
+    } catch (error) {
+      console.error('Error flagging interview conflict:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // NOTIFICATIONS
+  // ============================================================================
+
+  /**
+   * The signed-in user's in-app notifications, latest first
+   */
+  async getNotifications(query: AppNotificationQuery = {}): Promise<AppNotificationList> {
+    try {
+      return await apiClient.get<AppNotificationList>(`/notifications${toQueryString(query)}`)
+    } catch (error) {
+      console.error('Error fetching notifications:', error)
+      throw error
+    }
+  }
+
+  async getUnreadNotificationCount(): Promise<number> {
+    try {
+      const { unread } = await apiClient.get<{ unread: number }>('/notifications/unread-count')
+      return unread
+    } catch (error) {
+      console.error('Error fetching unread notification count:', error)
+      throw error
+    }
+  }
+
+  async markNotificationRead(id: string): Promise<AppNotification> {
+    try {
+      return await apiClient.post<AppNotification>(
+        `/notifications/${encodeURIComponent(id)}/read`,
+        {}
+      )
+    } catch (error) {
+      console.error('Error marking notification as read:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Mark every notification of the signed-in user as read
+   * @returns Number of notifications updated
+   */
+  async markAllNotificationsRead(): Promise<number> {
+    try {
+      const { updated } = await apiClient.post<{ updated: number }>('/notifications/read-all', {})
+      return updated
+    } catch (error) {
+      console.error('Error marking all notifications as read:', error)
+      throw error
+    }
+  }
+
+  async getNotificationPreferences(): Promise<NotificationPreferences> {
+    try {
+      return await apiClient.get<NotificationPreferences>('/notifications/preferences')
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Opt the signed-in user in to or out of notifications
+   */
+  async updateNotificationPreferences(
+    preferences: Partial<Omit<NotificationPreferences, 'updated_at'>>
+  ): Promise<NotificationPreferences> {
+    try {
+      return await apiClient.put<NotificationPreferences>(
+        '/notifications/preferences',
+        preferences
+      )
+    } catch (error) {
+      console.error('Error updating notification preferences:', error)
+      throw error
+    }
+  }
+
+  async getNotificationDeliveries(
+    query: NotificationDeliveryQuery = {}
+  ): Promise<Page<NotificationDelivery>> {
+    try {
+      return await apiClient.get<Page<NotificationDelivery>>(
+        `/notifications/deliveries${toQueryString(query)}`
+      )
+    } catch (error) {
+      console.error('Error fetching notification deliveries:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Send the daily summary now (recipients who already got it are skipped)
+   */
+  async sendDailySummary(): Promise<DailySummaryResult> {
+    try {
+      return await apiClient.post<DailySummaryResult>('/notifications/daily-summary', {})
+    } catch (error) {
+      console.error('Error sending daily summary:', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // WEBHOOKS
+  // ============================================================================
+
+  async getWebhooks(): Promise<Webhook[]> {
+    try {
+      const { data } = await apiClient.get<{ data: Webhook[] }>('/webhooks')
+      return data
+    } catch (error) {
+      console.error('Error fetching webhooks:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Subscribe a URL to event types
+   * The response carries the signing secret; it is not shown again
+   */
+  async createWebhook(input: WebhookInput): Promise<CreatedWebhook> {
+    try {
+      return await apiClient.post<CreatedWebhook>('/webhooks', input)
+    } catch (error) {
+      console.error('Error creating webhook:', error)
+      throw error
+    }
+  }
+
+  async updateWebhook(id: string, updates: Partial<WebhookInput>): Promise<Webhook> {
+    try {
+      return await apiClient.put<Webhook>(`/webhooks/${encodeURIComponent(id)}`, updates)
+    } catch (error) {
+      console.error('Error updating webhook:', error)
+      throw error
+    }
+  }
+
+  async deleteWebhook(id: string): Promise<void> {
+    try {
+      await apiClient.delete(`/webhooks/${encodeURIComponent(id)}`)
+    } catch (error) {
+      console.error('Error deleting webhook:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Send a test delivery to a webhook's URL
+   */
+  async pingWebhook(id: string): Promise<WebhookDelivery> {
+    try {
+      return await apiClient.post<WebhookDelivery>(`/webhooks/${encodeURIComponent(id)}/ping`, {})
+    } catch (error) {
+      console.error('Error pinging webhook:', error)
+      throw error
+    }
+  }
+
+  async getWebhookDeliveries(
+    query: WebhookDeliveryQuery = {}
+  ): Promise<Page<WebhookDelivery>> {
+    try {
+      return await apiClient.get<Page<WebhookDelivery>>(
+        `/webhooks/deliveries${toQueryString(query)}`
+      )
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Send a delivery again with the same payload
+   * @returns The new delivery after its first attempt
+   */
+  async redeliverWebhookDelivery(id: string): Promise<WebhookDelivery> {
+    try {
+      return await apiClient.post<WebhookDelivery>(
+        `/webhooks/deliveries/${encodeURIComponent(id)}/redeliver`,
+        {}
+      )
+    } catch (error) {
+      console.error('Error redelivering webhook delivery:', error)
+      throw error
+    }
+  }
+
   // ============================================================================
   // AUDIT LOGS
   // ============================================================================
@@ -220,24 +1046,47 @@ class ApiDatabaseService {
     }
   }
 
-  async getAuditLogs(): Promise<AuditLog[]> {
+  /**
+   * One page of audit logs, filtered and sorted on the server
+   */
+  async getAuditLogsPage(
+    query: AuditLogListQuery = {}
+  ): Promise<Page<AuditLog>> {
     try {
-      const response = await apiClient.get<{
-        data: AuditLog[]
-        pagination: {
-          total: number
-          limit: number
-          offset: number
-          hasMore: boolean
-        }
-      }>('/audit-logs')
-      return response.data
+      return await apiClient.get<Page<AuditLog>>(
+        `/audit-logs${toQueryString(query)}`
+      )
     } catch (error) {
       console.error('Error fetching audit logs:', error)
       throw error
     }
   }
 
+  /**
+   * Every audit log (all pages), newest first
+   */
+  async getAuditLogs(): Promise<AuditLog[]> {
+    return fetchAllPages((offset, limit) =>
+      this.getAuditLogsPage({ offset, limit })
+    )
+  }
+
+  /**
+   * Audit log counts by action, optionally for a date range (admin only)
+   */
+  async getAuditLogStats(
+    range: Pick<AuditLogListQuery, 'start_date' | 'end_date'> = {}
+  ): Promise<AuditLogStats> {
+    try {
+      return await apiClient.get<AuditLogStats>(
+        `/audit-logs/stats${toQueryString(range)}`
+      )
+    } catch (error) {
+      console.error('Error fetching audit log stats:', error)
+      throw error
+    }
+  }
+
   // ============================================================================
   // DATABASE MANAGEMENT
   // ============================================================================
@@ -21,6 +21,9 @@ export interface Interviewer {
   is_active: boolean;
   calendar_sync_enabled: boolean;
   timezone?: string;
+  max_interviews_per_day?: number | null;
+  max_interviews_per_week?: number | null;
+  cap_enforcement?: "block" | "warn";
   calendar_sync_consent_at?: string | null;
   last_synced_at?: string | null;
   created_by?: string;
@@ -37,7 +40,9 @@ export interface InterviewEvent {
   start_time: string;
   end_time: string;
   skills_assessed?: string[] | null;
+  candidate_id?: string | null;
   candidate_name?: string;
+  position_id?: string | null;
   position?: string;
   scheduled_date?: string;
   duration_minutes?: number;
@@ -45,10 +50,208 @@ export interface InterviewEvent {
   notes: string | null;
   marked_by?: string | null;
   marked_at?: string | null;
+  coordinator_email?: string | null; // Responsible for marking, defaults to the scheduler
+  interviewer_response?: InterviewerResponse | null; // Cleared when the interview moves
+  interviewer_response_note?: string | null; // What clashes, for conflicts
+  interviewer_responded_at?: string | null;
+  loop_id?: string | null;
+  loop_stage?: number | null; // 1-based order within the loop
+  series_id?: string | null;
+  series_index?: number | null; // 0-based occurrence within the series
   created_at: string;
   updated_at?: string;
+  warnings?: string[]; // Interview cap warnings on create/update responses
 }
 
+/**
+ * Interviewer's answer to an upcoming interview ("My interviews")
+ */
+export type InterviewerResponse = "confirmed" | "conflict";
+
+/**
+ * Recurring interview series
+ * Occurrences are ordinary events linked by series_id
+ */
+export interface EventSeries {
+  id: string;
+  interviewer_email: string;
+  rrule: string; // RRULE subset: FREQ=DAILY|WEEKLY, INTERVAL, COUNT or UNTIL
+  dtstart: string; // ISO start of the first occurrence
+  duration_minutes: number;
+  expanded_count: number; // Occurrences created so far
+  skills_assessed: string[];
+  candidate_id: string | null;
+  candidate_name: string | null;
+  position_id: string | null;
+  position: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Occurrences of a series an edit or delete applies to
+export type SeriesScope = "this" | "following" | "all";
+
+export interface Candidate {
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  position: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  interview_count?: number; // List responses only
+  last_interview_at?: string | null; // List responses only
+}
+
+/**
+ * Interview in a candidate's loop, with the interviewer's display name
+ */
+export interface CandidateInterview extends InterviewEvent {
+  interviewer_name: string | null;
+}
+
+export type PositionStatus = "open" | "closed";
+
+/**
+ * Position / requisition that interviews are held for
+ */
+export interface Position {
+  id: string;
+  title: string;
+  department: string | null;
+  hiring_manager_email: string | null;
+  required_skills: string[];
+  status: PositionStatus;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  interview_count?: number; // List responses only
+}
+
+export type PositionInput = Pick<Position, "title"> &
+  Partial<
+    Pick<Position, "department" | "hiring_manager_email" | "required_skills" | "status">
+  >;
+
+/**
+ * Subscribable iCalendar feed
+ * interviewer_email is null for the whole-roster feed
+ */
+export interface CalendarFeed {
+  id: string;
+  scope: "interviewer" | "roster";
+  interviewer_email: string | null;
+  interviewer_name: string | null;
+  url: string; // Contains the secret token
+  created_by: string;
+  created_at: string;
+  last_accessed_at: string | null; // Last fetch by a calendar app
+  revoked_at: string | null;
+}
+
+/**
+ * Outlook calendar sync state of one interviewer
+ */
+export interface CalendarSyncInterviewer {
+  interviewer_email: string;
+  interviewer_name: string;
+  is_active: boolean;
+  calendar_sync_enabled: boolean;
+  last_synced_at: string | null; // Last successful run (ISO)
+  last_run_at: string | null; // SQLite UTC datetime
+  last_status: "ok" | "error" | null;
+  last_error: string | null;
+  events_created: number;
+  events_updated: number;
+  events_cancelled: number;
+}
+
+export interface CalendarSyncStatus {
+  configured: boolean; // Azure credentials set on the server
+  running: boolean;
+  interval_minutes: number; // 0 = manual runs only
+  interviewers: CalendarSyncInterviewer[];
+}
+
+export interface CalendarSyncResult {
+  interviewer_email: string;
+  status: "ok" | "error";
+  error?: string;
+  last_synced_at?: string;
+  created?: number;
+  updated?: number;
+  cancelled?: number;
+  skipped?: number;
+}
+
+export type LoopStatus = "scheduled" | "in_progress" | "completed" | "cancelled";
+
+/**
+ * Interview loop: the ordered interviews of one candidate for one position
+ */
+export interface InterviewLoop {
+  id: string;
+  candidate_id: string;
+  candidate_name: string;
+  position_id: string | null;
+  position: string | null;
+  status: LoopStatus;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  event_count?: number; // List responses only
+  completed_count?: number; // List responses only
+  start_time?: string | null; // List responses only, first interview
+  events?: InterviewEvent[]; // Single-loop responses only
+  warnings?: string[]; // Interview cap warnings on create responses
+}
+
+export interface LoopStage {
+  interviewer_email: string;
+  start_time: string;
+  end_time: string;
+  skills_assessed?: string[];
+  notes?: string;
+}
+
+export interface CreateLoopInput {
+  candidate_id: string;
+  position_id?: string;
+  position?: string;
+  notes?: string;
+  stages: LoopStage[];
+}
+
+export type ScorecardRecommendation =
+  | "strong_hire"
+  | "hire"
+  | "no_hire"
+  | "strong_no_hire";
+
+/**
+ * Interviewer feedback for one attended interview
+ * ratings maps each assessed skill to a 1-5 score
+ */
+export interface Scorecard {
+  id: string;
+  event_id: string;
+  ratings: Record<string, number>;
+  recommendation: ScorecardRecommendation;
+  feedback: string | null;
+  submitted_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ScorecardInput = Pick<Scorecard, "ratings" | "recommendation"> & {
+  feedback?: string;
+};
+
 export interface AuditLog {
   id: string;
   user_email: string;
@@ -60,6 +263,501 @@ export interface AuditLog {
   timestamp: string;
 }
 
+/**
+ * Interviewer availability (free/busy model)
+ * Times are HH:MM wall-clock values in the interviewer's timezone
+ */
+export interface TimeWindow {
+  start_time: string;
+  end_time: string;
+}
+
+export interface AvailabilityWindow extends TimeWindow {
+  day_of_week: number; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface AvailabilityOverride extends TimeWindow {
+  date: string; // YYYY-MM-DD
+}
+
+export interface AvailabilityBlackout {
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD
+  reason?: string | null;
+}
+
+export interface InterviewerAvailability {
+  interviewer_id: string;
+  interviewer_email: string;
+  timezone: string | null;
+  weekly: AvailabilityWindow[];
+  overrides: AvailabilityOverride[];
+  blackouts: AvailabilityBlackout[];
+}
+
+/**
+ * Event that clashes with a create/update (409 response body)
+ */
+export interface EventConflict {
+  id: string;
+  start_time: string;
+  end_time: string;
+  candidate_name: string | null;
+  status: InterviewEvent["status"];
+}
+
+/**
+ * Result of a bulk status change (POST /events/bulk-status)
+ */
+export interface BulkStatusResult {
+  updated: InterviewEvent[];
+  unchanged: string[]; // IDs already in that status
+}
+
+/**
+ * Weekly interview load per interviewer (fairness heatmap)
+ * counts[i] is the number of non-cancelled interviews in weeks[i]
+ */
+export interface LoadHeatmap {
+  weeks: string[]; // Monday of each week, YYYY-MM-DD
+  data: {
+    interviewer_email: string;
+    name: string;
+    counts: number[];
+    max_interviews_per_week: number | null;
+  }[];
+}
+
+export type SlotAvailability =
+  | "available"
+  | "unrestricted"
+  | "outside_window"
+  | "blackout"
+  | "busy" // Another interview within the scheduling buffer
+  | "capped"; // Daily/weekly cap reached (block mode)
+
+export interface InterviewerMatch {
+  interviewer: Interviewer;
+  score: number; // 0-1
+  matched_skills: string[];
+  missing_skills: string[];
+  skill_overlap: number; // 0-1
+  week_load: number;
+  ghost_rate: number | null; // null when no marked interviews
+  availability: SlotAvailability;
+  cap_warnings: string[]; // Caps the slot would exceed in warn mode
+}
+
+export interface InterviewerMatchQuery {
+  skills: string[];
+  start_time: string; // ISO datetime
+  duration_minutes: number;
+  limit?: number;
+}
+
+/**
+ * Server-side paging, sorting and filtering of list endpoints
+ * limit is at most 100 per request
+ */
+export type SortOrder = "asc" | "desc";
+
+export interface Pagination {
+  total: number;
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+export interface Page<T> {
+  data: T[];
+  pagination: Pagination;
+}
+
+/**
+ * Query for the signed-in user's interviews (GET /me/events)
+ */
+export interface MyInterviewsQuery {
+  when?: "upcoming" | "past"; // Upcoming: not yet ended, soonest first
+  limit?: number;
+  offset?: number;
+}
+
+interface InterviewHistoryCounts {
+  total: number;
+  attended: number;
+  ghosted: number;
+  cancelled: number;
+  pending: number;
+}
+
+/**
+ * Started interviews per day (in the interviewer's zone) and by status
+ */
+export interface InterviewHistory {
+  time_zone: string;
+  days: ({ date: string } & InterviewHistoryCounts)[]; // Oldest first
+  totals: InterviewHistoryCounts;
+}
+
+export interface ListQuery<TSort extends string> {
+  search?: string;
+  sort?: TSort;
+  order?: SortOrder;
+  limit?: number;
+  offset?: number;
+}
+
+export type EventSortField =
+  | "start_time"
+  | "interviewer_email"
+  | "candidate_name"
+  | "status"
+  | "created_at";
+
+export interface EventListQuery extends ListQuery<EventSortField> {
+  interviewer_email?: string;
+  status?: InterviewEvent["status"];
+  start_date?: string; // YYYY-MM-DD
+  end_date?: string; // YYYY-MM-DD
+}
+
+export type InterviewerSortField =
+  | "name"
+  | "email"
+  | "role"
+  | "created_at"
+  | "reliability"; // Reliability score over the rolling window
+
+export interface InterviewerListQuery extends ListQuery<InterviewerSortField> {
+  role?: string;
+  is_active?: boolean;
+}
+
+export type AuditLogSortField = "timestamp" | "user_email" | "action" | "entity_type";
+
+export interface AuditLogListQuery extends ListQuery<AuditLogSortField> {
+  action_prefix?: string; // Action family, e.g. CREATE
+  start_date?: string; // YYYY-MM-DD
+  end_date?: string; // YYYY-MM-DD
+}
+
+/**
+ * Range-bounded aggregates (all time when no range is given)
+ */
+export interface EventStats {
+  total: number;
+  pending: number;
+  attended: number;
+  ghosted: number;
+  cancelled: number;
+}
+
+export interface InterviewerStats {
+  total: number;
+  active: number;
+  skills: number; // Distinct skills across the roster
+}
+
+export type AuditLogStats = Record<string, number>; // Count by action
+
+/**
+ * KPIs aggregated on the server (/analytics/kpis)
+ * Events count towards the date their start falls on (UTC); rates are
+ * fractions (0-1) and null when there is nothing to divide by
+ */
+export type KpiGroupBy = "interviewer" | "position" | "week" | "status";
+
+export interface DateRange {
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+}
+
+export interface KpiQuery extends Partial<DateRange> {
+  group_by?: KpiGroupBy;
+  interviewer_email?: string;
+  position_id?: string;
+}
+
+export interface KpiCounts {
+  total: number;
+  pending: number;
+  attended: number;
+  ghosted: number;
+  cancelled: number;
+  upcoming: number; // Not cancelled and starting after now
+  attendance_rate: number | null; // attended / (attended + ghosted)
+  ghost_rate: number | null; // ghosted / (attended + ghosted)
+  cancellation_rate: number | null; // cancelled / total
+}
+
+export interface KpiTotals extends KpiCounts {
+  active_interviewers: number;
+  interviews_per_interviewer_week: number | null; // Bounded ranges only
+}
+
+export interface KpiGroup extends KpiCounts {
+  key: string; // Email, position id, week start (YYYY-MM-DD) or status
+  label: string;
+}
+
+export interface KpiReport {
+  start_date: string | null;
+  end_date: string | null;
+  group_by: KpiGroupBy | null;
+  totals: KpiTotals;
+  previous: KpiTotals | null; // Same-length period before a bounded range
+  groups: KpiGroup[];
+}
+
+/**
+ * Interviewer reliability over a rolling window (/analytics/reliability)
+ * Only interviews that already started count; rates are fractions (0-1)
+ */
+export type AttentionReason = "ghost_rate" | "cancellation_rate";
+
+export interface ReliabilityWindow {
+  days: number;
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, today
+}
+
+export interface ReliabilityThresholds {
+  ghost_rate: number;
+  cancellation_rate: number;
+  min_interviews: number; // Interviews in the window before flagging
+}
+
+export interface InterviewerReliability {
+  interviewer_id: string;
+  name: string;
+  email: string;
+  is_active: boolean;
+  attended: number;
+  ghosted: number;
+  cancelled: number;
+  ghost_rate: number | null; // ghosted / (attended + ghosted)
+  cancellation_rate: number | null; // cancelled / (attended + ghosted + cancelled)
+  attended_streak: number; // Attended since the last ghosted interview (all time)
+  last_ghosted_at: string | null;
+  score: number | null; // 0-100, null without interviews in the window
+  needs_attention: boolean;
+  attention_reasons: AttentionReason[];
+}
+
+export interface ReliabilityList {
+  window: ReliabilityWindow;
+  thresholds: ReliabilityThresholds;
+  data: InterviewerReliability[]; // Least reliable first
+}
+
+export interface ReliabilityWeek {
+  week_start: string; // Monday, YYYY-MM-DD
+  attended: number;
+  ghosted: number;
+  cancelled: number;
+  ghost_rate: number | null;
+}
+
+export interface ReliabilityReport {
+  window: ReliabilityWindow;
+  thresholds: ReliabilityThresholds;
+  reliability: InterviewerReliability;
+  previous: Pick<
+    InterviewerReliability,
+    "attended" | "ghosted" | "cancelled" | "ghost_rate" | "cancellation_rate" | "score"
+  >; // Same-length window just before
+  direction: "improving" | "stable" | "worsening" | null; // Ghost rate vs previous
+  weeks: ReliabilityWeek[];
+}
+
+/**
+ * "Needs marking" inbox (/marking/inbox)
+ * Pending interviews that ended more than the grace period ago, grouped by
+ * the coordinator responsible for marking them
+ */
+export type MarkingAgeBucket = "under_1d" | "1_3d" | "3_7d" | "over_7d";
+
+export interface MarkingInboxQuery {
+  coordinator_email?: string;
+  bucket?: MarkingAgeBucket;
+  escalated?: boolean;
+}
+
+export interface OverdueEvent {
+  id: string;
+  interviewer_email: string;
+  interviewer_name: string | null;
+  candidate_name: string | null;
+  position: string | null;
+  start_time: string;
+  end_time: string;
+  coordinator_email: string | null;
+  overdue_hours: number; // Since the interview ended
+  bucket: MarkingAgeBucket;
+  escalated_at: string | null;
+}
+
+export interface MarkingGroup {
+  coordinator_email: string | null; // Null for unassigned (synced) events
+  coordinator_name: string | null;
+  total: number;
+  escalated: number;
+  oldest_overdue_hours: number;
+  events: OverdueEvent[]; // Oldest first
+}
+
+export interface MarkingInbox {
+  generated_at: string;
+  grace_minutes: number;
+  escalate_after_hours: number;
+  total: number; // Before the bucket and escalated filters
+  escalated: number;
+  buckets: { key: MarkingAgeBucket; label: string; count: number }[];
+  groups: MarkingGroup[];
+}
+
+/**
+ * Email notifications (/notifications)
+ * Opt-in per user; every message sent or attempted is logged as a delivery
+ */
+export interface NotificationPreferences {
+  no_show_alerts: boolean; // An interview is marked ghosted
+  daily_summary: boolean; // Yesterday's interviews and today's schedule
+  system_alerts: boolean; // Interviews escalated for being left unmarked
+  updated_at: string | null; // Null until first saved
+}
+
+export type NotificationType = "event_ghosted" | "daily_summary" | "marking_overdue";
+
+export interface NotificationDelivery {
+  id: string;
+  type: NotificationType;
+  recipient: string;
+  subject: string;
+  transport: string; // smtp, file or console
+  status: "sent" | "failed";
+  error: string | null;
+  dedupe_key: string | null;
+  created_at: string;
+}
+
+export interface NotificationDeliveryQuery {
+  type?: NotificationType;
+  status?: NotificationDelivery["status"];
+  recipient?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DailySummaryResult {
+  date: string; // Day summarised (UTC)
+  sent: number;
+  failed: number;
+  skipped: number; // Already received it
+}
+
+/**
+ * In-app notifications shown in the bell menu (/notifications)
+ */
+export type AppNotificationType =
+  | "event_assigned"
+  | "event_rescheduled"
+  | "event_removed"
+  | "event_status_changed"
+  | "role_changed";
+
+export interface AppNotification {
+  id: string;
+  user_email: string;
+  type: AppNotificationType;
+  title: string;
+  body: string | null;
+  link: string | null; // App path to open, e.g. /my-interviews
+  entity_type: string | null;
+  entity_id: string | null;
+  read_at: string | null; // Null while unread
+  created_at: string;
+}
+
+export interface AppNotificationQuery {
+  unread?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AppNotificationList extends Page<AppNotification> {
+  unread: number; // Regardless of the unread filter
+}
+
+/**
+ * Outbound webhooks (/webhooks, admin only)
+ * Subscriptions get signed POSTs for the event types they listen to;
+ * failed deliveries are retried with backoff and can be redelivered
+ */
+export type WebhookEventType =
+  | "event.created"
+  | "event.updated"
+  | "event.rescheduled"
+  | "event.status_changed"
+  | "event.deleted"
+  | "interviewer.created"
+  | "interviewer.updated"
+  | "interviewer.deleted"
+  | "user.role_changed"
+  | "user.deleted";
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface Webhook {
+  id: string;
+  url: string;
+  description: string | null;
+  event_types: WebhookEventType[];
+  active: boolean;
+  secret_hint: string; // Last characters of the signing secret
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  last_delivery_status?: WebhookDeliveryStatus | null; // List responses only
+}
+
+export interface CreatedWebhook extends Webhook {
+  secret: string; // Only returned on create
+}
+
+export interface WebhookInput {
+  url: string;
+  description?: string;
+  event_types: WebhookEventType[];
+  active?: boolean;
+  secret?: string; // Generated when left out on create
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhook_id: string;
+  webhook_url: string;
+  event_id: string; // Same for redeliveries of one event
+  event_type: WebhookEventType | "ping";
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  error: string | null;
+  redelivery_of: string | null;
+  created_at: string;
+}
+
+export interface WebhookDeliveryQuery {
+  webhook_id?: string;
+  status?: WebhookDeliveryStatus;
+  event_type?: string;
+  limit?: number;
+  offset?: number;
+}
+
 interface DatabaseStorage {
   interviewers: Interviewer[];
   events: InterviewEvent[];
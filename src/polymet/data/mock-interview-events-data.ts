@@ -5,10 +5,18 @@ export interface InterviewEvent {
   start_time: string;
   end_time: string;
   skills_assessed: string[] | null;
+  candidate_id?: string | null;
+  candidate_name?: string;
   status: "pending" | "attended" | "ghosted" | "cancelled";
   notes: string | null;
   marked_by: string | null;
   marked_at: string | null;
+  interviewer_response?: "confirmed" | "conflict" | null;
+  interviewer_response_note?: string | null;
+  loop_id?: string | null;
+  loop_stage?: number | null;
+  series_id?: string | null;
+  series_index?: number | null;
   created_at: string;
 }
 
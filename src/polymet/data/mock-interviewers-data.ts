@@ -7,6 +7,9 @@ export interface Interviewer {
   is_active: boolean;
   timezone: string;
   calendar_sync_enabled: boolean;
+  max_interviews_per_day?: number | null;
+  max_interviews_per_week?: number | null;
+  cap_enforcement?: "block" | "warn";
   calendar_sync_consent_at: string | null;
   last_synced_at: string | null;
   created_at: string;
@@ -2,6 +2,7 @@ import { ReactNode, useState } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { RoleBadge } from "@/polymet/components/role-badge";
+import { NotificationBell } from "@/polymet/components/notification-bell";
 import { useAuth } from "@/polymet/data/auth-context";
 import {
   LayoutDashboardIcon,
@@ -18,6 +19,10 @@ import {
   ChevronLeftIcon,
   ChevronRightIcon,
   UserCogIcon,
+  UserSearchIcon,
+  BriefcaseIcon,
+  InboxIcon,
+  ClipboardListIcon,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -51,6 +56,12 @@ export function DashboardLayout({
       icon: LayoutDashboardIcon,
       roles: ["viewer", "talent", "admin"],
     },
+    {
+      name: "My Interviews",
+      href: "/my-interviews",
+      icon: ClipboardListIcon,
+      roles: ["viewer", "talent", "admin"],
+    },
     {
       name: "Schedule",
       href: "/schedule",
@@ -63,18 +74,36 @@ export function DashboardLayout({
       icon: CalendarCheckIcon,
       roles: ["talent", "admin"],
     },
+    {
+      name: "Needs Marking",
+      href: "/needs-marking",
+      icon: InboxIcon,
+      roles: ["talent", "admin"],
+    },
     {
       name: "Interviewers",
       href: "/interviewers",
       icon: UsersIcon,
       roles: ["talent", "admin"], // Viewer: Dashboard only
     },
+    {
+      name: "Candidates",
+      href: "/candidates",
+      icon: UserSearchIcon,
+      roles: ["talent", "admin"],
+    },
     {
       name: "Events",
       href: "/events",
       icon: CalendarIcon,
       roles: ["talent", "admin"], // Viewer: Dashboard only
     },
+    {
+      name: "Positions",
+      href: "/positions",
+      icon: BriefcaseIcon,
+      roles: ["admin"], // TA: No access
+    },
     {
       name: "Database",
       href: "/database",
@@ -159,7 +188,10 @@ export function DashboardLayout({
           {!navCollapsed && (
             <nav className="flex-1 px-4 py-6 space-y-1 overflow-y-auto">
               {filteredNavigation.map((item) => {
-                const isActive = location.pathname === item.href;
+                const isActive =
+                  location.pathname === item.href ||
+                  (item.href !== "/" &&
+                    location.pathname.startsWith(`${item.href}/`));
                 const Icon = item.icon;
 
                 return (
@@ -235,6 +267,7 @@ export function DashboardLayout({
               <div className="text-sm text-muted-foreground">
                 Last synced: {new Date().toLocaleTimeString()}
               </div>
+              <NotificationBell />
             </div>
           </div>
         </header>
@@ -10,45 +10,67 @@ import {
   EditIcon,
   TrashIcon,
 } from "lucide-react";
-import { db, type AuditLog } from "@/polymet/data/database-service";
+import {
+  db,
+  type AuditLog,
+  type AuditLogListQuery,
+  type AuditLogStats,
+} from "@/polymet/data/database-service";
 import { exportAuditLogsCsv } from "@/lib/csv-utils";
+import { DEFAULT_PAGE_SIZE } from "@/lib/pagination-utils";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+
+const fetchAuditLogsPage = (query: AuditLogListQuery) =>
+  db.getAuditLogsPage(query);
+
+/**
+ * Sum of the action counts whose action starts with the prefix
+ */
+function countActions(stats: AuditLogStats, prefix: string): number {
+  return Object.entries(stats)
+    .filter(([action]) => action.startsWith(prefix))
+    .reduce((sum, [, count]) => sum + count, 0);
+}
 
 export function AuditLogsPage() {
-  const [logs, setLogs] = useState<AuditLog[]>([]);
-  const [loading, setLoading] = useState(true);
+  const {
+    items: logs,
+    pagination,
+    query,
+    setQuery,
+    loaded,
+  } = usePaginatedList<AuditLog, AuditLogListQuery>(fetchAuditLogsPage, {
+    sort: "timestamp",
+    order: "desc",
+    limit: DEFAULT_PAGE_SIZE,
+    offset: 0,
+  });
+  const [stats, setStats] = useState<AuditLogStats>({});
   const [errorAlertOpen, setErrorAlertOpen] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
 
   useEffect(() => {
-    const loadLogs = async () => {
-      try {
-        setLoading(true);
-        const data = await db.getAuditLogs();
-        setLogs(data);
-      } catch (error) {
-        console.error("Failed to load audit logs:", error);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    loadLogs();
+    db.getAuditLogStats()
+      .then(setStats)
+      .catch((error) => console.error("Failed to load audit log stats:", error));
   }, []);
 
-  const totalLogs = logs.length;
-  const createActions = logs.filter((l) => l.action.includes("CREATE")).length;
-  const updateActions = logs.filter((l) => l.action.includes("UPDATE")).length;
-  const deleteActions = logs.filter((l) => l.action.includes("DELETE")).length;
+  // Counted on the server over every log, not just the loaded page
+  const totalLogs = Object.values(stats).reduce((sum, count) => sum + count, 0);
+  const createActions = countActions(stats, "CREATE");
+  const updateActions = countActions(stats, "UPDATE");
+  const deleteActions = countActions(stats, "DELETE");
 
   const handleExport = async () => {
-    if (logs.length === 0) {
-      setErrorMessage("No audit logs available to export.");
-      setErrorAlertOpen(true);
-      return;
-    }
-
     try {
-      await exportAuditLogsCsv(logs);
+      const allLogs = await db.getAuditLogs();
+      if (allLogs.length === 0) {
+        setErrorMessage("No audit logs available to export.");
+        setErrorAlertOpen(true);
+        return;
+      }
+
+      await exportAuditLogsCsv(allLogs);
     } catch (error) {
       console.error("Failed to export audit logs:", error);
       setErrorMessage("Failed to export audit logs. Please try again.");
@@ -56,7 +78,7 @@ export function AuditLogsPage() {
     }
   };
 
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="space-y-6">
         <div>
@@ -174,7 +196,12 @@ export function AuditLogsPage() {
           <CardTitle>System Activity Log</CardTitle>
         </CardHeader>
         <CardContent>
-          <AuditLogTable logs={logs} />
+          <AuditLogTable
+            logs={logs}
+            query={query}
+            pagination={pagination}
+            onQueryChange={setQuery}
+          />
         </CardContent>
       </Card>
 
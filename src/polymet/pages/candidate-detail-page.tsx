@@ -0,0 +1,328 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  CandidateDialog,
+  type CandidateFormData,
+} from "@/polymet/components/candidate-dialog";
+import { StatusBadge } from "@/polymet/components/status-badge";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ArrowLeftIcon,
+  CalendarIcon,
+  ClockIcon,
+  PencilIcon,
+  TrashIcon,
+} from "lucide-react";
+import { db } from "@/polymet/data/database-service";
+import type {
+  Candidate,
+  CandidateInterview,
+} from "@/polymet/data/database-service";
+import { ApiError } from "@/lib/api-client";
+import { useAuth } from "@/polymet/data/auth-context";
+
+/**
+ * Candidate detail page
+ * Candidate info plus their full interview loop, oldest interview first
+ */
+export function CandidateDetailPage() {
+  const { id = "" } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [candidate, setCandidate] = useState<Candidate | null>(null);
+  const [interviews, setInterviews] = useState<CandidateInterview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
+  const [errorAlertOpen, setErrorAlertOpen] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+
+  const loadCandidate = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [candidateData, interviewData] = await Promise.all([
+        db.getCandidate(id),
+        db.getCandidateInterviews(id),
+      ]);
+      setCandidate(candidateData);
+      setInterviews(interviewData);
+    } catch (error) {
+      console.error("Failed to load candidate:", error);
+      setCandidate(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadCandidate();
+  }, [loadCandidate]);
+
+  const handleUpdateCandidate = async (data: CandidateFormData) => {
+    try {
+      setCandidate(await db.updateCandidate(id, data));
+      setEditDialogOpen(false);
+    } catch (error) {
+      console.error("Failed to update candidate:", error);
+      setErrorMessage(
+        error instanceof ApiError && error.status === 409
+          ? "A candidate with this email already exists"
+          : "Failed to update candidate"
+      );
+      setErrorAlertOpen(true);
+    }
+  };
+
+  const handleDeleteCandidate = async () => {
+    try {
+      await db.deleteCandidate(id);
+      navigate("/candidates");
+    } catch (error) {
+      console.error("Failed to delete candidate:", error);
+      setErrorMessage("Failed to delete candidate");
+      setErrorAlertOpen(true);
+    }
+  };
+
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return {
+      date: date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      }),
+      time: date.toLocaleTimeString("en-US", {
+        hour: "2-digit",
+        minute: "2-digit",
+      }),
+    };
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Candidate</h1>
+          <p className="text-muted-foreground mt-2">Loading candidate...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!candidate) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Candidate not found</h1>
+          <p className="text-muted-foreground mt-2">
+            <Link to="/candidates" className="hover:underline">
+              Back to candidates
+            </Link>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <Link
+            to="/candidates"
+            className="inline-flex items-center text-sm text-muted-foreground hover:underline"
+          >
+            <ArrowLeftIcon className="h-4 w-4 mr-1" />
+            Candidates
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">{candidate.name}</h1>
+          <p className="text-muted-foreground mt-2">
+            {candidate.position ?? "No position set"}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setEditDialogOpen(true)}>
+            <PencilIcon className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+          {isAdmin && (
+            <Button
+              variant="destructive"
+              onClick={() => setDeleteConfirmOpen(true)}
+            >
+              <TrashIcon className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Details */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <div className="text-muted-foreground">Email</div>
+            <div>{candidate.email ?? "-"}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Phone</div>
+            <div>{candidate.phone ?? "-"}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">Interviews</div>
+            <div>{interviews.length}</div>
+          </div>
+          {candidate.notes && (
+            <div className="md:col-span-3">
+              <div className="text-muted-foreground">Notes</div>
+              <div className="whitespace-pre-wrap">{candidate.notes}</div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Interview loop */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Interview Loop</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date & Time</TableHead>
+                  <TableHead>Interviewer</TableHead>
+                  <TableHead>Skills Assessed</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Notes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {interviews.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={5}
+                      className="text-center text-muted-foreground py-8"
+                    >
+                      No interviews scheduled yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  interviews.map((interview) => {
+                    const start = formatDateTime(interview.start_time);
+                    const end = formatDateTime(interview.end_time);
+
+                    return (
+                      <TableRow key={interview.id}>
+                        <TableCell>
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2 text-sm font-medium">
+                              <CalendarIcon className="h-3 w-3 text-muted-foreground" />
+
+                              {start.date}
+                            </div>
+                            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                              <ClockIcon className="h-3 w-3" />
+                              {start.time} - {end.time}
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="text-sm">
+                            {interview.interviewer_name ??
+                              interview.interviewer_email}
+                          </div>
+                          {interview.interviewer_name && (
+                            <div className="text-xs text-muted-foreground">
+                              {interview.interviewer_email}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {interview.skills_assessed &&
+                          interview.skills_assessed.length > 0 ? (
+                            <div className="flex flex-wrap gap-1 max-w-xs">
+                              {interview.skills_assessed.map((skill) => (
+                                <Badge
+                                  key={skill}
+                                  variant="secondary"
+                                  className="text-xs"
+                                >
+                                  {skill}
+                                </Badge>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <StatusBadge status={interview.status} />
+                        </TableCell>
+                        <TableCell>
+                          {interview.notes ? (
+                            <div
+                              className="text-sm max-w-xs truncate"
+                              title={interview.notes}
+                            >
+                              {interview.notes}
+                            </div>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <CandidateDialog
+        open={editDialogOpen}
+        onOpenChange={setEditDialogOpen}
+        candidate={candidate}
+        onSubmit={handleUpdateCandidate}
+      />
+
+      <ConfirmDialog
+        open={deleteConfirmOpen}
+        onOpenChange={setDeleteConfirmOpen}
+        title="Delete Candidate"
+        description={`Delete ${candidate.name}? Their interviews are kept but will no longer be linked to a candidate.`}
+        onConfirm={handleDeleteCandidate}
+        confirmText="Delete"
+        variant="destructive"
+      />
+
+      {/* Accessible Error Alert */}
+      <ErrorAlert
+        open={errorAlertOpen}
+        onOpenChange={setErrorAlertOpen}
+        message={errorMessage}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import {
+  CandidateDialog,
+  type CandidateFormData,
+} from "@/polymet/components/candidate-dialog";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { SuccessAlert } from "@/components/ui/success-alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PlusIcon, SearchIcon } from "lucide-react";
+import { db } from "@/polymet/data/database-service";
+import type { Candidate } from "@/polymet/data/database-service";
+import { ApiError } from "@/lib/api-client";
+
+export function CandidatesPage() {
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const [errorAlertOpen, setErrorAlertOpen] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [successAlertOpen, setSuccessAlertOpen] = useState(false);
+  const [successMessage, setSuccessMessage] = useState("");
+
+  useEffect(() => {
+    loadCandidates();
+  }, []);
+
+  const loadCandidates = async () => {
+    try {
+      setLoading(true);
+      setCandidates(await db.getCandidates());
+    } catch (error) {
+      console.error("Failed to load candidates:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddCandidate = async (data: CandidateFormData) => {
+    try {
+      await db.createCandidate(data);
+      await loadCandidates();
+      setAddDialogOpen(false);
+      setSuccessMessage("Candidate added successfully");
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to add candidate:", error);
+      setErrorMessage(
+        error instanceof ApiError && error.status === 409
+          ? "A candidate with this email already exists"
+          : "Failed to add candidate"
+      );
+      setErrorAlertOpen(true);
+    }
+  };
+
+  const query = searchQuery.toLowerCase();
+  const filteredCandidates = candidates.filter(
+    (candidate) =>
+      candidate.name.toLowerCase().includes(query) ||
+      candidate.email?.toLowerCase().includes(query) ||
+      candidate.position?.toLowerCase().includes(query)
+  );
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+    });
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Candidates</h1>
+          <p className="text-muted-foreground mt-2">Loading candidates...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Candidates</h1>
+          <p className="text-muted-foreground mt-2">
+            Candidates and their interview loops
+          </p>
+        </div>
+        <Button onClick={() => setAddDialogOpen(true)}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Candidate
+        </Button>
+      </div>
+
+      <div className="relative">
+        <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+
+        <Input
+          placeholder="Search by name, email or position..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+
+      <div className="rounded-md border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Position</TableHead>
+              <TableHead>Interviews</TableHead>
+              <TableHead>Last Interview</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredCandidates.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="text-center text-muted-foreground py-8"
+                >
+                  No candidates found
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredCandidates.map((candidate) => (
+                <TableRow key={candidate.id}>
+                  <TableCell>
+                    <Link
+                      to={`/candidates/${candidate.id}`}
+                      className="font-medium hover:underline"
+                    >
+                      {candidate.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {candidate.email ?? (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {candidate.position ?? (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {candidate.interview_count ?? 0}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {candidate.last_interview_at ? (
+                      formatDate(candidate.last_interview_at)
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="text-sm text-muted-foreground">
+        Showing {filteredCandidates.length} of {candidates.length} candidates
+      </div>
+
+      <CandidateDialog
+        open={addDialogOpen}
+        onOpenChange={setAddDialogOpen}
+        onSubmit={handleAddCandidate}
+      />
+
+      {/* Accessible Error Alert */}
+      <ErrorAlert
+        open={errorAlertOpen}
+        onOpenChange={setErrorAlertOpen}
+        message={errorMessage}
+      />
+
+      {/* Accessible Success Alert */}
+      <SuccessAlert
+        open={successAlertOpen}
+        onOpenChange={setSuccessAlertOpen}
+        message={successMessage}
+      />
+    </div>
+  );
+}
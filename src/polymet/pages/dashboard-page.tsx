@@ -1,8 +1,9 @@
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { KpiMetricCard } from "@/polymet/components/kpi-metric-card";
 import { StatusBadge } from "@/polymet/components/status-badge";
 import { AddInterviewerDialog } from "@/polymet/components/add-interviewer-dialog";
+import { DateRangePicker } from "@/polymet/components/date-range-picker";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -14,17 +15,34 @@ import {
   AlertCircleIcon,
 } from "lucide-react";
 import { db } from "@/polymet/data/database-service";
+import type {
+  DateRange,
+  InterviewEvent,
+  KpiReport,
+} from "@/polymet/data/database-service";
 import { useAuth } from "@/polymet/data/auth-context";
-import type { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
 import type { Interviewer } from "@/polymet/data/mock-interviewers-data";
+import {
+  formatRate,
+  getKpiChange,
+  getPresetRange,
+  getRangeDays,
+  isValidRange,
+  type DateRangePreset,
+} from "@/lib/analytics-utils";
 
 export function DashboardPage() {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const [interviewEvents, setInterviewEvents] = useState<InterviewEvent[]>([]);
+  const [recentEvents, setRecentEvents] = useState<InterviewEvent[]>([]);
   const [interviewers, setInterviewers] = useState<Interviewer[]>([]);
   const [loading, setLoading] = useState(true);
   const [addDialogOpen, setAddDialogOpen] = useState(false);
+  const [rangePreset, setRangePreset] = useState<DateRangePreset>("30d");
+  const [range, setRange] = useState<Partial<DateRange>>(() =>
+    getPresetRange("30d")
+  );
+  const [report, setReport] = useState<KpiReport | null>(null);
 
   const userRole = user?.role ?? "viewer";
   const canAddInterviewer = userRole === "admin" || userRole === "talent";
@@ -39,11 +57,15 @@ export function DashboardPage() {
   const loadData = async () => {
     try {
       setLoading(true);
-      const [eventsData, interviewersData] = await Promise.all([
-        db.getInterviewEvents(),
+      const [eventsPage, interviewersData] = await Promise.all([
+        db.getInterviewEventsPage({
+          sort: "start_time",
+          order: "desc",
+          limit: 5,
+        }),
         db.getInterviewers(),
       ]);
-      setInterviewEvents(eventsData);
+      setRecentEvents(eventsPage.data);
       setInterviewers(interviewersData);
     } catch (error) {
       console.error("Failed to load dashboard data:", error);
@@ -52,68 +74,76 @@ export function DashboardPage() {
     }
   };
 
+  // KPIs are aggregated on the server for the picked range
+  const rangeStart = range.start_date;
+  const rangeEnd = range.end_date;
+  const latestKpiRequest = useRef(0);
+
+  const loadKpis = useCallback(async () => {
+    const kpiRange = { start_date: rangeStart, end_date: rangeEnd };
+    if (!isValidRange(kpiRange)) return;
+
+    const request = ++latestKpiRequest.current;
+    try {
+      const data = await db.getKpis(kpiRange);
+      // Ignore answers for a range that has since been changed
+      if (request === latestKpiRequest.current) setReport(data);
+    } catch (error) {
+      console.error("Failed to load KPIs:", error);
+    }
+  }, [rangeStart, rangeEnd]);
+
+  useEffect(() => {
+    loadKpis();
+  }, [loadKpis]);
+
   const handleAddInterviewer = async (data: Partial<Interviewer>) => {
     try {
       await db.createInterviewer(
         data as Omit<Interviewer, "id" | "created_at" | "updated_at">,
         auditContext
       );
-      await loadData(); // Reload data to show new interviewer
+      await Promise.all([loadData(), loadKpis()]); // Reload data to show new interviewer
       setAddDialogOpen(false);
     } catch (error) {
       console.error("Failed to add interviewer:", error);
     }
   };
 
-  // Memoize KPI calculations to avoid recalculating on every render
+  // Memoize KPI card values to avoid recalculating on every render
   // Must be before conditional returns to follow Rules of Hooks
   const kpiMetrics = useMemo(() => {
-    const totalEvents = interviewEvents.length;
-    const attendedEvents = interviewEvents.filter(
-      (e) => e.status === "attended"
-    ).length;
-    const ghostedEvents = interviewEvents.filter(
-      (e) => e.status === "ghosted"
-    ).length;
-    const pendingEvents = interviewEvents.filter(
-      (e) => e.status === "pending"
-    ).length;
-    const noShowRate =
-      totalEvents > 0 ? ((ghostedEvents / totalEvents) * 100).toFixed(1) : "0.0";
-
-    const activeInterviewers = interviewers.filter((i) => i.is_active).length;
-    const calendarSyncEnabled = interviewers.filter(
-      (i) => i.calendar_sync_enabled
-    ).length;
-
-    const interviewsPerWeek =
-      activeInterviewers > 0
-        ? (totalEvents / activeInterviewers / 4).toFixed(1)
-        : "0.0";
+    const totals = report?.totals;
+    const previous = report?.previous;
+    const ghostRate = totals?.ghost_rate ?? null;
+    const interviewsPerWeek = totals?.interviews_per_interviewer_week ?? null;
+    const periodDays =
+      report?.start_date && report.end_date
+        ? getRangeDays({
+            start_date: report.start_date,
+            end_date: report.end_date,
+          })
+        : null;
 
     return {
-      totalEvents,
-      attendedEvents,
-      ghostedEvents,
-      pendingEvents,
-      noShowRate,
-      activeInterviewers,
-      calendarSyncEnabled,
+      pendingEvents: totals?.pending ?? 0,
+      attendedEvents: totals?.attended ?? 0,
+      ghostedEvents: totals?.ghosted ?? 0,
+      ghostRate,
+      noShowRate: formatRate(ghostRate),
+      noShowChange: getKpiChange(ghostRate, previous?.ghost_rate, "rate"),
       interviewsPerWeek,
+      interviewsPerWeekChange: getKpiChange(
+        interviewsPerWeek,
+        previous?.interviews_per_interviewer_week,
+        "number"
+      ),
+      activeInterviewers: totals?.active_interviewers ?? 0,
+      calendarSyncEnabled: interviewers.filter((i) => i.calendar_sync_enabled)
+        .length,
+      comparedTo: periodDays ? `vs previous ${periodDays} days` : undefined,
     };
-  }, [interviewEvents, interviewers]);
-
-  // Memoize recent events sorting to avoid re-sorting on every render
-  const recentEvents = useMemo(
-    () =>
-      [...interviewEvents]
-        .sort(
-          (a, b) =>
-            new Date(b.start_time).getTime() - new Date(a.start_time).getTime()
-        )
-        .slice(0, 5),
-    [interviewEvents]
-  );
+  }, [report, interviewers]);
 
   const formatDateTime = (dateString: string) => {
     const date = new Date(dateString);
@@ -141,36 +171,53 @@ export function DashboardPage() {
   return (
     <div className="space-y-8">
       {/* Header */}
-      <div>
-        <h1 className="text-3xl font-bold">Dashboard</h1>
-        <p className="text-muted-foreground mt-2">
-          Overview of interview scheduling and roster management
-        </p>
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Dashboard</h1>
+          <p className="text-muted-foreground mt-2">
+            Overview of interview scheduling and roster management
+          </p>
+        </div>
+        <DateRangePicker
+          preset={rangePreset}
+          range={range}
+          onChange={(preset, next) => {
+            setRangePreset(preset);
+            setRange(next);
+          }}
+        />
       </div>
 
       {/* KPI Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <KpiMetricCard
           title="No-Show Rate"
-          value={`${kpiMetrics.noShowRate}%`}
+          value={kpiMetrics.noShowRate}
           target="< 2%"
-          trend={parseFloat(kpiMetrics.noShowRate) < 2 ? "down" : "up"}
-          trendValue="0.6%"
+          trend={kpiMetrics.noShowChange?.trend}
+          trendValue={kpiMetrics.noShowChange?.label}
           icon={ActivityIcon}
-          status={parseFloat(kpiMetrics.noShowRate) < 2 ? "success" : "danger"}
-          description="vs last month"
+          status={
+            kpiMetrics.ghostRate === null
+              ? "neutral"
+              : kpiMetrics.ghostRate < 0.02
+                ? "success"
+                : "danger"
+          }
+          description={kpiMetrics.comparedTo}
         />
 
         <KpiMetricCard
           title="Interviews per Week"
-          value={kpiMetrics.interviewsPerWeek}
+          value={kpiMetrics.interviewsPerWeek?.toFixed(1) ?? "—"}
           target="3-5"
-          trend="up"
-          trendValue="0.8"
+          trend={kpiMetrics.interviewsPerWeekChange?.trend}
+          trendValue={kpiMetrics.interviewsPerWeekChange?.label}
           icon={CalendarIcon}
           status={
-            parseFloat(kpiMetrics.interviewsPerWeek) >= 3 &&
-            parseFloat(kpiMetrics.interviewsPerWeek) <= 5
+            kpiMetrics.interviewsPerWeek !== null &&
+            kpiMetrics.interviewsPerWeek >= 3 &&
+            kpiMetrics.interviewsPerWeek <= 5
               ? "success"
               : "warning"
           }
@@ -216,14 +263,14 @@ export function DashboardPage() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
-              Completed This Month
+              Completed
             </CardTitle>
             <CalendarIcon className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{kpiMetrics.attendedEvents}</div>
             <p className="text-xs text-muted-foreground mt-1">
-              Successfully conducted
+              Successfully conducted in this range
             </p>
           </CardContent>
         </Card>
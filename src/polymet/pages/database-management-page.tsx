@@ -46,6 +46,7 @@ import {
   mapCsvRowsToInterviewers,
   parseCsvFile,
 } from "@/lib/csv-utils";
+import { IcsImportDialog } from "@/polymet/components/ics-import-dialog";
 
 export function DatabaseManagementPage() {
   const [stats, setStats] = useState({
@@ -59,6 +60,7 @@ export function DatabaseManagementPage() {
   const [showMockImportDialog, setShowMockImportDialog] = useState(false);
   const [mockImporting, setMockImporting] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [icsFile, setIcsFile] = useState<File | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const { user } = useAuth();
   const auditUserEmail = user?.email ?? "admin@company.com";
@@ -209,6 +211,13 @@ export function DatabaseManagementPage() {
     event.target.value = "";
     if (!file) return;
 
+    // Calendar exports are previewed before anything is created
+    if (file.name.toLowerCase().endsWith(".ics")) {
+      setShowImportGuide(false);
+      setIcsFile(file);
+      return;
+    }
+
     try {
       if (file.name.toLowerCase().endsWith(".csv")) {
         const { dataset, rows } = await parseCsvFile(file);
@@ -426,7 +435,7 @@ export function DatabaseManagementPage() {
       <input
         ref={fileInputRef}
         type="file"
-        accept=".json,.csv"
+        accept=".json,.csv,.ics"
         className="hidden"
         onChange={handleFileSelected}
       />
@@ -626,7 +635,9 @@ export function DatabaseManagementPage() {
                 <p className="font-medium">Import Data</p>
                 <p className="text-sm text-muted-foreground">
                   Restore data from a previously exported backup file. This will
-                  merge with existing data (duplicates are skipped).
+                  merge with existing data (duplicates are skipped). Calendar
+                  exports (.ics) are previewed first so you can choose which
+                  interviews to create.
                 </p>
               </div>
             </div>
@@ -738,13 +749,23 @@ export function DatabaseManagementPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      <IcsImportDialog
+        open={!!icsFile}
+        onOpenChange={(open) => !open && setIcsFile(null)}
+        file={icsFile}
+        onImported={loadStats}
+      />
+
       <Dialog open={showImportGuide} onOpenChange={setShowImportGuide}>
         <DialogContent className="max-w-3xl">
           <DialogHeader>
             <DialogTitle>Import CSV Guide</DialogTitle>
             <DialogDescription>
               Review the required headers before importing CSV backups. You can
-              also select a JSON backup exported from this page.
+              also select a JSON backup exported from this page, or an
+              iCalendar (.ics) export from another calendar tool: its events
+              are matched to interviewers by attendee email and previewed
+              before import.
             </DialogDescription>
           </DialogHeader>
 
@@ -1,7 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { EventsTable } from "@/polymet/components/events-table";
 import { MarkAttendanceDialog } from "@/polymet/components/mark-attendance-dialog";
 import { ExportDialog } from "@/polymet/components/export-dialog";
+import { ScheduleLoopDialog } from "@/polymet/components/schedule-loop-dialog";
+import { ScorecardDialog } from "@/polymet/components/scorecard-dialog";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { ErrorAlert } from "@/components/ui/error-alert";
 import { SuccessAlert } from "@/components/ui/success-alert";
 import { Button } from "@/components/ui/button";
@@ -12,8 +15,18 @@ import {
   CheckCircle2Icon,
   XCircleIcon,
   ClockIcon,
+  LayersIcon,
 } from "lucide-react";
 import { db } from "@/polymet/data/database-service";
+import type {
+  CreateLoopInput,
+  EventListQuery,
+  EventStats,
+  InterviewLoop,
+  Scorecard,
+  ScorecardInput,
+} from "@/polymet/data/database-service";
+import { ApiError } from "@/lib/api-client";
 import {
   exportAuditLogsCsv,
   exportEventsCsv,
@@ -22,13 +35,43 @@ import {
 import type { ExportTypeOption } from "@/polymet/components/export-dialog";
 import type { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
 import { useAuth } from "@/polymet/data/auth-context";
+import { DEFAULT_PAGE_SIZE } from "@/lib/pagination-utils";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+import { mapPage, toEventRow } from "@/lib/row-utils";
+
+const fetchEventsPage = async (query: EventListQuery) =>
+  mapPage(await db.getInterviewEventsPage(query), toEventRow);
 
 export function EventsPage() {
-  const [events, setEvents] = useState<InterviewEvent[]>([]);
-  const [loading, setLoading] = useState(true);
+  const {
+    items: events,
+    pagination,
+    query,
+    setQuery,
+    loaded,
+    reload,
+  } = usePaginatedList<InterviewEvent, EventListQuery>(fetchEventsPage, {
+    sort: "start_time",
+    order: "desc",
+    limit: DEFAULT_PAGE_SIZE,
+    offset: 0,
+  });
+  const [loops, setLoops] = useState<InterviewLoop[]>([]);
+  const [stats, setStats] = useState<EventStats>({
+    total: 0,
+    pending: 0,
+    attended: 0,
+    ghosted: 0,
+    cancelled: 0,
+  });
   const [markAttendanceDialogOpen, setMarkAttendanceDialogOpen] =
     useState(false);
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [loopDialogOpen, setLoopDialogOpen] = useState(false);
+  const [loopToCancel, setLoopToCancel] = useState<InterviewLoop | null>(null);
+  const [scorecardDialogOpen, setScorecardDialogOpen] = useState(false);
+  const [scorecard, setScorecard] = useState<Scorecard | null>(null);
+  const [scoredEventIds, setScoredEventIds] = useState<Set<string>>(new Set());
   const [selectedEvent, setSelectedEvent] = useState<InterviewEvent | null>(
     null
   );
@@ -38,30 +81,47 @@ export function EventsPage() {
   const [successMessage, setSuccessMessage] = useState("");
   const { user } = useAuth();
   const userRole = user?.role ?? "viewer";
-  const auditContext = user
-    ? { userEmail: user.email, userName: user.name }
-    : undefined;
-
-  useEffect(() => {
-    loadEvents();
-  }, []);
 
-  const loadEvents = async () => {
+  // Loops and the status counts cover every event, not just the shown page
+  const loadSummary = useCallback(async () => {
     try {
-      setLoading(true);
-      const data = await db.getInterviewEvents();
-      setEvents(data);
+      const [loopData, statsData] = await Promise.all([
+        db.getLoops(),
+        db.getEventStats(),
+      ]);
+      setLoops(loopData);
+      setStats(statsData);
     } catch (error) {
-      console.error("Failed to load events:", error);
-    } finally {
-      setLoading(false);
+      console.error("Failed to load event summary:", error);
     }
+  }, []);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  // Scorecards are talent/admin only
+  useEffect(() => {
+    if (userRole === "viewer") return;
+
+    const attendedIds = events
+      .filter((event) => event.status === "attended")
+      .map((event) => event.id);
+    db.getScorecards(attendedIds)
+      .then((scorecards) =>
+        setScoredEventIds(new Set(scorecards.map((s) => s.event_id)))
+      )
+      .catch((error) => console.error("Failed to load scorecards:", error));
+  }, [events, userRole]);
+
+  const loadEvents = async () => {
+    await Promise.all([reload(), loadSummary()]);
   };
 
-  const totalEvents = events.length;
-  const pendingEvents = events.filter((e) => e.status === "pending").length;
-  const attendedEvents = events.filter((e) => e.status === "attended").length;
-  const ghostedEvents = events.filter((e) => e.status === "ghosted").length;
+  const totalEvents = stats.total;
+  const pendingEvents = stats.pending;
+  const attendedEvents = stats.attended;
+  const ghostedEvents = stats.ghosted;
 
   const handleMarkAttendance = (event: InterviewEvent) => {
     setSelectedEvent(event);
@@ -79,16 +139,13 @@ export function EventsPage() {
     notes: string
   ) => {
     try {
-      await db.updateInterviewEvent(
-        eventId,
-        {
-          status,
-          notes,
-          marked_by: user?.email,
-          marked_at: new Date().toISOString(),
-        },
-        auditContext
-      );
+      // The server records the audit entry for the signed-in user
+      await db.updateInterviewEvent(eventId, {
+        status,
+        notes,
+        marked_by: user?.email,
+        marked_at: new Date().toISOString(),
+      });
       await loadEvents();
       setMarkAttendanceDialogOpen(false);
       setSuccessMessage("Attendance marked successfully");
@@ -100,15 +157,88 @@ export function EventsPage() {
     }
   };
 
+  const handleOpenScorecard = async (event: InterviewEvent) => {
+    try {
+      setSelectedEvent(event);
+      setScorecard(await db.getScorecard(event.id));
+      setScorecardDialogOpen(true);
+    } catch (error) {
+      console.error("Failed to load scorecard:", error);
+      setErrorMessage("Failed to load scorecard");
+      setErrorAlertOpen(true);
+    }
+  };
+
+  const handleSubmitScorecard = async (
+    eventId: string,
+    data: ScorecardInput
+  ) => {
+    try {
+      await db.saveScorecard(eventId, data);
+      setScoredEventIds(new Set(scoredEventIds).add(eventId));
+      setScorecardDialogOpen(false);
+      setSuccessMessage("Scorecard saved successfully");
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to save scorecard:", error);
+      setErrorMessage(
+        error instanceof ApiError && error.status === 400
+          ? error.message
+          : "Failed to save scorecard"
+      );
+      setErrorAlertOpen(true);
+    }
+  };
+
+  const handleScheduleLoop = async (data: CreateLoopInput) => {
+    try {
+      const loop = await db.createLoop(data);
+      await loadEvents();
+      setLoopDialogOpen(false);
+      setSuccessMessage(
+        loop.warnings?.length
+          ? `Loop scheduled. ${loop.warnings.join(" ")}`
+          : "Loop scheduled successfully"
+      );
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to schedule loop:", error);
+      setErrorMessage(
+        error instanceof ApiError && (error.status === 400 || error.status === 409)
+          ? error.message
+          : "Failed to schedule loop"
+      );
+      setErrorAlertOpen(true);
+    }
+  };
+
+  const handleCancelLoop = async () => {
+    if (!loopToCancel) return;
+
+    try {
+      await db.updateLoop(loopToCancel.id, { status: "cancelled" });
+      await loadEvents();
+      setSuccessMessage("Loop cancelled");
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to cancel loop:", error);
+      setErrorMessage("Failed to cancel loop");
+      setErrorAlertOpen(true);
+    } finally {
+      setLoopToCancel(null);
+    }
+  };
+
   const handleExport = async (type: ExportTypeOption) => {
     try {
       if (type === "events") {
-        if (events.length === 0) {
+        const allEvents = await db.getInterviewEvents();
+        if (allEvents.length === 0) {
           setErrorMessage("No interview events available to export.");
           setErrorAlertOpen(true);
           return;
         }
-        await exportEventsCsv(events);
+        await exportEventsCsv(allEvents);
         return;
       }
 
@@ -143,7 +273,7 @@ export function EventsPage() {
     }
   };
 
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="space-y-6">
         <div>
@@ -169,6 +299,12 @@ export function EventsPage() {
             <DownloadIcon className="h-4 w-4 mr-2" />
             Export
           </Button>
+          {userRole !== "viewer" && (
+            <Button onClick={() => setLoopDialogOpen(true)}>
+              <LayersIcon className="h-4 w-4 mr-2" />
+              Schedule Loop
+            </Button>
+          )}
         </div>
       </div>
 
@@ -233,9 +369,16 @@ export function EventsPage() {
         <CardContent>
           <EventsTable
             events={events}
+            loops={loops}
             userRole={userRole}
             onMarkAttendance={handleMarkAttendance}
             onViewDetails={handleViewDetails}
+            onCancelLoop={setLoopToCancel}
+            onOpenScorecard={handleOpenScorecard}
+            scoredEventIds={scoredEventIds}
+            query={query}
+            pagination={pagination}
+            onQueryChange={setQuery}
           />
         </CardContent>
       </Card>
@@ -248,6 +391,30 @@ export function EventsPage() {
         onSubmit={handleSubmitAttendance}
       />
 
+      <ScorecardDialog
+        open={scorecardDialogOpen}
+        onOpenChange={setScorecardDialogOpen}
+        event={selectedEvent}
+        scorecard={scorecard}
+        onSubmit={handleSubmitScorecard}
+      />
+
+      <ScheduleLoopDialog
+        open={loopDialogOpen}
+        onOpenChange={setLoopDialogOpen}
+        onSubmit={handleScheduleLoop}
+      />
+
+      <ConfirmDialog
+        open={loopToCancel !== null}
+        onOpenChange={(open) => !open && setLoopToCancel(null)}
+        title="Cancel Interview Loop"
+        description={`Cancel the loop for ${loopToCancel?.candidate_name ?? "this candidate"}? Its pending interviews will be cancelled too.`}
+        onConfirm={handleCancelLoop}
+        confirmText="Cancel Loop"
+        variant="destructive"
+      />
+
       <ExportDialog
         open={exportDialogOpen}
         onOpenChange={setExportDialogOpen}
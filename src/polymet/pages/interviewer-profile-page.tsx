@@ -0,0 +1,318 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import { StatusBadge } from "@/polymet/components/status-badge";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertTriangleIcon,
+  ArrowLeftIcon,
+  BanIcon,
+  FlameIcon,
+  ShieldCheckIcon,
+  XCircleIcon,
+} from "lucide-react";
+import { db } from "@/polymet/data/database-service";
+import type {
+  InterviewEvent,
+  ReliabilityReport,
+} from "@/polymet/data/database-service";
+import { formatRate, getKpiChange } from "@/lib/analytics-utils";
+import {
+  describeAttention,
+  formatTrendDirection,
+  getTrendScale,
+} from "@/lib/reliability-utils";
+
+const TREND_CLASSES: Record<NonNullable<ReliabilityReport["direction"]>, string> = {
+  improving: "text-green-600 dark:text-green-400",
+  stable: "text-muted-foreground",
+  worsening: "text-red-600 dark:text-red-400",
+};
+
+/**
+ * Interviewer profile page
+ * Reliability over the rolling window, the weekly ghosting trend and the
+ * interviewer's most recent interviews
+ */
+export function InterviewerProfilePage() {
+  const { email = "" } = useParams<{ email: string }>();
+  const [report, setReport] = useState<ReliabilityReport | null>(null);
+  const [recentEvents, setRecentEvents] = useState<InterviewEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadProfile = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [reportData, eventsPage] = await Promise.all([
+        db.getInterviewerReliability(email),
+        db.getInterviewEventsPage({
+          interviewer_email: email,
+          sort: "start_time",
+          order: "desc",
+          limit: 10,
+        }),
+      ]);
+      setReport(reportData);
+      setRecentEvents(eventsPage.data);
+    } catch (error) {
+      console.error("Failed to load interviewer profile:", error);
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [email]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Interviewer</h1>
+          <p className="text-muted-foreground mt-2">Loading interviewer...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Interviewer not found</h1>
+          <p className="text-muted-foreground mt-2">
+            <Link to="/interviewers" className="hover:underline">
+              Back to interviewers
+            </Link>
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const { reliability, previous, thresholds, window: period, weeks } = report;
+  const ghostChange = getKpiChange(reliability.ghost_rate, previous.ghost_rate, "rate");
+  const cancellationChange = getKpiChange(
+    reliability.cancellation_rate,
+    previous.cancellation_rate,
+    "rate"
+  );
+  const trendScale = getTrendScale(weeks);
+
+  const metrics = [
+    {
+      title: "Ghost Rate",
+      value: formatRate(reliability.ghost_rate),
+      detail: `${reliability.ghosted} of ${reliability.attended + reliability.ghosted} held or missed`,
+      change: ghostChange,
+      icon: XCircleIcon,
+    },
+    {
+      title: "Cancellation Rate",
+      value: formatRate(reliability.cancellation_rate),
+      detail: `${reliability.cancelled} cancelled`,
+      change: cancellationChange,
+      icon: BanIcon,
+    },
+    {
+      title: "Attended Streak",
+      value: String(reliability.attended_streak),
+      detail: reliability.last_ghosted_at
+        ? `Since the no-show on ${new Date(reliability.last_ghosted_at).toLocaleDateString()}`
+        : "No no-shows on record",
+      change: null,
+      icon: FlameIcon,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          to="/interviewers"
+          className="inline-flex items-center text-sm text-muted-foreground hover:underline"
+        >
+          <ArrowLeftIcon className="h-4 w-4 mr-1" />
+          Interviewers
+        </Link>
+        <div className="flex items-center gap-3 mt-2">
+          <h1 className="text-3xl font-bold">{reliability.name}</h1>
+          {!reliability.is_active && <Badge variant="secondary">Inactive</Badge>}
+        </div>
+        <p className="text-muted-foreground mt-2">{reliability.email}</p>
+      </div>
+
+      {reliability.needs_attention && (
+        <div
+          role="alert"
+          className="flex items-start gap-3 rounded-md border border-red-200 bg-red-50 p-4 text-sm text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-200"
+        >
+          <AlertTriangleIcon className="h-4 w-4 mt-0.5 shrink-0" />
+          <div>
+            <div className="font-medium">Needs attention</div>
+            {describeAttention(reliability, thresholds).map((line) => (
+              <div key={line}>{line}</div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Reliability */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Reliability</CardTitle>
+            <ShieldCheckIcon className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{reliability.score ?? "—"}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              Out of 100, last {period.days} days
+              {previous.score !== null && ` (${previous.score} before)`}
+            </p>
+          </CardContent>
+        </Card>
+
+        {metrics.map((metric) => (
+          <Card key={metric.title}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{metric.title}</CardTitle>
+              <metric.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{metric.value}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                {metric.detail}
+                {metric.change && ` (${metric.change.label} vs previous ${period.days} days)`}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Weekly trend */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Ghosting Trend</CardTitle>
+          <span
+            className={`text-sm font-medium ${
+              report.direction ? TREND_CLASSES[report.direction] : "text-muted-foreground"
+            }`}
+          >
+            {formatTrendDirection(report.direction)}
+          </span>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-1 h-40" aria-label="Interviews per week">
+            {weeks.map((week) => {
+              const total = week.attended + week.ghosted + week.cancelled;
+              return (
+                <div
+                  key={week.week_start}
+                  className="flex-1 flex flex-col justify-end h-full"
+                  title={`Week of ${week.week_start}: ${week.attended} attended, ${week.ghosted} no-show, ${week.cancelled} cancelled (ghost rate ${formatRate(week.ghost_rate)})`}
+                >
+                  {total > 0 && (
+                    <div
+                      className="flex flex-col w-full rounded-sm overflow-hidden"
+                      style={{ height: `${(total / trendScale) * 100}%` }}
+                    >
+                      <div className="bg-red-500" style={{ flexGrow: week.ghosted }} />
+                      <div className="bg-gray-400" style={{ flexGrow: week.cancelled }} />
+                      <div className="bg-green-500" style={{ flexGrow: week.attended }} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground mt-2">
+            <span>{weeks[0]?.week_start}</span>
+            <div className="flex gap-4">
+              <span className="inline-flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-green-500" />
+                Attended
+              </span>
+              <span className="inline-flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-red-500" />
+                No-show
+              </span>
+              <span className="inline-flex items-center gap-1">
+                <span className="h-2 w-2 rounded-sm bg-gray-400" />
+                Cancelled
+              </span>
+            </div>
+            <span>{weeks[weeks.length - 1]?.week_start}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Recent interviews */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Interviews</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Candidate</TableHead>
+                  <TableHead>Position</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recentEvents.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={4}
+                      className="text-center text-muted-foreground py-8"
+                    >
+                      No interviews yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  recentEvents.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="text-sm">
+                        {new Date(event.start_time).toLocaleString("en-US", {
+                          month: "short",
+                          day: "numeric",
+                          year: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {event.candidate_name ?? "-"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {event.position ?? "-"}
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={event.status} />
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
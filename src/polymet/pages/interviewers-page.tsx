@@ -1,7 +1,10 @@
 import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { InterviewerTable } from "@/polymet/components/interviewer-table";
 import { AddInterviewerDialog } from "@/polymet/components/add-interviewer-dialog";
 import { ExportDialog } from "@/polymet/components/export-dialog";
+import { InterviewerAvailabilityDialog } from "@/polymet/components/interviewer-availability-dialog";
+import { FindInterviewerDialog } from "@/polymet/components/find-interviewer-dialog";
 import { ConfirmDialog } from "@/components/ui/confirm-dialog";
 import { ErrorAlert } from "@/components/ui/error-alert";
 import { SuccessAlert } from "@/components/ui/success-alert";
@@ -12,6 +15,8 @@ import {
   DownloadIcon,
   UsersIcon,
   CheckCircle2Icon,
+  SearchIcon,
+  AlertTriangleIcon,
 } from "lucide-react";
 import { db } from "@/polymet/data/database-service";
 import {
@@ -21,15 +26,47 @@ import {
 } from "@/lib/csv-utils";
 import type { ExportTypeOption } from "@/polymet/components/export-dialog";
 import type { Interviewer } from "@/polymet/data/mock-interviewers-data";
+import type {
+  InterviewerAvailability,
+  InterviewerListQuery,
+  InterviewerStats,
+  ReliabilityList,
+} from "@/polymet/data/database-service";
 import { useAuth } from "@/polymet/data/auth-context";
+import { DEFAULT_PAGE_SIZE } from "@/lib/pagination-utils";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+import { mapPage, toInterviewerRow } from "@/lib/row-utils";
+
+const fetchInterviewersPage = async (query: InterviewerListQuery) =>
+  mapPage(await db.getInterviewersPage(query), toInterviewerRow);
 
 export function InterviewersPage() {
-  const [interviewers, setInterviewers] = useState<Interviewer[]>([]);
-  const [loading, setLoading] = useState(true);
+  const {
+    items: interviewers,
+    pagination,
+    query,
+    setQuery,
+    loaded,
+    reload,
+  } = usePaginatedList<Interviewer, InterviewerListQuery>(
+    fetchInterviewersPage,
+    { sort: "name", order: "asc", limit: DEFAULT_PAGE_SIZE, offset: 0 }
+  );
+  const [stats, setStats] = useState<InterviewerStats>({
+    total: 0,
+    active: 0,
+    skills: 0,
+  });
+  const [reliability, setReliability] = useState<ReliabilityList>();
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [findDialogOpen, setFindDialogOpen] = useState(false);
   const [editingInterviewer, setEditingInterviewer] =
     useState<Interviewer | null>(null);
+  const [availabilityInterviewer, setAvailabilityInterviewer] =
+    useState<Interviewer | null>(null);
+  const [availability, setAvailability] =
+    useState<InterviewerAvailability | null>(null);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [interviewerToDelete, setInterviewerToDelete] =
     useState<Interviewer | null>(null);
@@ -38,36 +75,78 @@ export function InterviewersPage() {
   const [successAlertOpen, setSuccessAlertOpen] = useState(false);
   const [successMessage, setSuccessMessage] = useState("");
   const { user } = useAuth();
+  const navigate = useNavigate();
   const userRole = user?.role ?? "viewer";
   const auditContext = user
     ? { userEmail: user.email, userName: user.name }
     : undefined;
 
-  useEffect(() => {
-    loadInterviewers();
-  }, []);
+  const loadStats = async () => {
+    try {
+      setStats(await db.getInterviewerStats());
+    } catch (error) {
+      console.error("Failed to load interviewer stats:", error);
+    }
+  };
 
-  const loadInterviewers = async () => {
+  const loadReliability = async () => {
     try {
-      setLoading(true);
-      const data = await db.getInterviewers();
-      setInterviewers(data);
+      setReliability(await db.getReliability());
     } catch (error) {
-      console.error("Failed to load interviewers:", error);
-    } finally {
-      setLoading(false);
+      console.error("Failed to load interviewer reliability:", error);
     }
   };
 
-  const activeInterviewers = interviewers.filter((i) => i.is_active).length;
+  useEffect(() => {
+    loadStats();
+    loadReliability();
+  }, []);
 
-  const totalSkills = new Set(interviewers.flatMap((i) => i.skills)).size;
+  // Refresh the current page and the roster-wide counts after a change
+  const loadInterviewers = async () => {
+    await Promise.all([reload(), loadStats(), loadReliability()]);
+  };
+
+  const needsAttention =
+    reliability?.data.filter((row) => row.needs_attention).length ?? 0;
 
   const handleEdit = (interviewer: Interviewer) => {
     setEditingInterviewer(interviewer);
     setAddDialogOpen(true);
   };
 
+  const handleEditAvailability = async (interviewer: Interviewer) => {
+    try {
+      const data = await db.getInterviewerAvailability(interviewer.id);
+      setAvailability(data);
+      setAvailabilityInterviewer(interviewer);
+    } catch (error) {
+      console.error("Failed to load availability:", error);
+      setErrorMessage("Failed to load availability");
+      setErrorAlertOpen(true);
+    }
+  };
+
+  const handleSaveAvailability = async (
+    data: Pick<InterviewerAvailability, "weekly" | "overrides" | "blackouts">
+  ) => {
+    if (!availabilityInterviewer) return;
+
+    try {
+      await db.updateInterviewerAvailability(availabilityInterviewer.id, data);
+      setAvailabilityInterviewer(null);
+      setAvailability(null);
+      setSuccessMessage("Availability updated successfully");
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to save availability:", error);
+      setErrorMessage(
+        error instanceof Error ? error.message : "Failed to save availability"
+      );
+      setErrorAlertOpen(true);
+    }
+  };
+
   const handleDelete = (interviewer: Interviewer) => {
     setInterviewerToDelete(interviewer);
     setDeleteConfirmOpen(true);
@@ -139,12 +218,13 @@ export function InterviewersPage() {
   const handleExport = async (type: ExportTypeOption) => {
     try {
       if (type === "interviewers") {
-        if (interviewers.length === 0) {
+        const allInterviewers = await db.getInterviewers();
+        if (allInterviewers.length === 0) {
           setErrorMessage("No interviewers available to export.");
           setErrorAlertOpen(true);
           return;
         }
-        await exportInterviewersCsv(interviewers);
+        await exportInterviewersCsv(allInterviewers);
         return;
       }
 
@@ -181,7 +261,7 @@ export function InterviewersPage() {
 
   const canAddEdit = userRole === "admin" || userRole === "talent";
 
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="space-y-6">
         <div>
@@ -203,6 +283,10 @@ export function InterviewersPage() {
           </p>
         </div>
         <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setFindDialogOpen(true)}>
+            <SearchIcon className="h-4 w-4 mr-2" />
+            Find Interviewer
+          </Button>
           <Button variant="outline" onClick={() => setExportDialogOpen(true)}>
             <DownloadIcon className="h-4 w-4 mr-2" />
             Export
@@ -222,7 +306,7 @@ export function InterviewersPage() {
       </div>
 
       {/* Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
             <CardTitle className="text-sm font-medium">
@@ -231,7 +315,7 @@ export function InterviewersPage() {
             <UsersIcon className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{interviewers.length}</div>
+            <div className="text-2xl font-bold">{stats.total}</div>
             <p className="text-xs text-muted-foreground mt-1">In the roster</p>
           </CardContent>
         </Card>
@@ -242,7 +326,7 @@ export function InterviewersPage() {
             <CheckCircle2Icon className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{activeInterviewers}</div>
+            <div className="text-2xl font-bold">{stats.active}</div>
             <p className="text-xs text-muted-foreground mt-1">
               Available for scheduling
             </p>
@@ -255,12 +339,29 @@ export function InterviewersPage() {
             <UsersIcon className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{totalSkills}</div>
+            <div className="text-2xl font-bold">{stats.skills}</div>
             <p className="text-xs text-muted-foreground mt-1">
               Unique skill areas
             </p>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">
+              Needs Attention
+            </CardTitle>
+            <AlertTriangleIcon className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{needsAttention}</div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {reliability
+                ? `High ghost or cancellation rate, last ${reliability.window.days} days`
+                : "Reliability unavailable"}
+            </p>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Interviewers Table */}
@@ -275,6 +376,14 @@ export function InterviewersPage() {
             onEdit={handleEdit}
             onDelete={handleDelete}
             onToggleActive={handleToggleActive}
+            onEditAvailability={handleEditAvailability}
+            onViewProfile={(interviewer) =>
+              navigate(`/interviewers/${encodeURIComponent(interviewer.email)}`)
+            }
+            reliability={reliability}
+            query={query}
+            pagination={pagination}
+            onQueryChange={setQuery}
           />
         </CardContent>
       </Card>
@@ -291,6 +400,24 @@ export function InterviewersPage() {
         onSubmit={handleAddInterviewer}
       />
 
+      <InterviewerAvailabilityDialog
+        open={availabilityInterviewer !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setAvailabilityInterviewer(null);
+            setAvailability(null);
+          }
+        }}
+        interviewer={availabilityInterviewer}
+        availability={availability}
+        onSubmit={handleSaveAvailability}
+      />
+
+      <FindInterviewerDialog
+        open={findDialogOpen}
+        onOpenChange={setFindDialogOpen}
+      />
+
       <ExportDialog
         open={exportDialogOpen}
         onOpenChange={setExportDialogOpen}
@@ -1,40 +1,35 @@
-import { useState, useEffect } from "react";
 import { EditableWeeklyCalendar } from "@/polymet/components/editable-weekly-calendar";
-import { db } from "@/polymet/data/database-service";
+import { TablePagination } from "@/polymet/components/table-pagination";
+import { db, type InterviewerListQuery } from "@/polymet/data/database-service";
 import type { Interviewer } from "@/polymet/data/mock-interviewers-data";
-import type { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
 import { useAuth } from "@/polymet/data/auth-context";
+import { DEFAULT_PAGE_SIZE } from "@/lib/pagination-utils";
+import { mapPage, toInterviewerRow } from "@/lib/row-utils";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+
+const fetchRosterPage = async (query: InterviewerListQuery) =>
+  mapPage(await db.getInterviewersPage(query), toInterviewerRow);
 
 export function MarkInterviewsPage() {
-  const [interviewers, setInterviewers] = useState<Interviewer[]>([]);
-  const [events, setEvents] = useState<InterviewEvent[]>([]);
-  const [loading, setLoading] = useState(true);
+  // One page of active interviewers; the calendar loads the shown range
+  const {
+    items: interviewers,
+    pagination,
+    query,
+    setQuery,
+    loaded,
+  } = usePaginatedList<Interviewer, InterviewerListQuery>(fetchRosterPage, {
+    sort: "name",
+    order: "asc",
+    is_active: true,
+    limit: DEFAULT_PAGE_SIZE,
+    offset: 0,
+  });
   const { user } = useAuth();
   const auditContext = user
     ? { userEmail: user.email, userName: user.name }
     : undefined;
 
-  // Load data from database
-  useEffect(() => {
-    loadData();
-  }, []);
-
-  const loadData = async () => {
-    try {
-      setLoading(true);
-      const [interviewersData, eventsData] = await Promise.all([
-        db.getInterviewers(),
-        db.getInterviewEvents(),
-      ]);
-      setInterviewers(interviewersData);
-      setEvents(eventsData);
-    } catch (error) {
-      console.error("Failed to load data:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
   const handleSave = async () => {
     try {
       // Auto-save is handled by the calendar component
@@ -45,7 +40,7 @@ export function MarkInterviewsPage() {
     }
   };
 
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="space-y-6">
         <div>
@@ -72,10 +67,17 @@ export function MarkInterviewsPage() {
       {/* Editable Calendar */}
       <EditableWeeklyCalendar
         interviewers={interviewers}
-        events={events}
+        events={[]}
         onSave={handleSave}
         auditContext={auditContext}
       />
+
+      <TablePagination
+        pagination={pagination}
+        itemLabel="interviewers"
+        onPageChange={(offset) => setQuery({ ...query, offset })}
+        onPageSizeChange={(limit) => setQuery({ ...query, limit, offset: 0 })}
+      />
     </div>
   );
 }
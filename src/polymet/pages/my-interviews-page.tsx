@@ -0,0 +1,330 @@
+import { useState, useEffect, useCallback } from "react";
+import { StatusBadge } from "@/polymet/components/status-badge";
+import { InterviewerResponseBadge } from "@/polymet/components/interviewer-response-badge";
+import { InterviewerAttendanceCalendar } from "@/polymet/components/interviewer-attendance-calendar";
+import { TablePagination } from "@/polymet/components/table-pagination";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { SuccessAlert } from "@/components/ui/success-alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangleIcon, BanIcon, CheckCircle2Icon, ThumbsUpIcon, XCircleIcon } from "lucide-react";
+import { db } from "@/polymet/data/database-service";
+import type {
+  InterviewEvent,
+  InterviewHistory,
+  MyInterviewsQuery,
+} from "@/polymet/data/database-service";
+import { useAuth } from "@/polymet/data/auth-context";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+
+const PAGE_SIZE = 20;
+
+const fetchMyInterviews = (query: MyInterviewsQuery) => db.getMyInterviews(query);
+
+/**
+ * My interviews page
+ * The signed-in user's own interviews: confirm or flag a conflict with
+ * upcoming ones, and look back at past ones and the attendance history
+ */
+export function MyInterviewsPage() {
+  const { user } = useAuth();
+  const {
+    items: events,
+    pagination,
+    query,
+    setQuery,
+    loaded,
+    reload,
+  } = usePaginatedList<InterviewEvent, MyInterviewsQuery>(fetchMyInterviews, {
+    when: "upcoming",
+    limit: PAGE_SIZE,
+    offset: 0,
+  });
+  const [history, setHistory] = useState<InterviewHistory | null>(null);
+  const [conflictEvent, setConflictEvent] = useState<InterviewEvent | null>(null);
+  const [conflictNote, setConflictNote] = useState("");
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [errorAlertOpen, setErrorAlertOpen] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [successAlertOpen, setSuccessAlertOpen] = useState(false);
+  const [successMessage, setSuccessMessage] = useState("");
+  const upcoming = query.when === "upcoming";
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setHistory(await db.getMyInterviewHistory());
+    } catch (error) {
+      console.error("Failed to load interview history:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Only pending interviews that have not started can be answered
+  const canRespond = (event: InterviewEvent) =>
+    event.status === "pending" && new Date(event.start_time).getTime() > Date.now();
+
+  const handleConfirm = async (event: InterviewEvent) => {
+    try {
+      setSavingId(event.id);
+      await db.confirmMyInterview(event.id);
+      await reload();
+      setSuccessMessage("Interview confirmed");
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to confirm interview:", error);
+      setErrorMessage("Failed to confirm interview");
+      setErrorAlertOpen(true);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const openConflictDialog = (event: InterviewEvent) => {
+    setConflictEvent(event);
+    setConflictNote(event.interviewer_response_note ?? "");
+  };
+
+  const handleFlagConflict = async () => {
+    if (!conflictEvent || !conflictNote.trim()) return;
+    try {
+      setSavingId(conflictEvent.id);
+      await db.flagMyInterviewConflict(conflictEvent.id, conflictNote.trim());
+      setConflictEvent(null);
+      await reload();
+      setSuccessMessage("Conflict flagged, the coordinator will reschedule");
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to flag conflict:", error);
+      setErrorMessage("Failed to flag conflict");
+      setErrorAlertOpen(true);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const formatDateTime = (dateString: string) =>
+    new Date(dateString).toLocaleString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  const totals = history?.totals;
+  const summary = [
+    { title: "Attended", value: totals?.attended ?? 0, icon: CheckCircle2Icon },
+    { title: "No Show", value: totals?.ghosted ?? 0, icon: XCircleIcon },
+    { title: "Cancelled", value: totals?.cancelled ?? 0, icon: BanIcon },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold">My Interviews</h1>
+        <p className="text-muted-foreground mt-2">
+          Interviews assigned to {user?.email}
+        </p>
+      </div>
+
+      {/* Interviews */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>{upcoming ? "Upcoming" : "Past"}</CardTitle>
+          <div className="flex gap-1" role="group" aria-label="Show">
+            <Button
+              size="sm"
+              variant={upcoming ? "default" : "outline"}
+              aria-pressed={upcoming}
+              onClick={() => setQuery({ ...query, when: "upcoming", offset: 0 })}
+            >
+              Upcoming
+            </Button>
+            <Button
+              size="sm"
+              variant={upcoming ? "outline" : "default"}
+              aria-pressed={!upcoming}
+              onClick={() => setQuery({ ...query, when: "past", offset: 0 })}
+            >
+              Past
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-md border border-border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Candidate</TableHead>
+                  <TableHead>Position</TableHead>
+                  <TableHead>Status</TableHead>
+                  {upcoming && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!loaded ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      Loading interviews...
+                    </TableCell>
+                  </TableRow>
+                ) : events.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                      {upcoming ? "No upcoming interviews" : "No past interviews"}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="text-sm">{formatDateTime(event.start_time)}</TableCell>
+                      <TableCell className="text-sm">{event.candidate_name ?? "-"}</TableCell>
+                      <TableCell className="text-sm">{event.position ?? "-"}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap items-center gap-1">
+                          <StatusBadge status={event.status} />
+                          <InterviewerResponseBadge
+                            response={event.interviewer_response}
+                            note={event.interviewer_response_note}
+                          />
+                        </div>
+                      </TableCell>
+                      {upcoming && (
+                        <TableCell className="text-right">
+                          {canRespond(event) && (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleConfirm(event)}
+                                disabled={savingId === event.id || event.interviewer_response === "confirmed"}
+                              >
+                                <ThumbsUpIcon className="h-4 w-4 mr-1" />
+                                Confirm
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => openConflictDialog(event)}
+                                disabled={savingId === event.id}
+                              >
+                                <AlertTriangleIcon className="h-4 w-4 mr-1" />
+                                Flag conflict
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+          <TablePagination
+            pagination={pagination}
+            itemLabel="interviews"
+            onPageChange={(offset) => setQuery({ ...query, offset })}
+            onPageSizeChange={(limit) => setQuery({ ...query, limit, offset: 0 })}
+          />
+        </CardContent>
+      </Card>
+
+      {/* History */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {summary.map((item) => (
+          <Card key={item.title}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{item.title}</CardTitle>
+              <item.icon className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{item.value}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Rendered once loaded: the calendar reads its data on mount */}
+      {history && (
+        <InterviewerAttendanceCalendar
+          interviewerName={user?.name ?? "My attendance"}
+          interviewerEmail={user?.email ?? ""}
+          initialData={history.days.map((day) => ({ date: day.date, count: day.total }))}
+          readOnly
+        />
+      )}
+
+      <Dialog open={!!conflictEvent} onOpenChange={(open) => !open && setConflictEvent(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Flag a Conflict</DialogTitle>
+            <DialogDescription>
+              {conflictEvent &&
+                `Let the coordinator know you cannot make ${formatDateTime(conflictEvent.start_time)}`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="conflict-note">What clashes?</Label>
+            <Textarea
+              id="conflict-note"
+              placeholder="e.g. Out of office that afternoon"
+              value={conflictNote}
+              onChange={(e) => setConflictNote(e.target.value)}
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConflictEvent(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleFlagConflict}
+              disabled={!conflictNote.trim() || savingId === conflictEvent?.id}
+            >
+              Flag conflict
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Accessible Error Alert */}
+      <ErrorAlert
+        open={errorAlertOpen}
+        onOpenChange={setErrorAlertOpen}
+        message={errorMessage}
+      />
+
+      {/* Accessible Success Alert */}
+      <SuccessAlert
+        open={successAlertOpen}
+        onOpenChange={setSuccessAlertOpen}
+        message={successMessage}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+import { useState, useEffect, useCallback } from "react";
+import { MarkAttendanceDialog } from "@/polymet/components/mark-attendance-dialog";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { SuccessAlert } from "@/components/ui/success-alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangleIcon, InboxIcon } from "lucide-react";
+import { db } from "@/polymet/data/database-service";
+import type {
+  MarkingAgeBucket,
+  MarkingInbox,
+  OverdueEvent,
+} from "@/polymet/data/database-service";
+import { useAuth } from "@/polymet/data/auth-context";
+import {
+  formatOverdue,
+  getCoordinatorLabel,
+  isDueForEscalation,
+} from "@/lib/marking-utils";
+
+type CoordinatorScope = "mine" | "all";
+
+/**
+ * Needs marking page
+ * Interviews that ended over the grace period ago and are still pending,
+ * grouped by coordinator with age buckets; admins can escalate them now
+ */
+export function NeedsMarkingPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const [inbox, setInbox] = useState<MarkingInbox | null>(null);
+  const [loading, setLoading] = useState(true);
+  // Coordinators start on their own queue, admins see everyone's
+  const [scope, setScope] = useState<CoordinatorScope>(isAdmin ? "all" : "mine");
+  const [bucket, setBucket] = useState<MarkingAgeBucket | undefined>();
+  const [escalatedOnly, setEscalatedOnly] = useState(false);
+  const [selectedEvent, setSelectedEvent] = useState<OverdueEvent | null>(null);
+  const [markDialogOpen, setMarkDialogOpen] = useState(false);
+  const [escalating, setEscalating] = useState(false);
+  const [errorAlertOpen, setErrorAlertOpen] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [successAlertOpen, setSuccessAlertOpen] = useState(false);
+  const [successMessage, setSuccessMessage] = useState("");
+
+  const loadInbox = useCallback(async () => {
+    try {
+      const data = await db.getMarkingInbox({
+        coordinator_email: scope === "mine" ? user?.email : undefined,
+        bucket,
+        escalated: escalatedOnly || undefined,
+      });
+      setInbox(data);
+    } catch (error) {
+      console.error("Failed to load marking inbox:", error);
+      setErrorMessage("Failed to load interviews that need marking");
+      setErrorAlertOpen(true);
+    } finally {
+      setLoading(false);
+    }
+  }, [scope, bucket, escalatedOnly, user?.email]);
+
+  useEffect(() => {
+    loadInbox();
+  }, [loadInbox]);
+
+  const handleMark = (event: OverdueEvent) => {
+    setSelectedEvent(event);
+    setMarkDialogOpen(true);
+  };
+
+  const handleSubmitAttendance = async (
+    eventId: string,
+    status: "attended" | "ghosted" | "cancelled",
+    notes: string
+  ) => {
+    try {
+      // Same fields as marking from the events page
+      await db.updateInterviewEvent(eventId, {
+        status,
+        notes,
+        marked_by: user?.email,
+        marked_at: new Date().toISOString(),
+      });
+      await loadInbox();
+      setMarkDialogOpen(false);
+      setSuccessMessage("Attendance marked successfully");
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to update attendance:", error);
+      setErrorMessage("Failed to update attendance");
+      setErrorAlertOpen(true);
+    }
+  };
+
+  const handleEscalate = async () => {
+    try {
+      setEscalating(true);
+      const { escalated } = await db.escalateOverdueMarking();
+      await loadInbox();
+      setSuccessMessage(
+        escalated.length === 0
+          ? "No interviews are due for escalation"
+          : `Escalated ${escalated.length} interview${escalated.length === 1 ? "" : "s"}`
+      );
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to escalate overdue interviews:", error);
+      setErrorMessage("Failed to escalate overdue interviews");
+      setErrorAlertOpen(true);
+    } finally {
+      setEscalating(false);
+    }
+  };
+
+  const formatEnded = (dateString: string) =>
+    new Date(dateString).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Needs Marking</h1>
+          <p className="text-muted-foreground mt-2">
+            {inbox
+              ? `Interviews still pending ${inbox.grace_minutes} minutes after they ended, escalated after ${inbox.escalate_after_hours} hours`
+              : "Interviews still pending after they ended"}
+          </p>
+        </div>
+        {isAdmin && (
+          <Button onClick={handleEscalate} disabled={escalating}>
+            <AlertTriangleIcon className="h-4 w-4 mr-2" />
+            {escalating ? "Escalating..." : "Escalate now"}
+          </Button>
+        )}
+      </div>
+
+      {/* Age buckets, click to filter */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {inbox?.buckets.map((item) => (
+          <button
+            key={item.key}
+            type="button"
+            aria-pressed={bucket === item.key}
+            onClick={() => setBucket(bucket === item.key ? undefined : item.key)}
+            className="text-left"
+          >
+            <Card className={bucket === item.key ? "border-primary" : undefined}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium">{item.label}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{item.count}</div>
+              </CardContent>
+            </Card>
+          </button>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <Select
+          value={scope}
+          onValueChange={(value) => setScope(value as CoordinatorScope)}
+        >
+          <SelectTrigger className="w-full sm:w-[200px]" aria-label="Coordinator">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="mine">My interviews</SelectItem>
+            <SelectItem value="all">All coordinators</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="escalated-only"
+            checked={escalatedOnly}
+            onCheckedChange={setEscalatedOnly}
+          />
+          <Label htmlFor="escalated-only">Escalated only</Label>
+        </div>
+        {inbox && (
+          <span className="text-sm text-muted-foreground sm:ml-auto">
+            {inbox.total} overdue, {inbox.escalated} escalated
+          </span>
+        )}
+      </div>
+
+      {/* One card per coordinator */}
+      {loading ? (
+        <p className="text-muted-foreground">Loading interviews...</p>
+      ) : !inbox || inbox.groups.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center py-12 text-muted-foreground">
+            <InboxIcon className="h-8 w-8 mb-2" />
+            Nothing to mark
+          </CardContent>
+        </Card>
+      ) : (
+        inbox.groups.map((group) => (
+          <Card key={group.coordinator_email ?? "unassigned"}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+              <CardTitle>{getCoordinatorLabel(group)}</CardTitle>
+              <span className="text-sm text-muted-foreground">
+                {group.total} overdue
+                {group.escalated > 0 && `, ${group.escalated} escalated`}
+                {`, oldest ${formatOverdue(group.oldest_overdue_hours)}`}
+              </span>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Candidate</TableHead>
+                      <TableHead>Interviewer</TableHead>
+                      <TableHead>Ended</TableHead>
+                      <TableHead>Overdue</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.events.map((event) => (
+                      <TableRow key={event.id}>
+                        <TableCell className="text-sm">
+                          <div>{event.candidate_name ?? "-"}</div>
+                          {event.position && (
+                            <div className="text-xs text-muted-foreground">
+                              {event.position}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {event.interviewer_name ?? event.interviewer_email}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {formatEnded(event.end_time)}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div className="flex items-center gap-2">
+                            {formatOverdue(event.overdue_hours)}
+                            {event.escalated_at ? (
+                              <Badge variant="destructive">Escalated</Badge>
+                            ) : (
+                              isDueForEscalation(event.overdue_hours, inbox) && (
+                                <Badge variant="outline">Due</Badge>
+                              )
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleMark(event)}
+                          >
+                            Mark
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <MarkAttendanceDialog
+        open={markDialogOpen}
+        onOpenChange={setMarkDialogOpen}
+        event={selectedEvent}
+        onSubmit={handleSubmitAttendance}
+      />
+
+      {/* Accessible Error Alert */}
+      <ErrorAlert
+        open={errorAlertOpen}
+        onOpenChange={setErrorAlertOpen}
+        message={errorMessage}
+      />
+
+      {/* Accessible Success Alert */}
+      <SuccessAlert
+        open={successAlertOpen}
+        onOpenChange={setSuccessAlertOpen}
+        message={successMessage}
+      />
+    </div>
+  );
+}
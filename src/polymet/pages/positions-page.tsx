@@ -0,0 +1,297 @@
+import { useState, useEffect } from "react";
+import { PositionDialog } from "@/polymet/components/position-dialog";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { ErrorAlert } from "@/components/ui/error-alert";
+import { SuccessAlert } from "@/components/ui/success-alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PencilIcon, PlusIcon, SearchIcon, TrashIcon } from "lucide-react";
+import { db } from "@/polymet/data/database-service";
+import type { Position, PositionInput } from "@/polymet/data/database-service";
+import { ApiError } from "@/lib/api-client";
+
+/**
+ * Position catalogue (admin)
+ * The roles interviews are held for, so reports group by one canonical title
+ */
+export function PositionsPage() {
+  const [positions, setPositions] = useState<Position[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"all" | Position["status"]>(
+    "all"
+  );
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPosition, setEditingPosition] = useState<Position | null>(null);
+  const [deletingPosition, setDeletingPosition] = useState<Position | null>(null);
+  const [errorAlertOpen, setErrorAlertOpen] = useState(false);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [successAlertOpen, setSuccessAlertOpen] = useState(false);
+  const [successMessage, setSuccessMessage] = useState("");
+
+  useEffect(() => {
+    loadPositions();
+  }, []);
+
+  const loadPositions = async () => {
+    try {
+      setLoading(true);
+      setPositions(await db.getPositions());
+    } catch (error) {
+      console.error("Failed to load positions:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    // 409 = duplicate or near-duplicate title, the server names the match
+    setErrorMessage(
+      error instanceof ApiError && error.status === 409 ? error.message : fallback
+    );
+    setErrorAlertOpen(true);
+  };
+
+  const handleSavePosition = async (data: PositionInput) => {
+    try {
+      if (editingPosition) {
+        await db.updatePosition(editingPosition.id, data);
+        setSuccessMessage("Position updated successfully");
+      } else {
+        await db.createPosition(data);
+        setSuccessMessage("Position added successfully");
+      }
+      await loadPositions();
+      setDialogOpen(false);
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to save position:", error);
+      showError(error, "Failed to save position");
+    }
+  };
+
+  const handleDeletePosition = async () => {
+    if (!deletingPosition) return;
+
+    try {
+      await db.deletePosition(deletingPosition.id);
+      await loadPositions();
+      setSuccessMessage("Position deleted successfully");
+      setSuccessAlertOpen(true);
+    } catch (error) {
+      console.error("Failed to delete position:", error);
+      showError(error, "Failed to delete position");
+    } finally {
+      setDeletingPosition(null);
+    }
+  };
+
+  const openDialog = (position: Position | null) => {
+    setEditingPosition(position);
+    setDialogOpen(true);
+  };
+
+  const query = searchQuery.toLowerCase();
+  const filteredPositions = positions.filter(
+    (position) =>
+      (statusFilter === "all" || position.status === statusFilter) &&
+      (position.title.toLowerCase().includes(query) ||
+        position.department?.toLowerCase().includes(query) ||
+        position.hiring_manager_email?.toLowerCase().includes(query))
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold">Positions</h1>
+          <p className="text-muted-foreground mt-2">Loading positions...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Positions</h1>
+          <p className="text-muted-foreground mt-2">
+            Open requisitions and the skills they need
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <PlusIcon className="h-4 w-4 mr-2" />
+          Add Position
+        </Button>
+      </div>
+
+      <div className="flex gap-4">
+        <div className="relative flex-1">
+          <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+
+          <Input
+            placeholder="Search by title, department or hiring manager..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) =>
+            setStatusFilter(value as "all" | Position["status"])
+          }
+        >
+          <SelectTrigger className="w-40" aria-label="Filter by status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="closed">Closed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="rounded-md border border-border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Title</TableHead>
+              <TableHead>Department</TableHead>
+              <TableHead>Hiring Manager</TableHead>
+              <TableHead>Required Skills</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Interviews</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredPositions.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={7}
+                  className="text-center text-muted-foreground py-8"
+                >
+                  No positions found
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredPositions.map((position) => (
+                <TableRow key={position.id}>
+                  <TableCell className="font-medium">{position.title}</TableCell>
+                  <TableCell className="text-sm">
+                    {position.department ?? (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {position.hiring_manager_email ?? (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {position.required_skills.length > 0 ? (
+                      <div className="flex flex-wrap gap-1 max-w-xs">
+                        {position.required_skills.map((skill) => (
+                          <Badge key={skill} variant="secondary" className="text-xs">
+                            {skill}
+                          </Badge>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={position.status === "open" ? "default" : "outline"}
+                    >
+                      {position.status === "open" ? "Open" : "Closed"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {position.interview_count ?? 0}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openDialog(position)}
+                        aria-label={`Edit ${position.title}`}
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setDeletingPosition(position)}
+                        aria-label={`Delete ${position.title}`}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="text-sm text-muted-foreground">
+        Showing {filteredPositions.length} of {positions.length} positions
+      </div>
+
+      <PositionDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        position={editingPosition}
+        onSubmit={handleSavePosition}
+      />
+
+      <ConfirmDialog
+        open={!!deletingPosition}
+        onOpenChange={(open) => !open && setDeletingPosition(null)}
+        title="Delete Position"
+        description={`Delete ${deletingPosition?.title ?? "this position"}? Its interviews keep the title but will no longer be linked to a position.`}
+        onConfirm={handleDeletePosition}
+        confirmText="Delete"
+        variant="destructive"
+      />
+
+      {/* Accessible Error Alert */}
+      <ErrorAlert
+        open={errorAlertOpen}
+        onOpenChange={setErrorAlertOpen}
+        message={errorMessage}
+      />
+
+      {/* Accessible Success Alert */}
+      <SuccessAlert
+        open={successAlertOpen}
+        onOpenChange={setSuccessAlertOpen}
+        message={successMessage}
+      />
+    </div>
+  );
+}
@@ -1,7 +1,15 @@
 import { useState, useEffect } from "react";
 import { InterviewerScheduleCard } from "@/polymet/components/interviewer-schedule-card";
 import { ReadOnlyWeeklyCalendar } from "@/polymet/components/readonly-weekly-calendar";
-import { db } from "@/polymet/data/database-service";
+import { ScheduleTimeline } from "@/polymet/components/schedule-timeline";
+import { FairnessHeatmap } from "@/polymet/components/fairness-heatmap";
+import { CalendarFeedsDialog } from "@/polymet/components/calendar-feeds-dialog";
+import { TablePagination } from "@/polymet/components/table-pagination";
+import {
+  db,
+  type InterviewerListQuery,
+  type KpiReport,
+} from "@/polymet/data/database-service";
 import type { Interviewer } from "@/polymet/data/mock-interviewers-data";
 import type { InterviewEvent } from "@/polymet/data/mock-interview-events-data";
 import { Input } from "@/components/ui/input";
@@ -11,6 +19,8 @@ import {
   CalendarIcon,
   LayoutGridIcon,
   CalendarDaysIcon,
+  GanttChartIcon,
+  RssIcon,
 } from "lucide-react";
 import {
   Select,
@@ -19,33 +29,102 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { getGroupTotal, getSummaryWeeks } from "@/lib/analytics-utils";
+import { toDateKey } from "@/lib/availability-utils";
+import { DEFAULT_PAGE_SIZE } from "@/lib/pagination-utils";
+import { mapPage, toEventRow, toInterviewerRow } from "@/lib/row-utils";
+import { usePaginatedList } from "@/hooks/use-paginated-list";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+
+// Schedule cards count interviews this many days before and after today
+const CARD_WINDOW_DAYS = 28;
+
+const fetchRosterPage = async (query: InterviewerListQuery) =>
+  mapPage(await db.getInterviewersPage(query), toInterviewerRow);
 
 export function SchedulePage() {
-  const [interviewers, setInterviewers] = useState<Interviewer[]>([]);
+  // One page of interviewers at a time; the calendars load their own range
+  const {
+    items: interviewers,
+    pagination,
+    query,
+    setQuery,
+    loaded,
+  } = usePaginatedList<Interviewer, InterviewerListQuery>(fetchRosterPage, {
+    sort: "name",
+    order: "asc",
+    is_active: true,
+    limit: DEFAULT_PAGE_SIZE,
+    offset: 0,
+  });
   const [events, setEvents] = useState<InterviewEvent[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [eventsLoaded, setEventsLoaded] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [sortBy, setSortBy] = useState<string>("name");
-  const [viewMode, setViewMode] = useState<"cards" | "calendar">("calendar");
+  const [viewMode, setViewMode] = useState<"cards" | "calendar" | "timeline">(
+    "calendar"
+  );
+  const [feedsDialogOpen, setFeedsDialogOpen] = useState(false);
+  const [summary, setSummary] = useState<KpiReport | null>(null);
+  const summaryWeeks = getSummaryWeeks();
+  const debouncedSearch = useDebouncedValue(searchQuery);
 
   useEffect(() => {
-    loadData();
+    loadSummary();
   }, []);
 
-  const loadData = async () => {
+  // Calendar views list active interviewers; the cards search and filter
+  // the roster on the server
+  useEffect(() => {
+    const cards = viewMode === "cards";
+    const isActive =
+      !cards || statusFilter === "active"
+        ? true
+        : statusFilter === "inactive"
+          ? false
+          : undefined;
+    const search = cards && debouncedSearch ? debouncedSearch : undefined;
+    if (query.is_active === isActive && query.search === search) return;
+    setQuery({ ...query, is_active: isActive, search, offset: 0 });
+  }, [viewMode, statusFilter, debouncedSearch, query, setQuery]);
+
+  // Interviews around today, loaded the first time the cards are shown
+  useEffect(() => {
+    if (viewMode !== "cards" || eventsLoaded) return;
+
+    const loadCardEvents = async () => {
+      const start = new Date();
+      start.setDate(start.getDate() - CARD_WINDOW_DAYS);
+      const end = new Date();
+      end.setDate(end.getDate() + CARD_WINDOW_DAYS);
+
+      try {
+        const data = await db.getInterviewEvents({
+          start_date: toDateKey(start),
+          end_date: toDateKey(end),
+        });
+        setEvents(data.map(toEventRow));
+        setEventsLoaded(true);
+      } catch (error) {
+        console.error("Failed to load schedule data:", error);
+      }
+    };
+
+    loadCardEvents();
+  }, [viewMode, eventsLoaded]);
+
+  // Weekly totals from last week's Monday on, counted on the server
+  const loadSummary = async () => {
     try {
-      setLoading(true);
-      const [interviewersData, eventsData] = await Promise.all([
-        db.getInterviewers(),
-        db.getInterviewEvents(),
-      ]);
-      setInterviewers(interviewersData);
-      setEvents(eventsData);
+      setSummary(
+        await db.getKpis({
+          start_date: getSummaryWeeks().lastWeek,
+          group_by: "week",
+        })
+      );
     } catch (error) {
-      console.error("Failed to load schedule data:", error);
-    } finally {
-      setLoading(false);
+      console.error("Failed to load schedule summary:", error);
     }
   };
 
@@ -67,28 +146,13 @@ export function SchedulePage() {
     };
   });
 
-  // Apply filters
-  const filteredSchedules = interviewerSchedules.filter((schedule) => {
-    const matchesSearch =
-      schedule.interviewer.name
-        .toLowerCase()
-        .includes(searchQuery.toLowerCase()) ||
-      schedule.interviewer.email
-        .toLowerCase()
-        .includes(searchQuery.toLowerCase()) ||
-      schedule.interviewer.skills.some((skill) =>
-        skill.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-
-    const matchesStatus =
-      statusFilter === "all" ||
-      (statusFilter === "active" && schedule.interviewer.is_active) ||
-      (statusFilter === "inactive" && !schedule.interviewer.is_active) ||
-      (statusFilter === "has-upcoming" && schedule.upcomingCount > 0) ||
-      (statusFilter === "no-upcoming" && schedule.upcomingCount === 0);
-
-    return matchesSearch && matchesStatus;
-  });
+  // Upcoming filters apply to the shown page (search and active status are
+  // applied by the server)
+  const filteredSchedules = interviewerSchedules.filter(
+    (schedule) =>
+      (statusFilter !== "has-upcoming" || schedule.upcomingCount > 0) &&
+      (statusFilter !== "no-upcoming" || schedule.upcomingCount === 0)
+  );
 
   // Apply sorting
   const sortedSchedules = [...filteredSchedules].sort((a, b) => {
@@ -108,51 +172,17 @@ export function SchedulePage() {
     }
   });
 
-  // Calculate last week's data (previous Monday-Sunday)
-  const now = new Date();
-  const currentDay = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-  const daysToLastMonday = currentDay === 0 ? 6 : currentDay - 1; // Days since this week's Monday
-
-  // Get last week's Monday
-  const lastWeekStart = new Date(now);
-  lastWeekStart.setDate(now.getDate() - daysToLastMonday - 7);
-  lastWeekStart.setHours(0, 0, 0, 0);
-
-  // Get last week's Sunday
-  const lastWeekEnd = new Date(lastWeekStart);
-  lastWeekEnd.setDate(lastWeekStart.getDate() + 6);
-  lastWeekEnd.setHours(23, 59, 59, 999);
-
-  const lastWeekEvents = events.filter((event) => {
-    const eventDate = new Date(event.start_time);
-    return eventDate >= lastWeekStart && eventDate <= lastWeekEnd;
-  });
-
-  const totalInterviewsLastWeek = lastWeekEvents.length;
-
-  // Calculate this week's total interviews (current Monday-Sunday)
-  const thisWeekStart = new Date(now);
-  const daysToThisMonday = currentDay === 0 ? 6 : currentDay - 1;
-  thisWeekStart.setDate(now.getDate() - daysToThisMonday);
-  thisWeekStart.setHours(0, 0, 0, 0);
-
-  const thisWeekEnd = new Date(thisWeekStart);
-  thisWeekEnd.setDate(thisWeekStart.getDate() + 6);
-  thisWeekEnd.setHours(23, 59, 59, 999);
-
-  const thisWeekEvents = events.filter((event) => {
-    const eventDate = new Date(event.start_time);
-    return eventDate >= thisWeekStart && eventDate <= thisWeekEnd;
-  });
-
-  const totalInterviewsThisWeek = thisWeekEvents.length;
-
-  const totalUpcoming = interviewerSchedules.reduce(
-    (sum, schedule) => sum + schedule.upcomingCount,
-    0
+  const totalInterviewsLastWeek = getGroupTotal(
+    summary?.groups ?? [],
+    summaryWeeks.lastWeek
   );
+  const totalInterviewsThisWeek = getGroupTotal(
+    summary?.groups ?? [],
+    summaryWeeks.thisWeek
+  );
+  const totalUpcoming = summary?.totals.upcoming ?? 0;
 
-  if (loading) {
+  if (!loaded) {
     return (
       <div className="space-y-6">
         <div>
@@ -172,28 +202,53 @@ export function SchedulePage() {
             View and manage interview schedules per interviewer
           </p>
         </div>
-        <div className="flex items-center gap-2 bg-muted p-1 rounded-lg">
+        <div className="flex items-center gap-2">
           <Button
-            variant={viewMode === "calendar" ? "default" : "ghost"}
+            variant="outline"
             size="sm"
-            onClick={() => setViewMode("calendar")}
+            onClick={() => setFeedsDialogOpen(true)}
             className="gap-2"
           >
-            <CalendarDaysIcon className="h-4 w-4" />
-            Calendar
-          </Button>
-          <Button
-            variant={viewMode === "cards" ? "default" : "ghost"}
-            size="sm"
-            onClick={() => setViewMode("cards")}
-            className="gap-2"
-          >
-            <LayoutGridIcon className="h-4 w-4" />
-            Cards
+            <RssIcon className="h-4 w-4" />
+            Subscribe
           </Button>
+          <div className="flex items-center gap-2 bg-muted p-1 rounded-lg">
+            <Button
+              variant={viewMode === "calendar" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setViewMode("calendar")}
+              className="gap-2"
+            >
+              <CalendarDaysIcon className="h-4 w-4" />
+              Calendar
+            </Button>
+            <Button
+              variant={viewMode === "timeline" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setViewMode("timeline")}
+              className="gap-2"
+            >
+              <GanttChartIcon className="h-4 w-4" />
+              Timeline
+            </Button>
+            <Button
+              variant={viewMode === "cards" ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setViewMode("cards")}
+              className="gap-2"
+            >
+              <LayoutGridIcon className="h-4 w-4" />
+              Cards
+            </Button>
+          </div>
         </div>
       </div>
 
+      <CalendarFeedsDialog
+        open={feedsDialogOpen}
+        onOpenChange={setFeedsDialogOpen}
+      />
+
       {/* Summary Stats */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
         <div className="bg-card border border-border rounded-lg p-4">
@@ -222,9 +277,14 @@ export function SchedulePage() {
         </div>
       </div>
 
+      {/* Fairness Heatmap */}
+      <FairnessHeatmap />
+
       {/* Calendar View */}
       {viewMode === "calendar" ? (
-        <ReadOnlyWeeklyCalendar interviewers={interviewers} events={events} />
+        <ReadOnlyWeeklyCalendar interviewers={interviewers} events={[]} />
+      ) : viewMode === "timeline" ? (
+        <ScheduleTimeline interviewers={interviewers} />
       ) : (
         <>
           {/* Filters */}
@@ -264,6 +324,10 @@ export function SchedulePage() {
               </SelectContent>
             </Select>
           </div>
+          <p className="text-sm text-muted-foreground">
+            Interview counts cover the {CARD_WINDOW_DAYS / 7} weeks before and
+            after today
+          </p>
 
           {/* Schedule Cards */}
           {sortedSchedules.length === 0 ? (
@@ -288,14 +352,17 @@ export function SchedulePage() {
                 ))}
               </div>
 
-              <div className="text-sm text-muted-foreground text-center">
-                Showing {sortedSchedules.length} of{" "}
-                {interviewerSchedules.length} interviewers
-              </div>
             </>
           )}
         </>
       )}
+
+      <TablePagination
+        pagination={pagination}
+        itemLabel="interviewers"
+        onPageChange={(offset) => setQuery({ ...query, offset })}
+        onPageSizeChange={(limit) => setQuery({ ...query, limit, offset: 0 })}
+      />
     </div>
   );
 }